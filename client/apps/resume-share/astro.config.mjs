@@ -0,0 +1,33 @@
+import node from "@astrojs/node";
+import { envSchema } from "@cvix/astro-ui/env";
+import { CVIX_RESUME_SHARE_URL, PORTS } from "@cvix/lib";
+import { CVIX_SSR_NO_EXTERNAL, getHttpsConfig } from "@cvix/lib/astro";
+import tailwindcss from "@tailwindcss/vite";
+import { defineConfig } from "astro/config";
+
+export default defineConfig({
+	site: CVIX_RESUME_SHARE_URL,
+	server: {
+		port: PORTS.RESUME_SHARE,
+	},
+
+	// SSR mode required: shares can be unpublished, expire or need a password
+	output: "server",
+	adapter: node({
+		mode: "standalone",
+	}),
+
+	env: {
+		schema: envSchema,
+	},
+
+	vite: {
+		plugins: [tailwindcss()],
+		ssr: {
+			noExternal: [...CVIX_SSR_NO_EXTERNAL],
+		},
+		server: {
+			https: getHttpsConfig(),
+		},
+	},
+});
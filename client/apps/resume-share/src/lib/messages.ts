@@ -0,0 +1,91 @@
+/**
+ * UI messages of the public resume view, in the languages the webapp supports.
+ */
+export const messages = {
+	en: {
+		skipLink: "Skip to resume",
+		downloadPdf: "Download PDF",
+		present: "Present",
+		sections: {
+			summary: "Summary",
+			work: "Experience",
+			volunteer: "Volunteering",
+			education: "Education",
+			projects: "Projects",
+			skills: "Skills",
+			languages: "Languages",
+			certificates: "Certificates",
+			awards: "Awards",
+			publications: "Publications",
+			interests: "Interests",
+			references: "References",
+		},
+		passwordTitle: "Password required",
+		passwordDescription:
+			"The owner of this resume protected it with a password.",
+		passwordLabel: "Password",
+		passwordSubmit: "View resume",
+		wrongPassword: "Incorrect password. Please try again.",
+		notFoundTitle: "Resume Not Found",
+		notFoundDescription:
+			"This resume is not available. It may have been unpublished, or the link might be incorrect.",
+		expiredTitle: "Link Expired",
+		expiredDescription:
+			"This link has expired. Ask the owner of the resume for a new one.",
+		errorTitle: "Error Loading Resume",
+		errorDescription: "Something went wrong. Please try again later.",
+		poweredBy: "Powered by",
+	},
+	es: {
+		skipLink: "Ir al currículum",
+		downloadPdf: "Descargar PDF",
+		present: "Actualidad",
+		sections: {
+			summary: "Resumen",
+			work: "Experiencia",
+			volunteer: "Voluntariado",
+			education: "Educación",
+			projects: "Proyectos",
+			skills: "Habilidades",
+			languages: "Idiomas",
+			certificates: "Certificados",
+			awards: "Premios",
+			publications: "Publicaciones",
+			interests: "Intereses",
+			references: "Referencias",
+		},
+		passwordTitle: "Contraseña requerida",
+		passwordDescription:
+			"El propietario de este currículum lo protegió con una contraseña.",
+		passwordLabel: "Contraseña",
+		passwordSubmit: "Ver currículum",
+		wrongPassword: "Contraseña incorrecta. Por favor, inténtalo de nuevo.",
+		notFoundTitle: "Currículum No Encontrado",
+		notFoundDescription:
+			"Este currículum no está disponible. Puede haber dejado de publicarse o el enlace podría ser incorrecto.",
+		expiredTitle: "Enlace Caducado",
+		expiredDescription:
+			"Este enlace ha caducado. Pide un enlace nuevo al propietario del currículum.",
+		errorTitle: "Error al Cargar el Currículum",
+		errorDescription:
+			"Algo salió mal. Por favor, inténtalo de nuevo más tarde.",
+		poweredBy: "Desarrollado por",
+	},
+} as const;
+
+export type Lang = keyof typeof messages;
+
+/**
+ * Picks the language of the view: the published locale, then the visitor's
+ * browser language, then English.
+ */
+export function resolveLang(
+	locale: string | undefined,
+	acceptLanguage: string | null,
+): Lang {
+	for (const candidate of [locale, acceptLanguage]) {
+		const code = candidate?.slice(0, 2).toLowerCase();
+		if (code === "en" || code === "es") return code;
+	}
+	return "en";
+}
@@ -0,0 +1,214 @@
+import { CVIX_API_URL } from "@cvix/lib";
+
+/**
+ * Resume content as published from the webapp (JSON Resume schema,
+ * already stripped of the sections the owner chose to hide).
+ */
+export type SharedResumeContent = {
+	basics: {
+		name: string;
+		label: string;
+		image: string;
+		email: string;
+		phone: string;
+		url: string;
+		summary: string;
+		location: {
+			city: string;
+			region: string;
+			countryCode: string;
+		} | null;
+		profiles: { network: string; username: string; url: string }[];
+	};
+	work: DatedEntry<{ name: string; position: string; url: string }>[];
+	volunteer: DatedEntry<{
+		organization: string;
+		position: string;
+		url: string;
+	}>[];
+	education: {
+		institution: string;
+		url: string;
+		area: string;
+		studyType: string;
+		startDate: string;
+		endDate: string;
+		score: string;
+		courses: string[];
+	}[];
+	awards: { title: string; date: string; awarder: string; summary: string }[];
+	certificates: { name: string; date: string; issuer: string; url: string }[];
+	publications: {
+		name: string;
+		publisher: string;
+		releaseDate: string;
+		url: string;
+		summary: string;
+	}[];
+	skills: { name: string; level: string; keywords: string[] }[];
+	languages: { language: string; fluency: string }[];
+	interests: { name: string; keywords: string[] }[];
+	references: { name: string; reference: string }[];
+	projects: {
+		name: string;
+		startDate: string;
+		endDate: string;
+		description: string;
+		highlights: string[];
+		url: string;
+	}[];
+};
+
+type DatedEntry<T> = T & {
+	startDate: string;
+	endDate: string;
+	summary: string;
+	highlights: string[];
+};
+
+/**
+ * Public share payload returned by the API.
+ */
+export type SharedResume = {
+	id: string;
+	resume: SharedResumeContent;
+	locale: string;
+	templateId: string | null;
+	expiresAt: string | null;
+	/** Whether the owner allows visits to be recorded for their share analytics */
+	trackViews: boolean;
+};
+
+/**
+ * Outcome of loading a share:
+ * - `passwordRequired`: the share is protected (`wrongPassword` when one was sent)
+ * - `notFound`: unknown or unpublished share
+ * - `expired`: the share passed its expiry date
+ */
+export type SharedResumeResult =
+	| { status: "ok"; share: SharedResume }
+	| { status: "passwordRequired"; wrongPassword: boolean }
+	| { status: "notFound" }
+	| { status: "expired" }
+	| { status: "error"; code: number };
+
+/**
+ * Header carrying the password of protected shares.
+ */
+export const SHARE_PASSWORD_HEADER = "X-Share-Password";
+
+/**
+ * Builds the API URL of a share, or of one of its sub-resources.
+ */
+export function shareApiUrl(shareId: string, path = ""): string {
+	return `${CVIX_API_URL}/api/public/resume-shares/${encodeURIComponent(shareId)}${path}`;
+}
+
+/**
+ * Builds the request headers, adding the password when one was entered.
+ */
+export function shareHeaders(
+	accept: string,
+	password: string | null,
+): Record<string, string> {
+	return password
+		? { Accept: accept, [SHARE_PASSWORD_HEADER]: password }
+		: { Accept: accept };
+}
+
+/**
+ * Fills in the lists the API leaves out of optional fields, so the view can
+ * iterate over every section and entry list.
+ */
+function normalizeResume(resume: SharedResumeContent): SharedResumeContent {
+	const withHighlights = <T extends { highlights: string[] }>(entries?: T[]) =>
+		(entries ?? []).map((entry) => ({
+			...entry,
+			highlights: entry.highlights ?? [],
+		}));
+	const withKeywords = <T extends { keywords: string[] }>(entries?: T[]) =>
+		(entries ?? []).map((entry) => ({
+			...entry,
+			keywords: entry.keywords ?? [],
+		}));
+	return {
+		basics: { ...resume.basics, profiles: resume.basics.profiles ?? [] },
+		work: withHighlights(resume.work),
+		volunteer: withHighlights(resume.volunteer),
+		education: (resume.education ?? []).map((entry) => ({
+			...entry,
+			courses: entry.courses ?? [],
+		})),
+		awards: resume.awards ?? [],
+		certificates: resume.certificates ?? [],
+		publications: resume.publications ?? [],
+		skills: withKeywords(resume.skills),
+		languages: resume.languages ?? [],
+		interests: withKeywords(resume.interests),
+		references: resume.references ?? [],
+		projects: withHighlights(resume.projects),
+	};
+}
+
+/**
+ * Loads a published resume.
+ *
+ * @param shareId - The share ID from the public URL
+ * @param password - The password entered by the visitor, if any
+ */
+export async function fetchSharedResume(
+	shareId: string,
+	password: string | null,
+): Promise<SharedResumeResult> {
+	try {
+		const res = await fetch(shareApiUrl(shareId), {
+			headers: shareHeaders("application/vnd.api.v1+json", password),
+		});
+		if (res.ok) {
+			const share: SharedResume = await res.json();
+			return {
+				status: "ok",
+				share: { ...share, resume: normalizeResume(share.resume) },
+			};
+		}
+		if (res.status === 401) {
+			return { status: "passwordRequired", wrongPassword: password !== null };
+		}
+		if (res.status === 404) return { status: "notFound" };
+		if (res.status === 410) return { status: "expired" };
+		return { status: "error", code: res.status };
+	} catch (e) {
+		console.error(
+			`[shareId.astro] Failed to fetch resume share ${shareId}:`,
+			e,
+		);
+		return { status: "error", code: 500 };
+	}
+}
+
+/**
+ * Fields posted by the password and download forms.
+ */
+export type ShareSubmission = {
+	password: string | null;
+	viewId: string | null;
+};
+
+/**
+ * Reads the fields posted by the password and download forms.
+ */
+export async function readSubmission(
+	request: Request,
+): Promise<ShareSubmission> {
+	if (request.method !== "POST") return { password: null, viewId: null };
+	try {
+		const form = await request.formData();
+		const field = (name: string) => {
+			const value = form.get(name);
+			return typeof value === "string" && value.length > 0 ? value : null;
+		};
+		return { password: field("password"), viewId: field("view") };
+	} catch {
+		return { password: null, viewId: null };
+	}
+}
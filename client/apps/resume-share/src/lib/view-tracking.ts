@@ -0,0 +1,70 @@
+import { shareApiUrl, shareHeaders } from "./shared-resume";
+
+/**
+ * Coarse device class of a visitor; null for crawlers, which are not recorded.
+ */
+export type DeviceClass = "desktop" | "mobile" | "tablet";
+
+const BOT_PATTERN =
+	/bot|crawl|spider|slurp|preview|facebookexternalhit|headless|curl|wget/i;
+
+/**
+ * Classifies a visitor from its user agent. Nothing else from the user agent
+ * is kept.
+ */
+export function classifyDevice(userAgent: string | null): DeviceClass | null {
+	if (!userAgent || BOT_PATTERN.test(userAgent)) return null;
+	if (/ipad|tablet|kindle|silk|(android(?!.*mobile))/i.test(userAgent)) {
+		return "tablet";
+	}
+	if (/mobi|iphone|ipod|android|windows phone/i.test(userAgent)) {
+		return "mobile";
+	}
+	return "desktop";
+}
+
+/**
+ * Reduces a referrer to its host name. Visits coming from this site (e.g. the
+ * password form) count as direct.
+ */
+export function coarseReferrer(
+	referrer: string | null,
+	ownUrl: URL,
+): string | null {
+	if (!referrer) return null;
+	try {
+		const { hostname } = new URL(referrer);
+		return hostname && hostname !== ownUrl.hostname ? hostname : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Records a visit, or marks it as downloaded. Tracking never delays or breaks
+ * the page: failures are only logged.
+ *
+ * @param shareId - The share ID
+ * @param viewId - ID of the visit, generated when the page is rendered
+ * @param event - The visit details, or the PDF download of an existing visit
+ * @param password - The password of protected shares
+ */
+export function recordView(
+	shareId: string,
+	viewId: string,
+	event:
+		| { referrer: string | null; device: DeviceClass; pdfDownloaded: boolean }
+		| { pdfDownloaded: true },
+	password: string | null,
+): void {
+	fetch(shareApiUrl(shareId, `/views/${encodeURIComponent(viewId)}`), {
+		method: "referrer" in event ? "PUT" : "PATCH",
+		headers: {
+			...shareHeaders("application/vnd.api.v1+json", password),
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify(event),
+	}).catch((e) => {
+		console.error(`[view-tracking] Failed to record view of ${shareId}:`, e);
+	});
+}
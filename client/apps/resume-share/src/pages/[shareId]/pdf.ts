@@ -0,0 +1,77 @@
+import type { APIRoute } from "astro";
+import { readSubmission, shareApiUrl, shareHeaders } from "@/lib/shared-resume";
+import {
+	classifyDevice,
+	coarseReferrer,
+	recordView,
+} from "@/lib/view-tracking";
+
+export const prerender = false;
+
+/**
+ * Marks the visit the download came from, or records a new visit when the PDF
+ * link was opened directly. The API drops the visits of shares whose owner
+ * opted out of analytics.
+ */
+function trackDownload(
+	request: Request,
+	url: URL,
+	shareId: string,
+	viewId: string | null,
+	password: string | null,
+): void {
+	const device = classifyDevice(request.headers.get("user-agent"));
+	if (!device) return;
+	if (viewId) {
+		recordView(shareId, viewId, { pdfDownloaded: true }, password);
+		return;
+	}
+	recordView(
+		shareId,
+		crypto.randomUUID(),
+		{
+			referrer: coarseReferrer(request.headers.get("referer"), url),
+			device,
+			pdfDownloaded: true,
+		},
+		password,
+	);
+}
+
+/**
+ * Streams the PDF of a published resume, rendered by the API with the
+ * template chosen when publishing.
+ */
+const downloadPdf: APIRoute = async ({ params, request, redirect, url }) => {
+	const shareId = params.shareId ?? "";
+	const { password, viewId } = await readSubmission(request);
+
+	try {
+		const res = await fetch(shareApiUrl(shareId, "/pdf"), {
+			headers: shareHeaders("application/pdf", password),
+		});
+		if (!res.ok || !res.body) {
+			// Let the page explain what went wrong (password, expiry, not found)
+			return redirect(`/${encodeURIComponent(shareId)}`, 303);
+		}
+		trackDownload(request, url, shareId, viewId, password);
+		return new Response(res.body, {
+			headers: {
+				"Content-Type": "application/pdf",
+				"Content-Disposition":
+					res.headers.get("Content-Disposition") ??
+					'attachment; filename="resume.pdf"',
+				"Cache-Control": "private, no-store",
+			},
+		});
+	} catch (e) {
+		console.error(
+			`[pdf.ts] Failed to fetch PDF of resume share ${shareId}:`,
+			e,
+		);
+		return new Response("Failed to generate PDF", { status: 502 });
+	}
+};
+
+export const GET = downloadPdf;
+export const POST = downloadPdf;
@@ -0,0 +1,370 @@
+import {
+	type CrossTabBus,
+	type CrossTabEvents,
+	crossTabBus,
+} from "@/shared/CrossTabBus";
+import {
+	refreshSession,
+	setSessionRefreshHandler,
+} from "@/shared/SessionRefresh";
+import {
+	type AuthSessionStorage,
+	authSessionStorage,
+} from "../storage/SessionStorage.ts";
+
+/**
+ * localStorage key of the lock held by the tab refreshing the session
+ */
+export const SESSION_REFRESH_LOCK_KEY = "cvix:auth-session:refresh-lock";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"];
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15_000;
+
+/**
+ * Why the session manager ended a session
+ */
+export type SessionEndReason = CrossTabEvents["session:ended"]["reason"];
+
+interface RefreshLock {
+	owner: string;
+	acquiredAt: number;
+}
+
+/**
+ * Options of the session manager
+ */
+export interface SessionManagerOptions {
+	/** Renews the access token, stores its new expiration and announces it */
+	refresh: () => Promise<void>;
+	/** Signs the user out */
+	logout: () => Promise<void>;
+	/** Keeps the user's unsaved work before a forced logout */
+	saveDraft: () => Promise<void>;
+	/** Called when the user is about to be signed out for inactivity */
+	onIdleWarning?: (logoutAt: number) => void;
+	/** Called when activity resumed before the idle timeout */
+	onIdleWarningCancelled?: () => void;
+	/** Called when this or another tab ended the session */
+	onSessionEnded?: (reason: SessionEndReason) => void;
+	storage?: AuthSessionStorage;
+	bus?: CrossTabBus;
+	/** How long before the expiration the token is refreshed */
+	refreshLeadMs?: number;
+	/** How long the user may be inactive before being signed out */
+	idleTimeoutMs?: number;
+	/** How long before the idle timeout the user is warned */
+	idleWarningMs?: number;
+	/** How long a refresh lock held by another tab is honored */
+	refreshLockMs?: number;
+}
+
+/**
+ * Keeps the authentication session of a signed-in user alive.
+ *
+ * Refreshes the access token shortly before it expires and renews it on
+ * demand for HTTP clients that received a 401. Both go through the same
+ * in-flight refresh of the tab and the same localStorage lock between tabs,
+ * so only one refresh runs at a time and every tab shares the new expiration
+ * and the user's activity. After a
+ * period of inactivity, when the session cannot be renewed, or when another
+ * tab signs out, the draft of the open resume is saved before the user is
+ * signed out.
+ */
+export class SessionManager {
+	private readonly storage: AuthSessionStorage;
+	private readonly bus: CrossTabBus;
+	private readonly refreshLeadMs: number;
+	private readonly idleTimeoutMs: number;
+	private readonly idleWarningMs: number;
+	private readonly refreshLockMs: number;
+	private readonly tabId = crypto.randomUUID();
+
+	private unsubscribers: Array<() => void> = [];
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+	private idleTimer: ReturnType<typeof setTimeout> | null = null;
+	private lastActivityAt = 0;
+	private lastActivityBroadcastAt = 0;
+	private idleWarningShown = false;
+	private running = false;
+	private ending = false;
+
+	constructor(private readonly options: SessionManagerOptions) {
+		this.storage = options.storage ?? authSessionStorage;
+		this.bus = options.bus ?? crossTabBus;
+		this.refreshLeadMs = options.refreshLeadMs ?? 60_000;
+		this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60_000;
+		this.idleWarningMs = options.idleWarningMs ?? 60_000;
+		this.refreshLockMs = options.refreshLockMs ?? 10_000;
+	}
+
+	/**
+	 * Whether the manager is watching a session
+	 */
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Starts watching the session of the signed-in user.
+	 */
+	start(): void {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		this.lastActivityAt = Date.now();
+		setSessionRefreshHandler(() => this.renew());
+
+		this.unsubscribers = [
+			this.bus.subscribe("auth:refreshed", ({ expiresAt }) => {
+				this.storage.setSessionExpiresAt(expiresAt);
+				this.scheduleRefresh();
+			}),
+			this.bus.subscribe("session:activity", ({ at }) =>
+				this.handleRemoteActivity(at),
+			),
+			this.bus.subscribe("session:ended", ({ reason }) =>
+				this.options.onSessionEnded?.(reason),
+			),
+			// The auth store signs this tab out too; keep the work first
+			this.bus.subscribe("auth:logout", () => void this.saveDraft()),
+		];
+		for (const event of ACTIVITY_EVENTS) {
+			window.addEventListener(event, this.handleActivity, { passive: true });
+		}
+		document.addEventListener("visibilitychange", this.handleVisibilityChange);
+
+		this.scheduleRefresh();
+		this.checkIdle();
+	}
+
+	/**
+	 * Stops watching the session, e.g. after the user signed out.
+	 */
+	stop(): void {
+		if (!this.running) {
+			return;
+		}
+		this.running = false;
+		setSessionRefreshHandler(null);
+		this.clearTimers();
+
+		for (const event of ACTIVITY_EVENTS) {
+			window.removeEventListener(event, this.handleActivity);
+		}
+		document.removeEventListener(
+			"visibilitychange",
+			this.handleVisibilityChange,
+		);
+		for (const unsubscribe of this.unsubscribers) {
+			unsubscribe();
+		}
+		this.unsubscribers = [];
+
+		if (this.idleWarningShown) {
+			this.idleWarningShown = false;
+			this.options.onIdleWarningCancelled?.();
+		}
+	}
+
+	/**
+	 * Records that the user wants to stay signed in.
+	 */
+	keepAlive(): void {
+		this.handleActivity();
+	}
+
+	private readonly handleActivity = (): void => {
+		const now = Date.now();
+		this.lastActivityAt = now;
+
+		if (now - this.lastActivityBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+			this.lastActivityBroadcastAt = now;
+			this.bus.publish("session:activity", { at: now });
+		}
+		if (this.idleWarningShown) {
+			this.checkIdle();
+		}
+	};
+
+	// Timers of hidden tabs are throttled, so catch up when the tab is shown
+	private readonly handleVisibilityChange = (): void => {
+		if (document.visibilityState === "visible") {
+			this.scheduleRefresh();
+			this.checkIdle();
+		}
+	};
+
+	private handleRemoteActivity(at: number): void {
+		if (at > this.lastActivityAt) {
+			this.lastActivityAt = at;
+			if (this.idleWarningShown) {
+				this.checkIdle();
+			}
+		}
+	}
+
+	private scheduleRefresh(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+		const expiresAt = this.storage.getSessionExpiration();
+		if (!this.running || expiresAt === null) {
+			return;
+		}
+
+		const delay = Math.max(expiresAt - this.refreshLeadMs - Date.now(), 0);
+		this.refreshTimer = setTimeout(() => this.refreshOnSchedule(), delay);
+	}
+
+	private refreshOnSchedule(): void {
+		this.refreshTimer = null;
+		void refreshSession();
+	}
+
+	/**
+	 * Refreshes the session for the scheduler and for 401 retries alike.
+	 * When another tab holds the refresh lock, waits for the expiration it
+	 * announces instead, and takes over if it was closed before it could.
+	 */
+	private async renew(): Promise<boolean> {
+		if (!this.acquireRefreshLock()) {
+			if (await this.waitForRemoteRefresh()) {
+				return true;
+			}
+			if (!this.running || !this.acquireRefreshLock()) {
+				return false;
+			}
+		}
+		try {
+			await this.options.refresh();
+		} catch (error) {
+			console.warn("Failed to refresh the session:", error);
+			this.releaseRefreshLock();
+			await this.end("expired");
+			return false;
+		}
+		this.releaseRefreshLock();
+		this.scheduleRefresh();
+		return true;
+	}
+
+	private checkIdle(): void {
+		if (this.idleTimer) {
+			clearTimeout(this.idleTimer);
+			this.idleTimer = null;
+		}
+		if (!this.running) {
+			return;
+		}
+
+		const now = Date.now();
+		const logoutAt = this.lastActivityAt + this.idleTimeoutMs;
+		const warnAt = logoutAt - this.idleWarningMs;
+
+		if (now >= logoutAt) {
+			void this.end("idle");
+			return;
+		}
+		if (now >= warnAt) {
+			if (!this.idleWarningShown) {
+				this.idleWarningShown = true;
+				this.options.onIdleWarning?.(logoutAt);
+			}
+			this.idleTimer = setTimeout(() => this.checkIdle(), logoutAt - now);
+			return;
+		}
+		if (this.idleWarningShown) {
+			this.idleWarningShown = false;
+			this.options.onIdleWarningCancelled?.();
+		}
+		this.idleTimer = setTimeout(() => this.checkIdle(), warnAt - now);
+	}
+
+	/**
+	 * Saves the draft and signs the user out of every tab.
+	 *
+	 * @param reason - Why the session ends
+	 */
+	private async end(reason: SessionEndReason): Promise<void> {
+		if (!this.running || this.ending) {
+			return;
+		}
+		this.ending = true;
+
+		try {
+			await this.saveDraft();
+			this.bus.publish("session:ended", { reason });
+			this.stop();
+			this.options.onSessionEnded?.(reason);
+			await this.options.logout();
+		} finally {
+			this.ending = false;
+		}
+	}
+
+	private async saveDraft(): Promise<void> {
+		try {
+			await this.options.saveDraft();
+		} catch (error) {
+			console.warn("Failed to save the draft before logout:", error);
+		}
+	}
+
+	private waitForRemoteRefresh(): Promise<boolean> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				unsubscribe();
+				resolve(false);
+			}, this.refreshLockMs);
+			const unsubscribe = this.bus.subscribe("auth:refreshed", () => {
+				clearTimeout(timer);
+				unsubscribe();
+				resolve(true);
+			});
+		});
+	}
+
+	private acquireRefreshLock(): boolean {
+		const now = Date.now();
+		const lock = this.readRefreshLock();
+		if (
+			lock &&
+			lock.owner !== this.tabId &&
+			now - lock.acquiredAt < this.refreshLockMs
+		) {
+			return false;
+		}
+
+		const ownLock: RefreshLock = { owner: this.tabId, acquiredAt: now };
+		localStorage.setItem(SESSION_REFRESH_LOCK_KEY, JSON.stringify(ownLock));
+		return true;
+	}
+
+	private releaseRefreshLock(): void {
+		if (this.readRefreshLock()?.owner === this.tabId) {
+			localStorage.removeItem(SESSION_REFRESH_LOCK_KEY);
+		}
+	}
+
+	private readRefreshLock(): RefreshLock | null {
+		try {
+			const raw = localStorage.getItem(SESSION_REFRESH_LOCK_KEY);
+			return raw ? (JSON.parse(raw) as RefreshLock) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private clearTimers(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+		if (this.idleTimer) {
+			clearTimeout(this.idleTimer);
+			this.idleTimer = null;
+		}
+	}
+}
@@ -9,8 +9,15 @@ export class AuthSessionStorage {
 	 * @param expiresIn Time in seconds until the session expires
 	 */
 	setSessionExpiration(expiresIn: number): void {
-		const expirationTime = Date.now() + expiresIn * 1000;
-		window.sessionStorage.setItem(SESSION_KEY, expirationTime.toString());
+		this.setSessionExpiresAt(Date.now() + expiresIn * 1000);
+	}
+
+	/**
+	 * Store the session expiration timestamp, e.g. one received from another tab
+	 * @param expiresAt Timestamp in milliseconds at which the session expires
+	 */
+	setSessionExpiresAt(expiresAt: number): void {
+		window.sessionStorage.setItem(SESSION_KEY, expiresAt.toString());
 	}
 
 	/**
@@ -0,0 +1,83 @@
+import { onScopeDispose, readonly, ref, watch } from "vue";
+import { useI18n } from "vue-i18n";
+import { toast } from "vue-sonner";
+import { AutosaveDraftStorage } from "@/core/resume/infrastructure/storage/AutosaveDraftStorage";
+import { useResumeStore } from "@/core/resume/infrastructure/store/resume.store";
+import { SessionManager } from "../../infrastructure/session/SessionManager.ts";
+import { useAuthStore } from "../stores/authStore.ts";
+
+/**
+ * Composable that keeps the session of the signed-in user alive
+ * Starts the session manager on login and stops it on logout, and exposes
+ * the idle warning so it can be shown to the user
+ *
+ * @example
+ * ```typescript
+ * const { idleLogoutAt, stayActive, logoutNow } = useSessionManager();
+ * ```
+ */
+export function useSessionManager() {
+	const authStore = useAuthStore();
+	const resumeStore = useResumeStore();
+	const { t } = useI18n();
+	const draftStorage = new AutosaveDraftStorage();
+
+	/** When the idle user will be signed out, or null when not idle */
+	const idleLogoutAt = ref<number | null>(null);
+
+	const manager = new SessionManager({
+		refresh: () => authStore.renewSession(),
+		logout: () => authStore.logout(),
+		saveDraft: async () => {
+			const draft = resumeStore.exportResume();
+			if (draft) {
+				await draftStorage.save(draft);
+			}
+		},
+		onIdleWarning: (logoutAt) => {
+			idleLogoutAt.value = logoutAt;
+		},
+		onIdleWarningCancelled: () => {
+			idleLogoutAt.value = null;
+		},
+		onSessionEnded: (reason) => {
+			idleLogoutAt.value = null;
+			toast.info(t(`session.ended.${reason}`));
+		},
+	});
+
+	watch(
+		() => authStore.isAuthenticated,
+		(isAuthenticated) => {
+			if (isAuthenticated) {
+				manager.start();
+			} else {
+				manager.stop();
+			}
+		},
+		{ immediate: true },
+	);
+
+	onScopeDispose(() => manager.stop());
+
+	/**
+	 * Keep the session after the idle warning
+	 */
+	function stayActive(): void {
+		manager.keepAlive();
+	}
+
+	/**
+	 * Sign out right away from the idle warning
+	 */
+	async function logoutNow(): Promise<void> {
+		idleLogoutAt.value = null;
+		await authStore.logout();
+	}
+
+	return {
+		idleLogoutAt: readonly(idleLogoutAt),
+		stayActive,
+		logoutNow,
+	};
+}
@@ -1,6 +1,7 @@
 import { defineStore } from "pinia";
 import { computed, ref } from "vue";
 import { useWorkspaceStore } from "@/core/workspace/infrastructure/store/workspaceStore.ts";
+import { crossTabBus } from "@/shared/CrossTabBus";
 import { AuthenticationError } from "../../domain/errors/auth.errors.ts";
 import type { Session, User } from "../../domain/models/auth.model.ts";
 import type {
@@ -69,6 +70,11 @@ export const useAuthStore = defineStore("auth", () => {
 
 			// Fetch user details after successful login
 			user.value = await httpClient.getCurrentUser();
+
+			// Let the other tabs restore the session from the shared cookies
+			crossTabBus.publish("auth:login", {
+				expiresAt: authSessionStorage.getSessionExpiration(),
+			});
 		} catch (err) {
 			error.value = err instanceof Error ? err.message : "Login failed";
 			throw err;
@@ -90,13 +96,36 @@ export const useAuthStore = defineStore("auth", () => {
 			error.value = err instanceof Error ? err.message : "Logout failed";
 			// Even if logout fails on the server, clear local state
 		} finally {
-			user.value = null;
-			session.value = null;
-			authSessionStorage.clearSession();
-			// Reset workspace session state on logout
-			const workspaceStore = useWorkspaceStore();
-			workspaceStore.resetSession();
+			clearLocalSession();
 			isLoading.value = false;
+			crossTabBus.publish("auth:logout", {});
+		}
+	}
+
+	/**
+	 * Clear the session of this tab without contacting the server
+	 */
+	function clearLocalSession(): void {
+		user.value = null;
+		session.value = null;
+		authSessionStorage.clearSession();
+		// Reset workspace session state on logout
+		const workspaceStore = useWorkspaceStore();
+		workspaceStore.resetSession();
+	}
+
+	/**
+	 * Renew the access token without logging out on failure
+	 * Used by the session manager, which saves the user's work before logging out
+	 */
+	async function renewSession(): Promise<void> {
+		const newSession = await httpClient.refreshToken();
+		session.value = newSession;
+		authSessionStorage.setSessionExpiration(newSession.expiresIn);
+
+		const expiresAt = authSessionStorage.getSessionExpiration();
+		if (expiresAt !== null) {
+			crossTabBus.publish("auth:refreshed", { expiresAt });
 		}
 	}
 
@@ -105,9 +134,7 @@ export const useAuthStore = defineStore("auth", () => {
 	 */
 	async function refreshToken(): Promise<void> {
 		try {
-			const newSession = await httpClient.refreshToken();
-			session.value = newSession;
-			authSessionStorage.setSessionExpiration(newSession.expiresIn);
+			await renewSession();
 		} catch (err) {
 			// If token refresh fails, logout the user
 			await logout();
@@ -171,6 +198,24 @@ export const useAuthStore = defineStore("auth", () => {
 		}
 	}
 
+	// Follow the sign-ins and sign-outs of the other tabs
+	crossTabBus.subscribe("auth:login", async ({ expiresAt }) => {
+		const previousUserId = user.value?.id;
+		if (expiresAt !== null) {
+			authSessionStorage.setSessionExpiresAt(expiresAt);
+		}
+		await checkAuth();
+		// Another account signed in, so the workspace of this tab is not theirs
+		if (previousUserId && previousUserId !== user.value?.id) {
+			useWorkspaceStore().resetSession();
+		}
+	});
+	crossTabBus.subscribe("auth:logout", () => {
+		if (user.value || session.value) {
+			clearLocalSession();
+		}
+	});
+
 	/**
 	 * Clear error state
 	 */
@@ -201,6 +246,7 @@ export const useAuthStore = defineStore("auth", () => {
 		register,
 		login,
 		logout,
+		renewSession,
 		refreshToken,
 		checkAuth,
 		initialize,
@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CrossTabBus } from "@/shared/CrossTabBus";
+import { refreshSession } from "@/shared/SessionRefresh";
+import { FakeBroadcastChannel } from "@/test-utils/broadcast-channel";
+import {
+	SESSION_REFRESH_LOCK_KEY,
+	SessionManager,
+	type SessionManagerOptions,
+} from "../infrastructure/session/SessionManager.ts";
+import { authSessionStorage } from "../infrastructure/storage/SessionStorage.ts";
+
+describe("SessionManager", () => {
+	const managers: SessionManager[] = [];
+	const calls: string[] = [];
+	let otherTab: CrossTabBus;
+
+	const createManager = (options: Partial<SessionManagerOptions> = {}) => {
+		const manager = new SessionManager({
+			refresh: vi.fn(async () => {
+				calls.push("refresh");
+				authSessionStorage.setSessionExpiration(300);
+			}),
+			logout: vi.fn(async () => {
+				calls.push("logout");
+			}),
+			saveDraft: vi.fn(async () => {
+				calls.push("saveDraft");
+			}),
+			refreshLeadMs: 60_000,
+			idleTimeoutMs: 10 * 60_000,
+			idleWarningMs: 60_000,
+			// Each manager stands for a tab with its own bus
+			bus: new CrossTabBus("test"),
+			...options,
+		});
+		managers.push(manager);
+		return manager;
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+		sessionStorage.clear();
+		localStorage.clear();
+		calls.length = 0;
+		otherTab = new CrossTabBus("test");
+	});
+
+	afterEach(() => {
+		for (const manager of managers) {
+			manager.stop();
+		}
+		managers.length = 0;
+		FakeBroadcastChannel.reset();
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	describe("token refresh", () => {
+		it("should refresh the token before the session expires", async () => {
+			authSessionStorage.setSessionExpiration(120);
+			const manager = createManager();
+			manager.start();
+
+			await vi.advanceTimersByTimeAsync(59_000);
+			expect(calls).toEqual([]);
+
+			await vi.advanceTimersByTimeAsync(1_000);
+			expect(calls).toEqual(["refresh"]);
+			expect(localStorage.getItem(SESSION_REFRESH_LOCK_KEY)).toBeNull();
+
+			// The next refresh follows the renewed expiration
+			await vi.advanceTimersByTimeAsync(240_000);
+			expect(calls).toEqual(["refresh", "refresh"]);
+		});
+
+		it("should renew the session on demand for HTTP clients", async () => {
+			authSessionStorage.setSessionExpiration(3600);
+			createManager().start();
+
+			await expect(refreshSession()).resolves.toBe(true);
+			expect(calls).toEqual(["refresh"]);
+		});
+
+		it("should save the draft before logging out when the refresh fails", async () => {
+			authSessionStorage.setSessionExpiration(30);
+			const onSessionEnded = vi.fn();
+			const manager = createManager({
+				refresh: vi.fn().mockRejectedValue(new Error("Expired")),
+				onSessionEnded,
+			});
+			vi.spyOn(console, "warn").mockImplementation(() => {});
+			manager.start();
+
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(calls).toEqual(["saveDraft", "logout"]);
+			expect(onSessionEnded).toHaveBeenCalledWith("expired");
+			expect(manager.isRunning).toBe(false);
+		});
+
+		it("should leave the refresh to the tab holding the lock", async () => {
+			authSessionStorage.setSessionExpiration(120);
+			localStorage.setItem(
+				SESSION_REFRESH_LOCK_KEY,
+				JSON.stringify({ owner: "other-tab", acquiredAt: Date.now() + 60_000 }),
+			);
+			createManager().start();
+
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(calls).toEqual([]);
+
+			// The other tab never announced a new expiration, so take over
+			await vi.advanceTimersByTimeAsync(11_000);
+			expect(calls).toEqual(["refresh"]);
+		});
+
+		it("should wait for the tab holding the lock when an HTTP client renews", async () => {
+			authSessionStorage.setSessionExpiration(3600);
+			localStorage.setItem(
+				SESSION_REFRESH_LOCK_KEY,
+				JSON.stringify({ owner: "other-tab", acquiredAt: Date.now() }),
+			);
+			createManager().start();
+			const expiresAt = Date.now() + 7_200_000;
+
+			const renewed = refreshSession();
+			otherTab.publish("auth:refreshed", { expiresAt });
+
+			await expect(renewed).resolves.toBe(true);
+			expect(calls).toEqual([]);
+			expect(authSessionStorage.getSessionExpiration()).toBe(expiresAt);
+		});
+
+		it("should share the scheduled refresh with an HTTP client renewing", async () => {
+			let finishRefresh: () => void = () => {};
+			authSessionStorage.setSessionExpiration(61);
+			createManager({
+				refresh: vi.fn(() => {
+					calls.push("refresh");
+					return new Promise<void>((resolve) => {
+						finishRefresh = resolve;
+					});
+				}),
+			}).start();
+
+			await vi.advanceTimersByTimeAsync(1_000);
+			const renewed = refreshSession();
+			finishRefresh();
+
+			await expect(renewed).resolves.toBe(true);
+			expect(calls).toEqual(["refresh"]);
+			expect(localStorage.getItem(SESSION_REFRESH_LOCK_KEY)).toBeNull();
+		});
+
+		it("should follow the expiration renewed by another tab", async () => {
+			authSessionStorage.setSessionExpiration(120);
+			createManager().start();
+			const expiresAt = Date.now() + 7_200_000;
+
+			otherTab.publish("auth:refreshed", { expiresAt });
+			await vi.advanceTimersByTimeAsync(120_000);
+
+			expect(authSessionStorage.getSessionExpiration()).toBe(expiresAt);
+			expect(calls).toEqual([]);
+		});
+	});
+
+	describe("idle timeout", () => {
+		it("should warn before signing out an idle user and save the draft first", async () => {
+			const onIdleWarning = vi.fn();
+			const manager = createManager({ onIdleWarning });
+			const startedAt = Date.now();
+			manager.start();
+
+			await vi.advanceTimersByTimeAsync(9 * 60_000);
+			expect(onIdleWarning).toHaveBeenCalledWith(startedAt + 10 * 60_000);
+			expect(calls).toEqual([]);
+
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(calls).toEqual(["saveDraft", "logout"]);
+		});
+
+		it("should cancel the warning when the user is active again", async () => {
+			const onIdleWarningCancelled = vi.fn();
+			const manager = createManager({ onIdleWarningCancelled });
+			manager.start();
+
+			await vi.advanceTimersByTimeAsync(9 * 60_000 + 30_000);
+			window.dispatchEvent(new KeyboardEvent("keydown"));
+			expect(onIdleWarningCancelled).toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(calls).toEqual([]);
+		});
+
+		it("should count the activity of the other tabs", async () => {
+			const idle = createManager();
+			const active = createManager();
+			idle.start();
+			active.start();
+
+			await vi.advanceTimersByTimeAsync(5 * 60_000);
+			active.keepAlive();
+			await vi.advanceTimersByTimeAsync(6 * 60_000);
+
+			expect(calls).toEqual([]);
+		});
+
+		it("should tell the other tabs why the session ended", async () => {
+			const ended = vi.fn();
+			otherTab.subscribe("session:ended", ended);
+			createManager().start();
+
+			await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+			expect(ended).toHaveBeenCalledWith({ reason: "idle" });
+		});
+	});
+
+	describe("other tabs", () => {
+		it("should report a session ended by another tab", () => {
+			const onSessionEnded = vi.fn();
+			createManager({ onSessionEnded }).start();
+
+			otherTab.publish("session:ended", { reason: "expired" });
+
+			expect(onSessionEnded).toHaveBeenCalledWith("expired");
+			expect(calls).toEqual([]);
+		});
+
+		it("should save the draft when another tab signs out", async () => {
+			createManager().start();
+
+			otherTab.publish("auth:logout", {});
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(calls).toEqual(["saveDraft"]);
+		});
+	});
+});
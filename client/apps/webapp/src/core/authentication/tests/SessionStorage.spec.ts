@@ -37,6 +37,14 @@ describe("AuthSessionStorage", () => {
 		});
 	});
 
+	describe("setSessionExpiresAt", () => {
+		it("should store the given expiration timestamp", () => {
+			authSessionStorage.setSessionExpiresAt(1_700_000_000_000);
+
+			expect(authSessionStorage.getSessionExpiration()).toBe(1_700_000_000_000);
+		});
+	});
+
 	describe("getSessionExpiration", () => {
 		it("should return null when no session expiration is stored", () => {
 			const result = authSessionStorage.getSessionExpiration();
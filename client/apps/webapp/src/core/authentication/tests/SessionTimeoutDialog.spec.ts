@@ -0,0 +1,87 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import sessionMessages from "@/i18n/locales/en/session.json";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import SessionTimeoutDialog from "../presentation/components/SessionTimeoutDialog.vue";
+
+const session = vi.hoisted(() => ({
+	idleLogoutAt: null as unknown as import("vue").Ref<number | null>,
+	stayActive: vi.fn(),
+	logoutNow: vi.fn(),
+}));
+
+vi.mock("../presentation/composables/useSessionManager.ts", () => ({
+	useSessionManager: () => session,
+}));
+
+describe("SessionTimeoutDialog.vue", () => {
+	const mountComponent = () => {
+		const i18n = createTestI18n();
+		i18n.global.mergeLocaleMessage("en", sessionMessages);
+		return mount(SessionTimeoutDialog, {
+			attachTo: document.body,
+			global: { plugins: [i18n] },
+		});
+	};
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		session.idleLogoutAt = ref(null);
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+		vi.useRealTimers();
+	});
+
+	it("should stay hidden while the user is active", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(find('[data-testid="session-timeout-dialog"]')).toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should count down the seconds left before the sign-out", async () => {
+		const wrapper = mountComponent();
+		session.idleLogoutAt.value = Date.now() + 60_000;
+		await flushPromises();
+
+		const dialog = () => find('[data-testid="session-timeout-dialog"]');
+		expect(dialog()?.textContent).toContain("signed out in 60 seconds");
+
+		await vi.advanceTimersByTimeAsync(5_000);
+		expect(dialog()?.textContent).toContain("signed out in 55 seconds");
+		wrapper.unmount();
+	});
+
+	it("should keep the session when the user stays", async () => {
+		const wrapper = mountComponent();
+		session.idleLogoutAt.value = Date.now() + 60_000;
+		await flushPromises();
+
+		find('[data-testid="session-timeout-stay"]')?.click();
+
+		expect(session.stayActive).toHaveBeenCalled();
+		expect(session.logoutNow).not.toHaveBeenCalled();
+		wrapper.unmount();
+	});
+
+	it("should sign out right away on request", async () => {
+		const wrapper = mountComponent();
+		session.idleLogoutAt.value = Date.now() + 60_000;
+		await flushPromises();
+
+		find('[data-testid="session-timeout-logout"]')?.click();
+
+		expect(session.logoutNow).toHaveBeenCalled();
+		expect(session.stayActive).not.toHaveBeenCalled();
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,141 @@
+import { flushPromises } from "@vue/test-utils";
+import { createPinia, setActivePinia } from "pinia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useWorkspaceStore } from "@/core/workspace/infrastructure/store/workspaceStore.ts";
+import { CrossTabBus, crossTabBus } from "@/shared/CrossTabBus";
+import { FakeBroadcastChannel } from "@/test-utils/broadcast-channel";
+import type { Session, User } from "../domain/models/auth.model.ts";
+import { authSessionStorage } from "../infrastructure/storage/SessionStorage.ts";
+import { useAuthStore } from "../presentation/stores/authStore.ts";
+
+const mockUser: User = {
+	id: "123e4567-e89b-12d3-a456-426614174000",
+	username: "testuser",
+	email: "test@example.com",
+	firstName: "Test",
+	lastName: "User",
+	roles: ["USER"],
+};
+
+const mockSession: Session = {
+	accessToken: "mock-access-token",
+	refreshToken: "mock-refresh-token",
+	expiresIn: 3600,
+	tokenType: "Bearer",
+	scope: "openid profile email",
+};
+
+const httpClient = vi.hoisted(() => ({
+	login: vi.fn(),
+	getCurrentUser: vi.fn(),
+	logout: vi.fn(),
+	refreshToken: vi.fn(),
+}));
+
+// Mock the HTTP client
+vi.mock("../infrastructure/http/AuthHttpClient", () => ({
+	AuthHttpClient: vi.fn(function AuthHttpClient(this: typeof httpClient) {
+		Object.assign(this, httpClient);
+	}),
+}));
+
+describe("authStore cross-tab sync", () => {
+	let otherTab: CrossTabBus;
+
+	beforeEach(() => {
+		vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+		setActivePinia(createPinia());
+		sessionStorage.clear();
+		vi.clearAllMocks();
+		httpClient.login.mockResolvedValue(mockSession);
+		httpClient.getCurrentUser.mockResolvedValue(mockUser);
+		httpClient.logout.mockResolvedValue(undefined);
+		httpClient.refreshToken.mockResolvedValue(mockSession);
+		otherTab = new CrossTabBus();
+	});
+
+	afterEach(() => {
+		crossTabBus.close();
+		otherTab.close();
+		FakeBroadcastChannel.reset();
+		vi.unstubAllGlobals();
+	});
+
+	const signIn = () => {
+		const authStore = useAuthStore();
+		authStore.user = mockUser;
+		authStore.session = mockSession;
+		return authStore;
+	};
+
+	describe("publishing", () => {
+		it("should announce logins with the session expiration", async () => {
+			const login = vi.fn();
+			otherTab.subscribe("auth:login", login);
+
+			await useAuthStore().login({ email: "test@example.com", password: "x" });
+
+			expect(login).toHaveBeenCalledWith({
+				expiresAt: authSessionStorage.getSessionExpiration(),
+			});
+		});
+
+		it("should announce logouts and token refreshes", async () => {
+			const logout = vi.fn();
+			const refreshed = vi.fn();
+			otherTab.subscribe("auth:logout", logout);
+			otherTab.subscribe("auth:refreshed", refreshed);
+			const authStore = signIn();
+
+			await authStore.refreshToken();
+			await authStore.logout();
+
+			expect(refreshed).toHaveBeenCalledWith({
+				expiresAt: expect.any(Number),
+			});
+			expect(logout).toHaveBeenCalledWith({});
+		});
+	});
+
+	describe("following the other tabs", () => {
+		it("should sign out without contacting the server", async () => {
+			const authStore = signIn();
+			authSessionStorage.setSessionExpiration(3600);
+			const workspaceStore = useWorkspaceStore();
+			const resetSession = vi.spyOn(workspaceStore, "resetSession");
+
+			otherTab.publish("auth:logout", {});
+
+			expect(authStore.isAuthenticated).toBe(false);
+			expect(authSessionStorage.getSessionExpiration()).toBeNull();
+			expect(resetSession).toHaveBeenCalled();
+			expect(httpClient.logout).not.toHaveBeenCalled();
+		});
+
+		it("should restore the session signed in by another tab", async () => {
+			const authStore = useAuthStore();
+			const expiresAt = Date.now() + 3_600_000;
+
+			otherTab.publish("auth:login", { expiresAt });
+			await flushPromises();
+
+			expect(authStore.isAuthenticated).toBe(true);
+			expect(authStore.user).toEqual(mockUser);
+			expect(authSessionStorage.getSessionExpiration()).toBe(expiresAt);
+		});
+
+		it("should reset the workspace when another account signs in", async () => {
+			signIn();
+			const resetSession = vi.spyOn(useWorkspaceStore(), "resetSession");
+			httpClient.getCurrentUser.mockResolvedValue({
+				...mockUser,
+				id: "223e4567-e89b-12d3-a456-426614174000",
+			});
+
+			otherTab.publish("auth:login", { expiresAt: null });
+			await flushPromises();
+
+			expect(resetSession).toHaveBeenCalled();
+		});
+	});
+});
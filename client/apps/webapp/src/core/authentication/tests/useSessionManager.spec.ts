@@ -0,0 +1,146 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComponent, nextTick } from "vue";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { crossTabBus } from "@/shared/CrossTabBus";
+import { FakeBroadcastChannel } from "@/test-utils/broadcast-channel";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { useSessionManager } from "../presentation/composables/useSessionManager.ts";
+import { useAuthStore } from "../presentation/stores/authStore.ts";
+
+const calls = vi.hoisted(() => [] as string[]);
+
+const authStore = vi.hoisted(() => ({
+	isAuthenticated: true,
+	renewSession: vi.fn(),
+	logout: vi.fn(async () => {
+		calls.push("logout");
+	}),
+}));
+
+const resumeStore = vi.hoisted(() => ({ exportResume: vi.fn() }));
+
+const draftSave = vi.hoisted(() =>
+	vi.fn(async () => {
+		calls.push("saveDraft");
+	}),
+);
+
+const toastMocks = vi.hoisted(() => ({ info: vi.fn() }));
+
+vi.mock("../presentation/stores/authStore.ts", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(authStore);
+	return { useAuthStore: () => store };
+});
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", () => ({
+	useResumeStore: () => resumeStore,
+}));
+
+vi.mock("@/core/resume/infrastructure/storage/AutosaveDraftStorage", () => ({
+	AutosaveDraftStorage: vi.fn(function AutosaveDraftStorage(this: {
+		save: typeof draftSave;
+	}) {
+		this.save = draftSave;
+	}),
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+const IDLE_TIMEOUT_MS = 30 * 60_000;
+const IDLE_WARNING_MS = 60_000;
+
+describe("useSessionManager", () => {
+	let session: ReturnType<typeof useSessionManager>;
+	let wrapper: ReturnType<typeof mount>;
+
+	const mountComposable = () => {
+		wrapper = mount(
+			defineComponent({
+				setup() {
+					session = useSessionManager();
+					return () => null;
+				},
+			}),
+			{ global: { plugins: [createTestI18n()] } },
+		);
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		crossTabBus.close();
+		vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+		sessionStorage.clear();
+		localStorage.clear();
+		vi.clearAllMocks();
+		calls.length = 0;
+		authStore.isAuthenticated = true;
+		resumeStore.exportResume.mockReturnValue(createTestResume());
+	});
+
+	afterEach(() => {
+		wrapper.unmount();
+		crossTabBus.close();
+		FakeBroadcastChannel.reset();
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	it("should warn the idle user before signing them out", async () => {
+		const startedAt = Date.now();
+		mountComposable();
+
+		await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS - IDLE_WARNING_MS - 1);
+		expect(session.idleLogoutAt.value).toBeNull();
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(session.idleLogoutAt.value).toBe(startedAt + IDLE_TIMEOUT_MS);
+	});
+
+	it("should keep the user signed in after the warning", async () => {
+		mountComposable();
+		await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS - IDLE_WARNING_MS);
+
+		session.stayActive();
+		expect(session.idleLogoutAt.value).toBeNull();
+
+		await vi.advanceTimersByTimeAsync(IDLE_WARNING_MS);
+		expect(authStore.logout).not.toHaveBeenCalled();
+	});
+
+	it("should save the draft before signing out an idle user", async () => {
+		const draft = createTestResume();
+		resumeStore.exportResume.mockReturnValue(draft);
+		mountComposable();
+
+		await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS);
+
+		expect(draftSave).toHaveBeenCalledWith(draft);
+		expect(calls).toEqual(["saveDraft", "logout"]);
+		expect(session.idleLogoutAt.value).toBeNull();
+		expect(toastMocks.info).toHaveBeenCalledWith("session.ended.idle");
+	});
+
+	it("should sign out right away from the warning", async () => {
+		mountComposable();
+		await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS - IDLE_WARNING_MS);
+
+		await session.logoutNow();
+
+		expect(session.idleLogoutAt.value).toBeNull();
+		expect(authStore.logout).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not watch the session of a signed-out user", async () => {
+		mountComposable();
+		(useAuthStore() as unknown as typeof authStore).isAuthenticated = false;
+		await nextTick();
+
+		await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS);
+		await flushPromises();
+
+		expect(session.idleLogoutAt.value).toBeNull();
+		expect(calls).toEqual([]);
+	});
+});
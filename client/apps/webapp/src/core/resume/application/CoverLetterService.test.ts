@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type CoverLetter,
+	type CoverLetterGenerator,
+	type CoverLetterRepository,
+	type CoverLetterSummary,
+	createCoverLetter,
+	toCoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { CoverLetterService } from "./CoverLetterService";
+
+class InMemoryCoverLetterRepository implements CoverLetterRepository {
+	readonly letters = new Map<string, CoverLetter>();
+
+	async list(): Promise<CoverLetterSummary[]> {
+		return [...this.letters.values()].map(toCoverLetterSummary);
+	}
+
+	async get(id: string): Promise<CoverLetter | null> {
+		return this.letters.get(id) ?? null;
+	}
+
+	async save(letter: CoverLetter): Promise<void> {
+		this.letters.set(letter.id, letter);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.letters.delete(id);
+	}
+}
+
+describe("CoverLetterService", () => {
+	let repository: InMemoryCoverLetterRepository;
+	let generator: CoverLetterGenerator;
+	let service: CoverLetterService;
+
+	beforeEach(() => {
+		repository = new InMemoryCoverLetterRepository();
+		generator = {
+			generatePdf: vi.fn(async () => new Blob(["pdf"])),
+		};
+		service = new CoverLetterService(repository, generator);
+	});
+
+	describe("create", () => {
+		it("should store a linked cover letter", async () => {
+			const link = { resumeId: "resume-1", variantId: "variant-1" };
+
+			const letter = await service.create("  Acme  ", link);
+
+			expect(letter.title).toBe("Acme");
+			expect(letter.link).toEqual(link);
+			expect(repository.letters.get(letter.id)).toEqual(letter);
+		});
+
+		it("should derive a title when none is given", async () => {
+			const letter = await service.create("");
+
+			expect(letter.title).toBe("Untitled cover letter");
+		});
+
+		it("should wrap repository errors", async () => {
+			vi.spyOn(repository, "save").mockRejectedValue(new Error("quota"));
+
+			await expect(service.create("Acme")).rejects.toThrow(
+				"Failed to create cover letter: quota",
+			);
+		});
+	});
+
+	describe("update", () => {
+		it("should merge the changes and keep the previous title when blank", async () => {
+			const letter = await service.create("Acme");
+			letter.signOff.closing = "Regards";
+			await repository.save(letter);
+
+			const updated = await service.update(letter.id, {
+				title: " ",
+				company: "Acme",
+				paragraphs: ["Hello", "World"],
+				signOff: { ...letter.signOff, name: "John" },
+			});
+
+			expect(updated.title).toBe("Acme");
+			expect(updated.company).toBe("Acme");
+			expect(updated.paragraphs).toEqual(["Hello", "World"]);
+			expect(updated.signOff).toEqual({
+				closing: "Regards",
+				name: "John",
+				email: "",
+				phone: "",
+			});
+			expect(await repository.get(letter.id)).toEqual(updated);
+		});
+
+		it("should throw for unknown cover letters", async () => {
+			await expect(service.update("missing", {})).rejects.toThrow(
+				"Cover letter not found: missing",
+			);
+		});
+	});
+
+	describe("list", () => {
+		it("should return the most recently updated letters first", async () => {
+			await repository.save({
+				...createCoverLetter("old", "Old"),
+				updatedAt: "2024-01-01T00:00:00Z",
+			});
+			await repository.save({
+				...createCoverLetter("new", "New"),
+				updatedAt: "2024-02-01T00:00:00Z",
+			});
+
+			expect((await service.list()).map((summary) => summary.id)).toEqual([
+				"new",
+				"old",
+			]);
+		});
+	});
+
+	describe("remove", () => {
+		it("should wrap repository errors", async () => {
+			vi.spyOn(repository, "delete").mockRejectedValue(new Error("offline"));
+
+			await expect(service.remove("letter-1")).rejects.toThrow(
+				"Failed to remove cover letter: offline",
+			);
+		});
+	});
+
+	describe("generatePdf", () => {
+		it("should send the body and the sign-off completed from the resume", async () => {
+			const letter = {
+				...createCoverLetter("letter-1", "Acme"),
+				paragraphs: ["  Dear team,  ", "", "I am applying."],
+			};
+
+			await service.generatePdf(letter, createTestResume(), "es");
+
+			expect(generator.generatePdf).toHaveBeenCalledWith(
+				expect.objectContaining({
+					paragraphs: ["Dear team,", "I am applying."],
+					signOff: {
+						closing: "",
+						name: "John Doe",
+						email: "john@example.com",
+						phone: "+1-555-0100",
+					},
+				}),
+				"es",
+			);
+		});
+
+		it("should refuse to generate an empty letter", async () => {
+			const letter = createCoverLetter("letter-1", "Acme");
+
+			await expect(service.generatePdf(letter, null)).rejects.toThrow(
+				"Cover letter has no content",
+			);
+			expect(generator.generatePdf).not.toHaveBeenCalled();
+		});
+	});
+});
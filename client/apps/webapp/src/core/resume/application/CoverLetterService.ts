@@ -0,0 +1,148 @@
+import {
+	type CoverLetter,
+	type CoverLetterGenerator,
+	type CoverLetterLink,
+	type CoverLetterRepository,
+	type CoverLetterSummary,
+	createCoverLetter,
+	deriveCoverLetterTitle,
+	resolveSignOff,
+	sortCoverLetters,
+} from "@/core/resume/domain/CoverLetter";
+import type { Resume } from "@/core/resume/domain/Resume";
+
+/**
+ * Fields of a cover letter that can be changed after creation.
+ */
+export type CoverLetterChanges = Partial<
+	Omit<CoverLetter, "id" | "createdAt" | "updatedAt">
+>;
+
+/**
+ * Application service for cover letters.
+ *
+ * @example
+ * ```typescript
+ * const letters = new CoverLetterService(new WebStorageCoverLetterRepository(), new PdfCoverLetterGenerator());
+ * const letter = await letters.create("Acme", { resumeId: "default", variantId: null });
+ * const pdf = await letters.generatePdf(letter, resume);
+ * ```
+ */
+export class CoverLetterService {
+	constructor(
+		private readonly repository: CoverLetterRepository,
+		private readonly generator: CoverLetterGenerator,
+	) {}
+
+	/**
+	 * Lists the stored cover letters, most recently updated first.
+	 */
+	async list(): Promise<CoverLetterSummary[]> {
+		return sortCoverLetters(await this.repository.list());
+	}
+
+	/**
+	 * Retrieves a cover letter.
+	 *
+	 * @returns The cover letter, or null if it does not exist
+	 */
+	async get(id: string): Promise<CoverLetter | null> {
+		return this.repository.get(id);
+	}
+
+	/**
+	 * Creates an empty cover letter.
+	 *
+	 * @param title - The title; derived from role and company when empty
+	 * @param link - The resume or variant the letter accompanies
+	 * @returns The stored cover letter
+	 * @throws Error if the repository fails
+	 */
+	async create(
+		title: string,
+		link: CoverLetterLink | null = null,
+	): Promise<CoverLetter> {
+		const letter = createCoverLetter(crypto.randomUUID(), title.trim(), link);
+		if (!letter.title) letter.title = deriveCoverLetterTitle(letter);
+		await this.persist(letter, "create");
+		return letter;
+	}
+
+	/**
+	 * Changes a cover letter.
+	 *
+	 * @param id - The cover letter ID
+	 * @param changes - The fields to replace
+	 * @returns The updated cover letter
+	 * @throws Error if the cover letter does not exist or the repository fails
+	 */
+	async update(id: string, changes: CoverLetterChanges): Promise<CoverLetter> {
+		const existing = await this.repository.get(id);
+		if (!existing) {
+			throw new Error(`Cover letter not found: ${id}`);
+		}
+		const letter: CoverLetter = {
+			...existing,
+			...changes,
+			title: changes.title?.trim() || existing.title,
+			paragraphs: [...(changes.paragraphs ?? existing.paragraphs)],
+			signOff: { ...existing.signOff, ...changes.signOff },
+			updatedAt: new Date().toISOString(),
+		};
+		await this.persist(letter, "update");
+		return letter;
+	}
+
+	/**
+	 * Removes a cover letter.
+	 */
+	async remove(id: string): Promise<void> {
+		try {
+			await this.repository.delete(id);
+		} catch (error) {
+			throw new Error(
+				`Failed to remove cover letter: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Generates the PDF of a cover letter. Empty sign-off fields are filled
+	 * from the linked resume first.
+	 *
+	 * @param letter - The cover letter
+	 * @param resume - The linked resume or variant, if any
+	 * @param locale - Locale of the generated PDF
+	 * @returns A promise resolving to the PDF
+	 * @throws Error if the letter has no body
+	 */
+	async generatePdf(
+		letter: CoverLetter,
+		resume: Resume | null,
+		locale = "en",
+	): Promise<Blob> {
+		const paragraphs = letter.paragraphs
+			.map((paragraph) => paragraph.trim())
+			.filter(Boolean);
+		if (paragraphs.length === 0) {
+			throw new Error("Cover letter has no content");
+		}
+		return this.generator.generatePdf(
+			{ ...letter, paragraphs, signOff: resolveSignOff(letter, resume) },
+			locale,
+		);
+	}
+
+	private async persist(
+		letter: CoverLetter,
+		action: "create" | "update",
+	): Promise<void> {
+		try {
+			await this.repository.save(letter);
+		} catch (error) {
+			throw new Error(
+				`Failed to ${action} cover letter: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
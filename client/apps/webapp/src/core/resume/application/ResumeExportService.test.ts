@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ResumeRenderer } from "@/core/resume/domain/ResumeExport";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createResumeRenderers } from "@/core/resume/infrastructure/export";
+import { exportOptions } from "@/core/resume/infrastructure/export/__fixtures__/export-options";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { ResumeExportService } from "./ResumeExportService";
+
+describe("ResumeExportService", () => {
+	const resumeId = "b25582a9-cfe5-4d63-8d64-83b90b24d777";
+
+	const createRenderer = (): ResumeRenderer => ({
+		format: "markdown",
+		mimeType: "text/markdown",
+		extension: "md",
+		render: vi.fn(() => "# Resume"),
+	});
+
+	it("should list the formats of the registered renderers", () => {
+		const service = new ResumeExportService(createResumeRenderers());
+
+		expect(service.formats).toEqual(["docx", "markdown", "html", "text"]);
+	});
+
+	it("should render the resume with the requested locale and labels", () => {
+		const renderer = createRenderer();
+		const service = new ResumeExportService([renderer]);
+		const resume = createTestResume();
+
+		const { blob, fileName } = service.exportResume(
+			resume,
+			"markdown",
+			exportOptions,
+		);
+
+		expect(renderer.render).toHaveBeenCalledWith(resume, exportOptions);
+		expect(fileName).toBe("john-doe.md");
+		expect(blob.type).toBe("text/markdown");
+		expect(blob.size).toBe("# Resume".length);
+	});
+
+	it("should remove hidden sections and items before rendering", () => {
+		const renderer = createRenderer();
+		const service = new ResumeExportService([renderer]);
+		const resume = createTestResume();
+		const visibility = createDefaultVisibility(resumeId, resume);
+		visibility.references.enabled = false;
+		visibility.work.items = [true, false];
+		visibility.personalDetails.fields.phone = false;
+
+		service.exportResume(resume, "markdown", {
+			...exportOptions,
+			visibility,
+		});
+
+		const [rendered] = vi.mocked(renderer.render).mock.calls[0] ?? [];
+		expect(rendered?.references).toEqual([]);
+		expect(rendered?.work.map((work) => work.name)).toEqual(["Company A"]);
+		expect(rendered?.basics.phone).toBe("");
+	});
+
+	it("should name the file after the resume owner", () => {
+		const service = new ResumeExportService(createResumeRenderers());
+		const resume = createTestResume({
+			basics: { ...createTestResume().basics, name: "  José Núñez  " },
+		});
+
+		expect(service.exportResume(resume, "docx", exportOptions).fileName).toBe(
+			"jose-nunez.docx",
+		);
+		expect(
+			service.exportResume(
+				createTestResume({ basics: { ...resume.basics, name: "" } }),
+				"text",
+				exportOptions,
+			).fileName,
+		).toBe("resume.txt");
+	});
+
+	it("should reject formats without a renderer", () => {
+		const service = new ResumeExportService([createRenderer()]);
+
+		expect(() =>
+			service.exportResume(createTestResume(), "docx", exportOptions),
+		).toThrow("Unsupported export format: docx");
+	});
+
+	it("should report rendering failures with the format", () => {
+		const renderer = createRenderer();
+		vi.mocked(renderer.render).mockImplementation(() => {
+			throw new Error("boom");
+		});
+		const service = new ResumeExportService([renderer]);
+
+		expect(() =>
+			service.exportResume(createTestResume(), "markdown", exportOptions),
+		).toThrow("Failed to export resume as markdown: boom");
+	});
+});
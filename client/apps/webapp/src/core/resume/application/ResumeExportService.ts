@@ -0,0 +1,105 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ExportedResume,
+	ExportFormat,
+	ExportOptions,
+	ResumeRenderer,
+} from "@/core/resume/domain/ResumeExport";
+import type { SectionVisibility } from "@/core/resume/domain/SectionVisibility";
+import { ResumeSectionFilterService } from "./ResumeSectionFilterService";
+
+/**
+ * Options of a single export.
+ */
+export interface ResumeExportRequest extends ExportOptions {
+	/** Visibility preferences to apply; the whole resume is exported when omitted */
+	visibility?: SectionVisibility | null;
+}
+
+/**
+ * Builds a file name from the resume owner's name, e.g. "Jane Doe" → "jane-doe".
+ */
+function fileBaseName(resume: Resume): string {
+	const slug = resume.basics.name
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "resume";
+}
+
+/**
+ * Application service for exporting resumes to document formats in the browser.
+ *
+ * Hidden sections and items are removed with {@link ResumeSectionFilterService}
+ * before rendering, so every format shows the same content as the generated PDF.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new ResumeExportService(createResumeRenderers());
+ * const { blob, fileName } = exporter.exportResume(resume, "docx", {
+ *   locale: "en",
+ *   labels,
+ *   visibility,
+ * });
+ * ```
+ */
+export class ResumeExportService {
+	private readonly renderers: ReadonlyMap<ExportFormat, ResumeRenderer>;
+
+	constructor(
+		renderers: ReadonlyArray<ResumeRenderer>,
+		private readonly sectionFilter = new ResumeSectionFilterService(),
+	) {
+		this.renderers = new Map(
+			renderers.map((renderer) => [renderer.format, renderer]),
+		);
+	}
+
+	/**
+	 * Formats that can be exported, in registration order.
+	 */
+	get formats(): ExportFormat[] {
+		return [...this.renderers.keys()];
+	}
+
+	/**
+	 * Renders a resume into the given format.
+	 *
+	 * @param resume - The complete resume
+	 * @param format - The document format
+	 * @param request - Locale, labels and visibility preferences
+	 * @returns The rendered document and its suggested file name
+	 * @throws Error if the format is not supported or rendering fails
+	 */
+	exportResume(
+		resume: Resume,
+		format: ExportFormat,
+		request: ResumeExportRequest,
+	): ExportedResume {
+		const renderer = this.renderers.get(format);
+		if (!renderer) {
+			throw new Error(`Unsupported export format: ${format}`);
+		}
+
+		const { visibility, ...options } = request;
+		const visible = visibility
+			? this.sectionFilter.filterResume(resume, visibility)
+			: resume;
+
+		let content: string | Uint8Array;
+		try {
+			content = renderer.render(visible, options);
+		} catch (error) {
+			throw new Error(
+				`Failed to export resume as ${format}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+
+		return {
+			fileName: `${fileBaseName(resume)}.${renderer.extension}`,
+			blob: new Blob([content as BlobPart], { type: renderer.mimeType }),
+		};
+	}
+}
@@ -43,6 +43,7 @@ describe("ResumeGeneratorService", () => {
 				templateId,
 				mockResume,
 				"en",
+				undefined,
 			);
 			expect(result).toBe(mockBlob);
 		});
@@ -59,6 +60,25 @@ describe("ResumeGeneratorService", () => {
 				templateId,
 				mockResume,
 				"es",
+				undefined,
+			);
+		});
+
+		it("should pass template params to the generator", async () => {
+			vi.mocked(mockResumeValidator.validate).mockReturnValue(true);
+			vi.mocked(mockResumeGenerator.generatePdf).mockResolvedValue(
+				new Blob(["fake pdf"], { type: "application/pdf" }),
+			);
+
+			await service.generateResumePdf("template-123", mockResume, "en", {
+				colorPalette: "green",
+			});
+
+			expect(mockResumeGenerator.generatePdf).toHaveBeenCalledWith(
+				"template-123",
+				mockResume,
+				"en",
+				{ colorPalette: "green" },
 			);
 		});
 
@@ -1,6 +1,7 @@
 import type { Resume } from "@/core/resume/domain/Resume.ts";
 import type { ResumeGenerator } from "@/core/resume/domain/ResumeGenerator.ts";
 import type { ResumeValidator } from "@/core/resume/domain/ResumeValidator.ts";
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams.ts";
 
 /**
  * Service responsible for generating resume PDFs.
@@ -17,6 +18,7 @@ export class ResumeGeneratorService {
 	 * @param templateId The ID of the template to use for PDF generation
 	 * @param resumeData The resume data to be converted into a PDF
 	 * @param locale Optional locale for localization (default is "en")
+	 * @param params Optional template parameters
 	 * @returns A Promise that resolves to a Blob representing the generated PDF
 	 * @throws Error if the resume data is invalid
 	 */
@@ -24,12 +26,18 @@ export class ResumeGeneratorService {
 		templateId: string,
 		resumeData: Resume,
 		locale = "en",
+		params?: TemplateParamValues,
 	): Promise<Blob> {
 		const isValid = this.resumeValidator.validate(resumeData);
 		if (!isValid) {
 			throw new Error("Invalid resume data");
 		}
 
-		return this.resumeGenerator.generatePdf(templateId, resumeData, locale);
+		return this.resumeGenerator.generatePdf(
+			templateId,
+			resumeData,
+			locale,
+			params,
+		);
 	}
 }
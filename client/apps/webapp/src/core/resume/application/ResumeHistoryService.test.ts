@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	fingerprintResume,
+	type ResumeHistoryRepository,
+	type ResumeSnapshot,
+	type ResumeSnapshotSummary,
+	toSnapshotSummary,
+} from "@/core/resume/domain/ResumeSnapshot";
+import { ResumeHistoryService } from "./ResumeHistoryService";
+
+class InMemoryHistoryRepository implements ResumeHistoryRepository {
+	readonly snapshots = new Map<string, ResumeSnapshot>();
+
+	async list(resumeId: string): Promise<ResumeSnapshotSummary[]> {
+		return [...this.snapshots.values()]
+			.filter((snapshot) => snapshot.resumeId === resumeId)
+			.map(toSnapshotSummary);
+	}
+
+	async get(
+		resumeId: string,
+		snapshotId: string,
+	): Promise<ResumeSnapshot | null> {
+		const snapshot = this.snapshots.get(snapshotId);
+		return snapshot?.resumeId === resumeId ? snapshot : null;
+	}
+
+	async add(snapshot: ResumeSnapshot): Promise<void> {
+		this.snapshots.set(snapshot.id, snapshot);
+	}
+
+	async delete(_resumeId: string, snapshotId: string): Promise<void> {
+		this.snapshots.delete(snapshotId);
+	}
+}
+
+const createResume = (name: string): Resume => ({
+	basics: {
+		name,
+		label: "Software Engineer",
+		image: "",
+		email: "john@example.com",
+		phone: "",
+		url: "",
+		summary: "",
+		location: {
+			address: "",
+			postalCode: "",
+			city: "",
+			countryCode: "",
+			region: "",
+		},
+		profiles: [],
+	},
+	work: [],
+	volunteer: [],
+	education: [],
+	awards: [],
+	certificates: [],
+	publications: [],
+	skills: [],
+	languages: [],
+	interests: [],
+	references: [],
+	projects: [],
+});
+
+describe("ResumeHistoryService", () => {
+	let repository: InMemoryHistoryRepository;
+	let service: ResumeHistoryService;
+
+	beforeEach(() => {
+		repository = new InMemoryHistoryRepository();
+		service = new ResumeHistoryService(repository, 3);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("record", () => {
+		it("should store a copy of the resume with its fingerprint", async () => {
+			const resume = createResume("John Doe");
+
+			const summary = await service.record("default", resume, "save");
+
+			expect(summary?.reason).toBe("save");
+			expect(summary?.fingerprint).toBe(fingerprintResume(resume));
+			const stored = await service.get("default", summary?.id ?? "");
+			expect(stored?.resume).toEqual(resume);
+			expect(stored?.resume).not.toBe(resume);
+		});
+
+		it("should skip automatic snapshots identical to the latest one", async () => {
+			const resume = createResume("John Doe");
+
+			await service.record("default", resume, "save");
+			const duplicate = await service.record("default", resume, "save");
+
+			expect(duplicate).toBeNull();
+			expect(await service.list("default")).toHaveLength(1);
+		});
+
+		it("should always record checkpoints with their label", async () => {
+			const resume = createResume("John Doe");
+
+			await service.record("default", resume, "save");
+			const checkpoint = await service.record(
+				"default",
+				resume,
+				"checkpoint",
+				"  Before tailoring  ",
+			);
+
+			expect(checkpoint?.label).toBe("Before tailoring");
+			expect(await service.list("default")).toHaveLength(2);
+		});
+
+		it("should prune the oldest automatic snapshots but keep checkpoints", async () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+			await service.record(
+				"default",
+				createResume("v0"),
+				"checkpoint",
+				"Keep me",
+			);
+			for (let i = 1; i <= 5; i++) {
+				vi.advanceTimersByTime(1000);
+				await service.record("default", createResume(`v${i}`), "save");
+			}
+
+			const snapshots = await service.list("default");
+
+			const automatic = snapshots.filter((s) => s.reason === "save");
+			expect(automatic).toHaveLength(3);
+			expect(automatic[2]?.fingerprint).toBe(
+				fingerprintResume(createResume("v3")),
+			);
+			expect(snapshots.some((s) => s.label === "Keep me")).toBe(true);
+		});
+	});
+
+	describe("remove", () => {
+		it("should remove a single snapshot", async () => {
+			const summary = await service.record(
+				"default",
+				createResume("John Doe"),
+				"save",
+			);
+
+			await service.remove("default", summary?.id ?? "");
+
+			expect(await service.list("default")).toEqual([]);
+		});
+
+		it("should remove every snapshot of a resume only", async () => {
+			await service.record("a", createResume("A"), "save");
+			await service.record("b", createResume("B"), "save");
+
+			await service.removeAll("a");
+
+			expect(await service.list("a")).toEqual([]);
+			expect(await service.list("b")).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	fingerprintResume,
+	type ResumeHistoryRepository,
+	type ResumeSnapshot,
+	type ResumeSnapshotSummary,
+	type SnapshotReason,
+	sortSnapshots,
+	toSnapshotSummary,
+} from "@/core/resume/domain/ResumeSnapshot";
+
+/**
+ * Number of automatic snapshots kept per resume. Checkpoints are never pruned.
+ */
+export const MAX_AUTOMATIC_SNAPSHOTS = 50;
+
+/**
+ * Application service for resume version history.
+ *
+ * Records snapshots through the configured history repository, skipping
+ * automatic snapshots whose content matches the latest snapshot and pruning
+ * the oldest automatic snapshots beyond {@link MAX_AUTOMATIC_SNAPSHOTS}.
+ *
+ * @example
+ * ```typescript
+ * const history = new ResumeHistoryService(new IndexedDBResumeHistoryRepository());
+ * await history.record("default", resume, "save");
+ * await history.record("default", resume, "checkpoint", "Before tailoring");
+ * ```
+ */
+export class ResumeHistoryService {
+	constructor(
+		private repository: ResumeHistoryRepository,
+		private readonly maxAutomaticSnapshots = MAX_AUTOMATIC_SNAPSHOTS,
+	) {}
+
+	/**
+	 * Records a snapshot of a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param resume - The resume content
+	 * @param reason - Why the snapshot is taken
+	 * @param label - Optional name, used for checkpoints
+	 * @returns The recorded snapshot summary, or null if it duplicates the latest snapshot
+	 */
+	async record(
+		resumeId: string,
+		resume: Resume,
+		reason: SnapshotReason,
+		label?: string,
+	): Promise<ResumeSnapshotSummary | null> {
+		const fingerprint = fingerprintResume(resume);
+		const existing = await this.list(resumeId);
+
+		if (reason !== "checkpoint" && existing[0]?.fingerprint === fingerprint) {
+			return null;
+		}
+
+		const snapshot: ResumeSnapshot = {
+			id: crypto.randomUUID(),
+			resumeId,
+			createdAt: new Date().toISOString(),
+			reason,
+			label: label?.trim() || null,
+			fingerprint,
+			resume: JSON.parse(JSON.stringify(resume)) as Resume,
+		};
+		await this.repository.add(snapshot);
+		await this.prune(resumeId, [toSnapshotSummary(snapshot), ...existing]);
+
+		return toSnapshotSummary(snapshot);
+	}
+
+	/**
+	 * Lists the snapshots of a resume, most recent first.
+	 */
+	async list(resumeId: string): Promise<ResumeSnapshotSummary[]> {
+		return sortSnapshots(await this.repository.list(resumeId));
+	}
+
+	/**
+	 * Retrieves a snapshot with its content.
+	 */
+	async get(
+		resumeId: string,
+		snapshotId: string,
+	): Promise<ResumeSnapshot | null> {
+		return await this.repository.get(resumeId, snapshotId);
+	}
+
+	/**
+	 * Removes a snapshot.
+	 */
+	async remove(resumeId: string, snapshotId: string): Promise<void> {
+		await this.repository.delete(resumeId, snapshotId);
+	}
+
+	/**
+	 * Removes every snapshot of a resume.
+	 */
+	async removeAll(resumeId: string): Promise<void> {
+		const snapshots = await this.repository.list(resumeId);
+		await Promise.all(
+			snapshots.map((snapshot) =>
+				this.repository.delete(resumeId, snapshot.id),
+			),
+		);
+	}
+
+	/**
+	 * Changes the history repository at runtime, e.g. when the storage type changes.
+	 */
+	setRepository(repository: ResumeHistoryRepository): void {
+		this.repository = repository;
+	}
+
+	private async prune(
+		resumeId: string,
+		snapshots: ResumeSnapshotSummary[],
+	): Promise<void> {
+		const stale = sortSnapshots(snapshots)
+			.filter((snapshot) => snapshot.reason !== "checkpoint")
+			.slice(this.maxAutomaticSnapshots);
+		await Promise.all(
+			stale.map((snapshot) => this.repository.delete(resumeId, snapshot.id)),
+		);
+	}
+}
@@ -48,6 +48,14 @@ describe("ResumePersistenceService", () => {
 			save: vi.fn(),
 			load: vi.fn(),
 			clear: vi.fn(),
+			list: vi.fn(),
+			loadById: vi.fn(),
+			create: vi.fn(),
+			duplicate: vi.fn(),
+			rename: vi.fn(),
+			delete: vi.fn(),
+			getActiveResumeId: vi.fn().mockReturnValue("default"),
+			setActiveResumeId: vi.fn(),
 			type: vi.fn().mockReturnValue("session" as StorageType),
 		};
 
@@ -175,6 +183,14 @@ describe("ResumePersistenceService", () => {
 				save: vi.fn(),
 				load: vi.fn(),
 				clear: vi.fn(),
+				list: vi.fn(),
+				loadById: vi.fn(),
+				create: vi.fn(),
+				duplicate: vi.fn(),
+				rename: vi.fn(),
+				delete: vi.fn(),
+				getActiveResumeId: vi.fn().mockReturnValue("default"),
+				setActiveResumeId: vi.fn(),
 				type: vi.fn().mockReturnValue("local" as StorageType),
 			};
 
@@ -194,6 +210,14 @@ describe("ResumePersistenceService", () => {
 				}),
 				load: vi.fn(),
 				clear: vi.fn(),
+				list: vi.fn(),
+				loadById: vi.fn(),
+				create: vi.fn(),
+				duplicate: vi.fn(),
+				rename: vi.fn(),
+				delete: vi.fn(),
+				getActiveResumeId: vi.fn().mockReturnValue("default"),
+				setActiveResumeId: vi.fn(),
 				type: vi.fn().mockReturnValue("local" as StorageType),
 			};
 
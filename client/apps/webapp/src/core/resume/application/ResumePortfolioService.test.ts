@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ResumeSummary } from "@/core/resume/domain/ResumeStorage";
+import { createTestResume } from "../test-resume-factory";
+import { ResumePortfolioService } from "./ResumePortfolioService";
+
+const summaries: ResumeSummary[] = [
+	{
+		id: "a",
+		title: "Engineer",
+		createdAt: "2026-01-01T00:00:00.000Z",
+		updatedAt: null,
+	},
+	{
+		id: "b",
+		title: "Manager",
+		createdAt: "2026-01-02T00:00:00.000Z",
+		updatedAt: null,
+	},
+];
+
+describe("ResumePortfolioService", () => {
+	it("scores, validates and attaches the last template of each resume", async () => {
+		const resume = createTestResume();
+		const validator = { validate: vi.fn().mockReturnValue(true) };
+		const usage = {
+			get: vi.fn((id: string) =>
+				id === "a"
+					? { templateId: "modern", generatedAt: "2026-02-01T00:00:00.000Z" }
+					: null,
+			),
+		};
+		const service = new ResumePortfolioService(
+			vi.fn().mockResolvedValue(resume),
+			validator,
+			usage,
+		);
+
+		const entries = await service.overview(summaries);
+
+		expect(entries.map((entry) => entry.summary.id)).toEqual(["a", "b"]);
+		expect(entries[0]?.score).toBe(98);
+		expect(entries[0]?.valid).toBe(true);
+		expect(entries[0]?.lastTemplate?.templateId).toBe("modern");
+		expect(entries[1]?.lastTemplate).toBeNull();
+		expect(validator.validate).toHaveBeenCalledWith(resume);
+	});
+
+	it("keeps resumes that fail to load in the overview", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const loader = vi.fn((id: string) =>
+			id === "a"
+				? Promise.reject(new Error("Network error"))
+				: Promise.resolve(createTestResume()),
+		);
+		const service = new ResumePortfolioService(
+			loader,
+			{ validate: () => true },
+			{ get: () => null },
+		);
+
+		const entries = await service.overview(summaries);
+
+		expect(entries[0]?.resume).toBeNull();
+		expect(entries[0]?.valid).toBe(false);
+		expect(entries[1]?.valid).toBe(true);
+		warn.mockRestore();
+	});
+});
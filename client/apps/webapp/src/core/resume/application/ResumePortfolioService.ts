@@ -0,0 +1,62 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	createPortfolioEntry,
+	type PdfTemplateUsageRepository,
+	type PortfolioEntry,
+} from "@/core/resume/domain/ResumePortfolio";
+import type { ResumeSummary } from "@/core/resume/domain/ResumeStorage";
+import type { ResumeValidator } from "@/core/resume/domain/ResumeValidator";
+
+/**
+ * Loads the content of a resume of the library.
+ */
+export type ResumeLoader = (resumeId: string) => Promise<Resume | null>;
+
+/**
+ * Application service for the dashboard overview of all resumes.
+ *
+ * @example
+ * ```typescript
+ * const portfolio = new ResumePortfolioService(
+ *   (id) => resumeStore.loadResolvedResume(id),
+ *   new JsonResumeValidator(),
+ *   pdfTemplateUsageStorage,
+ * );
+ * const entries = await portfolio.overview(resumeStore.resumes);
+ * ```
+ */
+export class ResumePortfolioService {
+	constructor(
+		private readonly load: ResumeLoader,
+		private readonly validator: Pick<ResumeValidator, "validate">,
+		private readonly templateUsage: Pick<PdfTemplateUsageRepository, "get">,
+	) {}
+
+	/**
+	 * Scores and validates every resume. A resume that fails to load is listed
+	 * without content instead of failing the whole overview.
+	 *
+	 * @param summaries - The library entries
+	 * @returns One entry per summary, in the same order
+	 */
+	async overview(
+		summaries: ReadonlyArray<ResumeSummary>,
+	): Promise<PortfolioEntry[]> {
+		return Promise.all(
+			summaries.map(async (summary) => {
+				let resume: Resume | null = null;
+				try {
+					resume = await this.load(summary.id);
+				} catch (error) {
+					console.warn(`Failed to load resume ${summary.id}:`, error);
+				}
+				return createPortfolioEntry(
+					summary,
+					resume,
+					resume ? this.validator.validate(resume) : false,
+					this.templateUsage.get(summary.id),
+				);
+			}),
+		);
+	}
+}
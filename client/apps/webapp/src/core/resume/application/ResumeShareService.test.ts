@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+	ResumeShare,
+	ResumeSharePublisher,
+	ShareOptions,
+} from "@/core/resume/domain/ResumeShare";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { ResumeShareService } from "./ResumeShareService";
+
+describe("ResumeShareService", () => {
+	const share: ResumeShare = {
+		id: "share-1",
+		resumeId: "resume-1",
+		url: "https://cv.example.com/r/abc",
+		expiresAt: null,
+		passwordProtected: false,
+		createdAt: "2026-03-01T12:00:00.000Z",
+	};
+
+	const options: ShareOptions = {
+		expiresAt: null,
+		password: null,
+		templateId: "engineering",
+		locale: "en",
+		trackViews: true,
+	};
+
+	const createPublisher = (): ResumeSharePublisher => ({
+		getShare: vi.fn().mockResolvedValue(share),
+		publish: vi.fn().mockResolvedValue(share),
+		unpublish: vi.fn().mockResolvedValue(undefined),
+	});
+
+	it("returns the current share", async () => {
+		const publisher = createPublisher();
+		const service = new ResumeShareService(publisher);
+
+		await expect(service.get("resume-1")).resolves.toEqual(share);
+		expect(publisher.getShare).toHaveBeenCalledWith("resume-1");
+	});
+
+	it("publishes the whole resume without a section selection", async () => {
+		const publisher = createPublisher();
+		const service = new ResumeShareService(publisher);
+		const resume = createTestResume();
+
+		await service.publish("resume-1", resume, null, options);
+
+		expect(publisher.publish).toHaveBeenCalledWith("resume-1", resume, options);
+	});
+
+	it("publishes only the visible sections and items", async () => {
+		const publisher = createPublisher();
+		const service = new ResumeShareService(publisher);
+		const resume = createTestResume();
+		const visibility = createDefaultVisibility("resume-1", resume);
+		visibility.references.enabled = false;
+		visibility.personalDetails.fields.phone = false;
+
+		await service.publish("resume-1", resume, visibility, options);
+
+		const [, published] = vi.mocked(publisher.publish).mock.calls[0] ?? [];
+		expect(published?.references).toEqual([]);
+		expect(published?.basics.phone).toBe("");
+		expect(published?.basics.name).toBe("John Doe");
+	});
+
+	it("rejects invalid options without calling the publisher", async () => {
+		const publisher = createPublisher();
+		const service = new ResumeShareService(publisher);
+
+		await expect(
+			service.publish("resume-1", createTestResume(), null, {
+				...options,
+				expiresAt: "2000-01-01T00:00:00.000Z",
+				password: "short",
+			}),
+		).rejects.toThrow("Invalid share options: expiryInPast, passwordTooShort");
+		expect(publisher.publish).not.toHaveBeenCalled();
+	});
+
+	it("wraps publishing failures", async () => {
+		const publisher = createPublisher();
+		vi.mocked(publisher.publish).mockRejectedValue(new Error("Network error"));
+		const service = new ResumeShareService(publisher);
+
+		await expect(
+			service.publish("resume-1", createTestResume(), null, options),
+		).rejects.toThrow("Failed to publish resume: Network error");
+	});
+
+	it("wraps unpublishing failures", async () => {
+		const publisher = createPublisher();
+		vi.mocked(publisher.unpublish).mockRejectedValue(new Error("Forbidden"));
+		const service = new ResumeShareService(publisher);
+
+		await expect(service.unpublish("resume-1")).rejects.toThrow(
+			"Failed to unpublish resume: Forbidden",
+		);
+	});
+});
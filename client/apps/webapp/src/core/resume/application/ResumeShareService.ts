@@ -0,0 +1,82 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	type ResumeShare,
+	type ResumeSharePublisher,
+	type ShareOptions,
+	validateShareOptions,
+} from "@/core/resume/domain/ResumeShare";
+import type { SectionVisibility } from "@/core/resume/domain/SectionVisibility";
+import { ResumeSectionFilterService } from "./ResumeSectionFilterService";
+
+/**
+ * Application service for public resume links.
+ *
+ * Only the sections and items the user chose to show are published, like in
+ * the generated PDF.
+ *
+ * @example
+ * ```typescript
+ * const shares = new ResumeShareService(resumeShareHttpClient);
+ * const share = await shares.publish("default", resume, visibility, {
+ *   expiresAt: null, password: null, templateId: "engineering", locale: "en",
+ * });
+ * ```
+ */
+export class ResumeShareService {
+	constructor(
+		private readonly publisher: ResumeSharePublisher,
+		private readonly sectionFilter = new ResumeSectionFilterService(),
+	) {}
+
+	/**
+	 * Retrieves the current share of a resume.
+	 */
+	async get(resumeId: string): Promise<ResumeShare | null> {
+		return this.publisher.getShare(resumeId);
+	}
+
+	/**
+	 * Publishes a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param resume - The full resume
+	 * @param visibility - The section selection, or null to publish everything
+	 * @param options - Expiry, password, template and locale
+	 * @returns The share
+	 * @throws Error if the options are invalid or publishing fails
+	 */
+	async publish(
+		resumeId: string,
+		resume: Resume,
+		visibility: SectionVisibility | null,
+		options: ShareOptions,
+	): Promise<ResumeShare> {
+		const errors = validateShareOptions(options);
+		if (errors.length > 0) {
+			throw new Error(`Invalid share options: ${errors.join(", ")}`);
+		}
+		const published = visibility
+			? this.sectionFilter.filterResume(resume, visibility)
+			: resume;
+		try {
+			return await this.publisher.publish(resumeId, published, options);
+		} catch (error) {
+			throw new Error(
+				`Failed to publish resume: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Takes a resume offline.
+	 */
+	async unpublish(resumeId: string): Promise<void> {
+		try {
+			await this.publisher.unpublish(resumeId);
+		} catch (error) {
+			throw new Error(
+				`Failed to unpublish resume: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
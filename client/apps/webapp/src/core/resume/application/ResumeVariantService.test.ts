@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+	ResumeVariant,
+	ResumeVariantRepository,
+} from "@/core/resume/domain/ResumeVariant";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { ResumeVariantService } from "./ResumeVariantService";
+
+class InMemoryVariantRepository implements ResumeVariantRepository {
+	readonly variants = new Map<string, ResumeVariant>();
+
+	async list(baseResumeId: string): Promise<ResumeVariant[]> {
+		return [...this.variants.values()].filter(
+			(variant) => variant.baseResumeId === baseResumeId,
+		);
+	}
+
+	async get(
+		baseResumeId: string,
+		variantId: string,
+	): Promise<ResumeVariant | null> {
+		const variant = this.variants.get(variantId);
+		return variant?.baseResumeId === baseResumeId ? variant : null;
+	}
+
+	async save(variant: ResumeVariant): Promise<void> {
+		this.variants.set(variant.id, variant);
+	}
+
+	async delete(_baseResumeId: string, variantId: string): Promise<void> {
+		this.variants.delete(variantId);
+	}
+}
+
+describe("ResumeVariantService", () => {
+	let repository: InMemoryVariantRepository;
+	let service: ResumeVariantService;
+
+	beforeEach(() => {
+		repository = new InMemoryVariantRepository();
+		service = new ResumeVariantService(repository);
+	});
+
+	describe("create", () => {
+		it("should store a variant with a default selection", async () => {
+			const base = createTestResume();
+
+			const variant = await service.create("resume-1", base, "  Acme  ");
+
+			expect(variant.name).toBe("Acme");
+			expect(variant.baseResumeId).toBe("resume-1");
+			expect(variant.visibility).toEqual(
+				createDefaultVisibility(variant.id, base),
+			);
+			expect(repository.variants.get(variant.id)).toEqual(variant);
+		});
+
+		it("should copy the initial selection", async () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("resume-1", base);
+			visibility.work.items = [true, false];
+
+			const variant = await service.create("resume-1", base, "Acme", {
+				visibility,
+				overrides: { label: "Backend Engineer" },
+			});
+			visibility.work.items = [false, false];
+
+			expect(variant.visibility.resumeId).toBe(variant.id);
+			expect(variant.visibility.work.items).toEqual([true, false]);
+			expect(variant.hiddenItems).toEqual({ work: ["company b|developer"] });
+			expect(variant.overrides).toEqual({ label: "Backend Engineer" });
+		});
+
+		it("should require a name", async () => {
+			await expect(
+				service.create("resume-1", createTestResume(), "   "),
+			).rejects.toThrow("Variant name is required");
+		});
+
+		it("should wrap repository errors", async () => {
+			vi.spyOn(repository, "save").mockRejectedValue(new Error("Quota"));
+
+			await expect(
+				service.create("resume-1", createTestResume(), "Acme"),
+			).rejects.toThrow("Failed to create resume variant: Quota");
+		});
+	});
+
+	describe("list", () => {
+		it("should list variants in creation order", async () => {
+			const base = createTestResume();
+			vi.useFakeTimers();
+			try {
+				vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+				await service.create("resume-1", base, "Second");
+				vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+				await service.create("resume-1", base, "First");
+			} finally {
+				vi.useRealTimers();
+			}
+			await service.create("resume-2", base, "Other");
+
+			const variants = await service.list("resume-1");
+
+			expect(variants.map((variant) => variant.name)).toEqual([
+				"First",
+				"Second",
+			]);
+		});
+	});
+
+	describe("update", () => {
+		it("should replace the given fields only", async () => {
+			const variant = await service.create(
+				"resume-1",
+				createTestResume(),
+				"Acme",
+				{ overrides: { label: "Backend Engineer" } },
+			);
+
+			const updated = await service.update(
+				"resume-1",
+				createTestResume(),
+				variant.id,
+				{ order: { work: ["company b|developer"] } },
+			);
+
+			expect(updated.order).toEqual({ work: ["company b|developer"] });
+			expect(updated.overrides).toEqual({ label: "Backend Engineer" });
+			expect(updated.name).toBe("Acme");
+			expect(await service.get("resume-1", variant.id)).toEqual(updated);
+		});
+
+		it("should keep the name when the new one is empty", async () => {
+			const variant = await service.create(
+				"resume-1",
+				createTestResume(),
+				"Acme",
+			);
+
+			const updated = await service.update(
+				"resume-1",
+				createTestResume(),
+				variant.id,
+				{ name: " " },
+			);
+
+			expect(updated.name).toBe("Acme");
+		});
+
+		it("should fail for an unknown variant", async () => {
+			await expect(
+				service.update("resume-1", createTestResume(), "missing", {
+					name: "Acme",
+				}),
+			).rejects.toThrow("Variant not found: missing");
+		});
+	});
+
+	describe("remove", () => {
+		it("should delete the variant", async () => {
+			const variant = await service.create(
+				"resume-1",
+				createTestResume(),
+				"Acme",
+			);
+
+			await service.remove("resume-1", variant.id);
+
+			expect(await service.get("resume-1", variant.id)).toBeNull();
+		});
+	});
+
+	describe("resolve", () => {
+		it("should apply overrides, order and visibility to the base", async () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("resume-1", base);
+			visibility.skills.items = [true, false, true];
+			const variant = await service.create("resume-1", base, "Acme", {
+				visibility,
+				order: { work: ["company b|developer"] },
+				overrides: { label: "Backend Engineer" },
+			});
+
+			const resume = service.resolve(base, variant);
+
+			expect(resume.basics.label).toBe("Backend Engineer");
+			expect(resume.work.map((work) => work.name)).toEqual([
+				"Company B",
+				"Company A",
+			]);
+			expect(resume.skills.map((skill) => skill.name)).toEqual([
+				"JavaScript",
+				"Python",
+			]);
+		});
+
+		it("should pick up edits to the base resume", async () => {
+			const base = createTestResume();
+			const variant = await service.create("resume-1", base, "Acme", {
+				overrides: { label: "Backend Engineer" },
+			});
+			base.basics.summary = "Updated summary";
+			base.basics.label = "Staff Engineer";
+
+			const resume = service.resolve(base, variant);
+
+			expect(resume.basics.summary).toBe("Updated summary");
+			expect(resume.basics.label).toBe("Backend Engineer");
+		});
+
+		it("should keep order and hidden items on the same entries after base edits", async () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("resume-1", base);
+			visibility.skills.items = [true, false, true];
+			const variant = await service.create("resume-1", base, "Acme", {
+				visibility,
+				order: { work: ["company b|developer"] },
+			});
+			const [companyA, companyB] = base.work;
+			if (!companyA || !companyB) throw new Error("Missing work entries");
+			base.work = [
+				{ ...companyB, summary: "Edited summary" },
+				{ ...companyA, name: "Company C" },
+				companyA,
+			];
+			base.skills = [
+				{ name: "Go", level: "", keywords: [] },
+				...base.skills.filter((skill) => skill.name !== "JavaScript"),
+			];
+
+			const resume = service.resolve(base, variant);
+
+			expect(resume.work.map((work) => work.name)).toEqual([
+				"Company B",
+				"Company C",
+				"Company A",
+			]);
+			expect(resume.work[0]?.summary).toBe("Edited summary");
+			expect(resume.skills.map((skill) => skill.name)).toEqual([
+				"Go",
+				"Python",
+			]);
+		});
+
+		it("should apply the given visibility instead of the stored one", async () => {
+			const base = createTestResume();
+			const variant = await service.create("resume-1", base, "Acme");
+			const visibility = service.visibility(base, variant);
+			visibility.skills.items = [false, true, true];
+
+			const resume = service.resolve(base, variant, visibility);
+
+			expect(resume.skills.map((skill) => skill.name)).toEqual([
+				"TypeScript",
+				"Python",
+			]);
+		});
+	});
+});
@@ -0,0 +1,217 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	applyHiddenItems,
+	applyOverrides,
+	hiddenItemKeys,
+	type ItemOrder,
+	type ResumeVariant,
+	type ResumeVariantRepository,
+	reorderResume,
+	reorderVisibility,
+	type VariantOverrides,
+} from "@/core/resume/domain/ResumeVariant";
+import {
+	createDefaultVisibility,
+	type SectionVisibility,
+} from "@/core/resume/domain/SectionVisibility";
+import { ResumeSectionFilterService } from "./ResumeSectionFilterService";
+
+/**
+ * Deep copy that also works on reactive proxies handed over by stores.
+ */
+function copy<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Fields of a variant that can be changed after creation.
+ */
+export type ResumeVariantChanges = Partial<
+	Pick<ResumeVariant, "name" | "visibility" | "order" | "overrides">
+>;
+
+/**
+ * Application service for tailored resume variants.
+ *
+ * Variants are resolved against the current base resume every time, so base
+ * edits flow into each variant while overridden fields, hidden items and the
+ * custom item order are kept.
+ *
+ * @example
+ * ```typescript
+ * const variants = new ResumeVariantService(new LocalStorageResumeVariantRepository());
+ * const variant = await variants.create("default", resume, "Acme – Backend");
+ * const tailored = variants.resolve(resume, variant);
+ * ```
+ */
+export class ResumeVariantService {
+	constructor(
+		private readonly repository: ResumeVariantRepository,
+		private readonly sectionFilter = new ResumeSectionFilterService(),
+	) {}
+
+	/**
+	 * Creates a variant of a resume.
+	 *
+	 * @param baseResumeId - The base resume ID
+	 * @param base - The base resume content
+	 * @param name - The variant name
+	 * @param initial - Visibility, order and overrides to start from
+	 * @returns The stored variant
+	 * @throws Error if the name is empty or the repository fails
+	 */
+	async create(
+		baseResumeId: string,
+		base: Resume,
+		name: string,
+		initial: {
+			visibility?: SectionVisibility;
+			order?: ItemOrder;
+			overrides?: VariantOverrides;
+		} = {},
+	): Promise<ResumeVariant> {
+		const trimmed = name.trim();
+		if (!trimmed) {
+			throw new Error("Variant name is required");
+		}
+
+		const id = crypto.randomUUID();
+		const now = new Date().toISOString();
+		const visibility = copy(
+			initial.visibility ?? createDefaultVisibility(id, base),
+		);
+		const variant: ResumeVariant = {
+			id,
+			baseResumeId,
+			name: trimmed,
+			visibility: { ...visibility, resumeId: id },
+			hiddenItems: hiddenItemKeys(visibility, base),
+			order: copy(initial.order ?? {}),
+			overrides: { ...initial.overrides },
+			createdAt: now,
+			updatedAt: now,
+		};
+		await this.persist(variant, "create");
+		return variant;
+	}
+
+	/**
+	 * Lists the variants of a resume, in creation order.
+	 */
+	async list(baseResumeId: string): Promise<ResumeVariant[]> {
+		const variants = await this.repository.list(baseResumeId);
+		return [...variants].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+	}
+
+	/**
+	 * Retrieves a variant.
+	 *
+	 * @returns The variant, or null if it does not exist
+	 */
+	async get(
+		baseResumeId: string,
+		variantId: string,
+	): Promise<ResumeVariant | null> {
+		return this.repository.get(baseResumeId, variantId);
+	}
+
+	/**
+	 * Changes a variant.
+	 *
+	 * @param baseResumeId - The base resume ID
+	 * @param base - The base resume content the visibility refers to
+	 * @param variantId - The variant ID
+	 * @param changes - The fields to replace
+	 * @returns The updated variant
+	 * @throws Error if the variant does not exist or the repository fails
+	 */
+	async update(
+		baseResumeId: string,
+		base: Resume,
+		variantId: string,
+		changes: ResumeVariantChanges,
+	): Promise<ResumeVariant> {
+		const existing = await this.repository.get(baseResumeId, variantId);
+		if (!existing) {
+			throw new Error(`Variant not found: ${variantId}`);
+		}
+		const name = changes.name?.trim();
+		const variant: ResumeVariant = {
+			...existing,
+			...changes,
+			name: name || existing.name,
+			order: changes.order ? copy(changes.order) : existing.order,
+			overrides: changes.overrides
+				? { ...changes.overrides }
+				: existing.overrides,
+			visibility: changes.visibility
+				? { ...copy(changes.visibility), resumeId: variantId }
+				: existing.visibility,
+			hiddenItems: changes.visibility
+				? hiddenItemKeys(changes.visibility, base)
+				: existing.hiddenItems,
+			updatedAt: new Date().toISOString(),
+		};
+		await this.persist(variant, "update");
+		return variant;
+	}
+
+	/**
+	 * Removes a variant.
+	 */
+	async remove(baseResumeId: string, variantId: string): Promise<void> {
+		try {
+			await this.repository.delete(baseResumeId, variantId);
+		} catch (error) {
+			throw new Error(
+				`Failed to remove resume variant: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Builds the visibility of a variant for the current base items, ready to
+	 * be edited like the visibility of a resume.
+	 *
+	 * @param base - The current base resume
+	 * @param variant - The variant
+	 * @returns Visibility indexed by base item
+	 */
+	visibility(base: Resume, variant: ResumeVariant): SectionVisibility {
+		return applyHiddenItems(variant.visibility, base, variant.hiddenItems);
+	}
+
+	/**
+	 * Builds the resume a variant stands for: the base resume with the
+	 * variant overrides, item order and visibility applied.
+	 *
+	 * @param base - The current base resume
+	 * @param variant - The variant to resolve
+	 * @param visibility - Visibility indexed by base item, the variant's own by default
+	 * @returns A new resume containing only the variant's visible content
+	 */
+	resolve(
+		base: Resume,
+		variant: ResumeVariant,
+		visibility = this.visibility(base, variant),
+	): Resume {
+		const resume = applyOverrides(base, variant.overrides);
+		return this.sectionFilter.filterResume(
+			reorderResume(resume, variant.order),
+			reorderVisibility(visibility, resume, variant.order),
+		);
+	}
+
+	private async persist(
+		variant: ResumeVariant,
+		action: "create" | "update",
+	): Promise<void> {
+		try {
+			await this.repository.save(variant);
+		} catch (error) {
+			throw new Error(
+				`Failed to ${action} resume variant: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ShareAnalyticsSource } from "@/core/resume/domain/ShareAnalytics";
+import { ShareAnalyticsService } from "./ShareAnalyticsService";
+
+describe("ShareAnalyticsService", () => {
+	const now = new Date(2026, 2, 10, 15, 0, 0);
+
+	it("loads the views of the period and summarizes them", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockResolvedValue([
+				{
+					id: "view-1",
+					shareId: "share-1",
+					viewedAt: new Date(2026, 2, 10, 9).toISOString(),
+					referrer: null,
+					device: "mobile",
+					pdfDownloaded: true,
+				},
+			]),
+		};
+		const service = new ShareAnalyticsService(source);
+
+		const summary = await service.getSummary("resume-1", 30, now);
+
+		expect(source.listViews).toHaveBeenCalledWith(
+			"resume-1",
+			new Date(2026, 1, 9).toISOString(),
+		);
+		expect(summary.totalViews).toBe(1);
+		expect(summary.pdfDownloads).toBe(1);
+		expect(summary.viewsByDay).toHaveLength(30);
+	});
+
+	it("wraps loading failures", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockRejectedValue(new Error("Network error")),
+		};
+		const service = new ShareAnalyticsService(source);
+
+		await expect(service.getSummary("resume-1", 7, now)).rejects.toThrow(
+			"Failed to load share analytics: Network error",
+		);
+	});
+});
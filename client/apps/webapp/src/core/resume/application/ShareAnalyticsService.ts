@@ -0,0 +1,44 @@
+import {
+	analyticsPeriodStart,
+	type ShareAnalyticsSource,
+	type ShareAnalyticsSummary,
+	summarizeShareViews,
+} from "@/core/resume/domain/ShareAnalytics";
+
+/**
+ * Application service for the view statistics of published resumes.
+ *
+ * @example
+ * ```typescript
+ * const analytics = new ShareAnalyticsService(shareAnalyticsHttpClient);
+ * const summary = await analytics.getSummary("resume-1", 30);
+ * ```
+ */
+export class ShareAnalyticsService {
+	constructor(private readonly source: ShareAnalyticsSource) {}
+
+	/**
+	 * Summarizes the views of a resume over the last days.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param days - Length of the period, today included
+	 * @param now - Reference time
+	 * @returns The summary
+	 * @throws Error if the views cannot be loaded
+	 */
+	async getSummary(
+		resumeId: string,
+		days: number,
+		now = new Date(),
+	): Promise<ShareAnalyticsSummary> {
+		try {
+			const since = analyticsPeriodStart(days, now).toISOString();
+			const events = await this.source.listViews(resumeId, since);
+			return summarizeShareViews(events, days, now);
+		} catch (error) {
+			throw new Error(
+				`Failed to load share analytics: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,254 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage";
+import {
+	createDefaultVisibility,
+	type SectionVisibility,
+} from "@/core/resume/domain/SectionVisibility";
+import type {
+	AutosaveDraftStore,
+	MigrationProgress,
+	SectionVisibilityStore,
+} from "@/core/resume/domain/StorageMigration";
+import {
+	LocalStorageResumeStorage,
+	SessionStorageResumeStorage,
+} from "@/core/resume/infrastructure/storage";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { StorageMigrationService } from "./StorageMigrationService";
+
+class InMemoryVisibilityStore implements SectionVisibilityStore {
+	readonly entries = new Map<string, SectionVisibility>();
+
+	load(resumeId: string): SectionVisibility | null {
+		return this.entries.get(resumeId) ?? null;
+	}
+
+	save(visibility: SectionVisibility): void {
+		this.entries.set(visibility.resumeId, visibility);
+	}
+
+	remove(resumeId: string): void {
+		this.entries.delete(resumeId);
+	}
+}
+
+class InMemoryDraftStore implements AutosaveDraftStore {
+	draft: Resume | null = null;
+
+	async load(): Promise<Resume | null> {
+		return this.draft;
+	}
+
+	async save(draft: Resume): Promise<void> {
+		this.draft = draft;
+	}
+
+	async clear(): Promise<void> {
+		this.draft = null;
+	}
+}
+
+describe("StorageMigrationService", () => {
+	let source: ResumeStorage;
+	let target: ResumeStorage;
+	let visibility: InMemoryVisibilityStore;
+	let drafts: InMemoryDraftStore;
+	let service: StorageMigrationService;
+
+	const resumeNamed = (name: string): Resume => {
+		const resume = createTestResume();
+		resume.basics.name = name;
+		return resume;
+	};
+
+	const store = async (
+		storage: ResumeStorage,
+		id: string,
+		resume: Resume,
+		title: string,
+	) => {
+		storage.setActiveResumeId(id);
+		await storage.save(resume);
+		await storage.rename(id, title);
+	};
+
+	const nameIn = async (storage: ResumeStorage, id: string) =>
+		(await storage.loadById(id)).data?.basics.name;
+
+	beforeEach(async () => {
+		localStorage.clear();
+		sessionStorage.clear();
+		source = new LocalStorageResumeStorage();
+		target = new SessionStorageResumeStorage();
+		visibility = new InMemoryVisibilityStore();
+		drafts = new InMemoryDraftStore();
+		service = new StorageMigrationService(source, target, visibility, drafts);
+
+		await store(source, "a", resumeNamed("Ada"), "Backend");
+		await store(source, "b", resumeNamed("Bob"), "Frontend");
+		source.setActiveResumeId("a");
+		visibility.save(createDefaultVisibility("b", resumeNamed("Bob")));
+	});
+
+	it("should preview the data of the source against the target", async () => {
+		await store(target, "b", resumeNamed("Other Bob"), "Old frontend");
+		drafts.draft = resumeNamed("Ada (draft)");
+
+		const plan = await service.preview();
+
+		expect(plan).toMatchObject({
+			source: "local",
+			target: "session",
+			conflicts: 1,
+			activeResumeId: "a",
+		});
+		expect(plan.items.map((item) => item.id).sort()).toEqual([
+			"draft:a",
+			"resume:a",
+			"resume:b",
+			"section-visibility:b",
+		]);
+	});
+
+	it("should copy resumes with their titles and open the same resume", async () => {
+		drafts.draft = resumeNamed("Ada (draft)");
+		const plan = await service.preview();
+
+		const result = await service.migrate(plan, {
+			mode: "copy",
+			resolution: "overwrite",
+		});
+
+		expect(result).toMatchObject({ migrated: 4, skipped: 0 });
+		expect((await target.list()).map((entry) => entry.title).sort()).toEqual([
+			"Backend",
+			"Frontend",
+		]);
+		// The draft holds the latest edits of the open resume
+		expect(await nameIn(target, "a")).toBe("Ada (draft)");
+		expect(target.getActiveResumeId()).toBe("a");
+		expect(await source.list()).toHaveLength(2);
+		expect(drafts.draft).not.toBeNull();
+	});
+
+	it("should remove the migrated data from the source when moving", async () => {
+		drafts.draft = resumeNamed("Ada (draft)");
+		const plan = await service.preview();
+
+		await service.migrate(plan, { mode: "move", resolution: "overwrite" });
+
+		expect(await source.list()).toEqual([]);
+		expect(drafts.draft).toBeNull();
+		expect(await target.list()).toHaveLength(2);
+	});
+
+	describe("conflicts", () => {
+		beforeEach(async () => {
+			await store(target, "b", resumeNamed("Other Bob"), "Old frontend");
+		});
+
+		it("should leave existing resumes untouched when skipping", async () => {
+			const plan = await service.preview();
+
+			const result = await service.migrate(plan, {
+				mode: "copy",
+				resolution: "skip",
+			});
+
+			expect(result).toMatchObject({ migrated: 1, skipped: 1 });
+			expect(await nameIn(target, "b")).toBe("Other Bob");
+		});
+
+		it("should keep both resumes and carry the visibility to the copy", async () => {
+			const plan = await service.preview();
+
+			await service.migrate(plan, { mode: "move", resolution: "keep-both" });
+
+			const copy = (await target.list()).find(
+				(entry) => entry.id !== "a" && entry.id !== "b",
+			);
+			expect(copy?.title).toBe("Frontend");
+			expect(await nameIn(target, "b")).toBe("Other Bob");
+			expect(visibility.load(copy?.id ?? "")).not.toBeNull();
+			expect(visibility.load("b")).toBeNull();
+		});
+
+		it("should replace existing resumes when overwriting", async () => {
+			const plan = await service.preview();
+
+			await service.migrate(plan, { mode: "copy", resolution: "overwrite" });
+
+			expect(await nameIn(target, "b")).toBe("Bob");
+		});
+	});
+
+	it("should undo a resume that was saved but not renamed", async () => {
+		await store(target, "b", resumeNamed("Other Bob"), "Old frontend");
+		const plan = await service.preview();
+		vi.spyOn(target, "rename").mockRejectedValueOnce(
+			new Error("Quota exceeded"),
+		);
+
+		await expect(
+			service.migrate(plan, { mode: "copy", resolution: "overwrite" }),
+		).rejects.toThrow("Quota exceeded");
+
+		expect((await target.list()).map((entry) => entry.id)).toEqual(["b"]);
+		expect(await nameIn(target, "b")).toBe("Other Bob");
+	});
+
+	it("should undo every change when a step fails", async () => {
+		await store(target, "b", resumeNamed("Other Bob"), "Old frontend");
+		target.setActiveResumeId("b");
+		const plan = await service.preview();
+		const rename = target.rename.bind(target);
+		vi.spyOn(target, "rename")
+			.mockImplementationOnce(rename)
+			.mockRejectedValueOnce(new Error("Quota exceeded"));
+
+		await expect(
+			service.migrate(plan, { mode: "move", resolution: "overwrite" }),
+		).rejects.toThrow(
+			"Failed to migrate from local to session: Quota exceeded",
+		);
+
+		expect((await target.list()).map((entry) => entry.id)).toEqual(["b"]);
+		expect(await nameIn(target, "b")).toBe("Other Bob");
+		expect(target.getActiveResumeId()).toBe("b");
+		expect(await source.list()).toHaveLength(2);
+	});
+
+	it("should roll back a finished move and report its progress", async () => {
+		drafts.draft = resumeNamed("Ada (draft)");
+		const plan = await service.preview();
+		const result = await service.migrate(plan, {
+			mode: "move",
+			resolution: "overwrite",
+		});
+		const progress: MigrationProgress[] = [];
+
+		await service.rollback(result, (update) => progress.push(update));
+
+		expect(await target.list()).toEqual([]);
+		expect((await source.list()).map((entry) => entry.title).sort()).toEqual([
+			"Backend",
+			"Frontend",
+		]);
+		expect(source.getActiveResumeId()).toBe("a");
+		expect(drafts.draft?.basics.name).toBe("Ada (draft)");
+		expect(progress[progress.length - 1]).toEqual({
+			phase: "rolling-back",
+			completed: result.steps.length,
+			total: result.steps.length,
+		});
+	});
+
+	it("should report the storage that could not be read", async () => {
+		vi.spyOn(target, "list").mockRejectedValue(new Error("Unauthorized"));
+
+		await expect(service.preview()).rejects.toThrow(
+			"Failed to preview the migration to session: Unauthorized",
+		);
+	});
+});
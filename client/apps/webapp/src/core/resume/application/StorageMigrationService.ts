@@ -0,0 +1,419 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage";
+import {
+	type AutosaveDraftStore,
+	type MigrationItem,
+	type MigrationOptions,
+	type MigrationPhase,
+	type MigrationPlan,
+	type MigrationProgress,
+	type MigrationResult,
+	type MigrationStep,
+	planMigration,
+	type SectionVisibilityStore,
+	selectedItems,
+} from "@/core/resume/domain/StorageMigration";
+
+/**
+ * Receives the progress of a running migration or rollback.
+ */
+export type MigrationProgressListener = (progress: MigrationProgress) => void;
+
+/**
+ * State of a migration while it runs.
+ */
+interface MigrationRun {
+	options: MigrationOptions;
+	steps: MigrationStep[];
+	/** Target ID of every migrated resume, by source ID */
+	targetIds: Map<string, string>;
+	/** Content of every migrated resume, by source ID */
+	resumes: Map<string, Resume>;
+	/** Titles of the resumes the target held before migrating */
+	targetTitles: Map<string, string>;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Application service moving a user's data from one resume storage to another.
+ *
+ * A migration carries the resumes of the source storage, their section
+ * visibility and the autosave draft of the open resume. Every change is
+ * recorded, so a failed migration is undone automatically and a finished one
+ * can be rolled back.
+ *
+ * @example
+ * ```typescript
+ * const migration = new StorageMigrationService(
+ *   new LocalStorageResumeStorage(),
+ *   new RemoteResumeStorage(),
+ *   sectionVisibilityStorage,
+ *   new AutosaveDraftStorage(),
+ * );
+ * const plan = await migration.preview();
+ * const result = await migration.migrate(plan, { mode: "copy", resolution: "keep-both" });
+ * await migration.rollback(result);
+ * ```
+ */
+export class StorageMigrationService {
+	constructor(
+		private readonly source: ResumeStorage,
+		private readonly target: ResumeStorage,
+		private readonly visibility: SectionVisibilityStore,
+		private readonly drafts: AutosaveDraftStore,
+	) {}
+
+	/**
+	 * Lists what a migration would carry and which resumes already exist in the target.
+	 *
+	 * @returns The migration plan
+	 * @throws Error if either storage cannot be read
+	 */
+	async preview(): Promise<MigrationPlan> {
+		try {
+			const [resumes, targetResumes, draft] = await Promise.all([
+				this.source.list(),
+				this.target.list(),
+				this.drafts.load(),
+			]);
+			return planMigration(
+				this.source.type(),
+				this.target.type(),
+				resumes,
+				targetResumes.map((summary) => summary.id),
+				{
+					visibilityIds: resumes
+						.filter((summary) => this.visibility.load(summary.id) !== null)
+						.map((summary) => summary.id),
+					hasDraft: draft !== null,
+					activeResumeId: this.source.getActiveResumeId(),
+				},
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to preview the migration to ${this.target.type()}: ${errorMessage(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Copies or moves the selected items of a plan to the target storage.
+	 * When any step fails, the changes made so far are undone.
+	 *
+	 * @param plan - The plan returned by `preview`
+	 * @param options - Mode, conflict resolution and selected items
+	 * @param onProgress - Receives the progress of every step
+	 * @returns The migration result, to be handed to `rollback`
+	 * @throws Error if the migration fails
+	 */
+	async migrate(
+		plan: MigrationPlan,
+		options: MigrationOptions,
+		onProgress?: MigrationProgressListener,
+	): Promise<MigrationResult> {
+		const items = selectedItems(plan, options);
+		const previousTargetActiveId = this.target.getActiveResumeId();
+		const previousSourceActiveId = this.source.getActiveResumeId();
+		const run: MigrationRun = {
+			options,
+			steps: [],
+			targetIds: new Map(),
+			resumes: new Map(),
+			targetTitles: new Map(),
+		};
+		let migrated = 0;
+
+		try {
+			for (const summary of await this.target.list()) {
+				run.targetTitles.set(summary.id, summary.title);
+			}
+			for (const [index, item] of items.entries()) {
+				onProgress?.({
+					phase: "migrating",
+					completed: index,
+					total: items.length,
+				});
+				if (await this.migrateItem(item, run)) migrated++;
+			}
+			onProgress?.({
+				phase: "migrating",
+				completed: items.length,
+				total: items.length,
+			});
+			if (options.mode === "move") {
+				await this.removeFromSource(items, run, onProgress);
+			}
+		} catch (error) {
+			let message = errorMessage(error);
+			try {
+				await this.undo(
+					run.steps,
+					previousTargetActiveId,
+					previousSourceActiveId,
+					onProgress,
+				);
+			} catch (rollbackError) {
+				message += ` (rollback failed: ${errorMessage(rollbackError)})`;
+			}
+			throw new Error(
+				`Failed to migrate from ${plan.source} to ${plan.target}: ${message}`,
+			);
+		}
+
+		const activeResumeId =
+			(plan.activeResumeId && run.targetIds.get(plan.activeResumeId)) ||
+			previousTargetActiveId;
+		if (activeResumeId) {
+			this.target.setActiveResumeId(activeResumeId);
+		}
+		if (previousSourceActiveId) {
+			this.source.setActiveResumeId(previousSourceActiveId);
+		}
+
+		return {
+			source: plan.source,
+			target: plan.target,
+			mode: options.mode,
+			migrated,
+			skipped: items.length - migrated,
+			steps: run.steps,
+			activeResumeId,
+			previousTargetActiveId,
+			previousSourceActiveId,
+		};
+	}
+
+	/**
+	 * Undoes a finished migration: restores what the target held before and,
+	 * for a move, puts the data back into the source.
+	 *
+	 * @param result - The result returned by `migrate`
+	 * @param onProgress - Receives the progress of every step
+	 * @throws Error if a step cannot be undone
+	 */
+	async rollback(
+		result: MigrationResult,
+		onProgress?: MigrationProgressListener,
+	): Promise<void> {
+		try {
+			await this.undo(
+				result.steps,
+				result.previousTargetActiveId,
+				result.previousSourceActiveId,
+				onProgress,
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to roll back the migration from ${result.source} to ${result.target}: ${errorMessage(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Migrates a single item.
+	 *
+	 * @returns Whether the item was written to the target
+	 */
+	private async migrateItem(
+		item: MigrationItem,
+		run: MigrationRun,
+	): Promise<boolean> {
+		switch (item.kind) {
+			case "resume":
+				return this.migrateResume(item, run);
+			case "section-visibility":
+				return this.migrateVisibility(item, run);
+			case "draft":
+				return this.migrateDraft(item, run);
+		}
+	}
+
+	private async migrateResume(
+		item: MigrationItem,
+		run: MigrationRun,
+	): Promise<boolean> {
+		const { resolution } = run.options;
+		if (item.conflict && resolution === "skip") return false;
+
+		const { data: resume } = await this.source.loadById(item.resumeId);
+		if (!resume) {
+			throw new Error(`Resume not found: ${item.resumeId}`);
+		}
+		run.resumes.set(item.resumeId, resume);
+
+		if (item.conflict && resolution === "keep-both") {
+			const copy = await this.target.create(resume, item.title);
+			run.steps.push({ type: "target-created", resumeId: copy.id });
+			run.targetIds.set(item.resumeId, copy.id);
+			return true;
+		}
+
+		if (item.conflict) {
+			const { data: previous } = await this.target.loadById(item.resumeId);
+			if (previous) {
+				run.steps.push({
+					type: "target-replaced",
+					resumeId: item.resumeId,
+					previous,
+					title: run.targetTitles.get(item.resumeId) ?? item.title,
+				});
+			}
+		}
+		// Recorded before writing, so a resume saved but not yet renamed is undone too
+		if (!item.conflict) {
+			run.steps.push({ type: "target-created", resumeId: item.resumeId });
+		}
+		await this.write(this.target, item.resumeId, resume, item.title);
+		run.targetIds.set(item.resumeId, item.resumeId);
+		return true;
+	}
+
+	/**
+	 * Visibility is kept per resume ID outside the storages, so it only needs
+	 * copying when the resume got a new ID in the target.
+	 */
+	private async migrateVisibility(
+		item: MigrationItem,
+		run: MigrationRun,
+	): Promise<boolean> {
+		const targetId = run.targetIds.get(item.resumeId);
+		if (!targetId) return false;
+		if (targetId === item.resumeId) return true;
+
+		const visibility = this.visibility.load(item.resumeId);
+		if (!visibility) return false;
+		this.visibility.save({ ...visibility, resumeId: targetId });
+		run.steps.push({ type: "visibility-copied", resumeId: targetId });
+		return true;
+	}
+
+	/**
+	 * The draft holds the latest edits of the open resume, so it becomes the
+	 * content of that resume in the target.
+	 */
+	private async migrateDraft(
+		item: MigrationItem,
+		run: MigrationRun,
+	): Promise<boolean> {
+		const targetId = run.targetIds.get(item.resumeId);
+		const draft = await this.drafts.load();
+		if (!targetId || !draft) return false;
+
+		this.target.setActiveResumeId(targetId);
+		await this.target.save(draft);
+		return true;
+	}
+
+	/**
+	 * Removes the migrated items from the source once the target holds them.
+	 */
+	private async removeFromSource(
+		items: ReadonlyArray<MigrationItem>,
+		run: MigrationRun,
+		onProgress?: MigrationProgressListener,
+	): Promise<void> {
+		const migrated = items.filter((item) => run.targetIds.has(item.resumeId));
+		for (const [index, item] of migrated.entries()) {
+			onProgress?.({
+				phase: "cleaning-up",
+				completed: index,
+				total: migrated.length,
+			});
+			const targetId = run.targetIds.get(item.resumeId);
+			if (item.kind === "resume") {
+				const resume = run.resumes.get(item.resumeId);
+				if (!resume) continue;
+				await this.source.delete(item.resumeId);
+				run.steps.push({
+					type: "source-deleted",
+					resumeId: item.resumeId,
+					resume,
+					title: item.title,
+				});
+			} else if (item.kind === "section-visibility") {
+				const visibility = this.visibility.load(item.resumeId);
+				if (!visibility || targetId === item.resumeId) continue;
+				this.visibility.remove(item.resumeId);
+				run.steps.push({ type: "visibility-removed", visibility });
+			} else {
+				const draft = await this.drafts.load();
+				if (!draft) continue;
+				await this.drafts.clear();
+				run.steps.push({ type: "draft-cleared", draft });
+			}
+		}
+		onProgress?.({
+			phase: "cleaning-up",
+			completed: migrated.length,
+			total: migrated.length,
+		});
+	}
+
+	/**
+	 * Reverts recorded steps, most recent first.
+	 */
+	private async undo(
+		steps: ReadonlyArray<MigrationStep>,
+		previousTargetActiveId: string | null,
+		previousSourceActiveId: string | null,
+		onProgress?: MigrationProgressListener,
+	): Promise<void> {
+		const phase: MigrationPhase = "rolling-back";
+		const reversed = [...steps].reverse();
+		for (const [index, step] of reversed.entries()) {
+			onProgress?.({ phase, completed: index, total: reversed.length });
+			await this.revert(step);
+		}
+		onProgress?.({
+			phase,
+			completed: reversed.length,
+			total: reversed.length,
+		});
+		if (previousTargetActiveId) {
+			this.target.setActiveResumeId(previousTargetActiveId);
+		}
+		if (previousSourceActiveId) {
+			this.source.setActiveResumeId(previousSourceActiveId);
+		}
+	}
+
+	private async revert(step: MigrationStep): Promise<void> {
+		switch (step.type) {
+			case "target-created":
+				await this.target.delete(step.resumeId);
+				return;
+			case "target-replaced":
+				await this.write(this.target, step.resumeId, step.previous, step.title);
+				return;
+			case "source-deleted":
+				await this.write(this.source, step.resumeId, step.resume, step.title);
+				return;
+			case "visibility-copied":
+				this.visibility.remove(step.resumeId);
+				return;
+			case "visibility-removed":
+				this.visibility.save(step.visibility);
+				return;
+			case "draft-cleared":
+				await this.drafts.save(step.draft);
+				return;
+		}
+	}
+
+	/**
+	 * Stores a resume under a given ID, keeping its title.
+	 */
+	private async write(
+		storage: ResumeStorage,
+		id: string,
+		resume: Resume,
+		title: string,
+	): Promise<void> {
+		storage.setActiveResumeId(id);
+		await storage.save(resume);
+		await storage.rename(id, title);
+	}
+}
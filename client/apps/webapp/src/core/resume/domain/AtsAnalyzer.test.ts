@@ -0,0 +1,312 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "../test-resume-factory";
+import { type AtsFinding, analyzeAts, atsScore } from "./AtsAnalyzer";
+import type { Resume } from "./Resume";
+
+describe("AtsAnalyzer", () => {
+	const rules = (findings: ReadonlyArray<AtsFinding>) =>
+		findings.map((finding) => finding.rule);
+
+	// A resume with no ATS issues, used as the baseline of each test
+	const createCleanResume = (overrides: Partial<Resume> = {}): Resume =>
+		createTestResume({
+			basics: {
+				...createTestResume().basics,
+				image: "",
+				summary:
+					"Software engineer building TypeScript and Python services for fintech teams.",
+			},
+			work: [
+				{
+					name: "Company A",
+					position: "Senior Developer",
+					url: "",
+					startDate: "2020-01",
+					endDate: "2022-12",
+					summary: "Led development team",
+					highlights: [
+						"Cut API latency by 40% with Node.js and ES6 streams",
+						"Introduced TypeScript interfaces and types across 12 services",
+					],
+				},
+			],
+			education: [
+				{
+					institution: "University A",
+					url: "",
+					area: "Computer Science",
+					studyType: "Bachelor",
+					startDate: "2014-09",
+					endDate: "2018-06",
+					score: "",
+					courses: [],
+				},
+			],
+			projects: [
+				{
+					name: "Project Alpha",
+					startDate: "2021-01",
+					endDate: "2021-12",
+					description: "Django and Flask services in Python",
+					highlights: [],
+					url: "",
+				},
+			],
+			volunteer: [],
+			references: [],
+			...overrides,
+		});
+
+	it("should give a clean resume a full score", () => {
+		const report = analyzeAts(createCleanResume());
+
+		expect(report.findings).toEqual([]);
+		expect(report.score).toBe(100);
+	});
+
+	it("should report missing and invalid contact details", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			basics: {
+				...resume.basics,
+				email: "john.example.com",
+				phone: "",
+				label: "",
+				location: null,
+			},
+		});
+
+		expect(report.findings).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					rule: "invalid-email",
+					severity: "error",
+					section: "basics",
+					path: "basics.email",
+				}),
+				expect.objectContaining({
+					rule: "missing-contact",
+					severity: "warning",
+					path: "basics.phone",
+					params: { field: "phone" },
+				}),
+				expect.objectContaining({
+					rule: "missing-contact",
+					path: "basics.location.city",
+				}),
+				expect.objectContaining({ rule: "missing-label", severity: "info" }),
+			]),
+		);
+	});
+
+	it("should flag summaries that are missing or too long", () => {
+		const resume = createCleanResume();
+
+		expect(
+			rules(
+				analyzeAts({ ...resume, basics: { ...resume.basics, summary: "" } })
+					.findings,
+			),
+		).toContain("missing-summary");
+		expect(
+			analyzeAts({
+				...resume,
+				basics: { ...resume.basics, summary: "word ".repeat(81) },
+			}).findings,
+		).toContainEqual(
+			expect.objectContaining({
+				rule: "long-summary",
+				params: { words: 81, max: 80 },
+			}),
+		);
+	});
+
+	it("should flag highlights without measurable results", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			work: [
+				{
+					...(resume.work[0] as Resume["work"][number]),
+					highlights: ["Improved the API", "Mentored engineers"],
+				},
+			],
+		});
+
+		expect(report.findings).toContainEqual(
+			expect.objectContaining({
+				rule: "unquantified-highlights",
+				severity: "warning",
+				section: "work",
+				entryIndex: 0,
+				path: "work[0].highlights",
+			}),
+		);
+	});
+
+	it("should flag entries without any description", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			projects: [
+				{
+					...(resume.projects[0] as Resume["projects"][number]),
+					description: "",
+				},
+			],
+		});
+
+		expect(report.findings).toContainEqual(
+			expect.objectContaining({
+				rule: "missing-description",
+				section: "projects",
+				entryIndex: 0,
+			}),
+		);
+	});
+
+	it("should flag invalid, inconsistent and reversed dates", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			work: [
+				{
+					...(resume.work[0] as Resume["work"][number]),
+					startDate: "2020-01-15",
+					endDate: "March 2022",
+				},
+			],
+			education: [
+				{
+					...(resume.education[0] as Resume["education"][number]),
+					startDate: "2018-09",
+					endDate: "2014-06",
+				},
+			],
+		});
+
+		expect(report.findings).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					rule: "invalid-date",
+					path: "work[0].endDate",
+					params: { value: "March 2022" },
+				}),
+				expect.objectContaining({
+					rule: "inconsistent-date-format",
+					path: "work[0].startDate",
+					params: { format: "YYYY-MM-DD", expected: "YYYY-MM" },
+				}),
+				expect.objectContaining({
+					rule: "date-order",
+					section: "education",
+					entryIndex: 0,
+				}),
+			]),
+		);
+	});
+
+	it("should compare dates of different precision at the shared precision", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			work: [
+				{
+					...(resume.work[0] as Resume["work"][number]),
+					startDate: "2022-05",
+					endDate: "2022",
+				},
+			],
+		});
+
+		expect(rules(report.findings)).not.toContain("date-order");
+	});
+
+	it("should check skill keywords and how the experience backs them", () => {
+		const resume = createCleanResume({
+			skills: [{ name: "Go", level: "", keywords: ["Kubernetes"] }],
+		});
+		const report = analyzeAts(resume);
+
+		expect(report.findings).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					rule: "few-keywords",
+					params: { count: 2, min: 5 },
+				}),
+				expect.objectContaining({
+					rule: "unsupported-skills",
+					params: { keywords: "Kubernetes" },
+				}),
+			]),
+		);
+		expect(
+			rules(analyzeAts(createCleanResume({ skills: [] })).findings),
+		).toContain("missing-skills");
+	});
+
+	it("should flag repeated terms as keyword stuffing", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			work: [
+				{
+					...(resume.work[0] as Resume["work"][number]),
+					highlights: [
+						"Java Java Java developer",
+						"Java services for 3 Java teams",
+					],
+				},
+			],
+		});
+
+		expect(report.findings).toContainEqual(
+			expect.objectContaining({
+				rule: "keyword-stuffing",
+				params: { term: "java", count: 5 },
+			}),
+		);
+	});
+
+	it("should flag photos and references sections", () => {
+		const report = analyzeAts(
+			createCleanResume({
+				basics: { ...createCleanResume().basics, image: "photo.jpg" },
+				references: [{ name: "Jane", reference: "Great" }],
+			}),
+		);
+
+		expect(rules(report.findings)).toEqual(["photo", "references-section"]);
+	});
+
+	it("should order findings by severity and score them", () => {
+		const resume = createCleanResume();
+		const report = analyzeAts({
+			...resume,
+			basics: { ...resume.basics, email: "", summary: "", image: "me.png" },
+		});
+
+		expect(report.findings.map((finding) => finding.severity)).toEqual([
+			"error",
+			"info",
+			"info",
+		]);
+		expect(report.score).toBe(100 - 12 - 2 - 2);
+		expect(new Set(report.findings.map((finding) => finding.id)).size).toBe(3);
+	});
+
+	it("should never score below zero", () => {
+		const findings = Array.from({ length: 20 }, (_, index) => ({
+			id: String(index),
+			rule: "invalid-date" as const,
+			severity: "error" as const,
+			section: "work" as const,
+			entryIndex: 0,
+			path: "work[0].startDate",
+			params: {},
+		}));
+
+		expect(atsScore(findings)).toBe(0);
+	});
+});
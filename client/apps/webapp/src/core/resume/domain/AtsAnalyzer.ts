@@ -0,0 +1,503 @@
+import type { Resume } from "./Resume";
+import { containsTerm, contentWords, countWords } from "./TextAnalysis";
+
+/**
+ * How much a finding hurts the chances of the resume being parsed and ranked well
+ */
+export type AtsSeverity = "error" | "warning" | "info";
+
+/**
+ * Checks performed by the analyzer. Each rule has a translated message in
+ * `resume.ats.rules.<rule>`, interpolated with the finding params.
+ */
+export type AtsRule =
+	| "missing-contact"
+	| "invalid-email"
+	| "missing-label"
+	| "missing-summary"
+	| "long-summary"
+	| "missing-work"
+	| "missing-skills"
+	| "few-keywords"
+	| "keyword-stuffing"
+	| "unsupported-skills"
+	| "skill-as-sentence"
+	| "missing-description"
+	| "unquantified-highlights"
+	| "long-highlight"
+	| "invalid-date"
+	| "inconsistent-date-format"
+	| "date-order"
+	| "photo"
+	| "references-section";
+
+/**
+ * A single issue found in a resume, pointing at the field to fix.
+ */
+export interface AtsFinding {
+	/** Unique within a report */
+	id: string;
+	rule: AtsRule;
+	severity: AtsSeverity;
+	/** Resume section holding the field */
+	section: keyof Resume;
+	/** Entry of a list section, null for the section as a whole */
+	entryIndex: number | null;
+	/** Path of the offending field (e.g. `work[1].startDate`) */
+	path: string;
+	/** Values interpolated in the translated message */
+	params: Readonly<Record<string, string | number>>;
+}
+
+export interface AtsReport {
+	/** 0 (unlikely to pass an ATS) to 100 (no issues found) */
+	score: number;
+	/** Findings, most severe first */
+	findings: ReadonlyArray<AtsFinding>;
+}
+
+/**
+ * Points taken off the score for each finding of a severity
+ */
+export const ATS_SEVERITY_PENALTY: Readonly<Record<AtsSeverity, number>> = {
+	error: 12,
+	warning: 5,
+	info: 2,
+};
+
+/** Longest summary, in words, that recruiters and ATS previews show in full */
+export const MAX_SUMMARY_WORDS = 80;
+
+/** Longest highlight, in words, before it reads as a paragraph */
+export const MAX_HIGHLIGHT_WORDS = 40;
+
+/** Fewest distinct skill keywords for keyword matching to work */
+export const MIN_SKILL_KEYWORDS = 5;
+
+/** Share of all content words above which a single term reads as keyword stuffing */
+export const MAX_KEYWORD_DENSITY = 0.05;
+
+const SEVERITY_ORDER: Readonly<Record<AtsSeverity, number>> = {
+	error: 0,
+	warning: 1,
+	info: 2,
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Numbers, percentages and amounts make an achievement measurable
+const QUANTIFIED_REGEX = /\d|%|[$€£]/;
+
+/**
+ * Formats of ISO 8601 dates accepted in JSON Resume
+ */
+type DateFormat = "YYYY" | "YYYY-MM" | "YYYY-MM-DD";
+
+const DATE_FORMATS: ReadonlyArray<[DateFormat, RegExp]> = [
+	["YYYY-MM-DD", /^\d{4}-\d{2}-\d{2}$/],
+	["YYYY-MM", /^\d{4}-\d{2}$/],
+	["YYYY", /^\d{4}$/],
+];
+
+interface DatedEntry {
+	section: "work" | "education" | "volunteer" | "projects";
+	index: number;
+	startDate: string;
+	endDate: string;
+}
+
+type FindingInput = Omit<AtsFinding, "id" | "params" | "entryIndex"> & {
+	entryIndex?: number | null;
+	params?: AtsFinding["params"];
+};
+
+class FindingCollector {
+	readonly findings: AtsFinding[] = [];
+
+	add(finding: FindingInput): void {
+		this.findings.push({
+			...finding,
+			id: `${finding.rule}:${finding.path}:${this.findings.length}`,
+			entryIndex: finding.entryIndex ?? null,
+			params: finding.params ?? {},
+		});
+	}
+}
+
+function dateFormatOf(value: string): DateFormat | null {
+	return DATE_FORMATS.find(([, regex]) => regex.test(value))?.[0] ?? null;
+}
+
+function checkContact(resume: Resume, collector: FindingCollector): void {
+	const { basics } = resume;
+	const required: ReadonlyArray<[string, string, AtsSeverity]> = [
+		["name", basics.name, "error"],
+		["email", basics.email, "error"],
+		["phone", basics.phone, "warning"],
+		["location.city", basics.location?.city ?? "", "warning"],
+	];
+	for (const [field, value, severity] of required) {
+		if (!value.trim()) {
+			collector.add({
+				rule: "missing-contact",
+				severity,
+				section: "basics",
+				path: `basics.${field}`,
+				params: { field },
+			});
+		}
+	}
+
+	if (basics.email.trim() && !EMAIL_REGEX.test(basics.email.trim())) {
+		collector.add({
+			rule: "invalid-email",
+			severity: "error",
+			section: "basics",
+			path: "basics.email",
+		});
+	}
+	if (!basics.label.trim()) {
+		collector.add({
+			rule: "missing-label",
+			severity: "info",
+			section: "basics",
+			path: "basics.label",
+		});
+	}
+}
+
+function checkSummary(resume: Resume, collector: FindingCollector): void {
+	const words = countWords(resume.basics.summary);
+	if (words === 0) {
+		collector.add({
+			rule: "missing-summary",
+			severity: "info",
+			section: "basics",
+			path: "basics.summary",
+		});
+	} else if (words > MAX_SUMMARY_WORDS) {
+		collector.add({
+			rule: "long-summary",
+			severity: "warning",
+			section: "basics",
+			path: "basics.summary",
+			params: { words, max: MAX_SUMMARY_WORDS },
+		});
+	}
+}
+
+/**
+ * Checks that experience entries describe achievements that can be measured.
+ */
+function checkExperience(resume: Resume, collector: FindingCollector): void {
+	if (resume.work.length === 0) {
+		collector.add({
+			rule: "missing-work",
+			severity: "warning",
+			section: "work",
+			path: "work",
+		});
+	}
+
+	const entries = [
+		...resume.work.map((entry, index) => ({
+			section: "work" as const,
+			index,
+			summary: entry.summary,
+			highlights: entry.highlights,
+		})),
+		...resume.volunteer.map((entry, index) => ({
+			section: "volunteer" as const,
+			index,
+			summary: entry.summary,
+			highlights: entry.highlights,
+		})),
+		...resume.projects.map((entry, index) => ({
+			section: "projects" as const,
+			index,
+			summary: entry.description,
+			highlights: entry.highlights,
+		})),
+	];
+
+	for (const entry of entries) {
+		const highlights = entry.highlights.filter((highlight) => highlight.trim());
+		const path = `${entry.section}[${entry.index}]`;
+
+		if (highlights.length === 0 && !entry.summary.trim()) {
+			collector.add({
+				rule: "missing-description",
+				severity: "warning",
+				section: entry.section,
+				entryIndex: entry.index,
+				path: `${path}.highlights`,
+			});
+			continue;
+		}
+
+		if (
+			highlights.length > 0 &&
+			!highlights.some((highlight) => QUANTIFIED_REGEX.test(highlight))
+		) {
+			collector.add({
+				rule: "unquantified-highlights",
+				severity: entry.section === "work" ? "warning" : "info",
+				section: entry.section,
+				entryIndex: entry.index,
+				path: `${path}.highlights`,
+			});
+		}
+
+		entry.highlights.forEach((highlight, highlightIndex) => {
+			const words = countWords(highlight);
+			if (words > MAX_HIGHLIGHT_WORDS) {
+				collector.add({
+					rule: "long-highlight",
+					severity: "info",
+					section: entry.section,
+					entryIndex: entry.index,
+					path: `${path}.highlights[${highlightIndex}]`,
+					params: { words, max: MAX_HIGHLIGHT_WORDS },
+				});
+			}
+		});
+	}
+}
+
+/**
+ * Checks that every date is a valid ISO 8601 date, that all dates share the
+ * same precision, and that no entry ends before it starts.
+ */
+function checkDates(resume: Resume, collector: FindingCollector): void {
+	const entries: DatedEntry[] = [
+		...resume.work.map((entry, index) => ({
+			section: "work" as const,
+			index,
+			...entry,
+		})),
+		...resume.education.map((entry, index) => ({
+			section: "education" as const,
+			index,
+			...entry,
+		})),
+		...resume.volunteer.map((entry, index) => ({
+			section: "volunteer" as const,
+			index,
+			...entry,
+		})),
+		...resume.projects.map((entry, index) => ({
+			section: "projects" as const,
+			index,
+			...entry,
+		})),
+	];
+
+	const formats = new Map<DateFormat, number>();
+	const valid: Array<{ entry: DatedEntry; field: string; format: DateFormat }> =
+		[];
+
+	for (const entry of entries) {
+		for (const field of ["startDate", "endDate"] as const) {
+			const value = entry[field].trim();
+			if (!value) continue;
+			const format = dateFormatOf(value);
+			const path = `${entry.section}[${entry.index}].${field}`;
+			if (!format) {
+				collector.add({
+					rule: "invalid-date",
+					severity: "error",
+					section: entry.section,
+					entryIndex: entry.index,
+					path,
+					params: { value },
+				});
+				continue;
+			}
+			formats.set(format, (formats.get(format) ?? 0) + 1);
+			valid.push({ entry, field, format });
+		}
+
+		const start = entry.startDate.trim();
+		const end = entry.endDate.trim();
+		// Compared at the shared precision, so "2022" may end a "2022-05" start
+		const precision = Math.min(start.length, end.length);
+		if (
+			dateFormatOf(start) &&
+			dateFormatOf(end) &&
+			end.slice(0, precision) < start.slice(0, precision)
+		) {
+			collector.add({
+				rule: "date-order",
+				severity: "error",
+				section: entry.section,
+				entryIndex: entry.index,
+				path: `${entry.section}[${entry.index}].endDate`,
+			});
+		}
+	}
+
+	// The most used format is taken as the intended one
+	const [expected] =
+		[...formats.entries()].sort(([, a], [, b]) => b - a)[0] ?? [];
+	if (!expected || formats.size < 2) return;
+
+	for (const { entry, field, format } of valid) {
+		if (format === expected) continue;
+		collector.add({
+			rule: "inconsistent-date-format",
+			severity: "warning",
+			section: entry.section,
+			entryIndex: entry.index,
+			path: `${entry.section}[${entry.index}].${field}`,
+			params: { format, expected },
+		});
+	}
+}
+
+/**
+ * Checks the skills section and how its keywords are used across the resume.
+ */
+function checkKeywords(resume: Resume, collector: FindingCollector): void {
+	const skills = resume.skills.filter((skill) => skill.name.trim());
+	if (skills.length === 0) {
+		collector.add({
+			rule: "missing-skills",
+			severity: "warning",
+			section: "skills",
+			path: "skills",
+		});
+	}
+
+	resume.skills.forEach((skill, index) => {
+		if (countWords(skill.name) > 5) {
+			collector.add({
+				rule: "skill-as-sentence",
+				severity: "info",
+				section: "skills",
+				entryIndex: index,
+				path: `skills[${index}].name`,
+			});
+		}
+	});
+
+	const keywords = [
+		...new Set(
+			resume.skills
+				.flatMap((skill) => [skill.name, ...skill.keywords])
+				.map((keyword) => keyword.trim())
+				.filter(Boolean),
+		),
+	];
+	if (skills.length > 0 && keywords.length < MIN_SKILL_KEYWORDS) {
+		collector.add({
+			rule: "few-keywords",
+			severity: "warning",
+			section: "skills",
+			path: "skills",
+			params: { count: keywords.length, min: MIN_SKILL_KEYWORDS },
+		});
+	}
+
+	// Skills should be backed by the experience that demonstrates them
+	const experience = [
+		resume.basics.summary,
+		...resume.work.flatMap((work) => [work.summary, ...work.highlights]),
+		...resume.projects.flatMap((project) => [
+			project.description,
+			...project.highlights,
+		]),
+		...resume.volunteer.flatMap((volunteer) => [
+			volunteer.summary,
+			...volunteer.highlights,
+		]),
+	].join("\n");
+	const unsupported = resume.skills
+		.flatMap((skill) => skill.keywords)
+		.filter((keyword) => keyword.trim() && !containsTerm(experience, keyword));
+	if (experience.trim() && unsupported.length > 0) {
+		collector.add({
+			rule: "unsupported-skills",
+			severity: "info",
+			section: "skills",
+			path: "skills",
+			params: { keywords: unsupported.slice(0, 5).join(", ") },
+		});
+	}
+
+	// Repeating a term many times reads as keyword stuffing
+	const words = contentWords(experience);
+	const counts = new Map<string, number>();
+	for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+	for (const [term, count] of counts) {
+		if (count >= 5 && count / words.length > MAX_KEYWORD_DENSITY) {
+			collector.add({
+				rule: "keyword-stuffing",
+				severity: "warning",
+				section: "work",
+				path: "work",
+				params: { term, count },
+			});
+		}
+	}
+}
+
+function checkSections(resume: Resume, collector: FindingCollector): void {
+	if (resume.basics.image.trim()) {
+		collector.add({
+			rule: "photo",
+			severity: "info",
+			section: "basics",
+			path: "basics.image",
+		});
+	}
+	if (resume.references.length > 0) {
+		collector.add({
+			rule: "references-section",
+			severity: "info",
+			section: "references",
+			path: "references",
+		});
+	}
+}
+
+/**
+ * Computes the score of a set of findings.
+ */
+export function atsScore(findings: ReadonlyArray<AtsFinding>): number {
+	const penalty = findings.reduce(
+		(total, finding) => total + ATS_SEVERITY_PENALTY[finding.severity],
+		0,
+	);
+	return Math.max(0, 100 - penalty);
+}
+
+/**
+ * Analyzes how well a resume will be parsed and ranked by applicant tracking systems.
+ *
+ * The analysis is local and deterministic: it checks contact details, summary
+ * length, measurable achievements, date consistency, skill keywords and
+ * section usage, and scores the resume from the findings.
+ *
+ * @param resume - The resume to analyze
+ * @returns The score and the findings, most severe first
+ */
+export function analyzeAts(resume: Resume): AtsReport {
+	const collector = new FindingCollector();
+	checkContact(resume, collector);
+	checkSummary(resume, collector);
+	checkExperience(resume, collector);
+	checkDates(resume, collector);
+	checkKeywords(resume, collector);
+	checkSections(resume, collector);
+
+	const findings = collector.findings
+		.map((finding, order) => ({ finding, order }))
+		.sort(
+			(a, b) =>
+				SEVERITY_ORDER[a.finding.severity] -
+					SEVERITY_ORDER[b.finding.severity] || a.order - b.order,
+		)
+		.map(({ finding }) => finding);
+
+	return { score: atsScore(findings), findings };
+}
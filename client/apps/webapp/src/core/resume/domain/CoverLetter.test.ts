@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	createCoverLetter,
+	deriveCoverLetterTitle,
+	resolveSignOff,
+	sortCoverLetters,
+	toCoverLetterSummary,
+} from "./CoverLetter";
+
+describe("CoverLetter", () => {
+	describe("createCoverLetter", () => {
+		it("should start with one empty paragraph and an empty sign-off", () => {
+			const letter = createCoverLetter("letter-1", "Acme", {
+				resumeId: "resume-1",
+				variantId: null,
+			});
+
+			expect(letter.paragraphs).toEqual([""]);
+			expect(letter.signOff).toEqual({
+				closing: "",
+				name: "",
+				email: "",
+				phone: "",
+			});
+			expect(letter.link).toEqual({ resumeId: "resume-1", variantId: null });
+			expect(letter.createdAt).toBe(letter.updatedAt);
+		});
+	});
+
+	describe("resolveSignOff", () => {
+		it("should fill empty fields from the resume basics", () => {
+			const letter = createCoverLetter("letter-1", "Acme");
+			letter.signOff.closing = "Best regards";
+
+			expect(resolveSignOff(letter, createTestResume())).toEqual({
+				closing: "Best regards",
+				name: "John Doe",
+				email: "john@example.com",
+				phone: "+1-555-0100",
+			});
+		});
+
+		it("should keep the fields the user typed", () => {
+			const letter = createCoverLetter("letter-1", "Acme");
+			letter.signOff.name = "Johnny";
+			letter.signOff.phone = "   ";
+
+			const signOff = resolveSignOff(letter, createTestResume());
+
+			expect(signOff.name).toBe("Johnny");
+			expect(signOff.phone).toBe("+1-555-0100");
+		});
+
+		it("should leave fields empty without a linked resume", () => {
+			const letter = createCoverLetter("letter-1", "Acme");
+
+			expect(resolveSignOff(letter, null).name).toBe("");
+		});
+	});
+
+	describe("deriveCoverLetterTitle", () => {
+		it("should combine role and company", () => {
+			const letter = {
+				...createCoverLetter("letter-1", ""),
+				role: "Engineer",
+				company: "Acme",
+			};
+
+			expect(deriveCoverLetterTitle(letter)).toBe("Engineer – Acme");
+		});
+
+		it("should fall back to a placeholder title", () => {
+			expect(deriveCoverLetterTitle(createCoverLetter("letter-1", ""))).toBe(
+				"Untitled cover letter",
+			);
+		});
+	});
+
+	describe("sortCoverLetters", () => {
+		it("should order summaries by last update, most recent first", () => {
+			const older = toCoverLetterSummary({
+				...createCoverLetter("old", "Old"),
+				updatedAt: "2024-01-01T00:00:00Z",
+			});
+			const newer = toCoverLetterSummary({
+				...createCoverLetter("new", "New"),
+				updatedAt: "2024-03-01T00:00:00Z",
+			});
+
+			expect(sortCoverLetters([older, newer]).map((s) => s.id)).toEqual([
+				"new",
+				"old",
+			]);
+		});
+	});
+});
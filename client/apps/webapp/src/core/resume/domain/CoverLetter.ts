@@ -0,0 +1,207 @@
+import type { Basics, Resume } from "./Resume";
+
+/**
+ * Closing block of a cover letter. Empty fields are filled from the linked
+ * resume when the letter is rendered, see {@link resolveSignOff}.
+ */
+export interface CoverLetterSignOff {
+	/** Closing phrase (e.g. "Kind regards,") */
+	closing: string;
+	name: string;
+	email: string;
+	phone: string;
+}
+
+/**
+ * The resume, or tailored variant of it, a cover letter accompanies.
+ */
+export interface CoverLetterLink {
+	resumeId: string;
+	/** Variant of the resume, or null for the base resume */
+	variantId: string | null;
+}
+
+/**
+ * A cover letter written for one application.
+ */
+export interface CoverLetter {
+	id: string;
+	/** Name shown in the cover letter list */
+	title: string;
+	/** Person or team the letter is addressed to (e.g. "Hiring Manager") */
+	recipient: string;
+	company: string;
+	/** Role applied for */
+	role: string;
+	/** Body of the letter, one entry per paragraph */
+	paragraphs: string[];
+	signOff: CoverLetterSignOff;
+	/** Linked resume, or null if the letter stands alone */
+	link: CoverLetterLink | null;
+	/** ISO 8601 timestamp */
+	createdAt: string;
+	/** ISO 8601 timestamp */
+	updatedAt: string;
+}
+
+/**
+ * Lightweight descriptor of a stored cover letter, used to render lists.
+ */
+export type CoverLetterSummary = Pick<
+	CoverLetter,
+	"id" | "title" | "company" | "role" | "link" | "updatedAt"
+>;
+
+/**
+ * Domain interface for cover letter persistence.
+ *
+ * Like {@link ResumeStorage}, one implementation exists per browser storage
+ * type (session, local, indexeddb), so cover letters live next to the resumes
+ * they accompany. Cover letters of remote resumes are kept in IndexedDB.
+ */
+export interface CoverLetterRepository {
+	/**
+	 * Lists the stored cover letters.
+	 *
+	 * @returns Promise resolving to the summaries, most recently updated first
+	 */
+	list(): Promise<CoverLetterSummary[]>;
+
+	/**
+	 * Retrieves a cover letter.
+	 *
+	 * @param id - The cover letter ID
+	 * @returns Promise resolving to the cover letter or null if not found
+	 */
+	get(id: string): Promise<CoverLetter | null>;
+
+	/**
+	 * Creates or replaces a cover letter.
+	 *
+	 * @param letter - The cover letter to store
+	 * @returns Promise resolving when the cover letter is persisted
+	 */
+	save(letter: CoverLetter): Promise<void>;
+
+	/**
+	 * Removes a cover letter.
+	 *
+	 * @param id - The cover letter ID
+	 * @returns Promise resolving when deletion is complete
+	 */
+	delete(id: string): Promise<void>;
+}
+
+/**
+ * Interface representing a Cover Letter Generator, the counterpart of
+ * {@link ResumeGenerator} for cover letters.
+ */
+export interface CoverLetterGenerator {
+	/**
+	 * Generates a PDF file from a cover letter.
+	 *
+	 * @param letter - The cover letter, with its sign-off resolved
+	 * @param locale - Optional locale of the generated PDF
+	 * @returns A promise that resolves to the generated PDF
+	 */
+	generatePdf(letter: CoverLetter, locale?: string): Promise<Blob>;
+}
+
+/**
+ * Creates an empty cover letter.
+ *
+ * @param id - The cover letter ID
+ * @param title - The cover letter title
+ * @param link - The resume the letter accompanies, if any
+ * @returns A new cover letter with a single empty paragraph
+ */
+export function createCoverLetter(
+	id: string,
+	title: string,
+	link: CoverLetterLink | null = null,
+): CoverLetter {
+	const now = new Date().toISOString();
+	return {
+		id,
+		title,
+		recipient: "",
+		company: "",
+		role: "",
+		paragraphs: [""],
+		signOff: { closing: "", name: "", email: "", phone: "" },
+		link,
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Builds the sign-off a resume implies.
+ *
+ * @param basics - The basics of the linked resume
+ * @returns The name, email and phone of the resume owner
+ */
+export function signOffFromBasics(
+	basics: Pick<Basics, "name" | "email" | "phone">,
+): Omit<CoverLetterSignOff, "closing"> {
+	return { name: basics.name, email: basics.email, phone: basics.phone };
+}
+
+/**
+ * Fills the empty sign-off fields of a cover letter from a resume.
+ * Fields the user typed are kept.
+ *
+ * @param letter - The cover letter
+ * @param resume - The linked resume, if any
+ * @returns The sign-off to render
+ */
+export function resolveSignOff(
+	letter: CoverLetter,
+	resume: Resume | null,
+): CoverLetterSignOff {
+	const fallback = resume
+		? signOffFromBasics(resume.basics)
+		: { name: "", email: "", phone: "" };
+	const { closing, name, email, phone } = letter.signOff;
+	return {
+		closing,
+		name: name.trim() || fallback.name,
+		email: email.trim() || fallback.email,
+		phone: phone.trim() || fallback.phone,
+	};
+}
+
+/**
+ * Derives the summary of a cover letter.
+ */
+export function toCoverLetterSummary(letter: CoverLetter): CoverLetterSummary {
+	return {
+		id: letter.id,
+		title: letter.title,
+		company: letter.company,
+		role: letter.role,
+		link: letter.link,
+		updatedAt: letter.updatedAt,
+	};
+}
+
+/**
+ * Orders cover letter summaries by last update, most recent first.
+ */
+export function sortCoverLetters(
+	summaries: ReadonlyArray<CoverLetterSummary>,
+): CoverLetterSummary[] {
+	return [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Derives a display title for a cover letter that has no explicit title.
+ *
+ * @returns "Role – Company", whichever parts are known, or "Untitled cover letter"
+ */
+export function deriveCoverLetterTitle(
+	letter: Pick<CoverLetter, "company" | "role">,
+): string {
+	const parts = [letter.role.trim(), letter.company.trim()].filter(Boolean);
+	return parts.length > 0 ? parts.join(" – ") : "Untitled cover letter";
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	applyVisibilitySuggestions,
+	extractJobKeywords,
+	matchJobDescription,
+} from "./JobMatch";
+import { createDefaultVisibility } from "./SectionVisibility";
+
+const JOB_DESCRIPTION = `Senior Backend Engineer
+
+We are looking for an engineer to build payment services.
+
+Requirements:
+- 5+ years of experience with TypeScript and Node.js
+- Solid PostgreSQL and GraphQL skills
+- Experience with payment systems and payment reconciliation
+
+Nice to have:
+- Kubernetes
+- Python`;
+
+const resumeForJob = () =>
+	createTestResume({
+		basics: {
+			...createTestResume().basics,
+			summary: "Backend engineer focused on payment platforms",
+		},
+		work: [
+			{
+				name: "Company A",
+				position: "Backend Developer",
+				url: "",
+				startDate: "2020-01",
+				endDate: "",
+				summary: "",
+				highlights: [
+					"Built GraphQL payment APIs in Node.js",
+					"Cut payment reconciliation time by 40%",
+				],
+			},
+			{
+				name: "Company B",
+				position: "Store Clerk",
+				url: "",
+				startDate: "2015-01",
+				endDate: "2019-12",
+				summary: "",
+				highlights: ["Handled customer returns"],
+			},
+		],
+		skills: [
+			{ name: "TypeScript", level: "Expert", keywords: ["Node.js", "Vue"] },
+			{ name: "Cooking", level: "Beginner", keywords: ["Pastry"] },
+		],
+		projects: [],
+	});
+
+describe("JobMatch", () => {
+	describe("extractJobKeywords", () => {
+		it("should extract skills in the order they are written", () => {
+			const terms = extractJobKeywords(JOB_DESCRIPTION).map(
+				(keyword) => keyword.term,
+			);
+
+			expect(terms).toEqual([
+				"TypeScript",
+				"Node.js",
+				"PostgreSQL",
+				"GraphQL",
+				"Kubernetes",
+				"Python",
+				"payment",
+			]);
+		});
+
+		it("should tell required keywords from preferred ones", () => {
+			const keywords = extractJobKeywords(JOB_DESCRIPTION);
+
+			expect(keywords.find((k) => k.term === "PostgreSQL")?.importance).toBe(
+				"required",
+			);
+			expect(keywords.find((k) => k.term === "Kubernetes")?.importance).toBe(
+				"preferred",
+			);
+		});
+
+		it("should make a line preferred when it calls the skill a plus", () => {
+			const keywords = extractJobKeywords(
+				"Requirements:\n- Java\n- Docker is a plus",
+			);
+
+			expect(keywords).toEqual([
+				{ term: "Java", importance: "required", occurrences: 1 },
+				{ term: "Docker", importance: "preferred", occurrences: 1 },
+			]);
+		});
+
+		it("should recognize Spanish headings and the skills of the resume", () => {
+			const keywords = extractJobKeywords(
+				"Requisitos:\n- Repostería creativa\n\nSe valorará:\n- Vue",
+				createTestResume({
+					skills: [{ name: "Repostería", level: "", keywords: [] }],
+				}),
+			);
+
+			expect(keywords).toEqual([
+				{ term: "Repostería", importance: "required", occurrences: 1 },
+				{ term: "Vue", importance: "preferred", occurrences: 1 },
+			]);
+		});
+
+		it("should not list a word only seen inside a longer term", () => {
+			const terms = extractJobKeywords("Spring Boot microservices").map(
+				(keyword) => keyword.term,
+			);
+
+			expect(terms).toContain("Spring Boot");
+			expect(terms).not.toContain("Spring");
+		});
+
+		it("should ignore words that describe any job", () => {
+			const terms = extractJobKeywords(
+				"Experience in a team. Team experience. Great team, great experience.",
+			).map((keyword) => keyword.term);
+
+			expect(terms).toEqual([]);
+		});
+	});
+
+	describe("matchJobDescription", () => {
+		it("should report where each keyword was found", () => {
+			const report = matchJobDescription(resumeForJob(), JOB_DESCRIPTION);
+
+			const nodeJs = report.matched.find((m) => m.keyword.term === "Node.js");
+			expect(nodeJs?.locations).toEqual([
+				{ section: "skills", entryIndex: 0, path: "skills[0]" },
+				{ section: "work", entryIndex: 0, path: "work[0].highlights[0]" },
+			]);
+			const payment = report.matched.find((m) => m.keyword.term === "payment");
+			expect(payment?.locations.map((location) => location.path)).toEqual([
+				"work[0].highlights[0]",
+				"work[0].highlights[1]",
+				"basics.summary",
+			]);
+		});
+
+		it("should list missing keywords with the required ones first", () => {
+			const report = matchJobDescription(resumeForJob(), JOB_DESCRIPTION);
+
+			expect(report.missing.map((keyword) => keyword.term)).toEqual([
+				"PostgreSQL",
+				"Kubernetes",
+				"Python",
+			]);
+		});
+
+		it("should weigh required keywords double in the score", () => {
+			const report = matchJobDescription(resumeForJob(), JOB_DESCRIPTION);
+
+			// Found: TypeScript, Node.js, GraphQL, payment (4 × 2)
+			// Total: 5 required (10) + 2 preferred (2)
+			expect(report.score).toBe(67);
+		});
+
+		it("should score 0 when no keyword could be extracted", () => {
+			const report = matchJobDescription(resumeForJob(), "   ");
+
+			expect(report).toEqual({
+				score: 0,
+				matched: [],
+				missing: [],
+				suggestions: [],
+			});
+		});
+
+		it("should suggest emphasizing relevant items and hiding unrelated ones", () => {
+			const report = matchJobDescription(resumeForJob(), JOB_DESCRIPTION);
+
+			expect(report.suggestions).toEqual([
+				{
+					section: "work",
+					index: 0,
+					action: "emphasize",
+					keywords: ["Node.js", "GraphQL", "payment"],
+				},
+				{ section: "work", index: 1, action: "hide", keywords: [] },
+				{
+					section: "skills",
+					index: 0,
+					action: "emphasize",
+					keywords: ["TypeScript", "Node.js"],
+				},
+				{ section: "skills", index: 1, action: "hide", keywords: [] },
+			]);
+		});
+
+		it("should not suggest hiding items when nothing in the section matches", () => {
+			const report = matchJobDescription(resumeForJob(), "Requirements: Rust");
+
+			expect(report.suggestions).toEqual([]);
+		});
+	});
+
+	describe("applyVisibilitySuggestions", () => {
+		it("should show emphasized items and hide the others", () => {
+			const resume = resumeForJob();
+			const visibility = createDefaultVisibility("resume-1", resume);
+			visibility.work.items = [false, true];
+
+			const next = applyVisibilitySuggestions(
+				visibility,
+				matchJobDescription(resume, JOB_DESCRIPTION).suggestions,
+			);
+
+			expect(next.work.items).toEqual([true, false]);
+			expect(next.skills.items).toEqual([true, false]);
+			expect(next.work.enabled).toBe(true);
+			expect(visibility.work.items).toEqual([false, true]);
+		});
+
+		it("should disable a section left without visible items", () => {
+			const resume = resumeForJob();
+			const visibility = createDefaultVisibility("resume-1", resume);
+
+			const next = applyVisibilitySuggestions(visibility, [
+				{ section: "work", index: 0, action: "hide", keywords: [] },
+				{ section: "work", index: 1, action: "hide", keywords: [] },
+				{ section: "work", index: 9, action: "emphasize", keywords: [] },
+			]);
+
+			expect(next.work).toMatchObject({
+				enabled: false,
+				items: [false, false],
+			});
+		});
+	});
+});
@@ -0,0 +1,478 @@
+import type { Resume } from "./Resume";
+import type {
+	ArraySectionVisibility,
+	SectionVisibility,
+} from "./SectionVisibility";
+import {
+	contentWords,
+	countTerm,
+	normalizeText,
+	STOPWORDS,
+	tokenize,
+} from "./TextAnalysis";
+
+/**
+ * Whether a job description asks for a keyword or only mentions it as a plus
+ */
+export type KeywordImportance = "required" | "preferred";
+
+/**
+ * A skill or keyword extracted from a job description.
+ */
+export interface JobKeyword {
+	/** Term as first written (e.g. "PostgreSQL", "CI/CD") */
+	term: string;
+	importance: KeywordImportance;
+	/** Times the term appears in the job description */
+	occurrences: number;
+}
+
+/**
+ * Place in the resume where a keyword was found.
+ */
+export interface KeywordLocation {
+	section: "basics" | "skills" | "work";
+	/** Entry of a list section, null for the summary */
+	entryIndex: number | null;
+	/** Path of the field (e.g. `work[0].highlights[1]`) */
+	path: string;
+}
+
+export interface KeywordMatch {
+	keyword: JobKeyword;
+	locations: ReadonlyArray<KeywordLocation>;
+}
+
+/**
+ * Sections whose items can be emphasized or hidden for a job
+ */
+export const SUGGESTION_SECTIONS = ["work", "projects", "skills"] as const;
+
+export type SuggestionSection = (typeof SUGGESTION_SECTIONS)[number];
+
+/**
+ * Proposed visibility change for a resume item.
+ * - `emphasize`: the item backs keywords of the job and should be visible
+ * - `hide`: the item matches nothing while others in its section do
+ */
+export interface VisibilitySuggestion {
+	section: SuggestionSection;
+	index: number;
+	action: "emphasize" | "hide";
+	/** Keywords the item matches */
+	keywords: ReadonlyArray<string>;
+}
+
+export interface JobMatchReport {
+	/** 0 (no keyword found) to 100 (every keyword found), required ones weigh double */
+	score: number;
+	/** Keywords found in the resume, in job description order */
+	matched: ReadonlyArray<KeywordMatch>;
+	/** Keywords the resume lacks, required first */
+	missing: ReadonlyArray<JobKeyword>;
+	suggestions: ReadonlyArray<VisibilitySuggestion>;
+}
+
+const IMPORTANCE_WEIGHT: Readonly<Record<KeywordImportance, number>> = {
+	required: 2,
+	preferred: 1,
+};
+
+/** Times a plain word must be repeated in a job description to count as a keyword */
+export const MIN_KEYWORD_REPETITIONS = 3;
+
+/**
+ * Skills recognized even when mentioned only once.
+ */
+const KNOWN_SKILLS: ReadonlyArray<string> = [
+	"Agile",
+	"Android",
+	"Angular",
+	"Ansible",
+	"Astro",
+	"AWS",
+	"Azure",
+	"Bash",
+	"C#",
+	"C++",
+	"CI/CD",
+	"Communication",
+	"CSS",
+	"Data analysis",
+	"Django",
+	"Docker",
+	"Elasticsearch",
+	"Excel",
+	"Figma",
+	"Flask",
+	"GCP",
+	"Git",
+	"Golang",
+	"GraphQL",
+	"HTML",
+	"iOS",
+	"Java",
+	"JavaScript",
+	"Jenkins",
+	"Jira",
+	"Kafka",
+	"Kotlin",
+	"Kubernetes",
+	"Leadership",
+	"Linux",
+	"Machine learning",
+	"Microservices",
+	"MongoDB",
+	"MySQL",
+	"Next.js",
+	"Node.js",
+	"Nuxt",
+	"PHP",
+	"PostgreSQL",
+	"Project management",
+	"Python",
+	"RabbitMQ",
+	"React",
+	"Redis",
+	"Ruby",
+	"Rust",
+	"Scrum",
+	"Spring",
+	"Spring Boot",
+	"SQL",
+	"Tailwind",
+	"Terraform",
+	"Testing",
+	"TypeScript",
+	"UX",
+	"Vue",
+];
+
+/**
+ * Words frequent in any job description that say nothing about the job.
+ */
+const GENERIC_WORDS: ReadonlySet<string> = new Set([
+	// English
+	"ability",
+	"able",
+	"candidate",
+	"company",
+	"experience",
+	"join",
+	"knowledge",
+	"looking",
+	"role",
+	"skills",
+	"strong",
+	"team",
+	"teams",
+	"work",
+	"working",
+	"years",
+	// Spanish, without accents as compared
+	"anos",
+	"buscamos",
+	"conocimientos",
+	"empresa",
+	"equipo",
+	"experiencia",
+	"puesto",
+	"trabajo",
+]);
+
+const REQUIRED_HEADING =
+	/^(requirements?|required|must[- ]haves?|(minimum |basic )?qualifications|what you (will )?(need|bring)|requisitos|imprescindibles?|necesitas)\b/;
+
+const PREFERRED_HEADING =
+	/^(nice[- ]to[- ]haves?|preferred|bonus|pluses|desirable|deseables?|valorables?|se valorara)\b/;
+
+// Marks a single line as optional ("Kubernetes is a plus")
+const PREFERRED_MARKER =
+	/\b(nice[- ]to[- ]have|preferred|preferably|bonus|a plus|desirable|deseable|valorable|se valorara)\b/;
+
+// CamelCase names (GraphQL), acronyms (AWS) and symbols (C#, Node.js)
+const TECHNICAL_TOKEN =
+	/(?:^|[^\p{L}\p{N}])(\p{Lu}[\p{Ll}\p{N}]*\p{Lu}[\p{L}\p{N}]*|\p{Lu}{2,}|\p{L}[\p{L}\p{N}]*(?:[+#]+|\.\p{L}{2,})+)/gu;
+
+interface Candidate {
+	term: string;
+	importance: KeywordImportance;
+}
+
+function termKey(term: string): string {
+	return tokenize(term).join(" ");
+}
+
+/**
+ * Strips list markers from a line ("- ", "• ", "1. ").
+ */
+function cleanLine(line: string): string {
+	return line.replace(/^\s*(?:[-*•·#]+|\d+[.)])\s*/, "").trim();
+}
+
+/**
+ * Importance announced by a heading line ("Requirements:", "Nice to have"),
+ * or null when the line is not such a heading.
+ */
+function headingImportance(normalizedLine: string): KeywordImportance | null {
+	const heading = normalizedLine.replace(/[*_:]/g, "").trim();
+	if (heading.split(/\s+/).length > 6) return null;
+	if (PREFERRED_HEADING.test(heading)) return "preferred";
+	if (REQUIRED_HEADING.test(heading)) return "required";
+	return null;
+}
+
+/**
+ * Extracts the skills and keywords a job description asks for.
+ *
+ * Keywords come from a list of well-known skills, the skills already in the
+ * resume, technical-looking tokens and words the description repeats. Lines
+ * under "Nice to have"-like headings, or that call a skill "a plus", make
+ * their keywords preferred; everything else is required.
+ *
+ * @param description - Job description as pasted by the user
+ * @param resume - Resume whose skills should be recognized, if any
+ * @returns Keywords in order of first appearance
+ */
+export function extractJobKeywords(
+	description: string,
+	resume?: Resume,
+): JobKeyword[] {
+	const vocabulary = [
+		...KNOWN_SKILLS,
+		...(resume?.skills.flatMap((skill) => [skill.name, ...skill.keywords]) ??
+			[]),
+	].filter((term) => termKey(term));
+
+	const candidates = new Map<string, Candidate>();
+	const add = (term: string, importance: KeywordImportance) => {
+		const key = termKey(term);
+		const existing = candidates.get(key);
+		if (!existing) {
+			candidates.set(key, { term: term.trim(), importance });
+		} else if (importance === "required") {
+			existing.importance = "required";
+		}
+	};
+
+	let section: KeywordImportance = "required";
+	for (const rawLine of description.split(/\r?\n/)) {
+		const line = cleanLine(rawLine);
+		if (!line) continue;
+		const normalized = normalizeText(line);
+		section = headingImportance(normalized) ?? section;
+		const importance = PREFERRED_MARKER.test(normalized)
+			? "preferred"
+			: section;
+
+		const found: Array<{ position: number; term: string }> = [];
+		const tokens = tokenize(line);
+		for (const term of vocabulary) {
+			const needle = tokenize(term);
+			const position = tokens.findIndex((_, start) =>
+				needle.every((token, offset) => tokens[start + offset] === token),
+			);
+			if (position >= 0) found.push({ position, term });
+		}
+		for (const match of line.matchAll(TECHNICAL_TOKEN)) {
+			const term = match[1] ?? "";
+			const [first] = tokenize(term);
+			if (!first || STOPWORDS.has(first)) continue;
+			found.push({ position: tokens.indexOf(first), term });
+		}
+		// Written order, so keywords are listed as the description reads
+		found.sort((a, b) => a.position - b.position);
+		for (const { term } of found) add(term, importance);
+	}
+
+	// Plain words the description keeps coming back to
+	const counts = new Map<string, number>();
+	for (const word of contentWords(description)) {
+		counts.set(word, (counts.get(word) ?? 0) + 1);
+	}
+	for (const [word, count] of counts) {
+		if (
+			count >= MIN_KEYWORD_REPETITIONS &&
+			word.length > 3 &&
+			!GENERIC_WORDS.has(word)
+		) {
+			add(word, "required");
+		}
+	}
+
+	const keywords = [...candidates.entries()].map(([key, candidate]) => ({
+		key,
+		term: candidate.term,
+		importance: candidate.importance,
+		occurrences: countTerm(description, candidate.term),
+	}));
+
+	// A word only seen as part of a longer term ("spring" in "Spring Boot") is not a keyword
+	return keywords
+		.filter(
+			({ key, occurrences }) =>
+				occurrences > 0 &&
+				!keywords.some(
+					(other) =>
+						other.key !== key &&
+						other.occurrences === occurrences &&
+						` ${other.key} `.includes(` ${key} `),
+				),
+		)
+		.map(({ term, importance, occurrences }) => ({
+			term,
+			importance,
+			occurrences,
+		}));
+}
+
+/**
+ * Fields searched for keywords: skills, work highlights and the summary.
+ */
+function searchableFields(
+	resume: Resume,
+): Array<KeywordLocation & { text: string }> {
+	return [
+		...resume.skills.map((skill, index) => ({
+			section: "skills" as const,
+			entryIndex: index,
+			path: `skills[${index}]`,
+			text: [skill.name, ...skill.keywords].join("\n"),
+		})),
+		...resume.work.flatMap((work, index) =>
+			work.highlights.map((highlight, highlightIndex) => ({
+				section: "work" as const,
+				entryIndex: index,
+				path: `work[${index}].highlights[${highlightIndex}]`,
+				text: highlight,
+			})),
+		),
+		{
+			section: "basics" as const,
+			entryIndex: null,
+			path: "basics.summary",
+			text: resume.basics.summary,
+		},
+	];
+}
+
+/**
+ * Text of each item that can be emphasized or hidden.
+ */
+function suggestionItems(resume: Resume, section: SuggestionSection): string[] {
+	switch (section) {
+		case "work":
+			return resume.work.map((work) =>
+				[work.position, work.summary, ...work.highlights].join("\n"),
+			);
+		case "projects":
+			return resume.projects.map((project) =>
+				[project.name, project.description, ...project.highlights].join("\n"),
+			);
+		case "skills":
+			return resume.skills.map((skill) =>
+				[skill.name, ...skill.keywords].join("\n"),
+			);
+	}
+}
+
+function suggestVisibility(
+	resume: Resume,
+	keywords: ReadonlyArray<JobKeyword>,
+): VisibilitySuggestion[] {
+	const suggestions: VisibilitySuggestion[] = [];
+	for (const section of SUGGESTION_SECTIONS) {
+		const items = suggestionItems(resume, section).map((text) =>
+			keywords
+				.filter((keyword) => countTerm(text, keyword.term) > 0)
+				.map((keyword) => keyword.term),
+		);
+		// Hiding is only suggested when something else in the section is relevant
+		const anyRelevant = items.some((matches) => matches.length > 0);
+		items.forEach((matches, index) => {
+			if (matches.length > 0) {
+				suggestions.push({
+					section,
+					index,
+					action: "emphasize",
+					keywords: matches,
+				});
+			} else if (anyRelevant) {
+				suggestions.push({ section, index, action: "hide", keywords: [] });
+			}
+		});
+	}
+	return suggestions;
+}
+
+/**
+ * Compares a resume with a job description.
+ *
+ * Runs locally and deterministically: the same inputs always produce the
+ * same report.
+ *
+ * @param resume - The complete resume
+ * @param description - Job description as pasted by the user
+ * @returns Found and missing keywords, a score and visibility suggestions
+ */
+export function matchJobDescription(
+	resume: Resume,
+	description: string,
+): JobMatchReport {
+	const keywords = extractJobKeywords(description, resume);
+	const fields = searchableFields(resume);
+
+	const matched: KeywordMatch[] = [];
+	const missing: JobKeyword[] = [];
+	for (const keyword of keywords) {
+		const locations = fields
+			.filter((field) => countTerm(field.text, keyword.term) > 0)
+			.map(({ section, entryIndex, path }) => ({ section, entryIndex, path }));
+		if (locations.length > 0) {
+			matched.push({ keyword, locations });
+		} else {
+			missing.push(keyword);
+		}
+	}
+	missing.sort(
+		(a, b) => IMPORTANCE_WEIGHT[b.importance] - IMPORTANCE_WEIGHT[a.importance],
+	);
+
+	const total = keywords.reduce(
+		(sum, keyword) => sum + IMPORTANCE_WEIGHT[keyword.importance],
+		0,
+	);
+	const found = matched.reduce(
+		(sum, { keyword }) => sum + IMPORTANCE_WEIGHT[keyword.importance],
+		0,
+	);
+
+	return {
+		score: total === 0 ? 0 : Math.round((found / total) * 100),
+		matched,
+		missing,
+		suggestions: suggestVisibility(resume, keywords),
+	};
+}
+
+/**
+ * Applies visibility suggestions, returning new visibility preferences.
+ * A section is enabled whenever one of its items is visible.
+ */
+export function applyVisibilitySuggestions(
+	visibility: SectionVisibility,
+	suggestions: ReadonlyArray<VisibilitySuggestion>,
+): SectionVisibility {
+	const next: SectionVisibility = { ...visibility };
+	for (const section of SUGGESTION_SECTIONS) {
+		const current: ArraySectionVisibility = visibility[section];
+		const items = [...current.items];
+		for (const suggestion of suggestions) {
+			if (suggestion.section !== section) continue;
+			if (suggestion.index < 0 || suggestion.index >= items.length) continue;
+			items[suggestion.index] = suggestion.action === "emphasize";
+		}
+		next[section] = { ...current, items, enabled: items.some(Boolean) };
+	}
+	return next;
+}
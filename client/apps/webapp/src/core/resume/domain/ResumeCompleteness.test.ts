@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "../test-resume-factory";
+import {
+	completenessScore,
+	evaluateCompleteness,
+	isSectionFilled,
+	sectionCompleteness,
+} from "./ResumeCompleteness";
+
+const emptyOptional = {
+	projects: [],
+	certificates: [],
+	volunteer: [],
+	awards: [],
+	publications: [],
+	languages: [],
+	interests: [],
+	references: [],
+};
+
+const coreResume = () =>
+	createTestResume({
+		...emptyOptional,
+		work: [
+			{
+				name: "Company A",
+				position: "Engineer",
+				url: "",
+				startDate: "2020-01",
+				endDate: "",
+				summary: "Led development",
+				highlights: ["Shipped the billing platform"],
+			},
+		],
+	});
+
+describe("ResumeCompleteness", () => {
+	describe("isSectionFilled", () => {
+		it("requires name, title, email and summary for personal details", () => {
+			const resume = createTestResume();
+			expect(isSectionFilled(resume, "personalDetails")).toBe(true);
+
+			resume.basics.summary = "  ";
+			expect(isSectionFilled(resume, "personalDetails")).toBe(false);
+		});
+
+		it("treats array sections with entries as filled", () => {
+			const sections = sectionCompleteness(createTestResume({ work: [] }));
+
+			expect(sections.work).toBe(false);
+			expect(sections.education).toBe(true);
+			expect(Object.keys(sections)).toHaveLength(12);
+		});
+	});
+
+	describe("evaluateCompleteness", () => {
+		it("scores complete core sections 80 and lists the empty optional ones", () => {
+			const report = evaluateCompleteness(coreResume());
+
+			expect(report.score).toBe(80);
+			expect(report.sections.find((s) => s.section === "work")?.score).toBe(
+				100,
+			);
+			expect(report.checklist).toHaveLength(8);
+			expect(
+				report.checklist.every(
+					(item) => item.rule === "empty-section" && item.priority === "low",
+				),
+			).toBe(true);
+		});
+
+		it("flags a missing summary as high priority", () => {
+			const resume = coreResume();
+			resume.basics.summary = "";
+
+			const [first] = evaluateCompleteness(resume).checklist;
+
+			expect(first).toMatchObject({
+				rule: "missing-summary",
+				priority: "high",
+				section: "personalDetails",
+				path: "basics.summary",
+			});
+		});
+
+		it("points at the entry lacking highlights, keywords or dates", () => {
+			const resume = createTestResume({
+				...emptyOptional,
+				work: [
+					{
+						name: "Acme",
+						position: "Engineer",
+						url: "",
+						startDate: "",
+						endDate: "",
+						summary: "Built things",
+						highlights: [" "],
+					},
+				],
+				skills: [{ name: "TypeScript", level: "Expert", keywords: [] }],
+				education: [
+					{
+						institution: "MIT",
+						url: "",
+						area: "CS",
+						studyType: "BSc",
+						startDate: "",
+						endDate: "",
+						score: "",
+						courses: [],
+					},
+				],
+			});
+
+			const paths = evaluateCompleteness(resume).checklist.map(
+				(item) => item.path,
+			);
+
+			expect(paths).toEqual(
+				expect.arrayContaining([
+					"work[0].highlights",
+					"work[0].startDate",
+					"skills[0].keywords",
+					"education[0].startDate",
+				]),
+			);
+			const highlights = evaluateCompleteness(resume).checklist.find(
+				(item) => item.rule === "missing-highlights",
+			);
+			expect(highlights?.entryIndex).toBe(0);
+			expect(highlights?.params).toEqual({ entry: "Acme" });
+		});
+
+		it("flags profiles without URL", () => {
+			const resume = coreResume();
+			resume.basics.profiles = [
+				{ network: "GitHub", username: "johndoe", url: "" },
+			];
+
+			const item = evaluateCompleteness(resume).checklist.find(
+				(entry) => entry.rule === "profile-missing-url",
+			);
+
+			expect(item?.path).toBe("basics.profiles[0].url");
+			expect(item?.params).toEqual({ entry: "GitHub" });
+		});
+
+		it("sorts by priority, then by the points each fix adds", () => {
+			const resume = createTestResume({ ...emptyOptional, skills: [] });
+			resume.basics.phone = "";
+
+			const checklist = evaluateCompleteness(resume).checklist;
+
+			expect(checklist[0]).toMatchObject({
+				rule: "empty-section",
+				section: "skills",
+				impact: 20,
+			});
+			const priorities = checklist.map((item) => item.priority);
+			expect(priorities.indexOf("low")).toBeGreaterThan(
+				priorities.lastIndexOf("high"),
+			);
+		});
+
+		it("scores an empty resume 0", () => {
+			const resume = createTestResume({
+				...emptyOptional,
+				work: [],
+				education: [],
+				skills: [],
+			});
+			resume.basics = {
+				...resume.basics,
+				name: "",
+				label: "",
+				email: "",
+				phone: "",
+				summary: "",
+				location: {
+					address: "",
+					postalCode: "",
+					city: "",
+					countryCode: "",
+					region: "",
+				},
+				profiles: [],
+			};
+
+			expect(completenessScore(resume)).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,535 @@
+import type { Resume } from "./Resume";
+import { SECTION_TYPES, type SectionType } from "./SectionVisibility";
+
+/**
+ * Sections every resume is expected to have. They make up most of the score;
+ * the remaining sections share the rest.
+ */
+export const CORE_SECTIONS: ReadonlyArray<SectionType> = [
+	"personalDetails",
+	"work",
+	"education",
+	"skills",
+];
+
+const CORE_WEIGHT = 80;
+
+/**
+ * How much fixing an item improves the resume
+ */
+export type CompletenessPriority = "high" | "medium" | "low";
+
+/**
+ * Checks performed by the engine. Each rule has a translated message in
+ * `resume.completeness.rules.<rule>`, interpolated with the item params.
+ */
+export type CompletenessRule =
+	| "empty-section"
+	| "missing-field"
+	| "missing-entry-field"
+	| "missing-summary"
+	| "missing-highlights"
+	| "missing-keywords"
+	| "missing-dates"
+	| "profile-missing-url";
+
+/**
+ * A single improvement to make, pointing at the field to fill.
+ */
+export interface CompletenessItem {
+	/** Unique within a report */
+	id: string;
+	rule: CompletenessRule;
+	priority: CompletenessPriority;
+	section: SectionType;
+	/** Entry of a list section, null for the section as a whole */
+	entryIndex: number | null;
+	/** Path of the field to fill (e.g. `work[1].highlights`) */
+	path: string;
+	/** Points the overall score gains once the item is fixed */
+	impact: number;
+	/** Values interpolated in the translated message */
+	params: Readonly<Record<string, string | number>>;
+}
+
+/**
+ * Completeness of a single section.
+ */
+export interface SectionCompletenessScore {
+	section: SectionType;
+	/** 0 (empty) to 100 (every check passes) */
+	score: number;
+	/** Share of the overall score the section accounts for */
+	weight: number;
+}
+
+export interface CompletenessReport {
+	/** 0 (empty resume) to 100 (every section complete) */
+	score: number;
+	/** Scores in SECTION_TYPES order */
+	sections: ReadonlyArray<SectionCompletenessScore>;
+	/** Items to fix, highest priority and impact first */
+	checklist: ReadonlyArray<CompletenessItem>;
+}
+
+/**
+ * Weight of a check within its section, by priority
+ */
+export const COMPLETENESS_PRIORITY_WEIGHT: Readonly<
+	Record<CompletenessPriority, number>
+> = {
+	high: 3,
+	medium: 2,
+	low: 1,
+};
+
+const PRIORITY_ORDER: Readonly<Record<CompletenessPriority, number>> = {
+	high: 0,
+	medium: 1,
+	low: 2,
+};
+
+type CheckInput = Omit<CompletenessItem, "id" | "impact" | "params"> & {
+	params?: CompletenessItem["params"];
+};
+
+interface SectionTally {
+	passed: number;
+	total: number;
+	failed: CheckInput[];
+}
+
+/**
+ * Records every check of a section, passed or not, so each section can be
+ * scored on the share of its checks that pass.
+ */
+class CheckCollector {
+	private readonly tallies = new Map<SectionType, SectionTally>();
+
+	check(passed: boolean, item: CheckInput): void {
+		const tally = this.tallies.get(item.section) ?? {
+			passed: 0,
+			total: 0,
+			failed: [],
+		};
+		const weight = COMPLETENESS_PRIORITY_WEIGHT[item.priority];
+		tally.total += weight;
+		if (passed) {
+			tally.passed += weight;
+		} else {
+			tally.failed.push(item);
+		}
+		this.tallies.set(item.section, tally);
+	}
+
+	tally(section: SectionType): SectionTally {
+		return this.tallies.get(section) ?? { passed: 0, total: 0, failed: [] };
+	}
+}
+
+const hasText = (value: string | undefined | null): boolean =>
+	Boolean(value?.trim());
+
+const hasEntries = (values: ReadonlyArray<string>): boolean =>
+	values.some((value) => value.trim());
+
+// Name shown in messages about a list entry, e.g. the company of a job
+const entryLabel = (name: string, index: number): string =>
+	name.trim() || `#${index + 1}`;
+
+/**
+ * Checks that a field of a list entry is filled.
+ */
+function checkFields<T>(
+	collector: CheckCollector,
+	section: SectionType,
+	path: string,
+	entries: ReadonlyArray<T>,
+	label: (entry: T) => string,
+	fields: ReadonlyArray<[keyof T & string, CompletenessPriority]>,
+): void {
+	entries.forEach((entry, index) => {
+		for (const [field, priority] of fields) {
+			collector.check(hasText(entry[field] as string), {
+				rule: "missing-entry-field",
+				priority,
+				section,
+				entryIndex: index,
+				path: `${path}[${index}].${field}`,
+				params: { field, entry: entryLabel(label(entry), index) },
+			});
+		}
+	});
+}
+
+function checkBasics(resume: Resume, collector: CheckCollector): void {
+	const { basics } = resume;
+	const fields: ReadonlyArray<[string, string, CompletenessPriority]> = [
+		["name", basics.name, "high"],
+		["email", basics.email, "high"],
+		["label", basics.label, "medium"],
+		["phone", basics.phone, "low"],
+		["location.city", basics.location?.city ?? "", "low"],
+	];
+	for (const [field, value, priority] of fields) {
+		collector.check(hasText(value), {
+			rule: "missing-field",
+			priority,
+			section: "personalDetails",
+			entryIndex: null,
+			path: `basics.${field}`,
+			params: { field },
+		});
+	}
+	collector.check(hasText(basics.summary), {
+		rule: "missing-summary",
+		priority: "high",
+		section: "personalDetails",
+		entryIndex: null,
+		path: "basics.summary",
+	});
+	basics.profiles.forEach((profile, index) => {
+		collector.check(hasText(profile.url), {
+			rule: "profile-missing-url",
+			priority: "medium",
+			section: "personalDetails",
+			entryIndex: null,
+			path: `basics.profiles[${index}].url`,
+			params: { entry: entryLabel(profile.network, index) },
+		});
+	});
+}
+
+function checkExperience(resume: Resume, collector: CheckCollector): void {
+	checkFields(collector, "work", "work", resume.work, (work) => work.name, [
+		["name", "high"],
+		["position", "high"],
+		["summary", "low"],
+	]);
+	checkFields(
+		collector,
+		"volunteer",
+		"volunteer",
+		resume.volunteer,
+		(volunteer) => volunteer.organization,
+		[
+			["organization", "high"],
+			["position", "medium"],
+			["summary", "low"],
+		],
+	);
+	checkFields(
+		collector,
+		"projects",
+		"projects",
+		resume.projects,
+		(project) => project.name,
+		[
+			["name", "high"],
+			["description", "medium"],
+		],
+	);
+
+	const entries = [
+		...resume.work.map((work, index) => ({
+			section: "work" as const,
+			index,
+			label: work.name,
+			startDate: work.startDate,
+			highlights: work.highlights,
+			highlightPriority: "medium" as const,
+		})),
+		...resume.volunteer.map((volunteer, index) => ({
+			section: "volunteer" as const,
+			index,
+			label: volunteer.organization,
+			startDate: volunteer.startDate,
+			highlights: volunteer.highlights,
+			highlightPriority: "low" as const,
+		})),
+		...resume.projects.map((project, index) => ({
+			section: "projects" as const,
+			index,
+			label: project.name,
+			startDate: null,
+			highlights: project.highlights,
+			highlightPriority: "low" as const,
+		})),
+	];
+	for (const entry of entries) {
+		const path = `${entry.section}[${entry.index}]`;
+		const params = { entry: entryLabel(entry.label, entry.index) };
+		if (entry.startDate !== null) {
+			collector.check(hasText(entry.startDate), {
+				rule: "missing-dates",
+				priority: "medium",
+				section: entry.section,
+				entryIndex: entry.index,
+				path: `${path}.startDate`,
+				params,
+			});
+		}
+		collector.check(hasEntries(entry.highlights), {
+			rule: "missing-highlights",
+			priority: entry.highlightPriority,
+			section: entry.section,
+			entryIndex: entry.index,
+			path: `${path}.highlights`,
+			params,
+		});
+	}
+}
+
+function checkEducation(resume: Resume, collector: CheckCollector): void {
+	checkFields(
+		collector,
+		"education",
+		"education",
+		resume.education,
+		(education) => education.institution,
+		[
+			["institution", "high"],
+			["area", "medium"],
+			["studyType", "low"],
+		],
+	);
+	resume.education.forEach((education, index) => {
+		// Ongoing studies may not have an end date yet
+		collector.check(
+			hasText(education.startDate) || hasText(education.endDate),
+			{
+				rule: "missing-dates",
+				priority: "medium",
+				section: "education",
+				entryIndex: index,
+				path: `education[${index}].startDate`,
+				params: { entry: entryLabel(education.institution, index) },
+			},
+		);
+	});
+}
+
+function checkSkills(resume: Resume, collector: CheckCollector): void {
+	checkFields(collector, "skills", "skills", resume.skills, (s) => s.name, [
+		["name", "high"],
+		["level", "low"],
+	]);
+	resume.skills.forEach((skill, index) => {
+		collector.check(hasEntries(skill.keywords), {
+			rule: "missing-keywords",
+			priority: "medium",
+			section: "skills",
+			entryIndex: index,
+			path: `skills[${index}].keywords`,
+			params: { entry: entryLabel(skill.name, index) },
+		});
+	});
+}
+
+function checkLanguagesAndInterests(
+	resume: Resume,
+	collector: CheckCollector,
+): void {
+	checkFields(
+		collector,
+		"languages",
+		"languages",
+		resume.languages,
+		(language) => language.language,
+		[
+			["language", "high"],
+			["fluency", "medium"],
+		],
+	);
+	checkFields(
+		collector,
+		"interests",
+		"interests",
+		resume.interests,
+		(interest) => interest.name,
+		[["name", "high"]],
+	);
+	resume.interests.forEach((interest, index) => {
+		collector.check(hasEntries(interest.keywords), {
+			rule: "missing-keywords",
+			priority: "low",
+			section: "interests",
+			entryIndex: index,
+			path: `interests[${index}].keywords`,
+			params: { entry: entryLabel(interest.name, index) },
+		});
+	});
+}
+
+function checkAchievements(resume: Resume, collector: CheckCollector): void {
+	checkFields(
+		collector,
+		"certificates",
+		"certificates",
+		resume.certificates,
+		(certificate) => certificate.name,
+		[
+			["name", "high"],
+			["issuer", "medium"],
+			["date", "medium"],
+		],
+	);
+	checkFields(
+		collector,
+		"awards",
+		"awards",
+		resume.awards,
+		(award) => award.title,
+		[
+			["title", "high"],
+			["awarder", "medium"],
+			["date", "medium"],
+		],
+	);
+	checkFields(
+		collector,
+		"publications",
+		"publications",
+		resume.publications,
+		(publication) => publication.name,
+		[
+			["name", "high"],
+			["publisher", "medium"],
+			["releaseDate", "medium"],
+		],
+	);
+	checkFields(
+		collector,
+		"references",
+		"references",
+		resume.references,
+		(reference) => reference.name,
+		[
+			["name", "high"],
+			["reference", "medium"],
+		],
+	);
+}
+
+/**
+ * Share of the overall score each section accounts for.
+ */
+function sectionWeight(section: SectionType): number {
+	return CORE_SECTIONS.includes(section)
+		? CORE_WEIGHT / CORE_SECTIONS.length
+		: (100 - CORE_WEIGHT) / (SECTION_TYPES.length - CORE_SECTIONS.length);
+}
+
+/**
+ * Whether a section has content. Personal details count once the name, title,
+ * email and summary are filled.
+ */
+export function isSectionFilled(resume: Resume, section: SectionType): boolean {
+	if (section === "personalDetails") {
+		const { basics } = resume;
+		return (
+			hasText(basics.name) &&
+			hasText(basics.label) &&
+			hasText(basics.email) &&
+			hasText(basics.summary)
+		);
+	}
+	return resume[section].length > 0;
+}
+
+/**
+ * Which sections of a resume have content, in SECTION_TYPES order.
+ */
+export function sectionCompleteness(
+	resume: Resume,
+): Record<SectionType, boolean> {
+	return Object.fromEntries(
+		SECTION_TYPES.map((section) => [section, isSectionFilled(resume, section)]),
+	) as Record<SectionType, boolean>;
+}
+
+/**
+ * Rates how complete and strong each section of a resume is, and lists what to
+ * fix to improve it.
+ *
+ * Every section is scored on the share of its checks that pass, weighted by
+ * priority; an empty list section scores 0. The core sections account for
+ * most of the overall score. The checklist is sorted by priority, then by how
+ * many points each fix adds.
+ *
+ * @param resume - The resume to evaluate
+ * @returns The overall score, the section scores and the checklist
+ */
+export function evaluateCompleteness(resume: Resume): CompletenessReport {
+	const collector = new CheckCollector();
+	checkBasics(resume, collector);
+	checkExperience(resume, collector);
+	checkEducation(resume, collector);
+	checkSkills(resume, collector);
+	checkLanguagesAndInterests(resume, collector);
+	checkAchievements(resume, collector);
+
+	const items: CompletenessItem[] = [];
+	const sections = SECTION_TYPES.map((section): SectionCompletenessScore => {
+		const weight = sectionWeight(section);
+		if (section !== "personalDetails" && resume[section].length === 0) {
+			items.push({
+				id: `empty-section:${section}`,
+				rule: "empty-section",
+				priority: CORE_SECTIONS.includes(section) ? "high" : "low",
+				section,
+				entryIndex: null,
+				path: section,
+				impact: weight,
+				params: {},
+			});
+			return { section, score: 0, weight };
+		}
+
+		const tally = collector.tally(section);
+		for (const item of tally.failed) {
+			const impact =
+				(weight * COMPLETENESS_PRIORITY_WEIGHT[item.priority]) / tally.total;
+			items.push({
+				...item,
+				id: `${item.rule}:${item.path}`,
+				impact: Math.round(impact * 10) / 10,
+				params: item.params ?? {},
+			});
+		}
+		const score =
+			tally.total > 0 ? Math.round((tally.passed / tally.total) * 100) : 100;
+		return { section, score, weight };
+	});
+
+	const score = Math.round(
+		sections.reduce(
+			(total, section) => total + (section.weight * section.score) / 100,
+			0,
+		),
+	);
+
+	const checklist = items
+		.map((item, order) => ({ item, order }))
+		.sort(
+			(a, b) =>
+				PRIORITY_ORDER[a.item.priority] - PRIORITY_ORDER[b.item.priority] ||
+				b.item.impact - a.item.impact ||
+				a.order - b.order,
+		)
+		.map(({ item }) => item);
+
+	return { score, sections, checklist };
+}
+
+/**
+ * Rates how complete a resume is, from 0 to 100.
+ *
+ * @example
+ * ```typescript
+ * completenessScore(resume); // 80 = complete core sections, no optional ones
+ * ```
+ */
+export function completenessScore(resume: Resume): number {
+	return evaluateCompleteness(resume).score;
+}
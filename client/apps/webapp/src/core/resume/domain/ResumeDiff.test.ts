@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import type { Resume, Skill, Work } from "./Resume";
+import { diffEntries, diffResumes, diffStringList } from "./ResumeDiff";
+
+const createWork = (overrides: Partial<Work> = {}): Work => ({
+	name: "Acme",
+	position: "Developer",
+	url: "",
+	startDate: "2020-01",
+	endDate: "",
+	summary: "Built things",
+	highlights: ["Shipped v1", "Mentored juniors"],
+	...overrides,
+});
+
+const createSkill = (name: string, keywords: string[] = []): Skill => ({
+	name,
+	level: "",
+	keywords,
+});
+
+const createResume = (overrides: Partial<Resume> = {}): Resume => ({
+	basics: {
+		name: "John Doe",
+		label: "Software Engineer",
+		image: "",
+		email: "john@example.com",
+		phone: "",
+		url: "",
+		summary: "",
+		location: {
+			address: "",
+			postalCode: "",
+			city: "Madrid",
+			countryCode: "ES",
+			region: "",
+		},
+		profiles: [],
+	},
+	work: [],
+	volunteer: [],
+	education: [],
+	awards: [],
+	certificates: [],
+	publications: [],
+	skills: [],
+	languages: [],
+	interests: [],
+	references: [],
+	projects: [],
+	...overrides,
+});
+
+describe("diffStringList", () => {
+	it("should mark added, removed and kept values", () => {
+		const change = diffStringList("highlights", ["a", "b"], ["b", "c"]);
+
+		expect(change.values).toEqual([
+			{ value: "b", type: "unchanged" },
+			{ value: "c", type: "added" },
+			{ value: "a", type: "removed" },
+		]);
+		expect(change.reordered).toBe(false);
+	});
+
+	it("should detect reordered values", () => {
+		expect(diffStringList("keywords", ["a", "b"], ["b", "a"]).reordered).toBe(
+			true,
+		);
+	});
+});
+
+describe("diffEntries", () => {
+	const byName = (skill: Skill) => skill.name;
+
+	it("should report moved entries only for the ones out of order", () => {
+		const before = ["A", "B", "C"].map((name) => createSkill(name));
+		const after = ["C", "A", "B"].map((name) => createSkill(name));
+
+		const { entries, reordered } = diffEntries(before, after, byName);
+
+		expect(reordered).toBe(true);
+		expect(
+			entries.filter((entry) => entry.moved).map((e) => e.after?.name),
+		).toEqual(["C"]);
+		expect(entries.every((entry) => entry.type === "unchanged")).toBe(true);
+	});
+
+	it("should place removed entries next to their former neighbours", () => {
+		const before = ["A", "B", "C"].map((name) => createSkill(name));
+		const after = ["A", "C"].map((name) => createSkill(name));
+
+		const { entries } = diffEntries(before, after, byName);
+
+		expect(
+			entries.map((entry) => [entry.type, (entry.after ?? entry.before)?.name]),
+		).toEqual([
+			["unchanged", "A"],
+			["removed", "B"],
+			["unchanged", "C"],
+		]);
+	});
+});
+
+describe("diffResumes", () => {
+	it("should report no changes for identical resumes", () => {
+		const diff = diffResumes(createResume(), createResume());
+
+		expect(diff.hasChanges).toBe(false);
+		expect(diff.stats).toEqual({ added: 0, removed: 0, modified: 0, moved: 0 });
+	});
+
+	it("should flatten basics field changes", () => {
+		const after = createResume();
+		after.basics = {
+			...after.basics,
+			label: "Staff Engineer",
+			location: after.basics.location
+				? { ...after.basics.location, city: "Barcelona" }
+				: null,
+		};
+
+		const diff = diffResumes(createResume(), after);
+
+		expect(diff.basics.changed).toBe(true);
+		expect(diff.basics.fields).toEqual([
+			{
+				path: "label",
+				type: "modified",
+				before: "Software Engineer",
+				after: "Staff Engineer",
+			},
+			{
+				path: "location.city",
+				type: "modified",
+				before: "Madrid",
+				after: "Barcelona",
+			},
+		]);
+	});
+
+	it("should match edited work entries and diff their highlights", () => {
+		const before = createResume({ work: [createWork()] });
+		const after = createResume({
+			work: [
+				createWork({
+					summary: "Built and ran things",
+					highlights: ["Shipped v1", "Led the platform team"],
+				}),
+			],
+		});
+
+		const diff = diffResumes(before, after);
+		const work = diff.sections.find((section) => section.section === "work");
+
+		expect(work?.entries).toHaveLength(1);
+		const [entry] = work?.entries ?? [];
+		expect(entry?.type).toBe("modified");
+		expect(entry?.fields.map((field) => field.path)).toEqual(["summary"]);
+		expect(entry?.lists[0]?.values).toEqual([
+			{ value: "Shipped v1", type: "unchanged" },
+			{ value: "Led the platform team", type: "added" },
+			{ value: "Mentored juniors", type: "removed" },
+		]);
+		expect(diff.stats.modified).toBe(1);
+	});
+
+	it("should report added and removed entries", () => {
+		const before = createResume({ work: [createWork({ name: "Old Co" })] });
+		const after = createResume({ work: [createWork({ name: "New Co" })] });
+
+		const diff = diffResumes(before, after);
+		const work = diff.sections.find((section) => section.section === "work");
+
+		expect(work?.entries.map((entry) => entry.type)).toEqual([
+			"removed",
+			"added",
+		]);
+		expect(diff.stats).toMatchObject({ added: 1, removed: 1 });
+	});
+
+	it("should detect reordered skills", () => {
+		const before = createResume({
+			skills: [createSkill("Kotlin"), createSkill("Vue")],
+		});
+		const after = createResume({
+			skills: [createSkill("Vue"), createSkill("Kotlin")],
+		});
+
+		const diff = diffResumes(before, after);
+		const skills = diff.sections.find(
+			(section) => section.section === "skills",
+		);
+
+		expect(skills?.changed).toBe(true);
+		expect(skills?.reordered).toBe(true);
+		expect(diff.stats.moved).toBe(1);
+		expect(diff.hasChanges).toBe(true);
+	});
+
+	it("should keep sections in the standard resume order", () => {
+		const diff = diffResumes(createResume(), createResume());
+
+		expect(diff.sections.map((section) => section.section).slice(0, 4)).toEqual(
+			["work", "education", "skills", "projects"],
+		);
+	});
+});
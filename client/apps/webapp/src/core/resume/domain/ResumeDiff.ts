@@ -0,0 +1,466 @@
+import type { Basics, Profile, Resume } from "./Resume";
+
+/**
+ * Resume sections holding lists of entries.
+ * Order follows the standard section ordering (see SECTION_TYPES in SectionVisibility).
+ */
+export const DIFF_SECTIONS = [
+	"work",
+	"education",
+	"skills",
+	"projects",
+	"certificates",
+	"volunteer",
+	"awards",
+	"publications",
+	"languages",
+	"interests",
+	"references",
+] as const;
+
+export type DiffSection = (typeof DIFF_SECTIONS)[number];
+
+/**
+ * Entry type of a list section
+ */
+export type SectionEntry<S extends DiffSection> = Resume[S][number];
+
+/**
+ * Kind of change detected for a field or an entry
+ */
+export type DiffChangeType = "added" | "removed" | "modified" | "unchanged";
+
+/**
+ * Change of a scalar field (string or nested value).
+ * Nested objects are flattened with dot-separated paths (e.g. `location.city`).
+ */
+export interface FieldChange {
+	path: string;
+	type: Exclude<DiffChangeType, "unchanged">;
+	before: unknown;
+	after: unknown;
+}
+
+/**
+ * Value of a string list (highlights, keywords, courses) annotated with its change
+ */
+export interface ListValueChange {
+	value: string;
+	type: Exclude<DiffChangeType, "modified">;
+}
+
+/**
+ * Change of a string list field.
+ * Values are listed in their new order, followed by removed values.
+ */
+export interface ListChange {
+	path: string;
+	values: ListValueChange[];
+	/** Whether the values kept in both versions changed their relative order */
+	reordered: boolean;
+}
+
+/**
+ * Change of a single entry of a list section (or a basics profile)
+ */
+export interface EntryDiff<T> {
+	type: DiffChangeType;
+	before: T | null;
+	after: T | null;
+	/** Position in the previous version, null for added entries */
+	beforeIndex: number | null;
+	/** Position in the new version, null for removed entries */
+	afterIndex: number | null;
+	/** Whether the entry changed its position relative to the other kept entries */
+	moved: boolean;
+	fields: FieldChange[];
+	lists: ListChange[];
+}
+
+/**
+ * Change of the personal details section
+ */
+export interface BasicsDiff {
+	changed: boolean;
+	fields: FieldChange[];
+	profiles: EntryDiff<Profile>[];
+}
+
+/**
+ * Change of a list section, entries in display order
+ */
+export interface SectionDiff<S extends DiffSection = DiffSection> {
+	section: S;
+	changed: boolean;
+	/** Whether kept entries changed their relative order */
+	reordered: boolean;
+	entries: EntryDiff<SectionEntry<S>>[];
+}
+
+/**
+ * Counters of entry-level changes across the whole resume
+ */
+export interface ResumeDiffStats {
+	added: number;
+	removed: number;
+	modified: number;
+	moved: number;
+}
+
+/**
+ * Structured difference between two versions of a resume
+ */
+export interface ResumeDiff {
+	basics: BasicsDiff;
+	sections: SectionDiff[];
+	stats: ResumeDiffStats;
+	hasChanges: boolean;
+}
+
+type IdentityFn<T> = (entry: T) => string;
+
+/**
+ * Fields identifying an entry across versions, so an edited entry is reported
+ * as modified instead of removed and added again.
+ */
+const ENTRY_IDENTITY: { [S in DiffSection]: IdentityFn<SectionEntry<S>> } = {
+	work: (entry) => `${entry.name}|${entry.position}`,
+	education: (entry) => `${entry.institution}|${entry.studyType}|${entry.area}`,
+	skills: (entry) => entry.name,
+	projects: (entry) => entry.name,
+	certificates: (entry) => `${entry.name}|${entry.issuer}`,
+	volunteer: (entry) => `${entry.organization}|${entry.position}`,
+	awards: (entry) => `${entry.title}|${entry.awarder}`,
+	publications: (entry) => entry.name,
+	languages: (entry) => entry.language,
+	interests: (entry) => entry.name,
+	references: (entry) => entry.name,
+};
+
+const profileIdentity: IdentityFn<Profile> = (profile) => profile.network;
+
+function normalize(value: string): string {
+	return value.trim().toLowerCase();
+}
+
+/**
+ * Identity of an entry, as used to match entries across versions.
+ *
+ * @param section - The section holding the entry
+ * @param entry - The entry
+ * @returns The normalized identity fields of the entry
+ */
+export function entryIdentity<S extends DiffSection>(
+	section: S,
+	entry: SectionEntry<S>,
+): string {
+	const identity = ENTRY_IDENTITY[section] as IdentityFn<SectionEntry<S>>;
+	return normalize(identity(entry));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function isEmpty(value: unknown): boolean {
+	if (value === null || value === undefined || value === "") return true;
+	if (Array.isArray(value)) return value.length === 0;
+	if (typeof value === "object") {
+		return Object.values(value).every(isEmpty);
+	}
+	return false;
+}
+
+function isStringList(value: unknown): value is ReadonlyArray<string> {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Diffs two string lists by value, keeping duplicates apart.
+ */
+export function diffStringList(
+	path: string,
+	before: ReadonlyArray<string>,
+	after: ReadonlyArray<string>,
+): ListChange {
+	const remaining = [...before];
+	const values: ListValueChange[] = after.map((value) => {
+		const index = remaining.indexOf(value);
+		if (index === -1) return { value, type: "added" };
+		remaining.splice(index, 1);
+		return { value, type: "unchanged" };
+	});
+	values.push(
+		...remaining.map((value) => ({ value, type: "removed" as const })),
+	);
+
+	const kept = new Set(
+		values.filter((entry) => entry.type === "unchanged").map((e) => e.value),
+	);
+	const keptBefore = before.filter((value) => kept.has(value));
+	const keptAfter = after.filter((value) => kept.has(value));
+
+	return {
+		path,
+		values,
+		reordered: !isEqual(keptBefore, keptAfter),
+	};
+}
+
+/**
+ * Compares two objects field by field. Nested objects are flattened,
+ * string lists are diffed value by value, other values are compared as a whole.
+ */
+function diffFields(
+	before: object | null,
+	after: object | null,
+	prefix = "",
+): { fields: FieldChange[]; lists: ListChange[] } {
+	const fields: FieldChange[] = [];
+	const lists: ListChange[] = [];
+	const previous = (before ?? {}) as Record<string, unknown>;
+	const next = (after ?? {}) as Record<string, unknown>;
+	const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+
+	for (const key of keys) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		const a = previous[key];
+		const b = next[key];
+		if (isEqual(a, b) || (isEmpty(a) && isEmpty(b))) continue;
+
+		if (
+			(isStringList(a) || a === undefined) &&
+			(isStringList(b) || b === undefined)
+		) {
+			lists.push(diffStringList(path, a ?? [], b ?? []));
+			continue;
+		}
+
+		if (
+			(isPlainObject(a) || a == null) &&
+			(isPlainObject(b) || b == null) &&
+			(isPlainObject(a) || isPlainObject(b))
+		) {
+			const nested = diffFields(a ?? null, b ?? null, path);
+			fields.push(...nested.fields);
+			lists.push(...nested.lists);
+			continue;
+		}
+
+		const type = isEmpty(a) ? "added" : isEmpty(b) ? "removed" : "modified";
+		fields.push({ path, type, before: a ?? null, after: b ?? null });
+	}
+
+	return { fields, lists };
+}
+
+/**
+ * Indexes (into `sequence`) of a longest increasing subsequence.
+ * Entries outside of it are the ones that moved.
+ */
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+	const tails: number[] = [];
+	const previous: number[] = Array.from({ length: sequence.length }, () => -1);
+
+	sequence.forEach((value, index) => {
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const middle = (low + high) >> 1;
+			if ((sequence[tails[middle] ?? 0] ?? 0) < value) low = middle + 1;
+			else high = middle;
+		}
+		if (low > 0) previous[index] = tails[low - 1] ?? -1;
+		tails[low] = index;
+	});
+
+	const result = new Set<number>();
+	let cursor = tails[tails.length - 1] ?? -1;
+	while (cursor !== -1) {
+		result.add(cursor);
+		cursor = previous[cursor] ?? -1;
+	}
+	return result;
+}
+
+/**
+ * Pairs the entries of two versions of a list and describes each change.
+ *
+ * Entries are matched first by identical content, then by identity fields.
+ * The result is ordered like the new version, with removed entries placed
+ * after the entry that preceded them.
+ */
+export function diffEntries<T extends object>(
+	before: ReadonlyArray<T>,
+	after: ReadonlyArray<T>,
+	identity: IdentityFn<T>,
+): { entries: EntryDiff<T>[]; reordered: boolean } {
+	const matchOf: (number | null)[] = Array.from(
+		{ length: after.length },
+		() => null,
+	);
+	const matchedBefore = new Set<number>();
+
+	const pair = (matches: (a: T, b: T) => boolean) => {
+		after.forEach((next, afterIndex) => {
+			if (matchOf[afterIndex] !== null) return;
+			const beforeIndex = before.findIndex(
+				(previous, index) =>
+					!matchedBefore.has(index) && matches(previous, next),
+			);
+			if (beforeIndex !== -1) {
+				matchOf[afterIndex] = beforeIndex;
+				matchedBefore.add(beforeIndex);
+			}
+		});
+	};
+	pair((a, b) => isEqual(a, b));
+	pair((a, b) => normalize(identity(a)) === normalize(identity(b)));
+
+	const keptAfterIndexes = matchOf.flatMap((match, index) =>
+		match === null ? [] : [index],
+	);
+	const stable = longestIncreasingSubsequence(
+		keptAfterIndexes.map((index) => matchOf[index] ?? 0),
+	);
+	const movedAfterIndexes = new Set(
+		keptAfterIndexes.filter((_, position) => !stable.has(position)),
+	);
+
+	const entries: EntryDiff<T>[] = after.map((next, afterIndex) => {
+		const beforeIndex = matchOf[afterIndex] ?? null;
+		const previous =
+			beforeIndex === null ? null : (before[beforeIndex] ?? null);
+		const { fields, lists } = diffFields(previous, next);
+		return {
+			type:
+				previous === null
+					? "added"
+					: fields.length > 0 || lists.length > 0
+						? "modified"
+						: "unchanged",
+			before: previous,
+			after: next,
+			beforeIndex,
+			afterIndex,
+			moved: movedAfterIndexes.has(afterIndex),
+			fields,
+			lists,
+		};
+	});
+
+	// Insert removed entries after the closest preceding entry that was kept
+	before.forEach((previous, beforeIndex) => {
+		if (matchedBefore.has(beforeIndex)) return;
+		const removed: EntryDiff<T> = {
+			type: "removed",
+			before: previous,
+			after: null,
+			beforeIndex,
+			afterIndex: null,
+			moved: false,
+			...diffFields(previous, null),
+		};
+		let anchor = entries.length - 1;
+		while (
+			anchor >= 0 &&
+			(entries[anchor]?.beforeIndex ?? Number.POSITIVE_INFINITY) >= beforeIndex
+		) {
+			anchor -= 1;
+		}
+		entries.splice(anchor + 1, 0, removed);
+	});
+
+	return { entries, reordered: movedAfterIndexes.size > 0 };
+}
+
+function diffBasics(before: Basics, after: Basics): BasicsDiff {
+	const { profiles: previousProfiles, ...previous } = before;
+	const { profiles: nextProfiles, ...next } = after;
+	const { fields } = diffFields(previous, next);
+	const { entries: profiles } = diffEntries(
+		previousProfiles ?? [],
+		nextProfiles ?? [],
+		profileIdentity,
+	);
+	return {
+		changed: fields.length > 0 || profiles.some(isChangedEntry),
+		fields,
+		profiles,
+	};
+}
+
+function isChangedEntry<T>(entry: EntryDiff<T>): boolean {
+	return entry.type !== "unchanged" || entry.moved;
+}
+
+function diffSection<S extends DiffSection>(
+	section: S,
+	before: Resume,
+	after: Resume,
+): SectionDiff<S> {
+	const { entries, reordered } = diffEntries<SectionEntry<S>>(
+		(before[section] ?? []) as ReadonlyArray<SectionEntry<S>>,
+		(after[section] ?? []) as ReadonlyArray<SectionEntry<S>>,
+		ENTRY_IDENTITY[section],
+	);
+	return {
+		section,
+		changed: entries.some(isChangedEntry),
+		reordered,
+		entries,
+	};
+}
+
+/**
+ * Computes a structured, section-by-section difference between two resumes.
+ *
+ * Unlike a text diff of the JSON, entries are matched across versions, so
+ * edited entries, added or removed entries and reordered entries are told apart.
+ *
+ * @param before - The previous version
+ * @param after - The new version
+ * @returns The difference from `before` to `after`
+ *
+ * @example
+ * ```typescript
+ * const diff = diffResumes(snapshot.resume, currentResume);
+ * if (diff.hasChanges) {
+ *   console.log(`${diff.stats.modified} entries edited`);
+ * }
+ * ```
+ */
+export function diffResumes(before: Resume, after: Resume): ResumeDiff {
+	const basics = diffBasics(before.basics, after.basics);
+	const sections = DIFF_SECTIONS.map((section) =>
+		diffSection(section, before, after),
+	) as SectionDiff[];
+
+	const stats: ResumeDiffStats = {
+		added: 0,
+		removed: 0,
+		modified: 0,
+		moved: 0,
+	};
+	const entries = [
+		...basics.profiles,
+		...sections.flatMap((section) => section.entries),
+	] as EntryDiff<unknown>[];
+	for (const entry of entries) {
+		if (entry.type !== "unchanged") stats[entry.type] += 1;
+		if (entry.moved) stats.moved += 1;
+	}
+
+	return {
+		basics,
+		sections,
+		stats,
+		hasChanges: basics.changed || sections.some((section) => section.changed),
+	};
+}
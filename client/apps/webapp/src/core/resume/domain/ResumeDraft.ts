@@ -0,0 +1,75 @@
+import type { Resume } from "./Resume";
+
+/**
+ * How sure an importer is that a value ended up in the right field.
+ *
+ * - `high`: the value was matched unambiguously (an email address, a date range)
+ * - `medium`: the value was matched by a heuristic that is usually right
+ * - `low`: the value is a best guess and should be checked by the user
+ */
+export type ImportConfidence = "high" | "medium" | "low";
+
+/**
+ * Confidence of each imported field, keyed by its path in the resume
+ * (e.g. `basics.name`, `work[0].startDate`).
+ */
+export type FieldConfidence = Readonly<Record<string, ImportConfidence>>;
+
+/**
+ * Resume recovered from an unstructured document, to be reviewed by the user
+ * before it replaces the current resume.
+ */
+export interface ResumeDraft {
+	/** The recovered resume */
+	resume: Resume;
+
+	/** Confidence of every field the importer filled */
+	confidence: FieldConfidence;
+
+	/** Lines of the document that could not be assigned to any field */
+	unassigned: ReadonlyArray<string>;
+}
+
+/**
+ * A field of a draft that should be checked by the user.
+ */
+export interface FieldToReview {
+	/** Path of the field in the resume */
+	path: string;
+
+	/** Top-level resume section of the field (`basics`, `work`, ...) */
+	section: keyof Resume;
+
+	/** Confidence of the imported value */
+	confidence: Exclude<ImportConfidence, "high">;
+}
+
+/**
+ * Returns the top-level resume section of a field path.
+ *
+ * @param path - Field path such as `work[0].position`
+ */
+export function sectionOfPath(path: string): keyof Resume {
+	return path.split(/[.[]/)[0] as keyof Resume;
+}
+
+/**
+ * Lists the fields of a draft that were not matched with high confidence,
+ * least confident first.
+ *
+ * @param confidence - Confidence of the imported fields
+ * @returns The fields to review, in document order within each confidence level
+ */
+export function fieldsToReview(confidence: FieldConfidence): FieldToReview[] {
+	const fields = Object.entries(confidence)
+		.filter(([, level]) => level !== "high")
+		.map(([path, level]) => ({
+			path,
+			section: sectionOfPath(path),
+			confidence: level as FieldToReview["confidence"],
+		}));
+	return [
+		...fields.filter((field) => field.confidence === "low"),
+		...fields.filter((field) => field.confidence === "medium"),
+	];
+}
@@ -0,0 +1,73 @@
+import type { Resume } from "./Resume";
+import type { ArraySectionType } from "./SectionVisibility";
+
+/**
+ * Document formats a resume can be exported to in the browser.
+ */
+export const EXPORT_FORMATS = ["docx", "markdown", "html", "text"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Translated words used in an exported document.
+ * Resolved by the presentation layer so renderers stay free of i18n.
+ */
+export interface ExportLabels {
+	/** Section headings, plus the heading of the professional summary */
+	sections: Readonly<Record<ArraySectionType | "summary", string>>;
+
+	/** End of an ongoing date range (e.g., "Present") */
+	present: string;
+
+	/** Label of the education score (e.g., "GPA") */
+	score: string;
+
+	/** Label of the education courses */
+	courses: string;
+}
+
+/**
+ * Options shared by every export format.
+ */
+export interface ExportOptions {
+	/** BCP 47 locale used to format dates and tag the document language */
+	locale: string;
+
+	/** Translated headings and words */
+	labels: ExportLabels;
+}
+
+/**
+ * Renders a resume into a document format.
+ * Implementations receive a resume that is already filtered by section visibility.
+ */
+export interface ResumeRenderer {
+	/** Format produced by this renderer */
+	readonly format: ExportFormat;
+
+	/** MIME type of the produced document */
+	readonly mimeType: string;
+
+	/** File extension of the produced document, without the dot */
+	readonly extension: string;
+
+	/**
+	 * Renders the resume.
+	 *
+	 * @param resume - The resume to render
+	 * @param options - Locale and labels of the document
+	 * @returns The document content, as text or binary data
+	 */
+	render(resume: Resume, options: ExportOptions): string | Uint8Array;
+}
+
+/**
+ * A rendered resume ready to be downloaded.
+ */
+export interface ExportedResume {
+	/** Suggested file name, including the extension */
+	fileName: string;
+
+	/** The document content */
+	blob: Blob;
+}
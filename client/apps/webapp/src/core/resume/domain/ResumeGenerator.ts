@@ -1,4 +1,5 @@
 import type { Resume } from "@/core/resume/domain/Resume.ts";
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams.ts";
 
 /**
  * Interface representing a Resume Generator.
@@ -11,11 +12,13 @@ export interface ResumeGenerator {
 	 * @param {string} templateId - The ID of the template to be used for generating the PDF.
 	 * @param {Resume} resumeData - The resume data to be used for generating the PDF.
 	 * @param {string} [locale] - Optional locale to customize the generated PDF (e.g., for translations).
+	 * @param {TemplateParamValues} [params] - Optional template parameters (color, font, spacing, density…).
 	 * @returns {Promise<Blob>} A promise that resolves to a Blob representing the generated PDF.
 	 */
 	generatePdf(
 		templateId: string,
 		resumeData: Resume,
 		locale?: string,
+		params?: TemplateParamValues,
 	): Promise<Blob>;
 }
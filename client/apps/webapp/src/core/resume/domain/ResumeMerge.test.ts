@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory.ts";
+import type { Resume } from "./Resume";
+import { mergeResumes, resolveMerge } from "./ResumeMerge";
+
+describe("ResumeMerge", () => {
+	const base = createTestResume();
+
+	const withEmail = (resume: Resume, email: string): Resume => ({
+		...resume,
+		basics: { ...resume.basics, email },
+	});
+
+	const withSkills = (resume: Resume, ...names: string[]): Resume => ({
+		...resume,
+		skills: names.map((name) => ({ name, level: "", keywords: [] })),
+	});
+
+	describe("mergeResumes", () => {
+		it("should combine sections changed on different sides", () => {
+			const local = withEmail(base, "local@example.com");
+			const remote = withSkills(base, "Rust");
+
+			const { merged, conflicts } = mergeResumes(base, local, remote);
+
+			expect(conflicts).toEqual([]);
+			expect(merged.basics.email).toBe("local@example.com");
+			expect(merged.skills).toEqual(remote.skills);
+			expect(merged.work).toEqual(base.work);
+		});
+
+		it("should report sections changed differently on both sides", () => {
+			const local = withSkills(base, "Go");
+			const remote = withSkills(base, "Rust");
+
+			const { merged, conflicts } = mergeResumes(base, local, remote);
+
+			expect(conflicts).toEqual(["skills"]);
+			expect(merged.skills).toEqual(local.skills);
+		});
+
+		it("should accept identical changes made on both sides", () => {
+			const local = withSkills(base, "Rust");
+			const remote = withSkills(base, "Rust");
+
+			expect(mergeResumes(base, local, remote).conflicts).toEqual([]);
+		});
+
+		it("should treat every difference as a conflict without a base", () => {
+			const local = withEmail(base, "local@example.com");
+			const remote = withSkills(base, "Rust");
+
+			const { conflicts } = mergeResumes(null, local, remote);
+
+			expect(conflicts).toEqual(["basics", "skills"]);
+		});
+	});
+
+	describe("resolveMerge", () => {
+		it("should apply the chosen side for each conflicting section", () => {
+			const local = withEmail(withSkills(base, "Go"), "local@example.com");
+			const remote = withEmail(withSkills(base, "Rust"), "remote@example.com");
+
+			const resolved = resolveMerge(base, local, remote, {
+				skills: "remote",
+				basics: "local",
+			});
+
+			expect(resolved.skills).toEqual(remote.skills);
+			expect(resolved.basics.email).toBe("local@example.com");
+		});
+
+		it("should keep the local side for unresolved conflicts", () => {
+			const local = withSkills(base, "Go");
+			const remote = withSkills(base, "Rust");
+
+			expect(resolveMerge(base, local, remote, {}).skills).toEqual(
+				local.skills,
+			);
+		});
+	});
+});
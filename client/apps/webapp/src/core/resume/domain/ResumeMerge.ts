@@ -0,0 +1,93 @@
+import type { Resume } from "./Resume";
+import { DIFF_SECTIONS } from "./ResumeDiff";
+
+/**
+ * Sections merged independently during a three-way merge
+ */
+export const MERGE_SECTIONS = ["basics", ...DIFF_SECTIONS] as const;
+
+export type MergeSection = (typeof MERGE_SECTIONS)[number];
+
+/**
+ * Side that wins a conflicting section
+ */
+export type MergeSide = "local" | "remote";
+
+/**
+ * Winner chosen by the user for each conflicting section
+ */
+export type MergeResolutions = Partial<Record<MergeSection, MergeSide>>;
+
+/**
+ * Result of a three-way merge
+ */
+export interface ResumeMergeResult {
+	/** Merged resume; conflicting sections keep the local version */
+	merged: Resume;
+	/** Sections changed on both sides in different ways */
+	conflicts: MergeSection[];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Merges local edits with a newer server version, section by section.
+ *
+ * A section changed on one side only takes that side. A section changed on
+ * both sides is a conflict unless both sides made the same change. Without a
+ * common ancestor every differing section is a conflict.
+ *
+ * @param base - The server version the local edits started from, if known
+ * @param local - The version edited on this device
+ * @param remote - The current server version
+ * @returns The merged resume and the conflicting sections
+ */
+export function mergeResumes(
+	base: Resume | null,
+	local: Resume,
+	remote: Resume,
+): ResumeMergeResult {
+	const merged = { ...local } as Record<MergeSection, unknown>;
+	const conflicts: MergeSection[] = [];
+
+	for (const section of MERGE_SECTIONS) {
+		const mine = local[section];
+		const theirs = remote[section];
+		if (isEqual(mine, theirs)) continue;
+		if (base && isEqual(base[section], mine)) {
+			merged[section] = theirs;
+		} else if (!base || !isEqual(base[section], theirs)) {
+			conflicts.push(section);
+		}
+	}
+
+	return { merged: merged as unknown as Resume, conflicts };
+}
+
+/**
+ * Merges two versions and settles every conflict with the given resolutions.
+ * Conflicts without a resolution keep the local version.
+ *
+ * @param base - The common ancestor, if known
+ * @param local - The version edited on this device
+ * @param remote - The current server version
+ * @param resolutions - Winner for each conflicting section
+ * @returns The fully merged resume
+ */
+export function resolveMerge(
+	base: Resume | null,
+	local: Resume,
+	remote: Resume,
+	resolutions: MergeResolutions,
+): Resume {
+	const { merged, conflicts } = mergeResumes(base, local, remote);
+	const result = { ...merged } as Record<MergeSection, unknown>;
+	for (const section of conflicts) {
+		if (resolutions[section] === "remote") {
+			result[section] = remote[section];
+		}
+	}
+	return result as unknown as Resume;
+}
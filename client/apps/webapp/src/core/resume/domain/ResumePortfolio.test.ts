@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "../test-resume-factory";
+import { completenessScore } from "./ResumeCompleteness";
+import { createPortfolioEntry, summarizePortfolio } from "./ResumePortfolio";
+import type { ResumeSummary } from "./ResumeStorage";
+
+const summary = (id: string): ResumeSummary => ({
+	id,
+	title: `Resume ${id}`,
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: "2026-02-01T00:00:00.000Z",
+});
+
+const usage = (templateId: string) => ({
+	templateId,
+	generatedAt: "2026-02-02T00:00:00.000Z",
+});
+
+describe("ResumePortfolio", () => {
+	it("scores a loaded resume", () => {
+		const resume = createTestResume({ work: [] });
+		const entry = createPortfolioEntry(
+			summary("a"),
+			resume,
+			true,
+			usage("modern"),
+		);
+
+		expect(entry.score).toBe(completenessScore(resume));
+		expect(entry.sections.work).toBe(false);
+		expect(entry.valid).toBe(true);
+		expect(entry.lastTemplate?.templateId).toBe("modern");
+	});
+
+	it("lists a resume that could not be loaded as empty and invalid", () => {
+		const entry = createPortfolioEntry(summary("a"), null, true, null);
+
+		expect(entry.score).toBe(0);
+		expect(entry.valid).toBe(false);
+		expect(Object.values(entry.sections).every((filled) => !filled)).toBe(true);
+	});
+
+	it("aggregates scores, validity, section coverage and templates", () => {
+		const report = summarizePortfolio([
+			createPortfolioEntry(
+				summary("a"),
+				createTestResume(),
+				true,
+				usage("modern"),
+			),
+			createPortfolioEntry(
+				summary("b"),
+				createTestResume({ work: [] }),
+				false,
+				usage("modern"),
+			),
+			createPortfolioEntry(summary("c"), null, false, usage("classic")),
+		]);
+
+		expect(report.resumeCount).toBe(3);
+		expect(report.averageScore).toBe(
+			Math.round(
+				(completenessScore(createTestResume()) +
+					completenessScore(createTestResume({ work: [] }))) /
+					3,
+			),
+		);
+		expect(report.validCount).toBe(1);
+		expect(report.sectionCoverage[1]).toEqual({
+			section: "work",
+			resumes: 1,
+			percent: 33,
+		});
+		expect(report.templateUsage).toEqual([
+			{ templateId: "modern", resumes: 2 },
+			{ templateId: "classic", resumes: 1 },
+		]);
+	});
+
+	it("reports zeros without resumes", () => {
+		const report = summarizePortfolio([]);
+
+		expect(report.averageScore).toBe(0);
+		expect(report.sectionCoverage.every((entry) => entry.percent === 0)).toBe(
+			true,
+		);
+	});
+});
@@ -0,0 +1,126 @@
+import type { Resume } from "./Resume";
+import { completenessScore, sectionCompleteness } from "./ResumeCompleteness";
+import type { ResumeSummary } from "./ResumeStorage";
+import { SECTION_TYPES, type SectionType } from "./SectionVisibility";
+
+/**
+ * The template last used to download a resume as PDF.
+ */
+export interface PdfTemplateUsage {
+	/** ID of the template */
+	templateId: string;
+
+	/** ISO 8601 timestamp of the download */
+	generatedAt: string;
+}
+
+/**
+ * Port for the last PDF template of each resume.
+ */
+export interface PdfTemplateUsageRepository {
+	get(resumeId: string): PdfTemplateUsage | null;
+	record(resumeId: string, templateId: string): void;
+	remove(resumeId: string): void;
+}
+
+/**
+ * One resume of the dashboard overview.
+ */
+export interface PortfolioEntry {
+	/** The library entry (ID, title, timestamps) */
+	summary: ResumeSummary;
+
+	/** The content, or null if it could not be loaded */
+	resume: Resume | null;
+
+	/** Completeness score from 0 to 100 */
+	score: number;
+
+	/** Which sections have content */
+	sections: Record<SectionType, boolean>;
+
+	/** Whether the resume passes JSON Resume validation */
+	valid: boolean;
+
+	/** Template last used to download the PDF, if any */
+	lastTemplate: PdfTemplateUsage | null;
+}
+
+/**
+ * Aggregate figures over all resumes of the workspace.
+ */
+export interface PortfolioReport {
+	resumeCount: number;
+	/** Rounded average completeness score, 0 without resumes */
+	averageScore: number;
+	validCount: number;
+	/** For each section, how many resumes have it, in SECTION_TYPES order */
+	sectionCoverage: { section: SectionType; resumes: number; percent: number }[];
+	/** Number of resumes per last used template, most used first */
+	templateUsage: { templateId: string; resumes: number }[];
+}
+
+const EMPTY_SECTIONS = Object.fromEntries(
+	SECTION_TYPES.map((section) => [section, false]),
+) as Record<SectionType, boolean>;
+
+/**
+ * Builds the overview entry of a resume.
+ *
+ * @param summary - The library entry
+ * @param resume - The content, or null if it could not be loaded
+ * @param valid - The validation outcome
+ * @param lastTemplate - The template last used to download the PDF
+ */
+export function createPortfolioEntry(
+	summary: ResumeSummary,
+	resume: Resume | null,
+	valid: boolean,
+	lastTemplate: PdfTemplateUsage | null,
+): PortfolioEntry {
+	return {
+		summary,
+		resume,
+		score: resume ? completenessScore(resume) : 0,
+		sections: resume ? sectionCompleteness(resume) : { ...EMPTY_SECTIONS },
+		valid: resume !== null && valid,
+		lastTemplate,
+	};
+}
+
+/**
+ * Aggregates the overview entries into reports.
+ */
+export function summarizePortfolio(
+	entries: ReadonlyArray<PortfolioEntry>,
+): PortfolioReport {
+	const count = entries.length;
+	const templates = new Map<string, number>();
+	for (const entry of entries) {
+		const templateId = entry.lastTemplate?.templateId;
+		if (templateId)
+			templates.set(templateId, (templates.get(templateId) ?? 0) + 1);
+	}
+
+	return {
+		resumeCount: count,
+		averageScore:
+			count > 0
+				? Math.round(
+						entries.reduce((total, entry) => total + entry.score, 0) / count,
+					)
+				: 0,
+		validCount: entries.filter((entry) => entry.valid).length,
+		sectionCoverage: SECTION_TYPES.map((section) => {
+			const resumes = entries.filter((entry) => entry.sections[section]).length;
+			return {
+				section,
+				resumes,
+				percent: count > 0 ? Math.round((resumes / count) * 100) : 0,
+			};
+		}),
+		templateUsage: [...templates.entries()]
+			.map(([templateId, resumes]) => ({ templateId, resumes }))
+			.sort((a, b) => b.resumes - a.resumes),
+	};
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+	isShareExpired,
+	type ResumeShare,
+	validateShareOptions,
+} from "./ResumeShare";
+
+describe("ResumeShare", () => {
+	const now = new Date("2026-03-01T12:00:00.000Z");
+
+	describe("validateShareOptions", () => {
+		it("accepts an open link without expiry", () => {
+			expect(
+				validateShareOptions({ expiresAt: null, password: null }, now),
+			).toEqual([]);
+		});
+
+		it("accepts a future expiry and a long enough password", () => {
+			expect(
+				validateShareOptions(
+					{ expiresAt: "2026-03-02T00:00:00.000Z", password: "s3cret-pw" },
+					now,
+				),
+			).toEqual([]);
+		});
+
+		it("rejects an expiry in the past", () => {
+			expect(
+				validateShareOptions(
+					{ expiresAt: "2026-03-01T11:59:59.000Z", password: null },
+					now,
+				),
+			).toEqual(["expiryInPast"]);
+		});
+
+		it("rejects a short password, including an empty one", () => {
+			expect(
+				validateShareOptions({ expiresAt: null, password: "short" }, now),
+			).toEqual(["passwordTooShort"]);
+			expect(
+				validateShareOptions({ expiresAt: null, password: "" }, now),
+			).toEqual(["passwordTooShort"]);
+		});
+	});
+
+	describe("isShareExpired", () => {
+		const share: ResumeShare = {
+			id: "share-1",
+			resumeId: "resume-1",
+			url: "https://cv.example.com/r/abc",
+			expiresAt: null,
+			passwordProtected: false,
+			createdAt: "2026-02-01T00:00:00.000Z",
+		};
+
+		it("never expires without an expiry date", () => {
+			expect(isShareExpired(share, now)).toBe(false);
+		});
+
+		it("expires once the expiry date is reached", () => {
+			expect(
+				isShareExpired(
+					{ ...share, expiresAt: "2026-03-01T12:00:00.000Z" },
+					now,
+				),
+			).toBe(true);
+			expect(
+				isShareExpired(
+					{ ...share, expiresAt: "2026-03-05T00:00:00.000Z" },
+					now,
+				),
+			).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,122 @@
+import type { Resume } from "./Resume";
+
+/**
+ * Minimum length of a share password.
+ */
+export const MIN_SHARE_PASSWORD_LENGTH = 8;
+
+/**
+ * A published resume, reachable by anyone holding its unguessable URL.
+ */
+export interface ResumeShare {
+	/** Unique identifier of the share */
+	id: string;
+
+	/** ID of the published resume */
+	resumeId: string;
+
+	/** Public URL of the hosted web view */
+	url: string;
+
+	/** ISO 8601 timestamp after which the link stops working, or null */
+	expiresAt: string | null;
+
+	/** Whether visitors must enter a password */
+	passwordProtected: boolean;
+
+	/** ISO 8601 timestamp of the (last) publication */
+	createdAt: string;
+}
+
+/**
+ * How a resume is published.
+ */
+export interface ShareOptions {
+	/** ISO 8601 expiry timestamp, or null for a link that does not expire */
+	expiresAt: string | null;
+
+	/** Password visitors must enter, or null for an open link */
+	password: string | null;
+
+	/** Template used for the "Download PDF" button */
+	templateId: string | null;
+
+	/** Locale of the web view and the PDF */
+	locale: string;
+
+	/** Whether visits are recorded for the share analytics; off when the owner opted out of analytics */
+	trackViews: boolean;
+}
+
+/**
+ * Problems that prevent publishing with the given options.
+ */
+export type ShareOptionsError = "expiryInPast" | "passwordTooShort";
+
+/**
+ * Port for publishing resumes.
+ */
+export interface ResumeSharePublisher {
+	/**
+	 * Retrieves the current share of a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @returns Promise resolving to the share, or null if the resume is not published
+	 */
+	getShare(resumeId: string): Promise<ResumeShare | null>;
+
+	/**
+	 * Publishes a resume, replacing its previous publication.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param resume - The resume content to publish, already section-filtered
+	 * @param options - Expiry, password, template and locale
+	 * @returns Promise resolving to the share
+	 */
+	publish(
+		resumeId: string,
+		resume: Resume,
+		options: ShareOptions,
+	): Promise<ResumeShare>;
+
+	/**
+	 * Takes a resume offline. Its URL stops working.
+	 *
+	 * @param resumeId - The resume ID
+	 * @returns Promise resolving when the share is removed
+	 */
+	unpublish(resumeId: string): Promise<void>;
+}
+
+/**
+ * Checks share options before publishing.
+ *
+ * @param options - The options to check
+ * @param now - Reference time for the expiry
+ * @returns The problems found, empty when the options are valid
+ */
+export function validateShareOptions(
+	options: Pick<ShareOptions, "expiresAt" | "password">,
+	now = new Date(),
+): ShareOptionsError[] {
+	const errors: ShareOptionsError[] = [];
+	if (options.expiresAt && Date.parse(options.expiresAt) <= now.getTime()) {
+		errors.push("expiryInPast");
+	}
+	if (
+		options.password !== null &&
+		options.password.length < MIN_SHARE_PASSWORD_LENGTH
+	) {
+		errors.push("passwordTooShort");
+	}
+	return errors;
+}
+
+/**
+ * Whether a share link stopped working because it expired.
+ */
+export function isShareExpired(share: ResumeShare, now = new Date()): boolean {
+	return (
+		share.expiresAt !== null && Date.parse(share.expiresAt) <= now.getTime()
+	);
+}
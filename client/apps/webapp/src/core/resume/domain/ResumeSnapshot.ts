@@ -0,0 +1,129 @@
+import type { Resume } from "./Resume";
+
+/**
+ * Why a snapshot was taken.
+ *
+ * - `save`: automatic snapshot after the resume was persisted
+ * - `import`: automatic snapshot of the content replaced by an import
+ * - `restore`: automatic snapshot of the content replaced by a restore
+ * - `checkpoint`: named snapshot created explicitly by the user
+ */
+export type SnapshotReason = "save" | "import" | "restore" | "checkpoint";
+
+/**
+ * Snapshot descriptor without the resume content, used to render history lists.
+ */
+export interface ResumeSnapshotSummary {
+	/** Unique identifier of the snapshot */
+	id: string;
+
+	/** ID of the resume the snapshot belongs to */
+	resumeId: string;
+
+	/** ISO 8601 timestamp of when the snapshot was taken */
+	createdAt: string;
+
+	/** Why the snapshot was taken */
+	reason: SnapshotReason;
+
+	/** User provided name, only set for checkpoints */
+	label: string | null;
+
+	/** Content fingerprint, used to skip duplicate automatic snapshots */
+	fingerprint: string;
+}
+
+/**
+ * Immutable copy of a resume at a point in time.
+ */
+export interface ResumeSnapshot extends ResumeSnapshotSummary {
+	/** The resume content at the time of the snapshot */
+	resume: Resume;
+}
+
+/**
+ * Domain interface for snapshot persistence.
+ *
+ * Implementations store snapshots per resume and never modify them once written.
+ */
+export interface ResumeHistoryRepository {
+	/**
+	 * Lists the snapshots of a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @returns Promise resolving to the snapshot summaries, most recent first
+	 */
+	list(resumeId: string): Promise<ResumeSnapshotSummary[]>;
+
+	/**
+	 * Retrieves a snapshot with its content.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param snapshotId - The snapshot ID
+	 * @returns Promise resolving to the snapshot or null if not found
+	 */
+	get(resumeId: string, snapshotId: string): Promise<ResumeSnapshot | null>;
+
+	/**
+	 * Stores a snapshot.
+	 *
+	 * @param snapshot - The snapshot to store
+	 * @returns Promise resolving when the snapshot is persisted
+	 */
+	add(snapshot: ResumeSnapshot): Promise<void>;
+
+	/**
+	 * Removes a snapshot.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param snapshotId - The snapshot ID
+	 * @returns Promise resolving when deletion is complete
+	 */
+	delete(resumeId: string, snapshotId: string): Promise<void>;
+}
+
+/**
+ * Computes a stable fingerprint of a resume's content (32-bit FNV-1a over its JSON form).
+ *
+ * Two resumes with the same fingerprint are treated as identical for
+ * de-duplication purposes; this is not a cryptographic hash.
+ *
+ * @param value - The value to fingerprint
+ * @returns An 8 character hexadecimal string
+ */
+export function fingerprintResume(value: unknown): string {
+	const json = JSON.stringify(value) ?? "";
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < json.length; i++) {
+		hash ^= json.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Orders snapshot summaries by creation time, most recent first.
+ *
+ * @param snapshots - The snapshots to order
+ * @returns A new sorted array
+ */
+export function sortSnapshots<T extends ResumeSnapshotSummary>(
+	snapshots: ReadonlyArray<T>,
+): T[] {
+	return [...snapshots].sort(
+		(a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+	);
+}
+
+/**
+ * Strips the content of a snapshot.
+ *
+ * @param snapshot - The snapshot to summarize
+ * @returns The snapshot summary
+ */
+export function toSnapshotSummary(
+	snapshot: ResumeSnapshot,
+): ResumeSnapshotSummary {
+	const { resume: _resume, ...summary } = snapshot;
+	return summary;
+}
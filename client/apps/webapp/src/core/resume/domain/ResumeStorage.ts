@@ -61,10 +61,69 @@ type DeepPartial<T> = {
 
 export type PartialResume = DeepPartial<Resume>;
 
+/**
+ * Identifier of the resume every storage starts with.
+ *
+ * Data written before the multi-resume library existed lives under this ID,
+ * so existing drafts show up in the library without a migration step.
+ */
+export const DEFAULT_RESUME_ID = "default";
+
+/**
+ * Lightweight descriptor of a stored resume, used to render the resume library
+ * without loading every resume document.
+ */
+export interface ResumeSummary {
+	/** Unique identifier of the resume within its storage */
+	id: string;
+
+	/** Human readable title (e.g., "Backend Engineer - ACME") */
+	title: string;
+
+	/** ISO 8601 timestamp of creation */
+	createdAt: string;
+
+	/** ISO 8601 timestamp of the last update, or null if never updated */
+	updatedAt: string | null;
+}
+
+/**
+ * Derives a display title for a resume that has no explicit title.
+ * The UI shows its own localized placeholder for an empty title.
+ *
+ * @param resume - The resume to derive the title from
+ * @returns The professional label, the person's name, or an empty string
+ */
+export function deriveResumeTitle(
+	resume: Resume | PartialResume | null,
+): string {
+	const label = resume?.basics?.label?.trim();
+	if (label) return label;
+	const name = resume?.basics?.name?.trim();
+	if (name) return name;
+	return "";
+}
+
+/**
+ * Orders resume summaries by their last activity, most recent first.
+ *
+ * @param summaries - The summaries to order
+ * @returns A new array sorted by `updatedAt` (falling back to `createdAt`) descending
+ */
+export function sortResumeSummaries(
+	summaries: ReadonlyArray<ResumeSummary>,
+): ResumeSummary[] {
+	const lastActivity = (summary: ResumeSummary) =>
+		new Date(summary.updatedAt ?? summary.createdAt).getTime();
+	return [...summaries].sort((a, b) => lastActivity(b) - lastActivity(a));
+}
+
 /**
  * Domain interface for resume storage operations.
  *
  * This interface defines the contract for all resume persistence strategies.
+ * Every storage holds a library of resumes addressed by ID. `save`, `load` and
+ * `clear` operate on the active resume, selected with `setActiveResumeId`.
  * All implementations must be:
  * - Type-safe with strict TypeScript typing
  * - Async-first (even for sync storage APIs)
@@ -105,6 +164,72 @@ export interface ResumeStorage {
 	 */
 	clear(): Promise<void>;
 
+	/**
+	 * Lists all resumes held by this storage.
+	 *
+	 * @returns Promise resolving to the resume summaries, most recently updated first
+	 */
+	list(): Promise<ResumeSummary[]>;
+
+	/**
+	 * Retrieves a resume by ID without changing the active resume.
+	 *
+	 * @param id - The resume ID
+	 * @returns Promise resolving to the resume or null if not found
+	 */
+	loadById(id: string): Promise<PersistenceResult<Resume | null>>;
+
+	/**
+	 * Stores a new resume in the library.
+	 *
+	 * @param resume - The resume content
+	 * @param title - The resume title
+	 * @returns Promise resolving to the summary of the created resume
+	 */
+	create(resume: Resume, title: string): Promise<ResumeSummary>;
+
+	/**
+	 * Copies an existing resume into a new library entry.
+	 *
+	 * @param id - The ID of the resume to copy
+	 * @param title - The title of the copy
+	 * @returns Promise resolving to the summary of the copy
+	 * @throws Error if the source resume does not exist
+	 */
+	duplicate(id: string, title: string): Promise<ResumeSummary>;
+
+	/**
+	 * Changes the title of a resume.
+	 *
+	 * @param id - The resume ID
+	 * @param title - The new title
+	 * @returns Promise resolving to the updated summary
+	 * @throws Error if the resume does not exist
+	 */
+	rename(id: string, title: string): Promise<ResumeSummary>;
+
+	/**
+	 * Removes a resume from the library.
+	 *
+	 * @param id - The resume ID
+	 * @returns Promise resolving when deletion is complete
+	 */
+	delete(id: string): Promise<void>;
+
+	/**
+	 * Returns the ID of the resume targeted by `save`, `load` and `clear`.
+	 *
+	 * @returns The active resume ID, or null if the storage has not assigned one yet
+	 */
+	getActiveResumeId(): string | null;
+
+	/**
+	 * Selects the resume targeted by `save`, `load` and `clear`.
+	 *
+	 * @param id - The resume ID
+	 */
+	setActiveResumeId(id: string): void;
+
 	/**
 	 * Returns the storage type identifier.
 	 *
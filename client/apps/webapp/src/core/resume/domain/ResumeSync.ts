@@ -0,0 +1,114 @@
+import type { Resume } from "./Resume";
+import type { MergeResolutions, MergeSection } from "./ResumeMerge";
+import type { PersistenceResult, ResumeStorage } from "./ResumeStorage";
+
+/**
+ * Kind of change waiting to be sent to the server
+ */
+export type PendingMutationType = "save" | "delete";
+
+/**
+ * A change made while the server could not be reached.
+ *
+ * Besides the new content, the mutation records the server version it was
+ * based on, so a concurrent change on the server can be detected on replay.
+ */
+export interface PendingMutation {
+	id: string;
+	resumeId: string;
+	type: PendingMutationType;
+	/** New content, null for deletions */
+	resume: Resume | null;
+	/** Server content the change started from, null if unknown */
+	base: Resume | null;
+	/** Server `updatedAt` (or `createdAt`) of the base version, null if unknown */
+	baseUpdatedAt: string | null;
+	/** ISO 8601 timestamp of the change */
+	createdAt: string;
+}
+
+/**
+ * Durable queue of pending mutations, replayed in insertion order.
+ */
+export interface ResumeOutbox {
+	/**
+	 * List pending mutations, oldest first.
+	 */
+	list(): Promise<PendingMutation[]>;
+
+	/**
+	 * Append a mutation to the queue.
+	 */
+	add(mutation: PendingMutation): Promise<void>;
+
+	/**
+	 * Drop every pending mutation of a resume.
+	 */
+	clear(resumeId: string): Promise<void>;
+}
+
+/**
+ * A resume changed both locally and on the server since the last sync,
+ * with sections that cannot be merged automatically.
+ */
+export interface ResumeConflict {
+	resumeId: string;
+	/** Common ancestor, null if unknown */
+	base: Resume | null;
+	local: Resume;
+	remote: Resume;
+	/** Server `updatedAt` of the remote version */
+	remoteUpdatedAt: string;
+	/** Sections the user has to pick a winner for */
+	sections: MergeSection[];
+}
+
+/**
+ * Outcome of replaying the outbox
+ */
+export interface SyncResult {
+	/** IDs of the resumes whose pending changes reached the server */
+	synced: string[];
+	/** Resumes waiting for the user to resolve a conflict */
+	conflicts: ResumeConflict[];
+	/** Number of mutations still queued */
+	pending: number;
+}
+
+/**
+ * Storage able to queue changes while offline and replay them later.
+ */
+export interface SyncableResumeStorage extends ResumeStorage {
+	/**
+	 * Number of changes waiting to be sent to the server.
+	 */
+	pendingChanges(): Promise<number>;
+
+	/**
+	 * Replay pending changes, merging them with concurrent server changes.
+	 */
+	sync(): Promise<SyncResult>;
+
+	/**
+	 * Store the merge of a conflict using the winner picked for each section.
+	 *
+	 * @returns The persisted, merged resume
+	 */
+	resolveConflict(
+		conflict: ResumeConflict,
+		resolutions: MergeResolutions,
+	): Promise<PersistenceResult<Resume>>;
+}
+
+/**
+ * Type guard for storages supporting offline sync
+ */
+export function isSyncableStorage(
+	storage: ResumeStorage,
+): storage is SyncableResumeStorage {
+	return (
+		typeof (storage as Partial<SyncableResumeStorage>).sync === "function" &&
+		typeof (storage as Partial<SyncableResumeStorage>).resolveConflict ===
+			"function"
+	);
+}
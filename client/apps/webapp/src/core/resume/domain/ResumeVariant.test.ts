@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	applyHiddenItems,
+	applyOverrides,
+	hiddenItemKeys,
+	itemKeys,
+	moveItem,
+	orderedIndexes,
+	reorderResume,
+	reorderVisibility,
+} from "./ResumeVariant";
+import { createDefaultVisibility } from "./SectionVisibility";
+
+describe("ResumeVariant", () => {
+	describe("applyOverrides", () => {
+		it("should replace overridden fields and inherit the rest", () => {
+			const base = createTestResume();
+
+			const resume = applyOverrides(base, { label: "Backend Engineer" });
+
+			expect(resume.basics.label).toBe("Backend Engineer");
+			expect(resume.basics.summary).toBe(base.basics.summary);
+			expect(resume.basics.name).toBe(base.basics.name);
+			expect(base.basics.label).toBe("Software Engineer");
+		});
+
+		it("should keep an empty override", () => {
+			const resume = applyOverrides(createTestResume(), { summary: "" });
+
+			expect(resume.basics.summary).toBe("");
+		});
+	});
+
+	describe("itemKeys", () => {
+		it("should key items by their identity fields", () => {
+			const base = createTestResume();
+
+			expect(itemKeys(base, "work")).toEqual([
+				"company a|senior developer",
+				"company b|developer",
+			]);
+		});
+
+		it("should number items sharing an identity", () => {
+			const base = createTestResume();
+			base.skills = [
+				...base.skills,
+				{ name: " python ", level: "", keywords: [] },
+			];
+
+			expect(itemKeys(base, "skills")).toEqual([
+				"javascript",
+				"typescript",
+				"python",
+				"python#1",
+			]);
+		});
+	});
+
+	describe("orderedIndexes", () => {
+		it("should drop stale keys and append new items", () => {
+			expect(
+				orderedIndexes(["c", "a", "gone", "a"], ["a", "b", "c", "d"]),
+			).toEqual([2, 0, 1, 3]);
+		});
+
+		it("should keep the base order without a custom order", () => {
+			expect(orderedIndexes(undefined, ["a", "b", "c"])).toEqual([0, 1, 2]);
+		});
+	});
+
+	describe("moveItem", () => {
+		it("should move an item to a new position", () => {
+			expect(moveItem({}, "skills", createTestResume(), 2, 0)).toEqual({
+				skills: ["python", "javascript", "typescript"],
+			});
+		});
+
+		it("should ignore positions outside the section", () => {
+			const order = { work: ["company b|developer"] };
+
+			expect(moveItem(order, "work", createTestResume(), 0, 5)).toEqual({
+				work: ["company b|developer", "company a|senior developer"],
+			});
+			expect(order).toEqual({ work: ["company b|developer"] });
+		});
+	});
+
+	describe("reorderResume", () => {
+		it("should reorder sections with a custom order", () => {
+			const base = createTestResume();
+
+			const resume = reorderResume(base, {
+				work: ["company b|developer", "company a|senior developer"],
+			});
+
+			expect(resume.work.map((work) => work.name)).toEqual([
+				"Company B",
+				"Company A",
+			]);
+			expect(resume.skills).toEqual(base.skills);
+		});
+
+		it("should include items added to the base after ordering", () => {
+			const base = createTestResume();
+
+			const resume = reorderResume(base, { skills: ["typescript"] });
+
+			expect(resume.skills.map((skill) => skill.name)).toEqual([
+				"TypeScript",
+				"JavaScript",
+				"Python",
+			]);
+		});
+	});
+
+	describe("reorderVisibility", () => {
+		it("should keep visibility flags on the same items", () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("variant", base);
+			visibility.work.items = [false, true];
+
+			const reordered = reorderVisibility(visibility, base, {
+				work: ["company b|developer"],
+			});
+
+			expect(reordered.work.items).toEqual([true, false]);
+			expect(visibility.work.items).toEqual([false, true]);
+		});
+
+		it("should show items added to the base after the selection", () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("variant", base);
+			visibility.skills.items = [false, false];
+
+			const reordered = reorderVisibility(visibility, base, {});
+
+			expect(reordered.skills.items).toEqual([false, false, true]);
+		});
+	});
+
+	describe("hidden items", () => {
+		it("should keep hidden items hidden when the base changes", () => {
+			const base = createTestResume();
+			const visibility = createDefaultVisibility("variant", base);
+			visibility.skills.items = [true, false, true];
+			const hidden = hiddenItemKeys(visibility, base);
+			base.skills = [{ name: "Go", level: "", keywords: [] }, ...base.skills];
+
+			const applied = applyHiddenItems(visibility, base, hidden);
+
+			expect(hidden).toEqual({ skills: ["typescript"] });
+			expect(applied.skills.items).toEqual([true, true, false, true]);
+			expect(applied.work.items).toEqual([true, true]);
+		});
+	});
+});
@@ -0,0 +1,304 @@
+import type { Basics, Resume } from "./Resume";
+import { entryIdentity } from "./ResumeDiff";
+import type {
+	ArraySectionType,
+	ArraySectionVisibility,
+	SectionVisibility,
+} from "./SectionVisibility";
+import { SECTION_TYPES } from "./SectionVisibility";
+
+/**
+ * Basics fields a variant can replace. A missing field inherits the base value.
+ */
+export type VariantOverrides = Partial<Pick<Basics, "label" | "summary">>;
+
+/**
+ * Base items per section, by item key (see {@link itemKeys}).
+ */
+export type ItemKeys = Partial<Record<ArraySectionType, string[]>>;
+
+/**
+ * Custom item order per section, as base item keys.
+ * Sections without an entry keep the base order.
+ */
+export type ItemOrder = ItemKeys;
+
+/**
+ * A resume tailored for one application, derived from a base resume.
+ *
+ * A variant stores only what differs from its base, so edits to the base
+ * resume show up in every variant unless the field is overridden.
+ * Hidden items and the item order refer to base items by key, so they stick
+ * to the same entries when base items are added, removed or moved.
+ */
+export interface ResumeVariant {
+	id: string;
+	/** ID of the resume the variant derives from */
+	baseResumeId: string;
+	/** Name shown to the user (e.g. "Acme – Backend Engineer") */
+	name: string;
+	/**
+	 * Sections and personal details shown in the variant. Item flags are
+	 * resolved from `hiddenItems` (see {@link applyHiddenItems}).
+	 */
+	visibility: SectionVisibility;
+	/** Base items hidden in the variant */
+	hiddenItems: ItemKeys;
+	order: ItemOrder;
+	overrides: VariantOverrides;
+	/** ISO 8601 timestamp */
+	createdAt: string;
+	/** ISO 8601 timestamp */
+	updatedAt: string;
+}
+
+/**
+ * Domain interface for variant persistence.
+ */
+export interface ResumeVariantRepository {
+	/**
+	 * Lists the variants of a resume.
+	 *
+	 * @param baseResumeId - The base resume ID
+	 * @returns Promise resolving to the variants, in creation order
+	 */
+	list(baseResumeId: string): Promise<ResumeVariant[]>;
+
+	/**
+	 * Retrieves a variant.
+	 *
+	 * @param baseResumeId - The base resume ID
+	 * @param variantId - The variant ID
+	 * @returns Promise resolving to the variant or null if not found
+	 */
+	get(baseResumeId: string, variantId: string): Promise<ResumeVariant | null>;
+
+	/**
+	 * Creates or replaces a variant.
+	 *
+	 * @param variant - The variant to store
+	 * @returns Promise resolving when the variant is persisted
+	 */
+	save(variant: ResumeVariant): Promise<void>;
+
+	/**
+	 * Removes a variant.
+	 *
+	 * @param baseResumeId - The base resume ID
+	 * @param variantId - The variant ID
+	 * @returns Promise resolving when deletion is complete
+	 */
+	delete(baseResumeId: string, variantId: string): Promise<void>;
+}
+
+/**
+ * Applies the overrides of a variant to the basics of its base resume.
+ * Empty overrides are kept: an empty summary hides the base summary.
+ *
+ * @param base - The base resume
+ * @param overrides - The overridden fields
+ * @returns A new resume with the overrides applied
+ */
+export function applyOverrides(
+	base: Resume,
+	overrides: VariantOverrides,
+): Resume {
+	return {
+		...base,
+		basics: {
+			...base.basics,
+			label: overrides.label ?? base.basics.label,
+			summary: overrides.summary ?? base.basics.summary,
+		},
+	};
+}
+
+/**
+ * Keys identifying the items of a section across base edits: the identity
+ * fields used by the resume diff, numbered when several items share them.
+ * Editing an identity field (e.g. a company name) makes the item a new one.
+ *
+ * @example
+ * itemKeys(resume, "skills") // ["typescript", "python", "python#1"]
+ */
+export function itemKeys(resume: Resume, section: ArraySectionType): string[] {
+	const occurrences = new Map<string, number>();
+	return resume[section].map((entry) => {
+		const identity = entryIdentity(section, entry);
+		const count = occurrences.get(identity) ?? 0;
+		occurrences.set(identity, count + 1);
+		return count === 0 ? identity : `${identity}#${count}`;
+	});
+}
+
+/**
+ * Resolves a custom order against the current base items.
+ * Keys of removed items are dropped and items added to the base since the
+ * order was set are appended in their base order.
+ *
+ * @param order - The custom order, as item keys
+ * @param keys - Keys of the current base items (see {@link itemKeys})
+ * @returns Base indexes in display order
+ *
+ * @example
+ * orderedIndexes(["c", "a", "gone"], ["a", "b", "c", "d"]) // [2, 0, 1, 3]
+ */
+export function orderedIndexes(
+	order: ReadonlyArray<string> | undefined,
+	keys: ReadonlyArray<string>,
+): number[] {
+	const positions = new Map(keys.map((key, index) => [key, index]));
+	const seen = new Set<number>();
+	for (const key of order ?? []) {
+		const index = positions.get(key);
+		if (index !== undefined) seen.add(index);
+	}
+	for (let index = 0; index < keys.length; index++) {
+		seen.add(index);
+	}
+	return [...seen];
+}
+
+/**
+ * Moves an item of a section, returning the new order.
+ *
+ * @param order - The current custom order
+ * @param section - The section holding the item
+ * @param resume - The base resume
+ * @param from - Current position of the item
+ * @param to - New position of the item
+ * @returns A new order; the input is left untouched
+ */
+export function moveItem(
+	order: ItemOrder,
+	section: ArraySectionType,
+	resume: Resume,
+	from: number,
+	to: number,
+): ItemOrder {
+	const keys = itemKeys(resume, section);
+	const indexes = orderedIndexes(order[section], keys);
+	const length = keys.length;
+	if (from >= 0 && from < length && to >= 0 && to < length) {
+		const [moved] = indexes.splice(from, 1);
+		if (moved !== undefined) indexes.splice(to, 0, moved);
+	}
+	return {
+		...order,
+		[section]: indexes.flatMap((index) => keys[index] ?? []),
+	};
+}
+
+function reorderSection<T>(
+	items: ReadonlyArray<T>,
+	indexes: ReadonlyArray<number>,
+): T[] {
+	return indexes.flatMap((index) => {
+		const item = items[index];
+		return item === undefined ? [] : [item];
+	});
+}
+
+/**
+ * Reorders the items of a resume.
+ *
+ * @param resume - The resume to reorder
+ * @param order - The custom order, as item keys
+ * @returns A new resume with reordered sections
+ */
+export function reorderResume(resume: Resume, order: ItemOrder): Resume {
+	const indexes = (section: ArraySectionType) =>
+		orderedIndexes(order[section], itemKeys(resume, section));
+	return {
+		basics: resume.basics,
+		work: reorderSection(resume.work, indexes("work")),
+		education: reorderSection(resume.education, indexes("education")),
+		skills: reorderSection(resume.skills, indexes("skills")),
+		projects: reorderSection(resume.projects, indexes("projects")),
+		certificates: reorderSection(resume.certificates, indexes("certificates")),
+		volunteer: reorderSection(resume.volunteer, indexes("volunteer")),
+		awards: reorderSection(resume.awards, indexes("awards")),
+		publications: reorderSection(resume.publications, indexes("publications")),
+		languages: reorderSection(resume.languages, indexes("languages")),
+		interests: reorderSection(resume.interests, indexes("interests")),
+		references: reorderSection(resume.references, indexes("references")),
+	};
+}
+
+/**
+ * Reorders item visibility flags the same way {@link reorderResume} reorders
+ * items, so both keep pointing at the same entries.
+ * Items without a flag are visible.
+ *
+ * @param visibility - Visibility indexed by base item
+ * @param resume - The base resume
+ * @param order - The custom order, as item keys
+ * @returns New visibility indexed by position in the reordered resume
+ */
+export function reorderVisibility(
+	visibility: SectionVisibility,
+	resume: Resume,
+	order: ItemOrder,
+): SectionVisibility {
+	const reordered: SectionVisibility = { ...visibility };
+	for (const section of SECTION_TYPES) {
+		if (section === "personalDetails") continue;
+		const current: ArraySectionVisibility = visibility[section];
+		reordered[section] = {
+			...current,
+			items: orderedIndexes(order[section], itemKeys(resume, section)).map(
+				(index) => current.items[index] ?? true,
+			),
+		};
+	}
+	return reordered;
+}
+
+/**
+ * Collects the keys of the items a visibility hides.
+ *
+ * @param visibility - Visibility indexed by base item
+ * @param resume - The base resume
+ * @returns The hidden items, per section
+ */
+export function hiddenItemKeys(
+	visibility: SectionVisibility,
+	resume: Resume,
+): ItemKeys {
+	const hidden: ItemKeys = {};
+	for (const section of SECTION_TYPES) {
+		if (section === "personalDetails") continue;
+		const items = visibility[section].items;
+		const keys = itemKeys(resume, section).filter(
+			(_, index) => items[index] === false,
+		);
+		if (keys.length > 0) hidden[section] = keys;
+	}
+	return hidden;
+}
+
+/**
+ * Sets the item flags of a visibility from hidden item keys, for the current
+ * base items. Items added to the base since then are visible.
+ *
+ * @param visibility - The section and personal details visibility
+ * @param resume - The base resume
+ * @param hidden - The hidden items, per section
+ * @returns New visibility indexed by base item
+ */
+export function applyHiddenItems(
+	visibility: SectionVisibility,
+	resume: Resume,
+	hidden: ItemKeys,
+): SectionVisibility {
+	const applied: SectionVisibility = { ...visibility };
+	for (const section of SECTION_TYPES) {
+		if (section === "personalDetails") continue;
+		const keys = new Set(hidden[section] ?? []);
+		applied[section] = {
+			...visibility[section],
+			items: itemKeys(resume, section).map((key) => !keys.has(key)),
+		};
+	}
+	return applied;
+}
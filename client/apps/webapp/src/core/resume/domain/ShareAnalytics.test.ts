@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+	analyticsPeriodStart,
+	type ShareViewEvent,
+	summarizeShareViews,
+} from "./ShareAnalytics";
+
+describe("ShareAnalytics", () => {
+	const now = new Date(2026, 2, 10, 15, 0, 0);
+
+	const view = (
+		id: string,
+		viewedAt: Date,
+		overrides: Partial<ShareViewEvent> = {},
+	): ShareViewEvent => ({
+		id,
+		shareId: "share-1",
+		viewedAt: viewedAt.toISOString(),
+		referrer: null,
+		device: "desktop",
+		pdfDownloaded: false,
+		...overrides,
+	});
+
+	describe("analyticsPeriodStart", () => {
+		it("starts at midnight of the first day of the period", () => {
+			expect(analyticsPeriodStart(7, now)).toEqual(new Date(2026, 2, 4));
+			expect(analyticsPeriodStart(1, now)).toEqual(new Date(2026, 2, 10));
+		});
+	});
+
+	describe("summarizeShareViews", () => {
+		it("returns an empty summary with one entry per day", () => {
+			const summary = summarizeShareViews([], 7, now);
+
+			expect(summary.totalViews).toBe(0);
+			expect(summary.downloadRate).toBe(0);
+			expect(summary.lastViewedAt).toBeNull();
+			expect(summary.viewsByDay.map((day) => day.date)).toEqual([
+				"2026-03-04",
+				"2026-03-05",
+				"2026-03-06",
+				"2026-03-07",
+				"2026-03-08",
+				"2026-03-09",
+				"2026-03-10",
+			]);
+			expect(summary.devices).toEqual([
+				{ device: "desktop", views: 0 },
+				{ device: "mobile", views: 0 },
+				{ device: "tablet", views: 0 },
+			]);
+		});
+
+		it("counts views, downloads, referrers and devices in the period", () => {
+			const events = [
+				view("1", new Date(2026, 2, 9, 10), {
+					referrer: "www.linkedin.com",
+					pdfDownloaded: true,
+				}),
+				view("2", new Date(2026, 2, 9, 18), {
+					referrer: "www.linkedin.com",
+					device: "mobile",
+				}),
+				view("3", new Date(2026, 2, 10, 9), { device: "tablet" }),
+				view("4", new Date(2026, 2, 10, 11), {
+					referrer: "mail.google.com",
+					pdfDownloaded: true,
+				}),
+				// Outside the period
+				view("5", new Date(2026, 1, 1), { referrer: "old.example.com" }),
+			];
+
+			const summary = summarizeShareViews(events, 7, now);
+
+			expect(summary.totalViews).toBe(4);
+			expect(summary.pdfDownloads).toBe(2);
+			expect(summary.downloadRate).toBe(0.5);
+			expect(summary.lastViewedAt).toBe(events[3]?.viewedAt);
+			expect(summary.viewsByDay.slice(-2)).toEqual([
+				{ date: "2026-03-09", views: 2, downloads: 1 },
+				{ date: "2026-03-10", views: 2, downloads: 1 },
+			]);
+			expect(summary.referrers).toEqual([
+				{ referrer: "www.linkedin.com", views: 2 },
+				{ referrer: null, views: 1 },
+				{ referrer: "mail.google.com", views: 1 },
+			]);
+			expect(summary.devices).toEqual([
+				{ device: "desktop", views: 2 },
+				{ device: "mobile", views: 1 },
+				{ device: "tablet", views: 1 },
+			]);
+		});
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Device classes recorded for share views. Derived server-side from the
+ * user agent; bots are not recorded.
+ */
+export const SHARE_DEVICE_CLASSES = ["desktop", "mobile", "tablet"] as const;
+
+export type ShareDeviceClass = (typeof SHARE_DEVICE_CLASSES)[number];
+
+/**
+ * One visit of a published resume. Recorded by the hosted web view itself,
+ * without third-party trackers or cookies.
+ */
+export interface ShareViewEvent {
+	/** Unique identifier of the visit */
+	id: string;
+
+	/** ID of the share that was visited */
+	shareId: string;
+
+	/** ISO 8601 timestamp of the visit */
+	viewedAt: string;
+
+	/** Host name of the referring page (e.g. "www.linkedin.com"), or null for direct visits */
+	referrer: string | null;
+
+	/** Coarse device class of the visitor */
+	device: ShareDeviceClass;
+
+	/** Whether the visitor downloaded the PDF during the visit */
+	pdfDownloaded: boolean;
+}
+
+/**
+ * Views and downloads of one day.
+ */
+export interface ShareViewsByDay {
+	/** Day in YYYY-MM-DD (local time) */
+	date: string;
+	views: number;
+	downloads: number;
+}
+
+/**
+ * Aggregated view statistics of a published resume.
+ */
+export interface ShareAnalyticsSummary {
+	totalViews: number;
+	pdfDownloads: number;
+	/** Share of views with a PDF download, between 0 and 1 */
+	downloadRate: number;
+	/** ISO 8601 timestamp of the latest view, or null */
+	lastViewedAt: string | null;
+	/** One entry per day of the period, oldest first, including days without views */
+	viewsByDay: ShareViewsByDay[];
+	/** Views per referrer host, most frequent first; null stands for direct visits */
+	referrers: { referrer: string | null; views: number }[];
+	/** Views per device class, in SHARE_DEVICE_CLASSES order */
+	devices: { device: ShareDeviceClass; views: number }[];
+}
+
+/**
+ * Port for reading the recorded views of a resume's shares.
+ */
+export interface ShareAnalyticsSource {
+	/**
+	 * Lists the views of a resume, across all its publications.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param since - ISO 8601 timestamp of the oldest view to return
+	 * @returns Promise resolving to the views, in any order
+	 */
+	listViews(resumeId: string, since: string): Promise<ShareViewEvent[]>;
+}
+
+const toDay = (date: Date): string => {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Start of the analytics period: midnight of the first of `days` days ending today.
+ */
+export function analyticsPeriodStart(days: number, now = new Date()): Date {
+	const start = new Date(now);
+	start.setHours(0, 0, 0, 0);
+	start.setDate(start.getDate() - (days - 1));
+	return start;
+}
+
+/**
+ * Aggregates view events over the last `days` days.
+ *
+ * @param events - Recorded views; views outside the period are ignored
+ * @param days - Length of the period, today included
+ * @param now - Reference time
+ * @returns The summary
+ */
+export function summarizeShareViews(
+	events: ReadonlyArray<ShareViewEvent>,
+	days: number,
+	now = new Date(),
+): ShareAnalyticsSummary {
+	const start = analyticsPeriodStart(days, now);
+	const inPeriod = events.filter((event) => {
+		const time = Date.parse(event.viewedAt);
+		return time >= start.getTime() && time <= now.getTime();
+	});
+
+	const byDay = new Map<string, ShareViewsByDay>();
+	for (let offset = 0; offset < days; offset++) {
+		const day = new Date(start);
+		day.setDate(start.getDate() + offset);
+		const date = toDay(day);
+		byDay.set(date, { date, views: 0, downloads: 0 });
+	}
+
+	const referrers = new Map<string | null, number>();
+	const devices = new Map<ShareDeviceClass, number>();
+	let pdfDownloads = 0;
+	let lastViewedAt: string | null = null;
+
+	for (const event of inPeriod) {
+		const day = byDay.get(toDay(new Date(event.viewedAt)));
+		if (day) {
+			day.views++;
+			if (event.pdfDownloaded) day.downloads++;
+		}
+		if (event.pdfDownloaded) pdfDownloads++;
+		referrers.set(event.referrer, (referrers.get(event.referrer) ?? 0) + 1);
+		devices.set(event.device, (devices.get(event.device) ?? 0) + 1);
+		if (
+			!lastViewedAt ||
+			Date.parse(event.viewedAt) > Date.parse(lastViewedAt)
+		) {
+			lastViewedAt = event.viewedAt;
+		}
+	}
+
+	return {
+		totalViews: inPeriod.length,
+		pdfDownloads,
+		downloadRate: inPeriod.length > 0 ? pdfDownloads / inPeriod.length : 0,
+		lastViewedAt,
+		viewsByDay: [...byDay.values()],
+		referrers: [...referrers.entries()]
+			.map(([referrer, views]) => ({ referrer, views }))
+			.sort((a, b) => b.views - a.views),
+		devices: SHARE_DEVICE_CLASSES.map((device) => ({
+			device,
+			views: devices.get(device) ?? 0,
+		})),
+	};
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { ResumeSummary } from "./ResumeStorage";
+import {
+	type MigrationPlan,
+	planMigration,
+	selectedItems,
+} from "./StorageMigration";
+
+describe("StorageMigration", () => {
+	const summary = (id: string, title = id): ResumeSummary => ({
+		id,
+		title,
+		createdAt: "2024-01-01T00:00:00.000Z",
+		updatedAt: null,
+	});
+
+	const createPlan = (): MigrationPlan =>
+		planMigration(
+			"local",
+			"remote",
+			[summary("a", "Backend"), summary("b", "Frontend")],
+			["b"],
+			{ visibilityIds: ["a", "b"], hasDraft: true, activeResumeId: "a" },
+		);
+
+	describe("planMigration", () => {
+		it("should list resumes, their visibility and the draft of the open resume", () => {
+			const plan = createPlan();
+
+			expect(plan.items.map((item) => item.id)).toEqual([
+				"resume:a",
+				"resume:b",
+				"section-visibility:a",
+				"section-visibility:b",
+				"draft:a",
+			]);
+			expect(plan.items[4]).toMatchObject({ kind: "draft", title: "Backend" });
+			expect(plan.activeResumeId).toBe("a");
+		});
+
+		it("should flag resumes that already exist in the target", () => {
+			const plan = createPlan();
+
+			expect(plan.conflicts).toBe(1);
+			expect(
+				plan.items.filter((item) => item.conflict).map((item) => item.id),
+			).toEqual(["resume:b"]);
+		});
+
+		it("should leave out the draft when the open resume is not in the source", () => {
+			const plan = planMigration("local", "remote", [summary("a")], [], {
+				visibilityIds: [],
+				hasDraft: true,
+				activeResumeId: "missing",
+			});
+
+			expect(plan.items.map((item) => item.kind)).toEqual(["resume"]);
+			expect(plan.activeResumeId).toBeNull();
+		});
+	});
+
+	describe("selectedItems", () => {
+		it("should select every item by default", () => {
+			const plan = createPlan();
+
+			expect(
+				selectedItems(plan, { mode: "copy", resolution: "overwrite" }),
+			).toHaveLength(5);
+		});
+
+		it("should drop the items that follow a resume left out", () => {
+			const plan = createPlan();
+
+			const ids = selectedItems(plan, {
+				mode: "copy",
+				resolution: "skip",
+				selected: ["resume:a", "resume:b", "section-visibility:b", "draft:a"],
+			}).map((item) => item.id);
+
+			expect(ids).toEqual(["resume:a", "resume:b", "draft:a"]);
+		});
+	});
+});
@@ -0,0 +1,245 @@
+import type { Resume } from "./Resume";
+import type { ResumeSummary, StorageType } from "./ResumeStorage";
+import type { SectionVisibility } from "./SectionVisibility";
+
+/**
+ * What happens to the data in the source storage once it reached the target.
+ *
+ * - `copy`: the source keeps its data
+ * - `move`: the migrated data is removed from the source
+ */
+export type MigrationMode = "copy" | "move";
+
+/**
+ * What to do with a resume that already exists in the target storage.
+ *
+ * - `overwrite`: replace the resume in the target
+ * - `keep-both`: store the migrated resume as a new copy
+ * - `skip`: leave the resume in the target untouched
+ */
+export type ConflictResolution = "overwrite" | "keep-both" | "skip";
+
+/**
+ * Kind of data a migration carries between storages.
+ */
+export type MigrationItemKind = "resume" | "section-visibility" | "draft";
+
+/**
+ * A piece of data that will move between storages.
+ */
+export interface MigrationItem {
+	/** Stable identifier of the item within the plan */
+	id: string;
+
+	kind: MigrationItemKind;
+
+	/** ID of the resume the item belongs to */
+	resumeId: string;
+
+	/** Human readable name of the item */
+	title: string;
+
+	/** Whether the target already holds a resume with the same ID */
+	conflict: boolean;
+}
+
+/**
+ * Preview of a migration: everything the source holds, checked against the target.
+ */
+export interface MigrationPlan {
+	source: StorageType;
+	target: StorageType;
+
+	/** Items in migration order: resumes first, then their visibility, then the draft */
+	items: ReadonlyArray<MigrationItem>;
+
+	/** Number of resumes that already exist in the target */
+	conflicts: number;
+
+	/** ID of the resume the source has open, followed in the target after migrating */
+	activeResumeId: string | null;
+}
+
+/**
+ * Choices made by the user before migrating.
+ */
+export interface MigrationOptions {
+	mode: MigrationMode;
+	resolution: ConflictResolution;
+
+	/** IDs of the plan items to migrate; every item when omitted */
+	selected?: ReadonlyArray<string>;
+}
+
+/**
+ * Stage a migration is in, reported with its progress.
+ */
+export type MigrationPhase = "migrating" | "cleaning-up" | "rolling-back";
+
+export interface MigrationProgress {
+	phase: MigrationPhase;
+
+	/** Number of steps done in the current phase */
+	completed: number;
+
+	/** Number of steps of the current phase */
+	total: number;
+}
+
+/**
+ * A change applied by a migration, recorded so it can be undone.
+ */
+export type MigrationStep =
+	| { type: "target-created"; resumeId: string }
+	| {
+			type: "target-replaced";
+			resumeId: string;
+			previous: Resume;
+			title: string;
+	  }
+	| { type: "source-deleted"; resumeId: string; resume: Resume; title: string }
+	| { type: "visibility-copied"; resumeId: string }
+	| { type: "visibility-removed"; visibility: SectionVisibility }
+	| { type: "draft-cleared"; draft: Resume };
+
+/**
+ * Outcome of a migration, holding everything needed to roll it back.
+ */
+export interface MigrationResult {
+	source: StorageType;
+	target: StorageType;
+	mode: MigrationMode;
+
+	/** Number of items written to the target */
+	migrated: number;
+
+	/** Number of items left out because of a conflict */
+	skipped: number;
+
+	/** Changes in the order they were applied */
+	steps: ReadonlyArray<MigrationStep>;
+
+	/** Resume the target has open after migrating */
+	activeResumeId: string | null;
+
+	/** Resume the target had open before migrating */
+	previousTargetActiveId: string | null;
+
+	/** Resume the source had open before migrating */
+	previousSourceActiveId: string | null;
+}
+
+/**
+ * Section visibility preferences, kept apart from the resume storages.
+ */
+export interface SectionVisibilityStore {
+	load(resumeId: string): SectionVisibility | null;
+	save(visibility: SectionVisibility): void;
+	remove(resumeId: string): void;
+}
+
+/**
+ * Unsaved edits of the open resume, kept by autosave.
+ */
+export interface AutosaveDraftStore {
+	load(): Promise<Resume | null>;
+	save(draft: Resume): Promise<void>;
+	clear(): Promise<void>;
+}
+
+/**
+ * Lists the data a migration from one storage to another would carry.
+ *
+ * @param source - Storage the data comes from
+ * @param target - Storage the data goes to
+ * @param resumes - Resumes held by the source
+ * @param targetResumeIds - IDs of the resumes already held by the target
+ * @param context - Resumes with stored visibility, whether there is an autosave draft, and the open resume
+ * @returns The migration plan
+ */
+export function planMigration(
+	source: StorageType,
+	target: StorageType,
+	resumes: ReadonlyArray<ResumeSummary>,
+	targetResumeIds: ReadonlyArray<string>,
+	context: {
+		visibilityIds: ReadonlyArray<string>;
+		hasDraft: boolean;
+		activeResumeId: string | null;
+	},
+): MigrationPlan {
+	const existing = new Set(targetResumeIds);
+	const resumeItems: MigrationItem[] = resumes.map((summary) => ({
+		id: `resume:${summary.id}`,
+		kind: "resume",
+		resumeId: summary.id,
+		title: summary.title,
+		conflict: existing.has(summary.id),
+	}));
+	const visibilityItems: MigrationItem[] = resumes
+		.filter((summary) => context.visibilityIds.includes(summary.id))
+		.map((summary) => ({
+			id: `section-visibility:${summary.id}`,
+			kind: "section-visibility",
+			resumeId: summary.id,
+			title: summary.title,
+			conflict: false,
+		}));
+	const active = resumes.find(
+		(summary) => summary.id === context.activeResumeId,
+	);
+	const draftItems: MigrationItem[] =
+		context.hasDraft && active
+			? [
+					{
+						id: `draft:${active.id}`,
+						kind: "draft",
+						resumeId: active.id,
+						title: active.title,
+						conflict: false,
+					},
+				]
+			: [];
+
+	return {
+		source,
+		target,
+		items: [...resumeItems, ...visibilityItems, ...draftItems],
+		conflicts: resumeItems.filter((item) => item.conflict).length,
+		activeResumeId: active?.id ?? null,
+	};
+}
+
+/**
+ * Returns the items of a plan the user chose to migrate.
+ *
+ * Visibility and draft items follow their resume: they are left out when the
+ * resume is not migrated.
+ *
+ * @param plan - The migration plan
+ * @param options - The migration options
+ * @returns The selected items, in plan order
+ */
+export function selectedItems(
+	plan: MigrationPlan,
+	options: MigrationOptions,
+): MigrationItem[] {
+	const selected = options.selected ? new Set(options.selected) : null;
+	const isSelected = (item: MigrationItem) =>
+		!selected || selected.has(item.id);
+	const migratedResumes = new Set(
+		plan.items
+			.filter(
+				(item) =>
+					item.kind === "resume" &&
+					isSelected(item) &&
+					!(item.conflict && options.resolution === "skip"),
+			)
+			.map((item) => item.resumeId),
+	);
+	return plan.items.filter(
+		(item) =>
+			isSelected(item) &&
+			(item.kind === "resume" || migratedResumes.has(item.resumeId)),
+	);
+}
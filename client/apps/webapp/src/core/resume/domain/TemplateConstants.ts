@@ -1,16 +0,0 @@
-// Hardcoded options since backend doesn't provide them yet
-export const SUPPORTED_FONTS = [
-	"Roboto",
-	"Open Sans",
-	"Lato",
-	"Montserrat",
-	"Merriweather",
-] as const;
-export const SUPPORTED_COLORS = [
-	"blue",
-	"green",
-	"red",
-	"purple",
-	"orange",
-	"gray",
-] as const;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	DEFAULT_SECTION_ORDER,
+	resolveSectionOrder,
+	sectionsToRender,
+} from "./TemplateLayout";
+
+describe("TemplateLayout", () => {
+	describe("resolveSectionOrder", () => {
+		it("should follow SECTION_TYPES without a template order", () => {
+			expect(resolveSectionOrder()).toEqual([...DEFAULT_SECTION_ORDER]);
+			expect(DEFAULT_SECTION_ORDER[0]).toBe("work");
+		});
+
+		it("should put template sections first and append the rest", () => {
+			const order = resolveSectionOrder([
+				"skills",
+				"unknown",
+				"work",
+				"skills",
+			]);
+
+			expect(order.slice(0, 3)).toEqual(["skills", "work", "education"]);
+			expect(order).toHaveLength(DEFAULT_SECTION_ORDER.length);
+		});
+	});
+
+	describe("sectionsToRender", () => {
+		it("should skip empty sections", () => {
+			const resume = createTestResume();
+			resume.work = [];
+
+			const sections = sectionsToRender(resume, ["skills", "work"]);
+
+			expect(sections[0]).toBe("skills");
+			expect(sections).not.toContain("work");
+		});
+	});
+});
@@ -0,0 +1,49 @@
+import type { Resume } from "./Resume";
+import { type ArraySectionType, SECTION_TYPES } from "./SectionVisibility";
+
+/**
+ * Canonical order of the resume sections, following `SECTION_TYPES`.
+ */
+export const DEFAULT_SECTION_ORDER: ReadonlyArray<ArraySectionType> =
+	SECTION_TYPES.filter(
+		(section): section is ArraySectionType => section !== "personalDetails",
+	);
+
+/**
+ * Completes a template section order so every section has a place.
+ * Duplicates and unknown sections are dropped, and sections the template
+ * does not mention are appended in their canonical order.
+ *
+ * @param order - The section order declared by a template
+ * @returns Every array section, in template order
+ */
+export function resolveSectionOrder(
+	order: ReadonlyArray<string> = [],
+): ArraySectionType[] {
+	const sections = new Set<ArraySectionType>();
+	for (const section of order) {
+		if ((DEFAULT_SECTION_ORDER as ReadonlyArray<string>).includes(section)) {
+			sections.add(section as ArraySectionType);
+		}
+	}
+	for (const section of DEFAULT_SECTION_ORDER) {
+		sections.add(section);
+	}
+	return [...sections];
+}
+
+/**
+ * Lists the sections of a resume that have content, in template order.
+ *
+ * @param resume - The resume to render
+ * @param order - The section order declared by a template
+ * @returns The non-empty sections to render
+ */
+export function sectionsToRender(
+	resume: Resume,
+	order?: ReadonlyArray<string>,
+): ArraySectionType[] {
+	return resolveSectionOrder(order).filter(
+		(section) => (resume[section]?.length ?? 0) > 0,
+	);
+}
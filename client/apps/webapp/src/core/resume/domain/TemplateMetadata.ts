@@ -6,6 +6,29 @@ export interface TemplateParams {
 	customParams?: Record<string, unknown>;
 }
 
+/**
+ * Kind of control used to edit a template parameter.
+ */
+export type TemplateParamKind = "select" | "number" | "text" | "boolean";
+
+/**
+ * A parameter a template declares, with the values it accepts.
+ */
+export interface TemplateParamDefinition {
+	/** Key sent to the generator (e.g. "fontFamily") */
+	key: string;
+	kind: TemplateParamKind;
+	/** Human readable name used when no translation exists */
+	label?: string;
+	default?: string | number | boolean;
+	/** Allowed values of a `select` parameter */
+	options?: string[];
+	/** Bounds of a `number` parameter */
+	min?: number;
+	max?: number;
+	step?: number;
+}
+
 export interface TemplateMetadata {
 	id: string;
 	name: string;
@@ -14,11 +37,14 @@ export interface TemplateMetadata {
 	supportedLocales: string[];
 	previewUrl?: string;
 	params?: TemplateParams;
+	/** Typed parameter schema; derived from `params` when absent */
+	paramsSchema?: TemplateParamDefinition[];
 }
 
 export type ParamValue =
 	| string
 	| number
+	| boolean
 	| bigint
 	| Record<string, unknown>
 	| null;
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { TemplateMetadata } from "./TemplateMetadata";
+import {
+	resolveParamSchema,
+	sanitizeParamValues,
+	toTemplateParams,
+} from "./TemplateParams";
+
+const template = (
+	overrides: Partial<TemplateMetadata> = {},
+): TemplateMetadata => ({
+	id: "classic",
+	name: "Classic",
+	version: "1.0.0",
+	supportedLocales: ["en", "es"],
+	...overrides,
+});
+
+describe("TemplateParams", () => {
+	describe("resolveParamSchema", () => {
+		it("should derive a schema from template defaults", () => {
+			const schema = resolveParamSchema(
+				template({
+					params: {
+						fontFamily: "serif",
+						colorPalette: "blue",
+						spacing: "normal",
+						customParams: {
+							lineHeight: { default: 1.2, min: 1, max: 2, step: 0.1 },
+							headerStyle: { default: "bold", options: ["bold", "light"] },
+							tagline: "Hello",
+							highlightSkills: { default: true, type: "boolean" },
+						},
+					},
+				}),
+			);
+
+			expect(schema.map((definition) => definition.key)).toEqual([
+				"locale",
+				"fontFamily",
+				"colorPalette",
+				"spacing",
+				"lineHeight",
+				"headerStyle",
+				"tagline",
+				"highlightSkills",
+			]);
+			expect(schema[1]).toEqual({
+				key: "fontFamily",
+				kind: "select",
+				default: "serif",
+				options: ["serif"],
+			});
+			expect(schema[4]).toEqual({
+				key: "lineHeight",
+				kind: "number",
+				default: 1.2,
+				min: 1,
+				max: 2,
+				step: 0.1,
+			});
+			expect(schema[5]).toMatchObject({ kind: "select", default: "bold" });
+			expect(schema[6]).toEqual({
+				key: "tagline",
+				kind: "text",
+				default: "Hello",
+			});
+			expect(schema[7]).toEqual({
+				key: "highlightSkills",
+				kind: "boolean",
+				default: true,
+			});
+		});
+
+		it("should use a declared schema as is", () => {
+			const schema = resolveParamSchema(
+				template({
+					supportedLocales: [],
+					paramsSchema: [{ key: "accent", kind: "text", default: "#000" }],
+				}),
+			);
+
+			expect(schema).toEqual([
+				{ key: "accent", kind: "text", default: "#000" },
+			]);
+		});
+	});
+
+	describe("sanitizeParamValues", () => {
+		const schema = resolveParamSchema(
+			template({
+				paramsSchema: [
+					{
+						key: "fontFamily",
+						kind: "select",
+						default: "Charter",
+						options: ["Charter", "SourceSansPro"],
+					},
+					{ key: "lineHeight", kind: "number", default: 1.2, min: 1, max: 2 },
+					{ key: "highlightSkills", kind: "boolean", default: true },
+				],
+			}),
+		);
+
+		it("should fill in defaults", () => {
+			expect(sanitizeParamValues(schema)).toEqual({
+				locale: "en",
+				fontFamily: "Charter",
+				lineHeight: 1.2,
+				highlightSkills: true,
+			});
+		});
+
+		it("should keep valid values and replace invalid ones", () => {
+			expect(
+				sanitizeParamValues(schema, {
+					locale: "es",
+					fontFamily: "Comic Sans",
+					lineHeight: "5",
+					highlightSkills: "no",
+					unknown: "dropped",
+				}),
+			).toEqual({
+				locale: "es",
+				fontFamily: "Charter",
+				lineHeight: 2,
+				highlightSkills: true,
+			});
+			expect(
+				sanitizeParamValues(schema, {
+					fontFamily: "SourceSansPro",
+					highlightSkills: false,
+				}),
+			).toMatchObject({ fontFamily: "SourceSansPro", highlightSkills: false });
+		});
+	});
+
+	describe("toTemplateParams", () => {
+		it("should keep only string, number and boolean values", () => {
+			expect(
+				toTemplateParams({
+					colorPalette: "blue",
+					fontSize: 11,
+					highlightSkills: false,
+					options: { a: 1 },
+					empty: null,
+				}),
+			).toEqual({ colorPalette: "blue", fontSize: 11, highlightSkills: false });
+		});
+	});
+});
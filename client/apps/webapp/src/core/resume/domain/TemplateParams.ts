@@ -0,0 +1,222 @@
+import type {
+	ParamValue,
+	TemplateMetadata,
+	TemplateParamDefinition,
+} from "./TemplateMetadata";
+
+/**
+ * Parameter values sent to the generator, keyed by parameter key.
+ */
+export type TemplateParamValues = Record<string, string | number | boolean>;
+
+/**
+ * A named set of template parameters a user saved for a resume.
+ */
+export interface TemplatePreset {
+	id: string;
+	name: string;
+	templateId: string;
+	params: TemplateParamValues;
+	/** ISO 8601 timestamp */
+	createdAt: string;
+}
+
+/**
+ * Parameter carried in the `Accept-Language` header instead of the request body.
+ */
+export const LOCALE_PARAM = "locale";
+
+const STANDARD_PARAMS = [
+	"fontFamily",
+	"colorPalette",
+	"spacing",
+	"density",
+] as const;
+
+function selectOf(
+	key: string,
+	options: ReadonlyArray<string>,
+	fallback: string | undefined,
+): TemplateParamDefinition {
+	const values =
+		fallback && !options.includes(fallback)
+			? [fallback, ...options]
+			: [...options];
+	return {
+		key,
+		kind: "select",
+		default: fallback ?? values[0],
+		options: values,
+	};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds a definition from a custom parameter declared in template metadata,
+ * either as a plain default value or as `{ default, options, min, max, step, type }`.
+ */
+function customDefinition(
+	key: string,
+	declared: unknown,
+): TemplateParamDefinition | null {
+	if (typeof declared === "boolean") {
+		return { key, kind: "boolean", default: declared };
+	}
+	if (typeof declared === "number") {
+		return { key, kind: "number", default: declared };
+	}
+	if (typeof declared === "string") {
+		return { key, kind: "text", default: declared };
+	}
+	if (!isRecord(declared)) return null;
+
+	const fallback = declared.default;
+	if (declared.type === "boolean" || typeof fallback === "boolean") {
+		return { key, kind: "boolean", default: fallback === true };
+	}
+	if (Array.isArray(declared.options)) {
+		const options = declared.options.map(String);
+		return selectOf(
+			key,
+			options,
+			fallback === undefined ? undefined : String(fallback),
+		);
+	}
+	if (typeof fallback === "number") {
+		return {
+			key,
+			kind: "number",
+			default: fallback,
+			min: typeof declared.min === "number" ? declared.min : undefined,
+			max: typeof declared.max === "number" ? declared.max : undefined,
+			step: typeof declared.step === "number" ? declared.step : undefined,
+		};
+	}
+	return typeof fallback === "string"
+		? { key, kind: "text", default: fallback }
+		: null;
+}
+
+/**
+ * Returns the parameters a template accepts.
+ *
+ * Templates declaring a `paramsSchema` are used as is. Older templates only
+ * expose default values, so their standard parameters are limited to that
+ * default and custom ones are derived from their declaration. The locale comes
+ * first whenever the template declares supported locales.
+ *
+ * @param template - The template metadata
+ * @returns The parameter definitions, in display order
+ */
+export function resolveParamSchema(
+	template: TemplateMetadata,
+): TemplateParamDefinition[] {
+	const schema: TemplateParamDefinition[] = [];
+	if (template.supportedLocales?.length) {
+		schema.push({
+			key: LOCALE_PARAM,
+			kind: "select",
+			default: template.supportedLocales[0],
+			options: [...template.supportedLocales],
+		});
+	}
+
+	if (template.paramsSchema) {
+		return [
+			...schema,
+			...template.paramsSchema.filter(
+				(definition) => definition.key !== LOCALE_PARAM,
+			),
+		];
+	}
+
+	const params = template.params ?? {};
+	for (const key of STANDARD_PARAMS) {
+		const fallback = params[key];
+		if (fallback) schema.push(selectOf(key, [], fallback));
+	}
+	for (const [key, declared] of Object.entries(params.customParams ?? {})) {
+		const definition = customDefinition(key, declared);
+		if (definition) schema.push(definition);
+	}
+	return schema;
+}
+
+function validValue(
+	definition: TemplateParamDefinition,
+	value: unknown,
+): string | number | boolean | undefined {
+	switch (definition.kind) {
+		case "select":
+			return typeof value === "string" && definition.options?.includes(value)
+				? value
+				: undefined;
+		case "number": {
+			const number =
+				typeof value === "string" && value.trim() !== ""
+					? Number(value)
+					: value;
+			if (typeof number !== "number" || !Number.isFinite(number)) {
+				return undefined;
+			}
+			return Math.min(
+				definition.max ?? Number.POSITIVE_INFINITY,
+				Math.max(definition.min ?? Number.NEGATIVE_INFINITY, number),
+			);
+		}
+		case "text":
+			return typeof value === "string" ? value : undefined;
+		case "boolean":
+			return typeof value === "boolean" ? value : undefined;
+	}
+}
+
+/**
+ * Keeps the values a schema accepts, falling back to defaults for missing or
+ * invalid ones. Numbers are clamped to their bounds and unknown keys dropped.
+ *
+ * @param schema - The template parameter schema
+ * @param values - The values to check, e.g. from a saved preset
+ * @returns Values safe to send to the generator
+ */
+export function sanitizeParamValues(
+	schema: ReadonlyArray<TemplateParamDefinition>,
+	values: Readonly<Record<string, unknown>> = {},
+): TemplateParamValues {
+	const sanitized: TemplateParamValues = {};
+	for (const definition of schema) {
+		const value = validValue(definition, values[definition.key]);
+		if (value !== undefined) {
+			sanitized[definition.key] = value;
+		} else if (definition.default !== undefined) {
+			sanitized[definition.key] = definition.default;
+		}
+	}
+	return sanitized;
+}
+
+/**
+ * Keeps the scalar values of a parameter selection, the only ones the
+ * generator and the preview understand.
+ *
+ * @param params - The selected parameters
+ * @returns The string, number and boolean values
+ */
+export function toTemplateParams(
+	params: Record<string, ParamValue>,
+): TemplateParamValues {
+	const values: TemplateParamValues = {};
+	for (const [key, value] of Object.entries(params)) {
+		if (
+			typeof value === "string" ||
+			typeof value === "number" ||
+			typeof value === "boolean"
+		) {
+			values[key] = value;
+		}
+	}
+	return values;
+}
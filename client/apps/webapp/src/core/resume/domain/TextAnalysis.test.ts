@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+	containsTerm,
+	contentWords,
+	countTerm,
+	countWords,
+	normalizeText,
+	tokenize,
+} from "./TextAnalysis";
+
+describe("TextAnalysis", () => {
+	describe("normalizeText", () => {
+		it("should lower-case text and remove accents", () => {
+			expect(normalizeText("Gestión de Proyectos")).toBe(
+				"gestion de proyectos",
+			);
+		});
+	});
+
+	describe("tokenize", () => {
+		it("should keep technical terms intact", () => {
+			expect(tokenize("Built C++, C# and Node.js tools for CI/CD.")).toEqual([
+				"built",
+				"c++",
+				"c#",
+				"and",
+				"node.js",
+				"tools",
+				"for",
+				"ci/cd",
+			]);
+		});
+
+		it("should drop trailing punctuation", () => {
+			expect(tokenize("teams. front-end- (React)")).toEqual([
+				"teams",
+				"front-end",
+				"react",
+			]);
+		});
+	});
+
+	describe("contentWords", () => {
+		it("should leave out English and Spanish stopwords and numbers", () => {
+			expect(
+				contentWords("Led the migration of 12 services y el equipo de datos"),
+			).toEqual(["led", "migration", "services", "equipo", "datos"]);
+		});
+	});
+
+	describe("countWords", () => {
+		it("should count whitespace separated words", () => {
+			expect(countWords("  one two\nthree  ")).toBe(3);
+			expect(countWords("")).toBe(0);
+		});
+	});
+
+	describe("containsTerm", () => {
+		it("should match whole word sequences regardless of case and accents", () => {
+			expect(
+				containsTerm("Built REST APIs with Spring Boot.", "spring boot"),
+			).toBe(true);
+			expect(containsTerm("Experiencia en gestión ágil", "Gestion Agil")).toBe(
+				true,
+			);
+		});
+
+		it("should not match partial words", () => {
+			expect(containsTerm("JavaScript developer", "java")).toBe(false);
+			expect(containsTerm("Spring developer", "spring boot")).toBe(false);
+			expect(containsTerm("anything", "")).toBe(false);
+		});
+	});
+
+	describe("countTerm", () => {
+		it("should count whole word occurrences", () => {
+			expect(countTerm("Java and Java EE, not JavaScript", "java")).toBe(2);
+			expect(countTerm("CI/CD pipelines; ci/cd owner", "CI/CD")).toBe(2);
+			expect(countTerm("Java", "")).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,209 @@
+/**
+ * Deterministic text helpers shared by the local resume analyzers.
+ * Matching is case and accent insensitive, and keeps technical tokens
+ * such as "C++", "C#", "Node.js" or "CI/CD" intact.
+ */
+
+/**
+ * Common English and Spanish words that carry no meaning on their own.
+ */
+export const STOPWORDS: ReadonlySet<string> = new Set([
+	// English
+	"a",
+	"about",
+	"above",
+	"across",
+	"after",
+	"all",
+	"also",
+	"an",
+	"and",
+	"any",
+	"are",
+	"as",
+	"at",
+	"be",
+	"been",
+	"being",
+	"both",
+	"but",
+	"by",
+	"can",
+	"do",
+	"each",
+	"etc",
+	"for",
+	"from",
+	"has",
+	"have",
+	"having",
+	"he",
+	"her",
+	"his",
+	"i",
+	"if",
+	"in",
+	"into",
+	"is",
+	"it",
+	"its",
+	"may",
+	"me",
+	"more",
+	"most",
+	"my",
+	"not",
+	"of",
+	"on",
+	"or",
+	"other",
+	"our",
+	"over",
+	"she",
+	"so",
+	"such",
+	"than",
+	"that",
+	"the",
+	"their",
+	"them",
+	"then",
+	"there",
+	"these",
+	"they",
+	"this",
+	"those",
+	"through",
+	"to",
+	"under",
+	"up",
+	"us",
+	"very",
+	"was",
+	"we",
+	"were",
+	"what",
+	"when",
+	"which",
+	"while",
+	"who",
+	"will",
+	"with",
+	"within",
+	"would",
+	"you",
+	"your",
+	// Spanish
+	"al",
+	"como",
+	"con",
+	"de",
+	"del",
+	"desde",
+	"el",
+	"ella",
+	"en",
+	"entre",
+	"era",
+	"es",
+	"esta",
+	"este",
+	"hasta",
+	"la",
+	"las",
+	"le",
+	"lo",
+	"los",
+	"mas",
+	"mi",
+	"muy",
+	"no",
+	"nos",
+	"o",
+	"para",
+	"pero",
+	"por",
+	"que",
+	"se",
+	"sin",
+	"sobre",
+	"su",
+	"sus",
+	"tambien",
+	"un",
+	"una",
+	"uno",
+	"unos",
+	"y",
+	"ya",
+]);
+
+const TOKEN_REGEX = /[\p{L}\p{N}][\p{L}\p{N}+#.\-/]*/gu;
+
+/**
+ * Lower-cases text and removes accents, so "Gestión" matches "gestion".
+ */
+export function normalizeText(text: string): string {
+	return text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase();
+}
+
+/**
+ * Splits text into normalized tokens.
+ * Trailing punctuation is dropped ("teams." → "teams") while symbols inside
+ * technical terms are kept ("c++", "node.js", "ci/cd").
+ */
+export function tokenize(text: string): string[] {
+	return (normalizeText(text).match(TOKEN_REGEX) ?? [])
+		.map((token) => token.replace(/[.\-/]+$/, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Tokens that carry meaning: stopwords and bare numbers are left out.
+ */
+export function contentWords(text: string): string[] {
+	return tokenize(text).filter(
+		(token) => !STOPWORDS.has(token) && !/^[\d.,\-/]+$/.test(token),
+	);
+}
+
+/**
+ * Number of words in a text.
+ */
+export function countWords(text: string): number {
+	return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Number of times a term (one or more words) appears in a text as a
+ * whole-word sequence.
+ *
+ * @example
+ * countTerm("Java and Java EE, not JavaScript", "java") // 2
+ */
+export function countTerm(text: string, term: string): number {
+	const needle = tokenize(term);
+	if (needle.length === 0) return 0;
+	const haystack = tokenize(text);
+	let count = 0;
+	for (let start = 0; start + needle.length <= haystack.length; start++) {
+		if (needle.every((token, offset) => haystack[start + offset] === token)) {
+			count++;
+		}
+	}
+	return count;
+}
+
+/**
+ * Whether a term (one or more words) appears in a text as a whole-word sequence.
+ *
+ * @example
+ * containsTerm("Built REST APIs with Spring Boot", "spring boot") // true
+ * containsTerm("JavaScript developer", "java") // false
+ */
+export function containsTerm(text: string, term: string): boolean {
+	return countTerm(text, term) > 0;
+}
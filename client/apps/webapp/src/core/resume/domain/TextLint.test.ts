@@ -0,0 +1,334 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "../test-resume-factory";
+import type { Resume, Work } from "./Resume";
+import {
+	applySuggestion,
+	type LintFinding,
+	lintResume,
+	proseFields,
+	resumeVocabulary,
+	type SpellChecker,
+} from "./TextLint";
+
+describe("TextLint", () => {
+	// Knows a small vocabulary, suggests the known words with the same first letter
+	const createSpellChecker = (words: string[]): SpellChecker => {
+		const known = new Set(words);
+		return {
+			correct: (word) => known.has(word.toLowerCase()),
+			suggest: (word) =>
+				words.filter((candidate) => candidate[0] === word[0]?.toLowerCase()),
+		};
+	};
+
+	const work = (overrides: Partial<Work> = {}): Work => ({
+		name: "Acme",
+		position: "Engineer",
+		url: "",
+		startDate: "2020-01",
+		endDate: "2022-12",
+		summary: "",
+		highlights: [],
+		...overrides,
+	});
+
+	// A resume whose only prose is the given summary and work entries
+	const createResume = (summary: string, works: Work[] = []): Resume =>
+		createTestResume({
+			basics: { ...createTestResume().basics, summary },
+			work: works,
+			volunteer: [],
+			projects: [],
+			awards: [],
+			publications: [],
+		});
+
+	const rules = (findings: ReadonlyArray<LintFinding>) =>
+		findings.map((finding) => finding.rule);
+
+	describe("proseFields", () => {
+		it("should list the summaries and highlights in document order", () => {
+			const resume = createTestResume({
+				work: [work({ summary: "Payments", highlights: ["Built APIs"] })],
+				projects: [
+					{
+						name: "Alpha",
+						startDate: "",
+						endDate: "",
+						description: "A cool project",
+						highlights: [],
+						url: "",
+					},
+				],
+			});
+
+			const paths = proseFields(resume).map((field) => field.path);
+
+			expect(paths.slice(0, 4)).toEqual([
+				"basics.summary",
+				"work[0].summary",
+				"work[0].highlights[0]",
+				"volunteer[0].summary",
+			]);
+			expect(paths).toContain("projects[0].description");
+			expect(paths).toContain("awards[0].summary");
+			expect(paths).toContain("publications[0].summary");
+		});
+
+		it("should expect the present tense for current roles only", () => {
+			const resume = createResume("", [
+				work({ endDate: "", highlights: ["Lead a team"] }),
+				work({ highlights: ["Led a team"] }),
+				work({ startDate: "", endDate: "", highlights: ["Leading"] }),
+			]);
+
+			const tenses = proseFields(resume)
+				.filter((field) => field.path.includes("highlights"))
+				.map((field) => field.tense);
+
+			expect(tenses).toEqual(["present", "past", null]);
+		});
+
+		it("should skip empty fields", () => {
+			const resume = createResume("  ", [work({ highlights: [""] })]);
+
+			expect(proseFields(resume)).toEqual([]);
+		});
+	});
+
+	describe("spelling", () => {
+		const spellChecker = createSpellChecker([
+			"built",
+			"fast",
+			"services",
+			"for",
+			"teams",
+		]);
+
+		it("should flag words missing from the dictionary with suggestions", () => {
+			const resume = createResume("Built fsat services");
+
+			const { findings } = lintResume(resume, { locale: "en", spellChecker });
+
+			expect(findings).toEqual([
+				expect.objectContaining({
+					rule: "spelling",
+					severity: "error",
+					section: "basics",
+					entryIndex: null,
+					path: "basics.summary",
+					offset: 6,
+					length: 4,
+					text: "fsat",
+					suggestions: ["fast", "for"],
+				}),
+			]);
+		});
+
+		it("should accept custom words, resume names and technical terms", () => {
+			const resume = createResume(
+				"Built Kubernix services for Acme teams with Node.js, AWS, JavaScript and v2",
+				[work()],
+			);
+
+			const { findings } = lintResume(resume, {
+				locale: "en",
+				spellChecker,
+				customWords: ["KUBERNIX", "with", "and"],
+			});
+
+			expect(findings).toEqual([]);
+		});
+
+		it("should check hyphenated words part by part", () => {
+			const resume = createResume("fast-servces");
+
+			const { findings } = lintResume(resume, { locale: "en", spellChecker });
+
+			expect(findings[0]).toMatchObject({ text: "servces", offset: 5 });
+		});
+
+		it("should skip spelling without a dictionary", () => {
+			const resume = createResume("Built fsat services");
+
+			const { counts } = lintResume(resume, { locale: "en" });
+
+			expect(counts.spelling).toBe(0);
+		});
+	});
+
+	describe("style rules", () => {
+		it("should flag repeated words", () => {
+			const resume = createResume("Built the the platform. Done. Done");
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(findings).toEqual([
+				expect.objectContaining({
+					rule: "repeated-word",
+					text: "the the",
+					offset: 6,
+					suggestions: ["the"],
+				}),
+			]);
+		});
+
+		it("should flag first-person pronouns but not acronyms", () => {
+			const resume = createResume("I shipped our US launch");
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(findings.map((finding) => finding.text)).toEqual(["I", "our"]);
+			expect(rules(findings)).toEqual(["first-person", "first-person"]);
+		});
+
+		it("should flag passive voice, with or without an adverb", () => {
+			const resume = createResume(
+				"The API was built in Go and was successfully migrated. I am experienced",
+			);
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(
+				findings
+					.filter((finding) => finding.rule === "passive-voice")
+					.map((finding) => finding.text),
+			).toEqual(["was built", "was successfully migrated"]);
+		});
+
+		it("should suggest stronger verbs for weak phrases", () => {
+			const resume = createResume("Responsible for billing and helped sales");
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(findings).toEqual([
+				expect.objectContaining({
+					rule: "weak-verb",
+					text: "Responsible for",
+					suggestions: ["Led", "Owned", "Managed"],
+				}),
+				expect.objectContaining({ rule: "weak-verb", text: "helped" }),
+			]);
+		});
+
+		it("should apply the style rules of the locale", () => {
+			const resume = createResume(
+				"Fui responsable de la plataforma, que fue desarrollada por mi equipo",
+			);
+
+			const { findings } = lintResume(resume, { locale: "es" });
+
+			expect(rules(findings)).toEqual([
+				"weak-verb",
+				"passive-voice",
+				"first-person",
+			]);
+		});
+	});
+
+	describe("tense", () => {
+		it("should expect the past tense in roles that ended", () => {
+			const resume = createResume("", [
+				work({ highlights: ["Manages the billing team", "Built APIs"] }),
+			]);
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(findings).toEqual([
+				expect.objectContaining({
+					rule: "tense",
+					severity: "warning",
+					section: "work",
+					entryIndex: 0,
+					path: "work[0].highlights[0]",
+					text: "Manages",
+					suggestions: ["Managed"],
+					params: { word: "Manages", expected: "past" },
+				}),
+			]);
+		});
+
+		it("should expect the present tense in the current role", () => {
+			const resume = createResume("", [
+				work({
+					endDate: "",
+					highlights: ["Led the team", "Shipped APIs", "Lead the team"],
+				}),
+			]);
+
+			const { findings } = lintResume(resume, { locale: "en" });
+
+			expect(findings.map((finding) => finding.suggestions)).toEqual([
+				["Lead"],
+				[],
+			]);
+		});
+
+		it("should not read Spanish nouns as verbs", () => {
+			const resume = createResume("", [
+				work({
+					highlights: ["Desarrollo de APIs", "Desarrollo APIs"],
+				}),
+			]);
+
+			const { findings } = lintResume(resume, { locale: "es" });
+
+			expect(findings).toEqual([
+				expect.objectContaining({
+					path: "work[0].highlights[1]",
+					suggestions: ["Desarrollé"],
+				}),
+			]);
+		});
+	});
+
+	describe("lintResume", () => {
+		it("should count findings per rule and give them stable ids", () => {
+			const resume = createResume("I was hired", [
+				work({ highlights: ["Manages the the team"] }),
+			]);
+
+			const first = lintResume(resume, { locale: "en" });
+			const second = lintResume(resume, { locale: "en" });
+
+			expect(first.counts).toEqual({
+				spelling: 0,
+				"repeated-word": 1,
+				tense: 1,
+				"passive-voice": 1,
+				"first-person": 1,
+				"weak-verb": 0,
+			});
+			expect(first.findings.map((finding) => finding.id)).toEqual(
+				second.findings.map((finding) => finding.id),
+			);
+			expect(new Set(first.findings.map((finding) => finding.id)).size).toBe(4);
+		});
+	});
+
+	describe("resumeVocabulary", () => {
+		it("should collect the names used across the resume", () => {
+			const vocabulary = resumeVocabulary(createTestResume());
+
+			expect(vocabulary).toContain("doe");
+			expect(vocabulary).toContain("django");
+			expect(vocabulary).toContain("typescript");
+		});
+	});
+
+	describe("applySuggestion", () => {
+		const finding = { offset: 6, length: 4, text: "fsat" };
+
+		it("should replace the flagged text", () => {
+			expect(applySuggestion("Built fsat APIs", finding, "fast")).toBe(
+				"Built fast APIs",
+			);
+		});
+
+		it("should leave the value unchanged when the text moved", () => {
+			expect(applySuggestion("Built  fsat APIs", finding, "fast")).toBe(
+				"Built  fsat APIs",
+			);
+		});
+	});
+});
@@ -0,0 +1,892 @@
+import type { SupportedLocale } from "@cvix/i18n";
+import type { Resume } from "./Resume";
+
+/**
+ * How much a finding hurts the reading of the resume
+ */
+export type LintSeverity = "error" | "warning" | "info";
+
+/**
+ * Checks performed by the linter. Each rule has a translated message in
+ * `resume.lint.rules.<rule>`, interpolated with the finding params.
+ */
+export type LintRule =
+	| "spelling"
+	| "repeated-word"
+	| "tense"
+	| "passive-voice"
+	| "first-person"
+	| "weak-verb";
+
+export const LINT_RULES: ReadonlyArray<LintRule> = [
+	"spelling",
+	"repeated-word",
+	"tense",
+	"passive-voice",
+	"first-person",
+	"weak-verb",
+];
+
+/**
+ * Dictionary used to check the spelling of single words
+ */
+export interface SpellChecker {
+	/** Whether the word is spelled correctly */
+	correct(word: string): boolean;
+	/** Correctly spelled words close to a misspelled one, best first */
+	suggest(word: string): string[];
+}
+
+/**
+ * Loads the dictionary of a locale. Dictionaries are large, so they are
+ * loaded on demand.
+ */
+export interface SpellCheckerProvider {
+	load(locale: SupportedLocale): Promise<SpellChecker>;
+}
+
+/**
+ * Tense expected in the achievements of a role: present for the current
+ * one, past for the ones that ended.
+ */
+export type ProseTense = "present" | "past";
+
+/**
+ * A free-text field of a resume
+ */
+export interface ProseField {
+	section: keyof Resume;
+	/** Entry of a list section, null for basics */
+	entryIndex: number | null;
+	/** Path of the field (e.g. `work[1].highlights[0]`) */
+	path: string;
+	text: string;
+	/** Tense the text should be written in, null when any tense reads well */
+	tense: ProseTense | null;
+}
+
+/**
+ * A single issue found in the text of a field.
+ */
+export interface LintFinding {
+	/** Stable while the flagged text does not move */
+	id: string;
+	rule: LintRule;
+	severity: LintSeverity;
+	section: keyof Resume;
+	entryIndex: number | null;
+	path: string;
+	/** Position of the flagged text in the field value */
+	offset: number;
+	length: number;
+	/** The flagged text as written */
+	text: string;
+	/** Replacements for the flagged text, best first */
+	suggestions: ReadonlyArray<string>;
+	/** Values interpolated in the translated message */
+	params: Readonly<Record<string, string | number>>;
+}
+
+export interface LintReport {
+	/** Findings in document order */
+	findings: ReadonlyArray<LintFinding>;
+	counts: Readonly<Record<LintRule, number>>;
+}
+
+export interface LintOptions {
+	locale: SupportedLocale;
+	/** Spelling is not checked without a dictionary */
+	spellChecker?: SpellChecker | null;
+	/** Words the user added to their dictionary */
+	customWords?: Iterable<string>;
+}
+
+/** Most replacements offered for a misspelled word */
+export const MAX_SPELLING_SUGGESTIONS = 3;
+
+export const LINT_SEVERITY: Readonly<Record<LintRule, LintSeverity>> = {
+	spelling: "error",
+	"repeated-word": "warning",
+	tense: "warning",
+	"passive-voice": "info",
+	"first-person": "info",
+	"weak-verb": "info",
+};
+
+/**
+ * Word lists behind the style rules of a locale.
+ */
+interface StyleRules {
+	firstPerson: ReadonlySet<string>;
+	/** Forms of "to be" that build the passive voice */
+	passiveAuxiliaries: ReadonlySet<string>;
+	participleSuffix: RegExp;
+	irregularParticiples: ReadonlySet<string>;
+	/** Participles used as adjectives ("experienced", "motivado") */
+	adjectives: ReadonlySet<string>;
+	/** Weak phrases, as lower-case words, and stronger replacements */
+	weakVerbs: ReadonlyArray<[ReadonlyArray<string>, ReadonlyArray<string>]>;
+	/** Action verbs as [present, past] forms */
+	verbs: ReadonlyArray<[string, string]>;
+	/** Endings that conjugate the present form ("manage" → "manages") */
+	presentEndings: ReadonlyArray<string>;
+	/** Suffix of regular past forms not listed in `verbs` */
+	pastSuffix: RegExp;
+	/** Words after which a verb-looking word is a noun ("Desarrollo de …") */
+	nounMarkers: ReadonlySet<string>;
+}
+
+const EN_VERBS: ReadonlyArray<[string, string]> = [
+	["analyze", "analyzed"],
+	["architect", "architected"],
+	["automate", "automated"],
+	["build", "built"],
+	["collaborate", "collaborated"],
+	["coordinate", "coordinated"],
+	["create", "created"],
+	["define", "defined"],
+	["deliver", "delivered"],
+	["deploy", "deployed"],
+	["design", "designed"],
+	["develop", "developed"],
+	["drive", "drove"],
+	["establish", "established"],
+	["grow", "grew"],
+	["implement", "implemented"],
+	["improve", "improved"],
+	["increase", "increased"],
+	["launch", "launched"],
+	["lead", "led"],
+	["maintain", "maintained"],
+	["manage", "managed"],
+	["mentor", "mentored"],
+	["migrate", "migrated"],
+	["negotiate", "negotiated"],
+	["optimize", "optimized"],
+	["organize", "organized"],
+	["oversee", "oversaw"],
+	["own", "owned"],
+	["plan", "planned"],
+	["present", "presented"],
+	["reduce", "reduced"],
+	["research", "researched"],
+	["review", "reviewed"],
+	["run", "ran"],
+	["sell", "sold"],
+	["support", "supported"],
+	["teach", "taught"],
+	["test", "tested"],
+	["train", "trained"],
+	["write", "wrote"],
+];
+
+const ES_VERBS: ReadonlyArray<[string, string]> = [
+	["analizo", "analicé"],
+	["automatizo", "automaticé"],
+	["aumento", "aumenté"],
+	["colaboro", "colaboré"],
+	["construyo", "construí"],
+	["coordino", "coordiné"],
+	["creo", "creé"],
+	["desarrollo", "desarrollé"],
+	["diseño", "diseñé"],
+	["dirijo", "dirigí"],
+	["entrego", "entregué"],
+	["gestiono", "gestioné"],
+	["implemento", "implementé"],
+	["lanzo", "lancé"],
+	["lidero", "lideré"],
+	["mantengo", "mantuve"],
+	["mejoro", "mejoré"],
+	["migro", "migré"],
+	["optimizo", "optimicé"],
+	["organizo", "organicé"],
+	["reduzco", "reduje"],
+	["superviso", "supervisé"],
+];
+
+const STYLE_RULES: Readonly<Record<SupportedLocale, StyleRules>> = {
+	en: {
+		firstPerson: new Set([
+			"i",
+			"me",
+			"my",
+			"mine",
+			"myself",
+			"we",
+			"us",
+			"our",
+			"ours",
+			"ourselves",
+		]),
+		passiveAuxiliaries: new Set([
+			"am",
+			"is",
+			"are",
+			"was",
+			"were",
+			"be",
+			"been",
+			"being",
+		]),
+		participleSuffix: /..ed$/,
+		irregularParticiples: new Set([
+			"begun",
+			"bought",
+			"brought",
+			"built",
+			"chosen",
+			"done",
+			"found",
+			"given",
+			"held",
+			"kept",
+			"known",
+			"led",
+			"made",
+			"paid",
+			"seen",
+			"sent",
+			"shown",
+			"sold",
+			"spent",
+			"taken",
+			"taught",
+			"told",
+			"won",
+			"written",
+		]),
+		adjectives: new Set([
+			"based",
+			"certified",
+			"dedicated",
+			"detailed",
+			"experienced",
+			"focused",
+			"interested",
+			"involved",
+			"located",
+			"motivated",
+			"organized",
+			"qualified",
+			"skilled",
+			"talented",
+		]),
+		weakVerbs: [
+			[
+				["responsible", "for"],
+				["led", "owned", "managed"],
+			],
+			[
+				["worked", "on"],
+				["built", "developed", "delivered"],
+			],
+			[
+				["involved", "in"],
+				["contributed to", "drove"],
+			],
+			[
+				["participated", "in"],
+				["contributed to", "drove"],
+			],
+			[
+				["tasked", "with"],
+				["led", "owned"],
+			],
+			[["helped"], ["enabled", "supported", "contributed to"]],
+			[["assisted"], ["supported", "enabled"]],
+			[["handled"], ["managed", "resolved"]],
+		],
+		verbs: EN_VERBS,
+		presentEndings: ["", "s", "es"],
+		pastSuffix: /...ed$/,
+		nounMarkers: new Set(),
+	},
+	es: {
+		firstPerson: new Set([
+			"yo",
+			"me",
+			"mi",
+			"mis",
+			"mío",
+			"mía",
+			"conmigo",
+			"nosotros",
+			"nosotras",
+			"nuestro",
+			"nuestra",
+			"nuestros",
+			"nuestras",
+		]),
+		passiveAuxiliaries: new Set([
+			"es",
+			"son",
+			"fue",
+			"fueron",
+			"era",
+			"eran",
+			"sido",
+			"será",
+			"serán",
+			"siendo",
+		]),
+		participleSuffix: /..(?:ado|ada|ados|adas|ido|ida|idos|idas)$/,
+		irregularParticiples: new Set([
+			"abierto",
+			"cubierto",
+			"dicho",
+			"escrito",
+			"escrita",
+			"hecho",
+			"hecha",
+			"puesto",
+			"resuelto",
+			"visto",
+		]),
+		adjectives: new Set([
+			"apasionado",
+			"apasionada",
+			"basado",
+			"basada",
+			"capacitado",
+			"capacitada",
+			"certificado",
+			"certificada",
+			"dedicado",
+			"dedicada",
+			"graduado",
+			"graduada",
+			"interesado",
+			"interesada",
+			"motivado",
+			"motivada",
+			"orientado",
+			"orientada",
+			"titulado",
+			"titulada",
+			"ubicado",
+			"ubicada",
+		]),
+		weakVerbs: [
+			[
+				["responsable", "de"],
+				["lideré", "gestioné", "dirigí"],
+			],
+			[
+				["encargado", "de"],
+				["lideré", "gestioné"],
+			],
+			[
+				["encargada", "de"],
+				["lideré", "gestioné"],
+			],
+			[
+				["trabajé", "en"],
+				["desarrollé", "implementé", "entregué"],
+			],
+			[
+				["participé", "en"],
+				["contribuí a", "impulsé"],
+			],
+			[
+				["colaboré", "en"],
+				["contribuí a", "impulsé"],
+			],
+			[["ayudé"], ["impulsé", "facilité"]],
+		],
+		verbs: ES_VERBS,
+		presentEndings: [""],
+		pastSuffix: /....é$/,
+		nounMarkers: new Set(["de", "del"]),
+	},
+};
+
+/**
+ * A whitespace-separated chunk of a text, without its surrounding punctuation.
+ */
+interface Token {
+	text: string;
+	lower: string;
+	offset: number;
+	/** Plain word, as opposed to numbers, URLs or technical terms ("Node.js") */
+	word: boolean;
+	/** Punctuation after the token ends the phrase it belongs to */
+	closesPhrase: boolean;
+}
+
+const WORD_REGEX = /^[\p{L}\p{M}]+(?:['’-][\p{L}\p{M}]+)*$/u;
+const LEADING_PUNCTUATION = /^[("'“‘«¿¡[]+/;
+const TRAILING_PUNCTUATION = /[)"'”’».,;:!?\]]+$/;
+
+/**
+ * Splits a text into tokens, keeping their position in the text.
+ */
+function tokenizeProse(text: string): Token[] {
+	const tokens: Token[] = [];
+	for (const match of text.matchAll(/\S+/g)) {
+		const leading = LEADING_PUNCTUATION.exec(match[0])?.[0].length ?? 0;
+		const core = match[0].slice(leading);
+		const trailing = TRAILING_PUNCTUATION.exec(core)?.[0].length ?? 0;
+		const value = core.slice(0, core.length - trailing);
+		if (!value) continue;
+		tokens.push({
+			text: value,
+			lower: value.toLowerCase(),
+			offset: match.index + leading,
+			word: WORD_REGEX.test(value),
+			closesPhrase: trailing > 0,
+		});
+	}
+	return tokens;
+}
+
+/**
+ * Writes a replacement with the same leading capital as the original.
+ */
+function matchCase(original: string, replacement: string): string {
+	const first = original.charAt(0);
+	return first !== first.toLowerCase()
+		? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+		: replacement;
+}
+
+/**
+ * An entry of a section describing a role and its achievements
+ */
+interface RoleEntry {
+	summary: string;
+	startDate: string;
+	endDate: string;
+	highlights: ReadonlyArray<string>;
+}
+
+function tenseOf(startDate: string, endDate: string): ProseTense | null {
+	if (!startDate.trim()) return null;
+	return endDate.trim() ? "past" : "present";
+}
+
+/**
+ * Lists the free-text fields of a resume that are worth proofreading, in
+ * document order. Achievements of dated roles carry the tense they should be
+ * written in.
+ */
+export function proseFields(resume: Resume): ProseField[] {
+	const fields: ProseField[] = [
+		{
+			section: "basics",
+			entryIndex: null,
+			path: "basics.summary",
+			text: resume.basics.summary,
+			tense: null,
+		},
+	];
+	const roles: ReadonlyArray<
+		[
+			"work" | "volunteer" | "projects",
+			"summary" | "description",
+			ReadonlyArray<RoleEntry>,
+		]
+	> = [
+		["work", "summary", resume.work],
+		["volunteer", "summary", resume.volunteer],
+		[
+			"projects",
+			"description",
+			resume.projects.map((project) => ({
+				...project,
+				summary: project.description,
+			})),
+		],
+	];
+	for (const [section, summaryField, entries] of roles) {
+		entries.forEach((entry, index) => {
+			const tense = tenseOf(entry.startDate, entry.endDate);
+			fields.push({
+				section,
+				entryIndex: index,
+				path: `${section}[${index}].${summaryField}`,
+				text: entry.summary,
+				tense: null,
+			});
+			entry.highlights.forEach((highlight, highlightIndex) => {
+				fields.push({
+					section,
+					entryIndex: index,
+					path: `${section}[${index}].highlights[${highlightIndex}]`,
+					text: highlight,
+					tense,
+				});
+			});
+		});
+	}
+	resume.awards.forEach((award, index) => {
+		fields.push({
+			section: "awards",
+			entryIndex: index,
+			path: `awards[${index}].summary`,
+			text: award.summary,
+			tense: null,
+		});
+	});
+	resume.publications.forEach((publication, index) => {
+		fields.push({
+			section: "publications",
+			entryIndex: index,
+			path: `publications[${index}].summary`,
+			text: publication.summary,
+			tense: null,
+		});
+	});
+	return fields.filter((field) => field.text.trim());
+}
+
+/**
+ * Words the resume itself defines, such as company, school or skill names,
+ * which a general dictionary does not know.
+ */
+export function resumeVocabulary(resume: Resume): Set<string> {
+	const { basics } = resume;
+	const terms = [
+		basics.name,
+		basics.label,
+		basics.location?.city ?? "",
+		basics.location?.region ?? "",
+		...basics.profiles.flatMap((profile) => [
+			profile.network,
+			profile.username,
+		]),
+		...resume.work.flatMap((work) => [work.name, work.position]),
+		...resume.volunteer.flatMap((volunteer) => [
+			volunteer.organization,
+			volunteer.position,
+		]),
+		...resume.education.flatMap((education) => [
+			education.institution,
+			education.area,
+			education.studyType,
+			...education.courses,
+		]),
+		...resume.awards.flatMap((award) => [award.title, award.awarder]),
+		...resume.certificates.flatMap((certificate) => [
+			certificate.name,
+			certificate.issuer,
+		]),
+		...resume.publications.flatMap((publication) => [
+			publication.name,
+			publication.publisher,
+		]),
+		...resume.skills.flatMap((skill) => [skill.name, ...skill.keywords]),
+		...resume.interests.flatMap((interest) => [
+			interest.name,
+			...interest.keywords,
+		]),
+		...resume.projects.map((project) => project.name),
+	];
+	return new Set(
+		terms
+			.join(" ")
+			.toLowerCase()
+			.split(/[^\p{L}\p{M}'’-]+/u)
+			.filter(Boolean),
+	);
+}
+
+type TextFinding = Omit<
+	LintFinding,
+	"id" | "section" | "entryIndex" | "path" | "severity"
+>;
+
+interface TextContext {
+	rules: StyleRules;
+	spellChecker: SpellChecker | null;
+	knownWords: ReadonlySet<string>;
+	tense: ProseTense | null;
+}
+
+function spanOf(
+	text: string,
+	from: Token,
+	to: Token,
+): { offset: number; length: number; text: string } {
+	const length = to.offset + to.text.length - from.offset;
+	return {
+		offset: from.offset,
+		length,
+		text: text.slice(from.offset, from.offset + length),
+	};
+}
+
+function isSpellCheckable(word: string): boolean {
+	return (
+		word.length > 1 &&
+		// Acronyms ("AWS") and mixed-case names ("JavaScript", "iOS")
+		word !== word.toUpperCase() &&
+		!/\p{Ll}\p{Lu}/u.test(word)
+	);
+}
+
+function checkSpelling(
+	tokens: ReadonlyArray<Token>,
+	context: TextContext,
+	findings: TextFinding[],
+): void {
+	const { spellChecker, knownWords } = context;
+	if (!spellChecker) return;
+	for (const token of tokens) {
+		if (!token.word || knownWords.has(token.lower)) continue;
+		// Hyphenated words are checked part by part
+		for (const part of token.text.matchAll(/[\p{L}\p{M}'’]+/gu)) {
+			const word = part[0].replace(/’/g, "'");
+			if (
+				!isSpellCheckable(word) ||
+				knownWords.has(word.toLowerCase()) ||
+				spellChecker.correct(word)
+			) {
+				continue;
+			}
+			findings.push({
+				rule: "spelling",
+				offset: token.offset + part.index,
+				length: part[0].length,
+				text: part[0],
+				suggestions: spellChecker
+					.suggest(word)
+					.slice(0, MAX_SPELLING_SUGGESTIONS),
+				params: { word: part[0] },
+			});
+		}
+	}
+}
+
+function checkRepeatedWords(
+	text: string,
+	tokens: ReadonlyArray<Token>,
+	findings: TextFinding[],
+): void {
+	tokens.forEach((token, index) => {
+		const previous = tokens[index - 1];
+		if (
+			previous?.word &&
+			token.word &&
+			!previous.closesPhrase &&
+			previous.lower === token.lower
+		) {
+			findings.push({
+				rule: "repeated-word",
+				...spanOf(text, previous, token),
+				suggestions: [previous.text],
+				params: { word: token.text },
+			});
+		}
+	});
+}
+
+function checkFirstPerson(
+	tokens: ReadonlyArray<Token>,
+	{ rules }: TextContext,
+	findings: TextFinding[],
+): void {
+	for (const token of tokens) {
+		// "US" is a country, "I" the only pronoun written in capitals
+		const capitals =
+			token.text.length > 1 && token.text === token.text.toUpperCase();
+		if (token.word && !capitals && rules.firstPerson.has(token.lower)) {
+			findings.push({
+				rule: "first-person",
+				offset: token.offset,
+				length: token.text.length,
+				text: token.text,
+				suggestions: [],
+				params: { word: token.text },
+			});
+		}
+	}
+}
+
+function checkPassiveVoice(
+	text: string,
+	tokens: ReadonlyArray<Token>,
+	{ rules }: TextContext,
+	findings: TextFinding[],
+): void {
+	tokens.forEach((auxiliary, index) => {
+		if (!auxiliary.word || auxiliary.closesPhrase) return;
+		if (!rules.passiveAuxiliaries.has(auxiliary.lower)) return;
+		let next = tokens[index + 1];
+		// An adverb may sit in between: "was successfully delivered"
+		if (next?.word && /..ly$|..mente$/.test(next.lower) && !next.closesPhrase) {
+			next = tokens[index + 2];
+		}
+		if (!next?.word || rules.adjectives.has(next.lower)) return;
+		if (
+			rules.irregularParticiples.has(next.lower) ||
+			rules.participleSuffix.test(next.lower)
+		) {
+			const span = spanOf(text, auxiliary, next);
+			findings.push({
+				rule: "passive-voice",
+				...span,
+				suggestions: [],
+				params: { phrase: span.text },
+			});
+		}
+	});
+}
+
+function checkWeakVerbs(
+	text: string,
+	tokens: ReadonlyArray<Token>,
+	{ rules }: TextContext,
+	findings: TextFinding[],
+): void {
+	tokens.forEach((token, index) => {
+		for (const [phrase, replacements] of rules.weakVerbs) {
+			const words = tokens.slice(index, index + phrase.length);
+			const matches =
+				words.length === phrase.length &&
+				words.every(
+					(word, position) =>
+						word.lower === phrase[position] &&
+						(position === phrase.length - 1 || !word.closesPhrase),
+				);
+			if (!matches) continue;
+			const last = words[words.length - 1] ?? token;
+			const span = spanOf(text, token, last);
+			findings.push({
+				rule: "weak-verb",
+				...span,
+				suggestions: replacements.map((replacement) =>
+					matchCase(token.text, replacement),
+				),
+				params: { phrase: span.text },
+			});
+			return;
+		}
+	});
+}
+
+/**
+ * Checks that an achievement starts with a verb in the tense of its role:
+ * present for the current role, past for the ones that ended.
+ */
+function checkTense(
+	tokens: ReadonlyArray<Token>,
+	{ rules, tense }: TextContext,
+	findings: TextFinding[],
+): void {
+	const [first, second] = tokens;
+	if (!tense || !first?.word) return;
+	if (second && rules.nounMarkers.has(second.lower)) return;
+
+	const presentVerb = rules.verbs.find(([present]) =>
+		rules.presentEndings.some((ending) => first.lower === present + ending),
+	);
+	const pastVerb = rules.verbs.find(([, past]) => first.lower === past);
+
+	if (tense === "past" && presentVerb) {
+		findings.push({
+			rule: "tense",
+			offset: first.offset,
+			length: first.text.length,
+			text: first.text,
+			suggestions: [matchCase(first.text, presentVerb[1])],
+			params: { word: first.text, expected: "past" },
+		});
+	} else if (
+		tense === "present" &&
+		(pastVerb ||
+			(rules.pastSuffix.test(first.lower) &&
+				!rules.adjectives.has(first.lower)))
+	) {
+		findings.push({
+			rule: "tense",
+			offset: first.offset,
+			length: first.text.length,
+			text: first.text,
+			suggestions: pastVerb ? [matchCase(first.text, pastVerb[0])] : [],
+			params: { word: first.text, expected: "present" },
+		});
+	}
+}
+
+function lintText(text: string, context: TextContext): TextFinding[] {
+	const tokens = tokenizeProse(text);
+	const findings: TextFinding[] = [];
+	checkSpelling(tokens, context, findings);
+	checkRepeatedWords(text, tokens, findings);
+	checkTense(tokens, context, findings);
+	checkPassiveVoice(text, tokens, context, findings);
+	checkFirstPerson(tokens, context, findings);
+	checkWeakVerbs(text, tokens, context, findings);
+	return findings.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Proofreads the free-text fields of a resume.
+ *
+ * Linting is local and deterministic: misspelled words are looked up in the
+ * dictionary of the locale (words the user added and names used elsewhere in
+ * the resume are accepted), and style rules flag repeated words, passive
+ * voice, first-person pronouns, weak verbs and achievements written in a
+ * tense other than the one of their role.
+ *
+ * @param resume - The resume to proofread
+ * @param options - Locale, dictionary and custom words
+ * @returns The findings in document order and their count per rule
+ */
+export function lintResume(resume: Resume, options: LintOptions): LintReport {
+	const knownWords = resumeVocabulary(resume);
+	for (const word of options.customWords ?? []) {
+		knownWords.add(word.toLowerCase());
+	}
+	const rules = STYLE_RULES[options.locale];
+	const counts = Object.fromEntries(
+		LINT_RULES.map((rule) => [rule, 0]),
+	) as Record<LintRule, number>;
+	const findings: LintFinding[] = [];
+
+	for (const field of proseFields(resume)) {
+		const context: TextContext = {
+			rules,
+			spellChecker: options.spellChecker ?? null,
+			knownWords,
+			tense: field.tense,
+		};
+		for (const finding of lintText(field.text, context)) {
+			counts[finding.rule]++;
+			findings.push({
+				...finding,
+				id: `${finding.rule}:${field.path}:${finding.offset}`,
+				severity: LINT_SEVERITY[finding.rule],
+				section: field.section,
+				entryIndex: field.entryIndex,
+				path: field.path,
+			});
+		}
+	}
+
+	return { findings, counts };
+}
+
+/**
+ * Replaces the text a finding flags with one of its suggestions.
+ *
+ * @returns The new field value, or the value unchanged when the flagged text moved
+ */
+export function applySuggestion(
+	value: string,
+	finding: Pick<LintFinding, "offset" | "length" | "text">,
+	suggestion: string,
+): string {
+	if (
+		value.slice(finding.offset, finding.offset + finding.length) !==
+		finding.text
+	) {
+		return value;
+	}
+	return (
+		value.slice(0, finding.offset) +
+		suggestion +
+		value.slice(finding.offset + finding.length)
+	);
+}
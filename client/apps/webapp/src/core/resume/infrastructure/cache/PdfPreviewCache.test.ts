@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { PdfPreviewCache, pdfPreviewKey } from "./PdfPreviewCache";
+
+describe("pdfPreviewKey", () => {
+	const input = () => ({
+		resume: createTestResume(),
+		templateId: "engineering",
+		params: { colorPalette: "blue", fontFamily: "Roboto" },
+		locale: "en",
+	});
+
+	it("should return the same key for equal inputs", () => {
+		expect(pdfPreviewKey(input())).toBe(pdfPreviewKey(input()));
+	});
+
+	it("should ignore the order of params", () => {
+		expect(
+			pdfPreviewKey({
+				...input(),
+				params: { fontFamily: "Roboto", colorPalette: "blue" },
+			}),
+		).toBe(pdfPreviewKey(input()));
+	});
+
+	it("should change when the resume, template, params or locale change", () => {
+		const base = pdfPreviewKey(input());
+		const edited = input();
+		edited.resume.basics.name = "Someone Else";
+
+		expect(pdfPreviewKey(edited)).not.toBe(base);
+		expect(pdfPreviewKey({ ...input(), templateId: "classic" })).not.toBe(base);
+		expect(pdfPreviewKey({ ...input(), params: {} })).not.toBe(base);
+		expect(pdfPreviewKey({ ...input(), locale: "es" })).not.toBe(base);
+	});
+});
+
+describe("PdfPreviewCache", () => {
+	let urls: number;
+
+	beforeEach(() => {
+		urls = 0;
+		vi.spyOn(URL, "createObjectURL").mockImplementation(
+			() => `blob:preview-${++urls}`,
+		);
+		vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const pdf = (content: string) =>
+		new Blob([content], { type: "application/pdf" });
+
+	it("should store blobs with an object URL", () => {
+		const cache = new PdfPreviewCache(2);
+		const blob = pdf("a");
+
+		const entry = cache.set("a", blob);
+
+		expect(entry).toEqual({ blob, url: "blob:preview-1" });
+		expect(cache.get("a")).toBe(entry);
+		expect(cache.get("missing")).toBeUndefined();
+	});
+
+	it("should evict the least recently used entry", () => {
+		const cache = new PdfPreviewCache(2);
+		cache.set("a", pdf("a"));
+		cache.set("b", pdf("b"));
+		cache.get("a");
+
+		cache.set("c", pdf("c"));
+
+		expect(cache.size).toBe(2);
+		expect(cache.get("b")).toBeUndefined();
+		expect(cache.get("a")).toBeDefined();
+		expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:preview-2");
+	});
+
+	it("should revoke the URL of a replaced entry", () => {
+		const cache = new PdfPreviewCache(2);
+		cache.set("a", pdf("a"));
+
+		cache.set("a", pdf("a2"));
+
+		expect(cache.size).toBe(1);
+		expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:preview-1");
+	});
+
+	it("should revoke every URL on clear", () => {
+		const cache = new PdfPreviewCache(2);
+		cache.set("a", pdf("a"));
+		cache.set("b", pdf("b"));
+
+		cache.clear();
+
+		expect(cache.size).toBe(0);
+		expect(URL.revokeObjectURL).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,126 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams";
+
+/**
+ * Everything that changes the generated PDF. The resume is the one sent to the
+ * generator, so section visibility and variants are already applied to it.
+ */
+export interface PdfPreviewInput {
+	resume: Resume;
+	templateId: string;
+	params: TemplateParamValues;
+	locale: string;
+}
+
+/**
+ * A cached PDF and the object URL the preview displays.
+ */
+export interface PdfPreviewEntry {
+	blob: Blob;
+	url: string;
+}
+
+// JSON with sorted object keys, so equal inputs always serialize the same way
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+			)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Content hash of a preview input (53-bit cyrb53, as hex).
+ *
+ * @param input - The generator input
+ * @returns A key that only changes when the generated PDF would change
+ */
+export function pdfPreviewKey(input: PdfPreviewInput): string {
+	const text = stableStringify(input);
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ char, 2654435761);
+		h2 = Math.imul(h2 ^ char, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Least-recently-used cache of generated PDFs.
+ *
+ * Each entry owns an object URL, revoked when the entry is evicted or the
+ * cache is cleared.
+ *
+ * @example
+ * ```typescript
+ * const cache = new PdfPreviewCache(8);
+ * const key = pdfPreviewKey({ resume, templateId, params, locale });
+ * const entry = cache.get(key) ?? cache.set(key, await generate());
+ * ```
+ */
+export class PdfPreviewCache {
+	private readonly entries = new Map<string, PdfPreviewEntry>();
+
+	constructor(private readonly capacity = 8) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Gets an entry and marks it as the most recently used.
+	 */
+	get(key: string): PdfPreviewEntry | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	/**
+	 * Stores a PDF, evicting the least recently used entries over capacity.
+	 *
+	 * @returns The stored entry
+	 */
+	set(key: string, blob: Blob): PdfPreviewEntry {
+		const existing = this.entries.get(key);
+		if (existing) {
+			this.entries.delete(key);
+			URL.revokeObjectURL(existing.url);
+		}
+		const entry: PdfPreviewEntry = { blob, url: URL.createObjectURL(blob) };
+		this.entries.set(key, entry);
+		// Map iteration follows insertion order: oldest first
+		for (const [oldestKey, oldest] of this.entries) {
+			if (this.entries.size <= this.capacity) break;
+			this.entries.delete(oldestKey);
+			URL.revokeObjectURL(oldest.url);
+		}
+		return entry;
+	}
+
+	/**
+	 * Removes every entry and revokes their URLs.
+	 */
+	clear(): void {
+		for (const entry of this.entries.values()) {
+			URL.revokeObjectURL(entry.url);
+		}
+		this.entries.clear();
+	}
+}
@@ -0,0 +1,10 @@
+/**
+ * Infrastructure layer exports for caching generated documents.
+ */
+
+export {
+	PdfPreviewCache,
+	type PdfPreviewEntry,
+	type PdfPreviewInput,
+	pdfPreviewKey,
+} from "./PdfPreviewCache";
@@ -1,5 +1,10 @@
 export {
+	COVER_LETTER_GENERATOR_KEY,
+	COVER_LETTER_REPOSITORY_KEY,
 	RESUME_GENERATOR_KEY,
+	RESUME_HISTORY_KEY,
 	RESUME_STORAGE_KEY,
 	RESUME_VALIDATOR_KEY,
+	RESUME_VARIANT_KEY,
+	SPELL_CHECKER_KEY,
 } from "./keys.ts";
@@ -1,7 +1,14 @@
 import type { InjectionKey } from "vue";
+import type {
+	CoverLetterGenerator,
+	CoverLetterRepository,
+} from "@/core/resume/domain/CoverLetter.ts";
 import type { ResumeGenerator } from "@/core/resume/domain/ResumeGenerator.ts";
+import type { ResumeHistoryRepository } from "@/core/resume/domain/ResumeSnapshot.ts";
 import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage.ts";
 import type { ResumeValidator } from "@/core/resume/domain/ResumeValidator.ts";
+import type { ResumeVariantRepository } from "@/core/resume/domain/ResumeVariant.ts";
+import type { SpellCheckerProvider } from "@/core/resume/domain/TextLint.ts";
 
 /**
  * Injection key for the Resume Validator.
@@ -47,3 +54,85 @@ export const RESUME_GENERATOR_KEY: InjectionKey<ResumeGenerator> =
  */
 export const RESUME_STORAGE_KEY: InjectionKey<ResumeStorage> =
 	Symbol("ResumeStorage");
+
+/**
+ * Injection key for the Resume History Repository.
+ * Used to provide/inject the snapshot repository instance across the application.
+ * When not provided, the repository is derived from the active storage type.
+ *
+ * @example
+ * // In main.ts or app setup
+ * app.provide(RESUME_HISTORY_KEY, new IndexedDBResumeHistoryRepository());
+ *
+ * @example
+ * // In a component or composable
+ * const history = inject(RESUME_HISTORY_KEY);
+ */
+export const RESUME_HISTORY_KEY: InjectionKey<ResumeHistoryRepository> = Symbol(
+	"ResumeHistoryRepository",
+);
+
+/**
+ * Injection key for the Resume Variant Repository.
+ * Used to provide/inject the tailored variant repository across the application.
+ * When not provided, variants are kept in localStorage.
+ *
+ * @example
+ * // In main.ts or app setup
+ * app.provide(RESUME_VARIANT_KEY, new LocalStorageResumeVariantRepository());
+ *
+ * @example
+ * // In a component or composable
+ * const variants = inject(RESUME_VARIANT_KEY);
+ */
+export const RESUME_VARIANT_KEY: InjectionKey<ResumeVariantRepository> = Symbol(
+	"ResumeVariantRepository",
+);
+
+/**
+ * Injection key for the Cover Letter Repository.
+ * Used to provide/inject the cover letter repository across the application.
+ * When not provided, the repository is derived from the user's storage preference.
+ *
+ * @example
+ * // In main.ts or app setup
+ * app.provide(COVER_LETTER_REPOSITORY_KEY, new IndexedDBCoverLetterRepository());
+ *
+ * @example
+ * // In a component or composable
+ * const letters = inject(COVER_LETTER_REPOSITORY_KEY);
+ */
+export const COVER_LETTER_REPOSITORY_KEY: InjectionKey<CoverLetterRepository> =
+	Symbol("CoverLetterRepository");
+
+/**
+ * Injection key for the Cover Letter Generator.
+ * Used to provide/inject the cover letter PDF generator across the application.
+ *
+ * @example
+ * // In main.ts or app setup
+ * app.provide(COVER_LETTER_GENERATOR_KEY, new PdfCoverLetterGenerator());
+ *
+ * @example
+ * // In a component or composable
+ * const generator = inject(COVER_LETTER_GENERATOR_KEY);
+ */
+export const COVER_LETTER_GENERATOR_KEY: InjectionKey<CoverLetterGenerator> =
+	Symbol("CoverLetterGenerator");
+
+/**
+ * Injection key for the Spell Checker Provider.
+ * Used to provide/inject the dictionaries the resume text is proofread with.
+ * When not provided, the bundled Hunspell dictionaries are used.
+ *
+ * @example
+ * // In main.ts or app setup
+ * app.provide(SPELL_CHECKER_KEY, new HunspellSpellCheckerProvider());
+ *
+ * @example
+ * // In a component or composable
+ * const spelling = inject(SPELL_CHECKER_KEY);
+ */
+export const SPELL_CHECKER_KEY: InjectionKey<SpellCheckerProvider> = Symbol(
+	"SpellCheckerProvider",
+);
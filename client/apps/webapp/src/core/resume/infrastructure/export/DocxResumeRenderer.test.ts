@@ -0,0 +1,100 @@
+import { unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { extractDocxText } from "../import/DocumentTextExtractor";
+import {
+	exportOptions,
+	spanishExportOptions,
+} from "./__fixtures__/export-options";
+import { DocxResumeRenderer, escapeXml } from "./DocxResumeRenderer";
+
+describe("DocxResumeRenderer", () => {
+	const renderer = new DocxResumeRenderer();
+	const decoder = new TextDecoder();
+
+	const part = (docx: Uint8Array, name: string) => {
+		const entry = unzipSync(docx)[name];
+		if (!entry) throw new Error(`${name} is missing`);
+		return new DOMParser().parseFromString(
+			decoder.decode(entry),
+			"application/xml",
+		);
+	};
+
+	it("should package a Word document with its styles and numbering", () => {
+		const docx = renderer.render(createTestResume(), exportOptions);
+
+		expect(Object.keys(unzipSync(docx)).sort()).toEqual([
+			"[Content_Types].xml",
+			"_rels/.rels",
+			"docProps/core.xml",
+			"word/_rels/document.xml.rels",
+			"word/document.xml",
+			"word/numbering.xml",
+			"word/styles.xml",
+		]);
+		for (const name of Object.keys(unzipSync(docx))) {
+			expect(part(docx, name).getElementsByTagName("parsererror")).toHaveLength(
+				0,
+			);
+		}
+	});
+
+	it("should write the resume as headings, paragraphs and bullet lists", () => {
+		const lines = extractDocxText(
+			renderer.render(createTestResume(), exportOptions),
+		);
+
+		expect(lines.slice(0, 8)).toEqual([
+			"John Doe",
+			"Software Engineer",
+			"john@example.com | +1-555-0100 | johndoe.com | 123 Main St, 12345 San Francisco, CA, US | GitHub: johndoe | LinkedIn: johndoe",
+			"Summary",
+			"Experienced software engineer",
+			"Work Experience",
+			"Senior Developer, Company A",
+			"Jan 2020 – Dec 2022 | companya.com",
+		]);
+		expect(lines).toContain("• Achievement 1");
+		expect(lines).toContain("• JavaScript (Expert): ES6, Node.js");
+	});
+
+	it("should link URLs through external relationships", () => {
+		const docx = renderer.render(createTestResume(), exportOptions);
+		const relationships = Array.from(
+			part(docx, "word/_rels/document.xml.rels").getElementsByTagName(
+				"Relationship",
+			),
+		);
+		const hyperlinks = part(docx, "word/document.xml").getElementsByTagName(
+			"w:hyperlink",
+		);
+
+		const targets = relationships
+			.filter((relationship) => relationship.getAttribute("TargetMode"))
+			.map((relationship) => relationship.getAttribute("Target"));
+		expect(targets).toContain("https://github.com/johndoe");
+		expect(targets).toContain("https://companya.com");
+		expect(hyperlinks).toHaveLength(targets.length);
+	});
+
+	it("should tag the document language", () => {
+		const docx = renderer.render(createTestResume(), spanishExportOptions);
+
+		expect(
+			part(docx, "word/styles.xml")
+				.getElementsByTagName("w:lang")[0]
+				?.getAttribute("w:val"),
+		).toBe("es");
+		expect(
+			part(docx, "docProps/core.xml").getElementsByTagName("dc:language")[0]
+				?.textContent,
+		).toBe("es");
+	});
+
+	it("should escape XML and drop control characters", () => {
+		expect(escapeXml('Tom & "Jerry" <3\u0007')).toBe(
+			"Tom &amp; &quot;Jerry&quot; &lt;3",
+		);
+	});
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	exportOptions,
+	spanishExportOptions,
+} from "./__fixtures__/export-options";
+import {
+	buildExportDocument,
+	compactText,
+	formatExportDate,
+	safeUrl,
+} from "./ExportDocument";
+
+describe("ExportDocument", () => {
+	describe("formatExportDate", () => {
+		it.each([
+			["2021-03", "en", "Mar 2021"],
+			["2021-03-15", "en", "Mar 2021"],
+			["2021-01", "es", "ene 2021"],
+			["2021", "en", "2021"],
+			["", "en", ""],
+			["Spring 2020", "en", "Spring 2020"],
+		])("should format %j for %s as %j", (value, locale, expected) => {
+			expect(formatExportDate(value, locale)).toBe(expected);
+		});
+	});
+
+	describe("safeUrl", () => {
+		it.each([
+			["https://example.com", "https://example.com"],
+			["mailto:jane@example.com", "mailto:jane@example.com"],
+			["example.com/jane", "https://example.com/jane"],
+			["localhost:3000", "https://localhost:3000"],
+			["javascript:alert(1)", ""],
+			["  ", ""],
+		])("should turn %j into %j", (url, expected) => {
+			expect(safeUrl(url)).toBe(expected);
+		});
+	});
+
+	describe("buildExportDocument", () => {
+		it("should lay out the header from the basics", () => {
+			const document = buildExportDocument(createTestResume(), exportOptions);
+
+			expect(document.name).toBe("John Doe");
+			expect(document.label).toBe("Software Engineer");
+			expect(document.summary).toBe("Experienced software engineer");
+			expect(document.contact).toEqual([
+				{
+					label: "",
+					text: "john@example.com",
+					url: "mailto:john@example.com",
+				},
+				{ label: "", text: "+1-555-0100", url: "" },
+				{ label: "", text: "johndoe.com", url: "https://johndoe.com" },
+				{
+					label: "",
+					text: "123 Main St, 12345 San Francisco, CA, US",
+					url: "",
+				},
+				{
+					label: "GitHub",
+					text: "johndoe",
+					url: "https://github.com/johndoe",
+				},
+				{
+					label: "LinkedIn",
+					text: "johndoe",
+					url: "https://linkedin.com/in/johndoe",
+				},
+			]);
+		});
+
+		it("should keep the section order of the PDF templates", () => {
+			const document = buildExportDocument(createTestResume(), exportOptions);
+
+			expect(document.sections.map((section) => section.type)).toEqual([
+				"work",
+				"education",
+				"skills",
+				"projects",
+				"certificates",
+				"volunteer",
+				"awards",
+				"publications",
+				"languages",
+				"interests",
+				"references",
+			]);
+		});
+
+		it("should format entries with localized dates and labels", () => {
+			const document = buildExportDocument(
+				createTestResume(),
+				spanishExportOptions,
+			);
+			const [work, education, , , , volunteer] = document.sections;
+
+			expect(work?.title).toBe("Experiencia laboral");
+			expect(work?.entries[0]).toEqual({
+				title: "Senior Developer",
+				subtitle: "Company A",
+				dates: ["ene 2020", "dic 2022"],
+				url: "https://companya.com",
+				text: "Led development team",
+				details: [],
+				bullets: ["Achievement 1", "Achievement 2"],
+			});
+			expect(education?.entries[0]).toMatchObject({
+				subtitle: "Bachelor, Computer Science",
+				details: ["Nota media: 3.8", "Cursos: CS101, CS201"],
+			});
+			expect(volunteer?.entries[0]?.dates).toEqual(["ene 2020", "Actualidad"]);
+		});
+
+		it("should leave out empty sections and entries", () => {
+			const document = buildExportDocument(
+				createTestResume({
+					work: [
+						{
+							name: "",
+							position: "",
+							url: "",
+							startDate: "",
+							endDate: "",
+							summary: "",
+							highlights: [""],
+						},
+					],
+					references: [],
+				}),
+				exportOptions,
+			);
+
+			const types = document.sections.map((section) => section.type);
+			expect(types).not.toContain("work");
+			expect(types).not.toContain("references");
+		});
+
+		it("should mark skills, languages and interests as compact", () => {
+			const document = buildExportDocument(createTestResume(), exportOptions);
+			const skills = document.sections.find(
+				(section) => section.type === "skills",
+			);
+
+			expect(skills?.compact).toBe(true);
+			expect(skills?.entries.map(compactText)).toEqual([
+				"JavaScript (Expert): ES6, Node.js",
+				"TypeScript (Advanced): Types, Interfaces",
+				"Python (Intermediate): Django, Flask",
+			]);
+		});
+	});
+});
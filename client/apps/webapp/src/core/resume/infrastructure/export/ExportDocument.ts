@@ -0,0 +1,324 @@
+import type { Basics, Resume } from "@/core/resume/domain/Resume";
+import type { ExportOptions } from "@/core/resume/domain/ResumeExport";
+import {
+	type ArraySectionType,
+	SECTION_TYPES,
+} from "@/core/resume/domain/SectionVisibility";
+
+/**
+ * A piece of text that may link somewhere (contact details, profiles, entry URLs).
+ */
+export interface ExportLink {
+	/** What the text is, when it is not obvious (the network of a profile) */
+	label: string;
+	text: string;
+	/** Target of the link, empty when the text is not a link */
+	url: string;
+}
+
+/**
+ * A single item of a section, reduced to the parts every format can lay out.
+ */
+export interface ExportEntry {
+	/** Main line (position, institution, certificate name...) */
+	title: string;
+	/** Secondary line (company, degree, issuer...) */
+	subtitle: string;
+	/** Formatted dates: none, a single date, or the start and end of a range */
+	dates: ReadonlyArray<string>;
+	url: string;
+	/** Free text (summary, description, keywords) */
+	text: string;
+	/** Labelled extras such as the education score */
+	details: ReadonlyArray<string>;
+	bullets: ReadonlyArray<string>;
+}
+
+export interface ExportSection {
+	type: ArraySectionType;
+	title: string;
+	/** Entries of compact sections fit on a single line each (skills, languages...) */
+	compact: boolean;
+	entries: ReadonlyArray<ExportEntry>;
+}
+
+/**
+ * Format-neutral layout of a resume shared by every renderer, so all formats
+ * agree on section order, date formatting and which entries are shown.
+ */
+export interface ExportDocument {
+	name: string;
+	label: string;
+	contact: ReadonlyArray<ExportLink>;
+	summary: string;
+	sections: ReadonlyArray<ExportSection>;
+}
+
+const COMPACT_SECTIONS: ReadonlySet<ArraySectionType> = new Set([
+	"skills",
+	"languages",
+	"interests",
+]);
+
+const DATE_REGEX = /^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/;
+
+/**
+ * Formats an ISO 8601 resume date (YYYY, YYYY-MM or YYYY-MM-DD) for the locale.
+ * Days are dropped, as resumes only show months. Unrecognised values are kept as they are.
+ */
+export function formatExportDate(value: string, locale: string): string {
+	const match = DATE_REGEX.exec(value.trim());
+	if (!match) return value.trim();
+	const [, year, month] = match;
+	if (!month) return year ?? "";
+	return new Intl.DateTimeFormat(locale, {
+		month: "short",
+		year: "numeric",
+		timeZone: "UTC",
+	}).format(Date.UTC(Number(year), Number(month) - 1));
+}
+
+function dateRange(
+	startDate: string,
+	endDate: string,
+	options: ExportOptions,
+): string[] {
+	const start = formatExportDate(startDate, options.locale);
+	const end = formatExportDate(endDate, options.locale);
+	if (!start) return end ? [end] : [];
+	return [start, end || options.labels.present];
+}
+
+function singleDate(date: string, options: ExportOptions): string[] {
+	const formatted = formatExportDate(date, options.locale);
+	return formatted ? [formatted] : [];
+}
+
+function joinFilled(values: ReadonlyArray<string>, separator: string): string {
+	return values
+		.map((value) => value.trim())
+		.filter(Boolean)
+		.join(separator);
+}
+
+function entry(parts: Partial<ExportEntry>): ExportEntry {
+	return {
+		title: parts.title?.trim() ?? "",
+		subtitle: parts.subtitle?.trim() ?? "",
+		dates: parts.dates ?? [],
+		url: safeUrl(parts.url ?? ""),
+		text: parts.text?.trim() ?? "",
+		details: parts.details ?? [],
+		bullets: (parts.bullets ?? [])
+			.map((bullet) => bullet.trim())
+			.filter(Boolean),
+	};
+}
+
+function hasContent(item: ExportEntry): boolean {
+	return Boolean(
+		item.title || item.subtitle || item.text || item.bullets.length,
+	);
+}
+
+function contactOf(basics: Basics): ExportLink[] {
+	const website = safeUrl(basics.url);
+	const location = basics.location
+		? joinFilled(
+				[
+					basics.location.address,
+					joinFilled([basics.location.postalCode, basics.location.city], " "),
+					basics.location.region,
+					basics.location.countryCode,
+				],
+				", ",
+			)
+		: "";
+
+	return [
+		{
+			label: "",
+			text: basics.email,
+			url: basics.email ? `mailto:${basics.email}` : "",
+		},
+		{ label: "", text: basics.phone, url: "" },
+		{ label: "", text: website ? displayUrl(website) : "", url: website },
+		{ label: "", text: location, url: "" },
+		...basics.profiles.map((profile) => ({
+			label: profile.network.trim(),
+			text: profile.username.trim() || displayUrl(profile.url),
+			url: safeUrl(profile.url),
+		})),
+	].filter((link) => link.text.trim() !== "");
+}
+
+/**
+ * Returns a URL that is safe to link to from an exported document.
+ * Bare domains get an https scheme and anything other than web or mail links is dropped.
+ */
+export function safeUrl(url: string): string {
+	const trimmed = url.trim();
+	if (!trimmed) return "";
+	if (/^(https?:\/\/|mailto:)/i.test(trimmed)) return trimmed;
+	if (/^[a-z][a-z\d+.-]*:(?!\d)/i.test(trimmed)) return "";
+	return `https://${trimmed}`;
+}
+
+/**
+ * Shortens a URL for display by dropping the protocol and trailing slash.
+ */
+export function displayUrl(url: string): string {
+	return url
+		.trim()
+		.replace(/^https?:\/\//i, "")
+		.replace(/\/$/, "");
+}
+
+/**
+ * Builds the entries of every section, in resume section order.
+ */
+function entriesOf(
+	resume: Resume,
+	options: ExportOptions,
+): Record<ArraySectionType, ExportEntry[]> {
+	const { labels } = options;
+	return {
+		work: resume.work.map((work) =>
+			entry({
+				title: work.position,
+				subtitle: work.name,
+				dates: dateRange(work.startDate, work.endDate, options),
+				url: work.url,
+				text: work.summary,
+				bullets: [...work.highlights],
+			}),
+		),
+		education: resume.education.map((education) =>
+			entry({
+				title: education.institution,
+				subtitle: joinFilled([education.studyType, education.area], ", "),
+				dates: dateRange(education.startDate, education.endDate, options),
+				url: education.url,
+				details: [
+					education.score ? `${labels.score}: ${education.score}` : "",
+					education.courses.length > 0
+						? `${labels.courses}: ${joinFilled(education.courses, ", ")}`
+						: "",
+				].filter(Boolean),
+			}),
+		),
+		skills: resume.skills.map((skill) =>
+			entry({
+				title: skill.name,
+				subtitle: skill.level,
+				text: joinFilled(skill.keywords, ", "),
+			}),
+		),
+		projects: resume.projects.map((project) =>
+			entry({
+				title: project.name,
+				dates: dateRange(project.startDate, project.endDate, options),
+				url: project.url,
+				text: project.description,
+				bullets: [...project.highlights],
+			}),
+		),
+		certificates: resume.certificates.map((certificate) =>
+			entry({
+				title: certificate.name,
+				subtitle: certificate.issuer,
+				dates: singleDate(certificate.date, options),
+				url: certificate.url,
+			}),
+		),
+		volunteer: resume.volunteer.map((volunteer) =>
+			entry({
+				title: volunteer.position,
+				subtitle: volunteer.organization,
+				dates: dateRange(volunteer.startDate, volunteer.endDate, options),
+				url: volunteer.url,
+				text: volunteer.summary,
+				bullets: [...volunteer.highlights],
+			}),
+		),
+		awards: resume.awards.map((award) =>
+			entry({
+				title: award.title,
+				subtitle: award.awarder,
+				dates: singleDate(award.date, options),
+				text: award.summary,
+			}),
+		),
+		publications: resume.publications.map((publication) =>
+			entry({
+				title: publication.name,
+				subtitle: publication.publisher,
+				dates: singleDate(publication.releaseDate, options),
+				url: publication.url,
+				text: publication.summary,
+			}),
+		),
+		languages: resume.languages.map((language) =>
+			entry({ title: language.language, subtitle: language.fluency }),
+		),
+		interests: resume.interests.map((interest) =>
+			entry({
+				title: interest.name,
+				text: joinFilled(interest.keywords, ", "),
+			}),
+		),
+		references: resume.references.map((reference) =>
+			entry({ title: reference.name, text: reference.reference }),
+		),
+	};
+}
+
+/**
+ * Lays out a resume for export.
+ *
+ * Sections follow SECTION_TYPES, the order of the PDF templates, and empty sections and
+ * entries are left out, so hidden content never leaves blank headings behind.
+ *
+ * @param resume - The resume to lay out, already filtered by section visibility
+ * @param options - Locale and labels of the document
+ * @returns The format-neutral document
+ */
+export function buildExportDocument(
+	resume: Resume,
+	options: ExportOptions,
+): ExportDocument {
+	const entries = entriesOf(resume, options);
+
+	return {
+		name: resume.basics.name.trim(),
+		label: resume.basics.label.trim(),
+		contact: contactOf(resume.basics),
+		summary: resume.basics.summary.trim(),
+		sections: SECTION_TYPES.filter(
+			(type): type is ArraySectionType => type !== "personalDetails",
+		)
+			.map((type) => ({
+				type,
+				title: options.labels.sections[type],
+				compact: COMPACT_SECTIONS.has(type),
+				entries: entries[type].filter(hasContent),
+			}))
+			.filter((section) => section.entries.length > 0),
+	};
+}
+
+/**
+ * Single-line text of an entry in a compact section,
+ * e.g. "Frontend (Advanced): Vue, TypeScript" or "Spanish (Native)".
+ */
+export function compactText(item: ExportEntry): string {
+	const title = item.subtitle ? `${item.title} (${item.subtitle})` : item.title;
+	return joinFilled([title, item.text], ": ");
+}
+
+/**
+ * Heading line of an entry, e.g. "Senior Engineer, Acme Corp".
+ */
+export function headingText(item: ExportEntry, separator = ", "): string {
+	return joinFilled([item.title, item.subtitle], separator);
+}
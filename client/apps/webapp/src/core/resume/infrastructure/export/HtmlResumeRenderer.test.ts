@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	exportOptions,
+	spanishExportOptions,
+} from "./__fixtures__/export-options";
+import { HtmlResumeRenderer } from "./HtmlResumeRenderer";
+
+describe("HtmlResumeRenderer", () => {
+	const renderer = new HtmlResumeRenderer();
+
+	const parse = (html: string) =>
+		new DOMParser().parseFromString(html, "text/html");
+
+	it("should render a standalone document in the export locale", () => {
+		const html = renderer.render(createTestResume(), spanishExportOptions);
+		const document = parse(html);
+
+		expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+		expect(document.documentElement.lang).toBe("es");
+		expect(document.title).toBe("John Doe");
+		expect(document.querySelector("style")).not.toBeNull();
+		expect(document.querySelector("link, script")).toBeNull();
+		expect(
+			Array.from(document.querySelectorAll("h2")).map((h2) => h2.textContent),
+		).toEqual([
+			"Resumen",
+			"Experiencia laboral",
+			"Educación",
+			"Habilidades",
+			"Proyectos",
+			"Certificados",
+			"Voluntariado",
+			"Premios",
+			"Publicaciones",
+			"Idiomas",
+			"Intereses",
+			"Referencias",
+		]);
+		expect(document.querySelector(".dates")?.textContent).toBe(
+			"ene 2020 – dic 2022",
+		);
+	});
+
+	it("should link contact details and profiles", () => {
+		const document = parse(renderer.render(createTestResume(), exportOptions));
+
+		expect(
+			Array.from(document.querySelectorAll(".contact a")).map((a) => [
+				a.textContent,
+				a.getAttribute("href"),
+			]),
+		).toEqual([
+			["john@example.com", "mailto:john@example.com"],
+			["johndoe.com", "https://johndoe.com"],
+			["GitHub: johndoe", "https://github.com/johndoe"],
+			["LinkedIn: johndoe", "https://linkedin.com/in/johndoe"],
+		]);
+	});
+
+	it("should escape user content and drop unsafe links", () => {
+		const html = renderer.render(
+			createTestResume({
+				basics: {
+					...createTestResume().basics,
+					name: '<img src=x onerror="alert(1)">',
+					url: "javascript:alert(1)",
+				},
+			}),
+			exportOptions,
+		);
+		const document = parse(html);
+
+		expect(document.querySelector("img")).toBeNull();
+		expect(document.querySelector("h1")?.textContent).toBe(
+			'<img src=x onerror="alert(1)">',
+		);
+		expect(html).not.toContain("javascript:");
+	});
+});
@@ -0,0 +1,144 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ExportOptions,
+	ResumeRenderer,
+} from "@/core/resume/domain/ResumeExport";
+import {
+	buildExportDocument,
+	compactText,
+	displayUrl,
+	type ExportEntry,
+	type ExportLink,
+} from "./ExportDocument";
+
+const STYLES = `
+body { margin: 0; background: #f4f4f5; color: #18181b; font: 15px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 800px; margin: 2rem auto; padding: 3rem; background: #fff; box-shadow: 0 1px 3px rgb(0 0 0 / 0.1); }
+h1 { margin: 0; font-size: 2rem; }
+h2 { margin: 2rem 0 0.75rem; padding-bottom: 0.25rem; border-bottom: 1px solid #e4e4e7; font-size: 1.1rem; text-transform: uppercase; letter-spacing: 0.05em; }
+h3 { margin: 0; font-size: 1rem; }
+p { margin: 0.25rem 0; }
+ul { margin: 0.25rem 0; padding-left: 1.25rem; }
+a { color: #2563eb; }
+.label { margin-top: 0.25rem; font-size: 1.1rem; color: #52525b; }
+.contact { margin-top: 0.5rem; padding: 0; list-style: none; display: flex; flex-wrap: wrap; gap: 0.25rem 1rem; color: #52525b; }
+.entry { margin-bottom: 1rem; }
+.entry-header { display: flex; justify-content: space-between; gap: 1rem; }
+.subtitle, .dates { color: #52525b; }
+.dates { white-space: nowrap; }
+@media print { body { background: none; } main { margin: 0; padding: 0; box-shadow: none; } }
+`;
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function paragraphs(text: string): string {
+	return text
+		.split(/\n+/)
+		.map((line) => `<p>${escapeHtml(line)}</p>`)
+		.join("");
+}
+
+function link({ label, text: value, url }: ExportLink): string {
+	const text = label ? `${label}: ${value}` : value;
+	return url
+		? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`
+		: escapeHtml(text);
+}
+
+function renderEntry(item: ExportEntry): string {
+	const parts = ['<div class="entry">', '<div class="entry-header"><div>'];
+	if (item.title) parts.push(`<h3>${escapeHtml(item.title)}</h3>`);
+	if (item.subtitle) {
+		parts.push(`<p class="subtitle">${escapeHtml(item.subtitle)}</p>`);
+	}
+	parts.push("</div>");
+	if (item.dates.length > 0) {
+		parts.push(
+			`<p class="dates">${item.dates.map(escapeHtml).join(" &ndash; ")}</p>`,
+		);
+	}
+	parts.push("</div>");
+	if (item.url) {
+		parts.push(
+			`<p>${link({ label: "", text: displayUrl(item.url), url: item.url })}</p>`,
+		);
+	}
+	if (item.text) parts.push(paragraphs(item.text));
+	for (const detail of item.details) parts.push(`<p>${escapeHtml(detail)}</p>`);
+	if (item.bullets.length > 0) {
+		parts.push(
+			`<ul>${item.bullets.map((bullet) => `<li>${escapeHtml(bullet)}</li>`).join("")}</ul>`,
+		);
+	}
+	parts.push("</div>");
+	return parts.join("");
+}
+
+/**
+ * Renders a resume as a standalone HTML page with inline styles,
+ * ready to be opened, printed or attached without other files.
+ */
+export class HtmlResumeRenderer implements ResumeRenderer {
+	readonly format = "html" as const;
+	readonly mimeType = "text/html;charset=utf-8";
+	readonly extension = "html";
+
+	render(resume: Resume, options: ExportOptions): string {
+		const document = buildExportDocument(resume, options);
+		const body: string[] = ["<header>"];
+
+		if (document.name) body.push(`<h1>${escapeHtml(document.name)}</h1>`);
+		if (document.label) {
+			body.push(`<p class="label">${escapeHtml(document.label)}</p>`);
+		}
+		if (document.contact.length > 0) {
+			body.push(
+				`<ul class="contact">${document.contact.map((item) => `<li>${link(item)}</li>`).join("")}</ul>`,
+			);
+		}
+		body.push("</header>");
+
+		if (document.summary) {
+			body.push(
+				`<section><h2>${escapeHtml(options.labels.sections.summary)}</h2>${paragraphs(document.summary)}</section>`,
+			);
+		}
+
+		for (const section of document.sections) {
+			const content = section.compact
+				? `<ul>${section.entries.map((item) => `<li>${escapeHtml(compactText(item))}</li>`).join("")}</ul>`
+				: section.entries.map(renderEntry).join("");
+			body.push(
+				`<section><h2>${escapeHtml(section.title)}</h2>${content}</section>`,
+			);
+		}
+
+		return [
+			"<!DOCTYPE html>",
+			`<html lang="${escapeHtml(options.locale)}">`,
+			"<head>",
+			'<meta charset="utf-8">',
+			'<meta name="viewport" content="width=device-width, initial-scale=1">',
+			`<title>${escapeHtml(document.name || options.labels.sections.summary)}</title>`,
+			`<style>${STYLES}</style>`,
+			"</head>",
+			"<body>",
+			"<main>",
+			...body,
+			"</main>",
+			"</body>",
+			"</html>",
+			"",
+		].join("\n");
+	}
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { exportOptions } from "./__fixtures__/export-options";
+import {
+	escapeMarkdown,
+	MarkdownResumeRenderer,
+} from "./MarkdownResumeRenderer";
+
+describe("MarkdownResumeRenderer", () => {
+	const renderer = new MarkdownResumeRenderer();
+
+	it("should render the header, summary and sections as Markdown", () => {
+		const markdown = renderer.render(createTestResume(), exportOptions);
+
+		expect(markdown).toContain(
+			[
+				"# John Doe",
+				"",
+				"**Software Engineer**",
+				"",
+				"[john@example.com](<mailto:john@example.com>) · +1-555-0100 · [johndoe.com](<https://johndoe.com>) · 123 Main St, 12345 San Francisco, CA, US · [GitHub: johndoe](<https://github.com/johndoe>) · [LinkedIn: johndoe](<https://linkedin.com/in/johndoe>)",
+				"",
+				"## Summary",
+				"",
+				"Experienced software engineer",
+			].join("\n"),
+		);
+		expect(markdown).toContain(
+			[
+				"### Senior Developer · Company A",
+				"",
+				"*Jan 2020 – Dec 2022* · [companya.com](<https://companya.com>)",
+				"",
+				"Led development team",
+				"",
+				"- Achievement 1",
+				"- Achievement 2",
+			].join("\n"),
+		);
+		expect(markdown).toContain(
+			"## Skills\n\n- JavaScript (Expert): ES6, Node.js\n",
+		);
+		expect(markdown.endsWith("John is an excellent developer\n")).toBe(true);
+	});
+
+	it("should escape text that Markdown would read as formatting", () => {
+		expect(escapeMarkdown("C# *and* [links]")).toBe("C# \\*and\\* \\[links\\]");
+		expect(
+			escapeMarkdown("# not a heading\n- not a list\n1. not ordered"),
+		).toBe("\\# not a heading\n\\- not a list\n1\\. not ordered");
+	});
+
+	it("should not render hidden sections", () => {
+		const markdown = renderer.render(
+			createTestResume({ references: [], awards: [] }),
+			exportOptions,
+		);
+
+		expect(markdown).not.toContain("## References");
+		expect(markdown).not.toContain("## Awards");
+	});
+});
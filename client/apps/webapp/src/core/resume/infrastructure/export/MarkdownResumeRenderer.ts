@@ -0,0 +1,102 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ExportOptions,
+	ResumeRenderer,
+} from "@/core/resume/domain/ResumeExport";
+import {
+	buildExportDocument,
+	compactText,
+	displayUrl,
+	type ExportEntry,
+	type ExportLink,
+	headingText,
+} from "./ExportDocument";
+
+/**
+ * Escapes the characters Markdown would read as formatting.
+ * Line-start markers (headings, lists, quotes) are escaped too, so
+ * user text never turns into structure.
+ */
+export function escapeMarkdown(text: string): string {
+	return escapeInline(text)
+		.replace(/^(\s*)([#>+-])/gm, "$1\\$2")
+		.replace(/^(\s*\d+)\./gm, "$1\\.");
+}
+
+function escapeInline(text: string): string {
+	return text.replace(/[\\`*_[\]<>|]/g, "\\$&");
+}
+
+function link({ label, text: value, url }: ExportLink): string {
+	const text = label ? `${label}: ${value}` : value;
+	return url
+		? `[${escapeInline(text)}](<${url.replace(/[<>]/g, encodeURIComponent)}>)`
+		: escapeInline(text);
+}
+
+function renderEntry(item: ExportEntry): string[] {
+	const lines = [`### ${escapeInline(headingText(item, " · "))}`, ""];
+
+	const meta = [
+		item.dates.length > 0 ? `*${escapeInline(item.dates.join(" – "))}*` : "",
+		item.url
+			? link({ label: "", text: displayUrl(item.url), url: item.url })
+			: "",
+	].filter(Boolean);
+	if (meta.length > 0) lines.push(meta.join(" · "), "");
+
+	if (item.text) lines.push(escapeMarkdown(item.text), "");
+	for (const detail of item.details) lines.push(escapeMarkdown(detail), "");
+	if (item.bullets.length > 0) {
+		lines.push(
+			...item.bullets.map((bullet) => `- ${escapeMarkdown(bullet)}`),
+			"",
+		);
+	}
+	return lines;
+}
+
+/**
+ * Renders a resume as GitHub-flavoured Markdown.
+ */
+export class MarkdownResumeRenderer implements ResumeRenderer {
+	readonly format = "markdown" as const;
+	readonly mimeType = "text/markdown;charset=utf-8";
+	readonly extension = "md";
+
+	render(resume: Resume, options: ExportOptions): string {
+		const document = buildExportDocument(resume, options);
+		const lines: string[] = [];
+
+		if (document.name) lines.push(`# ${escapeInline(document.name)}`, "");
+		if (document.label) lines.push(`**${escapeInline(document.label)}**`, "");
+		if (document.contact.length > 0) {
+			lines.push(document.contact.map(link).join(" · "), "");
+		}
+
+		if (document.summary) {
+			lines.push(
+				`## ${escapeInline(options.labels.sections.summary)}`,
+				"",
+				escapeMarkdown(document.summary),
+				"",
+			);
+		}
+
+		for (const section of document.sections) {
+			lines.push(`## ${escapeInline(section.title)}`, "");
+			if (section.compact) {
+				lines.push(
+					...section.entries.map(
+						(item) => `- ${escapeMarkdown(compactText(item))}`,
+					),
+					"",
+				);
+			} else {
+				for (const item of section.entries) lines.push(...renderEntry(item));
+			}
+		}
+
+		return `${lines.join("\n").trim()}\n`;
+	}
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+	type CoverLetter,
+	createCoverLetter,
+} from "@/core/resume/domain/CoverLetter";
+import {
+	PdfCoverLetterGenerator,
+	pdfString,
+	renderCoverLetterPdf,
+} from "./PdfCoverLetterGenerator";
+
+const DATE = new Date(Date.UTC(2026, 4, 4, 12));
+
+function letter(changes: Partial<CoverLetter> = {}): CoverLetter {
+	return {
+		...createCoverLetter("letter-1", "Acme"),
+		recipient: "Hiring Manager",
+		company: "Acme",
+		role: "Staff Engineer",
+		paragraphs: ["Dear team,", "I am applying."],
+		signOff: {
+			closing: "Kind regards,",
+			name: "Jane Doe",
+			email: "jane@example.com",
+			phone: "+1-555-0100",
+		},
+		...changes,
+	};
+}
+
+function shownText(pdf: string): string[] {
+	return [...pdf.matchAll(/(\((?:\\.|[^\\)])*\)) Tj/g)].map(
+		(match) => match[1] ?? "",
+	);
+}
+
+describe("renderCoverLetterPdf", () => {
+	it("should lay the letter out from the sender to the sign-off", () => {
+		const pdf = renderCoverLetterPdf(letter(), "en", DATE);
+
+		expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+		expect(pdf.endsWith("%%EOF\n")).toBe(true);
+		expect(shownText(pdf)).toEqual([
+			"(Jane Doe)",
+			"(jane@example.com \\267 +1-555-0100)",
+			"(May 4, 2026)",
+			"(Hiring Manager)",
+			"(Acme)",
+			"(Staff Engineer)",
+			"(Dear team,)",
+			"(I am applying.)",
+			"(Kind regards,)",
+			"(Jane Doe)",
+		]);
+		expect(pdf).toContain("/Title (Acme)");
+		expect(pdf).toContain("/Lang (en)");
+	});
+
+	it("should skip the parts the letter leaves empty", () => {
+		const pdf = renderCoverLetterPdf(
+			letter({
+				recipient: "",
+				role: " ",
+				signOff: { closing: "", name: "", email: "", phone: "" },
+			}),
+			"en",
+			DATE,
+		);
+
+		expect(shownText(pdf)).toEqual([
+			"(May 4, 2026)",
+			"(Acme)",
+			"(Dear team,)",
+			"(I am applying.)",
+		]);
+	});
+
+	it("should format the date for the locale", () => {
+		const pdf = renderCoverLetterPdf(letter(), "es", DATE);
+
+		expect(shownText(pdf)).toContain("(4 de mayo de 2026)");
+		expect(pdf).toContain("/Lang (es)");
+	});
+
+	it("should wrap paragraphs to the page width and keep typed line breaks", () => {
+		const pdf = renderCoverLetterPdf(
+			letter({
+				paragraphs: [`${"word ".repeat(60).trim()}\nSecond line`],
+			}),
+			"en",
+			DATE,
+		);
+		const lines = shownText(pdf);
+		const body = lines.slice(lines.indexOf("(Staff Engineer)") + 1, -2);
+
+		expect(body.length).toBeGreaterThan(2);
+		expect(body[body.length - 1]).toBe("(Second line)");
+		expect(body.join(" ").match(/word/g)).toHaveLength(60);
+	});
+
+	it("should continue on a new page when the first one is full", () => {
+		const pdf = renderCoverLetterPdf(
+			letter({ paragraphs: Array.from({ length: 40 }, (_, i) => `P${i}`) }),
+			"en",
+			DATE,
+		);
+
+		expect(pdf).toContain("/Count 2");
+		expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2);
+		expect(shownText(pdf)).toContain("(P39)");
+	});
+
+	it("should point the cross-reference table at every object", () => {
+		const pdf = renderCoverLetterPdf(letter(), "en", DATE);
+		const start = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+		const [, count, ...entries] = pdf.slice(start).split("\n");
+
+		expect(pdf.slice(start).startsWith("xref\n")).toBe(true);
+		expect(count).toBe("0 8");
+		entries.slice(1, 8).forEach((entry, index) => {
+			const offset = Number(entry.slice(0, 10));
+			expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+		});
+	});
+});
+
+describe("pdfString", () => {
+	it("should escape delimiters and encode accents in WinAnsiEncoding", () => {
+		expect(pdfString("(a) \\ b")).toBe("(\\(a\\) \\\\ b)");
+		expect(pdfString("Señora – “Café”")).toBe(
+			"(Se\\361ora \\226 \\223Caf\\351\\224)",
+		);
+	});
+
+	it("should replace characters the standard fonts cannot show", () => {
+		expect(pdfString("Łódź → 東京")).toBe("(?\\363dz ? ??)");
+	});
+});
+
+describe("PdfCoverLetterGenerator", () => {
+	it("should generate a PDF blob", async () => {
+		const blob = await new PdfCoverLetterGenerator().generatePdf(
+			letter(),
+			"en",
+		);
+
+		expect(blob.type).toBe("application/pdf");
+		expect(blob.size).toBeGreaterThan(0);
+	});
+});
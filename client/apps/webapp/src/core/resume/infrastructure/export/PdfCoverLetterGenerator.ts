@@ -0,0 +1,286 @@
+import type {
+	CoverLetter,
+	CoverLetterGenerator,
+} from "@/core/resume/domain/CoverLetter";
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 72;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const BODY_SIZE = 11;
+const NAME_SIZE = 16;
+const CONTACT_SIZE = 10;
+const LEADING = 1.4;
+const MUTED = 0.32;
+
+type Font = "regular" | "bold";
+
+const FONT_RESOURCES: Readonly<Record<Font, string>> = {
+	regular: "/F1",
+	bold: "/F2",
+};
+
+// Advance widths of printable ASCII (space to tilde) in 1/1000 em, taken from
+// the Adobe font metrics of Helvetica and Helvetica-Bold
+const ASCII_WIDTHS: Readonly<Record<Font, ReadonlyArray<number>>> = {
+	regular: [
+		278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+		278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+		584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+		833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+		278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+		500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+		500, 334, 260, 334, 584,
+	],
+	bold: [
+		278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+		278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+		584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+		833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+		278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+		556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+		500, 389, 280, 389, 584,
+	],
+};
+
+// Typographic characters WinAnsiEncoding places below Latin-1, with their
+// code and their regular and bold widths
+const WIN_ANSI_EXTRAS: Readonly<Record<string, [number, number, number]>> = {
+	"€": [0x80, 556, 556],
+	"‚": [0x82, 222, 278],
+	"„": [0x84, 333, 500],
+	"…": [0x85, 1000, 1000],
+	Š: [0x8a, 667, 667],
+	Œ: [0x8c, 1000, 1000],
+	Ž: [0x8e, 611, 611],
+	"‘": [0x91, 222, 278],
+	"’": [0x92, 222, 278],
+	"“": [0x93, 333, 500],
+	"”": [0x94, 333, 500],
+	"•": [0x95, 350, 350],
+	"–": [0x96, 556, 556],
+	"—": [0x97, 1000, 1000],
+	"™": [0x99, 1000, 1000],
+	š: [0x9a, 500, 556],
+	œ: [0x9c, 944, 944],
+	ž: [0x9e, 500, 500],
+	Ÿ: [0x9f, 667, 667],
+};
+
+const FALLBACK_WIDTH = 556;
+const QUESTION_MARK = 0x3f;
+
+interface Glyph {
+	/** Byte of the character in WinAnsiEncoding */
+	code: number;
+	/** Advance width in 1/1000 em */
+	width: number;
+}
+
+function asciiWidth(code: number, font: Font): number | undefined {
+	return code >= 0x20 && code <= 0x7e
+		? ASCII_WIDTHS[font][code - 0x20]
+		: undefined;
+}
+
+function glyph(char: string, font: Font): Glyph {
+	const code = char.codePointAt(0) ?? QUESTION_MARK;
+	const width = asciiWidth(code, font);
+	if (width !== undefined) return { code, width };
+
+	const extra = WIN_ANSI_EXTRAS[char];
+	if (extra)
+		return { code: extra[0], width: font === "bold" ? extra[2] : extra[1] };
+
+	// Accented letters are measured as their base letter
+	const base = char.normalize("NFD").codePointAt(0) ?? QUESTION_MARK;
+	const baseWidth = asciiWidth(base, font);
+	if (code >= 0xa0 && code <= 0xff) {
+		return { code, width: baseWidth ?? FALLBACK_WIDTH };
+	}
+	// Outside WinAnsiEncoding, print the unaccented letter if there is one
+	if (baseWidth !== undefined) return { code: base, width: baseWidth };
+	return {
+		code: QUESTION_MARK,
+		width: ASCII_WIDTHS[font][QUESTION_MARK - 0x20] ?? FALLBACK_WIDTH,
+	};
+}
+
+function textWidth(text: string, font: Font, size: number): number {
+	let width = 0;
+	for (const char of text) width += glyph(char, font).width;
+	return (width * size) / 1000;
+}
+
+/**
+ * Encodes text as a PDF literal string in WinAnsiEncoding. Bytes outside
+ * printable ASCII are written as octal escapes, so the file stays ASCII.
+ */
+export function pdfString(text: string, font: Font = "regular"): string {
+	let encoded = "";
+	for (const char of text) {
+		const { code } = glyph(char, font);
+		if (code === 0x28 || code === 0x29 || code === 0x5c) {
+			encoded += `\\${String.fromCharCode(code)}`;
+		} else if (code > 0x7e) {
+			encoded += `\\${code.toString(8)}`;
+		} else {
+			encoded += String.fromCharCode(code);
+		}
+	}
+	return `(${encoded})`;
+}
+
+// Breaks text into lines that fit the text width. Line breaks typed by the
+// user are kept; a single word wider than the page overflows the margin.
+function wrap(text: string, font: Font, size: number): string[] {
+	const lines: string[] = [];
+	for (const typedLine of text.split("\n")) {
+		let line = "";
+		for (const word of typedLine.split(/\s+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (line && textWidth(candidate, font, size) > TEXT_WIDTH) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = candidate;
+			}
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+// Lays text out top to bottom, starting a new page when one is full
+class PageWriter {
+	readonly pages: string[][] = [[]];
+	private y = PAGE_HEIGHT - MARGIN;
+
+	text(text: string, font: Font, size: number, gray = 0): void {
+		for (const line of wrap(text, font, size)) {
+			if (this.y - size < MARGIN) {
+				this.pages.push([]);
+				this.y = PAGE_HEIGHT - MARGIN;
+			}
+			const baseline = this.y - size;
+			if (line) {
+				this.pages[this.pages.length - 1]?.push(
+					`BT ${gray} g ${FONT_RESOURCES[font]} ${size} Tf ${MARGIN} ${baseline.toFixed(2)} Td ${pdfString(line, font)} Tj ET`,
+				);
+			}
+			this.y -= size * LEADING;
+		}
+	}
+
+	space(height: number): void {
+		// Gaps are dropped at the top of a page
+		if (this.y < PAGE_HEIGHT - MARGIN) this.y -= height;
+	}
+}
+
+function serialize(objects: ReadonlyArray<string>): string {
+	let pdf = "%PDF-1.4\n";
+	const offsets: number[] = [];
+	objects.forEach((body, index) => {
+		offsets.push(pdf.length);
+		pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+	});
+	const xref = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	for (const offset of offsets) {
+		pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+	}
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 2 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+	return pdf;
+}
+
+/**
+ * Renders a cover letter as an A4 PDF document.
+ *
+ * The letter is set in the standard Helvetica fonts, which every PDF reader
+ * ships, so nothing is embedded. Characters outside WinAnsiEncoding are printed
+ * as their unaccented letter or as a question mark.
+ *
+ * @param letter - The cover letter, with its sign-off resolved
+ * @param locale - BCP 47 locale used to format the date and tag the document language
+ * @param date - Date printed on the letter
+ * @returns The PDF file, as ASCII text
+ */
+export function renderCoverLetterPdf(
+	letter: CoverLetter,
+	locale: string,
+	date: Date = new Date(),
+): string {
+	const writer = new PageWriter();
+	const { signOff } = letter;
+	const name = signOff.name.trim();
+	const contact = [signOff.email, signOff.phone]
+		.map((value) => value.trim())
+		.filter(Boolean)
+		.join(" · ");
+
+	if (name) writer.text(name, "bold", NAME_SIZE);
+	if (contact) writer.text(contact, "regular", CONTACT_SIZE, MUTED);
+	writer.space(BODY_SIZE * 2);
+
+	writer.text(
+		new Intl.DateTimeFormat(locale, { dateStyle: "long" }).format(date),
+		"regular",
+		BODY_SIZE,
+	);
+	writer.space(BODY_SIZE);
+
+	for (const line of [letter.recipient, letter.company]) {
+		if (line.trim()) writer.text(line.trim(), "regular", BODY_SIZE);
+	}
+	if (letter.role.trim()) {
+		writer.space(BODY_SIZE);
+		writer.text(letter.role.trim(), "bold", BODY_SIZE);
+	}
+	writer.space(BODY_SIZE);
+
+	for (const paragraph of letter.paragraphs) {
+		writer.text(paragraph, "regular", BODY_SIZE);
+		writer.space(BODY_SIZE * 0.6);
+	}
+
+	writer.space(BODY_SIZE * 0.4);
+	if (signOff.closing.trim()) {
+		writer.text(signOff.closing.trim(), "regular", BODY_SIZE);
+		writer.space(BODY_SIZE * 2);
+	}
+	if (name) writer.text(name, "regular", BODY_SIZE);
+
+	const firstPage = 6;
+	const pageRefs = writer.pages.map(
+		(_, index) => `${firstPage + index * 2} 0 R`,
+	);
+	const objects = [
+		`<< /Type /Catalog /Pages 3 0 R /Lang ${pdfString(locale)} >>`,
+		`<< /Title ${pdfString(letter.title)} /Producer (cvix) >>`,
+		`<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`,
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+	];
+	writer.pages.forEach((operations, index) => {
+		const stream = operations.join("\n");
+		objects.push(
+			`<< /Type /Page /Parent 3 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents ${firstPage + index * 2 + 1} 0 R >>`,
+			`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+		);
+	});
+	return serialize(objects);
+}
+
+/**
+ * Generates cover letter PDFs in the browser, so letters never leave the device.
+ */
+export class PdfCoverLetterGenerator implements CoverLetterGenerator {
+	async generatePdf(letter: CoverLetter, locale = "en"): Promise<Blob> {
+		return new Blob([renderCoverLetterPdf(letter, locale)], {
+			type: "application/pdf",
+		});
+	}
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	exportOptions,
+	spanishExportOptions,
+} from "./__fixtures__/export-options";
+import { PlainTextResumeRenderer } from "./PlainTextResumeRenderer";
+
+describe("PlainTextResumeRenderer", () => {
+	const renderer = new PlainTextResumeRenderer();
+
+	it("should render an ATS-friendly layout", () => {
+		const text = renderer.render(createTestResume(), exportOptions);
+
+		expect(
+			text.startsWith(
+				[
+					"John Doe",
+					"Software Engineer",
+					"john@example.com | +1-555-0100 | https://johndoe.com | 123 Main St, 12345 San Francisco, CA, US | GitHub: https://github.com/johndoe | LinkedIn: https://linkedin.com/in/johndoe",
+					"",
+					"SUMMARY",
+					"Experienced software engineer",
+					"",
+					"WORK EXPERIENCE",
+					"Senior Developer, Company A",
+					"Jan 2020 - Dec 2022",
+					"https://companya.com",
+					"Led development team",
+					"- Achievement 1",
+					"- Achievement 2",
+					"",
+					"Developer, Company B",
+				].join("\n"),
+			),
+		).toBe(true);
+		expect(text).toContain(
+			"EDUCATION\nUniversity A, Bachelor, Computer Science\nSep 2014 - Jun 2018\nhttps://university-a.edu\nGPA: 3.8\nCourses: CS101, CS201",
+		);
+		expect(text).toContain("LANGUAGES\n- English (Native)");
+	});
+
+	it("should only use plain characters for layout", () => {
+		const text = renderer.render(createTestResume(), exportOptions);
+
+		expect(text).not.toMatch(/[•–—·\t]/);
+		expect(text).not.toContain("<");
+	});
+
+	it("should upper-case headings for the export locale", () => {
+		const text = renderer.render(createTestResume(), spanishExportOptions);
+
+		expect(text).toContain("\nEDUCACIÓN\n");
+		expect(text).toContain("Ene 2020 - Dic 2022".toLowerCase());
+	});
+});
@@ -0,0 +1,79 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ExportOptions,
+	ResumeRenderer,
+} from "@/core/resume/domain/ResumeExport";
+import {
+	buildExportDocument,
+	compactText,
+	type ExportEntry,
+	type ExportLink,
+	headingText,
+} from "./ExportDocument";
+
+// Full URLs, since pasted text loses links
+function contactText(item: ExportLink): string {
+	const text =
+		item.url && !item.url.startsWith("mailto:") ? item.url : item.text;
+	return item.label ? `${item.label}: ${text}` : text;
+}
+
+function renderEntry(item: ExportEntry): string[] {
+	const lines = [headingText(item)];
+	if (item.dates.length > 0) lines.push(item.dates.join(" - "));
+	if (item.url) lines.push(item.url);
+	if (item.text) lines.push(item.text);
+	lines.push(...item.details);
+	lines.push(...item.bullets.map((bullet) => `- ${bullet}`));
+	return lines.filter(Boolean);
+}
+
+/**
+ * Renders a resume as plain text for pasting into ATS portals.
+ *
+ * The layout avoids everything applicant tracking systems tend to misread:
+ * no columns or tables, ASCII bullets and separators, upper-case section
+ * headings and full URLs instead of link text.
+ */
+export class PlainTextResumeRenderer implements ResumeRenderer {
+	readonly format = "text" as const;
+	readonly mimeType = "text/plain;charset=utf-8";
+	readonly extension = "txt";
+
+	render(resume: Resume, options: ExportOptions): string {
+		const document = buildExportDocument(resume, options);
+		const heading = (title: string) => title.toLocaleUpperCase(options.locale);
+		const blocks: string[][] = [];
+
+		blocks.push(
+			[
+				document.name,
+				document.label,
+				document.contact.map(contactText).join(" | "),
+			].filter(Boolean),
+		);
+
+		if (document.summary) {
+			blocks.push([heading(options.labels.sections.summary), document.summary]);
+		}
+
+		for (const section of document.sections) {
+			const lines = [heading(section.title)];
+			if (section.compact) {
+				lines.push(...section.entries.map((item) => `- ${compactText(item)}`));
+				blocks.push(lines);
+				continue;
+			}
+			section.entries.forEach((item, index) => {
+				if (index > 0) lines.push("");
+				lines.push(...renderEntry(item));
+			});
+			blocks.push(lines);
+		}
+
+		return `${blocks
+			.filter((block) => block.length > 0)
+			.map((block) => block.join("\n"))
+			.join("\n\n")}\n`;
+	}
+}
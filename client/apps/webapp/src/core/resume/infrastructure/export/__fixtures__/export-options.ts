@@ -0,0 +1,47 @@
+import type { ExportOptions } from "@/core/resume/domain/ResumeExport";
+
+export const exportOptions: ExportOptions = {
+	locale: "en",
+	labels: {
+		sections: {
+			summary: "Summary",
+			work: "Work Experience",
+			education: "Education",
+			skills: "Skills",
+			projects: "Projects",
+			certificates: "Certificates",
+			volunteer: "Volunteer Experience",
+			awards: "Awards",
+			publications: "Publications",
+			languages: "Languages",
+			interests: "Interests",
+			references: "References",
+		},
+		present: "Present",
+		score: "GPA",
+		courses: "Courses",
+	},
+};
+
+export const spanishExportOptions: ExportOptions = {
+	locale: "es",
+	labels: {
+		sections: {
+			summary: "Resumen",
+			work: "Experiencia laboral",
+			education: "Educación",
+			skills: "Habilidades",
+			projects: "Proyectos",
+			certificates: "Certificados",
+			volunteer: "Voluntariado",
+			awards: "Premios",
+			publications: "Publicaciones",
+			languages: "Idiomas",
+			interests: "Intereses",
+			references: "Referencias",
+		},
+		present: "Actualidad",
+		score: "Nota media",
+		courses: "Cursos",
+	},
+};
@@ -0,0 +1,39 @@
+/**
+ * Infrastructure layer exports for rendering resumes and cover letters into
+ * downloadable documents.
+ */
+
+import type { ResumeRenderer } from "@/core/resume/domain/ResumeExport";
+import { DocxResumeRenderer } from "./DocxResumeRenderer";
+import { HtmlResumeRenderer } from "./HtmlResumeRenderer";
+import { MarkdownResumeRenderer } from "./MarkdownResumeRenderer";
+import { PlainTextResumeRenderer } from "./PlainTextResumeRenderer";
+
+export { DocxResumeRenderer } from "./DocxResumeRenderer";
+export {
+	buildExportDocument,
+	type ExportDocument,
+	type ExportEntry,
+	type ExportLink,
+	type ExportSection,
+	formatExportDate,
+} from "./ExportDocument";
+export { HtmlResumeRenderer } from "./HtmlResumeRenderer";
+export { MarkdownResumeRenderer } from "./MarkdownResumeRenderer";
+export {
+	PdfCoverLetterGenerator,
+	renderCoverLetterPdf,
+} from "./PdfCoverLetterGenerator";
+export { PlainTextResumeRenderer } from "./PlainTextResumeRenderer";
+
+/**
+ * Creates one renderer for every export format.
+ */
+export function createResumeRenderers(): ResumeRenderer[] {
+	return [
+		new DocxResumeRenderer(),
+		new MarkdownResumeRenderer(),
+		new HtmlResumeRenderer(),
+		new PlainTextResumeRenderer(),
+	];
+}
@@ -5,6 +5,7 @@ import { createTestResume } from "@/core/resume/test-resume-factory.ts";
 import {
 	type ResumeDocumentResponse,
 	ResumeHttpClient,
+	type ResumeSnapshotResponse,
 } from "./ResumeHttpClient";
 import type { GenerateResumeRequest } from "./requests/ResumeRequest";
 
@@ -271,6 +272,26 @@ describe("ResumeHttpClient", () => {
 			const [, , config] = callArgs;
 			expect(config.headers.Accept).toBe("application/pdf");
 		});
+
+		it("passes the abort signal to the request", async () => {
+			postSpy.mockResolvedValue({
+				data: new Blob([new Uint8Array([1])], { type: "application/pdf" }),
+			});
+			const controller = new AbortController();
+
+			await client.generatePdf(
+				templateId,
+				mockResume,
+				"en",
+				undefined,
+				controller.signal,
+			);
+
+			const callArgs = postSpy.mock.calls[0];
+			if (!callArgs) throw new Error("Expected call args to exist");
+			const [, , config] = callArgs;
+			expect(config.signal).toBe(controller.signal);
+		});
 	});
 
 	describe("createResume", () => {
@@ -395,6 +416,70 @@ describe("ResumeHttpClient", () => {
 		});
 	});
 
+	describe("snapshots", () => {
+		const resumeId = "550e8400-e29b-41d4-a716-446655440000";
+		const snapshotId = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+		const mockSnapshotResponse: ResumeSnapshotResponse = {
+			id: snapshotId,
+			resumeId,
+			reason: "checkpoint",
+			label: "Before tailoring",
+			fingerprint: "1a2b3c4d",
+			createdAt: "2025-01-03T00:00:00Z",
+		};
+
+		it("lists snapshots of a resume", async () => {
+			getSpy.mockResolvedValue({ data: { data: [mockSnapshotResponse] } });
+
+			const result = await client.listSnapshots(resumeId);
+
+			expect(getSpy).toHaveBeenCalledWith(`/resume/${resumeId}/snapshots`);
+			expect(result).toEqual([mockSnapshotResponse]);
+		});
+
+		it("fetches a snapshot with its content", async () => {
+			const response = { ...mockSnapshotResponse, content: mockResume };
+			getSpy.mockResolvedValue({ data: response });
+
+			const result = await client.getSnapshot(resumeId, snapshotId);
+
+			expect(getSpy).toHaveBeenCalledWith(
+				`/resume/${resumeId}/snapshots/${snapshotId}`,
+			);
+			expect(result).toEqual(response);
+		});
+
+		it("stores a snapshot with PUT request and mapped content", async () => {
+			putSpy.mockResolvedValue({ data: mockSnapshotResponse });
+
+			const result = await client.createSnapshot(resumeId, snapshotId, {
+				reason: "checkpoint",
+				label: "Before tailoring",
+				fingerprint: "1a2b3c4d",
+				createdAt: "2025-01-03T00:00:00Z",
+				resume: mockResume,
+			});
+
+			expect(putSpy).toHaveBeenCalledTimes(1);
+			const [url, payload] = putSpy.mock.calls[0] ?? [];
+			expect(url).toBe(`/resume/${resumeId}/snapshots/${snapshotId}`);
+			expect(payload.reason).toBe("checkpoint");
+			expect(payload.label).toBe("Before tailoring");
+			expect(payload.content.basics.name).toBe("John Doe");
+			expect(result).toEqual(mockSnapshotResponse);
+		});
+
+		it("deletes a snapshot", async () => {
+			deleteSpy.mockResolvedValue({});
+
+			await client.deleteSnapshot(resumeId, snapshotId);
+
+			expect(deleteSpy).toHaveBeenCalledWith(
+				`/resume/${resumeId}/snapshots/${snapshotId}`,
+			);
+		});
+	});
+
 	describe("getTemplates", () => {
 		const mockTemplates: TemplateMetadata[] = [
 			{
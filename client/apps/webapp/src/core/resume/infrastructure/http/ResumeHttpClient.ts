@@ -1,11 +1,14 @@
 import type { TemplateMetadata } from "@/core/resume/domain/TemplateMetadata.ts";
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams.ts";
 import type {
 	CreateResumeRequest,
+	CreateResumeSnapshotRequest,
 	UpdateResumeRequest,
 } from "@/core/resume/infrastructure/http/requests/ResumeRequest.ts";
 import { BaseHttpClient } from "@/shared/BaseHttpClient.ts";
 import type { Resume } from "../../domain/Resume.ts";
 import type { ResumeGenerator } from "../../domain/ResumeGenerator.ts";
+import type { SnapshotReason } from "../../domain/ResumeSnapshot.ts";
 import {
 	mapResumeToGenerateResumeRequest,
 	mapResumeToResumeRequest,
@@ -26,6 +29,20 @@ export interface ResumeDocumentResponse {
 	updatedBy: string | null;
 }
 
+/**
+ * Backend resume snapshot response matching server DTO.
+ * `content` is only included when fetching a single snapshot.
+ */
+export interface ResumeSnapshotResponse {
+	id: string;
+	resumeId: string;
+	reason: SnapshotReason;
+	label: string | null;
+	fingerprint: string;
+	createdAt: string;
+	content?: Resume;
+}
+
 /**
  * HTTP client for resume operations (CRUD + PDF generation)
  * Extends BaseHttpClient to leverage CSRF protection, cookie handling, and error handling
@@ -116,22 +133,98 @@ export class ResumeHttpClient
 		return response.data.data;
 	}
 
+	/**
+	 * List the snapshots of a resume
+	 * @param resumeId Resume ID
+	 * @returns Promise with the snapshot descriptors (without content)
+	 */
+	async listSnapshots(resumeId: string): Promise<ResumeSnapshotResponse[]> {
+		const response = await this.client.get<{
+			data: ResumeSnapshotResponse[];
+		}>(`/resume/${resumeId}/snapshots`);
+		return response.data.data;
+	}
+
+	/**
+	 * Get a snapshot with its content
+	 * @param resumeId Resume ID
+	 * @param snapshotId Snapshot ID
+	 * @returns Promise with the snapshot
+	 */
+	async getSnapshot(
+		resumeId: string,
+		snapshotId: string,
+	): Promise<ResumeSnapshotResponse> {
+		const response = await this.client.get<ResumeSnapshotResponse>(
+			`/resume/${resumeId}/snapshots/${snapshotId}`,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Store a snapshot of a resume
+	 * @param resumeId Resume ID
+	 * @param snapshotId Snapshot ID (UUID)
+	 * @param snapshot Snapshot metadata and content
+	 * @returns Promise with the stored snapshot descriptor
+	 */
+	async createSnapshot(
+		resumeId: string,
+		snapshotId: string,
+		snapshot: {
+			reason: SnapshotReason;
+			label: string | null;
+			fingerprint: string;
+			createdAt: string;
+			resume: Resume;
+		},
+	): Promise<ResumeSnapshotResponse> {
+		const request: CreateResumeSnapshotRequest = {
+			reason: snapshot.reason,
+			label: snapshot.label,
+			fingerprint: snapshot.fingerprint,
+			createdAt: snapshot.createdAt,
+			content: mapResumeToResumeRequest(snapshot.resume),
+		};
+
+		const response = await this.client.put<ResumeSnapshotResponse>(
+			`/resume/${resumeId}/snapshots/${snapshotId}`,
+			request,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Delete a snapshot
+	 * @param resumeId Resume ID
+	 * @param snapshotId Snapshot ID
+	 * @returns Promise that resolves when deletion is complete
+	 */
+	async deleteSnapshot(resumeId: string, snapshotId: string): Promise<void> {
+		await this.client.delete(`/resume/${resumeId}/snapshots/${snapshotId}`);
+	}
+
 	/**
 	 * Generate a PDF resume from resume data
 	 * @param templateId Template ID to use for generation
 	 * @param resume Resume data
 	 * @param locale Language locale (en/es)
+	 * @param params Template parameters (color, font, spacing…)
+	 * @param signal Signal that cancels the request
 	 * @returns Promise with the PDF blob
 	 */
 	async generatePdf(
 		templateId: string,
 		resume: Resume,
 		locale?: "en" | "es",
+		params?: TemplateParamValues,
+		signal?: AbortSignal,
 	): Promise<Blob> {
 		// Map frontend Resume (JSON Resume schema) to backend GenerateResumeRequest format
 		const generateResumeRequest = mapResumeToGenerateResumeRequest(
 			templateId,
 			resume,
+			params,
 		);
 
 		const response = await this.client.post<Blob>(
@@ -143,6 +236,7 @@ export class ResumeHttpClient
 					Accept: "application/pdf",
 				},
 				responseType: "blob",
+				signal,
 			},
 		);
 		return response.data;
@@ -954,4 +954,24 @@ describe("mapResumeToBackendRequest", () => {
 		// volunteer.position must be preserved
 		expect(result.volunteer?.[0]?.position).toBe("Volunteer");
 	});
+
+	it("should carry template params without the locale", () => {
+		const result = mapResumeToGenerateResumeRequest(
+			"classic",
+			createTestResume(),
+			{ locale: "es", fontFamily: "Lato", lineHeight: 1.4 },
+		);
+
+		expect(result.params).toEqual({ fontFamily: "Lato", lineHeight: 1.4 });
+	});
+
+	it("should omit empty template params", () => {
+		const result = mapResumeToGenerateResumeRequest(
+			"classic",
+			createTestResume(),
+			{ locale: "en" },
+		);
+
+		expect(result.params).toBeUndefined();
+	});
 });
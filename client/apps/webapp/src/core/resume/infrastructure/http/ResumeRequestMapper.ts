@@ -1,4 +1,8 @@
 import type { Resume } from "@/core/resume/domain/Resume.ts";
+import {
+	LOCALE_PARAM,
+	type TemplateParamValues,
+} from "@/core/resume/domain/TemplateParams.ts";
 import type {
 	GenerateResumeRequest,
 	ResumeRequest,
@@ -260,14 +264,18 @@ const mapReferences = (resume: Resume) => {
  *
  * @param templateId - The template ID to be used for resume generation
  * @param resume - The frontend Resume object following JSON Resume schema
+ * @param params - Template parameters; the locale is sent as a header instead
  * @returns The backend DTO in GenerateResumeRequest format
  */
 export function mapResumeToGenerateResumeRequest(
 	templateId: string,
 	resume: Resume,
+	params: TemplateParamValues = {},
 ): GenerateResumeRequest {
+	const { [LOCALE_PARAM]: _locale, ...templateParams } = params;
 	return {
 		templateId,
+		params: Object.keys(templateParams).length > 0 ? templateParams : undefined,
 		basics: mapBasics(resume),
 		work: mapWork(resume),
 		education: mapEducation(resume),
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResumeShare } from "@/core/resume/domain/ResumeShare";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { mapResumeToResumeRequest } from "./ResumeRequestMapper";
+import { ResumeShareHttpClient } from "./ResumeShareHttpClient";
+
+describe("ResumeShareHttpClient", () => {
+	let client: ResumeShareHttpClient;
+	let getSpy: ReturnType<typeof vi.fn>;
+	let putSpy: ReturnType<typeof vi.fn>;
+	let deleteSpy: ReturnType<typeof vi.fn>;
+
+	const share: ResumeShare = {
+		id: "share-1",
+		resumeId: "resume-1",
+		url: "https://cv.example.com/r/abc",
+		expiresAt: "2026-04-01T00:00:00.000Z",
+		passwordProtected: true,
+		createdAt: "2026-03-01T12:00:00.000Z",
+	};
+
+	beforeEach(() => {
+		client = new ResumeShareHttpClient();
+
+		getSpy = vi.fn();
+		putSpy = vi.fn();
+		deleteSpy = vi.fn();
+
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.get = getSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.put = putSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.delete = deleteSpy;
+	});
+
+	it("gets the share of a resume", async () => {
+		getSpy.mockResolvedValue({ data: share });
+
+		const result = await client.getShare("resume-1");
+
+		expect(getSpy).toHaveBeenCalledWith("/resume/resume-1/share");
+		expect(result).toEqual(share);
+	});
+
+	it("returns null when the resume is not published", async () => {
+		getSpy.mockRejectedValue({ response: { status: 404 } });
+
+		await expect(client.getShare("resume-1")).resolves.toBeNull();
+	});
+
+	it("rethrows other errors", async () => {
+		const error = { response: { status: 500 } };
+		getSpy.mockRejectedValue(error);
+
+		await expect(client.getShare("resume-1")).rejects.toBe(error);
+	});
+
+	it("publishes the resume content in the API format with its options", async () => {
+		putSpy.mockResolvedValue({ data: share });
+		const resume = createTestResume();
+
+		const result = await client.publish("resume-1", resume, {
+			expiresAt: share.expiresAt,
+			password: "s3cret-pw",
+			templateId: "engineering",
+			locale: "es",
+			trackViews: false,
+		});
+
+		expect(putSpy).toHaveBeenCalledWith("/resume/resume-1/share", {
+			content: mapResumeToResumeRequest(resume),
+			expiresAt: share.expiresAt,
+			password: "s3cret-pw",
+			templateId: "engineering",
+			locale: "es",
+			trackViews: false,
+		});
+		expect(result).toEqual(share);
+	});
+
+	it("unpublishes a resume", async () => {
+		deleteSpy.mockResolvedValue({});
+
+		await client.unpublish("resume-1");
+
+		expect(deleteSpy).toHaveBeenCalledWith("/resume/resume-1/share");
+	});
+});
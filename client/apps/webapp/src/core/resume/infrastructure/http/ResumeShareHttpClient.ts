@@ -0,0 +1,89 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ResumeShare,
+	ResumeSharePublisher,
+	ShareOptions,
+} from "@/core/resume/domain/ResumeShare";
+import type { ResumeRequest } from "@/core/resume/infrastructure/http/requests/ResumeRequest.ts";
+import { isNotFoundError } from "@/core/resume/infrastructure/storage/RemoteResumeStorage";
+import { BaseHttpClient } from "@/shared/BaseHttpClient.ts";
+import { mapResumeToResumeRequest } from "./ResumeRequestMapper.ts";
+
+/**
+ * Request body of the publish endpoint
+ */
+export interface PublishResumeRequest {
+	content: ResumeRequest;
+	expiresAt: string | null;
+	password: string | null;
+	templateId: string | null;
+	locale: string;
+	trackViews: boolean;
+}
+
+/**
+ * HTTP client for the resume share endpoints
+ * Extends BaseHttpClient to leverage CSRF protection, cookie handling, and error handling
+ */
+export class ResumeShareHttpClient
+	extends BaseHttpClient
+	implements ResumeSharePublisher
+{
+	/**
+	 * Get the current share of a resume
+	 * @param resumeId Resume ID (UUID)
+	 * @returns Promise with the share, or null when the resume is not published
+	 */
+	async getShare(resumeId: string): Promise<ResumeShare | null> {
+		try {
+			const response = await this.client.get<ResumeShare>(
+				`/resume/${resumeId}/share`,
+			);
+			return response.data;
+		} catch (error) {
+			if (isNotFoundError(error)) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Publish a resume; the server generates a new unguessable URL on every publication
+	 * @param resumeId Resume ID
+	 * @param resume Section-filtered resume content
+	 * @param options Expiry, password, template, locale and view tracking
+	 * @returns Promise with the share
+	 */
+	async publish(
+		resumeId: string,
+		resume: Resume,
+		options: ShareOptions,
+	): Promise<ResumeShare> {
+		const request: PublishResumeRequest = {
+			content: mapResumeToResumeRequest(resume),
+			expiresAt: options.expiresAt,
+			password: options.password,
+			templateId: options.templateId,
+			locale: options.locale,
+			trackViews: options.trackViews,
+		};
+		const response = await this.client.put<ResumeShare>(
+			`/resume/${resumeId}/share`,
+			request,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Unpublish a resume
+	 * @param resumeId Resume ID
+	 * @returns Promise that resolves when the share is removed
+	 */
+	async unpublish(resumeId: string): Promise<void> {
+		await this.client.delete(`/resume/${resumeId}/share`);
+	}
+}
+
+/**
+ * Singleton instance of ResumeShareHttpClient for use throughout the app
+ */
+export const resumeShareHttpClient = new ResumeShareHttpClient();
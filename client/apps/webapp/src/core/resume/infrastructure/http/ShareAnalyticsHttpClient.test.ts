@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ShareViewEvent } from "@/core/resume/domain/ShareAnalytics";
+import { ShareAnalyticsHttpClient } from "./ShareAnalyticsHttpClient";
+
+describe("ShareAnalyticsHttpClient", () => {
+	let client: ShareAnalyticsHttpClient;
+	let getSpy: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		client = new ShareAnalyticsHttpClient();
+		getSpy = vi.fn();
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.get = getSpy;
+	});
+
+	it("lists the views of a resume since a date", async () => {
+		const views: ShareViewEvent[] = [
+			{
+				id: "view-1",
+				shareId: "share-1",
+				viewedAt: "2026-03-10T09:00:00.000Z",
+				referrer: "www.linkedin.com",
+				device: "desktop",
+				pdfDownloaded: false,
+			},
+		];
+		getSpy.mockResolvedValue({ data: { data: views } });
+
+		const result = await client.listViews(
+			"resume-1",
+			"2026-03-01T00:00:00.000Z",
+		);
+
+		expect(getSpy).toHaveBeenCalledWith("/resume/resume-1/share/views", {
+			params: { since: "2026-03-01T00:00:00.000Z" },
+		});
+		expect(result).toEqual(views);
+	});
+});
@@ -0,0 +1,33 @@
+import type {
+	ShareAnalyticsSource,
+	ShareViewEvent,
+} from "@/core/resume/domain/ShareAnalytics";
+import { BaseHttpClient } from "@/shared/BaseHttpClient.ts";
+
+/**
+ * HTTP client for the view statistics of published resumes
+ * Extends BaseHttpClient to leverage CSRF protection, cookie handling, and error handling
+ */
+export class ShareAnalyticsHttpClient
+	extends BaseHttpClient
+	implements ShareAnalyticsSource
+{
+	/**
+	 * List the views of a resume's shares
+	 * @param resumeId Resume ID (UUID)
+	 * @param since ISO 8601 timestamp of the oldest view to return
+	 * @returns Promise with the view events
+	 */
+	async listViews(resumeId: string, since: string): Promise<ShareViewEvent[]> {
+		const response = await this.client.get<{ data: ShareViewEvent[] }>(
+			`/resume/${resumeId}/share/views`,
+			{ params: { since } },
+		);
+		return response.data.data;
+	}
+}
+
+/**
+ * Singleton instance of ShareAnalyticsHttpClient for use throughout the app
+ */
+export const shareAnalyticsHttpClient = new ShareAnalyticsHttpClient();
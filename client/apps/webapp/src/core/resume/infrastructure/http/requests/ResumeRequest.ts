@@ -4,6 +4,8 @@
  */
 export interface GenerateResumeRequest extends ResumeRequest {
 	templateId: string;
+	/** Template customization (colors, font, spacing…), keyed by parameter */
+	params?: Record<string, string | number | boolean>;
 }
 
 /**
@@ -42,6 +44,17 @@ export interface UpdateResumeRequest {
 	content: ResumeRequest;
 }
 
+/**
+ * DTO for storing a resume snapshot.
+ */
+export interface CreateResumeSnapshotRequest {
+	reason: string;
+	label: string | null;
+	fingerprint: string;
+	createdAt: string;
+	content: ResumeRequest;
+}
+
 /**
  * Basics (personal / contact) section DTO.
  */
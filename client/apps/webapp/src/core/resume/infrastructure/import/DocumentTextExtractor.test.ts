@@ -0,0 +1,99 @@
+import { zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { createBinaryFile, toBytes } from "./__fixtures__/linkedin-export";
+import {
+	createDocxFile,
+	createPdfFile,
+	resumeLines,
+} from "./__fixtures__/resume-documents";
+import {
+	extractDocumentText,
+	extractDocxText,
+	isDocumentFile,
+	type PdfjsLoader,
+} from "./DocumentTextExtractor";
+
+// The browser build of PDF.js needs DOMMatrix, which jsdom does not provide
+const loadLegacyPdfjs: PdfjsLoader = () =>
+	import("pdfjs-dist/legacy/build/pdf.mjs");
+
+const nonEmpty = (lines: ReadonlyArray<string>) =>
+	lines.filter((line) => line.trim() !== "");
+
+describe("DocumentTextExtractor", () => {
+	describe("isDocumentFile", () => {
+		it.each([
+			["resume.pdf", true],
+			["Resume.DOCX", true],
+			["resume.doc", false],
+			["resume.json", false],
+		])("should tell whether %j is a document", (name, expected) => {
+			expect(isDocumentFile(new File([""], name))).toBe(expected);
+		});
+	});
+
+	describe("extractDocxText", () => {
+		it("should return one line per paragraph and mark list items", async () => {
+			const file = createDocxFile();
+			const lines = extractDocxText(new Uint8Array(await file.arrayBuffer()));
+
+			expect(lines).toEqual([...resumeLines]);
+		});
+
+		it("should split paragraphs on line breaks and keep tabs", () => {
+			const xml = [
+				'<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>',
+				"<w:p><w:r><w:t>Acme</w:t><w:tab/><w:t>2021</w:t><w:br/><w:t>Madrid</w:t></w:r></w:p>",
+				"</w:body></w:document>",
+			].join("");
+			const bytes = zipSync({ "word/document.xml": toBytes(xml) });
+
+			expect(extractDocxText(bytes)).toEqual(["Acme\t2021", "Madrid"]);
+		});
+
+		it("should reject archives that are not Word documents", () => {
+			const bytes = zipSync({ "Profile.csv": toBytes("First Name") });
+
+			expect(() => extractDocxText(bytes)).toThrow(
+				"word/document.xml is missing",
+			);
+		});
+	});
+
+	describe("extractDocumentText", () => {
+		it("should extract the lines of a text-based PDF", async () => {
+			const lines = await extractDocumentText(createPdfFile(), loadLegacyPdfjs);
+
+			expect(nonEmpty(lines)).toEqual(nonEmpty(resumeLines));
+		});
+
+		it("should keep blank lines of a PDF as section breaks", async () => {
+			const lines = await extractDocumentText(
+				createPdfFile(["SUMMARY", "", "EXPERIENCE"]),
+				loadLegacyPdfjs,
+			);
+
+			expect(lines).toEqual(["SUMMARY", "", "EXPERIENCE", ""]);
+		});
+
+		it("should extract the lines of a Word document", async () => {
+			const lines = await extractDocumentText(createDocxFile());
+
+			expect(lines).toEqual([...resumeLines]);
+		});
+
+		it("should reject documents without text", async () => {
+			await expect(
+				extractDocumentText(createPdfFile([], "scan.pdf"), loadLegacyPdfjs),
+			).rejects.toThrow("No text found in scan.pdf");
+		});
+
+		it("should reject files that are neither PDF nor Word documents", async () => {
+			const file = createBinaryFile(toBytes("plain text"), "resume.pdf");
+
+			await expect(extractDocumentText(file)).rejects.toThrow(
+				"Failed to read document resume.pdf: Expected a PDF or Word (.docx) document",
+			);
+		});
+	});
+});
@@ -0,0 +1,206 @@
+import { unzipSync } from "fflate";
+
+type Pdfjs = Pick<typeof import("pdfjs-dist"), "getDocument">;
+
+/**
+ * Loads PDF.js on demand, so its large bundle is only fetched when a PDF is imported
+ */
+export type PdfjsLoader = () => Promise<Pdfjs>;
+
+const WORD_NAMESPACE =
+	"http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const DOCX_DOCUMENT = "word/document.xml";
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46]; // %PDF
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const DOCUMENT_EXTENSIONS = [".pdf", ".docx"];
+
+async function loadPdfjs(): Promise<Pdfjs> {
+	const [pdfjs, worker] = await Promise.all([
+		import("pdfjs-dist"),
+		import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+	]);
+	pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+	return pdfjs;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+	return signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Whether a file is a document the text importer understands (.pdf or .docx)
+ */
+export function isDocumentFile(file: File): boolean {
+	const name = file.name.toLowerCase();
+	return DOCUMENT_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Returns the closest enclosing Word paragraph of a node
+ */
+function paragraphOf(node: Element): Element | null {
+	let current = node.parentElement;
+	while (
+		current &&
+		!(current.localName === "p" && current.namespaceURI === WORD_NAMESPACE)
+	) {
+		current = current.parentElement;
+	}
+	return current;
+}
+
+/**
+ * Extracts the paragraphs of a Word (.docx) document as lines of text.
+ *
+ * List items are prefixed with a bullet and line breaks inside a paragraph
+ * start a new line, so the layout of the document is kept as far as possible.
+ *
+ * @param data - The .docx file content
+ * @returns The lines of the document, empty paragraphs included
+ * @throws Error if the file is not a valid Word document
+ */
+export function extractDocxText(data: Uint8Array): string[] {
+	const entries = unzipSync(data, {
+		filter: (entry) => entry.name === DOCX_DOCUMENT,
+	});
+	const xml = entries[DOCX_DOCUMENT];
+	if (!xml) {
+		throw new Error(`${DOCX_DOCUMENT} is missing`);
+	}
+
+	const document = new DOMParser().parseFromString(
+		new TextDecoder("utf-8").decode(xml),
+		"application/xml",
+	);
+	if (document.getElementsByTagName("parsererror").length > 0) {
+		throw new Error(`${DOCX_DOCUMENT} is not valid XML`);
+	}
+
+	const lines: string[] = [];
+	for (const paragraph of Array.from(
+		document.getElementsByTagNameNS(WORD_NAMESPACE, "p"),
+	)) {
+		const bullet =
+			paragraph.getElementsByTagNameNS(WORD_NAMESPACE, "numPr").length > 0;
+		let text = "";
+		for (const node of Array.from(
+			paragraph.getElementsByTagNameNS(WORD_NAMESPACE, "*"),
+		)) {
+			// Text boxes nest paragraphs; their text belongs to the inner paragraph
+			if (paragraphOf(node) !== paragraph) continue;
+			if (node.localName === "t") text += node.textContent ?? "";
+			else if (node.localName === "tab") text += "\t";
+			else if (node.localName === "br" || node.localName === "cr") {
+				text += "\n";
+			}
+		}
+		const [first = "", ...rest] = text.split("\n");
+		lines.push(bullet && first.trim() ? `• ${first}` : first, ...rest);
+	}
+	return lines;
+}
+
+/**
+ * Extracts the text of a text-based PDF as lines.
+ *
+ * Text items are joined into lines by their vertical position, and large
+ * vertical gaps and page breaks are kept as empty lines.
+ *
+ * @param data - The PDF file content
+ * @param loadPdf - Loads the PDF.js library
+ * @returns The lines of the document
+ * @throws Error if the file cannot be parsed as a PDF
+ */
+export async function extractPdfText(
+	data: Uint8Array,
+	loadPdf: PdfjsLoader = loadPdfjs,
+): Promise<string[]> {
+	const pdfjs = await loadPdf();
+	const pdf = await pdfjs.getDocument({
+		data,
+		// Only errors: missing font data affects rendering, not text extraction
+		verbosity: 0,
+	}).promise;
+
+	try {
+		const lines: string[] = [];
+		for (let number = 1; number <= pdf.numPages; number++) {
+			const page = await pdf.getPage(number);
+			const content = await page.getTextContent();
+			let line = "";
+			let lastY: number | null = null;
+			let lastEndX = 0;
+
+			for (const item of content.items) {
+				if (!("str" in item)) continue;
+				if (item.str === "") {
+					if (item.hasEOL && line.trim()) lines.push(line);
+					if (item.hasEOL) line = "";
+					continue;
+				}
+				const [, , , , x = 0, y = 0] = item.transform as number[];
+
+				if (lastY !== null && Math.abs(y - lastY) > 2) {
+					if (line.trim()) lines.push(line);
+					if (lastY - y > (item.height || 10) * 2) lines.push("");
+					line = "";
+				} else if (line && x > lastEndX + 1 && !/\s$/.test(line)) {
+					line += " ";
+				}
+
+				line += item.str;
+				lastY = y;
+				lastEndX = x + item.width;
+				if (item.hasEOL) {
+					if (line.trim()) lines.push(line);
+					line = "";
+				}
+			}
+			if (line.trim()) lines.push(line);
+			lines.push("");
+		}
+		return lines;
+	} finally {
+		await pdf.destroy();
+	}
+}
+
+/**
+ * Extracts the text of an uploaded resume document (.pdf or .docx).
+ *
+ * @param file - The uploaded document
+ * @param loadPdf - Loads the PDF.js library
+ * @returns The lines of the document
+ * @throws Error if the document cannot be read or contains no text
+ */
+export async function extractDocumentText(
+	file: File,
+	loadPdf?: PdfjsLoader,
+): Promise<string[]> {
+	const bytes = new Uint8Array(await file.arrayBuffer());
+
+	let lines: string[];
+	try {
+		if (startsWith(bytes, PDF_SIGNATURE)) {
+			lines = await extractPdfText(bytes, loadPdf);
+		} else if (startsWith(bytes, ZIP_SIGNATURE)) {
+			lines = extractDocxText(bytes);
+		} else {
+			throw new Error("Expected a PDF or Word (.docx) document");
+		}
+	} catch (error) {
+		throw new Error(
+			`Failed to read document ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+
+	if (!lines.some((line) => line.trim() !== "")) {
+		throw new Error(
+			`No text found in ${file.name}. Scanned documents are not supported`,
+		);
+	}
+	return lines;
+}
@@ -0,0 +1,87 @@
+import { zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import {
+	createBinaryFile,
+	createLinkedInArchive,
+	createLinkedInCsvFile,
+	linkedInCsv,
+	toBytes,
+} from "./__fixtures__/linkedin-export";
+import {
+	isLinkedInExportFile,
+	readLinkedInExport,
+} from "./LinkedInArchiveReader";
+
+describe("LinkedInArchiveReader", () => {
+	describe("isLinkedInExportFile", () => {
+		it("should accept archives and known CSV files only", () => {
+			expect(isLinkedInExportFile(new File([], "export.ZIP"))).toBe(true);
+			expect(isLinkedInExportFile(new File([], "Positions.csv"))).toBe(true);
+			expect(isLinkedInExportFile(new File([], "Connections.csv"))).toBe(false);
+			expect(isLinkedInExportFile(new File([], "resume.json"))).toBe(false);
+		});
+	});
+
+	describe("readLinkedInExport", () => {
+		it("should read the known files of an archive", async () => {
+			const data = await readLinkedInExport([createLinkedInArchive()]);
+
+			expect(Object.keys(data).sort()).toEqual([
+				"certifications",
+				"education",
+				"languages",
+				"positions",
+				"profile",
+				"skills",
+			]);
+			expect(data.positions).toHaveLength(3);
+			expect(data.positions?.[0]?.Description).toBe(
+				"Led the design system.\nMentored 4 engineers.",
+			);
+			expect(data.skills?.map((skill) => skill.Name)).toEqual([
+				"TypeScript",
+				"Vue.js",
+				"Testing, TDD",
+			]);
+		});
+
+		it("should find files in nested archive folders", async () => {
+			const nested = zipSync({
+				"export/Skills.csv": toBytes(linkedInCsv["Skills.csv"]),
+			});
+
+			const data = await readLinkedInExport([
+				createBinaryFile(nested, "data.zip"),
+			]);
+
+			expect(data.skills).toHaveLength(3);
+		});
+
+		it("should combine individual CSV files", async () => {
+			const data = await readLinkedInExport([
+				createLinkedInCsvFile("Skills.csv"),
+				createLinkedInCsvFile("Languages.csv"),
+				createLinkedInCsvFile("Connections.csv"),
+			]);
+
+			expect(Object.keys(data).sort()).toEqual(["languages", "skills"]);
+		});
+
+		it("should reject files without LinkedIn data", async () => {
+			await expect(
+				readLinkedInExport([createLinkedInArchive(["Connections.csv"])]),
+			).rejects.toThrow("No LinkedIn data found");
+		});
+
+		it("should wrap corrupted archives", async () => {
+			const corrupted = createBinaryFile(
+				new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0, 0]),
+				"broken.zip",
+			);
+
+			await expect(readLinkedInExport([corrupted])).rejects.toThrow(
+				"Failed to read LinkedIn archive broken.zip",
+			);
+		});
+	});
+});
@@ -0,0 +1,106 @@
+import { unzipSync } from "fflate";
+import { type CsvRecord, parseCsvRecords } from "./csv";
+
+/**
+ * Files of the LinkedIn "Download your data" export used to build a resume,
+ * with a column identifying the header row of each file
+ */
+export const LINKEDIN_FILES = {
+	profile: { name: "Profile.csv", header: "First Name" },
+	positions: { name: "Positions.csv", header: "Company Name" },
+	education: { name: "Education.csv", header: "School Name" },
+	skills: { name: "Skills.csv", header: "Name" },
+	languages: { name: "Languages.csv", header: "Name" },
+	certifications: { name: "Certifications.csv", header: "Name" },
+} as const;
+
+export type LinkedInFile = keyof typeof LINKEDIN_FILES;
+
+/**
+ * Parsed LinkedIn export: the records of each file found
+ */
+export type LinkedInExport = Partial<Record<LinkedInFile, CsvRecord[]>>;
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+function baseName(path: string): string {
+	return path.split("/").pop()?.toLowerCase() ?? "";
+}
+
+function findLinkedInFile(path: string): LinkedInFile | null {
+	const name = baseName(path);
+	const entry = Object.entries(LINKEDIN_FILES).find(
+		([, file]) => file.name.toLowerCase() === name,
+	);
+	return entry ? (entry[0] as LinkedInFile) : null;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+	return ZIP_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Whether a file looks like part of a LinkedIn data export: a ZIP archive or
+ * one of the CSV files the importer understands.
+ */
+export function isLinkedInExportFile(file: File): boolean {
+	const name = file.name.toLowerCase();
+	return name.endsWith(".zip") || findLinkedInFile(name) !== null;
+}
+
+/**
+ * Reads LinkedIn export files, either the ZIP archive as downloaded or the
+ * individual CSV files extracted from it.
+ *
+ * Unknown files are ignored, so the full archive can be passed as is.
+ *
+ * @param files - The ZIP archive and/or CSV files
+ * @returns The records of every recognised file
+ * @throws Error if an archive cannot be unpacked or no LinkedIn file is found
+ */
+export async function readLinkedInExport(
+	files: ReadonlyArray<File>,
+): Promise<LinkedInExport> {
+	const texts = new Map<LinkedInFile, string>();
+	const decoder = new TextDecoder("utf-8");
+
+	for (const file of files) {
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		if (isZip(bytes)) {
+			let entries: Record<string, Uint8Array>;
+			try {
+				entries = unzipSync(bytes, {
+					filter: (entry) => findLinkedInFile(entry.name) !== null,
+				});
+			} catch (error) {
+				throw new Error(
+					`Failed to read LinkedIn archive ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+			for (const [path, content] of Object.entries(entries)) {
+				const key = findLinkedInFile(path);
+				if (key) texts.set(key, decoder.decode(content));
+			}
+			continue;
+		}
+
+		const key = findLinkedInFile(file.name);
+		if (key) texts.set(key, decoder.decode(bytes));
+	}
+
+	if (texts.size === 0) {
+		throw new Error(
+			`No LinkedIn data found. Expected the export archive or one of: ${Object.values(
+				LINKEDIN_FILES,
+			)
+				.map((file) => file.name)
+				.join(", ")}`,
+		);
+	}
+
+	const result: LinkedInExport = {};
+	for (const [key, text] of texts) {
+		result[key] = parseCsvRecords(text, LINKEDIN_FILES[key].header);
+	}
+	return result;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { JsonResumeValidator } from "@/core/resume/infrastructure/validation/JsonResumeValidator";
+import { createLinkedInArchive } from "./__fixtures__/linkedin-export";
+import { readLinkedInExport } from "./LinkedInArchiveReader";
+import { mapLinkedInExport } from "./LinkedInResumeMapper";
+
+describe("LinkedInResumeMapper", () => {
+	describe("mapLinkedInExport", () => {
+		const mapFixture = async () =>
+			mapLinkedInExport(await readLinkedInExport([createLinkedInArchive()]));
+
+		it("should map the profile to basics", async () => {
+			const { resume } = await mapFixture();
+
+			expect(resume.basics).toMatchObject({
+				name: "Jane Doe",
+				label: "Senior Software Engineer",
+				summary: "Builds reliable, accessible web apps.",
+				url: "https://janedoe.dev",
+				location: {
+					city: "Madrid",
+					region: "Community of Madrid",
+					postalCode: "28001",
+				},
+				profiles: [
+					{
+						network: "Twitter",
+						username: "janedoe",
+						url: "https://twitter.com/janedoe",
+					},
+				],
+			});
+		});
+
+		it("should map positions, education, skills, languages and certifications", async () => {
+			const { resume } = await mapFixture();
+
+			expect(resume.work).toEqual([
+				{
+					name: "Acme Corp",
+					position: "Senior Software Engineer",
+					url: "",
+					startDate: "2021-03",
+					endDate: "",
+					summary: "Led the design system.\nMentored 4 engineers.",
+					highlights: [],
+				},
+				expect.objectContaining({
+					name: "Globex",
+					startDate: "2018-01",
+					endDate: "2021-02",
+				}),
+			]);
+			expect(resume.education[0]).toMatchObject({
+				institution: "Universidad Politécnica de Madrid",
+				studyType: "Bachelor of Computer Science",
+				startDate: "2013",
+				endDate: "2017",
+			});
+			expect(resume.skills.map((skill) => skill.name)).toEqual([
+				"TypeScript",
+				"Vue.js",
+				"Testing, TDD",
+			]);
+			expect(resume.languages).toEqual([
+				{ language: "Spanish", fluency: "Native or bilingual proficiency" },
+				{ language: "English", fluency: "Full professional proficiency" },
+			]);
+			expect(resume.certificates).toEqual([
+				{
+					name: "AWS Certified Developer",
+					date: "2022-06",
+					issuer: "Amazon Web Services",
+					url: "https://aws.amazon.com/verify/123",
+				},
+			]);
+		});
+
+		it("should produce a resume passing schema validation", async () => {
+			const { resume } = await mapFixture();
+
+			expect(new JsonResumeValidator().validate(resume)).toBe(true);
+		});
+
+		it("should report skipped rows as issues", async () => {
+			const { issues } = await mapFixture();
+
+			expect(issues).toEqual([
+				{
+					path: "work",
+					message: 'Skipped row 3: "Company Name" is empty',
+					section: "Work Experience",
+				},
+			]);
+		});
+
+		it("should report unreadable dates, invalid URLs and a missing profile", () => {
+			const { resume, issues } = mapLinkedInExport({
+				positions: [
+					{
+						"Company Name": "Acme",
+						Title: "Intern",
+						"Started On": "Summer 2017",
+						"Finished On": "",
+					},
+				],
+				certifications: [{ Name: "Scrum", Url: "not a url" }],
+			});
+
+			expect(resume.work[0]?.startDate).toBe("");
+			expect(resume.certificates[0]?.url).toBe("");
+			expect(issues.map((issue) => issue.path)).toEqual([
+				"basics",
+				"work[0].startDate",
+				"certificates[0].url",
+			]);
+		});
+	});
+});
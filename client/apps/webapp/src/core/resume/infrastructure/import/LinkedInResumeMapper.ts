@@ -0,0 +1,237 @@
+import type {
+	Basics,
+	Certificate,
+	Education,
+	Language,
+	Profile,
+	Resume,
+	Skill,
+	Work,
+} from "@/core/resume/domain/Resume";
+import type { ValidationError } from "@/core/resume/domain/ResumeValidator";
+import type { CsvRecord } from "./csv";
+import { parseResumeDate } from "./dates";
+import type { LinkedInExport } from "./LinkedInArchiveReader";
+
+/**
+ * Result of mapping a LinkedIn export to a resume
+ */
+export interface LinkedInMappingResult {
+	resume: Resume;
+	/** Data that could not be mapped and was dropped or left empty */
+	issues: ValidationError[];
+}
+
+function extractUrls(value: string): string[] {
+	return value.match(/https?:\/\/[^\s,\]]+/g) ?? [];
+}
+
+/**
+ * Splits a LinkedIn location ("Madrid, Community of Madrid, Spain") into city
+ * and region. A single part ("Greater Seattle Area") is taken as the region.
+ */
+function splitGeoLocation(value: string): { city: string; region: string } {
+	const parts = value
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean);
+	if (parts.length === 1) {
+		return { city: "", region: parts[0] ?? "" };
+	}
+	return {
+		city: parts[0] ?? "",
+		region: parts.length > 2 ? (parts[1] ?? "") : "",
+	};
+}
+
+/**
+ * Maps the files of a LinkedIn data export to a resume.
+ *
+ * Every problem found along the way (unreadable dates, entries without a name,
+ * missing files) is reported as an issue instead of failing the import, so the
+ * user can review and fix the result in the editor.
+ *
+ * @param data - The parsed LinkedIn export
+ * @returns The resume and the mapping issues
+ */
+export function mapLinkedInExport(data: LinkedInExport): LinkedInMappingResult {
+	const issues: ValidationError[] = [];
+
+	const issue = (path: string, message: string, section: string) =>
+		issues.push({ path, message, section });
+
+	const date = (value: string | undefined, path: string, section: string) => {
+		const parsed = parseResumeDate(value ?? "");
+		if (parsed === null) {
+			issue(path, `Could not read the date "${value}"`, section);
+			return "";
+		}
+		return parsed;
+	};
+
+	/**
+	 * Keeps the records having a value in `column`, reporting the others
+	 */
+	const named = (
+		records: CsvRecord[] | undefined,
+		column: string,
+		path: string,
+		section: string,
+	): CsvRecord[] => {
+		const kept: CsvRecord[] = [];
+		(records ?? []).forEach((record, index) => {
+			if (record[column]) {
+				kept.push(record);
+			} else {
+				issue(path, `Skipped row ${index + 1}: "${column}" is empty`, section);
+			}
+		});
+		return kept;
+	};
+
+	const profile = data.profile?.[0];
+	if (!profile) {
+		issue(
+			"basics",
+			"Profile.csv was not found; personal details are empty",
+			"Personal Information",
+		);
+	}
+
+	const { city, region } = splitGeoLocation(profile?.["Geo Location"] ?? "");
+	const twitter = (profile?.["Twitter Handles"] ?? "")
+		.replace(/[[\]]/g, "")
+		.split(",")
+		.map((handle) => handle.trim().replace(/^@/, ""))
+		.filter(Boolean);
+	const profiles: Profile[] = twitter.map((username) => ({
+		network: "Twitter",
+		username,
+		url: `https://twitter.com/${username}`,
+	}));
+
+	const basics: Basics = {
+		name: [profile?.["First Name"], profile?.["Last Name"]]
+			.filter(Boolean)
+			.join(" "),
+		label: profile?.Headline ?? "",
+		image: "",
+		email: "",
+		phone: "",
+		url: extractUrls(profile?.Websites ?? "")[0] ?? "",
+		summary: profile?.Summary ?? "",
+		location: {
+			address: profile?.Address ?? "",
+			postalCode: profile?.["Zip Code"] ?? "",
+			city,
+			countryCode: "",
+			region,
+		},
+		profiles,
+	};
+
+	const work: Work[] = named(
+		data.positions,
+		"Company Name",
+		"work",
+		"Work Experience",
+	).map((record, index) => ({
+		name: record["Company Name"] ?? "",
+		position: record.Title ?? "",
+		url: "",
+		startDate: date(
+			record["Started On"],
+			`work[${index}].startDate`,
+			"Work Experience",
+		),
+		endDate: date(
+			record["Finished On"],
+			`work[${index}].endDate`,
+			"Work Experience",
+		),
+		summary: record.Description ?? "",
+		highlights: [],
+	}));
+
+	const education: Education[] = named(
+		data.education,
+		"School Name",
+		"education",
+		"Education",
+	).map((record, index) => ({
+		institution: record["School Name"] ?? "",
+		url: "",
+		area: "",
+		studyType: record["Degree Name"] ?? "",
+		startDate: date(
+			record["Start Date"],
+			`education[${index}].startDate`,
+			"Education",
+		),
+		endDate: date(
+			record["End Date"],
+			`education[${index}].endDate`,
+			"Education",
+		),
+		score: "",
+		courses: [],
+	}));
+
+	const skills: Skill[] = named(data.skills, "Name", "skills", "Skills").map(
+		(record) => ({ name: record.Name ?? "", level: "", keywords: [] }),
+	);
+
+	const languages: Language[] = named(
+		data.languages,
+		"Name",
+		"languages",
+		"Languages",
+	).map((record) => ({
+		language: record.Name ?? "",
+		fluency: record.Proficiency ?? "",
+	}));
+
+	const certificates: Certificate[] = named(
+		data.certifications,
+		"Name",
+		"certificates",
+		"Certificates",
+	).map((record, index) => {
+		const url = record.Url ?? "";
+		if (url && extractUrls(url).length === 0) {
+			issue(
+				`certificates[${index}].url`,
+				`Dropped the invalid URL "${url}"`,
+				"Certificates",
+			);
+		}
+		return {
+			name: record.Name ?? "",
+			date: date(
+				record["Started On"],
+				`certificates[${index}].date`,
+				"Certificates",
+			),
+			issuer: record.Authority ?? "",
+			url: extractUrls(url)[0] ?? "",
+		};
+	});
+
+	return {
+		resume: {
+			basics,
+			work,
+			volunteer: [],
+			education,
+			awards: [],
+			certificates,
+			publications: [],
+			skills,
+			languages,
+			interests: [],
+			references: [],
+			projects: [],
+		},
+		issues,
+	};
+}
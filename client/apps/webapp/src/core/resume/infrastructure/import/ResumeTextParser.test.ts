@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest";
+import { JsonResumeValidator } from "@/core/resume/infrastructure/validation/JsonResumeValidator";
+import { resumeLines } from "./__fixtures__/resume-documents";
+import { parseResumeText } from "./ResumeTextParser";
+
+describe("ResumeTextParser", () => {
+	describe("parseResumeText", () => {
+		it("should read personal details from the lines before the first heading", () => {
+			const { resume, confidence } = parseResumeText(resumeLines);
+
+			expect(resume.basics).toMatchObject({
+				name: "Jane Doe",
+				label: "Senior Software Engineer",
+				email: "jane.doe@example.com",
+				phone: "+34 600 123 456",
+				url: "https://janedoe.dev",
+				summary:
+					"Software engineer with 8 years of experience building accessible web applications.",
+				location: { city: "Madrid", region: "Spain" },
+				profiles: [
+					{
+						network: "LinkedIn",
+						username: "janedoe",
+						url: "https://linkedin.com/in/janedoe",
+					},
+					{
+						network: "GitHub",
+						username: "janedoe",
+						url: "https://github.com/janedoe",
+					},
+				],
+			});
+			expect(confidence).toMatchObject({
+				"basics.email": "high",
+				"basics.name": "medium",
+				"basics.location.city": "low",
+			});
+		});
+
+		it("should split experience into entries on their date ranges", () => {
+			const { resume, confidence } = parseResumeText(resumeLines);
+
+			expect(resume.work).toEqual([
+				{
+					name: "Acme Corp",
+					position: "Senior Software Engineer",
+					url: "",
+					startDate: "2021-03",
+					endDate: "",
+					summary: "",
+					highlights: [
+						"Led the design system used by 12 product teams",
+						"Mentored 4 engineers",
+					],
+				},
+				{
+					name: "Globex",
+					position: "Software Engineer",
+					url: "",
+					startDate: "2018-01",
+					endDate: "2021-02",
+					summary: "Built the payments dashboard.",
+					highlights: [],
+				},
+			]);
+			expect(confidence).toMatchObject({
+				"work[0].position": "medium",
+				"work[0].startDate": "high",
+				"work[1].endDate": "high",
+			});
+		});
+
+		it("should read education, skills, languages, certificates and interests", () => {
+			const { resume } = parseResumeText(resumeLines);
+
+			expect(resume.education).toEqual([
+				expect.objectContaining({
+					institution: "Universidad Politécnica de Madrid",
+					studyType: "Bachelor of Science",
+					area: "Computer Science",
+					startDate: "2013",
+					endDate: "2017",
+				}),
+			]);
+			expect(resume.skills).toEqual([
+				{
+					name: "Languages",
+					level: "",
+					keywords: ["TypeScript", "Kotlin", "SQL"],
+				},
+				{ name: "Vue.js", level: "", keywords: [] },
+				{ name: "Spring Boot", level: "", keywords: [] },
+				{ name: "PostgreSQL", level: "", keywords: [] },
+			]);
+			expect(resume.languages).toEqual([
+				{ language: "Spanish", fluency: "Native" },
+				{ language: "English", fluency: "C1" },
+			]);
+			expect(resume.certificates).toEqual([
+				{
+					name: "AWS Certified Developer",
+					issuer: "Amazon Web Services",
+					date: "2022-06",
+					url: "",
+				},
+			]);
+			expect(resume.interests.map((interest) => interest.name)).toEqual([
+				"Climbing",
+				"Photography",
+			]);
+		});
+
+		it("should produce a resume that passes validation", () => {
+			const { resume } = parseResumeText(resumeLines);
+
+			expect(new JsonResumeValidator().validate(resume)).toBe(true);
+		});
+
+		it("should recognise Spanish headings and dates", () => {
+			const { resume } = parseResumeText([
+				"María García",
+				"maria@example.es",
+				"EXPERIENCIA PROFESIONAL",
+				"Desarrolladora Frontend en Acme",
+				"Septiembre 2019 - Actualidad",
+				"FORMACIÓN ACADÉMICA",
+				"Grado en Ingeniería Informática",
+				"Universidad de Sevilla | 2014 - 2018",
+				"Nota media: 8,2",
+				"IDIOMAS",
+				"Inglés: C1",
+			]);
+
+			expect(resume.basics.name).toBe("María García");
+			expect(resume.work[0]).toMatchObject({
+				name: "Acme",
+				position: "Desarrolladora Frontend",
+				startDate: "2019-09",
+				endDate: "",
+			});
+			expect(resume.education[0]).toMatchObject({
+				institution: "Universidad de Sevilla",
+				studyType: "Grado",
+				area: "Ingeniería Informática",
+				startDate: "2014",
+				endDate: "2018",
+				score: "8,2",
+			});
+			expect(resume.languages).toEqual([{ language: "Inglés", fluency: "C1" }]);
+		});
+
+		it("should name entries from the lines after the dates when they come first", () => {
+			const { resume } = parseResumeText([
+				"Jane Doe",
+				"Experience",
+				"2020 – 2022",
+				"Acme Corp",
+				"Backend Developer",
+				"• Built APIs",
+			]);
+
+			expect(resume.work).toEqual([
+				expect.objectContaining({
+					name: "Acme Corp",
+					position: "Backend Developer",
+					highlights: ["Built APIs"],
+				}),
+			]);
+		});
+
+		it("should mark guesses with low confidence", () => {
+			const { resume, confidence } = parseResumeText([
+				"Jane Doe",
+				"Experience",
+				"Acme Corp | Globex",
+				"2020 – 2022",
+			]);
+
+			expect(resume.work[0]).toMatchObject({
+				position: "Acme Corp",
+				name: "Globex",
+			});
+			expect(confidence["work[0].position"]).toBe("low");
+			expect(confidence["work[0].name"]).toBe("low");
+		});
+
+		it("should join wrapped bullet lines", () => {
+			const { resume } = parseResumeText([
+				"Experience",
+				"Software Engineer — Acme",
+				"2019 - 2020",
+				"• Migrated the billing service to",
+				"event sourcing",
+			]);
+
+			expect(resume.work[0]?.highlights).toEqual([
+				"Migrated the billing service to event sourcing",
+			]);
+		});
+
+		it("should split undated sections on blank lines", () => {
+			const { resume, confidence } = parseResumeText([
+				"Projects",
+				"cvix | github.com/dallay/cvix",
+				"Resume builder with PDF generation.",
+				"",
+				"Dotfiles",
+				"• Shell setup",
+			]);
+
+			expect(resume.projects).toEqual([
+				expect.objectContaining({
+					name: "cvix",
+					url: "https://github.com/dallay/cvix",
+					description: "Resume builder with PDF generation.",
+				}),
+				expect.objectContaining({
+					name: "Dotfiles",
+					highlights: ["Shell setup"],
+				}),
+			]);
+			expect(confidence["projects[0].name"]).toBe("low");
+		});
+
+		it("should keep lines that fit nowhere as unassigned", () => {
+			const { unassigned, resume } = parseResumeText([
+				"Jane Doe",
+				"Senior Software Engineer",
+				"Open to relocation",
+				"References",
+				"Available upon request",
+			]);
+
+			expect(resume.references).toEqual([]);
+			expect(unassigned).toEqual([
+				"Open to relocation",
+				"Available upon request",
+			]);
+		});
+
+		it("should treat a long untitled paragraph in the header as the summary", () => {
+			const summary =
+				"Engineer with a decade of experience shipping web products for startups and large companies alike.";
+			const { resume, confidence } = parseResumeText([
+				"Jane Doe",
+				summary,
+				"Skills",
+				"Go",
+			]);
+
+			expect(resume.basics.summary).toBe(summary);
+			expect(confidence["basics.summary"]).toBe("low");
+		});
+	});
+});
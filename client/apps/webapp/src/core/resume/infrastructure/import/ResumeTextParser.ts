@@ -0,0 +1,883 @@
+import type {
+	Award,
+	Basics,
+	Certificate,
+	Education,
+	Interest,
+	Language,
+	Profile,
+	Project,
+	Publication,
+	Reference,
+	Resume,
+	Skill,
+	Volunteer,
+	Work,
+} from "@/core/resume/domain/Resume";
+import type {
+	ImportConfidence,
+	ResumeDraft,
+} from "@/core/resume/domain/ResumeDraft";
+import { type DateRange, findDateRange } from "./dates";
+
+/**
+ * Parts of a resume introduced by a heading in the document
+ */
+type TextSection = Exclude<keyof Resume, "basics"> | "summary";
+
+// Headings in English and Spanish, compared after normalizeText()
+const SECTION_HEADINGS: Record<TextSection, string[]> = {
+	summary: [
+		"summary",
+		"professional summary",
+		"profile",
+		"professional profile",
+		"about",
+		"about me",
+		"objective",
+		"career objective",
+		"resumen",
+		"resumen profesional",
+		"perfil",
+		"perfil profesional",
+		"sobre mi",
+		"acerca de mi",
+		"extracto",
+		"objetivo",
+		"objetivo profesional",
+	],
+	work: [
+		"experience",
+		"work experience",
+		"professional experience",
+		"employment",
+		"employment history",
+		"work history",
+		"career history",
+		"experiencia",
+		"experiencia laboral",
+		"experiencia profesional",
+		"historial laboral",
+	],
+	volunteer: [
+		"volunteer",
+		"volunteering",
+		"volunteer experience",
+		"voluntariado",
+		"experiencia de voluntariado",
+	],
+	education: [
+		"education",
+		"education and training",
+		"academic background",
+		"educacion",
+		"formacion",
+		"formacion academica",
+		"estudios",
+	],
+	skills: [
+		"skills",
+		"technical skills",
+		"core competencies",
+		"competencies",
+		"technologies",
+		"habilidades",
+		"habilidades tecnicas",
+		"competencias",
+		"conocimientos",
+		"aptitudes",
+		"tecnologias",
+	],
+	languages: ["languages", "idiomas", "lenguas"],
+	certificates: [
+		"certifications",
+		"certificates",
+		"licenses and certifications",
+		"certificaciones",
+		"certificados",
+		"licencias y certificaciones",
+	],
+	awards: [
+		"awards",
+		"honors",
+		"honors and awards",
+		"awards and honors",
+		"achievements",
+		"premios",
+		"reconocimientos",
+		"premios y reconocimientos",
+		"logros",
+	],
+	publications: ["publications", "publicaciones"],
+	projects: [
+		"projects",
+		"personal projects",
+		"side projects",
+		"proyectos",
+		"proyectos personales",
+	],
+	interests: [
+		"interests",
+		"hobbies",
+		"interests and hobbies",
+		"intereses",
+		"aficiones",
+	],
+	references: ["references", "referencias"],
+};
+
+const HEADINGS = new Map<string, TextSection>(
+	Object.entries(SECTION_HEADINGS).flatMap(([section, headings]) =>
+		headings.map((heading) => [heading, section as TextSection] as const),
+	),
+);
+
+const BULLET_REGEX = /^(?:[•▪◦●○■□►▸‣∙*-]|\d{1,2}[.)])\s+/;
+const EMAIL_REGEX = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_REGEX = /\+?\d[\d\s().-]{7,}\d/;
+const PROFILE_REGEX =
+	/(?:https?:\/\/)?(?:www\.)?(linkedin\.com\/in|github\.com|gitlab\.com|twitter\.com|x\.com)\/([\w.-]+)\/?/i;
+const URL_REGEX =
+	/(?:https?:\/\/[^\s|,]+|www\.[^\s|,]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|dev|io|net|org|es|me|app|co|tech|info|page)(?:\/[^\s|,]*)?)/i;
+const NAME_REGEX = /^\p{Lu}[\p{L}'’.-]*(?:\s+\p{L}[\p{L}'’.-]*){1,4}$/u;
+const LOCATION_REGEX = /^[\p{L} .'’-]+,\s*[\p{L} .'’-]+$/u;
+
+// Separators between the parts of an entry header ("Engineer — Acme | Madrid")
+const HEADER_SEPARATOR_REGEX = /\s+[|·•@–—-]\s+|\s*\|\s*/;
+// Words joining a job title and an employer ("Engineer at Acme")
+const EMPLOYER_SEPARATOR_REGEX = /\s+(?:at|en)\s+/i;
+
+// Matched against normalizeText() output, so without accents
+const JOB_TITLE_REGEX =
+	/\b(engineer|developer|programmer|manager|lead|head|director|intern|analyst|designer|consultant|architect|specialist|coordinator|administrator|assistant|associate|officer|scientist|founder|owner|cto|ceo|vp|president|teacher|technician|writer|editor|mentor|tutor|volunteer|ingeniera?|desarrollador(?:a)?|programador(?:a)?|jef[ea]|responsable|becari[oa]|analista|disenador(?:a)?|consultor(?:a)?|directora?|arquitect[oa]|tecnic[oa]|administrador(?:a)?|asistente|coordinador(?:a)?|gerente|fundador(?:a)?|profesor(?:a)?|voluntari[oa])\b/;
+const INSTITUTION_REGEX =
+	/\b(university|universidad|universitat|college|school|institute|instituto|escuela|academy|academia|colegio|facultad|politecnic[ao]?|polytechnic|bootcamp)\b/;
+const DEGREE_REGEX =
+	/\b(bachelor|master|masters|msc|bsc|ba|ma|mba|phd|doctor|doctorado|degree|grado|licenciatura|licenciado|diploma|diplomatura|ingenieria|engineering|certificate|certificado|associate|tecnico superior|ciclo formativo|high school|bachillerato)\b/;
+const FIELD_OF_STUDY_REGEX = /^(.+?)\s+(?:in|en)\s+(.+)$/i;
+const SCORE_REGEX =
+	/\b(?:gpa|grade|nota media|calificaci[oó]n)\b\s*:?\s*([\d.,/]+(?:\s*\/\s*[\d.,]+)?)/i;
+const COURSES_REGEX =
+	/^(?:relevant\s+)?(?:courses|coursework|asignaturas)(?:\s+\w+)?\s*:\s*(.+)$/i;
+const REFERENCES_ON_REQUEST_REGEX =
+	/upon request|on request|a peticion|bajo peticion|disponibles/;
+
+/**
+ * Mutable state shared by the section parsers
+ */
+interface ParseContext {
+	confidence: Record<string, ImportConfidence>;
+	unassigned: string[];
+}
+
+/**
+ * An entry of a dated section: the lines naming it, its dates and its content
+ */
+interface TextEntry {
+	header: string[];
+	dates: DateRange | null;
+	body: string[];
+}
+
+/**
+ * Lowercases text and strips accents and punctuation, for keyword matching
+ */
+function normalizeText(text: string): string {
+	return text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/&/g, " and ")
+		.replace(/[^a-z0-9 ]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Tidies a line of extracted text; tabs and wide gaps become column separators
+ */
+function cleanLine(line: string): string {
+	return line
+		.replace(/\t+|\s{3,}/g, " | ")
+		.replace(/\s+/g, " ")
+		.replace(/^[\s|]+|[\s|]+$/g, "");
+}
+
+function headingOf(line: string): TextSection | null {
+	if (line.length > 40) return null;
+	return HEADINGS.get(normalizeText(line)) ?? null;
+}
+
+function isBullet(line: string): boolean {
+	return BULLET_REGEX.test(line);
+}
+
+function stripBullet(line: string): string {
+	return line.replace(BULLET_REGEX, "").trim();
+}
+
+function toUrl(value: string): string {
+	return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+/**
+ * Splits a list ("Go, Rust; SQL") on separators outside parentheses
+ */
+function splitList(text: string): string[] {
+	const items: string[] = [];
+	let depth = 0;
+	let item = "";
+	for (const char of text) {
+		if (char === "(") depth++;
+		if (char === ")") depth = Math.max(0, depth - 1);
+		if (depth === 0 && /[,;|•·]/.test(char)) {
+			items.push(item);
+			item = "";
+		} else {
+			item += char;
+		}
+	}
+	items.push(item);
+	return items.map((value) => stripBullet(value.trim())).filter(Boolean);
+}
+
+/**
+ * Splits an entry header into its parts, using a comma as a last resort
+ */
+function splitHeader(text: string, employer = false): string[] {
+	let pieces = text.split(HEADER_SEPARATOR_REGEX);
+	if (employer && pieces.length === 1) {
+		pieces = text.split(EMPLOYER_SEPARATOR_REGEX);
+	}
+	if (pieces.length === 1 && text.includes(", ")) {
+		const index = text.indexOf(", ");
+		pieces = [text.slice(0, index), text.slice(index + 2)];
+	}
+	return pieces
+		.map((piece) => piece.replace(/^[\s,()]+|[\s,()]+$/g, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Groups the lines of a document under the section headings found in it.
+ * Lines before the first heading form the header with the personal details.
+ */
+function splitSections(lines: ReadonlyArray<string>): {
+	header: string[];
+	sections: Map<TextSection, string[]>;
+} {
+	const header: string[] = [];
+	const sections = new Map<TextSection, string[]>();
+	let current: string[] = header;
+
+	for (const raw of lines) {
+		const line = cleanLine(raw);
+		const section = line ? headingOf(line.replace(/:$/, "")) : null;
+		if (section) {
+			current = sections.get(section) ?? [];
+			sections.set(section, current);
+		} else {
+			current.push(line);
+		}
+	}
+	return { header, sections };
+}
+
+/**
+ * Dates starting an entry: a period anywhere in the line, or a single date on
+ * a short line (a date inside a long sentence is part of the description)
+ */
+function entryDates(line: string): DateRange | null {
+	if (!line || isBullet(line)) return null;
+	const dates = findDateRange(line);
+	if (!dates || (dates.endDate === null && line.length > 60)) return null;
+	return dates;
+}
+
+function isHeaderLine(line: string): boolean {
+	return (
+		line !== "" && !isBullet(line) && line.length <= 80 && !line.endsWith(".")
+	);
+}
+
+/**
+ * Splits a dated section into entries anchored on their dates.
+ *
+ * An entry is named by up to two short lines right before its dates (or the
+ * rest of the date line); the lines after the dates are its content. Sections
+ * without dates are split on blank lines instead.
+ */
+function splitEntries(lines: string[], context: ParseContext): TextEntry[] {
+	const anchors = lines.flatMap((line, index) => {
+		const dates = entryDates(line);
+		return dates ? [{ index, dates }] : [];
+	});
+
+	if (anchors.length === 0) {
+		return lines
+			.join("\n")
+			.split(/\n{2,}/)
+			.map((block) => block.split("\n").filter(Boolean))
+			.filter((block) => block.length > 0)
+			.map(([first = "", ...body]) => ({ header: [first], dates: null, body }));
+	}
+
+	const entries: TextEntry[] = [];
+	let previous = -1;
+	for (const { index, dates } of anchors) {
+		let start = index;
+		while (
+			start - 1 > previous &&
+			index - start < 2 &&
+			isHeaderLine(lines[start - 1] ?? "")
+		) {
+			start--;
+		}
+
+		const before = lines.slice(previous + 1, start).filter(Boolean);
+		const last = entries[entries.length - 1];
+		if (last) last.body.push(...before);
+		else context.unassigned.push(...before);
+
+		const rest = (lines[index] ?? "")
+			.replace(dates.text, "")
+			.replace(/^[\s|,()–—-]+|[\s|,()–—-]+$/g, "");
+		const header = [...lines.slice(start, index), ...(rest ? [rest] : [])];
+		entries.push({ header, dates, body: [] });
+		previous = index;
+	}
+	entries[entries.length - 1]?.body.push(
+		...lines.slice(previous + 1).filter(Boolean),
+	);
+
+	// Layouts putting the dates first name the entry on the following lines
+	for (const entry of entries.filter((entry) => entry.header.length === 0)) {
+		while (entry.header.length < 2 && isHeaderLine(entry.body[0] ?? "")) {
+			entry.header.push(entry.body.shift() as string);
+		}
+	}
+	return entries;
+}
+
+/**
+ * Splits entry content into a summary and bullet highlights, joining wrapped
+ * bullet lines back together
+ */
+function splitBody(body: string[]): { summary: string; highlights: string[] } {
+	const summary: string[] = [];
+	const highlights: string[] = [];
+	let inBullet = false;
+	for (const line of body) {
+		if (isBullet(line)) {
+			highlights.push(stripBullet(line));
+			inBullet = true;
+		} else if (inBullet && /^\p{Ll}/u.test(line)) {
+			highlights[highlights.length - 1] += ` ${line}`;
+		} else {
+			summary.push(line);
+			inBullet = false;
+		}
+	}
+	return { summary: summary.join(" "), highlights };
+}
+
+function mark(
+	context: ParseContext,
+	path: string,
+	value: string | ReadonlyArray<unknown>,
+	level: ImportConfidence,
+): void {
+	if (value.length > 0) context.confidence[path] = level;
+}
+
+function markDates(
+	context: ParseContext,
+	path: string,
+	dates: DateRange | null,
+	endField = "endDate",
+): void {
+	if (!dates) return;
+	mark(
+		context,
+		`${path}.startDate`,
+		dates.startDate,
+		dates.endDate === null ? "medium" : "high",
+	);
+	mark(context, `${path}.${endField}`, dates.endDate ?? "", "high");
+}
+
+function parseBasics(
+	lines: string[],
+	hasSummary: boolean,
+	context: ParseContext,
+): Basics {
+	const basics = {
+		name: "",
+		label: "",
+		image: "",
+		email: "",
+		phone: "",
+		url: "",
+		summary: "",
+		location: {
+			address: "",
+			postalCode: "",
+			city: "",
+			countryCode: "",
+			region: "",
+		},
+		profiles: [] as Profile[],
+	};
+	const rest: string[] = [];
+
+	const pieces = lines
+		.flatMap((line) => line.split(/\s*[|•·]\s*/))
+		.map((piece) => piece.trim())
+		.filter(Boolean);
+
+	for (const piece of pieces) {
+		const email = EMAIL_REGEX.exec(piece);
+		const profile = PROFILE_REGEX.exec(piece);
+		const url = URL_REGEX.exec(piece);
+		const phone = PHONE_REGEX.exec(piece);
+
+		if (email) {
+			if (basics.email) context.unassigned.push(piece);
+			else basics.email = email[0];
+			mark(context, "basics.email", basics.email, "high");
+		} else if (profile?.[1] && profile[2]) {
+			const host = profile[1].toLowerCase();
+			const network = host.startsWith("linkedin")
+				? "LinkedIn"
+				: host.startsWith("github")
+					? "GitHub"
+					: host.startsWith("gitlab")
+						? "GitLab"
+						: "Twitter";
+			const url = toUrl(profile[0].replace(/\/$/, ""));
+			mark(
+				context,
+				`basics.profiles[${basics.profiles.length}].url`,
+				url,
+				"high",
+			);
+			basics.profiles.push({ network, username: profile[2], url });
+		} else if (url && !basics.url) {
+			basics.url = toUrl(url[0]);
+			mark(context, "basics.url", basics.url, "medium");
+		} else if (
+			phone &&
+			!basics.phone &&
+			phone[0].replace(/\D/g, "").length >= 9
+		) {
+			basics.phone = phone[0].trim();
+			mark(context, "basics.phone", basics.phone, "medium");
+		} else {
+			rest.push(piece);
+		}
+	}
+
+	const nameIndex = rest.findIndex(
+		(piece) =>
+			NAME_REGEX.test(piece) && !JOB_TITLE_REGEX.test(normalizeText(piece)),
+	);
+	if (nameIndex >= 0 || rest.length > 0) {
+		const index = Math.max(nameIndex, 0);
+		basics.name = rest.splice(index, 1)[0] ?? "";
+		mark(
+			context,
+			"basics.name",
+			basics.name,
+			nameIndex >= 0 ? "medium" : "low",
+		);
+	}
+
+	const locationIndex = rest.findIndex((piece) => LOCATION_REGEX.test(piece));
+	if (locationIndex >= 0) {
+		const [city = "", region = ""] = (rest.splice(locationIndex, 1)[0] ?? "")
+			.split(",")
+			.map((part) => part.trim());
+		basics.location.city = city;
+		basics.location.region = region;
+		mark(context, "basics.location.city", city, "low");
+		mark(context, "basics.location.region", region, "low");
+	}
+
+	const labelIndex = rest.findIndex((piece) => piece.length <= 80);
+	if (labelIndex >= 0) {
+		basics.label = rest.splice(labelIndex, 1)[0] ?? "";
+		mark(
+			context,
+			"basics.label",
+			basics.label,
+			JOB_TITLE_REGEX.test(normalizeText(basics.label)) ? "medium" : "low",
+		);
+	}
+
+	// A long paragraph in the header is usually an untitled summary
+	if (!hasSummary) {
+		const summary = rest.filter((piece) => piece.length > 80);
+		basics.summary = summary.join(" ");
+		mark(context, "basics.summary", basics.summary, "low");
+		context.unassigned.push(...rest.filter((piece) => piece.length <= 80));
+	} else {
+		context.unassigned.push(...rest);
+	}
+
+	return basics;
+}
+
+/**
+ * Tells the job title from the employer among the parts of an entry header
+ */
+function splitRole(pieces: string[]): {
+	position: string;
+	organization: string;
+	rest: string[];
+	level: ImportConfidence;
+} {
+	const titleIndex = pieces.findIndex((piece) =>
+		JOB_TITLE_REGEX.test(normalizeText(piece)),
+	);
+	if (titleIndex < 0) {
+		const [position = "", organization = "", ...rest] = pieces;
+		return { position, organization, rest, level: "low" };
+	}
+	const others = pieces.filter((_, index) => index !== titleIndex);
+	const [organization = "", ...rest] = others;
+	return {
+		position: pieces[titleIndex] ?? "",
+		organization,
+		rest,
+		level: "medium",
+	};
+}
+
+/**
+ * Reads the entries of the work and volunteer sections, which share a layout
+ *
+ * @param organizationField - Name of the employer field in the section
+ */
+function parseRoles(
+	lines: string[],
+	context: ParseContext,
+	section: "work" | "volunteer",
+	organizationField: "name" | "organization",
+): Array<Omit<Volunteer, "organization"> & { organization: string }> {
+	return splitEntries(lines, context).map((entry, index) => {
+		const path = `${section}[${index}]`;
+		const { position, organization, rest, level } = splitRole(
+			splitHeader(entry.header.join(" | "), true),
+		);
+		const { summary, highlights } = splitBody(entry.body);
+		context.unassigned.push(...rest);
+
+		mark(context, `${path}.position`, position, level);
+		mark(context, `${path}.${organizationField}`, organization, level);
+		markDates(context, path, entry.dates);
+		mark(context, `${path}.summary`, summary, "medium");
+		mark(context, `${path}.highlights`, highlights, "high");
+
+		return {
+			organization,
+			position,
+			url: "",
+			startDate: entry.dates?.startDate ?? "",
+			endDate: entry.dates?.endDate ?? "",
+			summary,
+			highlights,
+		};
+	});
+}
+
+function parseEducation(lines: string[], context: ParseContext): Education[] {
+	return splitEntries(lines, context).map((entry, index) => {
+		const path = `education[${index}]`;
+		const pieces = splitHeader(entry.header.join(" | "));
+		let institution = "";
+		let degree = "";
+		const rest: string[] = [];
+
+		for (const piece of pieces) {
+			const normalized = normalizeText(piece);
+			if (!institution && INSTITUTION_REGEX.test(normalized)) {
+				institution = piece;
+			} else if (!degree && DEGREE_REGEX.test(normalized)) {
+				degree = piece;
+			} else {
+				rest.push(piece);
+			}
+		}
+		const guessed = {
+			institution: !institution && rest.length > 0,
+			degree: !degree && rest.length > (institution ? 0 : 1),
+		};
+		if (guessed.institution) institution = rest.shift() ?? "";
+		if (guessed.degree) degree = rest.shift() ?? "";
+		context.unassigned.push(...rest);
+
+		const field = FIELD_OF_STUDY_REGEX.exec(degree);
+		const studyType = field?.[1] ?? degree;
+		const area = field?.[2] ?? "";
+
+		let score = "";
+		let courses: string[] = [];
+		for (const line of entry.body) {
+			const text = stripBullet(line);
+			const scoreMatch = SCORE_REGEX.exec(text);
+			const coursesMatch = COURSES_REGEX.exec(text);
+			if (!score && scoreMatch?.[1]) {
+				score = scoreMatch[1].trim();
+			} else if (coursesMatch?.[1]) {
+				courses = [...courses, ...splitList(coursesMatch[1])];
+			} else {
+				context.unassigned.push(text);
+			}
+		}
+
+		mark(
+			context,
+			`${path}.institution`,
+			institution,
+			guessed.institution ? "low" : "medium",
+		);
+		mark(
+			context,
+			`${path}.studyType`,
+			studyType,
+			guessed.degree ? "low" : "medium",
+		);
+		mark(context, `${path}.area`, area, guessed.degree ? "low" : "medium");
+		markDates(context, path, entry.dates);
+		mark(context, `${path}.score`, score, "medium");
+		mark(context, `${path}.courses`, courses, "medium");
+
+		return {
+			institution,
+			url: "",
+			area,
+			studyType,
+			startDate: entry.dates?.startDate ?? "",
+			endDate: entry.dates?.endDate ?? "",
+			score,
+			courses,
+		};
+	});
+}
+
+function parseProjects(lines: string[], context: ParseContext): Project[] {
+	return splitEntries(lines, context).map((entry, index) => {
+		const path = `projects[${index}]`;
+		const pieces = splitHeader(entry.header.join(" | "));
+		const urlIndex = pieces.findIndex((piece) => URL_REGEX.test(piece));
+		const url = urlIndex >= 0 ? toUrl(pieces.splice(urlIndex, 1)[0] ?? "") : "";
+		const [name = "", ...rest] = pieces;
+		const { summary, highlights } = splitBody(entry.body);
+		context.unassigned.push(...rest);
+
+		mark(context, `${path}.name`, name, entry.dates ? "medium" : "low");
+		mark(context, `${path}.url`, url, "medium");
+		markDates(context, path, entry.dates);
+		mark(context, `${path}.description`, summary, "medium");
+		mark(context, `${path}.highlights`, highlights, "high");
+
+		return {
+			name,
+			startDate: entry.dates?.startDate ?? "",
+			endDate: entry.dates?.endDate ?? "",
+			description: summary,
+			highlights,
+			url,
+		};
+	});
+}
+
+function parseSkills(lines: string[], context: ParseContext): Skill[] {
+	const skills: Skill[] = [];
+	for (const line of lines.map(stripBullet).filter(Boolean)) {
+		const category = /^([^:]{1,40}):\s*(.+)$/.exec(line);
+		if (category?.[1] && category[2]) {
+			const path = `skills[${skills.length}]`;
+			const keywords = splitList(category[2]);
+			mark(context, `${path}.name`, category[1], "medium");
+			mark(context, `${path}.keywords`, keywords, "medium");
+			skills.push({ name: category[1].trim(), level: "", keywords });
+			continue;
+		}
+		for (const item of splitList(line)) {
+			const path = `skills[${skills.length}]`;
+			const leveled = /^(.+?)\s*\(([^)]+)\)$/.exec(item);
+			const name = leveled?.[1] ?? item;
+			const level = leveled?.[2] ?? "";
+			mark(context, `${path}.name`, name, "medium");
+			mark(context, `${path}.level`, level, "low");
+			skills.push({ name, level, keywords: [] });
+		}
+	}
+	return skills;
+}
+
+function parseLanguages(lines: string[], context: ParseContext): Language[] {
+	return lines
+		.flatMap((line) => splitList(line))
+		.map((item, index) => {
+			const match = /^(.+?)\s*(?:\(([^)]+)\)|[:–—-]\s*(.+))$/.exec(item);
+			const language = (match?.[1] ?? item).trim();
+			const fluency = (match?.[2] ?? match?.[3] ?? "").trim();
+			mark(context, `languages[${index}].language`, language, "medium");
+			mark(context, `languages[${index}].fluency`, fluency, "medium");
+			return { language, fluency };
+		});
+}
+
+/**
+ * Reads one-line entries ("Name – Issuer – Jun 2022") of certificates,
+ * awards and publications
+ */
+function parseDatedLines(
+	lines: string[],
+	context: ParseContext,
+	section: "certificates" | "awards" | "publications",
+): Array<{ name: string; issuer: string; date: string; url: string }> {
+	return lines
+		.map(stripBullet)
+		.filter(Boolean)
+		.map((line) => {
+			const dates = findDateRange(line);
+			const url = URL_REGEX.exec(line)?.[0] ?? "";
+			const text = line.replace(dates?.text ?? "", "").replace(url, "");
+			const [name = "", issuer = "", ...rest] = splitHeader(text);
+			context.unassigned.push(...rest);
+			return {
+				name,
+				issuer,
+				date: dates?.startDate ?? "",
+				url: url ? toUrl(url) : "",
+			};
+		})
+		.map((entry, index) => {
+			const path = `${section}[${index}]`;
+			const fields = {
+				certificates: ["name", "issuer", "date"],
+				awards: ["title", "awarder", "date"],
+				publications: ["name", "publisher", "releaseDate"],
+			}[section];
+			mark(context, `${path}.${fields[0]}`, entry.name, "medium");
+			mark(context, `${path}.${fields[1]}`, entry.issuer, "low");
+			mark(context, `${path}.${fields[2]}`, entry.date, "high");
+			if (section !== "awards") {
+				mark(context, `${path}.url`, entry.url, "medium");
+			}
+			return entry;
+		});
+}
+
+function parseReferences(lines: string[], context: ParseContext): Reference[] {
+	const blocks = lines
+		.join("\n")
+		.split(/\n{2,}/)
+		.map((block) => block.split("\n").filter(Boolean))
+		.filter((block) => block.length > 0);
+
+	const references: Reference[] = [];
+	for (const [name = "", ...text] of blocks) {
+		if (REFERENCES_ON_REQUEST_REGEX.test(normalizeText(name))) {
+			context.unassigned.push(name, ...text);
+			continue;
+		}
+		const path = `references[${references.length}]`;
+		const reference = text.join(" ");
+		mark(context, `${path}.name`, name, "low");
+		mark(context, `${path}.reference`, reference, "low");
+		references.push({ name, reference });
+	}
+	return references;
+}
+
+/**
+ * Recovers a resume from the plain text of a PDF or Word document.
+ *
+ * Sections are found by their headings (in English or Spanish), personal
+ * details are read from the lines before the first heading and dated entries
+ * are split on their date ranges. Every value is tagged with how confident the
+ * heuristics are about it, and lines that fit nowhere are returned unassigned,
+ * so nothing is lost when the user reviews the draft.
+ *
+ * @param lines - The lines of text of the document
+ * @returns The draft resume with field confidence and unassigned lines
+ */
+export function parseResumeText(lines: ReadonlyArray<string>): ResumeDraft {
+	const context: ParseContext = { confidence: {}, unassigned: [] };
+	const { header, sections } = splitSections(lines);
+	const section = (name: TextSection) => sections.get(name) ?? [];
+
+	const basics = parseBasics(
+		header.filter(Boolean),
+		sections.has("summary"),
+		context,
+	);
+	if (sections.has("summary")) {
+		basics.summary = section("summary").filter(Boolean).join(" ");
+		mark(context, "basics.summary", basics.summary, "high");
+	}
+
+	const certificates: Certificate[] = parseDatedLines(
+		section("certificates"),
+		context,
+		"certificates",
+	).map(({ name, issuer, date, url }) => ({ name, issuer, date, url }));
+	const awards: Award[] = parseDatedLines(
+		section("awards"),
+		context,
+		"awards",
+	).map(({ name, issuer, date }) => ({
+		title: name,
+		awarder: issuer,
+		date,
+		summary: "",
+	}));
+	const publications: Publication[] = parseDatedLines(
+		section("publications"),
+		context,
+		"publications",
+	).map(({ name, issuer, date, url }) => ({
+		name,
+		publisher: issuer,
+		releaseDate: date,
+		url,
+		summary: "",
+	}));
+	const work: Work[] = parseRoles(section("work"), context, "work", "name").map(
+		({ organization, ...role }) => ({ name: organization, ...role }),
+	);
+	const interests: Interest[] = section("interests")
+		.flatMap((line) => splitList(line))
+		.map((name, index) => {
+			mark(context, `interests[${index}].name`, name, "medium");
+			return { name, keywords: [] };
+		});
+
+	return {
+		resume: {
+			basics,
+			work,
+			volunteer: parseRoles(
+				section("volunteer"),
+				context,
+				"volunteer",
+				"organization",
+			),
+			education: parseEducation(section("education"), context),
+			awards,
+			certificates,
+			publications,
+			skills: parseSkills(section("skills"), context),
+			languages: parseLanguages(section("languages"), context),
+			interests,
+			references: parseReferences(section("references"), context),
+			projects: parseProjects(section("projects"), context),
+		},
+		confidence: context.confidence,
+		unassigned: context.unassigned.filter(Boolean),
+	};
+}
@@ -0,0 +1,92 @@
+import { strToU8, zipSync } from "fflate";
+
+/**
+ * CSV files as found in a LinkedIn "Download your data" archive
+ */
+export const linkedInCsv = {
+	"Profile.csv": [
+		"First Name,Last Name,Maiden Name,Address,Birth Date,Headline,Summary,Industry,Zip Code,Geo Location,Twitter Handles,Websites,Instant Messengers",
+		'Jane,Doe,,,"Apr 2, 1990",Senior Software Engineer,"Builds reliable, accessible web apps.",Software Development,28001,"Madrid, Community of Madrid, Spain",[janedoe],[PORTFOLIO:https://janedoe.dev],',
+	].join("\n"),
+	"Positions.csv": [
+		"Company Name,Title,Description,Location,Started On,Finished On",
+		'Acme Corp,Senior Software Engineer,"Led the design system.\nMentored 4 engineers.","Madrid, Spain",Mar 2021,',
+		"Globex,Software Engineer,,Remote,Jan 2018,Feb 2021",
+		",Intern,,,Summer 2017,",
+	].join("\r\n"),
+	"Education.csv": [
+		"School Name,Start Date,End Date,Notes,Degree Name,Activities",
+		"Universidad Politécnica de Madrid,2013,2017,,Bachelor of Computer Science,",
+	].join("\n"),
+	"Skills.csv": ["Name", "TypeScript", "Vue.js", '"Testing, TDD"'].join("\n"),
+	"Languages.csv": [
+		"Name,Proficiency",
+		"Spanish,Native or bilingual proficiency",
+		"English,Full professional proficiency",
+	].join("\n"),
+	"Certifications.csv": [
+		"Name,Url,Authority,Started On,Finished On,License Number",
+		"AWS Certified Developer,https://aws.amazon.com/verify/123,Amazon Web Services,Jun 2022,Jun 2025,123",
+	].join("\n"),
+	// Not used by the importer, present in real archives
+	"Connections.csv": [
+		"Notes:",
+		'"When exporting your connection data, you may notice that some of the email addresses are missing."',
+		"",
+		"First Name,Last Name,URL,Email Address,Company,Position,Connected On",
+	].join("\n"),
+} as const;
+
+export type LinkedInCsvName = keyof typeof linkedInCsv;
+
+/**
+ * Encodes text as UTF-8. The copy keeps the bytes in the test realm's
+ * Uint8Array, which fflate needs to tell files from folders under jsdom.
+ */
+export function toBytes(text: string): Uint8Array {
+	return new Uint8Array(strToU8(text));
+}
+
+/**
+ * Creates a File whose arrayBuffer() works in jsdom
+ */
+export function createBinaryFile(
+	content: Uint8Array,
+	name: string,
+	type = "",
+): File {
+	const file = new File([content as Uint8Array<ArrayBuffer>], name, { type });
+	file.arrayBuffer = () =>
+		Promise.resolve(
+			content.buffer.slice(
+				content.byteOffset,
+				content.byteOffset + content.byteLength,
+			) as ArrayBuffer,
+		);
+	return file;
+}
+
+/**
+ * Builds a LinkedIn export archive from the fixture CSV files
+ *
+ * @param names - Files to include (all fixture files by default)
+ * @param name - File name of the archive
+ */
+export function createLinkedInArchive(
+	names: ReadonlyArray<LinkedInCsvName> = Object.keys(
+		linkedInCsv,
+	) as LinkedInCsvName[],
+	name = "Basic_LinkedInDataExport_01-01-2025.zip",
+): File {
+	const archive = zipSync(
+		Object.fromEntries(names.map((file) => [file, toBytes(linkedInCsv[file])])),
+	);
+	return createBinaryFile(archive, name, "application/zip");
+}
+
+/**
+ * Creates a single CSV file from the fixtures
+ */
+export function createLinkedInCsvFile(name: LinkedInCsvName): File {
+	return createBinaryFile(toBytes(linkedInCsv[name]), name, "text/csv");
+}
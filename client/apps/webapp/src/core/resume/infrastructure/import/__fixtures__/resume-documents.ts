@@ -0,0 +1,142 @@
+import { zipSync } from "fflate";
+import { createBinaryFile, toBytes } from "./linkedin-export";
+
+/**
+ * Text of a typical one-page resume, as laid out in a word processor
+ */
+export const resumeLines = [
+	"Jane Doe",
+	"Senior Software Engineer",
+	"jane.doe@example.com | +34 600 123 456 | Madrid, Spain",
+	"linkedin.com/in/janedoe | github.com/janedoe | https://janedoe.dev",
+	"",
+	"SUMMARY",
+	"Software engineer with 8 years of experience building accessible web applications.",
+	"",
+	"EXPERIENCE",
+	"Senior Software Engineer — Acme Corp",
+	"Mar 2021 – Present",
+	"• Led the design system used by 12 product teams",
+	"• Mentored 4 engineers",
+	"Software Engineer, Globex",
+	"Jan 2018 - Feb 2021",
+	"Built the payments dashboard.",
+	"",
+	"EDUCATION",
+	"Universidad Politécnica de Madrid",
+	"Bachelor of Science in Computer Science",
+	"2013 – 2017",
+	"",
+	"SKILLS",
+	"Languages: TypeScript, Kotlin, SQL",
+	"Vue.js, Spring Boot, PostgreSQL",
+	"",
+	"LANGUAGES",
+	"Spanish (Native), English (C1)",
+	"",
+	"CERTIFICATIONS",
+	"AWS Certified Developer – Amazon Web Services – Jun 2022",
+	"",
+	"INTERESTS",
+	"Climbing, Photography",
+] as const;
+
+// Windows-1252 code points of the characters outside Latin-1 used in the fixtures
+const WIN_ANSI: Record<string, number> = { "•": 0x95, "–": 0x96, "—": 0x97 };
+
+function toWinAnsi(text: string): Uint8Array {
+	return Uint8Array.from(
+		Array.from(text, (char) => WIN_ANSI[char] ?? char.charCodeAt(0)),
+	);
+}
+
+function escapePdfString(text: string): string {
+	return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Builds a single-page, text-based PDF writing each line in Helvetica
+ *
+ * @param lines - Lines of text, empty strings leave a blank line
+ * @param name - File name of the document
+ */
+export function createPdfFile(
+	lines: ReadonlyArray<string> = resumeLines,
+	name = "resume.pdf",
+): File {
+	const stream = [
+		"BT /F1 10 Tf 14 TL 50 780 Td",
+		...lines.map((line) => `(${escapePdfString(line)}) Tj T*`),
+		"ET",
+	].join("\n");
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+		"<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+		`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+	];
+
+	let pdf = "%PDF-1.4\n";
+	const offsets = objects.map((object, index) => {
+		const offset = pdf.length;
+		pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+		return offset;
+	});
+	const xref = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	pdf += offsets
+		.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+		.join("");
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+	return createBinaryFile(toWinAnsi(pdf), name, "application/pdf");
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+/**
+ * Builds a Word document with one paragraph per line. Lines starting with a
+ * bullet become list items, as a word processor would store them.
+ *
+ * @param lines - Lines of text, empty strings become empty paragraphs
+ * @param name - File name of the document
+ */
+export function createDocxFile(
+	lines: ReadonlyArray<string> = resumeLines,
+	name = "resume.docx",
+): File {
+	const paragraphs = lines.map((line) => {
+		const item = line.startsWith("• ");
+		const text = escapeXml(item ? line.slice(2) : line);
+		const properties = item
+			? '<w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>'
+			: "";
+		return text
+			? `<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`
+			: "<w:p/>";
+	});
+	const document = [
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+		'<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+		`<w:body>${paragraphs.join("")}</w:body>`,
+		"</w:document>",
+	].join("");
+	const contentTypes =
+		'<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>';
+
+	const archive = zipSync({
+		"[Content_Types].xml": toBytes(contentTypes),
+		"word/document.xml": toBytes(document),
+	});
+	return createBinaryFile(
+		archive,
+		name,
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	);
+}
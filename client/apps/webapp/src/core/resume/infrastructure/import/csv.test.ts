@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords } from "./csv";
+
+describe("csv", () => {
+	describe("parseCsv", () => {
+		it("should split rows and fields", () => {
+			expect(parseCsv("a,b\nc,d")).toEqual([
+				["a", "b"],
+				["c", "d"],
+			]);
+		});
+
+		it("should handle quoted separators, quotes and line breaks", () => {
+			expect(parseCsv('"a, b","say ""hi""","line\nbreak"')).toEqual([
+				["a, b", 'say "hi"', "line\nbreak"],
+			]);
+		});
+
+		it("should handle CRLF, empty fields, blank lines and a byte order mark", () => {
+			expect(parseCsv("﻿a,,c\r\n\r\nd,e,\r\n")).toEqual([
+				["a", "", "c"],
+				["d", "e", ""],
+			]);
+		});
+	});
+
+	describe("parseCsvRecords", () => {
+		it("should key rows by the header", () => {
+			expect(parseCsvRecords("Name,Level\nVue, Expert\nGo")).toEqual([
+				{ Name: "Vue", Level: "Expert" },
+				{ Name: "Go", Level: "" },
+			]);
+		});
+
+		it("should skip notes preceding the header", () => {
+			const text = "Notes:\nSome explanation\n\nName,Url\nA,https://a.dev";
+
+			expect(parseCsvRecords(text, "Name")).toEqual([
+				{ Name: "A", Url: "https://a.dev" },
+			]);
+		});
+
+		it("should return no records when the header is missing", () => {
+			expect(parseCsvRecords("Title\nA", "Name")).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,88 @@
+/**
+ * A CSV row keyed by column header
+ */
+export type CsvRecord = Record<string, string>;
+
+/**
+ * Parses CSV text (RFC 4180) into rows of fields.
+ *
+ * Supports quoted fields containing separators, escaped quotes (`""`) and
+ * line breaks, as well as CRLF line endings and a leading byte order mark.
+ *
+ * @param text - The CSV content
+ * @returns The rows, without trailing empty lines
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	const input = text.replace(/^\uFEFF/, "");
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (quoted) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Parses CSV text into records keyed by the header row.
+ *
+ * Some exports prepend notes before the header, so the header is the first
+ * row containing `headerHint` (or the first row when no hint is given).
+ *
+ * @param text - The CSV content
+ * @param headerHint - A column name expected in the header row
+ * @returns The records, or an empty array when no header row is found
+ */
+export function parseCsvRecords(
+	text: string,
+	headerHint?: string,
+): CsvRecord[] {
+	const rows = parseCsv(text);
+	const headerIndex = headerHint
+		? rows.findIndex((cells) =>
+				cells.some((cell) => cell.trim() === headerHint),
+			)
+		: 0;
+	const header = rows[headerIndex]?.map((cell) => cell.trim());
+	if (headerIndex < 0 || !header) {
+		return [];
+	}
+
+	return rows
+		.slice(headerIndex + 1)
+		.map((cells) =>
+			Object.fromEntries(
+				header.map((column, index) => [column, cells[index]?.trim() ?? ""]),
+			),
+		);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { findDateRange, parseResumeDate } from "./dates";
+
+describe("dates", () => {
+	describe("parseResumeDate", () => {
+		it.each([
+			["", ""],
+			["2020", "2020"],
+			["2020-03", "2020-03"],
+			["Mar 2021", "2021-03"],
+			["September 2019", "2019-09"],
+			["ene 2020", "2020-01"],
+			["enero de 2020", "2020-01"],
+			["Apr 2, 1990", "1990-04-02"],
+			["3/2020", "2020-03"],
+		])("should convert %j to %j", (input, expected) => {
+			expect(parseResumeDate(input)).toBe(expected);
+		});
+
+		it.each([
+			"Summer 2017",
+			"13/2020",
+			"Present",
+		])("should not recognise %j", (input) => {
+			expect(parseResumeDate(input)).toBeNull();
+		});
+	});
+
+	describe("findDateRange", () => {
+		it.each([
+			["Acme Corp | Mar 2021 – Present", "2021-03", ""],
+			["Jan 2018 - Feb 2021", "2018-01", "2021-02"],
+			["2013 – 2017", "2013", "2017"],
+			["Globex (01/2015 to 12/2017)", "2015-01", "2017-12"],
+			["Septiembre 2019 - actualidad", "2019-09", ""],
+			["enero de 2016 hasta la actualidad", "2016-01", ""],
+		])("should read the period in %j", (line, startDate, endDate) => {
+			expect(findDateRange(line)).toMatchObject({ startDate, endDate });
+		});
+
+		it("should fall back to a single date", () => {
+			expect(findDateRange("AWS Certified Developer, Jun 2022")).toEqual({
+				startDate: "2022-06",
+				endDate: null,
+				text: "Jun 2022",
+			});
+		});
+
+		it("should ignore words that only look like months", () => {
+			expect(findDateRange("Marketing 2019")).toMatchObject({
+				startDate: "2019",
+				endDate: null,
+			});
+		});
+
+		it("should return null for lines without dates", () => {
+			expect(findDateRange("Senior Software Engineer")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,104 @@
+// Month names and abbreviations in English and Spanish, keyed by their first three letters
+const MONTHS: Record<string, string> = {
+	jan: "01",
+	ene: "01",
+	feb: "02",
+	mar: "03",
+	apr: "04",
+	abr: "04",
+	may: "05",
+	jun: "06",
+	jul: "07",
+	aug: "08",
+	ago: "08",
+	sep: "09",
+	set: "09",
+	oct: "10",
+	nov: "11",
+	dec: "12",
+	dic: "12",
+};
+
+const MONTH_PATTERN =
+	"(?:jan(?:uary)?|ene(?:ro)?|feb(?:ruary|rero)?|mar(?:ch|zo)?|apr(?:il)?|abr(?:il)?|may(?:o)?|jun(?:e|io)?|jul(?:y|io)?|aug(?:ust)?|ago(?:sto)?|sep(?:t(?:ember)?|tiembre)?|set(?:iembre)?|oct(?:ober|ubre)?|nov(?:ember|iembre)?|dec(?:ember)?|dic(?:iembre)?)";
+
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\.?\\s+(?:de\\s+)?(?:\\d{1,2},?\\s+)?\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}(?:-\\d{2}(?:-\\d{2})?)?)`;
+
+// Words standing for the end of an ongoing period
+const PRESENT_PATTERN =
+	"(?:la actualidad|actualidad|actual|presente|present|currently|current|now|today|hoy|ongoing)";
+
+const RANGE_REGEX = new RegExp(
+	`\\b(${DATE_PATTERN})(?:\\s*[-–—]\\s*|\\s+(?:to|until|a|al|hasta)\\s+)(${DATE_PATTERN}|${PRESENT_PATTERN})\\b`,
+	"i",
+);
+
+const SINGLE_DATE_REGEX = new RegExp(`\\b(${DATE_PATTERN})\\b`, "i");
+
+const PRESENT_REGEX = new RegExp(`^${PRESENT_PATTERN}$`, "i");
+
+/**
+ * A date or period found in a line of text
+ */
+export interface DateRange {
+	/** ISO 8601 start date */
+	startDate: string;
+	/** ISO 8601 end date, an empty string for ongoing periods, or null for a single date */
+	endDate: string | null;
+	/** The text the dates were read from */
+	text: string;
+}
+
+/**
+ * Converts a human readable date ("Jan 2020", "Mar 15, 2021", "enero de 2020",
+ * "03/2020", "2020") to ISO 8601 (YYYY, YYYY-MM or YYYY-MM-DD).
+ *
+ * @param value - The date as written in the source
+ * @returns The ISO 8601 date, an empty string for empty input, or null if unrecognised
+ */
+export function parseResumeDate(value: string): string | null {
+	const date = value.trim();
+	if (date === "") return "";
+	if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(date)) return date;
+
+	const numeric = /^(\d{1,2})\/(\d{4})$/.exec(date);
+	if (numeric?.[1] && numeric[2] && Number(numeric[1]) <= 12) {
+		return `${numeric[2]}-${numeric[1].padStart(2, "0")}`;
+	}
+
+	const named =
+		/^([a-z]{3})[a-z]*\.?\s+(?:de\s+)?(?:(\d{1,2}),?\s+)?(\d{4})$/i.exec(date);
+	const month = named?.[1] ? MONTHS[named[1].toLowerCase()] : undefined;
+	if (named?.[3] && month) {
+		return named[2]
+			? `${named[3]}-${month}-${named[2].padStart(2, "0")}`
+			: `${named[3]}-${month}`;
+	}
+	return null;
+}
+
+/**
+ * Finds the first period ("Mar 2021 – Present", "2015 - 2019") or, failing
+ * that, the first single date in a line of text.
+ *
+ * @param line - The text to search
+ * @returns The dates found, or null if the line has no recognisable date
+ */
+export function findDateRange(line: string): DateRange | null {
+	const range = RANGE_REGEX.exec(line);
+	if (range?.[1] && range[2]) {
+		const startDate = parseResumeDate(range[1]);
+		const endDate = PRESENT_REGEX.test(range[2])
+			? ""
+			: parseResumeDate(range[2]);
+		if (startDate && endDate !== null) {
+			return { startDate, endDate, text: range[0] };
+		}
+	}
+
+	const single = SINGLE_DATE_REGEX.exec(line);
+	const startDate = single?.[1] ? parseResumeDate(single[1]) : null;
+	return single && startDate
+		? { startDate, endDate: null, text: single[0] }
+		: null;
+}
@@ -0,0 +1,26 @@
+/**
+ * Infrastructure layer exports for importing resumes from third-party exports
+ * and existing documents.
+ */
+
+export { type CsvRecord, parseCsv, parseCsvRecords } from "./csv";
+export {
+	extractDocumentText,
+	extractDocxText,
+	extractPdfText,
+	isDocumentFile,
+	type PdfjsLoader,
+} from "./DocumentTextExtractor";
+export { type DateRange, findDateRange, parseResumeDate } from "./dates";
+export {
+	isLinkedInExportFile,
+	LINKEDIN_FILES,
+	type LinkedInExport,
+	type LinkedInFile,
+	readLinkedInExport,
+} from "./LinkedInArchiveReader";
+export {
+	type LinkedInMappingResult,
+	mapLinkedInExport,
+} from "./LinkedInResumeMapper";
+export { parseResumeText } from "./ResumeTextParser";
@@ -0,0 +1,88 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import AtsReportPanel from "./AtsReportPanel.vue";
+
+const slot = { template: "<div><slot /></div>" };
+
+describe("AtsReportPanel.vue", () => {
+	const mountComponent = (resume: Resume, open = true) =>
+		mount(AtsReportPanel, {
+			props: { open, resume },
+			global: {
+				plugins: [createTestI18n()],
+				stubs: {
+					Sheet: slot,
+					SheetContent: slot,
+					SheetHeader: slot,
+					SheetTitle: slot,
+					SheetDescription: slot,
+				},
+			},
+		});
+
+	const resumeWithIssues = () => {
+		const resume = createTestResume({
+			work: [
+				{
+					name: "Company A",
+					position: "Developer",
+					url: "",
+					startDate: "2020-01",
+					endDate: "2019-06",
+					summary: "Built services",
+					highlights: [],
+				},
+			],
+		});
+		resume.basics.email = "";
+		resume.basics.image = "photo.png";
+		return resume;
+	};
+
+	it("should show the score and the findings grouped by section", () => {
+		const wrapper = mountComponent(resumeWithIssues());
+
+		expect(wrapper.find('[data-testid="ats-score"]').text()).toMatch(/^\d+/);
+		const headings = wrapper.findAll("h3").map((heading) => heading.text());
+		expect(headings).toContain("Personal Information");
+		expect(headings).toContain("Work Experience");
+		expect(
+			wrapper
+				.findAll('[data-testid="ats-finding"]')
+				.map((finding) => finding.text()),
+		).toContainEqual(expect.stringContaining("resume.ats.rules.date-order"));
+	});
+
+	it("should emit the finding selected", async () => {
+		const wrapper = mountComponent(resumeWithIssues());
+
+		const finding = wrapper
+			.findAll('[data-testid="ats-finding"]')
+			.find((button) => button.text().includes("date-order"));
+		await finding?.trigger("click");
+
+		expect(wrapper.emitted("select")?.[0]?.[0]).toMatchObject({
+			rule: "date-order",
+			section: "work",
+			entryIndex: 0,
+		});
+	});
+
+	it("should not analyze the resume while closed", () => {
+		const wrapper = mountComponent(resumeWithIssues(), false);
+
+		expect(wrapper.find('[data-testid="ats-score"]').exists()).toBe(false);
+	});
+
+	it("should emit update:open when closed", async () => {
+		const wrapper = mountComponent(resumeWithIssues());
+
+		const buttons = wrapper.findAll("button");
+		await buttons[buttons.length - 1]?.trigger("click");
+
+		expect(wrapper.emitted("update:open")).toEqual([[false]]);
+	});
+});
@@ -0,0 +1,68 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import CompletenessChecklistPanel from "./CompletenessChecklistPanel.vue";
+
+const slot = { template: "<div><slot /></div>" };
+
+describe("CompletenessChecklistPanel.vue", () => {
+	const mountComponent = (resume: Resume, open = true) =>
+		mount(CompletenessChecklistPanel, {
+			props: { open, resume },
+			global: {
+				plugins: [createTestI18n()],
+				stubs: {
+					Sheet: slot,
+					SheetContent: slot,
+					SheetHeader: slot,
+					SheetTitle: slot,
+					SheetDescription: slot,
+				},
+			},
+		});
+
+	const resumeWithGaps = () => {
+		const resume = createTestResume({ skills: [] });
+		resume.basics.summary = "";
+		return resume;
+	};
+
+	it("should show the score, the section scores and the checklist", () => {
+		const wrapper = mountComponent(resumeWithGaps());
+
+		expect(wrapper.find('[data-testid="completeness-score"]').text()).toMatch(
+			/^\d+/,
+		);
+		expect(
+			wrapper.findAll('[data-testid="completeness-section"]'),
+		).toHaveLength(12);
+		const items = wrapper
+			.findAll('[data-testid="completeness-item"]')
+			.map((item) => item.text());
+		expect(items[0]).toContain("resume.completeness.rules.empty-section");
+		expect(items).toContainEqual(
+			expect.stringContaining("resume.completeness.rules.missing-summary"),
+		);
+	});
+
+	it("should emit the item selected", async () => {
+		const wrapper = mountComponent(resumeWithGaps());
+
+		await wrapper.find('[data-testid="completeness-item"]').trigger("click");
+
+		expect(wrapper.emitted("select")?.[0]?.[0]).toMatchObject({
+			rule: "empty-section",
+			section: "skills",
+		});
+	});
+
+	it("should not evaluate the resume while closed", () => {
+		const wrapper = mountComponent(resumeWithGaps(), false);
+
+		expect(wrapper.find('[data-testid="completeness-score"]').exists()).toBe(
+			false,
+		);
+	});
+});
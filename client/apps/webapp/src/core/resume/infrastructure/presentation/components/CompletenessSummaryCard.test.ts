@@ -0,0 +1,29 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { completenessScore } from "@/core/resume/domain/ResumeCompleteness";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import CompletenessSummaryCard from "./CompletenessSummaryCard.vue";
+
+describe("CompletenessSummaryCard.vue", () => {
+	it("should show the score and the top checklist items", async () => {
+		const resume = createTestResume({ skills: [], education: [] });
+		resume.basics.summary = "";
+		const wrapper = mount(CompletenessSummaryCard, {
+			props: { resume, limit: 2 },
+			global: { plugins: [createTestI18n()] },
+		});
+
+		expect(
+			wrapper.find('[data-testid="completeness-summary-score"]').text(),
+		).toBe(`${completenessScore(resume)}%`);
+		expect(
+			wrapper.findAll('[data-testid="completeness-summary-item"]'),
+		).toHaveLength(2);
+
+		await wrapper
+			.find('[data-testid="completeness-summary-improve"]')
+			.trigger("click");
+		expect(wrapper.emitted("improve")).toHaveLength(1);
+	});
+});
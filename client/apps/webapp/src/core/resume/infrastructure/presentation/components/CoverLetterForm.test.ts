@@ -0,0 +1,131 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import {
+	type CoverLetter,
+	createCoverLetter,
+} from "@/core/resume/domain/CoverLetter";
+import type { ResumeVariant } from "@/core/resume/domain/ResumeVariant";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import CoverLetterForm from "./CoverLetterForm.vue";
+
+const variant: ResumeVariant = {
+	id: "variant-1",
+	baseResumeId: "resume-1",
+	name: "Acme – Backend",
+	visibility: createDefaultVisibility("variant-1", createTestResume()),
+	hiddenItems: {},
+	order: {},
+	overrides: {},
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+const resumes = [
+	{
+		id: "resume-1",
+		title: "Main resume",
+		createdAt: "2026-01-01T00:00:00.000Z",
+		updatedAt: "2026-01-01T00:00:00.000Z",
+	},
+];
+
+describe("CoverLetterForm.vue", () => {
+	const mountComponent = (
+		letter: CoverLetter = createCoverLetter("letter-1", "Acme", {
+			resumeId: "resume-1",
+			variantId: null,
+		}),
+	) =>
+		mount(CoverLetterForm, {
+			props: {
+				letter,
+				resumes,
+				variants: [variant],
+				signOffDefaults: {
+					name: "John Doe",
+					email: "john@example.com",
+					phone: "+1-555-0100",
+				},
+			},
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should emit the edited letter on save", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="cover-letter-company"]').setValue("Acme");
+		await wrapper
+			.find('[data-testid="cover-letter-role"]')
+			.setValue("Engineer");
+		await wrapper
+			.find('[data-testid="cover-letter-paragraph"] textarea')
+			.setValue("Dear team,");
+		await wrapper
+			.find('[data-testid="cover-letter-closing"]')
+			.setValue("Best regards");
+		await wrapper.find("form").trigger("submit");
+
+		expect(wrapper.emitted("save")?.[0]?.[0]).toEqual({
+			title: "Acme",
+			recipient: "",
+			company: "Acme",
+			role: "Engineer",
+			paragraphs: ["Dear team,"],
+			signOff: { closing: "Best regards", name: "", email: "", phone: "" },
+		});
+	});
+
+	it("should add and remove paragraphs, keeping at least one", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper
+			.find('[data-testid="cover-letter-add-paragraph"]')
+			.trigger("click");
+		expect(
+			wrapper.findAll('[data-testid="cover-letter-paragraph"]'),
+		).toHaveLength(2);
+
+		for (const button of wrapper.findAll(
+			'[data-testid="cover-letter-remove-paragraph"]',
+		)) {
+			await button.trigger("click");
+		}
+		expect(
+			wrapper.findAll('[data-testid="cover-letter-paragraph"]'),
+		).toHaveLength(1);
+	});
+
+	it("should show the resume sign-off as placeholders", () => {
+		const wrapper = mountComponent();
+
+		expect(
+			wrapper
+				.find('[data-testid="cover-letter-sign-off-name"]')
+				.attributes("placeholder"),
+		).toBe("John Doe");
+	});
+
+	it("should emit link changes for resumes and variants", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper
+			.find('[data-testid="cover-letter-variant"]')
+			.setValue("variant-1");
+		await wrapper.find('[data-testid="cover-letter-resume"]').setValue("");
+
+		expect(wrapper.emitted("update:link")).toEqual([
+			[{ resumeId: "resume-1", variantId: "variant-1" }],
+			[null],
+		]);
+	});
+
+	it("should hide the variant picker for unlinked letters", () => {
+		const wrapper = mountComponent(createCoverLetter("letter-2", "Globex"));
+
+		expect(wrapper.find('[data-testid="cover-letter-variant"]').exists()).toBe(
+			false,
+		);
+	});
+});
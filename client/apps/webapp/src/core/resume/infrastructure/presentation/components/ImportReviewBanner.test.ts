@@ -0,0 +1,84 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { ImportReview } from "@/core/resume/infrastructure/store/resume.store";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ImportReviewBanner from "./ImportReviewBanner.vue";
+
+describe("ImportReviewBanner.vue", () => {
+	const review: ImportReview = {
+		fileName: "resume.pdf",
+		confidence: {
+			"basics.email": "high",
+			"basics.name": "medium",
+			"education[0].institution": "low",
+			"education[0].studyType": "medium",
+			"awards[1].title": "low",
+		},
+		unassigned: ["Open to relocation"],
+		previous: null,
+	};
+
+	const mountComponent = (props: ImportReview = review) =>
+		mount(ImportReviewBanner, {
+			props: { review: props },
+			global: {
+				plugins: [createTestI18n()],
+			},
+		});
+
+	it("should list the fields to review grouped by section in form order", () => {
+		const wrapper = mountComponent();
+
+		const groups = wrapper
+			.findAll("li")
+			.filter((item) => item.find("button").exists());
+		expect(groups.map((group) => group.find("button").text())).toEqual([
+			"Personal Information:",
+			"Education:",
+			"Awards:",
+		]);
+		expect(
+			wrapper
+				.findAll('[data-testid="import-review-field"]')
+				.map((field) => field.text()),
+		).toEqual(["name", "Institution #1", "Degree #1", "Award Title #2"]);
+	});
+
+	it("should not list fields imported with high confidence", () => {
+		const wrapper = mountComponent({
+			...review,
+			confidence: { "basics.email": "high" },
+		});
+
+		expect(wrapper.findAll('[data-testid="import-review-field"]')).toHaveLength(
+			0,
+		);
+	});
+
+	it("should show the lines that could not be placed", () => {
+		const wrapper = mountComponent();
+
+		expect(
+			wrapper.find('[data-testid="import-review-unassigned"]').text(),
+		).toContain("Open to relocation");
+	});
+
+	it("should emit the section to open when a section is selected", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.findAll("li button")[1]?.trigger("click");
+
+		expect(wrapper.emitted("select")).toEqual([["education"]]);
+	});
+
+	it("should emit accept and discard", async () => {
+		const wrapper = mountComponent();
+		const buttons = wrapper.findAll("button");
+
+		await buttons[buttons.length - 2]?.trigger("click");
+		await buttons[buttons.length - 1]?.trigger("click");
+
+		expect(wrapper.emitted("accept")).toHaveLength(1);
+		expect(wrapper.emitted("discard")).toHaveLength(1);
+	});
+});
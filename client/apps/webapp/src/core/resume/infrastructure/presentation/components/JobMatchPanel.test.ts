@@ -0,0 +1,78 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import JobMatchPanel from "./JobMatchPanel.vue";
+
+const slot = { template: "<div><slot /></div>" };
+
+describe("JobMatchPanel.vue", () => {
+	const mountComponent = () =>
+		mount(JobMatchPanel, {
+			props: { open: true, resume: createTestResume() },
+			global: {
+				plugins: [createTestI18n()],
+				stubs: {
+					Sheet: slot,
+					SheetContent: slot,
+					SheetHeader: slot,
+					SheetTitle: slot,
+					SheetDescription: slot,
+				},
+			},
+		});
+
+	const analyze = async (
+		wrapper: ReturnType<typeof mountComponent>,
+		description: string,
+	) => {
+		await wrapper.find('[data-testid="job-description"]').setValue(description);
+		await wrapper.find("form").trigger("submit");
+	};
+
+	it("should list found and missing keywords after analyzing", async () => {
+		const wrapper = mountComponent();
+
+		await analyze(wrapper, "Requirements:\n- JavaScript and Node.js\n- Kafka");
+
+		expect(wrapper.find('[data-testid="job-match-score"]').exists()).toBe(true);
+		expect(
+			wrapper
+				.findAll('[data-testid="job-match-found"]')
+				.map((item) => item.find("span").text()),
+		).toEqual(["JavaScript", "Node.js"]);
+		expect(
+			wrapper
+				.findAll('[data-testid="job-match-missing"]')
+				.map((item) => item.text()),
+		).toEqual(["Kafka"]);
+	});
+
+	it("should emit the suggestions when applied", async () => {
+		const wrapper = mountComponent();
+
+		await analyze(wrapper, "Requirements:\n- Django");
+		await wrapper.find('[data-testid="job-match-apply"]').trigger("click");
+
+		const [suggestions] = wrapper.emitted("apply")?.[0] ?? [];
+		expect(suggestions).toEqual([
+			{ section: "skills", index: 0, action: "hide", keywords: [] },
+			{ section: "skills", index: 1, action: "hide", keywords: [] },
+			{
+				section: "skills",
+				index: 2,
+				action: "emphasize",
+				keywords: ["Django"],
+			},
+		]);
+		expect(wrapper.emitted("update:open")).toEqual([[false]]);
+	});
+
+	it("should not apply anything before analyzing", () => {
+		const wrapper = mountComponent();
+
+		expect(
+			wrapper.find('[data-testid="job-match-apply"]').attributes("disabled"),
+		).toBeDefined();
+	});
+});
@@ -83,6 +83,27 @@ const mockTemplates: TemplateMetadata[] = [
 			fontFamily: "sans-serif",
 			spacing: "compact",
 		},
+		paramsSchema: [
+			{
+				key: "fontFamily",
+				kind: "select",
+				default: "sans-serif",
+				options: ["sans-serif", "Lato"],
+			},
+			{
+				key: "colorPalette",
+				kind: "select",
+				default: "purple",
+				options: ["purple", "blue"],
+			},
+			{
+				key: "spacing",
+				kind: "select",
+				default: "compact",
+				options: ["compact", "relaxed"],
+			},
+			{ key: "highlightSkills", kind: "boolean", default: true },
+		],
 	},
 	{
 		id: "minimal",
@@ -377,6 +398,148 @@ describe("PdfTemplateSelector", () => {
 		});
 	});
 
+	describe("Template Parameters", () => {
+		it("should render controls declared by the template", () => {
+			const templates: TemplateMetadata[] = [
+				{
+					id: "custom",
+					name: "Custom",
+					version: "1.0.0",
+					supportedLocales: ["en"],
+					params: {
+						density: "compact",
+						customParams: {
+							lineHeight: { default: 1.2, min: 1, max: 2, step: 0.1 },
+						},
+					},
+				},
+			];
+
+			const { container } = render(PdfTemplateSelector, {
+				props: {
+					templates,
+					modelValue: { templateId: "custom", params: {} },
+				},
+				global: {
+					plugins: [i18n],
+				},
+			});
+
+			expect(
+				within(container as HTMLElement).getByTestId("density-option-row"),
+			).toBeInTheDocument();
+			const lineHeight = within(container as HTMLElement).getByRole(
+				"spinbutton",
+				{ name: "lineHeight" },
+			);
+			expect(lineHeight).toHaveValue(1.2);
+		});
+
+		it("should toggle a boolean parameter", async () => {
+			const user = userEvent.setup();
+			const onUpdate = vi.fn();
+
+			const { container } = render(PdfTemplateSelector, {
+				props: {
+					templates: mockTemplates,
+					modelValue: { templateId: "modern", params: {} },
+					"onUpdate:modelValue": onUpdate,
+				},
+				global: {
+					plugins: [i18n],
+				},
+			});
+
+			const highlightSkills = within(container as HTMLElement).getByRole(
+				"checkbox",
+				{ name: "highlightSkills" },
+			);
+			expect(highlightSkills).toHaveAttribute("aria-checked", "true");
+
+			await user.click(highlightSkills);
+
+			expect(onUpdate).toHaveBeenLastCalledWith({
+				templateId: "modern",
+				params: expect.objectContaining({ highlightSkills: false }),
+			});
+		});
+	});
+
+	describe("Styling Presets", () => {
+		const preset = {
+			id: "preset-1",
+			name: "Compact purple",
+			templateId: "modern",
+			params: {
+				colorPalette: "purple",
+				fontFamily: "Lato",
+				spacing: "relaxed",
+			},
+			createdAt: "2026-01-01T00:00:00.000Z",
+		};
+
+		it("should apply a preset", async () => {
+			const user = userEvent.setup();
+			const onUpdate = vi.fn();
+
+			const { container } = render(PdfTemplateSelector, {
+				props: {
+					templates: mockTemplates,
+					modelValue: { templateId: "classic", params: {} },
+					presets: [preset],
+					"onUpdate:modelValue": onUpdate,
+				},
+				global: {
+					plugins: [i18n],
+				},
+			});
+
+			await user.click(
+				within(container as HTMLElement).getByRole("button", {
+					name: "Compact purple",
+				}),
+			);
+
+			expect(onUpdate).toHaveBeenLastCalledWith({
+				templateId: "modern",
+				params: {
+					locale: "en",
+					fontFamily: "Lato",
+					colorPalette: "purple",
+					spacing: "relaxed",
+					highlightSkills: true,
+				},
+			});
+		});
+
+		it("should emit save and delete requests", async () => {
+			const user = userEvent.setup();
+			const onSave = vi.fn();
+			const onDelete = vi.fn();
+
+			const { container } = render(PdfTemplateSelector, {
+				props: {
+					templates: mockTemplates,
+					modelValue: { templateId: "classic", params: {} },
+					presets: [preset],
+					"onPreset:save": onSave,
+					"onPreset:delete": onDelete,
+				},
+				global: {
+					plugins: [i18n],
+				},
+			});
+			const view = within(container as HTMLElement);
+
+			await user.type(view.getByTestId("template-preset-name"), " Serif ");
+			await user.click(view.getByRole("button", { name: /save/i }));
+			await user.click(view.getByTestId("template-preset-delete"));
+
+			expect(onSave).toHaveBeenCalledWith("Serif");
+			expect(onDelete).toHaveBeenCalledWith("preset-1");
+		});
+	});
+
 	describe("Accessibility", () => {
 		it("should have proper ARIA attributes on template cards", () => {
 			const modelValue = { templateId: "modern", params: {} };
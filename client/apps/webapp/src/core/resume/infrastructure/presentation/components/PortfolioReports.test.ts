@@ -0,0 +1,70 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import {
+	createPortfolioEntry,
+	summarizePortfolio,
+} from "@/core/resume/domain/ResumePortfolio";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import PortfolioReports from "./PortfolioReports.vue";
+
+const summary = {
+	id: "resume-1",
+	title: "Engineer",
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: null,
+};
+
+describe("PortfolioReports.vue", () => {
+	const mountComponent = (report = summarizePortfolio([])) =>
+		mount(PortfolioReports, {
+			props: { report, templateNames: { modern: "Modern" } },
+			global: {
+				plugins: [createTestI18n()],
+				stubs: { BarChart: true, DonutChart: true },
+			},
+		});
+
+	it("should chart section coverage, validation and template usage", () => {
+		const wrapper = mountComponent(
+			summarizePortfolio([
+				createPortfolioEntry(summary, createTestResume({ work: [] }), true, {
+					templateId: "modern",
+					generatedAt: "2026-02-01T00:00:00.000Z",
+				}),
+			]),
+		);
+
+		const bar = wrapper.findComponent({ name: "BarChart" });
+		const data = bar.props("data") as Record<string, unknown>[];
+		expect(data).toHaveLength(12);
+		expect(Object.values(data[1] ?? {})).toEqual(["Work Experience", 0]);
+
+		const donuts = wrapper.findAllComponents({ name: "DonutChart" });
+		expect(donuts).toHaveLength(2);
+		expect(donuts[1]?.props("data")).toEqual([
+			{ template: "Modern", resumes: 1 },
+		]);
+	});
+
+	it("should explain when no PDF was downloaded", () => {
+		const wrapper = mountComponent(
+			summarizePortfolio([
+				createPortfolioEntry(summary, createTestResume(), true, null),
+			]),
+		);
+
+		expect(
+			wrapper.find('[data-testid="portfolio-reports-no-templates"]').exists(),
+		).toBe(true);
+	});
+
+	it("should show an empty state without resumes", () => {
+		const wrapper = mountComponent();
+
+		expect(
+			wrapper.find('[data-testid="portfolio-reports-empty"]').exists(),
+		).toBe(true);
+		expect(wrapper.findComponent({ name: "BarChart" }).exists()).toBe(false);
+	});
+});
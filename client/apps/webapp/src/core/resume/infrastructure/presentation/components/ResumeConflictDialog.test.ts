@@ -0,0 +1,159 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResumeConflict } from "@/core/resume/domain/ResumeSync";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumeConflictDialog from "./ResumeConflictDialog.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+
+const resumeStore = vi.hoisted(() => ({
+	resolveSyncConflict: vi.fn(),
+	syncConflicts: [] as unknown[],
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", () => ({
+	useResumeStore: () => resumeStore,
+}));
+
+const local = createTestResume({
+	basics: { ...createTestResume().basics, name: "Offline Name" },
+});
+const remote = createTestResume({
+	basics: { ...createTestResume().basics, name: "Server Name" },
+});
+const merged = createTestResume({
+	basics: { ...createTestResume().basics, name: "Merged Name" },
+});
+
+const conflict: ResumeConflict = {
+	resumeId: "resume-1",
+	base: createTestResume(),
+	local,
+	remote,
+	remoteUpdatedAt: "2024-01-02T00:00:00Z",
+	sections: ["basics", "work"],
+};
+
+describe("ResumeConflictDialog.vue", () => {
+	const mountComponent = () =>
+		mount(ResumeConflictDialog, {
+			props: { open: true, conflict },
+			attachTo: document.body,
+			global: { plugins: [createTestI18n()] },
+		});
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		resumeStore.syncConflicts = [];
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	it("should show both versions of each conflicting section", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		const sections = document.body.querySelectorAll("[data-conflict-section]");
+		expect(
+			[...sections].map((section) =>
+				section.getAttribute("data-conflict-section"),
+			),
+		).toEqual(["basics", "work"]);
+		expect(
+			find('[data-conflict-section="basics"] [data-side="local"]'),
+		).not.toBeNull();
+		expect(
+			find('[data-conflict-section="basics"] [data-side="remote"]'),
+		).not.toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should keep the local version of every section by default", async () => {
+		resumeStore.resolveSyncConflict.mockResolvedValue(merged);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="conflict-apply"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.resolveSyncConflict).toHaveBeenCalledWith("resume-1", {
+			basics: "local",
+			work: "local",
+		});
+		wrapper.unmount();
+	});
+
+	it("should apply the version chosen for each section and emit the merged resume", async () => {
+		resumeStore.resolveSyncConflict.mockResolvedValue(merged);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find("#conflict-work-remote")?.click();
+		await flushPromises();
+		find('[data-testid="conflict-apply"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.resolveSyncConflict).toHaveBeenCalledWith("resume-1", {
+			basics: "local",
+			work: "remote",
+		});
+		expect(wrapper.emitted("resolved")).toEqual([[merged]]);
+		expect(wrapper.emitted("update:open")).toEqual([[false]]);
+		expect(toastMocks.success).toHaveBeenCalled();
+		wrapper.unmount();
+	});
+
+	it("should stay open while other conflicts are waiting", async () => {
+		resumeStore.resolveSyncConflict.mockResolvedValue(merged);
+		resumeStore.syncConflicts = [{ ...conflict, resumeId: "resume-2" }];
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="conflict-apply"]')?.click();
+		await flushPromises();
+
+		expect(wrapper.emitted("resolved")).toEqual([[merged]]);
+		expect(wrapper.emitted("update:open")).toBeUndefined();
+		wrapper.unmount();
+	});
+
+	it("should report a failed resolution and stay open", async () => {
+		resumeStore.resolveSyncConflict.mockRejectedValue(
+			new Error("Network down"),
+		);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="conflict-apply"]')?.click();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.sync.conflict.resolveFailed",
+			{ description: "Network down" },
+		);
+		expect(wrapper.emitted("resolved")).toBeUndefined();
+		expect(wrapper.emitted("update:open")).toBeUndefined();
+		wrapper.unmount();
+	});
+
+	it("should close without resolving when deciding later", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="conflict-later"]')?.click();
+		await flushPromises();
+
+		expect(wrapper.emitted("update:open")).toEqual([[false]]);
+		expect(resumeStore.resolveSyncConflict).not.toHaveBeenCalled();
+		wrapper.unmount();
+	});
+});
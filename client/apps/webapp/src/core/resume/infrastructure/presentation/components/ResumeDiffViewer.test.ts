@@ -0,0 +1,107 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import { createTestResume } from "@/core/resume/test-resume-factory.ts";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumeDiffViewer from "./ResumeDiffViewer.vue";
+
+describe("ResumeDiffViewer.vue", () => {
+	const mountComponent = (
+		before: Resume,
+		after: Resume,
+		showUnchanged = false,
+	) =>
+		mount(ResumeDiffViewer, {
+			props: { before, after, showUnchanged },
+			global: {
+				plugins: [createTestI18n()],
+			},
+		});
+
+	it("should render no sections when both versions are identical", () => {
+		const resume = createTestResume();
+
+		const wrapper = mountComponent(resume, resume);
+
+		expect(wrapper.findAll("[data-change]")).toHaveLength(0);
+		expect(wrapper.find("section").exists()).toBe(false);
+	});
+
+	it("should render edited entries side by side with their field changes", () => {
+		const before = createTestResume();
+		const after: Resume = {
+			...before,
+			work: before.work.map((work, index) =>
+				index === 0
+					? {
+							...work,
+							highlights: [...work.highlights, "Cut build time in half"],
+						}
+					: work,
+			),
+		};
+
+		const wrapper = mountComponent(before, after);
+
+		const edited = wrapper.findAll('[data-change="modified"]');
+		expect(edited).toHaveLength(1);
+		expect(edited[0]?.findAll("article")).toHaveLength(2);
+		expect(edited[0]?.find('[data-testid="diff-list"]').text()).toContain(
+			"Cut build time in half",
+		);
+	});
+
+	it("should render added and removed entries", () => {
+		const before = createTestResume();
+		const after: Resume = {
+			...before,
+			skills: [
+				...before.skills.slice(1),
+				{ name: "Rust", level: "Beginner", keywords: [] },
+			],
+		};
+
+		const wrapper = mountComponent(before, after);
+
+		const skills = wrapper.find('[data-section="skills"]');
+		expect(skills.find('[data-change="removed"]').text()).toContain(
+			"JavaScript",
+		);
+		expect(skills.find('[data-change="added"]').text()).toContain("Rust");
+	});
+
+	it("should render basics field changes", () => {
+		const before = createTestResume();
+		const after: Resume = {
+			...before,
+			basics: { ...before.basics, email: "jane@example.com" },
+		};
+
+		const wrapper = mountComponent(before, after);
+
+		const field = wrapper.find(
+			'[data-section="basics"] [data-testid="diff-field"]',
+		);
+		expect(field.find("del").text()).toBe("john@example.com");
+		expect(field.find("ins").text()).toBe("jane@example.com");
+	});
+
+	it("should list unchanged entries on demand", () => {
+		const before = createTestResume();
+		const after: Resume = {
+			...before,
+			skills: [...before.skills].reverse(),
+		};
+
+		const hidden = mountComponent(before, after);
+		const shown = mountComponent(before, after, true);
+
+		expect(
+			hidden.findAll('[data-section="skills"] [data-change="unchanged"]'),
+		).toHaveLength(2);
+		expect(
+			shown.findAll('[data-section="skills"] [data-change="unchanged"]'),
+		).toHaveLength(3);
+		expect(shown.find('[data-section="work"]').exists()).toBe(true);
+	});
+});
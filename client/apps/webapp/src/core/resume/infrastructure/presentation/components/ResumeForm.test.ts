@@ -1,9 +1,13 @@
-import { mount } from "@vue/test-utils";
+import { flushPromises, mount } from "@vue/test-utils";
 import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Resume } from "@/core/resume/domain/Resume";
+import type { LintFinding } from "@/core/resume/domain/TextLint";
+import { useResumeStore } from "@/core/resume/infrastructure/store/resume.store";
 import { createTestI18n } from "@/test-utils/i18n-helper";
+import BasicsSection from "./BasicsSection.vue";
 import ResumeForm from "./ResumeForm.vue";
+import WorkExperienceSection from "./WorkExperienceSection.vue";
 
 // Mock the useResumeForm composable
 const mockLoadResume = vi.fn();
@@ -68,8 +72,14 @@ describe("ResumeForm.vue", () => {
 		vi.clearAllMocks();
 	});
 
-	const mountComponent = (customI18n = createTestI18n()) => {
+	const mountComponent = (
+		customI18n = createTestI18n(),
+		stubs: Record<string, unknown> = {},
+		props: Record<string, unknown> = {},
+	) => {
 		return mount(ResumeForm, {
+			attachTo: document.body,
+			props,
 			global: {
 				plugins: [customI18n],
 				stubs: {
@@ -105,6 +115,7 @@ describe("ResumeForm.vue", () => {
 					FieldSet: {
 						template: '<fieldset class="field-set"><slot /></fieldset>',
 					},
+					...stubs,
 				},
 			},
 		});
@@ -257,4 +268,98 @@ describe("ResumeForm.vue", () => {
 			expect(accordion.exists()).toBe(true);
 		});
 	});
+
+	describe("navigation", () => {
+		it("should focus the field requested through the store", async () => {
+			const wrapper = mountComponent(createTestI18n(), {
+				WorkExperienceSection: {
+					template:
+						'<div data-entry-id="0"><input id="work-name-0" /><input id="work-start-date-0" /></div>',
+				},
+			});
+			const store = useResumeStore();
+
+			store.setHighlightedEntry(0);
+			store.setHighlightedField("work[0].startDate");
+			store.setActiveSection("work");
+			await flushPromises();
+
+			expect(document.activeElement?.id).toBe("work-start-date-0");
+			expect(store.activeSection).toBeNull();
+			expect(store.highlightedField).toBeNull();
+			wrapper.unmount();
+		});
+
+		it("should fall back to the first input of the entry", async () => {
+			const wrapper = mountComponent(createTestI18n(), {
+				WorkExperienceSection: {
+					template: '<div data-entry-id="0"><input id="work-name-0" /></div>',
+				},
+			});
+			const store = useResumeStore();
+
+			store.setHighlightedEntry(0);
+			store.setHighlightedField("work[0].highlights");
+			store.setActiveSection("work");
+			await flushPromises();
+
+			expect(document.activeElement?.id).toBe("work-name-0");
+			wrapper.unmount();
+		});
+
+		it("should focus the item of a list field", async () => {
+			const wrapper = mountComponent(createTestI18n(), {
+				WorkExperienceSection: {
+					template:
+						'<div data-entry-id="0"><input id="work-highlight-0-0" /><input id="work-highlight-0-1" /></div>',
+				},
+			});
+			const store = useResumeStore();
+
+			store.setHighlightedEntry(0);
+			store.setHighlightedField("work[0].highlights[1]");
+			store.setActiveSection("work");
+			await flushPromises();
+
+			expect(document.activeElement?.id).toBe("work-highlight-0-1");
+			wrapper.unmount();
+		});
+	});
+
+	describe("proofreading", () => {
+		const finding = (
+			section: LintFinding["section"],
+			path: string,
+		): LintFinding => ({
+			id: `spelling:${path}:0`,
+			rule: "spelling",
+			severity: "error",
+			section,
+			entryIndex: section === "basics" ? null : 0,
+			path,
+			offset: 0,
+			length: 4,
+			text: "Buld",
+			suggestions: ["Build"],
+			params: { word: "Buld" },
+		});
+
+		it("should pass each section its findings", () => {
+			const summary = finding("basics", "basics.summary");
+			const highlight = finding("work", "work[0].highlights[0]");
+			const wrapper = mountComponent(
+				createTestI18n(),
+				{},
+				{ lintFindings: [summary, highlight] },
+			);
+
+			expect(
+				wrapper.findComponent(BasicsSection).props("lintFindings"),
+			).toEqual([summary]);
+			expect(
+				wrapper.findComponent(WorkExperienceSection).props("lintFindings"),
+			).toEqual([highlight]);
+			wrapper.unmount();
+		});
+	});
 });
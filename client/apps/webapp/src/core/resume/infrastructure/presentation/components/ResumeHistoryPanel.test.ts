@@ -0,0 +1,160 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeSnapshotSummary } from "@/core/resume/domain/ResumeSnapshot";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumeHistoryPanel from "./ResumeHistoryPanel.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+
+const resumeStore = vi.hoisted(() => ({
+	resume: null as Resume | null,
+	snapshots: [] as ResumeSnapshotSummary[],
+	isLoadingHistory: false,
+	loadHistory: vi.fn(),
+	createCheckpoint: vi.fn(),
+	getSnapshot: vi.fn(),
+	restoreSnapshot: vi.fn(),
+	deleteSnapshot: vi.fn(),
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(resumeStore);
+	return { useResumeStore: () => store };
+});
+
+const restored = createTestResume();
+
+const createSummary = (
+	overrides: Partial<ResumeSnapshotSummary> = {},
+): ResumeSnapshotSummary => ({
+	id: "snap-1",
+	resumeId: "default",
+	createdAt: "2024-01-01T00:00:00Z",
+	reason: "checkpoint",
+	label: "Before redesign",
+	fingerprint: "aaaaaaaa",
+	...overrides,
+});
+
+describe("ResumeHistoryPanel.vue", () => {
+	const mountComponent = () =>
+		mount(ResumeHistoryPanel, {
+			props: { open: true },
+			attachTo: document.body,
+			global: { plugins: [createTestI18n()] },
+		});
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		Object.assign(resumeStore, {
+			resume: createTestResume(),
+			snapshots: [
+				createSummary(),
+				createSummary({ id: "snap-2", reason: "save", label: null }),
+			],
+			isLoadingHistory: false,
+		});
+		resumeStore.loadHistory.mockResolvedValue(undefined);
+		resumeStore.restoreSnapshot.mockResolvedValue(restored);
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	it("should load and list the snapshots when opened", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(resumeStore.loadHistory).toHaveBeenCalled();
+		const entries = document.body.querySelectorAll(
+			'[data-testid="history-entry"]',
+		);
+		expect(entries).toHaveLength(2);
+		expect(entries[0]?.textContent).toContain("Before redesign");
+		expect(find('[data-testid="history-empty"]')).toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should show the empty state without snapshots", async () => {
+		resumeStore.snapshots = [];
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(find('[data-testid="history-empty"]')).not.toBeNull();
+		expect(find('[data-testid="history-entry"]')).toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should report a history that cannot be loaded", async () => {
+		resumeStore.loadHistory.mockRejectedValue(new Error("Offline"));
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.history.messages.loadError",
+			{ description: "Offline" },
+		);
+		wrapper.unmount();
+	});
+
+	it("should restore a snapshot only after confirmation", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="history-restore"]')?.click();
+		await flushPromises();
+		expect(resumeStore.restoreSnapshot).not.toHaveBeenCalled();
+
+		find('[data-testid="history-restore-confirm"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.restoreSnapshot).toHaveBeenCalledWith("snap-1");
+		expect(wrapper.emitted("restored")).toEqual([[restored]]);
+		expect(toastMocks.success).toHaveBeenCalledWith(
+			"resume.history.messages.restored",
+		);
+		wrapper.unmount();
+	});
+
+	it("should keep the resume when the restore is cancelled", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="history-restore"]')?.click();
+		await flushPromises();
+		find('[data-testid="history-restore-cancel"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.restoreSnapshot).not.toHaveBeenCalled();
+		expect(wrapper.emitted("restored")).toBeUndefined();
+		wrapper.unmount();
+	});
+
+	it("should report a failed restore", async () => {
+		resumeStore.restoreSnapshot.mockRejectedValue(new Error("Gone"));
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="history-restore"]')?.click();
+		await flushPromises();
+		find('[data-testid="history-restore-confirm"]')?.click();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.history.messages.restoreError",
+			{ description: "Gone" },
+		);
+		expect(wrapper.emitted("restored")).toBeUndefined();
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,77 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { createPortfolioEntry } from "@/core/resume/domain/ResumePortfolio";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumePortfolioTable from "./ResumePortfolioTable.vue";
+
+const entry = createPortfolioEntry(
+	{
+		id: "resume-1",
+		title: "Engineer",
+		createdAt: "2026-01-01T00:00:00.000Z",
+		updatedAt: "2026-02-01T00:00:00.000Z",
+	},
+	createTestResume(),
+	true,
+	{ templateId: "modern", generatedAt: "2026-02-02T00:00:00.000Z" },
+);
+
+describe("ResumePortfolioTable.vue", () => {
+	const mountComponent = (entries = [entry]) =>
+		mount(ResumePortfolioTable, {
+			props: {
+				entries,
+				exportFormats: ["markdown", "docx"],
+				templateNames: { modern: "Modern" },
+			},
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should render a row per resume with its score, status and template", () => {
+		const wrapper = mountComponent();
+
+		const row = wrapper.find('[data-testid="portfolio-row"]');
+		expect(row.text()).toContain("Engineer");
+		expect(row.find('[data-testid="portfolio-row-score"]').text()).toBe(
+			`${entry.score}%`,
+		);
+		expect(row.find('[data-testid="portfolio-row-status"]').text()).toBe(
+			"resume.portfolio.status.valid",
+		);
+		expect(row.find('[data-testid="portfolio-row-template"]').text()).toContain(
+			"Modern",
+		);
+	});
+
+	it("should emit the quick actions", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="portfolio-edit"]').trigger("click");
+		await wrapper.find('[data-testid="portfolio-duplicate"]').trigger("click");
+		await wrapper.find('[data-testid="portfolio-generate"]').trigger("click");
+
+		expect(wrapper.emitted("edit")).toEqual([["resume-1"]]);
+		expect(wrapper.emitted("duplicate")).toEqual([["resume-1"]]);
+		expect(wrapper.emitted("generate")).toEqual([["resume-1"]]);
+	});
+
+	it("should disable PDF generation for resumes that could not be loaded", () => {
+		const wrapper = mountComponent([
+			createPortfolioEntry(entry.summary, null, false, null),
+		]);
+
+		expect(
+			wrapper.find('[data-testid="portfolio-generate"]').attributes("disabled"),
+		).toBeDefined();
+		expect(wrapper.find('[data-testid="portfolio-row-status"]').text()).toBe(
+			"resume.portfolio.status.unavailable",
+		);
+	});
+
+	it("should show an empty state", () => {
+		const wrapper = mountComponent([]);
+
+		expect(wrapper.text()).toContain("resume.portfolio.empty");
+	});
+});
@@ -0,0 +1,97 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumePreview from "./ResumePreview.vue";
+
+// Entries carry their section too, so keep the first occurrence of each
+const sectionOrder = (wrapper: ReturnType<typeof mount>) => [
+	...new Set(
+		wrapper
+			.findAll("[data-section]")
+			.map((section) => section.attributes("data-section")),
+	),
+];
+
+describe("ResumePreview.vue", () => {
+	const mountComponent = (props: Record<string, unknown> = {}) =>
+		mount(ResumePreview, {
+			props: { data: createTestResume(), ...props },
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should render every non-empty section with the default template", () => {
+		const wrapper = mountComponent();
+
+		expect(sectionOrder(wrapper)).toEqual([
+			"work",
+			"education",
+			"skills",
+			"projects",
+			"languages",
+			"volunteer",
+			"certificates",
+			"awards",
+			"publications",
+			"interests",
+			"references",
+		]);
+		expect(wrapper.text()).toContain("Article on TypeScript");
+		expect(wrapper.text()).toContain("Photography");
+		expect(wrapper.text()).toContain("Jane Smith");
+	});
+
+	it("should follow the section order of the engineering template", () => {
+		const wrapper = mountComponent({ templateId: "engineering" });
+
+		expect(sectionOrder(wrapper)).toEqual([
+			"work",
+			"education",
+			"skills",
+			"projects",
+			"publications",
+			"certificates",
+			"awards",
+			"volunteer",
+			"languages",
+			"interests",
+			"references",
+		]);
+		expect(wrapper.text()).toContain("Senior Developer, Company A");
+	});
+
+	it("should fall back to the default template for unknown templates", () => {
+		const wrapper = mountComponent({ templateId: "unknown" });
+
+		expect(sectionOrder(wrapper)[4]).toBe("languages");
+	});
+
+	it("should skip empty sections", () => {
+		const data = createTestResume({ publications: [], references: [] });
+
+		const wrapper = mountComponent({ data });
+
+		expect(sectionOrder(wrapper)).not.toContain("publications");
+		expect(sectionOrder(wrapper)).not.toContain("references");
+	});
+
+	it("should apply the template params as styles", () => {
+		const wrapper = mountComponent({
+			params: { colorPalette: "green", spacing: "compact" },
+		});
+
+		const style = wrapper.find(".resume-preview").attributes("style");
+		expect(style).toContain("--resume-accent: #15803d");
+		expect(style).toContain("--resume-section-gap: 0.75rem");
+	});
+
+	it("should emit navigate-section with the entry index", async () => {
+		const wrapper = mountComponent({ templateId: "engineering" });
+
+		await wrapper
+			.find('[data-section="work"] [data-entry-id="1"]')
+			.trigger("click");
+
+		expect(wrapper.emitted("navigate-section")).toEqual([["work", 1]]);
+	});
+});
@@ -0,0 +1,177 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import type {
+	ResumeShare,
+	ResumeSharePublisher,
+} from "@/core/resume/domain/ResumeShare";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { USER_SETTINGS_STORAGE_KEY } from "@/core/settings";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumeSharePanel from "./ResumeSharePanel.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+const copyMock = vi.hoisted(() => vi.fn());
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("@vueuse/core", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@vueuse/core")>()),
+	useClipboard: () => ({ copy: copyMock }),
+}));
+
+vi.mock("../composables/usePdf", () => ({
+	usePdf: () => ({
+		templates: ref([{ id: "engineering", name: "Engineering" }]),
+		fetchTemplates: vi.fn().mockResolvedValue(undefined),
+	}),
+}));
+
+const share: ResumeShare = {
+	id: "share-1",
+	resumeId: "resume-1",
+	url: "https://cv.example.com/r/abc",
+	expiresAt: null,
+	passwordProtected: false,
+	createdAt: "2026-03-01T12:00:00.000Z",
+};
+
+describe("ResumeSharePanel.vue", () => {
+	let publisher: ResumeSharePublisher;
+
+	const mountComponent = () =>
+		mount(ResumeSharePanel, {
+			props: {
+				open: true,
+				resumeId: "resume-1",
+				resume: createTestResume(),
+				publisher,
+			},
+			attachTo: document.body,
+			global: { plugins: [createTestI18n()] },
+		});
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		localStorage.clear();
+		vi.clearAllMocks();
+		publisher = {
+			getShare: vi.fn().mockResolvedValue(null),
+			publish: vi.fn().mockResolvedValue(share),
+			unpublish: vi.fn().mockResolvedValue(undefined),
+		};
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	it("should publish the resume with the selected template", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+		expect(find('[data-testid="resume-share-none"]')).not.toBeNull();
+
+		find('[data-testid="resume-share-publish"]')?.click();
+		await flushPromises();
+
+		expect(publisher.publish).toHaveBeenCalledWith(
+			"resume-1",
+			expect.any(Object),
+			expect.objectContaining({
+				templateId: "engineering",
+				password: null,
+				trackViews: true,
+			}),
+		);
+		expect(
+			(find('[data-testid="resume-share-url"]') as HTMLInputElement).value,
+		).toBe(share.url);
+		expect(toastMocks.success).toHaveBeenCalledWith("resume.share.published");
+		wrapper.unmount();
+	});
+
+	it("should not track views when the owner opted out of analytics", async () => {
+		localStorage.setItem(
+			USER_SETTINGS_STORAGE_KEY,
+			JSON.stringify({
+				storagePreference: "local",
+				privacy: { analytics: false },
+			}),
+		);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="resume-share-publish"]')?.click();
+		await flushPromises();
+
+		expect(publisher.publish).toHaveBeenCalledWith(
+			"resume-1",
+			expect.any(Object),
+			expect.objectContaining({ trackViews: false }),
+		);
+		wrapper.unmount();
+	});
+
+	it("should unpublish the current share", async () => {
+		vi.mocked(publisher.getShare).mockResolvedValue(share);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="resume-share-unpublish"]')?.click();
+		await flushPromises();
+
+		expect(publisher.unpublish).toHaveBeenCalledWith("resume-1");
+		expect(find('[data-testid="resume-share-current"]')).toBeNull();
+		expect(find('[data-testid="resume-share-none"]')).not.toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should copy the public link", async () => {
+		vi.mocked(publisher.getShare).mockResolvedValue(share);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="resume-share-copy"]')?.click();
+		await flushPromises();
+
+		expect(copyMock).toHaveBeenCalledWith(share.url);
+		expect(toastMocks.success).toHaveBeenCalledWith("resume.share.copied");
+		wrapper.unmount();
+	});
+
+	it("should report a failed publication and keep the resume offline", async () => {
+		vi.mocked(publisher.publish).mockRejectedValue(new Error("Server down"));
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="resume-share-publish"]')?.click();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.share.publishFailed",
+			{ description: expect.stringContaining("Server down") },
+		);
+		expect(find('[data-testid="resume-share-none"]')).not.toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should report a failed unpublication and keep the link", async () => {
+		vi.mocked(publisher.getShare).mockResolvedValue(share);
+		vi.mocked(publisher.unpublish).mockRejectedValue(new Error("Forbidden"));
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="resume-share-unpublish"]')?.click();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.share.unpublishFailed",
+			{ description: expect.stringContaining("Forbidden") },
+		);
+		expect(find('[data-testid="resume-share-current"]')).not.toBeNull();
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,83 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { ResumeVariant } from "@/core/resume/domain/ResumeVariant";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ResumeVariantSelector from "./ResumeVariantSelector.vue";
+
+const resume = createTestResume();
+
+const variant: ResumeVariant = {
+	id: "variant-1",
+	baseResumeId: "resume-1",
+	name: "Acme – Backend",
+	visibility: createDefaultVisibility("variant-1", resume),
+	hiddenItems: {},
+	order: {},
+	overrides: { label: "Backend Engineer" },
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("ResumeVariantSelector.vue", () => {
+	const mountComponent = (activeId: string | null = null) =>
+		mount(ResumeVariantSelector, {
+			props: { resume, variants: [variant], activeId },
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should list the variants and emit the selected one", async () => {
+		const wrapper = mountComponent();
+
+		const items = wrapper.findAll('[data-testid="variant-item"]');
+		expect(items.map((item) => item.text())).toEqual(["Acme – Backend"]);
+
+		await items[0]?.find("button").trigger("click");
+		await wrapper.find('[data-testid="variant-base"]').trigger("click");
+
+		expect(wrapper.emitted("select")).toEqual([["variant-1"], [null]]);
+	});
+
+	it("should emit a trimmed name when saving a variant", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="variant-name"]').setValue("  Globex ");
+		await wrapper.find("form").trigger("submit");
+
+		expect(wrapper.emitted("create")).toEqual([["Globex"]]);
+	});
+
+	it("should emit deletions", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="variant-delete"]').trigger("click");
+
+		expect(wrapper.emitted("delete")).toEqual([["variant-1"]]);
+	});
+
+	it("should only show overrides for a selected variant", () => {
+		expect(
+			mountComponent().find('[data-testid="variant-overrides"]').exists(),
+		).toBe(false);
+
+		const wrapper = mountComponent("variant-1");
+		const label = wrapper.find('[data-testid="variant-label"]')
+			.element as HTMLInputElement;
+		expect(label.value).toBe("Backend Engineer");
+	});
+
+	it("should inherit base values for empty override fields", async () => {
+		const wrapper = mountComponent("variant-1");
+
+		await wrapper.find('[data-testid="variant-label"]').setValue("");
+		await wrapper
+			.find('[data-testid="variant-summary"]')
+			.setValue("Payments specialist");
+		await wrapper.find('[data-testid="variant-overrides"]').trigger("submit");
+
+		expect(wrapper.emitted("update:overrides")).toEqual([
+			[{ summary: "Payments specialist" }],
+		]);
+	});
+});
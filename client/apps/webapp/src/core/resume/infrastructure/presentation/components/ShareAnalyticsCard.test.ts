@@ -0,0 +1,111 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import type {
+	ShareAnalyticsSource,
+	ShareViewEvent,
+} from "@/core/resume/domain/ShareAnalytics";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ShareAnalyticsCard from "./ShareAnalyticsCard.vue";
+
+const resumes = [
+	{
+		id: "resume-1",
+		title: "Main resume",
+		createdAt: "2026-01-01T00:00:00.000Z",
+		updatedAt: null,
+	},
+	{
+		id: "resume-2",
+		title: "Backend resume",
+		createdAt: "2026-01-02T00:00:00.000Z",
+		updatedAt: null,
+	},
+];
+
+const view = (overrides: Partial<ShareViewEvent> = {}): ShareViewEvent => ({
+	id: "view-1",
+	shareId: "share-1",
+	viewedAt: new Date().toISOString(),
+	referrer: "www.linkedin.com",
+	device: "mobile",
+	pdfDownloaded: false,
+	...overrides,
+});
+
+describe("ShareAnalyticsCard.vue", () => {
+	const mountComponent = (source: ShareAnalyticsSource) =>
+		mount(ShareAnalyticsCard, {
+			props: { resumes, source },
+			global: {
+				plugins: [createTestI18n()],
+				// Charts render SVG through unovis, which needs a real layout engine
+				stubs: { LineChart: true, BarChart: true, DonutChart: true },
+			},
+		});
+
+	it("loads the views of the first resume for the last 30 days", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi
+				.fn()
+				.mockResolvedValue([view({ pdfDownloaded: true }), view()]),
+		};
+		const wrapper = mountComponent(source);
+		await flushPromises();
+
+		expect(source.listViews).toHaveBeenCalledWith(
+			"resume-1",
+			expect.any(String),
+		);
+		const stats = wrapper
+			.findAll('[data-testid="share-analytics-stat"] dd')
+			.map((stat) => stat.text());
+		expect(stats.slice(0, 3)).toEqual(["2", "1", "50%"]);
+		expect(wrapper.findComponent({ name: "LineChart" }).exists()).toBe(true);
+	});
+
+	it("reloads when another resume or period is selected", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockResolvedValue([]),
+		};
+		const wrapper = mountComponent(source);
+		await flushPromises();
+
+		await wrapper
+			.find('[data-testid="share-analytics-resume"]')
+			.setValue("resume-2");
+		await flushPromises();
+		expect(source.listViews).toHaveBeenLastCalledWith(
+			"resume-2",
+			expect.any(String),
+		);
+
+		await wrapper.find('[data-testid="share-analytics-period"]').setValue("7");
+		await flushPromises();
+		expect(source.listViews).toHaveBeenCalledTimes(3);
+	});
+
+	it("shows an empty state without views", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockResolvedValue([]),
+		};
+		const wrapper = mountComponent(source);
+		await flushPromises();
+
+		expect(wrapper.find('[data-testid="share-analytics-empty"]').exists()).toBe(
+			true,
+		);
+		expect(wrapper.findComponent({ name: "LineChart" }).exists()).toBe(false);
+	});
+
+	it("shows an error when the views cannot be loaded", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockRejectedValue(new Error("Forbidden")),
+		};
+		const wrapper = mountComponent(source);
+		await flushPromises();
+
+		expect(wrapper.find('[data-testid="share-analytics-error"]').exists()).toBe(
+			true,
+		);
+	});
+});
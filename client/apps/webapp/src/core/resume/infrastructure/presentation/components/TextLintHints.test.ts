@@ -0,0 +1,69 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { LintFinding } from "@/core/resume/domain/TextLint";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import TextLintHints from "./TextLintHints.vue";
+
+describe("TextLintHints.vue", () => {
+	const finding = (overrides: Partial<LintFinding> = {}): LintFinding => ({
+		id: "spelling:work[0].highlights[0]:6",
+		rule: "spelling",
+		severity: "error",
+		section: "work",
+		entryIndex: 0,
+		path: "work[0].highlights[0]",
+		offset: 6,
+		length: 4,
+		text: "fsat",
+		suggestions: ["fast", "feat"],
+		params: { word: "fsat" },
+		...overrides,
+	});
+
+	const mountComponent = (findings: LintFinding[], path: string) =>
+		mount(TextLintHints, {
+			props: { findings, path, value: "Built fsat APIs" },
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should list the findings of the field only", () => {
+		const wrapper = mountComponent(
+			[
+				finding(),
+				finding({ id: "other", path: "work[0].highlights[1]" }),
+				finding({
+					id: "tense",
+					rule: "tense",
+					severity: "warning",
+					suggestions: [],
+					params: { word: "Builds", expected: "past" },
+				}),
+			],
+			"work[0].highlights[0]",
+		);
+
+		const hints = wrapper.findAll('[data-testid="lint-hint"]');
+		expect(hints).toHaveLength(2);
+		expect(hints[0]?.text()).toContain("resume.lint.rules.spelling");
+		expect(hints[1]?.text()).toContain("resume.lint.rules.tense");
+	});
+
+	it("should render nothing without findings for the field", () => {
+		const wrapper = mountComponent([finding()], "basics.summary");
+
+		expect(wrapper.find('[data-testid="lint-hints"]').exists()).toBe(false);
+	});
+
+	it("should emit the field value with the suggestion applied", async () => {
+		const wrapper = mountComponent([finding()], "work[0].highlights[0]");
+
+		const suggestions = wrapper.findAll('[data-testid="lint-suggestion"]');
+		expect(suggestions.map((button) => button.text())).toEqual([
+			"fast",
+			"feat",
+		]);
+		await suggestions[0]?.trigger("click");
+
+		expect(wrapper.emitted("apply")).toEqual([["Built fast APIs"]]);
+	});
+});
@@ -0,0 +1,157 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { LintFinding, LintReport } from "@/core/resume/domain/TextLint";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import TextLintPanel, { type TextLintPanelProps } from "./TextLintPanel.vue";
+
+const slot = { template: "<div><slot /></div>" };
+
+describe("TextLintPanel.vue", () => {
+	const finding = (overrides: Partial<LintFinding> = {}): LintFinding => ({
+		id: "spelling:basics.summary:0",
+		rule: "spelling",
+		severity: "error",
+		section: "basics",
+		entryIndex: null,
+		path: "basics.summary",
+		offset: 0,
+		length: 5,
+		text: "Kafak",
+		suggestions: ["Kafka"],
+		params: { word: "Kafak" },
+		...overrides,
+	});
+
+	const report = (findings: LintFinding[]): LintReport => ({
+		findings,
+		counts: {
+			spelling: findings.filter((item) => item.rule === "spelling").length,
+			"repeated-word": 0,
+			tense: findings.filter((item) => item.rule === "tense").length,
+			"passive-voice": 0,
+			"first-person": 0,
+			"weak-verb": 0,
+		},
+	});
+
+	const tense = finding({
+		id: "tense:work[0].highlights[0]:0",
+		rule: "tense",
+		severity: "warning",
+		section: "work",
+		entryIndex: 0,
+		path: "work[0].highlights[0]",
+		text: "Manages",
+		suggestions: ["Managed"],
+		params: { word: "Manages", expected: "past" },
+	});
+
+	const mountComponent = (props: Partial<TextLintPanelProps> = {}) =>
+		mount(TextLintPanel, {
+			props: {
+				open: true,
+				report: report([finding(), tense]),
+				locale: "en",
+				customWords: [],
+				...props,
+			},
+			global: {
+				plugins: [createTestI18n()],
+				stubs: {
+					Sheet: slot,
+					SheetContent: slot,
+					SheetHeader: slot,
+					SheetTitle: slot,
+					SheetDescription: slot,
+				},
+			},
+		});
+
+	it("should list the findings grouped by section", () => {
+		const wrapper = mountComponent();
+
+		const headings = wrapper.findAll("h3").map((heading) => heading.text());
+		expect(headings).toContain("Work Experience");
+		const findings = wrapper.findAll('[data-testid="lint-finding"]');
+		expect(findings).toHaveLength(2);
+		expect(findings[0]?.text()).toContain("resume.lint.rules.spelling");
+		expect(findings[1]?.text()).toContain("resume.lint.rules.tense");
+	});
+
+	it("should filter the findings by rule", async () => {
+		const wrapper = mountComponent();
+
+		const filters = wrapper.findAll('[data-testid="lint-rule-filter"]');
+		expect(filters.map((filter) => filter.text())).toEqual([
+			"resume.lint.ruleNames.spelling 1",
+			"resume.lint.ruleNames.tense 1",
+		]);
+		await filters[1]?.trigger("click");
+
+		const findings = wrapper.findAll('[data-testid="lint-finding"]');
+		expect(findings).toHaveLength(1);
+		expect(findings[0]?.text()).toContain("resume.lint.rules.tense");
+	});
+
+	it("should emit the finding selected", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.findAll('[data-testid="lint-finding"]')[1]?.trigger("click");
+
+		expect(wrapper.emitted("select")).toEqual([[tense]]);
+	});
+
+	it("should offer to add misspelled words to the dictionary", async () => {
+		const wrapper = mountComponent();
+
+		const addButtons = wrapper.findAll('[data-testid="lint-add-word"]');
+		expect(addButtons).toHaveLength(1);
+		await addButtons[0]?.trigger("click");
+
+		expect(wrapper.emitted("addWord")).toEqual([["Kafak"]]);
+	});
+
+	it("should list and remove the custom words", async () => {
+		const wrapper = mountComponent({ customWords: ["Grafana", "Kubernetes"] });
+
+		expect(
+			wrapper
+				.findAll('[data-testid="lint-custom-word"]')
+				.map((word) => word.text()),
+		).toEqual(["Grafana", "Kubernetes"]);
+		await wrapper
+			.findAll('[data-testid="lint-remove-word"]')[1]
+			?.trigger("click");
+
+		expect(wrapper.emitted("removeWord")).toEqual([["Kubernetes"]]);
+	});
+
+	it("should emit the language picked", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="lint-locale"]').setValue("es");
+
+		expect(wrapper.emitted("update:locale")).toEqual([["es"]]);
+	});
+
+	it("should show the dictionary status", () => {
+		const wrapper = mountComponent({
+			isLoadingDictionary: true,
+			dictionaryError: "Failed to load the en dictionary: offline",
+		});
+
+		expect(wrapper.find('[data-testid="lint-loading"]').exists()).toBe(true);
+		expect(
+			wrapper.find('[data-testid="lint-dictionary-error"]').text(),
+		).toContain("offline");
+	});
+
+	it("should tell when no issues are found", () => {
+		const wrapper = mountComponent({ report: report([]) });
+
+		expect(wrapper.find('[data-testid="lint-no-issues"]').exists()).toBe(true);
+		expect(wrapper.find('[data-testid="lint-rule-filter"]').exists()).toBe(
+			false,
+		);
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { defineComponent } from "vue";
+import {
+	DEFAULT_TEMPLATE_RENDERER_ID,
+	getTemplateRenderer,
+	hasTemplateRenderer,
+	registerTemplateRenderer,
+} from "./index";
+
+describe("template renderers", () => {
+	it("should register a renderer for the engineering template", () => {
+		expect(hasTemplateRenderer("engineering")).toBe(true);
+		expect(getTemplateRenderer("engineering").sectionOrder[0]).toBe("work");
+	});
+
+	it("should fall back to the default renderer", () => {
+		const fallback = getTemplateRenderer(DEFAULT_TEMPLATE_RENDERER_ID);
+
+		expect(getTemplateRenderer("missing")).toBe(fallback);
+		expect(getTemplateRenderer(null)).toBe(fallback);
+		expect(getTemplateRenderer()).toBe(fallback);
+	});
+
+	it("should resolve registered renderers", () => {
+		const renderer = {
+			component: defineComponent({ template: "<div />" }),
+			sectionOrder: ["skills" as const],
+		};
+
+		registerTemplateRenderer("custom-test", renderer);
+
+		expect(getTemplateRenderer("custom-test")).toBe(renderer);
+	});
+});
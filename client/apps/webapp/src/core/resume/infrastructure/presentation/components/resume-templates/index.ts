@@ -0,0 +1,95 @@
+import type { Component } from "vue";
+import type { ArraySectionType } from "@/core/resume/domain/SectionVisibility";
+import ClassicTemplate from "./ClassicTemplate.vue";
+import EngineeringTemplate from "./EngineeringTemplate.vue";
+
+/**
+ * A client-side template used to preview a resume.
+ *
+ * The component receives `data` (the resume), `sections` (the non-empty
+ * sections in template order) and emits `navigate-section`, like `ResumePreview`.
+ */
+export interface ResumeTemplateRenderer {
+	component: Component;
+	/** Section order of the matching server template */
+	sectionOrder: ReadonlyArray<ArraySectionType>;
+}
+
+/**
+ * Renderer used for templates without a client-side counterpart.
+ */
+export const DEFAULT_TEMPLATE_RENDERER_ID = "default";
+
+const renderers = new Map<string, ResumeTemplateRenderer>();
+
+/**
+ * Registers the preview renderer of a template.
+ *
+ * @param templateId - The `TemplateMetadata.id` the renderer mirrors
+ * @param renderer - The renderer
+ */
+export function registerTemplateRenderer(
+	templateId: string,
+	renderer: ResumeTemplateRenderer,
+): void {
+	renderers.set(templateId, renderer);
+}
+
+/**
+ * Gets the preview renderer of a template, falling back to the default one.
+ *
+ * @param templateId - The template ID, if any
+ * @returns The renderer to use
+ */
+export function getTemplateRenderer(
+	templateId?: string | null,
+): ResumeTemplateRenderer {
+	return (
+		(templateId ? renderers.get(templateId) : undefined) ??
+		(renderers.get(DEFAULT_TEMPLATE_RENDERER_ID) as ResumeTemplateRenderer)
+	);
+}
+
+/**
+ * Checks whether a template has its own preview renderer.
+ */
+export function hasTemplateRenderer(templateId: string): boolean {
+	return renderers.has(templateId);
+}
+
+registerTemplateRenderer(DEFAULT_TEMPLATE_RENDERER_ID, {
+	component: ClassicTemplate,
+	sectionOrder: [
+		"work",
+		"education",
+		"skills",
+		"projects",
+		"languages",
+		"volunteer",
+		"certificates",
+		"awards",
+		"publications",
+		"interests",
+		"references",
+	],
+});
+
+// Mirrors baseResume in templates/resume/engineering/engineering.stg
+registerTemplateRenderer("engineering", {
+	component: EngineeringTemplate,
+	sectionOrder: [
+		"work",
+		"education",
+		"skills",
+		"projects",
+		"publications",
+		"certificates",
+		"awards",
+		"volunteer",
+		"languages",
+		"interests",
+		"references",
+	],
+});
+
+export { templateStyle } from "./templateStyle";
@@ -0,0 +1,62 @@
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams";
+
+const PALETTE_COLORS: Record<string, string> = {
+	black: "#000000",
+	blue: "#1d4ed8",
+	green: "#15803d",
+	red: "#b91c1c",
+	purple: "#7e22ce",
+	orange: "#c2410c",
+	gray: "#374151",
+};
+
+// Same families the LaTeX templates load, with web-safe fallbacks
+const FONT_STACKS: Record<string, string> = {
+	Charter: "Charter, 'Bitstream Charter', Georgia, serif",
+	LatinModern: "'Latin Modern Roman', 'Computer Modern', Georgia, serif",
+	Raleway: "Raleway, Arial, sans-serif",
+	Roboto: "Roboto, Arial, sans-serif",
+	"Open Sans": "'Open Sans', Arial, sans-serif",
+	OpenSans: "'Open Sans', Arial, sans-serif",
+	SourceSansPro: "'Source Sans Pro', Arial, sans-serif",
+	Lato: "Lato, Arial, sans-serif",
+	Montserrat: "Montserrat, Arial, sans-serif",
+	Merriweather: "Merriweather, Georgia, serif",
+	serif: "Georgia, 'Times New Roman', serif",
+	"sans-serif": "Arial, Helvetica, sans-serif",
+};
+
+const SECTION_GAPS: Record<string, string> = {
+	compact: "0.75rem",
+	normal: "1.25rem",
+	comfortable: "1.5rem",
+	relaxed: "1.75rem",
+};
+
+const FONT_SIZES: Record<string, string> = {
+	compact: "13px",
+	comfortable: "14px",
+	spacious: "15px",
+};
+
+/**
+ * Maps template parameters to the CSS variables and font used by the
+ * preview templates, so the preview follows the options sent to the generator.
+ *
+ * @param params - The selected template parameters
+ * @returns Inline style for the preview root
+ */
+export function templateStyle(
+	params: TemplateParamValues = {},
+): Record<string, string> {
+	const style: Record<string, string> = {};
+	const color = PALETTE_COLORS[String(params.colorPalette)];
+	if (color) style["--resume-accent"] = color;
+	const font = FONT_STACKS[String(params.fontFamily)];
+	if (font) style.fontFamily = font;
+	const gap = SECTION_GAPS[String(params.spacing)];
+	if (gap) style["--resume-section-gap"] = gap;
+	const size = FONT_SIZES[String(params.density)];
+	if (size) style.fontSize = size;
+	return style;
+}
@@ -196,6 +196,43 @@ describe("useAutosave", () => {
 		});
 	});
 
+	describe("reconcile", () => {
+		it("should return null when there is no draft", async () => {
+			const resumeRef = ref<Resume | null>(null);
+
+			const { reconcile } = useAutosave(resumeRef);
+
+			await expect(reconcile(mockResume)).resolves.toBeNull();
+			expect(del).not.toHaveBeenCalled();
+		});
+
+		it("should discard a draft matching the server version", async () => {
+			const resumeRef = ref<Resume | null>(null);
+			vi.mocked(get).mockResolvedValue({ ...mockResume });
+
+			const { reconcile } = useAutosave(resumeRef);
+
+			await expect(reconcile(mockResume)).resolves.toBeNull();
+			expect(del).toHaveBeenCalledWith("resume:draft");
+		});
+
+		it("should report sections where the draft differs from the server", async () => {
+			const resumeRef = ref<Resume | null>(null);
+			const draft: Resume = {
+				...mockResume,
+				skills: [{ name: "Vue", level: "Expert", keywords: [] }],
+			};
+			vi.mocked(get).mockResolvedValue(draft);
+
+			const { reconcile } = useAutosave(resumeRef);
+			const result = await reconcile(mockResume);
+
+			expect(result?.conflicts).toEqual(["skills"]);
+			expect(result?.merged.skills).toEqual(draft.skills);
+			expect(del).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("clear", () => {
 		it("should clear resume from IndexedDB", async () => {
 			const resumeRef = ref<Resume | null>(mockResume);
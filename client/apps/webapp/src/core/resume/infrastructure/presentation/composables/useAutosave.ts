@@ -2,6 +2,11 @@ import { useDebounceFn } from "@vueuse/core";
 import { del, get, set } from "idb-keyval";
 import { onUnmounted, type Ref, ref, watch } from "vue";
 import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	mergeResumes,
+	type ResumeMergeResult,
+} from "@/core/resume/domain/ResumeMerge";
+import { AUTOSAVE_DRAFT_KEY } from "@/core/resume/infrastructure/storage/AutosaveDraftStorage";
 
 /**
  * Autosave configuration options
@@ -69,7 +74,7 @@ export function useAutosave(
 	options: AutosaveOptions = {},
 ) {
 	const {
-		key = "resume:draft",
+		key = AUTOSAVE_DRAFT_KEY,
 		debounceMs = 2000,
 		enableSync = true,
 	} = options;
@@ -155,6 +160,30 @@ export function useAutosave(
 		}
 	}
 
+	/**
+	 * Compare the local draft with the server version of the resume.
+	 * A draft identical to the server version is discarded.
+	 *
+	 * @param serverResume - The resume as currently stored on the server
+	 * @returns The merge of draft and server version, or null when there is
+	 * no draft left to reconcile
+	 */
+	async function reconcile(
+		serverResume: Resume,
+	): Promise<ResumeMergeResult | null> {
+		const draft = await loadFromStorage();
+		if (!draft) {
+			return null;
+		}
+
+		const result = mergeResumes(null, draft, serverResume);
+		if (result.conflicts.length === 0) {
+			await clearStorage();
+			return null;
+		}
+		return result;
+	}
+
 	/**
 	 * Debounced save function
 	 */
@@ -240,5 +269,6 @@ export function useAutosave(
 		save: saveToStorage,
 		load: loadFromStorage,
 		clear: clearStorage,
+		reconcile,
 	};
 }
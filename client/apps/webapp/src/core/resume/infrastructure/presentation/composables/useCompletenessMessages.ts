@@ -0,0 +1,36 @@
+import { useI18n } from "vue-i18n";
+import type { CompletenessItem } from "@/core/resume/domain/ResumeCompleteness";
+
+/**
+ * Composable translating completeness checklist items, shared by the editor
+ * checklist and the PDF page summary.
+ */
+export function useCompletenessMessages() {
+	const { t } = useI18n();
+
+	/**
+	 * Translated message of an item; field names are translated too.
+	 */
+	const itemMessage = (item: CompletenessItem): string => {
+		const { field, ...params } = item.params;
+		return t(`resume.completeness.rules.${item.rule}`, {
+			...params,
+			field:
+				field === undefined ? "" : t(`resume.completeness.fields.${field}`),
+		});
+	};
+
+	/**
+	 * Text color of a score, from red (incomplete) to green (complete).
+	 */
+	const scoreClass = (score: number): string => {
+		if (score >= 80) return "text-green-600 dark:text-green-400";
+		if (score >= 50) return "text-warning";
+		return "text-destructive";
+	};
+
+	return {
+		itemMessage,
+		scoreClass,
+	};
+}
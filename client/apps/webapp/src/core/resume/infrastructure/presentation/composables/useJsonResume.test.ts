@@ -1,5 +1,10 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	createBinaryFile,
+	createLinkedInArchive,
+} from "@/core/resume/infrastructure/import/__fixtures__/linkedin-export";
+import { createDocxFile } from "@/core/resume/infrastructure/import/__fixtures__/resume-documents";
 import { useJsonResume } from "./useJsonResume";
 
 // Mock URL.createObjectURL and URL.revokeObjectURL
@@ -156,6 +161,81 @@ describe("useJsonResume", () => {
 		});
 	});
 
+	describe("importLinkedIn", () => {
+		it("should import a LinkedIn export archive with its mapping issues", async () => {
+			const { importLinkedIn, validationErrors } = useJsonResume();
+
+			const result = await importLinkedIn(createLinkedInArchive());
+
+			expect(result.success).toBe(true);
+			expect(result.data?.basics.name).toBe("Jane Doe");
+			expect(result.data?.work).toHaveLength(2);
+			expect(result.errors).toEqual([
+				expect.objectContaining({ path: "work", section: "Work Experience" }),
+			]);
+			expect(validationErrors.value).toEqual(result.errors);
+		});
+
+		it("should return the mapped resume along with validation errors", async () => {
+			const { importLinkedIn } = useJsonResume();
+			const positions = createBinaryFile(
+				new TextEncoder().encode(
+					"Company Name,Title,Started On,Finished On\nAcme,Engineer,2020-13,",
+				),
+				"Positions.csv",
+			);
+
+			const result = await importLinkedIn([positions]);
+
+			expect(result.success).toBe(false);
+			expect(result.data?.work[0]?.name).toBe("Acme");
+			expect(result.errors?.map((error) => error.path)).toEqual([
+				"basics",
+				"work[0].startDate",
+			]);
+		});
+
+		it("should report files without LinkedIn data", async () => {
+			const { importLinkedIn } = useJsonResume();
+
+			const result = await importLinkedIn(
+				createLinkedInArchive(["Connections.csv"]),
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.data).toBeUndefined();
+			expect(result.errors?.[0]?.message).toContain("No LinkedIn data found");
+		});
+	});
+
+	describe("importDocument", () => {
+		it("should import a Word document as a draft to review", async () => {
+			const { importDocument } = useJsonResume();
+
+			const result = await importDocument(createDocxFile());
+
+			expect(result.success).toBe(true);
+			expect(result.data?.basics.name).toBe("Jane Doe");
+			expect(result.draft?.resume).toBe(result.data);
+			expect(result.draft?.confidence["basics.email"]).toBe("high");
+			expect(result.errors).toEqual([]);
+		});
+
+		it("should report documents that cannot be read", async () => {
+			const { importDocument, validationErrors } = useJsonResume();
+
+			const result = await importDocument(
+				createBinaryFile(new TextEncoder().encode("not a document"), "cv.docx"),
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.draft).toBeUndefined();
+			expect(validationErrors.value[0]?.message).toContain(
+				"Failed to read document cv.docx",
+			);
+		});
+	});
+
 	describe("exportJson", () => {
 		it("should export valid resume as JSON file", () => {
 			const { exportJson } = useJsonResume();
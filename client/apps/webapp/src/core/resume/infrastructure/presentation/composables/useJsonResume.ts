@@ -1,9 +1,17 @@
 import { ref } from "vue";
 import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeDraft } from "@/core/resume/domain/ResumeDraft";
 import type {
 	ResumeValidator,
 	ValidationError,
 } from "@/core/resume/domain/ResumeValidator";
+import {
+	extractDocumentText,
+	mapLinkedInExport,
+	type PdfjsLoader,
+	parseResumeText,
+	readLinkedInExport,
+} from "@/core/resume/infrastructure/import";
 import { JsonResumeValidator } from "@/core/resume/infrastructure/validation/JsonResumeValidator";
 
 // Re-export for convenience
@@ -23,6 +31,8 @@ export interface ImportResult {
 	success: boolean;
 	data?: Resume;
 	errors?: ReadonlyArray<ValidationError>;
+	/** Field confidence of resumes recovered from documents, to be reviewed */
+	draft?: ResumeDraft;
 }
 
 /**
@@ -144,6 +154,103 @@ export function useJsonResume() {
 		}
 	}
 
+	/**
+	 * Imports a resume from a LinkedIn data export: the ZIP archive or the CSV
+	 * files extracted from it.
+	 *
+	 * The mapped resume is always returned so it can be reviewed in the editor;
+	 * `errors` lists the mapping issues followed by the schema validation errors,
+	 * and `success` tells whether the result passes validation.
+	 *
+	 * @param files - The export archive and/or CSV files
+	 * @returns Promise with import result (success, data, and issues)
+	 */
+	async function importLinkedIn(
+		files: File | ReadonlyArray<File>,
+	): Promise<ImportResult> {
+		isValidating.value = true;
+		validationErrors.value = [];
+
+		try {
+			const data = await readLinkedInExport(
+				Array.isArray(files) ? files : [files as File],
+			);
+			const { resume, issues } = mapLinkedInExport(data);
+			const isValid = validator.validate(resume);
+
+			validationErrors.value = [
+				...issues,
+				...(isValid ? [] : validator.getErrors()),
+			];
+			return {
+				success: isValid,
+				data: resume,
+				errors: validationErrors.value,
+			};
+		} catch (error) {
+			validationErrors.value = [
+				{
+					path: "",
+					message:
+						error instanceof Error
+							? error.message
+							: "Unknown error occurred while reading LinkedIn export",
+					section: "General",
+				},
+			];
+			return { success: false, errors: validationErrors.value };
+		} finally {
+			isValidating.value = false;
+		}
+	}
+
+	/**
+	 * Imports a resume from a PDF or Word (.docx) document.
+	 *
+	 * The document text is segmented heuristically, so the result is a draft:
+	 * `draft` tells how confident the importer is about each field and lists the
+	 * lines it could not place, for the user to review before accepting it.
+	 * `errors` holds the schema validation errors of the draft, if any.
+	 *
+	 * @param file - The uploaded .pdf or .docx file
+	 * @param loadPdf - Optional PDF.js loader (defaults to the browser build)
+	 * @returns Promise with import result (success, data, draft, and errors)
+	 */
+	async function importDocument(
+		file: File,
+		loadPdf?: PdfjsLoader,
+	): Promise<ImportResult> {
+		isValidating.value = true;
+		validationErrors.value = [];
+
+		try {
+			const draft = parseResumeText(await extractDocumentText(file, loadPdf));
+			const isValid = validator.validate(draft.resume);
+
+			validationErrors.value = isValid ? [] : [...validator.getErrors()];
+			return {
+				success: isValid,
+				data: draft.resume,
+				draft,
+				errors: validationErrors.value,
+			};
+		} catch (error) {
+			validationErrors.value = [
+				{
+					path: "",
+					message:
+						error instanceof Error
+							? error.message
+							: "Unknown error occurred while reading document",
+					section: "General",
+				},
+			];
+			return { success: false, errors: validationErrors.value };
+		} finally {
+			isValidating.value = false;
+		}
+	}
+
 	/**
 	 * Validates current resume data and exports as JSON file
 	 *
@@ -211,6 +318,8 @@ export function useJsonResume() {
 
 		// Methods
 		importJson,
+		importLinkedIn,
+		importDocument,
 		exportJson,
 		validateResume,
 		groupErrors,
@@ -0,0 +1,36 @@
+import { useI18n } from "vue-i18n";
+import type { LintFinding, LintSeverity } from "@/core/resume/domain/TextLint";
+
+/**
+ * Composable translating proofreading findings, shared by the inline hints
+ * of the form and the proofreading panel.
+ */
+export function useLintMessages() {
+	const { t } = useI18n();
+
+	/**
+	 * Translated message of a finding; the expected tense is translated too.
+	 */
+	const findingMessage = (finding: LintFinding): string => {
+		const { expected, ...params } = finding.params;
+		return t(`resume.lint.rules.${finding.rule}`, {
+			...params,
+			expected:
+				expected === undefined ? "" : t(`resume.lint.tenses.${expected}`),
+		});
+	};
+
+	/**
+	 * Text color of a severity.
+	 */
+	const severityClass = (severity: LintSeverity): string => {
+		if (severity === "error") return "text-destructive";
+		if (severity === "warning") return "text-warning";
+		return "text-muted-foreground";
+	};
+
+	return {
+		findingMessage,
+		severityClass,
+	};
+}
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Resume } from "@/core/resume/domain/Resume";
 import type { TemplateMetadata } from "@/core/resume/domain/TemplateMetadata";
+import { PdfPreviewCache } from "../../cache/PdfPreviewCache";
 import { usePdf } from "./usePdf";
 
 // Mock the resumeHttpClient
@@ -189,6 +190,8 @@ describe("usePdf", () => {
 				"classic",
 				mockResume,
 				"en",
+				{},
+				expect.any(AbortSignal),
 			);
 			expect(result).toBe(mockPdfBlob);
 			expect(isGenerating.value).toBe(false);
@@ -208,6 +211,8 @@ describe("usePdf", () => {
 				"classic",
 				mockResume,
 				"es",
+				{ locale: "es" },
+				expect.any(AbortSignal),
 			);
 		});
 
@@ -222,6 +227,29 @@ describe("usePdf", () => {
 				"classic",
 				mockResume,
 				"en",
+				{ locale: "fr" },
+				expect.any(AbortSignal),
+			);
+		});
+
+		it("should send scalar template params to the generator", async () => {
+			vi.mocked(resumeHttpClient.generatePdf).mockResolvedValue(mockPdfBlob);
+
+			const { generatePdf } = usePdf();
+
+			await generatePdf(mockResume, "classic", {
+				fontFamily: "Lato",
+				lineHeight: 1.4,
+				theme: { nested: true },
+				accent: null,
+			});
+
+			expect(resumeHttpClient.generatePdf).toHaveBeenCalledWith(
+				"classic",
+				mockResume,
+				"en",
+				{ fontFamily: "Lato", lineHeight: 1.4 },
+				expect.any(AbortSignal),
 			);
 		});
 
@@ -272,8 +300,15 @@ describe("usePdf", () => {
 			expect(isGenerating.value).toBe(false);
 		});
 
-		it("should revoke previous pdfUrl before generating new one", async () => {
-			vi.mocked(resumeHttpClient.generatePdf).mockResolvedValue(mockPdfBlob);
+		it("should keep the last PDF while a new one renders", async () => {
+			let resolveSecond!: (value: Blob) => void;
+			vi.mocked(resumeHttpClient.generatePdf)
+				.mockResolvedValueOnce(mockPdfBlob)
+				.mockReturnValueOnce(
+					new Promise<Blob>((resolve) => {
+						resolveSecond = resolve;
+					}),
+				);
 			mockCreateObjectURL
 				.mockReturnValueOnce("blob:http://localhost/first-url")
 				.mockReturnValueOnce("blob:http://localhost/second-url");
@@ -281,17 +316,19 @@ describe("usePdf", () => {
 			const { generatePdf, pdfUrl } = usePdf();
 
 			await generatePdf(mockResume, "classic", {});
+			const second = generatePdf(mockResume, "modern", {});
+
 			expect(pdfUrl.value).toBe("blob:http://localhost/first-url");
 
-			await generatePdf(mockResume, "modern", {});
+			resolveSecond(mockPdfBlob);
+			await second;
 
-			expect(mockRevokeObjectURL).toHaveBeenCalledWith(
-				"blob:http://localhost/first-url",
-			);
 			expect(pdfUrl.value).toBe("blob:http://localhost/second-url");
+			// Both PDFs stay cached
+			expect(mockRevokeObjectURL).not.toHaveBeenCalled();
 		});
 
-		it("should clear pdfUrl on error", async () => {
+		it("should keep the last good PDF on error", async () => {
 			vi.mocked(resumeHttpClient.generatePdf)
 				.mockResolvedValueOnce(mockPdfBlob)
 				.mockRejectedValueOnce(new Error("Failed"));
@@ -302,7 +339,7 @@ describe("usePdf", () => {
 			expect(pdfUrl.value).toBe("blob:http://localhost/mock-url");
 
 			await expect(generatePdf(mockResume, "modern", {})).rejects.toThrow();
-			expect(pdfUrl.value).toBeNull();
+			expect(pdfUrl.value).toBe("blob:http://localhost/mock-url");
 		});
 
 		it("should clear error on successful generation", async () => {
@@ -320,6 +357,85 @@ describe("usePdf", () => {
 		});
 	});
 
+	describe("preview pipeline", () => {
+		const pdf = (content: string) =>
+			new Blob([content], { type: "application/pdf" });
+
+		it("should serve identical inputs from the cache", async () => {
+			vi.mocked(resumeHttpClient.generatePdf)
+				.mockResolvedValueOnce(pdf("classic"))
+				.mockResolvedValueOnce(pdf("modern"));
+			mockCreateObjectURL
+				.mockReturnValueOnce("blob:http://localhost/classic")
+				.mockReturnValueOnce("blob:http://localhost/modern");
+
+			const { generatePdf, pdfUrl, isGenerating } = usePdf();
+
+			const first = await generatePdf(mockResume, "classic", {});
+			await generatePdf(mockResume, "modern", {});
+			const again = await generatePdf(mockResume, "classic", {});
+
+			expect(again).toBe(first);
+			expect(pdfUrl.value).toBe("blob:http://localhost/classic");
+			expect(isGenerating.value).toBe(false);
+			expect(resumeHttpClient.generatePdf).toHaveBeenCalledTimes(2);
+		});
+
+		it("should share the request in flight for identical inputs", async () => {
+			vi.mocked(resumeHttpClient.generatePdf).mockResolvedValue(pdf("a"));
+
+			const { generatePdf } = usePdf();
+
+			const [first, second] = await Promise.all([
+				generatePdf(mockResume, "classic", {}),
+				generatePdf(mockResume, "classic", {}),
+			]);
+
+			expect(second).toBe(first);
+			expect(resumeHttpClient.generatePdf).toHaveBeenCalledOnce();
+		});
+
+		it("should abort the request in flight when inputs change", async () => {
+			const signals: AbortSignal[] = [];
+			vi.mocked(resumeHttpClient.generatePdf).mockImplementation(
+				(templateId, _resume, _locale, _params, signal) => {
+					if (signal) signals.push(signal);
+					if (templateId === "modern") return Promise.resolve(pdf("modern"));
+					return new Promise<Blob>((_resolve, reject) => {
+						signal?.addEventListener("abort", () =>
+							reject(new Error("canceled")),
+						);
+					});
+				},
+			);
+
+			const { generatePdf, error } = usePdf();
+
+			const stale = generatePdf(mockResume, "classic", {});
+			const fresh = generatePdf(mockResume, "modern", {});
+
+			expect(signals[0]?.aborted).toBe(true);
+			expect(signals[1]?.aborted).toBe(false);
+			// The superseded caller receives the newest PDF instead of an error
+			await expect(stale).resolves.toBe(await fresh);
+			expect(error.value).toBeNull();
+		});
+
+		it("should clear the cache on dispose", async () => {
+			vi.mocked(resumeHttpClient.generatePdf).mockResolvedValue(pdf("a"));
+			const cache = new PdfPreviewCache();
+			const { effectScope } = await import("vue");
+			const scope = effectScope();
+
+			await scope.run(async () => {
+				await usePdf(cache).generatePdf(mockResume, "classic", {});
+			});
+			scope.stop();
+
+			expect(cache.size).toBe(0);
+		});
+	});
+
 	describe("downloadPdf", () => {
 		let mockLink: {
 			href: string;
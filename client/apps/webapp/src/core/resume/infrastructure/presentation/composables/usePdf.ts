@@ -4,19 +4,34 @@ import type {
 	ParamValue,
 	TemplateMetadata,
 } from "@/core/resume/domain/TemplateMetadata";
+import { toTemplateParams } from "@/core/resume/domain/TemplateParams";
+import { PdfPreviewCache, pdfPreviewKey } from "../../cache/PdfPreviewCache";
 import { resumeHttpClient } from "../../http/ResumeHttpClient";
 
-export function usePdf() {
+/**
+ * Composable for templates and PDF generation.
+ *
+ * Generation is a preview pipeline: a new call cancels the one in flight,
+ * identical inputs are served from an LRU cache of generated PDFs, and
+ * `pdfUrl` keeps the last good PDF until the new one is ready.
+ *
+ * @param cache - Cache of generated PDFs, cleared when the scope is disposed
+ */
+export function usePdf(cache = new PdfPreviewCache()) {
 	const isGenerating = ref(false);
 	const isLoadingTemplates = ref(true); // Start as true to prevent premature rendering
 	const error = ref<string | null>(null);
 	const templates = ref<TemplateMetadata[]>([]);
 	const pdfUrl = ref<string | null>(null);
-	// Cleanup on scope disposal
+	let controller: AbortController | null = null;
+	let pending: { key: string; promise: Promise<Blob> } | null = null;
+	// The most recent request; superseded callers receive its result
+	let latest: Promise<Blob> | null = null;
+
+	// Cleanup on scope disposal; pdfUrl always belongs to a cache entry
 	onScopeDispose(() => {
-		if (pdfUrl.value) {
-			URL.revokeObjectURL(pdfUrl.value);
-		}
+		controller?.abort();
+		cache.clear();
 	});
 
 	const fetchTemplates = async () => {
@@ -31,37 +46,72 @@ export function usePdf() {
 		}
 	};
 
-	const generatePdf = async (
+	const generatePdf = (
 		resume: Resume,
 		templateId: string,
 		params: Record<string, ParamValue>,
-	) => {
-		isGenerating.value = true;
-		error.value = null;
+	): Promise<Blob> => {
+		// Extract locale from params, default to 'en' if not present
+		const locale: "en" | "es" = params.locale === "es" ? "es" : "en";
+		const templateParams = toTemplateParams(params);
+		const key = pdfPreviewKey({
+			resume,
+			templateId,
+			params: templateParams,
+			locale,
+		});
 
-		// Revoke previous URL to avoid memory leaks
-		if (pdfUrl.value) {
-			URL.revokeObjectURL(pdfUrl.value);
-			pdfUrl.value = null;
-		}
+		// Same inputs as the request in flight: share it
+		if (pending?.key === key) return pending.promise;
 
-		try {
-			// Extract locale from params, default to 'en' if not present
-			const rawLocale = params.locale;
-			const locale: "en" | "es" = rawLocale === "es" ? "es" : "en";
-			const blob = await resumeHttpClient.generatePdf(
-				templateId,
-				resume,
-				locale,
-			);
-			pdfUrl.value = URL.createObjectURL(blob);
-			return blob;
-		} catch (e: unknown) {
-			error.value = e instanceof Error ? e.message : "Failed to generate PDF";
-			throw e;
-		} finally {
+		controller?.abort();
+		controller = null;
+		pending = null;
+
+		const cached = cache.get(key);
+		if (cached) {
 			isGenerating.value = false;
+			error.value = null;
+			pdfUrl.value = cached.url;
+			latest = Promise.resolve(cached.blob);
+			return latest;
 		}
+
+		const current = new AbortController();
+		controller = current;
+		isGenerating.value = true;
+		error.value = null;
+
+		let promise: Promise<Blob> | undefined;
+		promise = (async (): Promise<Blob> => {
+			try {
+				const blob = await resumeHttpClient.generatePdf(
+					templateId,
+					resume,
+					locale,
+					templateParams,
+					current.signal,
+				);
+				if (current.signal.aborted) throw current.signal.reason;
+				pdfUrl.value = cache.set(key, blob).url;
+				return blob;
+			} catch (e: unknown) {
+				if (current.signal.aborted && latest && latest !== promise) {
+					return latest;
+				}
+				error.value = e instanceof Error ? e.message : "Failed to generate PDF";
+				throw e;
+			} finally {
+				if (controller === current) {
+					controller = null;
+					pending = null;
+					isGenerating.value = false;
+				}
+			}
+		})();
+		pending = { key, promise };
+		latest = promise;
+		return promise;
 	};
 
 	const downloadPdf = (blob: Blob, filename = "resume.pdf") => {
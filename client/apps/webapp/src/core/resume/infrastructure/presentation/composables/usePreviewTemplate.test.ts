@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { usePreviewTemplate } from "./usePreviewTemplate";
+
+describe("usePreviewTemplate", () => {
+	beforeEach(() => {
+		localStorage.clear();
+	});
+
+	it("should default to no template", () => {
+		const { selection } = usePreviewTemplate();
+
+		expect(selection.value).toEqual({ templateId: null, params: {} });
+	});
+
+	it("should persist the selected template and params", () => {
+		const { setPreviewTemplate } = usePreviewTemplate();
+
+		setPreviewTemplate("engineering", { colorPalette: "green" });
+
+		expect(
+			JSON.parse(localStorage.getItem("cvix-preview-template") ?? "{}"),
+		).toEqual({ templateId: "engineering", params: { colorPalette: "green" } });
+	});
+
+	it("should restore the selection in a new instance", () => {
+		usePreviewTemplate().setPreviewTemplate("engineering", {
+			spacing: "compact",
+		});
+
+		const { selection } = usePreviewTemplate();
+
+		expect(selection.value.templateId).toBe("engineering");
+		expect(selection.value.params).toEqual({ spacing: "compact" });
+	});
+});
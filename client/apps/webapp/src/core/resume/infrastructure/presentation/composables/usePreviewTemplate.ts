@@ -0,0 +1,52 @@
+import { useStorage } from "@vueuse/core";
+import type { ParamValue } from "@/core/resume/domain/TemplateMetadata";
+import {
+	type TemplateParamValues,
+	toTemplateParams,
+} from "@/core/resume/domain/TemplateParams";
+
+const PREVIEW_TEMPLATE_KEY = "cvix-preview-template";
+
+/**
+ * Template and parameters the editor preview mirrors.
+ */
+export interface PreviewTemplateSelection {
+	templateId: string | null;
+	params: TemplateParamValues;
+}
+
+/**
+ * Composable for the template the editor preview renders with.
+ *
+ * The PDF page records the last selected template so the editor preview
+ * shows the same layout and styling the generated PDF will have.
+ *
+ * @example
+ * ```typescript
+ * const { selection, setPreviewTemplate } = usePreviewTemplate();
+ * setPreviewTemplate("engineering", { colorPalette: "blue" });
+ * ```
+ */
+export function usePreviewTemplate(storage: Storage = localStorage) {
+	const selection = useStorage<PreviewTemplateSelection>(
+		PREVIEW_TEMPLATE_KEY,
+		{ templateId: null, params: {} },
+		storage,
+		{ mergeDefaults: true, flush: "sync" },
+	);
+
+	/**
+	 * Records the template and parameters to preview.
+	 *
+	 * @param templateId - The selected template ID
+	 * @param params - The selected parameters
+	 */
+	function setPreviewTemplate(
+		templateId: string,
+		params: Record<string, ParamValue>,
+	): void {
+		selection.value = { templateId, params: toTemplateParams(params) };
+	}
+
+	return { selection, setPreviewTemplate };
+}
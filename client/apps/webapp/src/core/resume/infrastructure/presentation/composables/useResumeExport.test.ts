@@ -0,0 +1,83 @@
+import { mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComponent } from "vue";
+import { ResumeExportService } from "@/core/resume/application/ResumeExportService";
+import type { ResumeRenderer } from "@/core/resume/domain/ResumeExport";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { useResumeExport } from "./useResumeExport";
+
+describe("useResumeExport", () => {
+	const renderer: ResumeRenderer = {
+		format: "text",
+		mimeType: "text/plain",
+		extension: "txt",
+		render: vi.fn(() => "resume"),
+	};
+
+	const setup = (service = new ResumeExportService([renderer])) => {
+		let result!: ReturnType<typeof useResumeExport>;
+		const i18n = createTestI18n();
+		mount(
+			defineComponent({
+				setup() {
+					result = useResumeExport(service);
+					return () => null;
+				},
+			}),
+			{ global: { plugins: [i18n] } },
+		);
+		return { result, i18n };
+	};
+
+	beforeEach(() => {
+		vi.mocked(renderer.render).mockClear();
+		global.URL.createObjectURL = vi.fn(() => "blob:resume");
+		global.URL.revokeObjectURL = vi.fn();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should download the rendered resume", () => {
+		const click = vi
+			.spyOn(HTMLAnchorElement.prototype, "click")
+			.mockImplementation(() => {});
+		const { result } = setup();
+
+		expect(result.exportResume(createTestResume(), "text")).toBe(true);
+
+		expect(click).toHaveBeenCalledOnce();
+		const link = click.mock.contexts[0] as HTMLAnchorElement;
+		expect(link.download).toBe("john-doe.txt");
+		expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:resume");
+		expect(result.error.value).toBeNull();
+	});
+
+	it("should render with the current locale and translated headings", () => {
+		vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+		const { result, i18n } = setup();
+		i18n.global.locale.value = "es";
+		const resume = createTestResume();
+
+		result.exportResume(resume, "text", createDefaultVisibility("id", resume));
+
+		const [, options] = vi.mocked(renderer.render).mock.calls[0] ?? [];
+		expect(options?.locale).toBe("es");
+		expect(options?.labels.sections.work).toBe(
+			i18n.global.t("resume.sections.work"),
+		);
+		expect(options?.labels.present).toBe(
+			i18n.global.t("resume.preview.present"),
+		);
+	});
+
+	it("should expose the error when the export fails", () => {
+		const { result } = setup();
+
+		expect(result.exportResume(createTestResume(), "docx")).toBe(false);
+		expect(result.error.value).toBe("Unsupported export format: docx");
+	});
+});
@@ -0,0 +1,95 @@
+import { ref } from "vue";
+import { useI18n } from "vue-i18n";
+import { ResumeExportService } from "@/core/resume/application/ResumeExportService";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ExportFormat,
+	ExportLabels,
+} from "@/core/resume/domain/ResumeExport";
+import type { SectionVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createResumeRenderers } from "../../export";
+
+/**
+ * Composable for exporting resumes to DOCX, Markdown, HTML and plain text.
+ *
+ * Headings and dates follow the current UI locale.
+ *
+ * @example
+ * ```typescript
+ * const { formats, exportResume } = useResumeExport();
+ * exportResume(resume, "docx", visibility);
+ * ```
+ */
+export function useResumeExport(
+	service = new ResumeExportService(createResumeRenderers()),
+) {
+	const { t, locale } = useI18n();
+	const error = ref<string | null>(null);
+
+	function exportLabels(): ExportLabels {
+		return {
+			sections: {
+				summary: t("resume.preview.sections.summary"),
+				work: t("resume.sections.work"),
+				education: t("resume.sections.education"),
+				skills: t("resume.sections.skills"),
+				projects: t("resume.sections.projects"),
+				certificates: t("resume.sections.certificates"),
+				volunteer: t("resume.sections.volunteer"),
+				awards: t("resume.sections.awards"),
+				publications: t("resume.sections.publications"),
+				languages: t("resume.sections.languages"),
+				interests: t("resume.sections.interests"),
+				references: t("resume.sections.references"),
+			},
+			present: t("resume.preview.present"),
+			score: t("resume.preview.score"),
+			courses: t("resume.preview.courses"),
+		};
+	}
+
+	const download = (blob: Blob, filename: string) => {
+		const url = URL.createObjectURL(blob);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = filename;
+		document.body.appendChild(link);
+		link.click();
+		link.remove();
+		URL.revokeObjectURL(url);
+	};
+
+	/**
+	 * Renders the resume and downloads it.
+	 *
+	 * @param resume - The complete resume
+	 * @param format - The document format
+	 * @param visibility - Visibility preferences to apply, if any
+	 * @returns true if the file was downloaded
+	 */
+	function exportResume(
+		resume: Resume,
+		format: ExportFormat,
+		visibility?: SectionVisibility | null,
+	): boolean {
+		error.value = null;
+		try {
+			const { blob, fileName } = service.exportResume(resume, format, {
+				locale: locale.value,
+				labels: exportLabels(),
+				visibility,
+			});
+			download(blob, fileName);
+			return true;
+		} catch (e: unknown) {
+			error.value = e instanceof Error ? e.message : "Failed to export resume";
+			return false;
+		}
+	}
+
+	return {
+		formats: service.formats,
+		error,
+		exportResume,
+	};
+}
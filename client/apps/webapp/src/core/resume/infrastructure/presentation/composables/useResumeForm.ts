@@ -79,10 +79,11 @@ export interface UseResumeFormReturn {
 
 /**
  * Factory function to create an empty resume with all sections initialized.
- * Used as a safe default for getters when no resume exists yet.
- * @returns An empty WritableResume object.
+ * Used as a safe default for getters when no resume exists yet, and as the
+ * content of a new resume in the library.
+ * @returns An empty Resume object.
  */
-function createEmptyResume(): WritableResume {
+export function createEmptyResume(): Resume {
 	return {
 		basics: {
 			name: "",
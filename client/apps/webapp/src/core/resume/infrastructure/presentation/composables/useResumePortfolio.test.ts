@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeSummary } from "@/core/resume/domain/ResumeStorage";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { useResumePortfolio } from "./useResumePortfolio";
+
+const summary = (id: string): ResumeSummary => ({
+	id,
+	title: `Resume ${id}`,
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: null,
+});
+
+const validator = { validate: vi.fn(() => true) };
+
+describe("useResumePortfolio", () => {
+	it("should list an entry per resume with its last template", async () => {
+		const templateUsage = {
+			get: vi.fn((id: string) =>
+				id === "resume-1"
+					? { templateId: "modern", generatedAt: "2026-02-01T00:00:00.000Z" }
+					: null,
+			),
+		};
+		const { entries, isLoading, error, load } = useResumePortfolio(
+			async () => createTestResume(),
+			validator,
+			templateUsage,
+		);
+
+		await load([summary("resume-1"), summary("resume-2")]);
+
+		expect(entries.value.map((entry) => entry.summary.id)).toEqual([
+			"resume-1",
+			"resume-2",
+		]);
+		expect(entries.value[0]?.valid).toBe(true);
+		expect(entries.value[0]?.lastTemplate?.templateId).toBe("modern");
+		expect(entries.value[1]?.lastTemplate).toBeNull();
+		expect(isLoading.value).toBe(false);
+		expect(error.value).toBeNull();
+	});
+
+	it("should list a resume that fails to load without content", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		const { entries, load } = useResumePortfolio(
+			async () => {
+				throw new Error("Not found");
+			},
+			validator,
+			{ get: () => null },
+		);
+
+		await load([summary("resume-1")]);
+
+		expect(entries.value).toHaveLength(1);
+		expect(entries.value[0]?.resume).toBeNull();
+		expect(entries.value[0]?.valid).toBe(false);
+	});
+
+	it("should report an overview that fails", async () => {
+		const { entries, error, isLoading, load } = useResumePortfolio(
+			async () => createTestResume(),
+			{
+				validate: () => {
+					throw new Error("Schema unavailable");
+				},
+			},
+			{ get: () => null },
+		);
+
+		await load([summary("resume-1")]);
+
+		expect(entries.value).toEqual([]);
+		expect(error.value).toBe("Schema unavailable");
+		expect(isLoading.value).toBe(false);
+	});
+
+	it("should keep only the latest overview when loads overlap", async () => {
+		const pending = new Map<string, (resume: Resume) => void>();
+		const { entries, isLoading, load } = useResumePortfolio(
+			(id) => new Promise((resolve) => pending.set(id, resolve)),
+			validator,
+			{ get: () => null },
+		);
+
+		const first = load([summary("old")]);
+		const second = load([summary("new")]);
+		pending.get("new")?.(createTestResume());
+		await second;
+		expect(isLoading.value).toBe(false);
+
+		pending.get("old")?.(createTestResume());
+		await first;
+
+		expect(entries.value.map((entry) => entry.summary.id)).toEqual(["new"]);
+	});
+});
@@ -0,0 +1,63 @@
+import { ref } from "vue";
+import {
+	type ResumeLoader,
+	ResumePortfolioService,
+} from "@/core/resume/application/ResumePortfolioService";
+import type {
+	PdfTemplateUsageRepository,
+	PortfolioEntry,
+} from "@/core/resume/domain/ResumePortfolio";
+import type { ResumeSummary } from "@/core/resume/domain/ResumeStorage";
+import type { ResumeValidator } from "@/core/resume/domain/ResumeValidator";
+import { pdfTemplateUsageStorage } from "../../storage/PdfTemplateUsageStorage";
+import { JsonResumeValidator } from "../../validation/JsonResumeValidator";
+
+/**
+ * Composable for the dashboard overview of all resumes.
+ *
+ * @param loader - Loads the content of a resume
+ * @param validator - The resume validator, JSON Resume schema by default
+ * @param templateUsage - The last PDF template per resume, localStorage by default
+ */
+export function useResumePortfolio(
+	loader: ResumeLoader,
+	validator: Pick<ResumeValidator, "validate"> = new JsonResumeValidator(),
+	templateUsage: Pick<
+		PdfTemplateUsageRepository,
+		"get"
+	> = pdfTemplateUsageStorage,
+) {
+	const service = new ResumePortfolioService(loader, validator, templateUsage);
+	const entries = ref<PortfolioEntry[]>([]);
+	const isLoading = ref(false);
+	const error = ref<string | null>(null);
+
+	// Only the latest request may update the state when the library reloads quickly
+	let latest = 0;
+
+	const load = async (
+		summaries: ReadonlyArray<ResumeSummary>,
+	): Promise<void> => {
+		const request = ++latest;
+		isLoading.value = true;
+		error.value = null;
+		try {
+			const result = await service.overview(summaries);
+			if (request === latest) entries.value = result;
+		} catch (e: unknown) {
+			if (request === latest) {
+				entries.value = [];
+				error.value = e instanceof Error ? e.message : String(e);
+			}
+		} finally {
+			if (request === latest) isLoading.value = false;
+		}
+	};
+
+	return {
+		entries,
+		isLoading,
+		error,
+		load,
+	};
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+	ResumeShare,
+	ResumeSharePublisher,
+	ShareOptions,
+} from "@/core/resume/domain/ResumeShare";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { useResumeShare } from "./useResumeShare";
+
+describe("useResumeShare", () => {
+	const share: ResumeShare = {
+		id: "share-1",
+		resumeId: "resume-1",
+		url: "https://cv.example.com/r/abc",
+		expiresAt: null,
+		passwordProtected: false,
+		createdAt: "2026-03-01T12:00:00.000Z",
+	};
+
+	const options: ShareOptions = {
+		expiresAt: null,
+		password: null,
+		templateId: "engineering",
+		locale: "en",
+		trackViews: true,
+	};
+
+	const createPublisher = (): ResumeSharePublisher => ({
+		getShare: vi.fn().mockResolvedValue(null),
+		publish: vi.fn().mockResolvedValue(share),
+		unpublish: vi.fn().mockResolvedValue(undefined),
+	});
+
+	it("loads the current share", async () => {
+		const publisher = createPublisher();
+		vi.mocked(publisher.getShare).mockResolvedValue(share);
+		const { share: current, isLoading, load } = useResumeShare(publisher);
+
+		const loading = load("resume-1");
+		expect(isLoading.value).toBe(true);
+		await loading;
+
+		expect(isLoading.value).toBe(false);
+		expect(current.value).toEqual(share);
+	});
+
+	it("keeps the published share", async () => {
+		const publisher = createPublisher();
+		const { share: current, isPublishing, publish } = useResumeShare(publisher);
+
+		const result = await publish("resume-1", createTestResume(), null, options);
+
+		expect(result).toEqual(share);
+		expect(current.value).toEqual(share);
+		expect(isPublishing.value).toBe(false);
+	});
+
+	it("clears the share when unpublished", async () => {
+		const publisher = createPublisher();
+		const { share: current, publish, unpublish } = useResumeShare(publisher);
+		await publish("resume-1", createTestResume(), null, options);
+
+		await unpublish("resume-1");
+
+		expect(publisher.unpublish).toHaveBeenCalledWith("resume-1");
+		expect(current.value).toBeNull();
+	});
+
+	it("records the error and keeps the share when publishing fails", async () => {
+		const publisher = createPublisher();
+		vi.mocked(publisher.getShare).mockResolvedValue(share);
+		vi.mocked(publisher.publish).mockRejectedValue(new Error("Conflict"));
+		const { share: current, error, load, publish } = useResumeShare(publisher);
+		await load("resume-1");
+
+		await expect(
+			publish("resume-1", createTestResume(), null, options),
+		).rejects.toThrow("Failed to publish resume: Conflict");
+
+		expect(error.value).toBe("Failed to publish resume: Conflict");
+		expect(current.value).toEqual(share);
+	});
+});
@@ -0,0 +1,82 @@
+import { ref } from "vue";
+import { ResumeShareService } from "@/core/resume/application/ResumeShareService";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ResumeShare,
+	ResumeSharePublisher,
+	ShareOptions,
+} from "@/core/resume/domain/ResumeShare";
+import type { SectionVisibility } from "@/core/resume/domain/SectionVisibility";
+import { resumeShareHttpClient } from "../../http/ResumeShareHttpClient";
+
+/**
+ * Composable for publishing a resume to a public link.
+ *
+ * @param publisher - The share endpoints, the HTTP client by default
+ */
+export function useResumeShare(
+	publisher: ResumeSharePublisher = resumeShareHttpClient,
+) {
+	const service = new ResumeShareService(publisher);
+	const share = ref<ResumeShare | null>(null);
+	const isLoading = ref(false);
+	const isPublishing = ref(false);
+	const error = ref<string | null>(null);
+
+	const run = async <T>(operation: () => Promise<T>): Promise<T> => {
+		error.value = null;
+		try {
+			return await operation();
+		} catch (e: unknown) {
+			error.value = e instanceof Error ? e.message : String(e);
+			throw e;
+		}
+	};
+
+	const load = async (resumeId: string): Promise<void> => {
+		isLoading.value = true;
+		try {
+			share.value = await run(() => service.get(resumeId));
+		} finally {
+			isLoading.value = false;
+		}
+	};
+
+	const publish = async (
+		resumeId: string,
+		resume: Resume,
+		visibility: SectionVisibility | null,
+		options: ShareOptions,
+	): Promise<ResumeShare> => {
+		isPublishing.value = true;
+		try {
+			const published = await run(() =>
+				service.publish(resumeId, resume, visibility, options),
+			);
+			share.value = published;
+			return published;
+		} finally {
+			isPublishing.value = false;
+		}
+	};
+
+	const unpublish = async (resumeId: string): Promise<void> => {
+		isPublishing.value = true;
+		try {
+			await run(() => service.unpublish(resumeId));
+			share.value = null;
+		} finally {
+			isPublishing.value = false;
+		}
+	};
+
+	return {
+		share,
+		isLoading,
+		isPublishing,
+		error,
+		load,
+		publish,
+		unpublish,
+	};
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+	ShareAnalyticsSource,
+	ShareViewEvent,
+} from "@/core/resume/domain/ShareAnalytics";
+import { useShareAnalytics } from "./useShareAnalytics";
+
+describe("useShareAnalytics", () => {
+	const view: ShareViewEvent = {
+		id: "view-1",
+		shareId: "share-1",
+		viewedAt: new Date().toISOString(),
+		referrer: null,
+		device: "desktop",
+		pdfDownloaded: false,
+	};
+
+	it("loads the summary of a resume", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockResolvedValue([view]),
+		};
+		const { summary, isLoading, load } = useShareAnalytics(source);
+
+		const loading = load("resume-1", 7);
+		expect(isLoading.value).toBe(true);
+		await loading;
+
+		expect(isLoading.value).toBe(false);
+		expect(summary.value?.totalViews).toBe(1);
+	});
+
+	it("records the error when loading fails", async () => {
+		const source: ShareAnalyticsSource = {
+			listViews: vi.fn().mockRejectedValue(new Error("Forbidden")),
+		};
+		const { summary, error, load } = useShareAnalytics(source);
+
+		await load("resume-1", 7);
+
+		expect(summary.value).toBeNull();
+		expect(error.value).toBe("Failed to load share analytics: Forbidden");
+	});
+
+	it("ignores responses of outdated requests", async () => {
+		let resolveFirst: (views: ShareViewEvent[]) => void = () => {};
+		const source: ShareAnalyticsSource = {
+			listViews: vi
+				.fn()
+				.mockImplementationOnce(
+					() =>
+						new Promise<ShareViewEvent[]>((resolve) => {
+							resolveFirst = resolve;
+						}),
+				)
+				.mockResolvedValueOnce([]),
+		};
+		const { summary, load } = useShareAnalytics(source);
+
+		const first = load("resume-1", 7);
+		await load("resume-2", 7);
+		resolveFirst([view, view]);
+		await first;
+
+		expect(summary.value?.totalViews).toBe(0);
+	});
+});
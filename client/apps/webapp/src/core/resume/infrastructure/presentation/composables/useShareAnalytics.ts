@@ -0,0 +1,48 @@
+import { ref } from "vue";
+import { ShareAnalyticsService } from "@/core/resume/application/ShareAnalyticsService";
+import type {
+	ShareAnalyticsSource,
+	ShareAnalyticsSummary,
+} from "@/core/resume/domain/ShareAnalytics";
+import { shareAnalyticsHttpClient } from "../../http/ShareAnalyticsHttpClient";
+
+/**
+ * Composable for the view statistics of a published resume.
+ *
+ * @param source - The analytics endpoints, the HTTP client by default
+ */
+export function useShareAnalytics(
+	source: ShareAnalyticsSource = shareAnalyticsHttpClient,
+) {
+	const service = new ShareAnalyticsService(source);
+	const summary = ref<ShareAnalyticsSummary | null>(null);
+	const isLoading = ref(false);
+	const error = ref<string | null>(null);
+
+	// Only the latest request may update the state when the user switches quickly
+	let latest = 0;
+
+	const load = async (resumeId: string, days: number): Promise<void> => {
+		const request = ++latest;
+		isLoading.value = true;
+		error.value = null;
+		try {
+			const result = await service.getSummary(resumeId, days);
+			if (request === latest) summary.value = result;
+		} catch (e: unknown) {
+			if (request === latest) {
+				summary.value = null;
+				error.value = e instanceof Error ? e.message : String(e);
+			}
+		} finally {
+			if (request === latest) isLoading.value = false;
+		}
+	};
+
+	return {
+		summary,
+		isLoading,
+		error,
+		load,
+	};
+}
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { nextTick, ref } from "vue";
+import type { TemplateMetadata } from "@/core/resume/domain/TemplateMetadata";
+import { useTemplatePresets } from "./useTemplatePresets";
+
+const template: TemplateMetadata = {
+	id: "classic",
+	name: "Classic",
+	version: "1.0.0",
+	supportedLocales: ["en"],
+	paramsSchema: [
+		{
+			key: "fontFamily",
+			kind: "select",
+			default: "Charter",
+			options: ["Charter", "SourceSansPro"],
+		},
+		{
+			key: "colorPalette",
+			kind: "select",
+			default: "blue",
+			options: ["blue", "green"],
+		},
+	],
+};
+
+describe("useTemplatePresets", () => {
+	beforeEach(() => {
+		localStorage.clear();
+	});
+
+	it("should save presets with the values the template accepts", () => {
+		const { presets, savePreset } = useTemplatePresets("resume-1");
+
+		const preset = savePreset(" Compact ", template, {
+			colorPalette: "green",
+			fontFamily: "Unknown",
+			extra: "dropped",
+		});
+
+		expect(preset?.name).toBe("Compact");
+		expect(preset?.params).toEqual({
+			locale: "en",
+			fontFamily: "Charter",
+			colorPalette: "green",
+		});
+		expect(presets.value).toEqual([preset]);
+	});
+
+	it("should ignore presets without a name", () => {
+		const { presets, savePreset } = useTemplatePresets("resume-1");
+
+		expect(savePreset("  ", template, {})).toBeNull();
+		expect(presets.value).toEqual([]);
+	});
+
+	it("should keep presets per resume", async () => {
+		const resumeId = ref("resume-1");
+		const { presets, savePreset, deletePreset } = useTemplatePresets(resumeId);
+		const preset = savePreset("Blue", template, {});
+
+		resumeId.value = "resume-2";
+		await nextTick();
+		expect(presets.value).toEqual([]);
+
+		resumeId.value = "resume-1";
+		await nextTick();
+		expect(presets.value.map((entry) => entry.name)).toEqual(["Blue"]);
+
+		deletePreset(preset?.id ?? "");
+		expect(presets.value).toEqual([]);
+		expect(localStorage.getItem("cvix-template-presets-resume-1")).toBeNull();
+	});
+});
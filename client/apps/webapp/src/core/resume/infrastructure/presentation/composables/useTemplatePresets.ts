@@ -0,0 +1,81 @@
+import { type MaybeRefOrGetter, ref, toValue, watch } from "vue";
+import type {
+	ParamValue,
+	TemplateMetadata,
+} from "@/core/resume/domain/TemplateMetadata";
+import {
+	resolveParamSchema,
+	sanitizeParamValues,
+	type TemplatePreset,
+} from "@/core/resume/domain/TemplateParams";
+import { templatePresetStorage } from "../../storage/TemplatePresetStorage";
+
+/**
+ * Composable for the styling presets saved for a resume.
+ *
+ * Presets follow the resume ID, so switching resumes reloads the list.
+ *
+ * @example
+ * ```typescript
+ * const { presets, savePreset } = useTemplatePresets(() => resumeStore.activeResumeId);
+ * savePreset("Compact blue", template, params);
+ * ```
+ */
+export function useTemplatePresets(
+	resumeId: MaybeRefOrGetter<string>,
+	storage = templatePresetStorage,
+) {
+	const presets = ref<TemplatePreset[]>([]);
+
+	watch(
+		() => toValue(resumeId),
+		(id) => {
+			presets.value = storage.list(id);
+		},
+		{ immediate: true },
+	);
+
+	/**
+	 * Saves the current template and parameters as a preset.
+	 *
+	 * @param name - The preset name
+	 * @param template - The selected template
+	 * @param params - The selected parameters; values the template rejects are dropped
+	 * @returns The saved preset, or null if the name is empty
+	 */
+	function savePreset(
+		name: string,
+		template: TemplateMetadata,
+		params: Record<string, ParamValue>,
+	): TemplatePreset | null {
+		const trimmed = name.trim();
+		if (!trimmed) return null;
+
+		const preset: TemplatePreset = {
+			id: crypto.randomUUID(),
+			name: trimmed,
+			templateId: template.id,
+			params: sanitizeParamValues(resolveParamSchema(template), params),
+			createdAt: new Date().toISOString(),
+		};
+		storage.save(toValue(resumeId), preset);
+		presets.value = storage.list(toValue(resumeId));
+		return preset;
+	}
+
+	/**
+	 * Deletes a preset.
+	 *
+	 * @param presetId - The preset ID
+	 */
+	function deletePreset(presetId: string): void {
+		storage.remove(toValue(resumeId), presetId);
+		presets.value = storage.list(toValue(resumeId));
+	}
+
+	return {
+		presets,
+		savePreset,
+		deletePreset,
+	};
+}
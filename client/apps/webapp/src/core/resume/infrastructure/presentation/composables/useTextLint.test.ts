@@ -0,0 +1,144 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, setActivePinia } from "pinia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComponent, type Ref, ref } from "vue";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	SpellChecker,
+	SpellCheckerProvider,
+} from "@/core/resume/domain/TextLint";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { useSettingsStore } from "@/core/settings";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { TEXT_LINT_DEBOUNCE_MS, useTextLint } from "./useTextLint";
+
+describe("useTextLint", () => {
+	beforeEach(() => {
+		setActivePinia(createPinia());
+		localStorage.clear();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	// Accepts every word but "fsat" in English, every word in Spanish
+	const spellChecker: SpellChecker = {
+		correct: (word) => word !== "fsat",
+		suggest: () => ["fast"],
+	};
+
+	const createProvider = (): SpellCheckerProvider => ({
+		load: vi.fn(async (locale) =>
+			locale === "en"
+				? spellChecker
+				: { correct: () => true, suggest: () => [] },
+		),
+	});
+
+	const createResume = (summary: string): Resume => {
+		const resume = createTestResume();
+		resume.basics.summary = summary;
+		return resume;
+	};
+
+	const setup = (resume: Ref<Resume | null>, provider = createProvider()) => {
+		let result: ReturnType<typeof useTextLint> | undefined;
+		mount(
+			defineComponent({
+				setup() {
+					result = useTextLint(resume, provider);
+					return () => null;
+				},
+			}),
+			{ global: { plugins: [createTestI18n()] } },
+		);
+		if (!result) throw new Error("useTextLint was not set up");
+		return result;
+	};
+
+	const spellingWords = (lint: ReturnType<typeof useTextLint>) =>
+		lint.findings.value
+			.filter((finding) => finding.rule === "spelling")
+			.map((finding) => finding.text);
+
+	it("should proofread with the dictionary of the app locale once loaded", async () => {
+		const provider = createProvider();
+		const lint = setup(ref(createResume("Built fsat services")), provider);
+
+		expect(lint.locale.value).toBe("en");
+		expect(lint.isLoadingDictionary.value).toBe(true);
+		await flushPromises();
+
+		expect(provider.load).toHaveBeenCalledWith("en");
+		expect(lint.isLoadingDictionary.value).toBe(false);
+		expect(spellingWords(lint)).toEqual(["fsat"]);
+	});
+
+	it("should switch dictionaries with the locale", async () => {
+		const provider = createProvider();
+		const lint = setup(ref(createResume("Built fsat services")), provider);
+		await flushPromises();
+
+		lint.locale.value = "es";
+		await flushPromises();
+
+		expect(provider.load).toHaveBeenLastCalledWith("es");
+		expect(spellingWords(lint)).toEqual([]);
+	});
+
+	it("should report dictionaries that fail to load", async () => {
+		const provider: SpellCheckerProvider = {
+			load: vi.fn().mockRejectedValue(new Error("offline")),
+		};
+		const lint = setup(ref(createResume("I built it")), provider);
+		await flushPromises();
+
+		expect(lint.dictionaryError.value).toBe("offline");
+		// Style rules still run without a dictionary
+		expect(lint.findings.value.map((finding) => finding.rule)).toEqual([
+			"first-person",
+		]);
+	});
+
+	it("should proofread edits once typing pauses", async () => {
+		vi.useFakeTimers();
+		const resume = ref<Resume | null>(createResume("Built services"));
+		const lint = setup(resume);
+		await flushPromises();
+		expect(lint.findings.value).toEqual([]);
+
+		if (resume.value) resume.value.basics.summary = "I built services";
+		await flushPromises();
+		expect(lint.findings.value).toEqual([]);
+
+		vi.advanceTimersByTime(TEXT_LINT_DEBOUNCE_MS);
+		expect(lint.findings.value).toHaveLength(1);
+	});
+
+	it("should accept the words added to the user's dictionary", async () => {
+		const lint = setup(ref(createResume("Built fsat services")));
+		await flushPromises();
+
+		await lint.addToDictionary("fsat");
+		await flushPromises();
+
+		expect(spellingWords(lint)).toEqual([]);
+		expect(lint.customWords.value).toEqual(["fsat"]);
+		expect(useSettingsStore().settings.customDictionary).toEqual({
+			en: ["fsat"],
+		});
+
+		await lint.removeFromDictionary("fsat");
+		await flushPromises();
+
+		expect(spellingWords(lint)).toEqual(["fsat"]);
+	});
+
+	it("should have no report without a resume", () => {
+		const lint = setup(ref(null));
+
+		expect(lint.report.value).toBeNull();
+		expect(lint.findings.value).toEqual([]);
+	});
+});
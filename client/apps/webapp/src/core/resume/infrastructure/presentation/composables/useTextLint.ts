@@ -0,0 +1,112 @@
+import {
+	DEFAULT_LOCALE,
+	isSupportedLocale,
+	type SupportedLocale,
+} from "@cvix/i18n";
+import { watchDebounced } from "@vueuse/core";
+import { computed, inject, type Ref, ref, shallowRef, watch } from "vue";
+import { useI18n } from "vue-i18n";
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	type LintFinding,
+	type LintReport,
+	lintResume,
+	type SpellChecker,
+	type SpellCheckerProvider,
+} from "@/core/resume/domain/TextLint";
+import { useSettingsStore } from "@/core/settings";
+import { SPELL_CHECKER_KEY } from "../../di";
+import { hunspellSpellCheckerProvider } from "../../spelling";
+
+/** Pause in typing, in milliseconds, after which the resume is proofread again */
+export const TEXT_LINT_DEBOUNCE_MS = 400;
+
+/**
+ * Composable proofreading the free-text fields of a resume.
+ *
+ * The dictionary of the selected locale is loaded on demand; until it is
+ * ready only the style rules run. Words the user adds to their dictionary are
+ * kept in their settings, per locale.
+ *
+ * @param resume - The resume to proofread
+ * @param spelling - The dictionaries, the provided or bundled ones by default
+ */
+export function useTextLint(
+	resume: Ref<Resume | null>,
+	spelling: SpellCheckerProvider = inject(
+		SPELL_CHECKER_KEY,
+		hunspellSpellCheckerProvider,
+	),
+) {
+	const { locale: appLocale } = useI18n();
+	const settingsStore = useSettingsStore();
+
+	const locale = ref<SupportedLocale>(
+		isSupportedLocale(appLocale.value) ? appLocale.value : DEFAULT_LOCALE,
+	);
+	const spellChecker = shallowRef<SpellChecker | null>(null);
+	const isLoadingDictionary = ref(false);
+	const dictionaryError = ref<string | null>(null);
+	const report = shallowRef<LintReport | null>(null);
+
+	const customWords = computed<ReadonlyArray<string>>(
+		() => settingsStore.settings.customDictionary?.[locale.value] ?? [],
+	);
+
+	// Only the dictionary of the latest locale may be used when switching quickly
+	let latest = 0;
+
+	const loadDictionary = async (target: SupportedLocale): Promise<void> => {
+		const request = ++latest;
+		spellChecker.value = null;
+		isLoadingDictionary.value = true;
+		dictionaryError.value = null;
+		try {
+			const checker = await spelling.load(target);
+			if (request === latest) spellChecker.value = checker;
+		} catch (e: unknown) {
+			if (request === latest) {
+				dictionaryError.value = e instanceof Error ? e.message : String(e);
+			}
+		} finally {
+			if (request === latest) isLoadingDictionary.value = false;
+		}
+	};
+
+	const lint = (): void => {
+		report.value = resume.value
+			? lintResume(resume.value, {
+					locale: locale.value,
+					spellChecker: spellChecker.value,
+					customWords: customWords.value,
+				})
+			: null;
+	};
+
+	watch(locale, loadDictionary, { immediate: true });
+	// Spelling suggestions are slow to compute, so edits are proofread once typing pauses
+	watchDebounced(resume, lint, { deep: true, debounce: TEXT_LINT_DEBOUNCE_MS });
+	watch([spellChecker, customWords], lint);
+	lint();
+
+	const findings = computed<ReadonlyArray<LintFinding>>(
+		() => report.value?.findings ?? [],
+	);
+
+	const addToDictionary = (word: string): Promise<void> =>
+		settingsStore.addCustomWord(locale.value, word);
+
+	const removeFromDictionary = (word: string): Promise<void> =>
+		settingsStore.removeCustomWord(locale.value, word);
+
+	return {
+		locale,
+		report,
+		findings,
+		customWords,
+		isLoadingDictionary,
+		dictionaryError,
+		addToDictionary,
+		removeFromDictionary,
+	};
+}
@@ -0,0 +1,235 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reactive } from "vue";
+import {
+	type CoverLetter,
+	type CoverLetterSummary,
+	createCoverLetter,
+	toCoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter";
+import { useCoverLetterStore } from "@/core/resume/infrastructure/store/cover-letter.store";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import CoverLetterPage from "./CoverLetterPage.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+const routerPush = vi.hoisted(() => vi.fn());
+const downloadPdf = vi.hoisted(() => vi.fn());
+const route = vi.hoisted(() => ({ params: {} as Record<string, string> }));
+
+const coverLetterStore = vi.hoisted(() => ({
+	letters: [] as CoverLetterSummary[],
+	letter: null as CoverLetter | null,
+	isLoading: false,
+	isSaving: false,
+	isGenerating: false,
+	loadLetters: vi.fn(),
+	openLetter: vi.fn(),
+	createLetter: vi.fn(),
+	saveLetter: vi.fn(),
+	deleteLetter: vi.fn(),
+	generatePdf: vi.fn(),
+}));
+
+const resumeStore = vi.hoisted(() => ({
+	resumes: [],
+	activeResumeId: "resume-1" as string | null,
+	loadLibrary: vi.fn(),
+	loadResolvedResume: vi.fn(),
+	listResumeVariants: vi.fn(),
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("vue-router", async () => {
+	const { reactive } = await import("vue");
+	const reactiveRoute = reactive(route);
+	return {
+		useRoute: () => reactiveRoute,
+		useRouter: () => ({ push: routerPush }),
+	};
+});
+
+vi.mock("@/core/resume/infrastructure/store/cover-letter.store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(coverLetterStore);
+	return { useCoverLetterStore: () => store };
+});
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(resumeStore);
+	return { useResumeStore: () => store };
+});
+
+vi.mock("../composables/usePdf", () => ({
+	usePdf: () => ({
+		downloadPdf,
+	}),
+}));
+
+const letter = createCoverLetter("letter-1", "Acme", {
+	resumeId: "resume-1",
+	variantId: null,
+});
+
+describe("CoverLetterPage.vue", () => {
+	let wrapper: ReturnType<typeof mount> | null = null;
+
+	// Unmounted after each test so earlier pages stop watching the store
+	const mountComponent = () => {
+		wrapper = mount(CoverLetterPage, {
+			attachTo: document.body,
+			global: {
+				plugins: [createTestI18n()],
+				stubs: { DashboardLayout: { template: "<div><slot /></div>" } },
+			},
+		});
+		return wrapper;
+	};
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		const store = useCoverLetterStore() as unknown as typeof coverLetterStore;
+		store.letters = [toCoverLetterSummary(letter)];
+		store.letter = null;
+		route.params = { id: "letter-1" };
+		coverLetterStore.loadLetters.mockResolvedValue(undefined);
+		coverLetterStore.openLetter.mockImplementation(async (id: string) => {
+			store.letter = id === letter.id ? reactive({ ...letter }) : null;
+			return store.letter;
+		});
+		resumeStore.loadLibrary.mockResolvedValue(undefined);
+		resumeStore.loadResolvedResume.mockResolvedValue(createTestResume());
+		resumeStore.listResumeVariants.mockResolvedValue([]);
+	});
+
+	afterEach(() => {
+		wrapper?.unmount();
+		wrapper = null;
+		document.body.innerHTML = "";
+	});
+
+	it("should open the letter of the route with its linked resume", async () => {
+		mountComponent();
+		await flushPromises();
+
+		expect(coverLetterStore.loadLetters).toHaveBeenCalled();
+		expect(coverLetterStore.openLetter).toHaveBeenCalledWith("letter-1");
+		expect(resumeStore.loadResolvedResume).toHaveBeenCalledWith(
+			"resume-1",
+			null,
+		);
+		expect(
+			(find('[data-testid="cover-letter-title"]') as HTMLInputElement).value,
+		).toBe("Acme");
+		expect(
+			(find('[data-testid="cover-letter-sign-off-name"]') as HTMLInputElement)
+				.placeholder,
+		).toBe(createTestResume().basics.name);
+	});
+
+	it("should ask to pick a letter without one in the route", async () => {
+		route.params = {};
+		mountComponent();
+		await flushPromises();
+
+		expect(coverLetterStore.openLetter).not.toHaveBeenCalled();
+		expect(find('[data-testid="cover-letter-form"]')).toBeNull();
+		expect(document.body.textContent).toContain("resume.coverLetter.select");
+	});
+
+	it("should report a letter that does not exist", async () => {
+		route.params = { id: "missing" };
+		mountComponent();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.coverLetter.notFound",
+		);
+	});
+
+	it("should create a letter for the active resume and open it", async () => {
+		coverLetterStore.createLetter.mockResolvedValue({
+			...letter,
+			id: "letter-2",
+		});
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="cover-letter-new"]')?.click();
+		await flushPromises();
+
+		expect(coverLetterStore.createLetter).toHaveBeenCalledWith("", {
+			resumeId: "resume-1",
+			variantId: null,
+		});
+		expect(routerPush).toHaveBeenCalledWith({
+			name: "CoverLetter",
+			params: { id: "letter-2" },
+		});
+	});
+
+	it("should save the letter", async () => {
+		coverLetterStore.saveLetter.mockResolvedValue(undefined);
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="cover-letter-form"]')?.dispatchEvent(
+			new Event("submit"),
+		);
+		await flushPromises();
+
+		expect(coverLetterStore.saveLetter).toHaveBeenCalledWith(
+			expect.objectContaining({ title: "Acme" }),
+		);
+		expect(toastMocks.success).toHaveBeenCalledWith("resume.coverLetter.saved");
+	});
+
+	it("should download the letter in the current locale", async () => {
+		const blob = new Blob(["%PDF"]);
+		coverLetterStore.generatePdf.mockResolvedValue(blob);
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="cover-letter-download"]')?.click();
+		await flushPromises();
+
+		expect(coverLetterStore.generatePdf).toHaveBeenCalledWith("en");
+		expect(downloadPdf).toHaveBeenCalledWith(blob, "Acme.pdf");
+	});
+
+	it("should leave a deleted letter that is open", async () => {
+		coverLetterStore.deleteLetter.mockResolvedValue(undefined);
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="cover-letter-delete"]')?.click();
+		await flushPromises();
+
+		expect(coverLetterStore.deleteLetter).toHaveBeenCalledWith("letter-1");
+		expect(routerPush).toHaveBeenCalledWith({ name: "CoverLetters" });
+		expect(toastMocks.success).toHaveBeenCalledWith(
+			"resume.coverLetter.deleted",
+		);
+	});
+
+	it("should report a failed delete", async () => {
+		coverLetterStore.deleteLetter.mockRejectedValue(new Error("Offline"));
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="cover-letter-delete"]')?.click();
+		await flushPromises();
+
+		expect(routerPush).not.toHaveBeenCalled();
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.coverLetter.errors.delete",
+			{ description: "Offline" },
+		);
+	});
+});
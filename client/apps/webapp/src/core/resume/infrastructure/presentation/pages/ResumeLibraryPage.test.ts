@@ -0,0 +1,194 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResumeSummary } from "@/core/resume/domain/ResumeStorage";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { createEmptyResume } from "../composables/useResumeForm";
+import ResumeLibraryPage from "./ResumeLibraryPage.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+const routerPush = vi.hoisted(() => vi.fn());
+
+const resumeStore = vi.hoisted(() => ({
+	resumes: [] as ResumeSummary[],
+	activeResumeId: null as string | null,
+	isLoadingLibrary: false,
+	currentStorageType: "local",
+	loadLibrary: vi.fn(),
+	createResume: vi.fn(),
+	renameResume: vi.fn(),
+	duplicateResume: vi.fn(),
+	deleteResume: vi.fn(),
+	openResume: vi.fn(),
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("vue-router", () => ({ useRouter: () => ({ push: routerPush }) }));
+
+vi.mock("@/core/settings", () => ({
+	useDateFormat: () => ({ format: (value: string) => value }),
+}));
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(resumeStore);
+	return { useResumeStore: () => store };
+});
+
+const summary: ResumeSummary = {
+	id: "resume-1",
+	title: "Backend Engineer",
+	createdAt: "2024-01-01T00:00:00Z",
+	updatedAt: null,
+};
+
+describe("ResumeLibraryPage.vue", () => {
+	const mountComponent = () =>
+		mount(ResumeLibraryPage, {
+			attachTo: document.body,
+			global: {
+				plugins: [createTestI18n()],
+				stubs: { DashboardLayout: { template: "<div><slot /></div>" } },
+			},
+		});
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	const typeTitle = async (title: string) => {
+		const input = find("#resume-library-title") as HTMLInputElement;
+		input.value = title;
+		input.dispatchEvent(new Event("input"));
+		await flushPromises();
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		resumeStore.resumes = [summary];
+		resumeStore.loadLibrary.mockResolvedValue(undefined);
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	it("should load and list the resumes", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(resumeStore.loadLibrary).toHaveBeenCalled();
+		const items = document.body.querySelectorAll(
+			'[data-testid="library-item"]',
+		);
+		expect(items).toHaveLength(1);
+		expect(items[0]?.textContent).toContain("Backend Engineer");
+		wrapper.unmount();
+	});
+
+	it("should show a placeholder for resumes without a title", async () => {
+		resumeStore.resumes = [{ ...summary, title: "" }];
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		expect(find('[data-testid="library-item"]')?.textContent).toContain(
+			"resume.library.untitled",
+		);
+		wrapper.unmount();
+	});
+
+	it("should create an empty resume and open it in the editor", async () => {
+		resumeStore.createResume.mockResolvedValue({ id: "resume-2" });
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="library-new"]')?.click();
+		await flushPromises();
+		await typeTitle("  Frontend Engineer ");
+		find('[data-testid="library-title-submit"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.createResume).toHaveBeenCalledWith(
+			"Frontend Engineer",
+			createEmptyResume(),
+		);
+		expect(routerPush).toHaveBeenCalledWith("/resume/editor");
+		wrapper.unmount();
+	});
+
+	it("should rename a resume", async () => {
+		resumeStore.renameResume.mockResolvedValue(undefined);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="library-rename"]')?.click();
+		await flushPromises();
+		expect((find("#resume-library-title") as HTMLInputElement).value).toBe(
+			"Backend Engineer",
+		);
+		await typeTitle("Staff Engineer");
+		find('[data-testid="library-title-submit"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.renameResume).toHaveBeenCalledWith(
+			"resume-1",
+			"Staff Engineer",
+		);
+		expect(toastMocks.success).toHaveBeenCalledWith(
+			"resume.library.messages.renameSuccess",
+		);
+		wrapper.unmount();
+	});
+
+	it("should duplicate a resume", async () => {
+		resumeStore.duplicateResume.mockResolvedValue(undefined);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="library-duplicate"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.duplicateResume).toHaveBeenCalledWith(
+			"resume-1",
+			expect.any(String),
+		);
+		expect(toastMocks.success).toHaveBeenCalledWith(
+			"resume.library.messages.duplicateSuccess",
+		);
+		wrapper.unmount();
+	});
+
+	it("should delete a resume only after confirmation", async () => {
+		resumeStore.deleteResume.mockResolvedValue(undefined);
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="library-delete"]')?.click();
+		await flushPromises();
+		expect(resumeStore.deleteResume).not.toHaveBeenCalled();
+
+		find('[data-testid="library-delete-confirm"]')?.click();
+		await flushPromises();
+
+		expect(resumeStore.deleteResume).toHaveBeenCalledWith("resume-1");
+		expect(toastMocks.success).toHaveBeenCalledWith(
+			"resume.library.messages.deleteSuccess",
+		);
+		wrapper.unmount();
+	});
+
+	it("should report a failed action", async () => {
+		resumeStore.duplicateResume.mockRejectedValue(new Error("Quota exceeded"));
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="library-duplicate"]')?.click();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith(
+			"resume.library.messages.actionError",
+			{ description: "Quota exceeded" },
+		);
+		wrapper.unmount();
+	});
+});
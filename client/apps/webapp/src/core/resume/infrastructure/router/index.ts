@@ -23,6 +23,17 @@ export const resumeRoutes: RouteRecordRaw[] = [
 			requiresAuth: true,
 		},
 	},
+	{
+		path: "/resume/library",
+		name: "ResumeLibrary",
+		component: () =>
+			import(
+				"@/core/resume/infrastructure/presentation/pages/ResumeLibraryPage.vue"
+			),
+		meta: {
+			requiresAuth: true,
+		},
+	},
 	{
 		path: "/resume/pdf",
 		name: "ResumePdf",
@@ -34,4 +45,26 @@ export const resumeRoutes: RouteRecordRaw[] = [
 			requiresAuth: true,
 		},
 	},
+	{
+		path: "/resume/cover-letters",
+		name: "CoverLetters",
+		component: () =>
+			import(
+				"@/core/resume/infrastructure/presentation/pages/CoverLetterPage.vue"
+			),
+		meta: {
+			requiresAuth: true,
+		},
+	},
+	{
+		path: "/resume/cover-letters/:id",
+		name: "CoverLetter",
+		component: () =>
+			import(
+				"@/core/resume/infrastructure/presentation/pages/CoverLetterPage.vue"
+			),
+		meta: {
+			requiresAuth: true,
+		},
+	},
 ];
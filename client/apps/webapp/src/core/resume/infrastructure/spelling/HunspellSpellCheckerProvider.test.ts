@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	type HunspellDictionary,
+	HunspellSpellCheckerProvider,
+} from "./HunspellSpellCheckerProvider";
+
+describe("HunspellSpellCheckerProvider", () => {
+	const dictionary: HunspellDictionary = {
+		aff: "SET UTF-8\nTRY esianrtolcdugmphbyfvkwzESIANRTOLCDUGMPHBYFVKWZ'\n",
+		dic: "3\nbuild\nteam\nservice\n",
+	};
+
+	it("should check words against the loaded dictionary", async () => {
+		const provider = new HunspellSpellCheckerProvider(async () => dictionary);
+
+		const checker = await provider.load("en");
+
+		expect(checker.correct("team")).toBe(true);
+		expect(checker.correct("Team")).toBe(true);
+		expect(checker.correct("taem")).toBe(false);
+		expect(checker.suggest("taem")).toContain("team");
+	});
+
+	it("should load each dictionary once", async () => {
+		const loader = vi.fn(async () => dictionary);
+		const provider = new HunspellSpellCheckerProvider(loader);
+
+		const [first, second] = await Promise.all([
+			provider.load("en"),
+			provider.load("en"),
+		]);
+		await provider.load("es");
+
+		expect(first).toBe(second);
+		expect(loader).toHaveBeenCalledTimes(2);
+		expect(loader).toHaveBeenCalledWith("es");
+	});
+
+	it("should retry a dictionary that failed to load", async () => {
+		const loader = vi
+			.fn<() => Promise<HunspellDictionary>>()
+			.mockRejectedValueOnce(new Error("offline"))
+			.mockResolvedValueOnce(dictionary);
+		const provider = new HunspellSpellCheckerProvider(loader);
+
+		await expect(provider.load("en")).rejects.toThrow(
+			"Failed to load the en dictionary: offline",
+		);
+		await expect(provider.load("en")).resolves.toBeDefined();
+	});
+});
@@ -0,0 +1,124 @@
+import type { SupportedLocale } from "@cvix/i18n";
+import type NSpell from "nspell";
+import type {
+	SpellChecker,
+	SpellCheckerProvider,
+} from "@/core/resume/domain/TextLint";
+
+/**
+ * Affix and word files of a Hunspell dictionary
+ */
+export interface HunspellDictionary {
+	aff: string;
+	dic: string;
+}
+
+/**
+ * Loads the Hunspell dictionary of a locale
+ */
+export type HunspellDictionaryLoader = (
+	locale: SupportedLocale,
+) => Promise<HunspellDictionary>;
+
+type AssetModule = { default: string };
+
+// The dictionaries ship with the app as assets, so spelling works offline
+const DICTIONARY_ASSETS: Readonly<
+	Record<SupportedLocale, () => Promise<[AssetModule, AssetModule]>>
+> = {
+	en: () =>
+		Promise.all([
+			import("@dictionaries/en/index.aff?url"),
+			import("@dictionaries/en/index.dic?url"),
+		]),
+	es: () =>
+		Promise.all([
+			import("@dictionaries/es/index.aff?url"),
+			import("@dictionaries/es/index.dic?url"),
+		]),
+};
+
+async function fetchText(url: string): Promise<string> {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status} for ${url}`);
+	}
+	return response.text();
+}
+
+async function loadBundledDictionary(
+	locale: SupportedLocale,
+): Promise<HunspellDictionary> {
+	const [aff, dic] = await DICTIONARY_ASSETS[locale]();
+	const [affText, dicText] = await Promise.all([
+		fetchText(aff.default),
+		fetchText(dic.default),
+	]);
+	return { aff: affText, dic: dicText };
+}
+
+/**
+ * Spell checker remembering its suggestions, which are slow to compute and
+ * asked again on every edit of the resume.
+ */
+class CachedSpellChecker implements SpellChecker {
+	private readonly suggestions = new Map<string, string[]>();
+
+	constructor(private readonly dictionary: NSpell) {}
+
+	correct(word: string): boolean {
+		return this.dictionary.correct(word);
+	}
+
+	suggest(word: string): string[] {
+		let suggestions = this.suggestions.get(word);
+		if (!suggestions) {
+			suggestions = this.dictionary.suggest(word);
+			this.suggestions.set(word, suggestions);
+		}
+		return suggestions;
+	}
+}
+
+/**
+ * Spell checkers backed by the Hunspell dictionaries of the supported locales.
+ *
+ * Each dictionary is loaded on first use and kept for the rest of the session.
+ * A dictionary that fails to load is requested again on the next call.
+ */
+export class HunspellSpellCheckerProvider implements SpellCheckerProvider {
+	private readonly checkers = new Map<SupportedLocale, Promise<SpellChecker>>();
+
+	constructor(
+		private readonly loadDictionary: HunspellDictionaryLoader = loadBundledDictionary,
+	) {}
+
+	load(locale: SupportedLocale): Promise<SpellChecker> {
+		let checker = this.checkers.get(locale);
+		if (!checker) {
+			checker = this.create(locale);
+			this.checkers.set(locale, checker);
+			checker.catch(() => this.checkers.delete(locale));
+		}
+		return checker;
+	}
+
+	private async create(locale: SupportedLocale): Promise<SpellChecker> {
+		try {
+			const [{ default: nspell }, dictionary] = await Promise.all([
+				import("nspell"),
+				this.loadDictionary(locale),
+			]);
+			return new CachedSpellChecker(nspell(dictionary));
+		} catch (error) {
+			throw new Error(
+				`Failed to load the ${locale} dictionary: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
+
+/**
+ * Default provider, shared so each dictionary is loaded once per session
+ */
+export const hunspellSpellCheckerProvider = new HunspellSpellCheckerProvider();
@@ -0,0 +1,10 @@
+/**
+ * Infrastructure layer exports for spell checking resume text.
+ */
+
+export {
+	type HunspellDictionary,
+	type HunspellDictionaryLoader,
+	HunspellSpellCheckerProvider,
+	hunspellSpellCheckerProvider,
+} from "./HunspellSpellCheckerProvider";
@@ -0,0 +1,42 @@
+import { del, get, set } from "idb-keyval";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import {
+	AUTOSAVE_DRAFT_KEY,
+	AutosaveDraftStorage,
+} from "./AutosaveDraftStorage";
+
+vi.mock("idb-keyval", () => ({
+	get: vi.fn(),
+	set: vi.fn(),
+	del: vi.fn(),
+}));
+
+describe("AutosaveDraftStorage", () => {
+	let storage: AutosaveDraftStorage;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		storage = new AutosaveDraftStorage();
+	});
+
+	it("should keep the draft under the autosave key", async () => {
+		const draft = createTestResume();
+		vi.mocked(get).mockResolvedValue(draft);
+
+		await storage.save(draft);
+		const loaded = await storage.load();
+		await storage.clear();
+
+		expect(set).toHaveBeenCalledWith(AUTOSAVE_DRAFT_KEY, draft);
+		expect(loaded).toEqual(draft);
+		expect(del).toHaveBeenCalledWith(AUTOSAVE_DRAFT_KEY);
+	});
+
+	it("should have no draft when IndexedDB cannot be read", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.mocked(get).mockRejectedValue(new Error("indexedDB is not defined"));
+
+		expect(await storage.load()).toBeNull();
+	});
+});
@@ -0,0 +1,47 @@
+import { del, get, set } from "idb-keyval";
+import type { Resume } from "../../domain/Resume";
+import type { AutosaveDraftStore } from "../../domain/StorageMigration";
+
+/**
+ * IndexedDB key autosave keeps the draft of the open resume under.
+ */
+export const AUTOSAVE_DRAFT_KEY = "resume:draft";
+
+/**
+ * Access to the autosave draft outside the editor, e.g. to carry it over when
+ * the user changes storage.
+ */
+export class AutosaveDraftStorage implements AutosaveDraftStore {
+	constructor(private readonly key = AUTOSAVE_DRAFT_KEY) {}
+
+	/**
+	 * Loads the draft.
+	 * A browser without IndexedDB has no draft to offer.
+	 *
+	 * @returns The draft, or null if there is none or it cannot be read
+	 */
+	async load(): Promise<Resume | null> {
+		try {
+			return (await get<Resume>(this.key)) ?? null;
+		} catch (error) {
+			console.warn("Failed to load the autosave draft:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Replaces the draft.
+	 *
+	 * @param draft - The draft to keep
+	 */
+	async save(draft: Resume): Promise<void> {
+		await set(this.key, draft);
+	}
+
+	/**
+	 * Removes the draft.
+	 */
+	async clear(): Promise<void> {
+		await del(this.key);
+	}
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type CoverLetter,
+	createCoverLetter,
+} from "@/core/resume/domain/CoverLetter";
+import { createMockIDBStore, stubIndexedDB } from "@/test-utils/indexed-db";
+import { IndexedDBCoverLetterRepository } from "./IndexedDBCoverLetterRepository";
+
+describe("IndexedDBCoverLetterRepository", () => {
+	let repository: IndexedDBCoverLetterRepository;
+	let mockStore: ReturnType<typeof createMockIDBStore<CoverLetter>>;
+	let mockDatabase: ReturnType<typeof stubIndexedDB>;
+
+	beforeEach(() => {
+		mockStore = createMockIDBStore<CoverLetter>({ keyPath: "id" });
+		mockDatabase = stubIndexedDB(mockStore);
+
+		repository = new IndexedDBCoverLetterRepository();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should store cover letters and close the database", async () => {
+		const letter = createCoverLetter("letter-1", "Acme");
+
+		await repository.save(letter);
+
+		expect(mockStore.put).toHaveBeenCalledWith(letter);
+		expect(await repository.get("letter-1")).toEqual(letter);
+		expect(mockDatabase.close).toHaveBeenCalled();
+	});
+
+	it("should list summaries most recently updated first", async () => {
+		await repository.save({
+			...createCoverLetter("old", "Old"),
+			updatedAt: "2024-01-01T00:00:00Z",
+		});
+		await repository.save({
+			...createCoverLetter("new", "New"),
+			updatedAt: "2024-02-01T00:00:00Z",
+		});
+
+		const summaries = await repository.list();
+
+		expect(summaries.map((summary) => summary.id)).toEqual(["new", "old"]);
+	});
+
+	it("should return null for unknown cover letters", async () => {
+		expect(await repository.get("missing")).toBeNull();
+	});
+
+	it("should delete cover letters", async () => {
+		await repository.save(createCoverLetter("letter-1", "Acme"));
+
+		await repository.delete("letter-1");
+
+		expect(await repository.get("letter-1")).toBeNull();
+	});
+
+	it("should wrap database errors", async () => {
+		vi.stubGlobal("indexedDB", {
+			open: vi.fn(() => {
+				throw new Error("blocked");
+			}),
+		});
+
+		await expect(repository.list()).rejects.toThrow(
+			"Failed to list cover letters from IndexedDB: blocked",
+		);
+	});
+});
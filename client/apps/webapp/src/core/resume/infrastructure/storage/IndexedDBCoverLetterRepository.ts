@@ -0,0 +1,121 @@
+import {
+	type CoverLetter,
+	type CoverLetterRepository,
+	type CoverLetterSummary,
+	sortCoverLetters,
+	toCoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter";
+import { promisifyRequest } from "./IndexedDBRequest";
+
+/**
+ * IndexedDB implementation of the cover letter repository.
+ *
+ * @example
+ * ```typescript
+ * const repository = new IndexedDBCoverLetterRepository();
+ * const letter = await repository.get(id);
+ * ```
+ */
+export class IndexedDBCoverLetterRepository implements CoverLetterRepository {
+	private readonly dbName = "cvix-cover-letters";
+	private readonly storeName = "letters";
+	private readonly version = 1;
+
+	/**
+	 * Opens or creates the cover letter database.
+	 *
+	 * @returns Promise resolving to the database instance
+	 * @private
+	 */
+	private async openDatabase(): Promise<IDBDatabase> {
+		return new Promise((resolve, reject) => {
+			const request = indexedDB.open(this.dbName, this.version);
+
+			request.onerror = () => {
+				reject(
+					new Error(`Failed to open IndexedDB: ${request.error?.message}`),
+				);
+			};
+
+			request.onsuccess = () => {
+				resolve(request.result);
+			};
+
+			request.onupgradeneeded = (event) => {
+				const db = (event.target as IDBOpenDBRequest).result;
+
+				if (!db.objectStoreNames.contains(this.storeName)) {
+					db.createObjectStore(this.storeName, { keyPath: "id" });
+				}
+			};
+		});
+	}
+
+	/**
+	 * Runs an operation against the letter store and closes the database afterwards.
+	 *
+	 * @private
+	 */
+	private async withStore<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => Promise<T>,
+	): Promise<T> {
+		const db = await this.openDatabase();
+		try {
+			const transaction = db.transaction([this.storeName], mode);
+			return await operation(transaction.objectStore(this.storeName));
+		} finally {
+			db.close();
+		}
+	}
+
+	async list(): Promise<CoverLetterSummary[]> {
+		try {
+			const letters = await this.withStore("readonly", (store) =>
+				promisifyRequest<CoverLetter[]>(store.getAll()),
+			);
+			return sortCoverLetters(letters.map(toCoverLetterSummary));
+		} catch (error) {
+			throw new Error(
+				`Failed to list cover letters from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async get(id: string): Promise<CoverLetter | null> {
+		try {
+			const letter = await this.withStore("readonly", (store) =>
+				promisifyRequest<CoverLetter | undefined>(store.get(id)),
+			);
+			return letter ?? null;
+		} catch (error) {
+			throw new Error(
+				`Failed to load cover letter from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async save(letter: CoverLetter): Promise<void> {
+		try {
+			await this.withStore("readwrite", (store) =>
+				promisifyRequest(store.put(letter)),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to save cover letter to IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async delete(id: string): Promise<void> {
+		try {
+			await this.withStore("readwrite", (store) =>
+				promisifyRequest(store.delete(id)),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to delete cover letter from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+}
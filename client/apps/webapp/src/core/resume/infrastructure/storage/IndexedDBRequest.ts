@@ -0,0 +1,12 @@
+/**
+ * Wraps an IDBRequest in a promise resolving to its result.
+ *
+ * Shared by the IndexedDB adapters of this module.
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () =>
+			reject(new Error(request.error?.message ?? "Unknown error"));
+	});
+}
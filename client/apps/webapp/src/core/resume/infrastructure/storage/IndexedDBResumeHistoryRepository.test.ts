@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeSnapshot } from "@/core/resume/domain/ResumeSnapshot";
+import { createMockIDBStore, stubIndexedDB } from "@/test-utils/indexed-db";
+import { IndexedDBResumeHistoryRepository } from "./IndexedDBResumeHistoryRepository";
+
+describe("IndexedDBResumeHistoryRepository", () => {
+	let repository: IndexedDBResumeHistoryRepository;
+	let mockStore: ReturnType<typeof createMockIDBStore<ResumeSnapshot>>;
+	let mockDatabase: ReturnType<typeof stubIndexedDB>;
+
+	const resume = { basics: { name: "John Doe" } } as unknown as Resume;
+
+	const createSnapshot = (
+		overrides: Partial<ResumeSnapshot> = {},
+	): ResumeSnapshot => ({
+		id: "snap-1",
+		resumeId: "default",
+		createdAt: "2024-01-01T00:00:00Z",
+		reason: "save",
+		label: null,
+		fingerprint: "aaaaaaaa",
+		resume,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		mockStore = createMockIDBStore<ResumeSnapshot>({
+			keyPath: "id",
+			indexedBy: "resumeId",
+		});
+		mockDatabase = stubIndexedDB(mockStore);
+
+		repository = new IndexedDBResumeHistoryRepository();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should store snapshots and close the database", async () => {
+		const snapshot = createSnapshot();
+
+		await repository.add(snapshot);
+
+		expect(mockStore.put).toHaveBeenCalledWith(snapshot);
+		expect(mockDatabase.close).toHaveBeenCalled();
+	});
+
+	it("should list summaries of one resume most recent first", async () => {
+		await repository.add(createSnapshot());
+		await repository.add(
+			createSnapshot({ id: "snap-2", createdAt: "2024-02-01T00:00:00Z" }),
+		);
+		await repository.add(createSnapshot({ id: "snap-3", resumeId: "other" }));
+
+		const summaries = await repository.list("default");
+
+		expect(summaries.map((summary) => summary.id)).toEqual([
+			"snap-2",
+			"snap-1",
+		]);
+		expect(summaries[0]).not.toHaveProperty("resume");
+	});
+
+	it("should only return snapshots that belong to the resume", async () => {
+		await repository.add(createSnapshot());
+
+		expect(await repository.get("default", "snap-1")).toEqual(createSnapshot());
+		expect(await repository.get("other", "snap-1")).toBeNull();
+		expect(await repository.get("default", "missing")).toBeNull();
+	});
+
+	it("should delete snapshots of the given resume only", async () => {
+		await repository.add(createSnapshot());
+
+		await repository.delete("other", "snap-1");
+		expect(mockStore._store.has("snap-1")).toBe(true);
+
+		await repository.delete("default", "snap-1");
+		expect(mockStore._store.has("snap-1")).toBe(false);
+	});
+
+	it("should wrap database errors", async () => {
+		vi.stubGlobal("indexedDB", {
+			open: vi.fn(() => {
+				const request = {
+					error: new Error("Blocked"),
+					onerror: null as (() => void) | null,
+				};
+				setTimeout(() => request.onerror?.(), 0);
+				return request;
+			}),
+		});
+
+		await expect(repository.list("default")).rejects.toThrow(
+			"Failed to list snapshots from IndexedDB: Failed to open IndexedDB: Blocked",
+		);
+	});
+});
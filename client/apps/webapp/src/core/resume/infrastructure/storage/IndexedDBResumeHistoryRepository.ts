@@ -0,0 +1,140 @@
+import {
+	type ResumeHistoryRepository,
+	type ResumeSnapshot,
+	type ResumeSnapshotSummary,
+	sortSnapshots,
+	toSnapshotSummary,
+} from "@/core/resume/domain/ResumeSnapshot";
+import { promisifyRequest } from "./IndexedDBRequest";
+
+/**
+ * IndexedDB implementation of the resume history repository.
+ *
+ * Snapshots live in their own database so history works offline regardless of
+ * whether the resume itself is kept in session, local or IndexedDB storage.
+ *
+ * @example
+ * ```typescript
+ * const repository = new IndexedDBResumeHistoryRepository();
+ * const snapshots = await repository.list("default");
+ * ```
+ */
+export class IndexedDBResumeHistoryRepository
+	implements ResumeHistoryRepository
+{
+	private readonly dbName = "cvix-history";
+	private readonly storeName = "snapshots";
+	private readonly indexName = "resumeId";
+	private readonly version = 1;
+
+	/**
+	 * Opens or creates the history database.
+	 *
+	 * @returns Promise resolving to the database instance
+	 * @private
+	 */
+	private async openDatabase(): Promise<IDBDatabase> {
+		return new Promise((resolve, reject) => {
+			const request = indexedDB.open(this.dbName, this.version);
+
+			request.onerror = () => {
+				reject(
+					new Error(`Failed to open IndexedDB: ${request.error?.message}`),
+				);
+			};
+
+			request.onsuccess = () => {
+				resolve(request.result);
+			};
+
+			request.onupgradeneeded = (event) => {
+				const db = (event.target as IDBOpenDBRequest).result;
+
+				if (!db.objectStoreNames.contains(this.storeName)) {
+					const store = db.createObjectStore(this.storeName, {
+						keyPath: "id",
+					});
+					store.createIndex(this.indexName, "resumeId", { unique: false });
+				}
+			};
+		});
+	}
+
+	/**
+	 * Runs an operation against the snapshot store and closes the database afterwards.
+	 *
+	 * @private
+	 */
+	private async withStore<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => Promise<T>,
+	): Promise<T> {
+		const db = await this.openDatabase();
+		try {
+			const transaction = db.transaction([this.storeName], mode);
+			return await operation(transaction.objectStore(this.storeName));
+		} finally {
+			db.close();
+		}
+	}
+
+	async list(resumeId: string): Promise<ResumeSnapshotSummary[]> {
+		try {
+			const snapshots = await this.withStore("readonly", (store) =>
+				promisifyRequest<ResumeSnapshot[]>(
+					store.index(this.indexName).getAll(resumeId),
+				),
+			);
+			return sortSnapshots(snapshots.map(toSnapshotSummary));
+		} catch (error) {
+			throw new Error(
+				`Failed to list snapshots from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async get(
+		resumeId: string,
+		snapshotId: string,
+	): Promise<ResumeSnapshot | null> {
+		try {
+			const snapshot = await this.withStore("readonly", (store) =>
+				promisifyRequest<ResumeSnapshot | undefined>(store.get(snapshotId)),
+			);
+			return snapshot?.resumeId === resumeId ? snapshot : null;
+		} catch (error) {
+			throw new Error(
+				`Failed to load snapshot from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async add(snapshot: ResumeSnapshot): Promise<void> {
+		try {
+			await this.withStore("readwrite", (store) =>
+				promisifyRequest(store.put(snapshot)),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to save snapshot to IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async delete(resumeId: string, snapshotId: string): Promise<void> {
+		try {
+			await this.withStore("readwrite", async (store) => {
+				const snapshot = await promisifyRequest<ResumeSnapshot | undefined>(
+					store.get(snapshotId),
+				);
+				if (snapshot?.resumeId === resumeId) {
+					await promisifyRequest(store.delete(snapshotId));
+				}
+			});
+		} catch (error) {
+			throw new Error(
+				`Failed to delete snapshot from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+}
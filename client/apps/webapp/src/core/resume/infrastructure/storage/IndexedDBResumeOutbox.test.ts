@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { PendingMutation } from "@/core/resume/domain/ResumeSync";
+import { createMockIDBStore, stubIndexedDB } from "@/test-utils/indexed-db";
+import { IndexedDBResumeOutbox } from "./IndexedDBResumeOutbox";
+
+describe("IndexedDBResumeOutbox", () => {
+	let outbox: IndexedDBResumeOutbox;
+	let mockDatabase: ReturnType<typeof stubIndexedDB>;
+
+	const resume = { basics: { name: "John Doe" } } as unknown as Resume;
+
+	const createMutation = (
+		overrides: Partial<PendingMutation> = {},
+	): PendingMutation => ({
+		id: "mutation-1",
+		resumeId: "default",
+		type: "save",
+		resume,
+		base: null,
+		baseUpdatedAt: null,
+		createdAt: "2024-01-01T00:00:00Z",
+		...overrides,
+	});
+
+	beforeEach(() => {
+		mockDatabase = stubIndexedDB(
+			createMockIDBStore<PendingMutation>({ indexedBy: "resumeId" }),
+		);
+
+		outbox = new IndexedDBResumeOutbox();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should list queued mutations in insertion order", async () => {
+		await outbox.add(createMutation());
+		await outbox.add(createMutation({ id: "mutation-2", type: "delete" }));
+
+		const pending = await outbox.list();
+
+		expect(pending.map((mutation) => mutation.id)).toEqual([
+			"mutation-1",
+			"mutation-2",
+		]);
+		expect(mockDatabase.close).toHaveBeenCalledTimes(3);
+	});
+
+	it("should clear the mutations of one resume only", async () => {
+		await outbox.add(createMutation());
+		await outbox.add(createMutation({ id: "mutation-2", resumeId: "other" }));
+
+		await outbox.clear("default");
+
+		const pending = await outbox.list();
+		expect(pending.map((mutation) => mutation.id)).toEqual(["mutation-2"]);
+	});
+
+	it("should wrap database errors", async () => {
+		vi.stubGlobal("indexedDB", {
+			open: vi.fn(() => {
+				const request = {
+					error: new Error("Blocked"),
+					onerror: null as (() => void) | null,
+				};
+				setTimeout(() => request.onerror?.(), 0);
+				return request;
+			}),
+		});
+
+		await expect(outbox.add(createMutation())).rejects.toThrow(
+			"Failed to queue change in IndexedDB: Failed to open IndexedDB: Blocked",
+		);
+	});
+});
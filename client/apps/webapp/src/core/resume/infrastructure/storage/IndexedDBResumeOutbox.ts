@@ -0,0 +1,117 @@
+import type {
+	PendingMutation,
+	ResumeOutbox,
+} from "@/core/resume/domain/ResumeSync";
+import { promisifyRequest } from "./IndexedDBRequest";
+
+/**
+ * IndexedDB implementation of the sync outbox.
+ *
+ * Mutations are stored under auto-incremented keys, so reading the store back
+ * returns them in the order they were queued. The outbox survives reloads and
+ * browser restarts until the changes reach the server.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new IndexedDBResumeOutbox();
+ * const pending = await outbox.list();
+ * ```
+ */
+export class IndexedDBResumeOutbox implements ResumeOutbox {
+	private readonly dbName = "cvix-sync";
+	private readonly storeName = "outbox";
+	private readonly indexName = "resumeId";
+	private readonly version = 1;
+
+	/**
+	 * Opens or creates the sync database.
+	 *
+	 * @returns Promise resolving to the database instance
+	 * @private
+	 */
+	private async openDatabase(): Promise<IDBDatabase> {
+		return new Promise((resolve, reject) => {
+			const request = indexedDB.open(this.dbName, this.version);
+
+			request.onerror = () => {
+				reject(
+					new Error(`Failed to open IndexedDB: ${request.error?.message}`),
+				);
+			};
+
+			request.onsuccess = () => {
+				resolve(request.result);
+			};
+
+			request.onupgradeneeded = (event) => {
+				const db = (event.target as IDBOpenDBRequest).result;
+
+				if (!db.objectStoreNames.contains(this.storeName)) {
+					const store = db.createObjectStore(this.storeName, {
+						autoIncrement: true,
+					});
+					store.createIndex(this.indexName, "resumeId", { unique: false });
+				}
+			};
+		});
+	}
+
+	/**
+	 * Runs an operation against the outbox store and closes the database afterwards.
+	 *
+	 * @private
+	 */
+	private async withStore<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => Promise<T>,
+	): Promise<T> {
+		const db = await this.openDatabase();
+		try {
+			const transaction = db.transaction([this.storeName], mode);
+			return await operation(transaction.objectStore(this.storeName));
+		} finally {
+			db.close();
+		}
+	}
+
+	async list(): Promise<PendingMutation[]> {
+		try {
+			return await this.withStore("readonly", (store) =>
+				promisifyRequest<PendingMutation[]>(store.getAll()),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to list pending changes from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async add(mutation: PendingMutation): Promise<void> {
+		try {
+			await this.withStore("readwrite", (store) =>
+				promisifyRequest(store.add(mutation)),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to queue change in IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async clear(resumeId: string): Promise<void> {
+		try {
+			await this.withStore("readwrite", async (store) => {
+				const keys = await promisifyRequest(
+					store.index(this.indexName).getAllKeys(resumeId),
+				);
+				await Promise.all(
+					keys.map((key) => promisifyRequest(store.delete(key))),
+				);
+			});
+		} catch (error) {
+			throw new Error(
+				`Failed to clear pending changes from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+}
@@ -384,4 +384,96 @@ describe("IndexedDBResumeStorage", () => {
 			expect(mockDb.createObjectStore).toHaveBeenCalledWith("resumes");
 		});
 	});
+
+	describe("library", () => {
+		const succeed = (result?: unknown) => {
+			const request = {
+				result,
+				onsuccess: null as ((event: Event) => void) | null,
+				onerror: null as ((event: Event) => void) | null,
+			};
+			setTimeout(() => {
+				if (request.onsuccess) {
+					request.onsuccess({} as Event);
+				}
+			}, 0);
+			return request as unknown as IDBRequest;
+		};
+
+		beforeEach(() => {
+			localStorage.clear();
+			const data = mockStore._store;
+			mockStore.put.mockImplementation((value: unknown, key: string) => {
+				data.set(key, value);
+				return succeed();
+			});
+			mockStore.get.mockImplementation((key: string) => succeed(data.get(key)));
+			mockStore.delete.mockImplementation((key: string) => {
+				data.delete(key);
+				return succeed();
+			});
+			Object.assign(mockStore, {
+				getAllKeys: vi.fn(() => succeed([...data.keys()])),
+				getAll: vi.fn(() => succeed([...data.values()])),
+			});
+		});
+
+		it("should keep the default resume under the legacy key", async () => {
+			await storage.save(mockResume);
+
+			expect(mockStore._store.has("current-resume")).toBe(true);
+			const resumes = await storage.list();
+			expect(resumes).toHaveLength(1);
+			expect(resumes[0]?.id).toBe("default");
+			expect(resumes[0]?.title).toBe("Software Engineer");
+		});
+
+		it("should create resumes with their own document and metadata", async () => {
+			const created = await storage.create(mockResume, "Frontend");
+
+			expect(mockStore._store.has(`resume:${created.id}`)).toBe(true);
+			expect(mockStore._store.has(`meta:${created.id}`)).toBe(true);
+			const resumes = await storage.list();
+			expect(resumes).toEqual([created]);
+			expect((await storage.loadById(created.id)).data).toEqual(mockResume);
+		});
+
+		it("should save to the active resume", async () => {
+			const created = await storage.create(mockResume, "Frontend");
+			storage.setActiveResumeId(created.id);
+
+			await storage.save({
+				...mockResume,
+				basics: { ...mockResume.basics, name: "Jane Smith" },
+			});
+
+			expect(storage.getActiveResumeId()).toBe(created.id);
+			expect((await storage.load()).data?.basics.name).toBe("Jane Smith");
+			expect(mockStore._store.has("current-resume")).toBe(false);
+		});
+
+		it("should duplicate and rename resumes", async () => {
+			const created = await storage.create(mockResume, "Original");
+
+			const copy = await storage.duplicate(created.id, "Copy");
+			const renamed = await storage.rename(copy.id, "Renamed");
+
+			expect(renamed.id).toBe(copy.id);
+			expect(renamed.title).toBe("Renamed");
+			expect(renamed.createdAt).toBe(copy.createdAt);
+			await expect(storage.rename("missing", "Name")).rejects.toThrow(
+				/Failed to rename resume in IndexedDB/,
+			);
+		});
+
+		it("should delete resumes and reset the active one", async () => {
+			const created = await storage.create(mockResume, "Temporary");
+			storage.setActiveResumeId(created.id);
+
+			await storage.delete(created.id);
+
+			expect(mockStore._store.size).toBe(0);
+			expect(storage.getActiveResumeId()).toBe("default");
+		});
+	});
 });
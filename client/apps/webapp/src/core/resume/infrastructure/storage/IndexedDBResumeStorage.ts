@@ -1,10 +1,31 @@
 import type { Resume } from "@/core/resume/domain/Resume";
-import type {
-	PartialResume,
-	PersistenceResult,
-	ResumeStorage,
-	StorageType,
+import {
+	DEFAULT_RESUME_ID,
+	deriveResumeTitle,
+	type PartialResume,
+	type PersistenceResult,
+	type ResumeStorage,
+	type ResumeSummary,
+	type StorageType,
+	sortResumeSummaries,
 } from "@/core/resume/domain/ResumeStorage";
+import { promisifyRequest } from "./IndexedDBRequest";
+
+/**
+ * Shape of a resume document in the object store.
+ */
+interface StoredResume {
+	resume: Resume | PartialResume;
+	timestamp: string;
+}
+
+/**
+ * Shape of the library metadata kept next to each resume document.
+ */
+interface StoredResumeMeta {
+	title: string;
+	createdAt: string;
+}
 
 /**
  * IndexedDB implementation for resume persistence.
@@ -12,6 +33,9 @@ import type {
  * Uses the browser's IndexedDB API for structured, asynchronous storage.
  * Ideal for large resume data or when needing to store multiple versions.
  *
+ * The default resume keeps the original `current-resume` key. Other resumes
+ * are stored under `resume:{id}`, with their title kept under `meta:{id}`.
+ *
  * Best for:
  * - Large resume files with extensive data
  * - Storing multiple resume versions or drafts
@@ -30,6 +54,7 @@ export class IndexedDBResumeStorage implements ResumeStorage {
 	private readonly storeName = "resumes";
 	private readonly version = 1;
 	private readonly key = "current-resume";
+	private readonly activeIdKey = "cvix:indexeddb:active-resume-id";
 
 	/**
 	 * Opens or creates the IndexedDB database.
@@ -62,41 +87,63 @@ export class IndexedDBResumeStorage implements ResumeStorage {
 		});
 	}
 
+	/**
+	 * Runs an operation against the object store and closes the database afterwards.
+	 *
+	 * @private
+	 */
+	private async withStore<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => Promise<T>,
+	): Promise<T> {
+		const db = await this.openDatabase();
+		try {
+			const transaction = db.transaction([this.storeName], mode);
+			return await operation(transaction.objectStore(this.storeName));
+		} finally {
+			db.close();
+		}
+	}
+
+	private documentKey(id: string): string {
+		return id === DEFAULT_RESUME_ID ? this.key : `resume:${id}`;
+	}
+
+	private metaKey(id: string): string {
+		return `meta:${id}`;
+	}
+
+	/**
+	 * Maps an object store key back to a resume ID, or null for non-document keys.
+	 */
+	private idFromKey(key: IDBValidKey): string | null {
+		if (key === this.key) return DEFAULT_RESUME_ID;
+		if (typeof key === "string" && key.startsWith("resume:")) {
+			return key.slice("resume:".length);
+		}
+		return null;
+	}
+
 	async save(
 		resume: Resume | PartialResume,
 	): Promise<PersistenceResult<Resume | PartialResume>> {
 		try {
-			const db = await this.openDatabase();
-			const transaction = db.transaction([this.storeName], "readwrite");
-			const store = transaction.objectStore(this.storeName);
-
 			const timestamp = new Date().toISOString();
-			const dataToStore = {
+			const dataToStore: StoredResume = {
 				resume,
 				timestamp,
 			};
+			const key = this.documentKey(this.getActiveResumeId());
 
-			return new Promise((resolve, reject) => {
-				const request = store.put(dataToStore, this.key);
-
-				request.onsuccess = () => {
-					db.close();
-					resolve({
-						data: resume,
-						timestamp,
-						storageType: "indexeddb",
-					});
-				};
+			await this.withStore("readwrite", (store) =>
+				promisifyRequest(store.put(dataToStore, key)),
+			);
 
-				request.onerror = () => {
-					db.close();
-					reject(
-						new Error(
-							`Failed to save resume to IndexedDB: ${request.error?.message}`,
-						),
-					);
-				};
-			});
+			return {
+				data: resume,
+				timestamp,
+				storageType: "indexeddb",
+			};
 		} catch (error) {
 			throw new Error(
 				`Failed to save resume to IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -105,37 +152,68 @@ export class IndexedDBResumeStorage implements ResumeStorage {
 	}
 
 	async load(): Promise<PersistenceResult<Resume | null>> {
+		return this.loadById(this.getActiveResumeId());
+	}
+
+	async clear(): Promise<void> {
 		try {
-			const db = await this.openDatabase();
-			const transaction = db.transaction([this.storeName], "readonly");
-			const store = transaction.objectStore(this.storeName);
-
-			return new Promise((resolve, reject) => {
-				const request = store.get(this.key);
-
-				request.onsuccess = () => {
-					db.close();
-					const result = request.result as
-						| { resume: Resume; timestamp: string }
-						| undefined;
-
-					resolve({
-						data: result?.resume ?? null,
-						timestamp: new Date().toISOString(),
-						storageType: "indexeddb",
-						metadata: result ? { savedAt: result.timestamp } : undefined,
-					});
-				};
+			await this.remove(this.getActiveResumeId());
+		} catch (error) {
+			throw new Error(
+				`Failed to clear resume from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
 
-				request.onerror = () => {
-					db.close();
-					reject(
-						new Error(
-							`Failed to load resume from IndexedDB: ${request.error?.message}`,
-						),
-					);
-				};
-			});
+	async list(): Promise<ResumeSummary[]> {
+		try {
+			const [keys, values] = await this.withStore("readonly", (store) =>
+				Promise.all([
+					promisifyRequest(store.getAllKeys()),
+					promisifyRequest(store.getAll()),
+				]),
+			);
+			const entries = new Map<IDBValidKey, unknown>(
+				keys.map((key, index) => [key, values[index]]),
+			);
+
+			const summaries: ResumeSummary[] = [];
+			for (const [key, value] of entries) {
+				const id = this.idFromKey(key);
+				if (!id) continue;
+				const document = value as StoredResume;
+				const meta = entries.get(this.metaKey(id)) as
+					| StoredResumeMeta
+					| undefined;
+				summaries.push({
+					id,
+					title: meta?.title ?? deriveResumeTitle(document.resume),
+					createdAt: meta?.createdAt ?? document.timestamp,
+					updatedAt: document.timestamp,
+				});
+			}
+			return sortResumeSummaries(summaries);
+		} catch (error) {
+			throw new Error(
+				`Failed to list resumes from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async loadById(id: string): Promise<PersistenceResult<Resume | null>> {
+		try {
+			const result = await this.withStore("readonly", (store) =>
+				promisifyRequest<StoredResume | undefined>(
+					store.get(this.documentKey(id)),
+				),
+			);
+
+			return {
+				data: (result?.resume as Resume | undefined) ?? null,
+				timestamp: new Date().toISOString(),
+				storageType: "indexeddb",
+				metadata: result ? { savedAt: result.timestamp } : undefined,
+			};
 		} catch (error) {
 			throw new Error(
 				`Failed to load resume from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -143,36 +221,112 @@ export class IndexedDBResumeStorage implements ResumeStorage {
 		}
 	}
 
-	async clear(): Promise<void> {
+	async create(resume: Resume, title: string): Promise<ResumeSummary> {
 		try {
-			const db = await this.openDatabase();
-			const transaction = db.transaction([this.storeName], "readwrite");
-			const store = transaction.objectStore(this.storeName);
+			const id = crypto.randomUUID();
+			const timestamp = new Date().toISOString();
+			const document: StoredResume = { resume, timestamp };
+			const meta: StoredResumeMeta = { title, createdAt: timestamp };
 
-			return new Promise((resolve, reject) => {
-				const request = store.delete(this.key);
+			await this.withStore("readwrite", (store) =>
+				Promise.all([
+					promisifyRequest(store.put(document, this.documentKey(id))),
+					promisifyRequest(store.put(meta, this.metaKey(id))),
+				]),
+			);
 
-				request.onsuccess = () => {
-					db.close();
-					resolve();
-				};
+			return { id, title, createdAt: timestamp, updatedAt: timestamp };
+		} catch (error) {
+			throw new Error(
+				`Failed to create resume in IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async duplicate(id: string, title: string): Promise<ResumeSummary> {
+		const { data } = await this.loadById(id);
+		if (!data) {
+			throw new Error(`Failed to duplicate resume: Resume not found: ${id}`);
+		}
+		return this.create(data, title);
+	}
 
-				request.onerror = () => {
-					db.close();
-					reject(
-						new Error(
-							`Failed to clear resume from IndexedDB: ${request.error?.message}`,
-						),
-					);
+	async rename(id: string, title: string): Promise<ResumeSummary> {
+		try {
+			return await this.withStore("readwrite", async (store) => {
+				const [document, meta] = await Promise.all([
+					promisifyRequest<StoredResume | undefined>(
+						store.get(this.documentKey(id)),
+					),
+					promisifyRequest<StoredResumeMeta | undefined>(
+						store.get(this.metaKey(id)),
+					),
+				]);
+				if (!document) {
+					throw new Error(`Resume not found: ${id}`);
+				}
+				const updatedMeta: StoredResumeMeta = {
+					title,
+					createdAt: meta?.createdAt ?? document.timestamp,
+				};
+				await promisifyRequest(store.put(updatedMeta, this.metaKey(id)));
+				return {
+					id,
+					title,
+					createdAt: updatedMeta.createdAt,
+					updatedAt: document.timestamp,
 				};
 			});
 		} catch (error) {
 			throw new Error(
-				`Failed to clear resume from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+				`Failed to rename resume in IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async delete(id: string): Promise<void> {
+		try {
+			await this.remove(id);
+		} catch (error) {
+			throw new Error(
+				`Failed to delete resume from IndexedDB: ${error instanceof Error ? error.message : "Unknown error"}`,
 			);
 		}
 	}
 
+	/**
+	 * Removes a resume document and its metadata, resetting the active ID if needed.
+	 *
+	 * @private
+	 */
+	private async remove(id: string): Promise<void> {
+		await this.withStore("readwrite", (store) =>
+			Promise.all([
+				promisifyRequest(store.delete(this.documentKey(id))),
+				promisifyRequest(store.delete(this.metaKey(id))),
+			]),
+		);
+		if (this.getActiveResumeId() === id) {
+			localStorage.removeItem(this.activeIdKey);
+		}
+	}
+
+	getActiveResumeId(): string {
+		try {
+			return localStorage.getItem(this.activeIdKey) ?? DEFAULT_RESUME_ID;
+		} catch {
+			return DEFAULT_RESUME_ID;
+		}
+	}
+
+	setActiveResumeId(id: string): void {
+		try {
+			localStorage.setItem(this.activeIdKey, id);
+		} catch {
+			// localStorage might be unavailable, the default resume stays active
+		}
+	}
+
 	type(): StorageType {
 		return "indexeddb";
 	}
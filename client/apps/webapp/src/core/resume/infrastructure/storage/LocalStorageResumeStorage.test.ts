@@ -226,4 +226,76 @@ describe("LocalStorageResumeStorage", () => {
 			expect(emptyResult.data).toBeNull();
 		});
 	});
+
+	describe("library", () => {
+		it("should list the legacy resume as the default entry", async () => {
+			localStorage.setItem("cvix:resume", JSON.stringify(mockResume));
+
+			const resumes = await storage.list();
+
+			expect(resumes).toHaveLength(1);
+			expect(resumes[0]?.id).toBe("default");
+			expect(resumes[0]?.title).toBe("Software Engineer");
+		});
+
+		it("should create resumes without touching the active one", async () => {
+			await storage.save(mockResume);
+
+			const created = await storage.create(mockResume, "Frontend");
+			const resumes = await storage.list();
+
+			expect(created.title).toBe("Frontend");
+			expect(storage.getActiveResumeId()).toBe("default");
+			expect(resumes.map((entry) => entry.id).sort()).toEqual(
+				["default", created.id].sort(),
+			);
+			expect((await storage.loadById(created.id)).data).toEqual(mockResume);
+		});
+
+		it("should save and load the active resume", async () => {
+			const created = await storage.create(mockResume, "Frontend");
+			storage.setActiveResumeId(created.id);
+
+			const updated = {
+				...mockResume,
+				basics: { ...mockResume.basics, name: "Jane Smith" },
+			};
+			await storage.save(updated);
+
+			expect((await storage.load()).data?.basics.name).toBe("Jane Smith");
+			expect(
+				JSON.parse(localStorage.getItem("cvix:resume") ?? "null"),
+			).toBeNull();
+		});
+
+		it("should duplicate and rename resumes", async () => {
+			const created = await storage.create(mockResume, "Original");
+
+			const copy = await storage.duplicate(created.id, "Copy");
+			const renamed = await storage.rename(copy.id, "Renamed");
+
+			expect(copy.id).not.toBe(created.id);
+			expect(renamed.title).toBe("Renamed");
+			expect((await storage.loadById(copy.id)).data).toEqual(mockResume);
+		});
+
+		it("should reject duplicating or renaming a missing resume", async () => {
+			await expect(storage.duplicate("missing", "Copy")).rejects.toThrow(
+				/Resume not found/,
+			);
+			await expect(storage.rename("missing", "Name")).rejects.toThrow(
+				/Resume not found/,
+			);
+		});
+
+		it("should delete resumes and fall back to the default one", async () => {
+			const created = await storage.create(mockResume, "Temporary");
+			storage.setActiveResumeId(created.id);
+
+			await storage.delete(created.id);
+
+			expect(await storage.list()).toEqual([]);
+			expect(storage.getActiveResumeId()).toBe("default");
+		});
+	});
 });
@@ -3,8 +3,10 @@ import type {
 	PartialResume,
 	PersistenceResult,
 	ResumeStorage,
+	ResumeSummary,
 	StorageType,
 } from "@/core/resume/domain/ResumeStorage";
+import { WebStorageResumeLibrary } from "./WebStorageResumeLibrary";
 
 /**
  * Local storage implementation for resume persistence.
@@ -25,16 +27,17 @@ import type {
  * ```
  */
 export class LocalStorageResumeStorage implements ResumeStorage {
-	private readonly key = "cvix:resume";
+	private readonly library: WebStorageResumeLibrary;
 
-	constructor(private readonly storage: Storage = window.localStorage) {}
+	constructor(storage: Storage = window.localStorage) {
+		this.library = new WebStorageResumeLibrary(storage);
+	}
 
 	async save(
 		resume: Resume | PartialResume,
 	): Promise<PersistenceResult<Resume | PartialResume>> {
 		try {
-			const serialized = JSON.stringify(resume);
-			this.storage.setItem(this.key, serialized);
+			this.library.writeDocument(this.library.getActiveId(), resume);
 
 			return {
 				data: resume,
@@ -50,10 +53,8 @@ export class LocalStorageResumeStorage implements ResumeStorage {
 
 	async load(): Promise<PersistenceResult<Resume | null>> {
 		try {
-			const data = this.storage.getItem(this.key);
-
 			return {
-				data: data ? (JSON.parse(data) as Resume) : null,
+				data: this.library.readDocument(this.library.getActiveId()),
 				timestamp: new Date().toISOString(),
 				storageType: "local",
 			};
@@ -66,7 +67,7 @@ export class LocalStorageResumeStorage implements ResumeStorage {
 
 	async clear(): Promise<void> {
 		try {
-			this.storage.removeItem(this.key);
+			this.library.removeDocument(this.library.getActiveId());
 		} catch (error) {
 			throw new Error(
 				`Failed to clear resume from local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -74,6 +75,76 @@ export class LocalStorageResumeStorage implements ResumeStorage {
 		}
 	}
 
+	async list(): Promise<ResumeSummary[]> {
+		try {
+			return this.library.list();
+		} catch (error) {
+			throw new Error(
+				`Failed to list resumes from local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async loadById(id: string): Promise<PersistenceResult<Resume | null>> {
+		try {
+			return {
+				data: this.library.readDocument(id),
+				timestamp: new Date().toISOString(),
+				storageType: "local",
+			};
+		} catch (error) {
+			throw new Error(
+				`Failed to load resume from local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async create(resume: Resume, title: string): Promise<ResumeSummary> {
+		try {
+			return this.library.writeDocument(crypto.randomUUID(), resume, title);
+		} catch (error) {
+			throw new Error(
+				`Failed to create resume in local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async duplicate(id: string, title: string): Promise<ResumeSummary> {
+		const { data } = await this.loadById(id);
+		if (!data) {
+			throw new Error(`Failed to duplicate resume: Resume not found: ${id}`);
+		}
+		return this.create(data, title);
+	}
+
+	async rename(id: string, title: string): Promise<ResumeSummary> {
+		try {
+			return this.library.renameDocument(id, title);
+		} catch (error) {
+			throw new Error(
+				`Failed to rename resume in local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async delete(id: string): Promise<void> {
+		try {
+			this.library.removeDocument(id);
+		} catch (error) {
+			throw new Error(
+				`Failed to delete resume from local storage: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	getActiveResumeId(): string {
+		return this.library.getActiveId();
+	}
+
+	setActiveResumeId(id: string): void {
+		this.library.setActiveId(id);
+	}
+
 	type(): StorageType {
 		return "local";
 	}
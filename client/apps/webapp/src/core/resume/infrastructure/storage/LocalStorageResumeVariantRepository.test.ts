@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResumeVariant } from "@/core/resume/domain/ResumeVariant";
+import { createDefaultVisibility } from "@/core/resume/domain/SectionVisibility";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { LocalStorageResumeVariantRepository } from "./LocalStorageResumeVariantRepository";
+
+const createVariant = (
+	id: string,
+	baseResumeId = "resume-1",
+): ResumeVariant => ({
+	id,
+	baseResumeId,
+	name: `Variant ${id}`,
+	visibility: createDefaultVisibility(id, createTestResume()),
+	hiddenItems: {},
+	order: {},
+	overrides: {},
+	createdAt: "2026-01-01T00:00:00.000Z",
+	updatedAt: "2026-01-01T00:00:00.000Z",
+});
+
+describe("LocalStorageResumeVariantRepository", () => {
+	let repository: LocalStorageResumeVariantRepository;
+
+	beforeEach(() => {
+		localStorage.clear();
+		repository = new LocalStorageResumeVariantRepository();
+	});
+
+	it("should save and list the variants of a resume", async () => {
+		await repository.save(createVariant("a"));
+		await repository.save(createVariant("b"));
+		await repository.save(createVariant("c", "resume-2"));
+
+		const variants = await repository.list("resume-1");
+
+		expect(variants.map((variant) => variant.id)).toEqual(["a", "b"]);
+	});
+
+	it("should replace an existing variant", async () => {
+		await repository.save(createVariant("a"));
+		await repository.save({ ...createVariant("a"), name: "Renamed" });
+
+		expect((await repository.get("resume-1", "a"))?.name).toBe("Renamed");
+		expect(await repository.list("resume-1")).toHaveLength(1);
+	});
+
+	it("should return null for an unknown variant", async () => {
+		expect(await repository.get("resume-1", "missing")).toBeNull();
+	});
+
+	it("should remove the storage key with the last variant", async () => {
+		await repository.save(createVariant("a"));
+
+		await repository.delete("resume-1", "a");
+
+		expect(localStorage.getItem("cvix:resume-variants:resume-1")).toBeNull();
+	});
+
+	it("should ignore corrupted data", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		localStorage.setItem("cvix:resume-variants:resume-1", "{not json");
+
+		expect(await repository.list("resume-1")).toEqual([]);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
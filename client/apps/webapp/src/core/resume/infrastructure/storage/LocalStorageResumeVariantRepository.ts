@@ -0,0 +1,81 @@
+import type {
+	ResumeVariant,
+	ResumeVariantRepository,
+} from "@/core/resume/domain/ResumeVariant";
+
+const VARIANTS_KEY = "cvix:resume-variants";
+
+/**
+ * Web Storage implementation of the resume variant repository.
+ *
+ * The variants of each base resume are kept together under
+ * `cvix:resume-variants:{baseResumeId}`, so removing a resume's variants is a
+ * single key removal.
+ *
+ * @example
+ * ```typescript
+ * const repository = new LocalStorageResumeVariantRepository();
+ * const variants = await repository.list("default");
+ * ```
+ */
+export class LocalStorageResumeVariantRepository
+	implements ResumeVariantRepository
+{
+	constructor(private readonly storage: Storage = localStorage) {}
+
+	private key(baseResumeId: string): string {
+		return `${VARIANTS_KEY}:${baseResumeId}`;
+	}
+
+	private read(baseResumeId: string): ResumeVariant[] {
+		const raw = this.storage.getItem(this.key(baseResumeId));
+		if (!raw) return [];
+		try {
+			const parsed: unknown = JSON.parse(raw);
+			return Array.isArray(parsed) ? (parsed as ResumeVariant[]) : [];
+		} catch (error) {
+			console.warn("Failed to parse resume variants:", error);
+			return [];
+		}
+	}
+
+	private write(baseResumeId: string, variants: ResumeVariant[]): void {
+		if (variants.length === 0) {
+			this.storage.removeItem(this.key(baseResumeId));
+			return;
+		}
+		this.storage.setItem(this.key(baseResumeId), JSON.stringify(variants));
+	}
+
+	async list(baseResumeId: string): Promise<ResumeVariant[]> {
+		return this.read(baseResumeId);
+	}
+
+	async get(
+		baseResumeId: string,
+		variantId: string,
+	): Promise<ResumeVariant | null> {
+		return (
+			this.read(baseResumeId).find((variant) => variant.id === variantId) ??
+			null
+		);
+	}
+
+	async save(variant: ResumeVariant): Promise<void> {
+		const variants = this.read(variant.baseResumeId);
+		const index = variants.findIndex((existing) => existing.id === variant.id);
+		if (index >= 0) {
+			variants[index] = variant;
+		} else {
+			variants.push(variant);
+		}
+		this.write(variant.baseResumeId, variants);
+	}
+
+	async delete(baseResumeId: string, variantId: string): Promise<void> {
+		this.write(
+			baseResumeId,
+			this.read(baseResumeId).filter((variant) => variant.id !== variantId),
+		);
+	}
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PdfTemplateUsageStorageData } from "./PdfTemplateUsageStorage";
+
+const STORAGE_KEY = "cvix-pdf-template-usage";
+
+describe("PdfTemplateUsageStorage", () => {
+	let storage: PdfTemplateUsageStorageData;
+
+	beforeEach(() => {
+		localStorage.clear();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2026-03-01T10:00:00.000Z"));
+		storage = new PdfTemplateUsageStorageData();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should record the template last used per resume", () => {
+		storage.record("resume-1", "modern");
+		storage.record("resume-2", "classic");
+		storage.record("resume-1", "engineering");
+
+		expect(storage.get("resume-1")).toEqual({
+			templateId: "engineering",
+			generatedAt: "2026-03-01T10:00:00.000Z",
+		});
+		expect(storage.get("resume-2")?.templateId).toBe("classic");
+		expect(storage.get("resume-3")).toBeNull();
+	});
+
+	it("should drop the entry once no resume is left", () => {
+		storage.record("resume-1", "modern");
+		storage.record("resume-2", "classic");
+
+		storage.remove("resume-1");
+		expect(storage.get("resume-1")).toBeNull();
+		expect(storage.get("resume-2")).not.toBeNull();
+
+		storage.remove("resume-2");
+		expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+	});
+
+	it.each([
+		["invalid JSON", "{not json"],
+		["a list", "[]"],
+	])("should have no usage when the entry is %s", (_, stored) => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		localStorage.setItem(STORAGE_KEY, stored);
+
+		expect(storage.get("resume-1")).toBeNull();
+	});
+
+	it("should not throw when localStorage is full", () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+			throw new DOMException("Quota exceeded", "QuotaExceededError");
+		});
+
+		expect(() => storage.record("resume-1", "modern")).not.toThrow();
+		expect(consoleError).toHaveBeenCalledWith(
+			"Failed to save PDF template usage:",
+			expect.any(DOMException),
+		);
+	});
+});
@@ -0,0 +1,78 @@
+import type {
+	PdfTemplateUsage,
+	PdfTemplateUsageRepository,
+} from "../../domain/ResumePortfolio";
+
+/**
+ * Storage service for the template last used to download each resume as PDF.
+ * All resumes share one localStorage entry.
+ */
+export class PdfTemplateUsageStorageData implements PdfTemplateUsageRepository {
+	private readonly storageKey = "cvix-pdf-template-usage";
+
+	private read(): Record<string, PdfTemplateUsage> {
+		try {
+			const stored = localStorage.getItem(this.storageKey);
+			if (!stored) {
+				return {};
+			}
+			const usage: unknown = JSON.parse(stored);
+			return usage && typeof usage === "object" && !Array.isArray(usage)
+				? (usage as Record<string, PdfTemplateUsage>)
+				: {};
+		} catch (error) {
+			console.error("Failed to load PDF template usage:", error);
+			return {};
+		}
+	}
+
+	private write(usage: Record<string, PdfTemplateUsage>): void {
+		try {
+			if (Object.keys(usage).length === 0) {
+				localStorage.removeItem(this.storageKey);
+			} else {
+				localStorage.setItem(this.storageKey, JSON.stringify(usage));
+			}
+		} catch (error) {
+			console.error("Failed to save PDF template usage:", error);
+		}
+	}
+
+	/**
+	 * Gets the template last used for a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @returns The usage, or null if the resume was never downloaded
+	 */
+	get(resumeId: string): PdfTemplateUsage | null {
+		return this.read()[resumeId] ?? null;
+	}
+
+	/**
+	 * Records a PDF download of a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param templateId - The template used
+	 */
+	record(resumeId: string, templateId: string): void {
+		this.write({
+			...this.read(),
+			[resumeId]: { templateId, generatedAt: new Date().toISOString() },
+		});
+	}
+
+	/**
+	 * Forgets the usage of a resume.
+	 *
+	 * @param resumeId - The resume ID
+	 */
+	remove(resumeId: string): void {
+		const { [resumeId]: _removed, ...rest } = this.read();
+		this.write(rest);
+	}
+}
+
+/**
+ * Singleton instance of the storage service.
+ */
+export const pdfTemplateUsageStorage = new PdfTemplateUsageStorageData();
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeSnapshot } from "@/core/resume/domain/ResumeSnapshot";
+import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
+import type {
+	ResumeHttpClient,
+	ResumeSnapshotResponse,
+} from "../http/ResumeHttpClient";
+import { RemoteResumeHistoryRepository } from "./RemoteResumeHistoryRepository";
+
+vi.mock("@/shared/WorkspaceContext", () => ({
+	getCurrentWorkspaceId: vi.fn(() => "9dcb2241-6840-4e77-98a3-ddfa89c7d032"),
+}));
+
+describe("RemoteResumeHistoryRepository", () => {
+	let mockClient: ResumeHttpClient;
+	let repository: RemoteResumeHistoryRepository;
+
+	const resume = {
+		basics: { name: "John Doe" },
+	} as unknown as Resume;
+
+	const olderResponse: ResumeSnapshotResponse = {
+		id: "snap-1",
+		resumeId: "resume-1",
+		reason: "save",
+		label: null,
+		fingerprint: "aaaaaaaa",
+		createdAt: "2024-01-01T00:00:00Z",
+	};
+
+	const newerResponse: ResumeSnapshotResponse = {
+		...olderResponse,
+		id: "snap-2",
+		reason: "checkpoint",
+		label: "Before tailoring",
+		createdAt: "2024-02-01T00:00:00Z",
+	};
+
+	beforeEach(() => {
+		vi.mocked(getCurrentWorkspaceId).mockReturnValue(
+			"9dcb2241-6840-4e77-98a3-ddfa89c7d032",
+		);
+		mockClient = {
+			listSnapshots: vi.fn(),
+			getSnapshot: vi.fn(),
+			createSnapshot: vi.fn(),
+			deleteSnapshot: vi.fn(),
+		} as Partial<ResumeHttpClient> as ResumeHttpClient;
+		repository = new RemoteResumeHistoryRepository(mockClient);
+	});
+
+	it("lists snapshots most recent first", async () => {
+		vi.mocked(mockClient.listSnapshots).mockResolvedValue([
+			olderResponse,
+			newerResponse,
+		]);
+
+		const snapshots = await repository.list("resume-1");
+
+		expect(mockClient.listSnapshots).toHaveBeenCalledWith("resume-1");
+		expect(snapshots.map((snapshot) => snapshot.id)).toEqual([
+			"snap-2",
+			"snap-1",
+		]);
+	});
+
+	it("returns an empty history for a resume unknown to the server", async () => {
+		vi.mocked(mockClient.listSnapshots).mockRejectedValue({
+			response: { status: 404 },
+		});
+
+		expect(await repository.list("resume-1")).toEqual([]);
+	});
+
+	it("returns snapshots with their content", async () => {
+		vi.mocked(mockClient.getSnapshot).mockResolvedValue({
+			...olderResponse,
+			content: resume,
+		});
+
+		const snapshot = await repository.get("resume-1", "snap-1");
+
+		expect(snapshot?.resume).toEqual(resume);
+		expect(snapshot?.fingerprint).toBe("aaaaaaaa");
+	});
+
+	it("returns null for a missing snapshot", async () => {
+		vi.mocked(mockClient.getSnapshot).mockRejectedValue({
+			response: { status: 404 },
+		});
+
+		expect(await repository.get("resume-1", "missing")).toBeNull();
+	});
+
+	it("stores and deletes snapshots through the client", async () => {
+		const snapshot: ResumeSnapshot = {
+			...olderResponse,
+			resume,
+		};
+
+		await repository.add(snapshot);
+		await repository.delete("resume-1", "snap-1");
+
+		expect(mockClient.createSnapshot).toHaveBeenCalledWith(
+			"resume-1",
+			"snap-1",
+			snapshot,
+		);
+		expect(mockClient.deleteSnapshot).toHaveBeenCalledWith(
+			"resume-1",
+			"snap-1",
+		);
+	});
+
+	it("requires a selected workspace", async () => {
+		vi.mocked(getCurrentWorkspaceId).mockReturnValue(null);
+
+		await expect(repository.list("resume-1")).rejects.toThrow(
+			/No workspace selected/,
+		);
+	});
+});
@@ -0,0 +1,87 @@
+import {
+	type ResumeHistoryRepository,
+	type ResumeSnapshot,
+	type ResumeSnapshotSummary,
+	sortSnapshots,
+} from "@/core/resume/domain/ResumeSnapshot";
+import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
+import {
+	ResumeHttpClient,
+	type ResumeSnapshotResponse,
+} from "../http/ResumeHttpClient";
+import { isNotFoundError } from "./RemoteResumeStorage";
+
+/**
+ * Map a backend snapshot response to a domain snapshot summary
+ */
+function toSummary(response: ResumeSnapshotResponse): ResumeSnapshotSummary {
+	return {
+		id: response.id,
+		resumeId: response.resumeId,
+		createdAt: response.createdAt,
+		reason: response.reason,
+		label: response.label,
+		fingerprint: response.fingerprint,
+	};
+}
+
+/**
+ * Remote implementation of the resume history repository.
+ *
+ * Snapshots are stored next to the resume document on the server, so history
+ * follows the user across devices. Like {@link RemoteResumeStorage}, the
+ * workspace is sent via the X-Workspace-Id header by the BaseHttpClient.
+ */
+export class RemoteResumeHistoryRepository implements ResumeHistoryRepository {
+	constructor(
+		private readonly client: ResumeHttpClient = new ResumeHttpClient(),
+	) {}
+
+	async list(resumeId: string): Promise<ResumeSnapshotSummary[]> {
+		this.validateWorkspaceContext();
+		try {
+			const snapshots = await this.client.listSnapshots(resumeId);
+			return sortSnapshots(snapshots.map(toSummary));
+		} catch (error) {
+			// A resume that was never saved remotely has no history yet
+			if (isNotFoundError(error)) return [];
+			throw error;
+		}
+	}
+
+	async get(
+		resumeId: string,
+		snapshotId: string,
+	): Promise<ResumeSnapshot | null> {
+		this.validateWorkspaceContext();
+		try {
+			const response = await this.client.getSnapshot(resumeId, snapshotId);
+			if (!response.content) return null;
+			return { ...toSummary(response), resume: response.content };
+		} catch (error) {
+			if (isNotFoundError(error)) return null;
+			throw error;
+		}
+	}
+
+	async add(snapshot: ResumeSnapshot): Promise<void> {
+		this.validateWorkspaceContext();
+		await this.client.createSnapshot(snapshot.resumeId, snapshot.id, snapshot);
+	}
+
+	async delete(resumeId: string, snapshotId: string): Promise<void> {
+		this.validateWorkspaceContext();
+		await this.client.deleteSnapshot(resumeId, snapshotId);
+	}
+
+	/**
+	 * Validates that a workspace is selected before performing remote operations.
+	 */
+	private validateWorkspaceContext(): void {
+		if (!getCurrentWorkspaceId()) {
+			throw new Error(
+				"Remote history operation failed: No workspace selected. You must select a workspace before accessing resume history in the cloud.",
+			);
+		}
+	}
+}
@@ -1,5 +1,9 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	PendingMutation,
+	ResumeOutbox,
+} from "@/core/resume/domain/ResumeSync";
 import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
 import type {
 	ResumeDocumentResponse,
@@ -349,4 +353,308 @@ describe("RemoteResumeStorage", () => {
 			expect(result.metadata?.workspaceId).toBe(mockResponse.workspaceId);
 		});
 	});
+
+	describe("library", () => {
+		it("lists workspace resumes as summaries, most recent first", async () => {
+			(mockClient.listResumes as ReturnType<typeof vi.fn>).mockResolvedValue([
+				mockResponse,
+				{
+					...mockResponse,
+					id: "newer-id",
+					title: "",
+					updatedAt: "2024-02-01T00:00:00Z",
+				},
+			]);
+
+			const resumes = await storage.list();
+
+			expect(resumes).toEqual([
+				{
+					id: "newer-id",
+					title: "Software Engineer",
+					createdAt: "2024-01-01T00:00:00Z",
+					updatedAt: "2024-02-01T00:00:00Z",
+				},
+				{
+					id: "test-id",
+					title: "Test Resume",
+					createdAt: "2024-01-01T00:00:00Z",
+					updatedAt: "2024-01-01T00:00:00Z",
+				},
+			]);
+		});
+
+		it("creates a resume with the given title", async () => {
+			(mockClient.createResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+
+			const summary = await storage.create(mockResume, "Test Resume");
+
+			expect(mockClient.createResume).toHaveBeenCalledWith(
+				expect.any(String),
+				mockResume,
+				"Test Resume",
+			);
+			expect(summary.id).toBe("test-id");
+			expect(storage.getActiveResumeId()).toBeNull();
+		});
+
+		it("duplicates a resume by copying its content", async () => {
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+			(mockClient.createResume as ReturnType<typeof vi.fn>).mockResolvedValue({
+				...mockResponse,
+				id: "copy-id",
+				title: "Copy",
+			});
+
+			const summary = await storage.duplicate("test-id", "Copy");
+
+			expect(mockClient.createResume).toHaveBeenCalledWith(
+				expect.any(String),
+				mockResume,
+				"Copy",
+			);
+			expect(summary.id).toBe("copy-id");
+		});
+
+		it("renames a resume keeping its content", async () => {
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+			(mockClient.updateResume as ReturnType<typeof vi.fn>).mockResolvedValue({
+				...mockResponse,
+				title: "Renamed",
+			});
+
+			const summary = await storage.rename("test-id", "Renamed");
+
+			expect(mockClient.updateResume).toHaveBeenCalledWith(
+				"test-id",
+				mockResume,
+				"Renamed",
+			);
+			expect(summary.title).toBe("Renamed");
+		});
+
+		it("returns null data when loading a missing resume by id", async () => {
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockRejectedValue({
+				response: { status: 404 },
+			});
+
+			const result = await storage.loadById("missing");
+
+			expect(result.data).toBeNull();
+		});
+
+		it("switches the active resume and forgets it when deleted", async () => {
+			(mockClient.deleteResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				undefined,
+			);
+
+			storage.setActiveResumeId("test-id");
+			expect(storage.getActiveResumeId()).toBe("test-id");
+			expect(localStorageMock.setItem).toHaveBeenCalledWith(
+				"cvix:remote-resume-id:9dcb2241-6840-4e77-98a3-ddfa89c7d032",
+				"test-id",
+			);
+
+			await storage.delete("test-id");
+
+			expect(mockClient.deleteResume).toHaveBeenCalledWith("test-id");
+			expect(storage.getActiveResumeId()).toBeNull();
+		});
+	});
+
+	describe("offline sync", () => {
+		let queued: PendingMutation[];
+		let outbox: ResumeOutbox;
+
+		const setOnline = (onLine: boolean) => {
+			vi.stubGlobal("navigator", { ...globalThis.navigator, onLine });
+		};
+
+		const withSkills = (...names: string[]): Resume => ({
+			...mockResume,
+			skills: names.map((name) => ({ name, level: "", keywords: [] })),
+		});
+
+		const withEmail = (resume: Resume, email: string): Resume => ({
+			...resume,
+			basics: { ...resume.basics, email },
+		});
+
+		beforeEach(() => {
+			queued = [];
+			outbox = {
+				list: vi.fn(async () => [...queued]),
+				add: vi.fn(async (mutation: PendingMutation) => {
+					queued.push(mutation);
+				}),
+				clear: vi.fn(async (resumeId: string) => {
+					queued = queued.filter((mutation) => mutation.resumeId !== resumeId);
+				}),
+			};
+			config.resumeId = "test-id";
+			storage = new RemoteResumeStorage({ ...config, outbox }, mockClient);
+		});
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		/**
+		 * Loads the server version, then saves an edit while offline
+		 */
+		const editOffline = async (edited: Resume) => {
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+			await storage.load();
+			setOnline(false);
+			await storage.save(edited);
+			setOnline(true);
+		};
+
+		it("queues saves while offline with the server version as base", async () => {
+			const edited = withSkills("Rust");
+
+			await editOffline(edited);
+
+			expect(mockClient.updateResume).not.toHaveBeenCalled();
+			expect(queued).toHaveLength(1);
+			expect(queued[0]).toMatchObject({
+				resumeId: "test-id",
+				type: "save",
+				resume: edited,
+				base: mockResume,
+				baseUpdatedAt: mockResponse.updatedAt,
+			});
+			expect(await storage.pendingChanges()).toBe(1);
+		});
+
+		it("queues saves when the server stays unreachable", async () => {
+			(mockClient.updateResume as ReturnType<typeof vi.fn>).mockRejectedValue({
+				response: { status: 503 },
+			});
+
+			const result = await storage.save(mockResume);
+
+			expect(result.metadata).toMatchObject({ pendingSync: true });
+			expect(queued).toHaveLength(1);
+		});
+
+		it("loads the queued version over the server version", async () => {
+			const edited = withSkills("Rust");
+			await editOffline(edited);
+
+			const result = await storage.load();
+
+			expect(result.data).toEqual(edited);
+			expect(result.metadata).toMatchObject({ pendingSync: true });
+		});
+
+		it("sends queued changes when the server did not change", async () => {
+			const edited = withSkills("Rust");
+			await editOffline(edited);
+			(mockClient.updateResume as ReturnType<typeof vi.fn>).mockResolvedValue({
+				...mockResponse,
+				updatedAt: "2024-01-02T00:00:00Z",
+			});
+
+			const result = await storage.sync();
+
+			expect(mockClient.updateResume).toHaveBeenCalledWith("test-id", edited);
+			expect(result).toEqual({
+				synced: ["test-id"],
+				conflicts: [],
+				pending: 0,
+			});
+		});
+
+		it("merges changes made to different sections on the server", async () => {
+			await editOffline(withSkills("Rust"));
+			const remote = withEmail(mockResume, "server@example.com");
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockResolvedValue({
+				...mockResponse,
+				content: remote,
+				updatedAt: "2024-01-02T00:00:00Z",
+			});
+			(mockClient.updateResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+
+			await storage.sync();
+
+			expect(mockClient.updateResume).toHaveBeenCalledWith("test-id", {
+				...withSkills("Rust"),
+				basics: remote.basics,
+			});
+			expect(queued).toHaveLength(0);
+		});
+
+		it("reports conflicts and keeps them queued until resolved", async () => {
+			await editOffline(withSkills("Rust"));
+			const remote = withSkills("Go");
+			(mockClient.getResume as ReturnType<typeof vi.fn>).mockResolvedValue({
+				...mockResponse,
+				content: remote,
+				updatedAt: "2024-01-02T00:00:00Z",
+			});
+
+			const result = await storage.sync();
+
+			expect(mockClient.updateResume).not.toHaveBeenCalled();
+			expect(result.pending).toBe(1);
+			expect(result.conflicts).toEqual([
+				{
+					resumeId: "test-id",
+					base: mockResume,
+					local: withSkills("Rust"),
+					remote,
+					remoteUpdatedAt: "2024-01-02T00:00:00Z",
+					sections: ["skills"],
+				},
+			]);
+
+			const conflict = result.conflicts[0];
+			if (!conflict) throw new Error("Expected a conflict");
+			(mockClient.updateResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				mockResponse,
+			);
+			const resolved = await storage.resolveConflict(conflict, {
+				skills: "remote",
+			});
+
+			expect(resolved.data).toEqual(remote);
+			expect(mockClient.updateResume).toHaveBeenCalledWith("test-id", remote);
+			expect(queued).toHaveLength(0);
+		});
+
+		it("replays deletions and stops at connectivity errors", async () => {
+			setOnline(false);
+			await storage.delete("other-id");
+			setOnline(true);
+			(mockClient.deleteResume as ReturnType<typeof vi.fn>).mockRejectedValue({
+				isAxiosError: true,
+				code: "ERR_NETWORK",
+			});
+
+			const offline = await storage.sync();
+			expect(offline).toEqual({ synced: [], conflicts: [], pending: 1 });
+
+			(mockClient.deleteResume as ReturnType<typeof vi.fn>).mockResolvedValue(
+				undefined,
+			);
+			const online = await storage.sync();
+			expect(mockClient.deleteResume).toHaveBeenCalledWith("other-id");
+			expect(online).toEqual({
+				synced: ["other-id"],
+				conflicts: [],
+				pending: 0,
+			});
+		});
+	});
 });
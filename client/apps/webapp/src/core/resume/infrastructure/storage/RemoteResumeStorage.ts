@@ -1,10 +1,24 @@
 import type { Resume } from "@/core/resume/domain/Resume";
-import type {
-	PartialResume,
-	PersistenceResult,
-	ResumeStorage,
-	StorageType,
+import {
+	type MergeResolutions,
+	mergeResumes,
+	resolveMerge,
+} from "@/core/resume/domain/ResumeMerge";
+import {
+	deriveResumeTitle,
+	type PartialResume,
+	type PersistenceResult,
+	type ResumeSummary,
+	type StorageType,
+	sortResumeSummaries,
 } from "@/core/resume/domain/ResumeStorage";
+import type {
+	PendingMutation,
+	ResumeConflict,
+	ResumeOutbox,
+	SyncableResumeStorage,
+	SyncResult,
+} from "@/core/resume/domain/ResumeSync";
 import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
 import {
 	type ResumeDocumentResponse,
@@ -26,6 +40,9 @@ export interface RemoteStorageConfig {
 
 	/** Optional resume ID (if not provided, a new UUID will be generated on save) */
 	resumeId?: string;
+
+	/** Optional durable queue for changes made while offline (without it, such changes fail) */
+	outbox?: ResumeOutbox;
 }
 
 /**
@@ -42,7 +59,9 @@ export type HttpErrorWithStatus = {
 /**
  * Type guard for HTTP errors with a response status
  */
-function isHttpErrorWithStatus(error: unknown): error is HttpErrorWithStatus {
+export function isHttpErrorWithStatus(
+	error: unknown,
+): error is HttpErrorWithStatus {
 	return (
 		typeof error === "object" &&
 		error !== null &&
@@ -55,6 +74,13 @@ function isHttpErrorWithStatus(error: unknown): error is HttpErrorWithStatus {
 	);
 }
 
+/**
+ * Whether an HTTP error carries a 404 status
+ */
+export function isNotFoundError(error: unknown): boolean {
+	return isHttpErrorWithStatus(error) && error.response.status === 404;
+}
+
 /**
  * Type guard for Axios network errors (errors without a response)
  */
@@ -72,6 +98,13 @@ function isAxiosNetworkError(
 	);
 }
 
+/**
+ * Whether the browser reports being offline
+ */
+function isOffline(): boolean {
+	return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
 /**
  * Remote storage implementation for resume persistence via REST API.
  *
@@ -80,6 +113,9 @@ function isAxiosNetworkError(
  * - Optimistic locking via updatedAt timestamps
  * - Server-synced timestamps for "Last saved" indicators
  * - Non-blocking error handling with user warnings
+ * - Offline-first sync: when an outbox is configured, changes that cannot reach
+ *   the server are queued and replayed by {@link sync}, merging them with
+ *   concurrent server changes (three-way, section by section)
  *
  * Note: The workspace ID is automatically sent via the X-Workspace-Id header
  * by the BaseHttpClient. Make sure the workspace is selected before using
@@ -99,13 +135,18 @@ function isAxiosNetworkError(
  * const result = await storage.load();
  * ```
  */
-export class RemoteResumeStorage implements ResumeStorage {
+export class RemoteResumeStorage implements SyncableResumeStorage {
 	private readonly client: ResumeHttpClient;
-	private readonly config: Required<Omit<RemoteStorageConfig, "resumeId">> & {
+	private readonly outbox: ResumeOutbox | null;
+	private readonly config: Required<
+		Omit<RemoteStorageConfig, "resumeId" | "outbox">
+	> & {
 		resumeId?: string;
 	};
 	private retryCount = 0;
 	private lastServerTimestamp: string | null = null;
+	// Last server version of the active resume, the base of offline edits
+	private serverBase: { updatedAt: string; content: Resume } | null = null;
 	private currentResumeId: string | null = null;
 	private consecutiveFailures = 0;
 	private warningCallback: ((message: string) => void) | null = null;
@@ -115,6 +156,7 @@ export class RemoteResumeStorage implements ResumeStorage {
 		client: ResumeHttpClient = new ResumeHttpClient(),
 	) {
 		this.client = client;
+		this.outbox = config.outbox ?? null;
 		this.config = {
 			initialRetryDelay: config.initialRetryDelay ?? 1000,
 			maxRetryDelay: config.maxRetryDelay ?? 30000,
@@ -161,6 +203,16 @@ export class RemoteResumeStorage implements ResumeStorage {
 		}
 	}
 
+	/**
+	 * Remember the server version of the active resume as the base of future offline edits.
+	 */
+	private trackServerBase(response: ResumeDocumentResponse): void {
+		this.serverBase = {
+			updatedAt: response.updatedAt ?? response.createdAt,
+			content: response.content,
+		};
+	}
+
 	/**
 	 * Creates a PersistenceResult with metadata from a resume response.
 	 * Reduces code duplication between save and load operations.
@@ -267,40 +319,60 @@ export class RemoteResumeStorage implements ResumeStorage {
 				"RemoteResumeStorage only supports saving complete Resume objects. Partial resumes are not allowed.",
 			);
 		}
+		if (this.outbox && isOffline()) {
+			return this.queueSave(resume);
+		}
 		// Always try update first if resumeId is present
 		const resumeId = this.currentResumeId ?? this.config.resumeId;
 		const isCreate = !resumeId;
-		const response: ResumeDocumentResponse = await this.withRetry(
-			async () => {
-				if (isCreate || knownNotFound) {
-					// Generate a new UUID for creation
-					const newId = crypto.randomUUID();
-					this.currentResumeId = newId;
-					return await this.client.createResume(newId, resume, undefined);
-				}
-				// Try update first
-				try {
-					return await this.client.updateResume(resumeId, resume, undefined);
-				} catch (error) {
-					if (isHttpErrorWithStatus(error) && error.response.status === 404) {
-						knownNotFound = true;
-						return await this.client.createResume(resumeId, resume, undefined);
+		const failuresBefore = this.consecutiveFailures;
+		let response: ResumeDocumentResponse;
+		try {
+			response = await this.withRetry(
+				async () => {
+					if (isCreate || knownNotFound) {
+						// Generate a new UUID for creation
+						const newId = crypto.randomUUID();
+						this.currentResumeId = newId;
+						return await this.client.createResume(newId, resume, undefined);
 					}
-					throw error;
-				}
-			},
-			"Save resume",
-			(error) => {
-				if (!isHttpErrorWithStatus(error)) return false;
-				const status = error.response.status;
-				// Only retry transient errors: 5xx, 408, 429
-				return status >= 500 || status === 408 || status === 429;
-			},
-		);
+					// Try update first
+					try {
+						return await this.client.updateResume(resumeId, resume, undefined);
+					} catch (error) {
+						if (isNotFoundError(error)) {
+							knownNotFound = true;
+							return await this.client.createResume(
+								resumeId,
+								resume,
+								undefined,
+							);
+						}
+						throw error;
+					}
+				},
+				"Save resume",
+				(error) => {
+					if (!isHttpErrorWithStatus(error)) return false;
+					const status = error.response.status;
+					// Only retry transient errors: 5xx, 408, 429
+					return status >= 500 || status === 408 || status === 429;
+				},
+			);
+		} catch (error) {
+			// Keep the change for later when the server is unreachable or retries ran out
+			const unreachable =
+				isAxiosNetworkError(error) || this.consecutiveFailures > failuresBefore;
+			if (this.outbox && unreachable) {
+				return this.queueSave(resume);
+			}
+			throw error;
+		}
 
 		// Store server timestamp and ID
 		this.lastServerTimestamp = response.updatedAt;
 		this.currentResumeId = response.id;
+		this.trackServerBase({ ...response, content: resume });
 		// Persist the ID for recovery after page reload
 		this.persistResumeId(response.id);
 
@@ -323,18 +395,28 @@ export class RemoteResumeStorage implements ResumeStorage {
 				storageType: "remote",
 			};
 		}
+		// Changes not yet on the server are newer than the server copy
+		const pending = await this.latestPendingSave(id);
+		if (pending?.resume) {
+			return {
+				data: pending.resume,
+				timestamp: pending.createdAt,
+				storageType: "remote",
+				metadata: { id, pendingSync: true },
+			};
+		}
 		let attemptsUsed = 0;
 		try {
 			const response = await this.withRetry(
 				async () => this.client.getResume(id),
 				"Load resume",
-				(error) =>
-					!(isHttpErrorWithStatus(error) && error.response.status === 404),
+				(error) => !isNotFoundError(error),
 			);
 			attemptsUsed = this.retryCount;
 			// Update our tracking
 			this.currentResumeId = response.id;
 			this.lastServerTimestamp = response.updatedAt;
+			this.trackServerBase(response);
 			this.retryCount = 0;
 			return this.createResultWithMetadata(
 				this.mapResponseToResume(response),
@@ -343,7 +425,7 @@ export class RemoteResumeStorage implements ResumeStorage {
 			);
 		} catch (error) {
 			// If resume not found, return null instead of throwing
-			if (isHttpErrorWithStatus(error) && error.response.status === 404) {
+			if (isNotFoundError(error)) {
 				attemptsUsed = this.retryCount;
 				this.currentResumeId = null;
 				this.retryCount = 0;
@@ -378,12 +460,333 @@ export class RemoteResumeStorage implements ResumeStorage {
 		// Clear our tracking
 		this.currentResumeId = null;
 		this.lastServerTimestamp = null;
+		this.serverBase = null;
 		this.retryCount = 0;
 		this.config.resumeId = undefined;
 		// Clear persisted ID
 		this.persistResumeId(null);
 	}
 
+	async list(): Promise<ResumeSummary[]> {
+		this.validateWorkspaceContext();
+		const resumes = await this.withRetry(
+			async () => this.client.listResumes(),
+			"List resumes",
+		);
+		return sortResumeSummaries(resumes.map(toResumeSummary));
+	}
+
+	async loadById(id: string): Promise<PersistenceResult<Resume | null>> {
+		this.validateWorkspaceContext();
+		try {
+			const response = await this.withRetry(
+				async () => this.client.getResume(id),
+				"Load resume",
+				(error) => !isNotFoundError(error),
+			);
+			return this.createResultWithMetadata(
+				this.mapResponseToResume(response),
+				response,
+				0,
+			);
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return {
+					data: null,
+					timestamp: new Date().toISOString(),
+					storageType: "remote",
+				};
+			}
+			throw error;
+		}
+	}
+
+	async create(resume: Resume, title: string): Promise<ResumeSummary> {
+		this.validateWorkspaceContext();
+		const id = crypto.randomUUID();
+		const response = await this.withRetry(
+			async () => this.client.createResume(id, resume, title),
+			"Create resume",
+		);
+		return toResumeSummary(response);
+	}
+
+	async duplicate(id: string, title: string): Promise<ResumeSummary> {
+		const { data } = await this.loadById(id);
+		if (!data) {
+			throw new Error(`Failed to duplicate resume: Resume not found: ${id}`);
+		}
+		return this.create(data, title);
+	}
+
+	async rename(id: string, title: string): Promise<ResumeSummary> {
+		this.validateWorkspaceContext();
+		const current = await this.withRetry(
+			async () => this.client.getResume(id),
+			"Load resume",
+		);
+		const response = await this.withRetry(
+			async () => this.client.updateResume(id, current.content, title),
+			"Rename resume",
+		);
+		return toResumeSummary(response);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.validateWorkspaceContext();
+		if (this.outbox && isOffline()) {
+			await this.queueDelete(id);
+			return;
+		}
+		try {
+			if (id === this.currentResumeId) {
+				await this.clear();
+				return;
+			}
+			await this.withRetry(
+				async () => this.client.deleteResume(id),
+				"Delete resume",
+			);
+		} catch (error) {
+			if (this.outbox && isAxiosNetworkError(error)) {
+				await this.queueDelete(id);
+				return;
+			}
+			throw error;
+		}
+	}
+
+	getActiveResumeId(): string | null {
+		return this.currentResumeId;
+	}
+
+	setActiveResumeId(id: string): void {
+		this.currentResumeId = id;
+		this.config.resumeId = id;
+		this.lastServerTimestamp = null;
+		this.serverBase = null;
+		this.persistResumeId(id);
+	}
+
+	async pendingChanges(): Promise<number> {
+		if (!this.outbox) return 0;
+		return (await this.outbox.list()).length;
+	}
+
+	/**
+	 * Replay queued changes, oldest first.
+	 *
+	 * Changes are grouped per resume: the latest content is sent, and the base of
+	 * the first change tells whether the server changed in the meantime. In that
+	 * case the versions are merged section by section; sections changed on both
+	 * sides are reported as conflicts and stay queued until resolved.
+	 * Replay stops at the first connectivity error.
+	 */
+	async sync(): Promise<SyncResult> {
+		if (!this.outbox) {
+			return { synced: [], conflicts: [], pending: 0 };
+		}
+		this.validateWorkspaceContext();
+
+		const groups = new Map<string, PendingMutation[]>();
+		for (const mutation of await this.outbox.list()) {
+			groups.set(mutation.resumeId, [
+				...(groups.get(mutation.resumeId) ?? []),
+				mutation,
+			]);
+		}
+
+		const synced: string[] = [];
+		const conflicts: ResumeConflict[] = [];
+		for (const [resumeId, mutations] of groups) {
+			try {
+				const conflict = await this.replay(resumeId, mutations);
+				if (conflict) {
+					conflicts.push(conflict);
+				} else {
+					synced.push(resumeId);
+				}
+			} catch (error) {
+				if (isAxiosNetworkError(error)) break;
+				console.warn(
+					`[RemoteResumeStorage] Failed to sync pending changes of resume ${resumeId}:`,
+					error,
+				);
+			}
+		}
+
+		return { synced, conflicts, pending: await this.pendingChanges() };
+	}
+
+	async resolveConflict(
+		conflict: ResumeConflict,
+		resolutions: MergeResolutions,
+	): Promise<PersistenceResult<Resume>> {
+		this.validateWorkspaceContext();
+		const merged = resolveMerge(
+			conflict.base,
+			conflict.local,
+			conflict.remote,
+			resolutions,
+		);
+		const response = await this.withRetry(
+			async () => this.client.updateResume(conflict.resumeId, merged),
+			"Resolve conflict",
+		);
+		await this.outbox?.clear(conflict.resumeId);
+		this.trackSyncedResponse({ ...response, content: merged });
+		return this.createResultWithMetadata(merged, response, 0);
+	}
+
+	/**
+	 * Send the queued changes of one resume.
+	 *
+	 * @returns The conflict to resolve, or null if the changes were stored
+	 */
+	private async replay(
+		resumeId: string,
+		mutations: PendingMutation[],
+	): Promise<ResumeConflict | null> {
+		const first = mutations[0];
+		const last = mutations[mutations.length - 1];
+		if (!first || !last) return null;
+
+		if (last.type === "delete" || !last.resume) {
+			try {
+				await this.client.deleteResume(resumeId);
+			} catch (error) {
+				if (!isNotFoundError(error)) {
+					throw error;
+				}
+			}
+			await this.outbox?.clear(resumeId);
+			return null;
+		}
+
+		const remote = await this.fetchIfExists(resumeId);
+		let content = last.resume;
+		if (remote) {
+			const remoteUpdatedAt = remote.updatedAt ?? remote.createdAt;
+			if (remoteUpdatedAt !== first.baseUpdatedAt) {
+				const { merged, conflicts } = mergeResumes(
+					first.base,
+					last.resume,
+					remote.content,
+				);
+				if (conflicts.length > 0) {
+					return {
+						resumeId,
+						base: first.base,
+						local: last.resume,
+						remote: remote.content,
+						remoteUpdatedAt,
+						sections: conflicts,
+					};
+				}
+				content = merged;
+			}
+		}
+
+		const response = remote
+			? await this.client.updateResume(resumeId, content)
+			: await this.client.createResume(resumeId, content);
+		await this.outbox?.clear(resumeId);
+		this.trackSyncedResponse({ ...response, content });
+		return null;
+	}
+
+	/**
+	 * Refresh tracking after a synced write when it concerns the active resume.
+	 */
+	private trackSyncedResponse(response: ResumeDocumentResponse): void {
+		if (response.id !== this.currentResumeId) return;
+		this.lastServerTimestamp = response.updatedAt;
+		this.trackServerBase(response);
+	}
+
+	/**
+	 * Fetch a resume, resolving to null when the server does not know it.
+	 */
+	private async fetchIfExists(
+		id: string,
+	): Promise<ResumeDocumentResponse | null> {
+		try {
+			return await this.client.getResume(id);
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Latest queued save of a resume, if any.
+	 */
+	private async latestPendingSave(id: string): Promise<PendingMutation | null> {
+		if (!this.outbox) return null;
+		try {
+			const mutations = (await this.outbox.list()).filter(
+				(mutation) => mutation.resumeId === id,
+			);
+			const latest = mutations[mutations.length - 1];
+			return latest?.type === "save" ? latest : null;
+		} catch (error) {
+			console.warn("[RemoteResumeStorage] Failed to read the outbox:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Queue a save for later replay and report it as pending.
+	 */
+	private async queueSave(
+		resume: Resume,
+	): Promise<PersistenceResult<Resume | PartialResume>> {
+		const resumeId =
+			this.currentResumeId ?? this.config.resumeId ?? crypto.randomUUID();
+		this.currentResumeId = resumeId;
+		this.persistResumeId(resumeId);
+		const mutation = this.createMutation(resumeId, "save", resume);
+		await this.outbox?.add(mutation);
+		return {
+			data: resume,
+			timestamp: mutation.createdAt,
+			storageType: "remote",
+			metadata: { id: resumeId, pendingSync: true },
+		};
+	}
+
+	/**
+	 * Queue a deletion for later replay and forget the resume locally.
+	 */
+	private async queueDelete(id: string): Promise<void> {
+		await this.outbox?.add(this.createMutation(id, "delete", null));
+		if (id === this.currentResumeId) {
+			this.currentResumeId = null;
+			this.lastServerTimestamp = null;
+			this.serverBase = null;
+			this.persistResumeId(null);
+		}
+	}
+
+	private createMutation(
+		resumeId: string,
+		type: PendingMutation["type"],
+		resume: Resume | null,
+	): PendingMutation {
+		const base = resumeId === this.currentResumeId ? this.serverBase : null;
+		return {
+			id: crypto.randomUUID(),
+			resumeId,
+			type,
+			resume: resume ? JSON.parse(JSON.stringify(resume)) : null,
+			base: base?.content ?? null,
+			baseUpdatedAt: base?.updatedAt ?? null,
+			createdAt: new Date().toISOString(),
+		};
+	}
+
 	type(): StorageType {
 		return "remote";
 	}
@@ -497,6 +900,16 @@ export class RemoteResumeStorage implements ResumeStorage {
 	}
 }
 
+// Helper to map a backend resume document to a library summary
+function toResumeSummary(response: ResumeDocumentResponse): ResumeSummary {
+	return {
+		id: response.id,
+		title: response.title || deriveResumeTitle(response.content),
+		createdAt: response.createdAt,
+		updatedAt: response.updatedAt,
+	};
+}
+
 // Helper to check if an object is a full Resume
 function isFullResume(obj: unknown): obj is Resume {
 	if (!obj || typeof obj !== "object") return false;
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TemplatePreset } from "../../domain/TemplateParams";
+import { TemplatePresetStorageData } from "./TemplatePresetStorage";
+
+const STORAGE_KEY = "cvix-template-presets-resume-1";
+
+const preset = (id: string, name = `Preset ${id}`): TemplatePreset => ({
+	id,
+	name,
+	templateId: "engineering",
+	params: { colorPalette: "blue", highlightSkills: false },
+	createdAt: "2026-03-01T10:00:00.000Z",
+});
+
+describe("TemplatePresetStorage", () => {
+	let storage: TemplatePresetStorageData;
+
+	beforeEach(() => {
+		localStorage.clear();
+		storage = new TemplatePresetStorageData();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should keep the presets of each resume apart", () => {
+		storage.save("resume-1", preset("a"));
+		storage.save("resume-1", preset("b"));
+		storage.save("resume-2", preset("c"));
+
+		expect(storage.list("resume-1").map((entry) => entry.id)).toEqual([
+			"a",
+			"b",
+		]);
+		expect(storage.list("resume-2")).toEqual([preset("c")]);
+		expect(storage.list("resume-3")).toEqual([]);
+	});
+
+	it("should replace a preset saved again", () => {
+		storage.save("resume-1", preset("a"));
+		storage.save("resume-1", preset("b"));
+		storage.save("resume-1", preset("a", "Renamed"));
+
+		expect(storage.list("resume-1").map((entry) => entry.name)).toEqual([
+			"Preset b",
+			"Renamed",
+		]);
+	});
+
+	it("should drop the entry once no preset is left", () => {
+		storage.save("resume-1", preset("a"));
+		storage.save("resume-1", preset("b"));
+
+		storage.remove("resume-1", "a");
+		expect(storage.list("resume-1")).toEqual([preset("b")]);
+
+		storage.remove("resume-1", "b");
+		expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+	});
+
+	it("should remove every preset of a resume", () => {
+		storage.save("resume-1", preset("a"));
+		storage.save("resume-2", preset("b"));
+
+		storage.removeAll("resume-1");
+
+		expect(storage.list("resume-1")).toEqual([]);
+		expect(storage.list("resume-2")).toHaveLength(1);
+	});
+
+	it.each([
+		["invalid JSON", "{not json"],
+		["not a list", "{}"],
+	])("should have no presets when the entry is %s", (_, stored) => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		localStorage.setItem(STORAGE_KEY, stored);
+
+		expect(storage.list("resume-1")).toEqual([]);
+	});
+
+	it("should not throw when localStorage is full", () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+			throw new DOMException("Quota exceeded", "QuotaExceededError");
+		});
+
+		expect(() => storage.save("resume-1", preset("a"))).not.toThrow();
+		expect(consoleError).toHaveBeenCalledWith(
+			"Failed to save template preset:",
+			expect.any(DOMException),
+		);
+	});
+});
@@ -0,0 +1,99 @@
+import type { TemplatePreset } from "../../domain/TemplateParams";
+
+/**
+ * Storage service for template styling presets.
+ * Each resume keeps its own list of presets in localStorage.
+ */
+export class TemplatePresetStorageData {
+	private readonly storageKeyPrefix = "cvix-template-presets-";
+
+	/**
+	 * Generates the storage key for a specific resume.
+	 */
+	private getStorageKey(resumeId: string): string {
+		return `${this.storageKeyPrefix}${resumeId}`;
+	}
+
+	/**
+	 * Lists the presets saved for a resume, oldest first.
+	 *
+	 * @param resumeId - The resume ID to load presets for
+	 * @returns The saved presets, or an empty list if none or unreadable
+	 */
+	list(resumeId: string): TemplatePreset[] {
+		try {
+			const stored = localStorage.getItem(this.getStorageKey(resumeId));
+			if (!stored) {
+				return [];
+			}
+			const presets: unknown = JSON.parse(stored);
+			return Array.isArray(presets) ? (presets as TemplatePreset[]) : [];
+		} catch (error) {
+			console.error("Failed to load template presets:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * Saves a preset for a resume, replacing a preset with the same ID.
+	 *
+	 * @param resumeId - The resume ID the preset belongs to
+	 * @param preset - The preset to save
+	 */
+	save(resumeId: string, preset: TemplatePreset): void {
+		try {
+			const presets = this.list(resumeId).filter(
+				(existing) => existing.id !== preset.id,
+			);
+			presets.push(preset);
+			localStorage.setItem(
+				this.getStorageKey(resumeId),
+				JSON.stringify(presets),
+			);
+		} catch (error) {
+			console.error("Failed to save template preset:", error);
+		}
+	}
+
+	/**
+	 * Removes a preset of a resume.
+	 *
+	 * @param resumeId - The resume ID the preset belongs to
+	 * @param presetId - The preset ID to remove
+	 */
+	remove(resumeId: string, presetId: string): void {
+		const presets = this.list(resumeId).filter(
+			(preset) => preset.id !== presetId,
+		);
+		try {
+			if (presets.length === 0) {
+				localStorage.removeItem(this.getStorageKey(resumeId));
+			} else {
+				localStorage.setItem(
+					this.getStorageKey(resumeId),
+					JSON.stringify(presets),
+				);
+			}
+		} catch (error) {
+			console.error("Failed to remove template preset:", error);
+		}
+	}
+
+	/**
+	 * Removes every preset of a resume.
+	 *
+	 * @param resumeId - The resume ID to remove presets for
+	 */
+	removeAll(resumeId: string): void {
+		try {
+			localStorage.removeItem(this.getStorageKey(resumeId));
+		} catch (error) {
+			console.error("Failed to remove template presets:", error);
+		}
+	}
+}
+
+/**
+ * Singleton instance of the storage service.
+ */
+export const templatePresetStorage = new TemplatePresetStorageData();
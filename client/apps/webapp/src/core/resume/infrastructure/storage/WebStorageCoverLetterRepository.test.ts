@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	type CoverLetter,
+	createCoverLetter,
+} from "@/core/resume/domain/CoverLetter";
+import { WebStorageCoverLetterRepository } from "./WebStorageCoverLetterRepository";
+
+describe("WebStorageCoverLetterRepository", () => {
+	let repository: WebStorageCoverLetterRepository;
+
+	const letter = (id: string, updatedAt: string): CoverLetter => ({
+		...createCoverLetter(id, `Letter ${id}`),
+		company: "Acme",
+		updatedAt,
+	});
+
+	beforeEach(() => {
+		sessionStorage.clear();
+		repository = new WebStorageCoverLetterRepository(sessionStorage);
+	});
+
+	it("should save and load cover letters", async () => {
+		const stored = letter("a", "2024-01-01T00:00:00Z");
+
+		await repository.save(stored);
+
+		expect(await repository.get("a")).toEqual(stored);
+		expect(await repository.get("missing")).toBeNull();
+	});
+
+	it("should replace an existing cover letter", async () => {
+		await repository.save(letter("a", "2024-01-01T00:00:00Z"));
+
+		await repository.save({
+			...letter("a", "2024-01-02T00:00:00Z"),
+			role: "Engineer",
+		});
+
+		expect((await repository.get("a"))?.role).toBe("Engineer");
+		expect(await repository.list()).toHaveLength(1);
+	});
+
+	it("should list summaries most recently updated first", async () => {
+		await repository.save(letter("a", "2024-01-01T00:00:00Z"));
+		await repository.save(letter("b", "2024-02-01T00:00:00Z"));
+
+		const summaries = await repository.list();
+
+		expect(summaries.map((summary) => summary.id)).toEqual(["b", "a"]);
+		expect(summaries[0]).toEqual({
+			id: "b",
+			title: "Letter b",
+			company: "Acme",
+			role: "",
+			link: null,
+			updatedAt: "2024-02-01T00:00:00Z",
+		});
+	});
+
+	it("should remove the storage key with the last cover letter", async () => {
+		await repository.save(letter("a", "2024-01-01T00:00:00Z"));
+
+		await repository.delete("a");
+
+		expect(await repository.list()).toEqual([]);
+		expect(sessionStorage.getItem("cvix:cover-letters")).toBeNull();
+	});
+
+	it("should ignore corrupted data", async () => {
+		sessionStorage.setItem("cvix:cover-letters", "{not json");
+
+		expect(await repository.list()).toEqual([]);
+	});
+});
@@ -0,0 +1,66 @@
+import {
+	type CoverLetter,
+	type CoverLetterRepository,
+	type CoverLetterSummary,
+	sortCoverLetters,
+	toCoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter";
+
+const COVER_LETTERS_KEY = "cvix:cover-letters";
+
+/**
+ * Web Storage implementation of the cover letter repository, used for both
+ * the `session` and `local` storage types.
+ *
+ * @example
+ * ```typescript
+ * const repository = new WebStorageCoverLetterRepository(sessionStorage);
+ * const letters = await repository.list();
+ * ```
+ */
+export class WebStorageCoverLetterRepository implements CoverLetterRepository {
+	constructor(private readonly storage: Storage = localStorage) {}
+
+	private read(): CoverLetter[] {
+		const raw = this.storage.getItem(COVER_LETTERS_KEY);
+		if (!raw) return [];
+		try {
+			const parsed: unknown = JSON.parse(raw);
+			return Array.isArray(parsed) ? (parsed as CoverLetter[]) : [];
+		} catch (error) {
+			console.warn("Failed to parse cover letters:", error);
+			return [];
+		}
+	}
+
+	private write(letters: CoverLetter[]): void {
+		if (letters.length === 0) {
+			this.storage.removeItem(COVER_LETTERS_KEY);
+			return;
+		}
+		this.storage.setItem(COVER_LETTERS_KEY, JSON.stringify(letters));
+	}
+
+	async list(): Promise<CoverLetterSummary[]> {
+		return sortCoverLetters(this.read().map(toCoverLetterSummary));
+	}
+
+	async get(id: string): Promise<CoverLetter | null> {
+		return this.read().find((letter) => letter.id === id) ?? null;
+	}
+
+	async save(letter: CoverLetter): Promise<void> {
+		const letters = this.read();
+		const index = letters.findIndex((existing) => existing.id === letter.id);
+		if (index >= 0) {
+			letters[index] = letter;
+		} else {
+			letters.push(letter);
+		}
+		this.write(letters);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.write(this.read().filter((letter) => letter.id !== id));
+	}
+}
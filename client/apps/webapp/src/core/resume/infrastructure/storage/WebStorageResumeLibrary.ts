@@ -0,0 +1,128 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import {
+	DEFAULT_RESUME_ID,
+	deriveResumeTitle,
+	type PartialResume,
+	type ResumeSummary,
+	sortResumeSummaries,
+} from "@/core/resume/domain/ResumeStorage";
+
+const DOCUMENT_KEY = "cvix:resume";
+const INDEX_KEY = "cvix:resume-index";
+const ACTIVE_KEY = "cvix:active-resume-id";
+
+/**
+ * Multi-resume layout on top of the Web Storage API (localStorage/sessionStorage).
+ *
+ * Layout:
+ * - `cvix:resume` holds the default resume (the pre-library single slot)
+ * - `cvix:resume:{id}` holds every other resume
+ * - `cvix:resume-index` holds the summaries (title and timestamps)
+ * - `cvix:active-resume-id` holds the ID used by `save`/`load`/`clear`
+ *
+ * Resume documents are stored as plain JSON Resume objects so the default slot
+ * stays readable by older versions of the app.
+ */
+export class WebStorageResumeLibrary {
+	constructor(private readonly storage: Storage) {}
+
+	/**
+	 * Returns the storage key of a resume document.
+	 */
+	private documentKey(id: string): string {
+		return id === DEFAULT_RESUME_ID ? DOCUMENT_KEY : `${DOCUMENT_KEY}:${id}`;
+	}
+
+	private readIndex(): ResumeSummary[] {
+		const raw = this.storage.getItem(INDEX_KEY);
+		if (!raw) return [];
+		const parsed: unknown = JSON.parse(raw);
+		return Array.isArray(parsed) ? (parsed as ResumeSummary[]) : [];
+	}
+
+	private writeIndex(index: ResumeSummary[]): void {
+		this.storage.setItem(INDEX_KEY, JSON.stringify(index));
+	}
+
+	getActiveId(): string {
+		return this.storage.getItem(ACTIVE_KEY) ?? DEFAULT_RESUME_ID;
+	}
+
+	setActiveId(id: string): void {
+		this.storage.setItem(ACTIVE_KEY, id);
+	}
+
+	readDocument(id: string): Resume | null {
+		const data = this.storage.getItem(this.documentKey(id));
+		return data ? (JSON.parse(data) as Resume) : null;
+	}
+
+	/**
+	 * Writes a resume document and upserts its summary.
+	 *
+	 * @param id - The resume ID
+	 * @param resume - The resume content
+	 * @param title - Optional new title; the existing title is kept when omitted
+	 * @returns The stored summary
+	 */
+	writeDocument(
+		id: string,
+		resume: Resume | PartialResume,
+		title?: string,
+	): ResumeSummary {
+		this.storage.setItem(this.documentKey(id), JSON.stringify(resume));
+
+		const now = new Date().toISOString();
+		const index = this.readIndex();
+		const existing = index.find((entry) => entry.id === id);
+		const summary: ResumeSummary = {
+			id,
+			title: title ?? existing?.title ?? deriveResumeTitle(resume),
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now,
+		};
+		this.writeIndex([...index.filter((entry) => entry.id !== id), summary]);
+		return summary;
+	}
+
+	/**
+	 * Changes the title of a stored resume.
+	 *
+	 * @throws Error if the resume does not exist
+	 */
+	renameDocument(id: string, title: string): ResumeSummary {
+		const resume = this.readDocument(id);
+		if (!resume) {
+			throw new Error(`Resume not found: ${id}`);
+		}
+		return this.writeDocument(id, resume, title);
+	}
+
+	removeDocument(id: string): void {
+		this.storage.removeItem(this.documentKey(id));
+		this.writeIndex(this.readIndex().filter((entry) => entry.id !== id));
+		if (this.getActiveId() === id) {
+			this.storage.removeItem(ACTIVE_KEY);
+		}
+	}
+
+	/**
+	 * Lists all stored resumes.
+	 * A default resume saved before the index existed is reported with a derived title.
+	 */
+	list(): ResumeSummary[] {
+		const index = this.readIndex().filter(
+			(entry) => this.storage.getItem(this.documentKey(entry.id)) !== null,
+		);
+		const legacy = this.readDocument(DEFAULT_RESUME_ID);
+		if (legacy && !index.some((entry) => entry.id === DEFAULT_RESUME_ID)) {
+			index.push({
+				id: DEFAULT_RESUME_ID,
+				title: deriveResumeTitle(legacy),
+				createdAt: new Date().toISOString(),
+				updatedAt: null,
+			});
+		}
+		return sortResumeSummaries(index);
+	}
+}
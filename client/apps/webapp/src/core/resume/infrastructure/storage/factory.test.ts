@@ -1,14 +1,20 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import {
+	createCoverLetterRepository,
+	createResumeHistoryRepository,
 	createResumeStorage,
 	getDefaultStorageType,
 	getStorageMetadata,
 	getStorageMetadataByType,
 } from "./factory";
+import { IndexedDBCoverLetterRepository } from "./IndexedDBCoverLetterRepository";
+import { IndexedDBResumeHistoryRepository } from "./IndexedDBResumeHistoryRepository";
 import { IndexedDBResumeStorage } from "./IndexedDBResumeStorage";
 import { LocalStorageResumeStorage } from "./LocalStorageResumeStorage";
+import { RemoteResumeHistoryRepository } from "./RemoteResumeHistoryRepository";
 import { RemoteResumeStorage } from "./RemoteResumeStorage";
 import { SessionStorageResumeStorage } from "./SessionStorageResumeStorage";
+import { WebStorageCoverLetterRepository } from "./WebStorageCoverLetterRepository";
 
 describe("Storage Factory", () => {
 	describe("createResumeStorage", () => {
@@ -43,6 +49,46 @@ describe("Storage Factory", () => {
 		});
 	});
 
+	describe("createResumeHistoryRepository", () => {
+		it("should keep remote history on the server", () => {
+			expect(createResumeHistoryRepository("remote")).toBeInstanceOf(
+				RemoteResumeHistoryRepository,
+			);
+		});
+
+		it.each([
+			"session",
+			"local",
+			"indexeddb",
+		] as const)("should keep %s history in IndexedDB", (type) => {
+			expect(createResumeHistoryRepository(type)).toBeInstanceOf(
+				IndexedDBResumeHistoryRepository,
+			);
+		});
+	});
+
+	describe("createCoverLetterRepository", () => {
+		it.each([
+			["session", WebStorageCoverLetterRepository],
+			["local", WebStorageCoverLetterRepository],
+			["indexeddb", IndexedDBCoverLetterRepository],
+		] as const)("should keep %s cover letters next to the resumes", (type, repository) => {
+			expect(createCoverLetterRepository(type)).toBeInstanceOf(repository);
+		});
+
+		it("should keep cover letters of remote resumes in IndexedDB", () => {
+			expect(createCoverLetterRepository("remote")).toBeInstanceOf(
+				IndexedDBCoverLetterRepository,
+			);
+		});
+
+		it("should throw error for unknown storage type", () => {
+			expect(() => createCoverLetterRepository("unknown" as never)).toThrow(
+				"Unknown storage type",
+			);
+		});
+	});
+
 	describe("getDefaultStorageType", () => {
 		let originalEnv: boolean;
 
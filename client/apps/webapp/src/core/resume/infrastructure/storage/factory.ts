@@ -1,12 +1,19 @@
+import type { CoverLetterRepository } from "@/core/resume/domain/CoverLetter";
+import type { ResumeHistoryRepository } from "@/core/resume/domain/ResumeSnapshot";
 import type {
 	ResumeStorage,
 	StorageType,
 } from "@/core/resume/domain/ResumeStorage";
 import {
+	IndexedDBCoverLetterRepository,
+	IndexedDBResumeHistoryRepository,
+	IndexedDBResumeOutbox,
 	IndexedDBResumeStorage,
 	LocalStorageResumeStorage,
+	RemoteResumeHistoryRepository,
 	RemoteResumeStorage,
 	SessionStorageResumeStorage,
+	WebStorageCoverLetterRepository,
 } from "@/core/resume/infrastructure/storage";
 
 /**
@@ -28,7 +35,8 @@ export function createResumeStorage(type: StorageType): ResumeStorage {
 			return new IndexedDBResumeStorage();
 
 		case "remote":
-			return new RemoteResumeStorage({});
+			// Changes made while offline are queued in IndexedDB and synced later
+			return new RemoteResumeStorage({ outbox: new IndexedDBResumeOutbox() });
 
 		default:
 			// TypeScript ensures exhaustiveness, but we add this for runtime safety
@@ -36,6 +44,51 @@ export function createResumeStorage(type: StorageType): ResumeStorage {
 	}
 }
 
+/**
+ * Create the history repository that pairs with a storage type.
+ *
+ * Remote resumes keep their snapshots on the server; every browser storage
+ * keeps them in IndexedDB so history is available offline.
+ *
+ * @param type - Storage type of the resumes whose history is tracked
+ * @returns A ResumeHistoryRepository instance
+ */
+export function createResumeHistoryRepository(
+	type: StorageType,
+): ResumeHistoryRepository {
+	return type === "remote"
+		? new RemoteResumeHistoryRepository()
+		: new IndexedDBResumeHistoryRepository();
+}
+
+/**
+ * Create the cover letter repository that pairs with a storage type, so cover
+ * letters are kept wherever the user keeps their resumes. The server does not
+ * store cover letters, so with remote resumes they stay in IndexedDB.
+ *
+ * @param type - Storage type of the resumes
+ * @returns A CoverLetterRepository instance
+ * @throws Error if an unknown storage type is provided
+ */
+export function createCoverLetterRepository(
+	type: StorageType,
+): CoverLetterRepository {
+	switch (type) {
+		case "session":
+			return new WebStorageCoverLetterRepository(sessionStorage);
+
+		case "local":
+			return new WebStorageCoverLetterRepository(localStorage);
+
+		case "indexeddb":
+		case "remote":
+			return new IndexedDBCoverLetterRepository();
+
+		default:
+			throw new Error(`Unknown storage type: ${type satisfies never}`);
+	}
+}
+
 /**
  * Gets the default storage type based on environment and availability.
  *
@@ -6,16 +6,28 @@
  */
 
 export {
+	AUTOSAVE_DRAFT_KEY,
+	AutosaveDraftStorage,
+} from "./AutosaveDraftStorage";
+export {
+	createCoverLetterRepository,
+	createResumeHistoryRepository,
 	createResumeStorage,
 	getDefaultStorageType,
 	getStorageMetadata,
 	getStorageMetadataByType,
 	type StorageMetadata,
 } from "./factory";
+export { IndexedDBCoverLetterRepository } from "./IndexedDBCoverLetterRepository";
+export { IndexedDBResumeHistoryRepository } from "./IndexedDBResumeHistoryRepository";
+export { IndexedDBResumeOutbox } from "./IndexedDBResumeOutbox";
 export { IndexedDBResumeStorage } from "./IndexedDBResumeStorage";
 export { LocalStorageResumeStorage } from "./LocalStorageResumeStorage";
+export { LocalStorageResumeVariantRepository } from "./LocalStorageResumeVariantRepository";
+export { RemoteResumeHistoryRepository } from "./RemoteResumeHistoryRepository";
 export {
 	RemoteResumeStorage,
 	type RemoteStorageConfig,
 } from "./RemoteResumeStorage";
 export { SessionStorageResumeStorage } from "./SessionStorageResumeStorage";
+export { WebStorageCoverLetterRepository } from "./WebStorageCoverLetterRepository";
@@ -0,0 +1,130 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type CoverLetter,
+	toCoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { useCoverLetterStore } from "./cover-letter.store";
+import { useResumeStore } from "./resume.store";
+
+const letters = new Map<string, CoverLetter>();
+const generatePdf = vi.fn(async () => new Blob(["pdf"]));
+
+vi.mock(
+	"@/core/resume/infrastructure/storage/factory",
+	async (importOriginal) => ({
+		...(await importOriginal<
+			typeof import("@/core/resume/infrastructure/storage/factory")
+		>()),
+		createCoverLetterRepository: () => ({
+			list: async () => [...letters.values()].map(toCoverLetterSummary),
+			get: async (id: string) => letters.get(id) ?? null,
+			save: async (letter: CoverLetter) => {
+				letters.set(letter.id, letter);
+			},
+			delete: async (id: string) => {
+				letters.delete(id);
+			},
+		}),
+	}),
+);
+
+vi.mock("@/core/resume/infrastructure/export", () => ({
+	PdfCoverLetterGenerator: class {
+		generatePdf = generatePdf;
+	},
+}));
+
+describe("useCoverLetterStore", () => {
+	beforeEach(() => {
+		letters.clear();
+		generatePdf.mockClear();
+		setActivePinia(createPinia());
+	});
+
+	it("should create a letter, open it and list it", async () => {
+		const store = useCoverLetterStore();
+
+		const letter = await store.createLetter("Acme", {
+			resumeId: "resume-1",
+			variantId: null,
+		});
+
+		expect(store.letter).toEqual(letter);
+		expect(store.letters.map((summary) => summary.id)).toEqual([letter.id]);
+	});
+
+	it("should save changes to the open letter", async () => {
+		const store = useCoverLetterStore();
+		await store.createLetter("Acme");
+
+		await store.saveLetter({ company: "Acme", paragraphs: ["Hello"] });
+
+		expect(store.letter?.company).toBe("Acme");
+		expect(store.letters[0]?.company).toBe("Acme");
+		expect(store.isSaving).toBe(false);
+	});
+
+	it("should refuse to save without an open letter", async () => {
+		const store = useCoverLetterStore();
+
+		await expect(store.saveLetter({ company: "Acme" })).rejects.toThrow(
+			"No cover letter open",
+		);
+	});
+
+	it("should open stored letters", async () => {
+		const store = useCoverLetterStore();
+		const created = await store.createLetter("Acme");
+		store.letter = null;
+
+		expect(await store.openLetter(created.id)).toEqual(created);
+		expect(await store.openLetter("missing")).toBeNull();
+		expect(store.letter).toBeNull();
+	});
+
+	it("should close the open letter when it is deleted", async () => {
+		const store = useCoverLetterStore();
+		const created = await store.createLetter("Acme");
+
+		await store.deleteLetter(created.id);
+
+		expect(store.letter).toBeNull();
+		expect(store.letters).toEqual([]);
+	});
+
+	it("should generate the PDF with the sign-off of the linked variant", async () => {
+		const store = useCoverLetterStore();
+		const resumeStore = useResumeStore();
+		const loadResolvedResume = vi
+			.spyOn(resumeStore, "loadResolvedResume")
+			.mockResolvedValue(createTestResume());
+		await store.createLetter("Acme", {
+			resumeId: "resume-1",
+			variantId: "variant-1",
+		});
+		await store.saveLetter({ paragraphs: ["Dear team,"] });
+
+		await store.generatePdf("es");
+
+		expect(loadResolvedResume).toHaveBeenCalledWith("resume-1", "variant-1");
+		expect(generatePdf).toHaveBeenCalledWith(
+			expect.objectContaining({
+				signOff: expect.objectContaining({ name: "John Doe" }),
+			}),
+			"es",
+		);
+		expect(store.isGenerating).toBe(false);
+	});
+
+	it("should record generation failures", async () => {
+		const store = useCoverLetterStore();
+		await store.createLetter("Acme");
+
+		await expect(store.generatePdf()).rejects.toThrow(
+			"Cover letter has no content",
+		);
+		expect(store.error?.message).toBe("Cover letter has no content");
+	});
+});
@@ -0,0 +1,231 @@
+import { defineStore } from "pinia";
+import { computed, getCurrentInstance, ref } from "vue";
+import {
+	type CoverLetterChanges,
+	CoverLetterService,
+} from "@/core/resume/application/CoverLetterService.ts";
+import type {
+	CoverLetter,
+	CoverLetterGenerator,
+	CoverLetterLink,
+	CoverLetterRepository,
+	CoverLetterSummary,
+} from "@/core/resume/domain/CoverLetter.ts";
+import {
+	COVER_LETTER_GENERATOR_KEY,
+	COVER_LETTER_REPOSITORY_KEY,
+} from "@/core/resume/infrastructure/di";
+import { PdfCoverLetterGenerator } from "@/core/resume/infrastructure/export";
+import { createCoverLetterRepository } from "@/core/resume/infrastructure/storage/factory";
+import { useResumeStore } from "./resume.store";
+
+/**
+ * Gets the cover letter repository provided through Vue's provide/inject system.
+ *
+ * @returns The provided repository, or null to derive it from the resume storage type
+ */
+function getProvidedRepository(): CoverLetterRepository | null {
+	const instance = getCurrentInstance();
+	if (instance?.appContext.provides[COVER_LETTER_REPOSITORY_KEY as symbol]) {
+		return instance.appContext.provides[
+			COVER_LETTER_REPOSITORY_KEY as symbol
+		] as CoverLetterRepository;
+	}
+	return null;
+}
+
+/**
+ * Resolves a CoverLetterGenerator from Vue dependency injection, falling back to PdfCoverLetterGenerator.
+ *
+ * @returns The resolved CoverLetterGenerator instance
+ */
+function getGenerator(): CoverLetterGenerator {
+	const instance = getCurrentInstance();
+	if (instance?.appContext.provides[COVER_LETTER_GENERATOR_KEY as symbol]) {
+		return instance.appContext.provides[
+			COVER_LETTER_GENERATOR_KEY as symbol
+		] as CoverLetterGenerator;
+	}
+	return new PdfCoverLetterGenerator();
+}
+
+/**
+ * Cover letter store.
+ *
+ * Cover letters are kept in the same kind of storage as resumes: switching the
+ * resume storage strategy switches the cover letter repository too, unless one
+ * is provided.
+ *
+ * @example
+ * const coverLetters = useCoverLetterStore();
+ * const letter = await coverLetters.createLetter("Acme", { resumeId, variantId: null });
+ * await coverLetters.saveLetter({ paragraphs: ["Dear Hiring Manager,"] });
+ */
+export const useCoverLetterStore = defineStore("coverLetter", () => {
+	const resumeStore = useResumeStore();
+	const providedRepository = getProvidedRepository();
+	const generator = getGenerator();
+
+	const service = computed(
+		() =>
+			new CoverLetterService(
+				providedRepository ??
+					createCoverLetterRepository(resumeStore.currentStorageType),
+				generator,
+			),
+	);
+
+	// State
+	const letters = ref<CoverLetterSummary[]>([]);
+	const letter = ref<CoverLetter | null>(null);
+	const isLoading = ref(false);
+	const isSaving = ref(false);
+	const isGenerating = ref(false);
+	const error = ref<Error | null>(null);
+
+	/**
+	 * Runs an operation, recording any failure in `error`.
+	 */
+	async function withError<T>(operation: () => Promise<T>): Promise<T> {
+		try {
+			error.value = null;
+			return await operation();
+		} catch (cause) {
+			error.value =
+				cause instanceof Error
+					? cause
+					: new Error("Unknown cover letter error");
+			throw cause;
+		}
+	}
+
+	/**
+	 * Refresh the list of stored cover letters.
+	 */
+	async function loadLetters(): Promise<void> {
+		try {
+			isLoading.value = true;
+			letters.value = await withError(() => service.value.list());
+		} finally {
+			isLoading.value = false;
+		}
+	}
+
+	/**
+	 * Load a cover letter into the editor.
+	 *
+	 * @param id - The cover letter ID
+	 * @returns The cover letter, or null if it does not exist
+	 */
+	async function openLetter(id: string): Promise<CoverLetter | null> {
+		try {
+			isLoading.value = true;
+			letter.value = await withError(() => service.value.get(id));
+			return letter.value;
+		} finally {
+			isLoading.value = false;
+		}
+	}
+
+	/**
+	 * Create a cover letter and open it.
+	 *
+	 * @param title - The title; derived from role and company when empty
+	 * @param link - The resume or variant the letter accompanies
+	 * @returns The created cover letter
+	 */
+	async function createLetter(
+		title: string,
+		link: CoverLetterLink | null = null,
+	): Promise<CoverLetter> {
+		const created = await withError(() => service.value.create(title, link));
+		letter.value = created;
+		await loadLetters();
+		return created;
+	}
+
+	/**
+	 * Save changes to the open cover letter.
+	 *
+	 * @param changes - The fields to replace
+	 * @returns The updated cover letter
+	 * @throws Error if no cover letter is open or saving fails
+	 */
+	async function saveLetter(changes: CoverLetterChanges): Promise<CoverLetter> {
+		const current = letter.value;
+		if (!current) {
+			throw new Error("No cover letter open");
+		}
+		try {
+			isSaving.value = true;
+			const updated = await withError(() =>
+				service.value.update(current.id, changes),
+			);
+			letter.value = updated;
+			await loadLetters();
+			return updated;
+		} finally {
+			isSaving.value = false;
+		}
+	}
+
+	/**
+	 * Delete a cover letter, closing it if it is open.
+	 *
+	 * @param id - The cover letter ID
+	 */
+	async function deleteLetter(id: string): Promise<void> {
+		await withError(() => service.value.remove(id));
+		if (letter.value?.id === id) {
+			letter.value = null;
+		}
+		letters.value = letters.value.filter((summary) => summary.id !== id);
+	}
+
+	/**
+	 * Generate the PDF of the open cover letter. The sign-off is completed from
+	 * the linked resume or variant.
+	 *
+	 * @param locale - Locale of the generated PDF
+	 * @returns The generated PDF
+	 * @throws Error if no cover letter is open or generation fails
+	 */
+	async function generatePdf(locale?: string): Promise<Blob> {
+		const current = letter.value;
+		if (!current) {
+			throw new Error("No cover letter open");
+		}
+		try {
+			isGenerating.value = true;
+			return await withError(async () => {
+				const resume = current.link
+					? await resumeStore.loadResolvedResume(
+							current.link.resumeId,
+							current.link.variantId,
+						)
+					: null;
+				return service.value.generatePdf(current, resume, locale);
+			});
+		} finally {
+			isGenerating.value = false;
+		}
+	}
+
+	return {
+		// State
+		letters,
+		letter,
+		isLoading,
+		isSaving,
+		isGenerating,
+		error,
+
+		// Actions
+		loadLetters,
+		openLetter,
+		createLetter,
+		saveLetter,
+		deleteLetter,
+		generatePdf,
+	};
+});
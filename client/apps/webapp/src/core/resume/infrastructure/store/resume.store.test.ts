@@ -1,8 +1,43 @@
 import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Resume } from "@/core/resume/domain/Resume.ts";
+import type { ResumeSnapshot } from "@/core/resume/domain/ResumeSnapshot.ts";
+import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage.ts";
+import type {
+	ResumeConflict,
+	SyncableResumeStorage,
+} from "@/core/resume/domain/ResumeSync.ts";
 import { useResumeStore } from "./resume.store.ts";
 
+const historySnapshots = vi.hoisted(() => new Map<string, ResumeSnapshot>());
+
+// Keep version history in memory (jsdom has no IndexedDB)
+vi.mock(
+	"@/core/resume/infrastructure/storage/factory",
+	async (importOriginal) => ({
+		...(await importOriginal<
+			typeof import("@/core/resume/infrastructure/storage/factory")
+		>()),
+		createResumeHistoryRepository: () => ({
+			list: async (resumeId: string) =>
+				[...historySnapshots.values()]
+					.filter((snapshot) => snapshot.resumeId === resumeId)
+					.map(({ resume: _resume, ...summary }) => summary)
+					.reverse(),
+			get: async (resumeId: string, snapshotId: string) => {
+				const snapshot = historySnapshots.get(snapshotId);
+				return snapshot?.resumeId === resumeId ? snapshot : null;
+			},
+			add: async (snapshot: ResumeSnapshot) => {
+				historySnapshots.set(snapshot.id, snapshot);
+			},
+			delete: async (_resumeId: string, snapshotId: string) => {
+				historySnapshots.delete(snapshotId);
+			},
+		}),
+	}),
+);
+
 // Mock the ResumeHttpClient
 vi.mock("@/core/resume/infrastructure/http/ResumeHttpClient", () => {
 	const MockResumeHttpClient = class {
@@ -257,4 +292,376 @@ describe("useResumeStore", () => {
 			expect(store.generationError).toEqual(errorResponse);
 		});
 	});
+
+	describe("resume library", () => {
+		beforeEach(() => {
+			localStorage.clear();
+			sessionStorage.clear();
+		});
+
+		it("should create a resume and make it active", async () => {
+			const store = useResumeStore();
+			const resume = createMockResume();
+
+			const summary = await store.createResume("Backend", resume);
+
+			expect(summary.title).toBe("Backend");
+			expect(store.activeResumeId).toBe(summary.id);
+			expect(store.resume).toEqual(resume);
+			expect(store.resumes.map((entry) => entry.id)).toEqual([summary.id]);
+		});
+
+		it("should open a resume by id", async () => {
+			const store = useResumeStore();
+			const first = await store.createResume("First", createMockResume());
+			const secondResume = {
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			};
+			await store.createResume("Second", secondResume);
+
+			await store.openResume(first.id);
+
+			expect(store.activeResumeId).toBe(first.id);
+			expect(store.resume?.basics.name).toBe("John Doe");
+		});
+
+		it("should duplicate and rename resumes", async () => {
+			const store = useResumeStore();
+			const original = await store.createResume("Original", createMockResume());
+
+			const copy = await store.duplicateResume(original.id, "Copy");
+			await store.renameResume(copy.id, "Renamed copy");
+
+			expect(store.resumes).toHaveLength(2);
+			expect(store.resumes.find((entry) => entry.id === copy.id)?.title).toBe(
+				"Renamed copy",
+			);
+			expect(store.activeResumeId).toBe(original.id);
+		});
+
+		it("should clear the in-memory resume when deleting the active resume", async () => {
+			const store = useResumeStore();
+			const summary = await store.createResume("Doomed", createMockResume());
+
+			await store.deleteResume(summary.id);
+
+			expect(store.resume).toBeNull();
+			expect(store.resumes).toHaveLength(0);
+			expect(store.activeResumeId).toBe("default");
+		});
+	});
+	describe("version history", () => {
+		beforeEach(() => {
+			localStorage.clear();
+			sessionStorage.clear();
+			historySnapshots.clear();
+		});
+
+		it("should record a snapshot after saving", async () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+
+			await store.saveToStorage();
+			await store.loadHistory();
+
+			expect(store.snapshots).toHaveLength(1);
+			expect(store.snapshots[0]?.reason).toBe("save");
+		});
+
+		it("should create named checkpoints", async () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+
+			const checkpoint = await store.createCheckpoint("Before tailoring");
+
+			expect(checkpoint.label).toBe("Before tailoring");
+			expect(store.snapshots.map((snapshot) => snapshot.id)).toContain(
+				checkpoint.id,
+			);
+		});
+
+		it("should reject checkpoints without a resume", async () => {
+			const store = useResumeStore();
+
+			await expect(store.createCheckpoint("Empty")).rejects.toThrow();
+		});
+
+		it("should restore a snapshot and keep the replaced version", async () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+			const checkpoint = await store.createCheckpoint("Original");
+			store.setResume({
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			});
+
+			const restored = await store.restoreSnapshot(checkpoint.id);
+
+			expect(restored.basics.name).toBe("John Doe");
+			expect(store.resume?.basics.name).toBe("John Doe");
+			expect(store.snapshots.some((s) => s.reason === "restore")).toBe(true);
+		});
+
+		it("should delete snapshots", async () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+			const checkpoint = await store.createCheckpoint("Temporary");
+
+			await store.deleteSnapshot(checkpoint.id);
+
+			expect(store.snapshots).toHaveLength(0);
+		});
+	});
+
+	describe("tailored variants", () => {
+		beforeEach(() => {
+			localStorage.clear();
+			sessionStorage.clear();
+		});
+
+		it("should create, update and list variants of the active resume", async () => {
+			const store = useResumeStore();
+			await store.createResume("Master", createMockResume());
+
+			const variant = await store.createVariant("Acme");
+			await store.updateVariant(variant.id, {
+				overrides: { label: "Backend Engineer" },
+			});
+			store.variants = [];
+			await store.loadVariants();
+
+			expect(store.variants.map((entry) => entry.name)).toEqual(["Acme"]);
+			expect(store.variants[0]?.overrides).toEqual({
+				label: "Backend Engineer",
+			});
+		});
+
+		it("should resolve variants against the current resume", async () => {
+			const store = useResumeStore();
+			await store.createResume("Master", createMockResume());
+			const variant = await store.createVariant("Acme", {
+				overrides: { label: "Backend Engineer" },
+			});
+
+			store.setResume({
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			});
+			const resolved = store.resolveVariant(variant);
+
+			expect(resolved?.basics.name).toBe("Jane Doe");
+			expect(resolved?.basics.label).toBe("Backend Engineer");
+		});
+
+		it("should delete variants with their resume", async () => {
+			const store = useResumeStore();
+			const summary = await store.createResume("Master", createMockResume());
+			await store.createVariant("Acme");
+
+			await store.deleteResume(summary.id);
+
+			expect(store.variants).toHaveLength(0);
+			expect(
+				localStorage.getItem(`cvix:resume-variants:${summary.id}`),
+			).toBeNull();
+		});
+
+		it("should load a variant of another resume without opening it", async () => {
+			const store = useResumeStore();
+			const master = await store.createResume("Master", createMockResume());
+			const variant = await store.createVariant("Acme", {
+				overrides: { label: "Backend Engineer" },
+			});
+			await store.createResume("Other", {
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			});
+
+			const resolved = await store.loadResolvedResume(master.id, variant.id);
+			const masterVariants = await store.listResumeVariants(master.id);
+
+			expect(resolved?.basics.name).toBe("John Doe");
+			expect(resolved?.basics.label).toBe("Backend Engineer");
+			expect(store.resume?.basics.name).toBe("Jane Doe");
+			expect(masterVariants.map((entry) => entry.name)).toEqual(["Acme"]);
+			expect(
+				(await store.loadResolvedResume(master.id, "missing"))?.basics.label,
+			).toBe(createMockResume().basics.label);
+		});
+
+		it("should reject variants without a resume", async () => {
+			const store = useResumeStore();
+
+			await expect(store.createVariant("Acme")).rejects.toThrow(
+				"No resume data available",
+			);
+		});
+	});
+
+	describe("offline sync", () => {
+		const createSyncableStorage = (
+			overrides: Partial<SyncableResumeStorage> = {},
+		) =>
+			({
+				type: () => "remote",
+				getActiveResumeId: () => "resume-1",
+				load: vi.fn(async () => ({
+					data: createMockResume(),
+					timestamp: "2024-01-02T00:00:00Z",
+					storageType: "remote",
+				})),
+				pendingChanges: vi.fn(async () => 1),
+				sync: vi.fn(async () => ({ synced: [], conflicts: [], pending: 0 })),
+				resolveConflict: vi.fn(),
+				...overrides,
+			}) as unknown as SyncableResumeStorage;
+
+		const createConflict = (): ResumeConflict => ({
+			resumeId: "resume-1",
+			base: null,
+			local: createMockResume(),
+			remote: {
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			},
+			remoteUpdatedAt: "2024-01-02T00:00:00Z",
+			sections: ["basics"],
+		});
+
+		it("should count pending changes of syncable storages only", async () => {
+			const store = useResumeStore();
+
+			await store.changeStorageStrategy(createSyncableStorage());
+			expect(store.pendingSyncCount).toBe(1);
+
+			await store.changeStorageStrategy({
+				type: () => "session",
+				getActiveResumeId: () => "default",
+			} as unknown as ResumeStorage);
+			expect(store.pendingSyncCount).toBe(0);
+			expect(await store.syncPendingChanges()).toBeNull();
+		});
+
+		it("should reload the active resume once its changes are synced", async () => {
+			const store = useResumeStore();
+			const storage = createSyncableStorage({
+				sync: vi.fn(async () => ({
+					synced: ["resume-1"],
+					conflicts: [],
+					pending: 0,
+				})),
+			});
+			await store.changeStorageStrategy(storage);
+
+			await store.syncPendingChanges();
+
+			expect(store.pendingSyncCount).toBe(0);
+			expect(storage.load).toHaveBeenCalled();
+			expect(store.resume).toEqual(createMockResume());
+		});
+
+		it("should keep conflicts until they are resolved", async () => {
+			const store = useResumeStore();
+			const conflict = createConflict();
+			const storage = createSyncableStorage({
+				sync: vi.fn(async () => ({
+					synced: [],
+					conflicts: [conflict],
+					pending: 1,
+				})),
+				resolveConflict: vi.fn(async () => ({
+					data: conflict.remote,
+					timestamp: "2024-01-03T00:00:00Z",
+					storageType: "remote" as const,
+				})),
+				pendingChanges: vi.fn(async () => 0),
+			});
+			await store.changeStorageStrategy(storage);
+			await store.syncPendingChanges();
+			expect(store.syncConflicts).toEqual([conflict]);
+
+			const merged = await store.resolveSyncConflict("resume-1", {
+				basics: "remote",
+			});
+
+			expect(storage.resolveConflict).toHaveBeenCalledWith(conflict, {
+				basics: "remote",
+			});
+			expect(merged.basics.name).toBe("Jane Doe");
+			expect(store.resume?.basics.name).toBe("Jane Doe");
+			expect(store.syncConflicts).toHaveLength(0);
+			expect(store.pendingSyncCount).toBe(0);
+		});
+
+		it("should reject resolving unknown conflicts", async () => {
+			const store = useResumeStore();
+			await store.changeStorageStrategy(createSyncableStorage());
+
+			await expect(store.resolveSyncConflict("missing", {})).rejects.toThrow(
+				"No sync conflict for resume: missing",
+			);
+		});
+	});
+	describe("import review", () => {
+		beforeEach(() => {
+			localStorage.clear();
+			sessionStorage.clear();
+		});
+
+		const draft = {
+			resume: {
+				...createMockResume(),
+				basics: { ...createMockResume().basics, name: "Jane Doe" },
+			},
+			confidence: { "basics.name": "medium" as const },
+			unassigned: ["Open to relocation"],
+		};
+
+		it("should show the draft without persisting it", () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+
+			store.startImportReview(draft, "resume.pdf");
+
+			expect(store.resume?.basics.name).toBe("Jane Doe");
+			expect(store.importReview).toMatchObject({
+				fileName: "resume.pdf",
+				confidence: draft.confidence,
+				unassigned: draft.unassigned,
+			});
+			expect(store.lastSavedAt).toBeNull();
+		});
+
+		it("should persist the resume once the import is accepted", async () => {
+			const store = useResumeStore();
+			store.startImportReview(draft, "resume.pdf");
+
+			await store.acceptImportReview();
+
+			expect(store.importReview).toBeNull();
+			expect(store.lastSavedAt).not.toBeNull();
+		});
+
+		it("should restore the replaced resume when the import is discarded", () => {
+			const store = useResumeStore();
+			store.setResume(createMockResume());
+			store.startImportReview(draft, "first.pdf");
+			store.startImportReview(draft, "second.docx");
+
+			const restored = store.discardImportReview();
+
+			expect(restored?.basics.name).toBe("John Doe");
+			expect(store.resume?.basics.name).toBe("John Doe");
+			expect(store.importReview).toBeNull();
+		});
+
+		it("should clear the resume when discarding an import into an empty editor", () => {
+			const store = useResumeStore();
+			store.startImportReview(draft, "resume.pdf");
+
+			expect(store.discardImportReview()).toBeNull();
+			expect(store.resume).toBeNull();
+		});
+	});
 });
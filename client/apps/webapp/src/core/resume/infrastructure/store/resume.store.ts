@@ -1,23 +1,80 @@
 import { defineStore } from "pinia";
-import { computed, getCurrentInstance, ref } from "vue";
+import { computed, getCurrentInstance, ref, toRaw } from "vue";
+import { ResumeHistoryService } from "@/core/resume/application/ResumeHistoryService.ts";
+import {
+	type ResumeVariantChanges,
+	ResumeVariantService,
+} from "@/core/resume/application/ResumeVariantService.ts";
 import type { Resume } from "@/core/resume/domain/Resume.ts";
+import type {
+	FieldConfidence,
+	ResumeDraft,
+} from "@/core/resume/domain/ResumeDraft.ts";
 import type { ResumeGenerator } from "@/core/resume/domain/ResumeGenerator.ts";
+import type { MergeResolutions } from "@/core/resume/domain/ResumeMerge.ts";
 import type {
-	ResumeStorage,
-	StorageType,
+	ResumeHistoryRepository,
+	ResumeSnapshot,
+	ResumeSnapshotSummary,
+	SnapshotReason,
+} from "@/core/resume/domain/ResumeSnapshot.ts";
+import {
+	DEFAULT_RESUME_ID,
+	type ResumeStorage,
+	type ResumeSummary,
+	type StorageType,
 } from "@/core/resume/domain/ResumeStorage.ts";
+import {
+	isSyncableStorage,
+	type ResumeConflict,
+	type SyncResult,
+} from "@/core/resume/domain/ResumeSync.ts";
 import type { ResumeValidator } from "@/core/resume/domain/ResumeValidator.ts";
+import type {
+	ItemOrder,
+	ResumeVariant,
+	ResumeVariantRepository,
+	VariantOverrides,
+} from "@/core/resume/domain/ResumeVariant.ts";
+import type { SectionVisibility } from "@/core/resume/domain/SectionVisibility.ts";
+import type { TemplateParamValues } from "@/core/resume/domain/TemplateParams.ts";
 import {
 	RESUME_GENERATOR_KEY,
+	RESUME_HISTORY_KEY,
 	RESUME_STORAGE_KEY,
 	RESUME_VALIDATOR_KEY,
+	RESUME_VARIANT_KEY,
 } from "@/core/resume/infrastructure/di";
 import { ResumeHttpClient } from "@/core/resume/infrastructure/http/ResumeHttpClient";
-import { createResumeStorage } from "@/core/resume/infrastructure/storage/factory";
+import {
+	createResumeHistoryRepository,
+	createResumeStorage,
+} from "@/core/resume/infrastructure/storage/factory";
+import { LocalStorageResumeVariantRepository } from "@/core/resume/infrastructure/storage/LocalStorageResumeVariantRepository";
+import { pdfTemplateUsageStorage } from "@/core/resume/infrastructure/storage/PdfTemplateUsageStorage";
+import { sectionVisibilityStorage } from "@/core/resume/infrastructure/storage/SectionVisibilityStorage";
+import { templatePresetStorage } from "@/core/resume/infrastructure/storage/TemplatePresetStorage";
 import { JsonResumeValidator } from "@/core/resume/infrastructure/validation";
 import { getUserStoragePreference } from "@/core/settings";
 import type { ProblemDetail } from "@/shared/BaseHttpClient.ts";
 
+/**
+ * A resume imported from a document, waiting for the user to review it
+ */
+export interface ImportReview {
+	/** Name of the imported file */
+	fileName: string;
+
+	/** Confidence of every imported field */
+	confidence: FieldConfidence;
+
+	/** Lines of the document that could not be assigned to any field */
+	unassigned: ReadonlyArray<string>;
+
+	/** The resume replaced by the draft, restored if the import is discarded */
+	previous: Resume | null;
+}
+
 /**
  * Gets the validator instance using Vue's provide/inject system.
  * Falls back to JsonResumeValidator if no validator is provided.
@@ -69,6 +126,36 @@ function getStorage(): ResumeStorage {
 	return createResumeStorage(preferredStorageType);
 }
 
+/**
+ * Gets the history repository provided through Vue's provide/inject system.
+ *
+ * @returns The provided repository, or null to derive it from the storage type
+ */
+function getProvidedHistoryRepository(): ResumeHistoryRepository | null {
+	const instance = getCurrentInstance();
+	if (instance?.appContext.provides[RESUME_HISTORY_KEY as symbol]) {
+		return instance.appContext.provides[
+			RESUME_HISTORY_KEY as symbol
+		] as ResumeHistoryRepository;
+	}
+	return null;
+}
+
+/**
+ * Gets the variant repository provided through Vue's provide/inject system.
+ *
+ * @returns The provided repository, or null to keep variants in localStorage
+ */
+function getProvidedVariantRepository(): ResumeVariantRepository | null {
+	const instance = getCurrentInstance();
+	if (instance?.appContext.provides[RESUME_VARIANT_KEY as symbol]) {
+		return instance.appContext.provides[
+			RESUME_VARIANT_KEY as symbol
+		] as ResumeVariantRepository;
+	}
+	return null;
+}
+
 /**
  * Resume store for managing resume state, validation, and persistence.
  *
@@ -95,6 +182,14 @@ export const useResumeStore = defineStore("resume", () => {
 	const validator = getValidator();
 	const generator = getGenerator();
 	const initialStorage = getStorage();
+	const providedHistoryRepository = getProvidedHistoryRepository();
+	const history = new ResumeHistoryService(
+		providedHistoryRepository ??
+			createResumeHistoryRepository(initialStorage.type()),
+	);
+	const variantService = new ResumeVariantService(
+		getProvidedVariantRepository() ?? new LocalStorageResumeVariantRepository(),
+	);
 
 	// State - make storage mutable to allow strategy switching
 	const currentStorage = ref<ResumeStorage>(initialStorage);
@@ -107,9 +202,31 @@ export const useResumeStore = defineStore("resume", () => {
 	const currentStorageType = ref<StorageType>(initialStorage.type());
 	const lastSavedAt = ref<string | null>(null);
 
+	// Resume library
+	const resumes = ref<ResumeSummary[]>([]);
+	const activeResumeId = ref<string | null>(initialStorage.getActiveResumeId());
+	const isLoadingLibrary = ref(false);
+
+	// Version history of the active resume
+	const snapshots = ref<ResumeSnapshotSummary[]>([]);
+	const isLoadingHistory = ref(false);
+
+	// Tailored variants of the active resume
+	const variants = ref<ResumeVariant[]>([]);
+
+	// Offline sync (remote storage only)
+	const pendingSyncCount = ref(0);
+	const syncConflicts = ref<ResumeConflict[]>([]);
+	const isSyncing = ref(false);
+
+	// Document import waiting for review
+	const importReview = ref<ImportReview | null>(null);
+
 	// Navigation context for preview-to-form
 	const activeSection = ref<string | null>(null);
 	const highlightedEntry = ref<number | null>(null);
+	// Path of the field to focus, e.g. `work[1].highlights`
+	const highlightedField = ref<string | null>(null);
 
 	function setActiveSection(section: string | null) {
 		activeSection.value = section;
@@ -119,6 +236,10 @@ export const useResumeStore = defineStore("resume", () => {
 		highlightedEntry.value = index;
 	}
 
+	function setHighlightedField(path: string | null) {
+		highlightedField.value = path;
+	}
+
 	// Computed properties
 	/**
 	 * Indicates whether the current resume is valid according to JSON Resume Schema.
@@ -189,12 +310,14 @@ export const useResumeStore = defineStore("resume", () => {
 	 *
 	 * @param templateId - The ID of the template to use for PDF generation
 	 * @param locale - Optional locale to use for generation (e.g., "en", "es")
+	 * @param params - Optional template parameters (color, font, spacing, density…)
 	 * @returns The generated PDF as a `Blob`
 	 * @throws Error if no resume is available to generate
 	 */
 	async function generatePdf(
 		templateId: string,
 		locale?: string,
+		params?: TemplateParamValues,
 	): Promise<Blob> {
 		if (!resume.value) {
 			throw new Error("No resume data available to generate PDF");
@@ -208,6 +331,7 @@ export const useResumeStore = defineStore("resume", () => {
 				templateId,
 				resume.value,
 				locale,
+				params,
 			);
 
 			setGenerating(false);
@@ -225,7 +349,7 @@ export const useResumeStore = defineStore("resume", () => {
 	}
 
 	/**
-	 * Save the current resume to the configured storage.
+	 * Save the current resume to the configured storage and record an automatic snapshot.
 	 *
 	 * @throws Error if no resume is available to save.
 	 * @throws Error if the storage operation fails.
@@ -243,6 +367,11 @@ export const useResumeStore = defineStore("resume", () => {
 
 			// Track the timestamp from the persistence result
 			lastSavedAt.value = result.timestamp;
+			// Remote storage assigns the ID of a new resume on its first save
+			activeResumeId.value = currentStorage.value.getActiveResumeId();
+			if (result.metadata?.pendingSync) {
+				await refreshPendingSyncCount();
+			}
 
 			isSaving.value = false;
 		} catch (error) {
@@ -251,6 +380,358 @@ export const useResumeStore = defineStore("resume", () => {
 				error instanceof Error ? error : new Error("Unknown storage error");
 			throw error;
 		}
+
+		await captureSnapshot("save");
+	}
+
+	/**
+	 * Record a snapshot of the current resume.
+	 *
+	 * @param reason - Why the snapshot is taken
+	 * @param label - Optional name, used for checkpoints
+	 * @returns The recorded snapshot, or null if there is nothing new to record
+	 * @throws Error if the history repository fails
+	 */
+	async function recordSnapshot(
+		reason: SnapshotReason,
+		label?: string,
+	): Promise<ResumeSnapshotSummary | null> {
+		const resumeId = activeResumeId.value;
+		if (!resume.value || !resumeId) {
+			return null;
+		}
+		const snapshot = await history.record(
+			resumeId,
+			resume.value,
+			reason,
+			label,
+		);
+		if (snapshot) {
+			snapshots.value = [
+				snapshot,
+				...snapshots.value.filter((entry) => entry.resumeId === resumeId),
+			];
+		}
+		return snapshot;
+	}
+
+	/**
+	 * Record an automatic snapshot of the current resume.
+	 * History is a safety net, so failures are logged instead of interrupting the caller.
+	 *
+	 * @param reason - Why the snapshot is taken
+	 */
+	async function captureSnapshot(reason: SnapshotReason): Promise<void> {
+		try {
+			await recordSnapshot(reason);
+		} catch (error) {
+			console.warn("[resume.store] Failed to record snapshot:", error);
+		}
+	}
+
+	/**
+	 * Create a named checkpoint of the current resume.
+	 *
+	 * @param label - The checkpoint name
+	 * @returns The recorded checkpoint
+	 * @throws Error if no resume is available or the history repository fails
+	 */
+	async function createCheckpoint(
+		label: string,
+	): Promise<ResumeSnapshotSummary> {
+		if (!resume.value) {
+			throw new Error("No resume data available to snapshot");
+		}
+		const snapshot = await recordSnapshot("checkpoint", label);
+		if (!snapshot) {
+			throw new Error("Save the resume before creating a checkpoint");
+		}
+		return snapshot;
+	}
+
+	/**
+	 * Load the snapshot list of the active resume.
+	 *
+	 * @throws The original error thrown by the history repository.
+	 */
+	async function loadHistory(): Promise<void> {
+		const resumeId = activeResumeId.value;
+		if (!resumeId) {
+			snapshots.value = [];
+			return;
+		}
+		try {
+			isLoadingHistory.value = true;
+			snapshots.value = await history.list(resumeId);
+		} finally {
+			isLoadingHistory.value = false;
+		}
+	}
+
+	/**
+	 * Retrieve a snapshot of the active resume with its content.
+	 *
+	 * @param snapshotId - The snapshot ID
+	 * @returns The snapshot, or null if not found
+	 */
+	async function getSnapshot(
+		snapshotId: string,
+	): Promise<ResumeSnapshot | null> {
+		const resumeId = activeResumeId.value;
+		if (!resumeId) return null;
+		return await history.get(resumeId, snapshotId);
+	}
+
+	/**
+	 * Replace the current resume with the content of a snapshot and persist it.
+	 * The replaced content is kept as a `restore` snapshot so the restore can be undone.
+	 *
+	 * @param snapshotId - The snapshot ID
+	 * @returns The restored resume
+	 * @throws Error if the snapshot does not exist or saving fails
+	 */
+	async function restoreSnapshot(snapshotId: string): Promise<Resume> {
+		const snapshot = await getSnapshot(snapshotId);
+		if (!snapshot) {
+			throw new Error(`Snapshot not found: ${snapshotId}`);
+		}
+		await captureSnapshot("restore");
+		setResume(snapshot.resume);
+		await saveToStorage();
+		return snapshot.resume;
+	}
+
+	/**
+	 * Delete a snapshot of the active resume.
+	 *
+	 * @param snapshotId - The snapshot ID
+	 */
+	async function deleteSnapshot(snapshotId: string): Promise<void> {
+		const resumeId = activeResumeId.value;
+		if (!resumeId) return;
+		await history.remove(resumeId, snapshotId);
+		snapshots.value = snapshots.value.filter(
+			(snapshot) => snapshot.id !== snapshotId,
+		);
+	}
+
+	/**
+	 * Load the tailored variants of the active resume.
+	 */
+	async function loadVariants(): Promise<void> {
+		variants.value = await variantService.list(
+			activeResumeId.value ?? DEFAULT_RESUME_ID,
+		);
+	}
+
+	/**
+	 * Derive a tailored variant from the active resume.
+	 *
+	 * @param name - The variant name
+	 * @param initial - Visibility, item order and overrides to start from
+	 * @returns The created variant
+	 * @throws Error if no resume is loaded, the name is empty or saving fails
+	 */
+	async function createVariant(
+		name: string,
+		initial: {
+			visibility?: SectionVisibility;
+			order?: ItemOrder;
+			overrides?: VariantOverrides;
+		} = {},
+	): Promise<ResumeVariant> {
+		if (!resume.value) {
+			throw new Error("No resume data available");
+		}
+		const variant = await variantService.create(
+			activeResumeId.value ?? DEFAULT_RESUME_ID,
+			resume.value,
+			name,
+			initial,
+		);
+		variants.value = [...variants.value, variant];
+		return variant;
+	}
+
+	/**
+	 * Change a variant of the active resume.
+	 *
+	 * @param variantId - The variant ID
+	 * @param changes - The fields to replace
+	 * @returns The updated variant
+	 * @throws Error if no resume is loaded or saving fails
+	 */
+	async function updateVariant(
+		variantId: string,
+		changes: ResumeVariantChanges,
+	): Promise<ResumeVariant> {
+		if (!resume.value) {
+			throw new Error("No resume data available");
+		}
+		const variant = await variantService.update(
+			activeResumeId.value ?? DEFAULT_RESUME_ID,
+			resume.value,
+			variantId,
+			changes,
+		);
+		variants.value = variants.value.map((existing) =>
+			existing.id === variantId ? variant : existing,
+		);
+		return variant;
+	}
+
+	/**
+	 * Delete a variant of the active resume.
+	 *
+	 * @param variantId - The variant ID
+	 */
+	async function deleteVariant(variantId: string): Promise<void> {
+		await variantService.remove(
+			activeResumeId.value ?? DEFAULT_RESUME_ID,
+			variantId,
+		);
+		sectionVisibilityStorage.remove(variantId);
+		variants.value = variants.value.filter(
+			(variant) => variant.id !== variantId,
+		);
+	}
+
+	/**
+	 * Build the visibility of a variant for the current resume items.
+	 *
+	 * @param variant - The variant
+	 * @returns The visibility, or null if no resume is loaded
+	 */
+	function variantVisibility(variant: ResumeVariant): SectionVisibility | null {
+		if (!resume.value) return null;
+		return variantService.visibility(resume.value, variant);
+	}
+
+	/**
+	 * Build the resume a variant stands for from the current resume content.
+	 *
+	 * @param variant - The variant to resolve
+	 * @param visibility - Visibility to apply instead of the variant's own (e.g. unsaved toggles)
+	 * @returns The tailored resume, or null if no resume is loaded
+	 */
+	function resolveVariant(
+		variant: ResumeVariant,
+		visibility?: SectionVisibility,
+	): Resume | null {
+		if (!resume.value) return null;
+		return variantService.resolve(resume.value, variant, visibility);
+	}
+
+	/**
+	 * List the variants of any resume of the library.
+	 *
+	 * @param resumeId - The base resume ID
+	 * @returns The variants, in creation order
+	 */
+	async function listResumeVariants(
+		resumeId: string,
+	): Promise<ResumeVariant[]> {
+		return variantService.list(resumeId);
+	}
+
+	/**
+	 * Load a resume of the library, tailored by one of its variants if given,
+	 * without changing the active resume.
+	 *
+	 * @param resumeId - The resume ID
+	 * @param variantId - The variant ID, or null for the base resume
+	 * @returns The resume, or null if it does not exist; a missing variant falls back to the base resume
+	 */
+	async function loadResolvedResume(
+		resumeId: string,
+		variantId: string | null = null,
+	): Promise<Resume | null> {
+		const base =
+			resumeId === activeResumeId.value && resume.value
+				? resume.value
+				: (
+						await withLibraryError(() =>
+							currentStorage.value.loadById(resumeId),
+						)
+					).data;
+		if (!base || !variantId) return base;
+		const variant = await variantService.get(resumeId, variantId);
+		return variant ? variantService.resolve(base, variant) : base;
+	}
+
+	/**
+	 * Refresh the number of changes waiting to reach the server.
+	 */
+	async function refreshPendingSyncCount(): Promise<void> {
+		const storage = currentStorage.value;
+		try {
+			pendingSyncCount.value = isSyncableStorage(storage)
+				? await storage.pendingChanges()
+				: 0;
+		} catch (error) {
+			console.warn("[resume.store] Failed to count pending changes:", error);
+		}
+	}
+
+	/**
+	 * Send changes queued while offline to the server.
+	 * Conflicting changes are kept in `syncConflicts` until resolved; the active
+	 * resume is reloaded when its changes were merged with server changes.
+	 *
+	 * @returns The sync outcome, or null when the storage does not sync
+	 * @throws The original error thrown by the storage backend if sync fails.
+	 */
+	async function syncPendingChanges(): Promise<SyncResult | null> {
+		const storage = currentStorage.value;
+		if (!isSyncableStorage(storage) || isSyncing.value) {
+			return null;
+		}
+		try {
+			isSyncing.value = true;
+			const result = await storage.sync();
+			pendingSyncCount.value = result.pending;
+			syncConflicts.value = result.conflicts;
+			if (
+				activeResumeId.value &&
+				result.synced.includes(activeResumeId.value)
+			) {
+				await loadFromStorage();
+			}
+			return result;
+		} finally {
+			isSyncing.value = false;
+		}
+	}
+
+	/**
+	 * Resolve a sync conflict with the winner picked for each conflicting section.
+	 *
+	 * @param resumeId - The resume in conflict
+	 * @param resolutions - Winner for each conflicting section
+	 * @returns The merged resume
+	 * @throws Error if there is no such conflict or saving the merge fails
+	 */
+	async function resolveSyncConflict(
+		resumeId: string,
+		resolutions: MergeResolutions,
+	): Promise<Resume> {
+		const storage = currentStorage.value;
+		const conflict = syncConflicts.value.find(
+			(entry) => entry.resumeId === resumeId,
+		);
+		if (!conflict || !isSyncableStorage(storage)) {
+			throw new Error(`No sync conflict for resume: ${resumeId}`);
+		}
+		const result = await storage.resolveConflict(conflict, resolutions);
+		syncConflicts.value = syncConflicts.value.filter(
+			(entry) => entry.resumeId !== resumeId,
+		);
+		if (resumeId === activeResumeId.value) {
+			resume.value = result.data;
+			lastSavedAt.value = result.timestamp;
+		}
+		await refreshPendingSyncCount();
+		return result.data;
 	}
 
 	/**
@@ -264,6 +745,7 @@ export const useResumeStore = defineStore("resume", () => {
 			storageError.value = null;
 
 			const result = await currentStorage.value.load();
+			activeResumeId.value = currentStorage.value.getActiveResumeId();
 
 			if (result.data) {
 				resume.value = result.data;
@@ -318,6 +800,14 @@ export const useResumeStore = defineStore("resume", () => {
 			// Update the storage reference to use the new strategy
 			currentStorage.value = newStorage;
 			currentStorageType.value = newStorage.type();
+			activeResumeId.value = newStorage.getActiveResumeId();
+			resumes.value = [];
+			snapshots.value = [];
+			syncConflicts.value = [];
+			await refreshPendingSyncCount();
+			if (!providedHistoryRepository) {
+				history.setRepository(createResumeHistoryRepository(newStorage.type()));
+			}
 		} catch (error) {
 			storageError.value =
 				error instanceof Error ? error : new Error("Failed to change storage");
@@ -325,6 +815,140 @@ export const useResumeStore = defineStore("resume", () => {
 		}
 	}
 
+	/**
+	 * Runs a library operation, recording any failure in `storageError`.
+	 */
+	async function withLibraryError<T>(operation: () => Promise<T>): Promise<T> {
+		try {
+			storageError.value = null;
+			return await operation();
+		} catch (error) {
+			storageError.value =
+				error instanceof Error ? error : new Error("Unknown storage error");
+			throw error;
+		}
+	}
+
+	/**
+	 * Refresh the list of resumes held by the current storage.
+	 *
+	 * @throws The original error thrown by the storage backend if listing fails.
+	 */
+	async function loadLibrary(): Promise<void> {
+		try {
+			isLoadingLibrary.value = true;
+			resumes.value = await withLibraryError(() => currentStorage.value.list());
+			activeResumeId.value = currentStorage.value.getActiveResumeId();
+		} finally {
+			isLoadingLibrary.value = false;
+		}
+	}
+
+	/**
+	 * Create a new resume in the library and make it the active resume.
+	 *
+	 * @param title - The title of the new resume
+	 * @param content - The initial resume content
+	 * @returns The summary of the created resume
+	 */
+	async function createResume(
+		title: string,
+		content: Resume,
+	): Promise<ResumeSummary> {
+		const summary = await withLibraryError(() =>
+			currentStorage.value.create(content, title),
+		);
+		await loadLibrary();
+		await openResume(summary.id);
+		return summary;
+	}
+
+	/**
+	 * Make the given resume the active one and load it into the store.
+	 *
+	 * @param id - The ID of the resume to open
+	 * @throws The original error thrown by the storage backend if loading fails.
+	 */
+	async function openResume(id: string): Promise<void> {
+		try {
+			isLoading.value = true;
+			const result = await withLibraryError(() =>
+				currentStorage.value.loadById(id),
+			);
+			currentStorage.value.setActiveResumeId(id);
+			activeResumeId.value = id;
+			snapshots.value = [];
+			variants.value = [];
+			resume.value = result.data;
+			lastSavedAt.value = result.data ? result.timestamp : null;
+		} finally {
+			isLoading.value = false;
+		}
+	}
+
+	/**
+	 * Copy a resume into a new library entry.
+	 *
+	 * @param id - The ID of the resume to copy
+	 * @param title - The title of the copy
+	 * @returns The summary of the copy
+	 */
+	async function duplicateResume(
+		id: string,
+		title: string,
+	): Promise<ResumeSummary> {
+		const summary = await withLibraryError(() =>
+			currentStorage.value.duplicate(id, title),
+		);
+		await loadLibrary();
+		return summary;
+	}
+
+	/**
+	 * Change the title of a resume in the library.
+	 *
+	 * @param id - The ID of the resume to rename
+	 * @param title - The new title
+	 */
+	async function renameResume(id: string, title: string): Promise<void> {
+		await withLibraryError(() => currentStorage.value.rename(id, title));
+		await loadLibrary();
+	}
+
+	/**
+	 * Delete a resume with its section visibility preferences, styling presets,
+	 * PDF template usage, history and variants.
+	 * Deleting the active resume also clears the in-memory resume.
+	 *
+	 * @param id - The ID of the resume to delete
+	 */
+	async function deleteResume(id: string): Promise<void> {
+		const wasActive = id === activeResumeId.value;
+		await withLibraryError(() => currentStorage.value.delete(id));
+		sectionVisibilityStorage.remove(id);
+		templatePresetStorage.removeAll(id);
+		pdfTemplateUsageStorage.remove(id);
+		try {
+			await history.removeAll(id);
+		} catch (error) {
+			console.warn("[resume.store] Failed to remove resume history:", error);
+		}
+		try {
+			for (const variant of await variantService.list(id)) {
+				await variantService.remove(id, variant.id);
+				sectionVisibilityStorage.remove(variant.id);
+			}
+		} catch (error) {
+			console.warn("[resume.store] Failed to remove resume variants:", error);
+		}
+		if (wasActive) {
+			clearResume();
+			lastSavedAt.value = null;
+			variants.value = [];
+		}
+		await loadLibrary();
+	}
+
 	/**
 	 * Import a resume from an external source and set it as the current resume.
 	 * This is a convenience method that wraps setResume for semantic clarity when importing data.
@@ -341,6 +965,49 @@ export const useResumeStore = defineStore("resume", () => {
 		setResume(importedResume);
 	}
 
+	/**
+	 * Show a resume recovered from a document for review, without persisting it.
+	 * The current resume is kept so the import can be discarded.
+	 *
+	 * @param draft - The draft produced by the document importer
+	 * @param fileName - Name of the imported file
+	 */
+	function startImportReview(draft: ResumeDraft, fileName: string): void {
+		importReview.value = {
+			fileName,
+			confidence: draft.confidence,
+			unassigned: draft.unassigned,
+			previous:
+				importReview.value?.previous ??
+				(resume.value ? structuredClone(toRaw(resume.value)) : null),
+		};
+		setResume(draft.resume);
+	}
+
+	/**
+	 * Accept the reviewed import and persist the current resume.
+	 */
+	async function acceptImportReview(): Promise<void> {
+		importReview.value = null;
+		await saveToStorage();
+	}
+
+	/**
+	 * Discard the reviewed import and bring back the resume it replaced.
+	 *
+	 * @returns The restored resume, or null if there was none
+	 */
+	function discardImportReview(): Resume | null {
+		const previous = importReview.value?.previous ?? null;
+		importReview.value = null;
+		if (previous) {
+			setResume(previous);
+		} else {
+			clearResume();
+		}
+		return previous;
+	}
+
 	/**
 	 * Export the current resume for external use.
 	 * This returns a deep snapshot copy of the resume, not the live reactive object.
@@ -356,6 +1023,15 @@ export const useResumeStore = defineStore("resume", () => {
 		return structuredClone(resume.value);
 	}
 
+	// Replay offline changes as soon as connectivity returns
+	if (typeof window !== "undefined") {
+		window.addEventListener("online", () => {
+			syncPendingChanges().catch((error) => {
+				console.warn("[resume.store] Failed to sync pending changes:", error);
+			});
+		});
+	}
+
 	return {
 		// State
 		resume,
@@ -368,6 +1044,17 @@ export const useResumeStore = defineStore("resume", () => {
 		lastSavedAt,
 		activeSection,
 		highlightedEntry,
+		highlightedField,
+		resumes,
+		activeResumeId,
+		isLoadingLibrary,
+		snapshots,
+		isLoadingHistory,
+		variants,
+		pendingSyncCount,
+		syncConflicts,
+		isSyncing,
+		importReview,
 
 		// Computed
 		isValid,
@@ -388,5 +1075,33 @@ export const useResumeStore = defineStore("resume", () => {
 		exportResume,
 		setActiveSection,
 		setHighlightedEntry,
+		setHighlightedField,
+		loadLibrary,
+		createResume,
+		openResume,
+		duplicateResume,
+		renameResume,
+		deleteResume,
+		recordSnapshot,
+		captureSnapshot,
+		createCheckpoint,
+		loadHistory,
+		getSnapshot,
+		restoreSnapshot,
+		deleteSnapshot,
+		loadVariants,
+		createVariant,
+		updateVariant,
+		deleteVariant,
+		variantVisibility,
+		resolveVariant,
+		listResumeVariants,
+		loadResolvedResume,
+		refreshPendingSyncCount,
+		syncPendingChanges,
+		resolveSyncConflict,
+		startImportReview,
+		acceptImportReview,
+		discardImportReview,
 	};
 });
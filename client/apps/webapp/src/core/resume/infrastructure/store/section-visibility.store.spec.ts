@@ -326,6 +326,23 @@ describe("useSectionVisibilityStore", () => {
 		});
 	});
 
+	describe("applySuggestions", () => {
+		it("should show and hide the suggested items", () => {
+			const store = useSectionVisibilityStore();
+			const resume = createTestResume();
+			store.initialize(resume, "test-resume-id");
+
+			store.applySuggestions([
+				{ section: "work", index: 0, action: "hide", keywords: [] },
+				{ section: "skills", index: 1, action: "emphasize", keywords: ["Vue"] },
+			]);
+
+			expect(store.visibility?.work.items[0]).toBe(false);
+			expect(store.visibility?.work.enabled).toBe(true);
+			expect(store.visibility?.skills.items[1]).toBe(true);
+		});
+	});
+
 	describe("togglePersonalDetailsField", () => {
 		it("should toggle simple boolean fields", () => {
 			const store = useSectionVisibilityStore();
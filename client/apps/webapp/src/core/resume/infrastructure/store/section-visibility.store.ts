@@ -2,7 +2,12 @@ import { useDebounceFn } from "@vueuse/core";
 import { defineStore } from "pinia";
 import { computed, ref, watch } from "vue";
 import { ResumeSectionFilterService } from "@/core/resume/application/ResumeSectionFilterService";
+import {
+	applyVisibilitySuggestions,
+	type VisibilitySuggestion,
+} from "@/core/resume/domain/JobMatch";
 import type { Resume } from "@/core/resume/domain/Resume";
+import { DEFAULT_RESUME_ID } from "@/core/resume/domain/ResumeStorage";
 import type {
 	ArraySectionType,
 	ArraySectionVisibility,
@@ -17,12 +22,6 @@ import {
 } from "@/core/resume/domain/SectionVisibility";
 import { sectionVisibilityStorage } from "@/core/resume/infrastructure/storage/SectionVisibilityStorage";
 
-/**
- * Default resume ID for single-resume mode.
- * This ensures localStorage persistence works across page reloads.
- */
-const DEFAULT_RESUME_ID = "default";
-
 // Lazy-initialized filter service to improve testability (can be mocked by tests)
 let resumeSectionFilterService: ResumeSectionFilterService | null = null;
 function getFilterService(): ResumeSectionFilterService {
@@ -149,8 +148,13 @@ export const useSectionVisibilityStore = defineStore(
 		/**
 		 * Initializes the store with a resume and loads saved preferences if available.
 		 * Uses a stable default ID for single-resume mode to ensure localStorage persistence works.
+		 * An `initialVisibility` (such as the selection stored in a variant) replaces the saved preferences.
 		 */
-		function initialize(newResume: Resume, newResumeId?: string) {
+		function initialize(
+			newResume: Resume,
+			newResumeId?: string,
+			initialVisibility?: SectionVisibility,
+		) {
 			isLoading.value = true;
 			error.value = null;
 
@@ -160,8 +164,10 @@ export const useSectionVisibilityStore = defineStore(
 				const id = newResumeId || DEFAULT_RESUME_ID;
 				resumeId.value = id;
 
-				// Try to load saved preferences
-				const saved = sectionVisibilityStorage.load(id);
+				// Explicit visibility (e.g. from a variant) wins over saved preferences
+				const saved: SectionVisibility | null = initialVisibility
+					? JSON.parse(JSON.stringify(initialVisibility))
+					: sectionVisibilityStorage.load(id);
 				if (saved) {
 					syncVisibilityWithResume(saved, newResume);
 					visibility.value = saved;
@@ -265,6 +271,19 @@ export const useSectionVisibilityStore = defineStore(
 			}
 		}
 
+		/**
+		 * Shows and hides items as suggested by a job description match.
+		 */
+		function applySuggestions(
+			suggestions: ReadonlyArray<VisibilitySuggestion>,
+		) {
+			if (!visibility.value) return;
+			visibility.value = applyVisibilitySuggestions(
+				visibility.value,
+				suggestions,
+			);
+		}
+
 		/**
 		 * Toggles a Personal Details field visibility.
 		 */
@@ -402,6 +421,7 @@ export const useSectionVisibilityStore = defineStore(
 			toggleSectionExpanded,
 			isSectionExpanded,
 			toggleItem,
+			applySuggestions,
 			togglePersonalDetailsField,
 			reset,
 		};
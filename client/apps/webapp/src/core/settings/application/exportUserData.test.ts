@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalStorageResumeStorage } from "@/core/resume/infrastructure/storage";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { DEFAULT_USER_SETTINGS } from "../domain";
+import { exportUserData } from "./exportUserData";
+
+describe("exportUserData", () => {
+	let storage: LocalStorageResumeStorage;
+
+	beforeEach(() => {
+		localStorage.clear();
+		storage = new LocalStorageResumeStorage();
+	});
+
+	it("should export the settings and every resume of the storage", async () => {
+		const resume = createTestResume();
+		const summary = await storage.create(resume, "Backend");
+		const now = new Date("2024-05-01T10:00:00.000Z");
+
+		const exported = await exportUserData(DEFAULT_USER_SETTINGS, storage, now);
+
+		expect(exported).toEqual({
+			version: 1,
+			exportedAt: "2024-05-01T10:00:00.000Z",
+			storage: "local",
+			settings: DEFAULT_USER_SETTINGS,
+			resumes: [{ summary, resume }],
+		});
+	});
+
+	it("should report resumes that cannot be read", async () => {
+		await storage.create(createTestResume(), "Backend");
+		vi.spyOn(storage, "loadById").mockRejectedValue(new Error("Quota"));
+
+		await expect(
+			exportUserData(DEFAULT_USER_SETTINGS, storage),
+		).rejects.toThrow("Failed to export user data: Quota");
+	});
+});
@@ -0,0 +1,56 @@
+import type { Resume } from "@/core/resume/domain/Resume";
+import type {
+	ResumeStorage,
+	ResumeSummary,
+} from "@/core/resume/domain/ResumeStorage.ts";
+import type { UserSettings } from "../domain";
+
+/**
+ * Everything the user keeps in the application, as downloaded from the
+ * privacy settings.
+ */
+export interface UserDataExport {
+	/** Version of the export format */
+	version: 1;
+	/** When the export was made, as an ISO-8601 string */
+	exportedAt: string;
+	/** Type of the storage the resumes were read from */
+	storage: string;
+	settings: UserSettings;
+	resumes: Array<{ summary: ResumeSummary; resume: Resume }>;
+}
+
+/**
+ * Collect the user's settings and every resume held by a storage into a
+ * single export document.
+ *
+ * @param settings - The current user settings
+ * @param storage - The storage holding the user's resumes
+ * @param now - The time of the export
+ * @returns The export document
+ * @throws Error if a resume cannot be read
+ */
+export async function exportUserData(
+	settings: UserSettings,
+	storage: ResumeStorage,
+	now: Date = new Date(),
+): Promise<UserDataExport> {
+	try {
+		const resumes: UserDataExport["resumes"] = [];
+		for (const summary of await storage.list()) {
+			const result = await storage.loadById(summary.id);
+			if (result.data) resumes.push({ summary, resume: result.data });
+		}
+
+		return {
+			version: 1,
+			exportedAt: now.toISOString(),
+			storage: storage.type(),
+			settings,
+			resumes,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Failed to export user data: ${message}`);
+	}
+}
@@ -5,4 +5,6 @@
  * including use cases and application services.
  */
 
+export { exportUserData, type UserDataExport } from "./exportUserData";
+export { addCustomWord, removeCustomWord } from "./updateCustomDictionary";
 export { updateStoragePreference } from "./updateStoragePreference";
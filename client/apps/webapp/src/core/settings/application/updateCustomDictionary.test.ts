@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_USER_SETTINGS, type UserSettings } from "../domain";
+import { addCustomWord, removeCustomWord } from "./updateCustomDictionary";
+
+describe("updateCustomDictionary", () => {
+	const settings: UserSettings = {
+		...DEFAULT_USER_SETTINGS,
+		customDictionary: { en: ["Kubernetes"] },
+	};
+
+	describe("addCustomWord", () => {
+		it("should add the word to the dictionary of the language, sorted", () => {
+			const updated = addCustomWord(settings, "en", "  Grafana ");
+
+			expect(updated.customDictionary).toEqual({
+				en: ["Grafana", "Kubernetes"],
+			});
+			expect(settings.customDictionary).toEqual({ en: ["Kubernetes"] });
+		});
+
+		it("should keep one dictionary per language", () => {
+			const updated = addCustomWord(settings, "es", "Kubernetes");
+
+			expect(updated.customDictionary).toEqual({
+				en: ["Kubernetes"],
+				es: ["Kubernetes"],
+			});
+		});
+
+		it("should ignore words already in the dictionary", () => {
+			expect(addCustomWord(settings, "en", "kubernetes")).toBe(settings);
+		});
+
+		it("should reject empty words", () => {
+			expect(() => addCustomWord(settings, "en", "  ")).toThrow(
+				"Invalid dictionary word: empty",
+			);
+		});
+	});
+
+	describe("removeCustomWord", () => {
+		it("should remove the word regardless of case", () => {
+			const updated = removeCustomWord(settings, "en", "KUBERNETES");
+
+			expect(updated.customDictionary).toEqual({ en: [] });
+		});
+	});
+});
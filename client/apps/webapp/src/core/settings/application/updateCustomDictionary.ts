@@ -0,0 +1,68 @@
+import type { UserSettings } from "../domain";
+
+/**
+ * Normalizes a word for the custom dictionary: trimmed, with single spaces.
+ */
+function normalizeWord(word: string): string {
+	return word.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Add a word to the user's custom dictionary for a language.
+ *
+ * Words are compared case-insensitively, so adding a word twice keeps the first spelling.
+ *
+ * @param currentSettings - The existing user settings to base the update on
+ * @param language - Language code of the dictionary (e.g. 'en')
+ * @param word - The word the spell checker should accept
+ * @returns The updated UserSettings including the word
+ * @throws Error if `word` is empty
+ */
+export function addCustomWord(
+	currentSettings: UserSettings,
+	language: string,
+	word: string,
+): UserSettings {
+	const normalized = normalizeWord(word);
+	if (!normalized) {
+		throw new Error("Invalid dictionary word: empty");
+	}
+
+	const words = currentSettings.customDictionary?.[language] ?? [];
+	if (words.some((known) => known.toLowerCase() === normalized.toLowerCase())) {
+		return currentSettings;
+	}
+
+	return {
+		...currentSettings,
+		customDictionary: {
+			...currentSettings.customDictionary,
+			[language]: [...words, normalized].sort((a, b) => a.localeCompare(b)),
+		},
+	};
+}
+
+/**
+ * Remove a word from the user's custom dictionary for a language.
+ *
+ * @param currentSettings - The existing user settings to base the update on
+ * @param language - Language code of the dictionary (e.g. 'en')
+ * @param word - The word to remove, compared case-insensitively
+ * @returns The updated UserSettings without the word
+ */
+export function removeCustomWord(
+	currentSettings: UserSettings,
+	language: string,
+	word: string,
+): UserSettings {
+	const normalized = normalizeWord(word).toLowerCase();
+	const words = currentSettings.customDictionary?.[language] ?? [];
+
+	return {
+		...currentSettings,
+		customDictionary: {
+			...currentSettings.customDictionary,
+			[language]: words.filter((known) => known.toLowerCase() !== normalized),
+		},
+	};
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { formatDate } from "./DateFormat";
+
+describe("formatDate", () => {
+	const date = new Date(2024, 4, 1, 10, 0);
+
+	it("should format dates with the fixed patterns", () => {
+		expect(formatDate(date, "year-month-day", "en")).toBe("2024-05-01");
+		expect(formatDate(date, "day-month-year", "en")).toBe("01/05/2024");
+		expect(formatDate(date, "month-day-year", "en")).toBe("05/01/2024");
+	});
+
+	it("should follow the language conventions with the locale format", () => {
+		expect(formatDate(date, "locale", "es")).toBe(
+			date.toLocaleDateString("es"),
+		);
+	});
+
+	it("should accept ISO strings and leave invalid dates unchanged", () => {
+		expect(formatDate(date.toISOString(), "year-month-day", "en")).toBe(
+			"2024-05-01",
+		);
+		expect(formatDate("not a date", "year-month-day", "en")).toBe("not a date");
+	});
+});
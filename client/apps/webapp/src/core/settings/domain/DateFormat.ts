@@ -0,0 +1,42 @@
+import type { DateFormatPreference } from "./UserSettings";
+
+function pad(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+/**
+ * Formats a date following the user's date format preference.
+ *
+ * @param value - The date, or an ISO-8601 string
+ * @param format - The user's date format preference
+ * @param locale - Language code used by the "locale" format (e.g. 'en')
+ * @returns The formatted date, or the input unchanged if it is not a valid date
+ *
+ * @example
+ * ```typescript
+ * formatDate("2024-05-01T10:00:00.000Z", "day-month-year", "en"); // '01/05/2024'
+ * ```
+ */
+export function formatDate(
+	value: Date | string,
+	format: DateFormatPreference,
+	locale: string,
+): string {
+	const date = value instanceof Date ? value : new Date(value);
+	if (Number.isNaN(date.getTime())) return String(value);
+
+	const year = String(date.getFullYear());
+	const month = pad(date.getMonth() + 1);
+	const day = pad(date.getDate());
+
+	switch (format) {
+		case "year-month-day":
+			return `${year}-${month}-${day}`;
+		case "day-month-year":
+			return `${day}/${month}/${year}`;
+		case "month-day-year":
+			return `${month}/${day}/${year}`;
+		default:
+			return date.toLocaleDateString(locale);
+	}
+}
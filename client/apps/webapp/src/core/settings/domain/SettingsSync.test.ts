@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+	isSameSyncedSettings,
+	mergeSyncedSettings,
+	stampChangedFields,
+} from "./SettingsSync";
+import { DEFAULT_USER_SETTINGS } from "./UserSettings";
+
+describe("SettingsSync", () => {
+	const EARLIER = "2024-05-01T10:00:00.000Z";
+	const LATER = "2024-05-02T10:00:00.000Z";
+
+	describe("stampChangedFields", () => {
+		it("should stamp only the fields whose value changed", () => {
+			const now = new Date(LATER);
+
+			const stamped = stampChangedFields(
+				DEFAULT_USER_SETTINGS,
+				{
+					...DEFAULT_USER_SETTINGS,
+					theme: "dark",
+					notifications: { enabled: true, email: false, push: false },
+				},
+				{ language: EARLIER },
+				now,
+			);
+
+			expect(stamped).toEqual({
+				language: EARLIER,
+				theme: LATER,
+				notifications: LATER,
+			});
+		});
+	});
+
+	describe("mergeSyncedSettings", () => {
+		it("should keep the value changed last for each field", () => {
+			const merged = mergeSyncedSettings(
+				{
+					settings: { ...DEFAULT_USER_SETTINGS, theme: "dark", language: "en" },
+					updatedAt: { theme: LATER, language: EARLIER },
+				},
+				{
+					settings: {
+						...DEFAULT_USER_SETTINGS,
+						theme: "light",
+						language: "es",
+					},
+					updatedAt: { theme: EARLIER, language: LATER },
+				},
+			);
+
+			expect(merged.settings.theme).toBe("dark");
+			expect(merged.settings.language).toBe("es");
+			expect(merged.updatedAt).toEqual({ theme: LATER, language: LATER });
+		});
+
+		it("should prefer the remote value when neither side changed a field later", () => {
+			const merged = mergeSyncedSettings(
+				{
+					settings: { ...DEFAULT_USER_SETTINGS, storagePreference: "session" },
+					updatedAt: {},
+				},
+				{
+					settings: { ...DEFAULT_USER_SETTINGS, storagePreference: "remote" },
+					updatedAt: {},
+				},
+			);
+
+			expect(merged.settings.storagePreference).toBe("remote");
+		});
+
+		it("should keep fields only one side has", () => {
+			const merged = mergeSyncedSettings(
+				{
+					settings: {
+						...DEFAULT_USER_SETTINGS,
+						customDictionary: { en: ["kubernetes"] },
+					},
+					updatedAt: { customDictionary: LATER },
+				},
+				{ settings: { ...DEFAULT_USER_SETTINGS }, updatedAt: {} },
+			);
+
+			expect(merged.settings.customDictionary).toEqual({ en: ["kubernetes"] });
+		});
+	});
+
+	describe("isSameSyncedSettings", () => {
+		it("should compare values and timestamps regardless of key order", () => {
+			const a = {
+				settings: { ...DEFAULT_USER_SETTINGS, theme: "dark" as const },
+				updatedAt: { theme: LATER, language: EARLIER },
+			};
+			const b = {
+				settings: { ...a.settings },
+				updatedAt: { language: EARLIER, theme: LATER },
+			};
+
+			expect(isSameSyncedSettings(a, b)).toBe(true);
+			expect(
+				isSameSyncedSettings(a, { ...b, updatedAt: { theme: EARLIER } }),
+			).toBe(false);
+		});
+	});
+});
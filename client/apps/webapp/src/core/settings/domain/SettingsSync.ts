@@ -0,0 +1,121 @@
+import type { UserSettings } from "./UserSettings";
+
+/**
+ * A top-level user setting, the unit of conflict resolution when syncing.
+ */
+export type SettingsField = keyof UserSettings;
+
+/**
+ * When each setting was last changed, as ISO-8601 strings.
+ * Fields without a timestamp have never been changed on that side.
+ */
+export type SettingsTimestamps = Partial<Record<SettingsField, string>>;
+
+/**
+ * User settings together with the time each of them was last changed.
+ *
+ * @example
+ * ```typescript
+ * const synced: SyncedSettings = {
+ *   settings: { storagePreference: 'local', theme: 'dark' },
+ *   updatedAt: { theme: '2024-05-01T10:00:00.000Z' }
+ * };
+ * ```
+ */
+export interface SyncedSettings {
+	settings: UserSettings;
+	updatedAt: SettingsTimestamps;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function fieldsOf(...settings: UserSettings[]): SettingsField[] {
+	const fields = new Set<SettingsField>();
+	for (const entry of settings) {
+		for (const field of Object.keys(entry) as SettingsField[]) {
+			fields.add(field);
+		}
+	}
+	return [...fields];
+}
+
+function timeOf(timestamp: string | undefined): number {
+	const time = timestamp ? Date.parse(timestamp) : Number.NaN;
+	return Number.isNaN(time) ? Number.NEGATIVE_INFINITY : time;
+}
+
+/**
+ * Stamps the fields whose value differs between two versions of the settings.
+ *
+ * @param previous - The settings before the change
+ * @param next - The settings after the change
+ * @param timestamps - The timestamps of `previous`
+ * @param now - The time of the change
+ * @returns The timestamps of `next`
+ */
+export function stampChangedFields(
+	previous: UserSettings,
+	next: UserSettings,
+	timestamps: SettingsTimestamps,
+	now: Date = new Date(),
+): SettingsTimestamps {
+	const stamped: SettingsTimestamps = { ...timestamps };
+	for (const field of fieldsOf(previous, next)) {
+		if (!sameValue(previous[field], next[field])) {
+			stamped[field] = now.toISOString();
+		}
+	}
+	return stamped;
+}
+
+/**
+ * Merges two copies of the settings field by field, keeping for each field
+ * the value that was changed last.
+ *
+ * A field changed on one side only wins over the other side. When both sides
+ * changed a field at the same time, the remote value wins so every device
+ * converges on the server copy.
+ *
+ * @param local - The settings cached on this device
+ * @param remote - The settings stored on the server
+ * @returns The merged settings and their timestamps
+ */
+export function mergeSyncedSettings(
+	local: SyncedSettings,
+	remote: SyncedSettings,
+): SyncedSettings {
+	const settings: Record<string, unknown> = {};
+	const updatedAt: SettingsTimestamps = {};
+
+	for (const field of fieldsOf(local.settings, remote.settings)) {
+		const localWins =
+			timeOf(local.updatedAt[field]) > timeOf(remote.updatedAt[field]);
+		const winner = localWins ? local : remote;
+		const value =
+			field in winner.settings
+				? winner.settings[field]
+				: (localWins ? remote : local).settings[field];
+		const timestamp = winner.updatedAt[field];
+
+		if (value !== undefined) settings[field] = value;
+		if (timestamp) updatedAt[field] = timestamp;
+	}
+
+	return { settings: settings as unknown as UserSettings, updatedAt };
+}
+
+/**
+ * Determines whether two copies of the settings hold the same values and timestamps.
+ */
+export function isSameSyncedSettings(
+	a: SyncedSettings,
+	b: SyncedSettings,
+): boolean {
+	return fieldsOf(a.settings, b.settings).every(
+		(field) =>
+			sameValue(a.settings[field], b.settings[field]) &&
+			a.updatedAt[field] === b.updatedAt[field],
+	);
+}
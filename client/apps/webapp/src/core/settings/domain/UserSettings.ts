@@ -36,10 +36,25 @@ export interface UserSettings {
 	 */
 	language?: string;
 
+	/**
+	 * How dates are displayed across the application.
+	 */
+	dateFormat?: DateFormatPreference;
+
 	/**
 	 * Notification preferences.
 	 */
 	notifications?: NotificationSettings;
+
+	/**
+	 * Privacy preferences.
+	 */
+	privacy?: PrivacySettings;
+
+	/**
+	 * Words the user added to the spell checker, by language code.
+	 */
+	customDictionary?: CustomDictionary;
 }
 
 /**
@@ -52,6 +67,15 @@ export type StoragePreference = "session" | "local" | "indexeddb" | "remote";
  */
 export type ThemePreference = "light" | "dark" | "system";
 
+/**
+ * Valid date formats: the conventions of the user's language, or a fixed pattern.
+ */
+export type DateFormatPreference =
+	| "locale"
+	| "year-month-day"
+	| "day-month-year"
+	| "month-day-year";
+
 /**
  * Notification settings.
  */
@@ -72,23 +96,42 @@ export interface NotificationSettings {
 	push: boolean;
 }
 
+/**
+ * Privacy settings.
+ */
+export interface PrivacySettings {
+	/**
+	 * Whether anonymous usage analytics may be collected.
+	 */
+	analytics: boolean;
+}
+
+/**
+ * Words accepted by the spell checker on top of its dictionary, by language code.
+ */
+export type CustomDictionary = Readonly<Record<string, ReadonlyArray<string>>>;
+
 /**
  * Default user settings.
  * Used when no settings are persisted or when creating a new settings instance.
  *
- * NOTE: Default storage preference is "local" for now.
- * TODO: When authentication is implemented, default to "remote" for authenticated users
- * to enable cross-device synchronization.
+ * NOTE: Default storage preference is "local" for now. The settings themselves
+ * follow signed-in users across devices (see CompositeSettingsRepository).
+ * TODO: Default to "remote" for authenticated users so resume data is synced too.
  */
 export const DEFAULT_USER_SETTINGS: Readonly<UserSettings> = {
 	storagePreference: "local",
 	theme: "system",
 	language: "en",
+	dateFormat: "locale",
 	notifications: {
 		enabled: true,
 		email: true,
 		push: false,
 	},
+	privacy: {
+		analytics: true,
+	},
 };
 
 /**
@@ -118,3 +161,19 @@ export function isValidThemePreference(
 		typeof value === "string" && ["light", "dark", "system"].includes(value)
 	);
 }
+
+/**
+ * Determines whether a value is a DateFormatPreference.
+ *
+ * @returns `true` if the value is one of the supported date formats, `false` otherwise.
+ */
+export function isValidDateFormatPreference(
+	value: unknown,
+): value is DateFormatPreference {
+	return (
+		typeof value === "string" &&
+		["locale", "year-month-day", "day-month-year", "month-day-year"].includes(
+			value,
+		)
+	);
+}
@@ -5,15 +5,28 @@
  * including entities, value objects, and repository interfaces.
  */
 
+export { formatDate } from "./DateFormat";
 export type {
 	SettingsRepository,
 	SettingsResult,
 } from "./SettingsRepository";
 export {
+	isSameSyncedSettings,
+	mergeSyncedSettings,
+	type SettingsField,
+	type SettingsTimestamps,
+	type SyncedSettings,
+	stampChangedFields,
+} from "./SettingsSync";
+export {
+	type CustomDictionary,
+	type DateFormatPreference,
 	DEFAULT_USER_SETTINGS,
+	isValidDateFormatPreference,
 	isValidStoragePreference,
 	isValidThemePreference,
 	type NotificationSettings,
+	type PrivacySettings,
 	type StoragePreference,
 	type ThemePreference,
 	type UserSettings,
@@ -6,33 +6,57 @@
  */
 
 // Application layer
-export { updateStoragePreference } from "./application";
+export {
+	addCustomWord,
+	exportUserData,
+	removeCustomWord,
+	type UserDataExport,
+	updateStoragePreference,
+} from "./application";
 // Domain layer
 export type {
+	CustomDictionary,
+	DateFormatPreference,
 	NotificationSettings,
+	PrivacySettings,
+	SettingsField,
 	SettingsRepository,
 	SettingsResult,
+	SettingsTimestamps,
 	StoragePreference,
+	SyncedSettings,
 	ThemePreference,
 	UserSettings,
 } from "./domain";
 export {
 	DEFAULT_USER_SETTINGS,
+	formatDate,
+	isSameSyncedSettings,
+	isValidDateFormatPreference,
 	isValidStoragePreference,
 	isValidThemePreference,
+	mergeSyncedSettings,
+	stampChangedFields,
 } from "./domain";
 
 // Infrastructure layer
 export {
+	CompositeSettingsRepository,
+	getUserAnalyticsConsent,
 	getUserStoragePreference,
 	LocalStorageSettingsRepository,
+	RemoteSettingsRepository,
 	SETTINGS_REPOSITORY_KEY,
 	USER_SETTINGS_STORAGE_KEY,
+	USER_SETTINGS_TIMESTAMPS_STORAGE_KEY,
 	useSettingsStore,
+	wipeLocalData,
 } from "./infrastructure";
 
 // Presentation layer
 export {
 	StorageSelector,
+	useDateFormat,
+	useStorageMigration,
 	useStoragePreference,
 } from "./infrastructure/presentation";
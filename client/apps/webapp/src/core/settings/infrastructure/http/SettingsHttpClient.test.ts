@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_USER_SETTINGS } from "../../domain";
+import {
+	SettingsHttpClient,
+	type UserSettingsDocumentResponse,
+} from "./SettingsHttpClient";
+
+describe("SettingsHttpClient", () => {
+	let client: SettingsHttpClient;
+	let getSpy: ReturnType<typeof vi.fn>;
+	let putSpy: ReturnType<typeof vi.fn>;
+	let deleteSpy: ReturnType<typeof vi.fn>;
+
+	const document: UserSettingsDocumentResponse = {
+		settings: { ...DEFAULT_USER_SETTINGS, theme: "dark" },
+		updatedAt: { theme: "2024-05-01T10:00:00.000Z" },
+	};
+
+	beforeEach(() => {
+		client = new SettingsHttpClient();
+
+		getSpy = vi.fn();
+		putSpy = vi.fn();
+		deleteSpy = vi.fn();
+
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.get = getSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.put = putSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.delete = deleteSpy;
+	});
+
+	it("gets the settings from /settings", async () => {
+		getSpy.mockResolvedValue({ data: document });
+
+		expect(await client.getSettings()).toEqual(document);
+		expect(getSpy).toHaveBeenCalledWith("/settings");
+	});
+
+	it("puts the settings with their timestamps", async () => {
+		putSpy.mockResolvedValue({ data: document });
+
+		expect(await client.saveSettings(document)).toEqual(document);
+		expect(putSpy).toHaveBeenCalledWith("/settings", document);
+	});
+
+	it("deletes the settings", async () => {
+		deleteSpy.mockResolvedValue({});
+
+		await client.deleteSettings();
+
+		expect(deleteSpy).toHaveBeenCalledWith("/settings");
+	});
+});
@@ -0,0 +1,49 @@
+import { BaseHttpClient } from "@/shared/BaseHttpClient.ts";
+import type { SettingsTimestamps, UserSettings } from "../../domain";
+
+/**
+ * Backend user settings response matching server DTO
+ */
+export interface UserSettingsDocumentResponse {
+	settings: UserSettings;
+	updatedAt: SettingsTimestamps;
+}
+
+/**
+ * HTTP client for the settings of the current user
+ * Extends BaseHttpClient to leverage CSRF protection, cookie handling, and error handling
+ */
+export class SettingsHttpClient extends BaseHttpClient {
+	/**
+	 * Get the settings of the current user
+	 * @returns Promise with the settings document
+	 */
+	async getSettings(): Promise<UserSettingsDocumentResponse> {
+		const response =
+			await this.client.get<UserSettingsDocumentResponse>("/settings");
+		return response.data;
+	}
+
+	/**
+	 * Create or replace the settings of the current user
+	 * @param document Settings and the time each of them was last changed
+	 * @returns Promise with the stored settings document
+	 */
+	async saveSettings(
+		document: UserSettingsDocumentResponse,
+	): Promise<UserSettingsDocumentResponse> {
+		const response = await this.client.put<UserSettingsDocumentResponse>(
+			"/settings",
+			document,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Delete the settings of the current user
+	 * @returns Promise that resolves when deletion is complete
+	 */
+	async deleteSettings(): Promise<void> {
+		await this.client.delete("/settings");
+	}
+}
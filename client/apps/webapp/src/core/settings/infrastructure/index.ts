@@ -7,8 +7,13 @@
 
 export { SETTINGS_REPOSITORY_KEY } from "./di";
 export {
+	CompositeSettingsRepository,
+	getUserAnalyticsConsent,
 	getUserStoragePreference,
 	LocalStorageSettingsRepository,
+	RemoteSettingsRepository,
 	USER_SETTINGS_STORAGE_KEY,
+	USER_SETTINGS_TIMESTAMPS_STORAGE_KEY,
+	wipeLocalData,
 } from "./storage";
 export { useSettingsStore } from "./store";
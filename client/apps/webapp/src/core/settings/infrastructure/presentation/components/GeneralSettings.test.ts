@@ -0,0 +1,79 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, type Pinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setLocale } from "@/i18n";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { USER_SETTINGS_STORAGE_KEY } from "../../storage";
+import GeneralSettings from "./GeneralSettings.vue";
+
+vi.mock("@/i18n", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/i18n")>()),
+	setLocale: vi.fn(),
+}));
+
+vi.stubGlobal("matchMedia", () => ({
+	matches: false,
+	addEventListener: () => {},
+	removeEventListener: () => {},
+}));
+
+describe("GeneralSettings.vue", () => {
+	let pinia: Pinia;
+
+	const storedSettings = () =>
+		JSON.parse(localStorage.getItem(USER_SETTINGS_STORAGE_KEY) ?? "{}");
+
+	const mountComponent = () => {
+		const i18n = createTestI18n();
+		i18n.global.mergeLocaleMessage("en", {
+			"settings.general.dateFormatExample": "Today: {date}",
+		});
+		return mount(GeneralSettings, {
+			global: { plugins: [i18n, pinia] },
+		});
+	};
+
+	beforeEach(() => {
+		localStorage.clear();
+		vi.clearAllMocks();
+		pinia = createPinia();
+		setActivePinia(pinia);
+	});
+
+	it("should switch and persist the language", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="settings-language"]').setValue("es");
+		await flushPromises();
+
+		expect(setLocale).toHaveBeenCalledWith("es");
+		expect(storedSettings().language).toBe("es");
+	});
+
+	it("should apply and persist the theme", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find("#settings-theme-dark").trigger("click");
+		await flushPromises();
+
+		expect(storedSettings().theme).toBe("dark");
+		expect(document.documentElement.classList.contains("dark")).toBe(true);
+	});
+
+	it("should persist the date format and preview it", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2024, 4, 1, 10, 0));
+		const wrapper = mountComponent();
+
+		await wrapper
+			.find('[data-testid="settings-date-format"]')
+			.setValue("day-month-year");
+		await flushPromises();
+
+		expect(storedSettings().dateFormat).toBe("day-month-year");
+		expect(wrapper.find('[data-testid="settings-date-example"]').text()).toBe(
+			"Today: 01/05/2024",
+		);
+		vi.useRealTimers();
+	});
+});
@@ -0,0 +1,69 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, type Pinia, setActivePinia } from "pinia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { USER_SETTINGS_STORAGE_KEY } from "../../storage";
+import NotificationSettings from "./NotificationSettings.vue";
+
+describe("NotificationSettings.vue", () => {
+	let pinia: Pinia;
+	let requestPermission: ReturnType<typeof vi.fn>;
+
+	const storedNotifications = () =>
+		JSON.parse(localStorage.getItem(USER_SETTINGS_STORAGE_KEY) ?? "{}")
+			.notifications;
+
+	const mountComponent = () =>
+		mount(NotificationSettings, {
+			global: { plugins: [createTestI18n(), pinia] },
+		});
+
+	beforeEach(() => {
+		localStorage.clear();
+		pinia = createPinia();
+		setActivePinia(pinia);
+		requestPermission = vi.fn().mockResolvedValue("granted");
+		vi.stubGlobal(
+			"Notification",
+			Object.assign(() => {}, { permission: "default", requestPermission }),
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should persist the email toggle", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find("#settings-notifications-email").trigger("click");
+		await flushPromises();
+
+		expect(storedNotifications()).toEqual({
+			enabled: true,
+			email: false,
+			push: false,
+		});
+	});
+
+	it("should ask for permission before enabling push notifications", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find("#settings-notifications-push").trigger("click");
+		await flushPromises();
+
+		expect(requestPermission).toHaveBeenCalled();
+		expect(storedNotifications().push).toBe(true);
+	});
+
+	it("should keep push notifications off when permission is denied", async () => {
+		requestPermission.mockResolvedValue("denied");
+		const wrapper = mountComponent();
+
+		await wrapper.find("#settings-notifications-push").trigger("click");
+		await flushPromises();
+
+		expect(storedNotifications()).toBeUndefined();
+		expect(wrapper.find('[data-testid="push-denied"]').exists()).toBe(true);
+	});
+});
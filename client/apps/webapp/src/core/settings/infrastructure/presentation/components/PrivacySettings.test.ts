@@ -0,0 +1,98 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, type Pinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { exportUserData } from "../../../application";
+import { USER_SETTINGS_STORAGE_KEY } from "../../storage";
+import { wipeLocalData } from "../../storage/wipeLocalData";
+import PrivacySettings from "./PrivacySettings.vue";
+
+vi.mock("../../storage/wipeLocalData", () => ({
+	wipeLocalData: vi.fn(),
+}));
+
+vi.mock("../../../application", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../../application")>()),
+	exportUserData: vi.fn(),
+}));
+
+describe("PrivacySettings.vue", () => {
+	let pinia: Pinia;
+
+	const mountComponent = () =>
+		mount(PrivacySettings, {
+			attachTo: document.body,
+			global: { plugins: [createTestI18n(), pinia] },
+		});
+
+	beforeEach(() => {
+		localStorage.clear();
+		document.body.innerHTML = "";
+		vi.clearAllMocks();
+		pinia = createPinia();
+		setActivePinia(pinia);
+	});
+
+	it("should persist the analytics opt-out", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find("#settings-privacy-analytics").trigger("click");
+		await flushPromises();
+
+		expect(
+			JSON.parse(localStorage.getItem(USER_SETTINGS_STORAGE_KEY) ?? "{}")
+				.privacy,
+		).toEqual({ analytics: false });
+		wrapper.unmount();
+	});
+
+	it("should download the exported data as JSON", async () => {
+		vi.mocked(exportUserData).mockResolvedValue({
+			version: 1,
+			exportedAt: "2024-05-01T10:00:00.000Z",
+			storage: "local",
+			settings: { storagePreference: "local" },
+			resumes: [],
+		});
+		URL.createObjectURL = vi.fn(() => "blob:export");
+		URL.revokeObjectURL = vi.fn();
+		const click = vi
+			.spyOn(HTMLAnchorElement.prototype, "click")
+			.mockImplementation(() => {});
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="privacy-export"]').trigger("click");
+		await flushPromises();
+
+		expect(exportUserData).toHaveBeenCalled();
+		expect(click).toHaveBeenCalled();
+		expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:export");
+		wrapper.unmount();
+	});
+
+	it("should wipe the local data only after confirmation", async () => {
+		vi.mocked(wipeLocalData).mockResolvedValue({
+			removedKeys: 1,
+			deletedDatabases: [],
+		});
+		const reload = vi.fn();
+		vi.spyOn(window, "location", "get").mockReturnValue({
+			...window.location,
+			reload,
+		});
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="privacy-wipe"]').trigger("click");
+		await flushPromises();
+		expect(wipeLocalData).not.toHaveBeenCalled();
+
+		document
+			.querySelector<HTMLButtonElement>('[data-testid="privacy-wipe-confirm"]')
+			?.click();
+		await flushPromises();
+
+		expect(wipeLocalData).toHaveBeenCalled();
+		expect(reload).toHaveBeenCalled();
+		wrapper.unmount();
+	});
+});
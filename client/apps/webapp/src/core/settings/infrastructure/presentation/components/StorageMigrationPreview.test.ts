@@ -0,0 +1,85 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import {
+	type MigrationPlan,
+	planMigration,
+} from "@/core/resume/domain/StorageMigration";
+import StorageMigrationPreview from "./StorageMigrationPreview.vue";
+
+describe("StorageMigrationPreview.vue", () => {
+	const summary = (id: string, title: string) => ({
+		id,
+		title,
+		createdAt: "2024-01-01T00:00:00.000Z",
+		updatedAt: null,
+	});
+
+	const createPlan = (targetIds: string[] = []): MigrationPlan =>
+		planMigration(
+			"local",
+			"remote",
+			[summary("a", "Backend"), summary("b", "Frontend")],
+			targetIds,
+			{ visibilityIds: [], hasDraft: true, activeResumeId: "a" },
+		);
+
+	const mountComponent = (plan: MigrationPlan, selected: string[] = []) =>
+		mount(StorageMigrationPreview, {
+			props: {
+				plan,
+				targetLabel: "Cloud Storage",
+				selected,
+				mode: "copy",
+				resolution: "keep-both",
+			},
+		});
+
+	it("should list every item with its kind", () => {
+		const wrapper = mountComponent(createPlan());
+
+		const items = wrapper.findAll('[data-testid="migration-item"]');
+		expect(items.map((item) => item.text())).toEqual([
+			"Resume: Backend",
+			"Resume: Frontend",
+			"Unsaved draft: Backend",
+		]);
+	});
+
+	it("should ask how to resolve conflicts only when there are some", () => {
+		const withoutConflicts = mountComponent(createPlan());
+		const withConflicts = mountComponent(createPlan(["b"]));
+
+		expect(
+			withoutConflicts.find('[data-testid="migration-resolution"]').exists(),
+		).toBe(false);
+		expect(
+			withConflicts.find('[data-testid="migration-conflict"]').text(),
+		).toBe("Exists in Cloud Storage");
+		expect(withConflicts.text()).toContain(
+			"1 resume(s) already exist in Cloud Storage",
+		);
+	});
+
+	it("should update the selection when items are toggled", async () => {
+		const wrapper = mountComponent(createPlan(), ["resume:a"]);
+		const lastSelection = () =>
+			wrapper.emitted<[string[]]>("update:selected")?.slice(-1)[0];
+
+		await wrapper.find("#migration-resume\\:b").trigger("click");
+		expect(lastSelection()).toEqual([["resume:a", "resume:b"]]);
+
+		await wrapper.setProps({ selected: ["resume:a", "resume:b"] });
+		await wrapper.find("#migration-resume\\:a").trigger("click");
+		expect(lastSelection()).toEqual([["resume:b"]]);
+	});
+
+	it("should emit the chosen conflict resolution", async () => {
+		const wrapper = mountComponent(createPlan(["a"]));
+
+		await wrapper
+			.find('[data-testid="migration-resolution"]')
+			.setValue("overwrite");
+
+		expect(wrapper.emitted("update:resolution")).toEqual([["overwrite"]]);
+	});
+});
@@ -9,10 +9,21 @@ import type {
 	ResumeStorage,
 	StorageType,
 } from "@/core/resume/domain/ResumeStorage";
+import {
+	LocalStorageResumeStorage,
+	SessionStorageResumeStorage,
+} from "@/core/resume/infrastructure/storage";
 import * as storageFactory from "@/core/resume/infrastructure/storage/factory";
 import { useResumeStore } from "@/core/resume/infrastructure/store/resume.store";
 import StorageSelector from "./StorageSelector.vue";
 
+// No autosave draft to carry over
+vi.mock("idb-keyval", () => ({
+	get: vi.fn().mockResolvedValue(undefined),
+	set: vi.fn(),
+	del: vi.fn(),
+}));
+
 // Mock the composable
 vi.mock("@/core/settings/infrastructure/presentation/composables", () => ({
 	useStoragePreference: () => ({
@@ -77,6 +88,18 @@ const createMockStorage = (
 			storageType: type,
 		}),
 		clear: vi.fn().mockResolvedValue(undefined),
+		list: vi.fn().mockResolvedValue([]),
+		loadById: vi.fn().mockResolvedValue({
+			data: mockResume,
+			timestamp: new Date().toISOString(),
+			storageType: type,
+		}),
+		create: vi.fn(),
+		duplicate: vi.fn(),
+		rename: vi.fn(),
+		delete: vi.fn().mockResolvedValue(undefined),
+		getActiveResumeId: () => "default",
+		setActiveResumeId: vi.fn(),
 		type: () => type,
 	};
 };
@@ -903,4 +926,115 @@ describe("StorageSelector.vue", () => {
 			expect(findButtonByText(wrapper, "Apply Changes")).toBeUndefined();
 		});
 	});
+
+	describe("Storage Migration", () => {
+		let oldStorage: LocalStorageResumeStorage;
+		let newStorage: SessionStorageResumeStorage;
+
+		beforeEach(async () => {
+			localStorage.clear();
+			sessionStorage.clear();
+			oldStorage = new LocalStorageResumeStorage();
+			newStorage = new SessionStorageResumeStorage();
+			oldStorage.setActiveResumeId("a");
+			await oldStorage.save(createMockResume());
+			await oldStorage.rename("a", "Backend");
+		});
+
+		const openDialog = async () => {
+			const resumeStore = useResumeStore();
+			vi.spyOn(resumeStore, "changeStorageStrategy").mockResolvedValue();
+			// Drop return values queued by earlier tests
+			vi.spyOn(storageFactory, "createResumeStorage")
+				.mockReset()
+				.mockReturnValueOnce(oldStorage) // checkOldStorageForData
+				.mockReturnValueOnce(oldStorage) // pending change (old)
+				.mockReturnValueOnce(newStorage); // pending change (new)
+
+			const wrapper = mount(StorageSelector, {
+				attachTo: document.body,
+				global: { plugins: [pinia] },
+			});
+			await changeStorageSelection(wrapper, "session");
+			await findButtonByText(wrapper, "Apply Changes")?.trigger("click");
+			await flushPromises();
+			await nextTick();
+			return { wrapper, resumeStore };
+		};
+
+		it("should preview what will be migrated", async () => {
+			await newStorage.create(createMockResume(), "Existing");
+			newStorage.setActiveResumeId("a");
+			await newStorage.save(createMockResume());
+
+			const { wrapper } = await openDialog();
+
+			const items = document.querySelectorAll('[data-testid="migration-item"]');
+			expect(Array.from(items).map((item) => item.textContent)).toEqual([
+				expect.stringContaining("Backend"),
+			]);
+			expect(
+				document.querySelector('[data-testid="migration-conflict"]')
+					?.textContent,
+			).toContain("Exists in Session Storage");
+			expect(
+				document.querySelector('[data-testid="migration-resolution"]'),
+			).not.toBeNull();
+
+			wrapper.unmount();
+		});
+
+		it("should migrate the data and offer to roll it back", async () => {
+			const { wrapper, resumeStore } = await openDialog();
+
+			findButtonInDocument("Migrate & Switch")?.click();
+			await flushPromises();
+			await nextTick();
+
+			expect((await newStorage.list()).map((entry) => entry.title)).toEqual([
+				"Backend",
+			]);
+			expect(resumeStore.changeStorageStrategy).toHaveBeenCalledWith(
+				newStorage,
+				false,
+			);
+			expect(wrapper.find('[data-testid="migration-result"]').text()).toContain(
+				"Copied 1 item(s) from Local Storage to Session Storage",
+			);
+
+			await wrapper.find('[data-testid="migration-rollback"]').trigger("click");
+			await flushPromises();
+
+			expect(await newStorage.list()).toEqual([]);
+			expect(await oldStorage.list()).toHaveLength(1);
+			// Back on the storage the data came from
+			expect(
+				vi.mocked(resumeStore.changeStorageStrategy).mock.lastCall?.[0].type(),
+			).toBe("local");
+			expect(wrapper.find('[data-testid="migration-result"]').exists()).toBe(
+				false,
+			);
+
+			wrapper.unmount();
+		});
+
+		it("should report a failed migration and keep the current storage", async () => {
+			vi.spyOn(newStorage, "save").mockRejectedValue(
+				new Error("Quota exceeded"),
+			);
+			const { wrapper, resumeStore } = await openDialog();
+
+			findButtonInDocument("Migrate & Switch")?.click();
+			await flushPromises();
+			await nextTick();
+
+			expect(wrapper.text()).toContain(
+				"Failed to migrate from local to session: Quota exceeded",
+			);
+			expect(resumeStore.changeStorageStrategy).not.toHaveBeenCalled();
+			expect(await newStorage.list()).toEqual([]);
+
+			wrapper.unmount();
+		});
+	});
 });
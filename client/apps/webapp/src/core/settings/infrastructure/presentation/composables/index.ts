@@ -2,4 +2,6 @@
  * Presentation layer composables exports for settings.
  */
 
+export { useDateFormat } from "./useDateFormat";
+export { useStorageMigration } from "./useStorageMigration";
 export { useStoragePreference } from "./useStoragePreference";
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import type { UserSettings } from "../../../domain";
+import { useSettingsStore } from "../../store";
+import { useDateFormat } from "./useDateFormat";
+
+const locale = vi.hoisted(() => ({ current: "en" }));
+
+const settingsStore = vi.hoisted(() => ({
+	settings: { storagePreference: "local" } as UserSettings,
+}));
+
+vi.mock("vue-i18n", () => ({
+	useI18n: () => ({ locale: ref(locale.current) }),
+}));
+
+vi.mock("../../store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(settingsStore);
+	return { useSettingsStore: () => store };
+});
+
+describe("useDateFormat", () => {
+	const date = new Date(2024, 4, 1, 10, 0);
+
+	const setDateFormat = (dateFormat: UserSettings["dateFormat"]) => {
+		(useSettingsStore() as unknown as typeof settingsStore).settings = {
+			storagePreference: "local",
+			dateFormat,
+		};
+	};
+
+	it("should format dates with the saved preference", () => {
+		setDateFormat("day-month-year");
+		const { dateFormat, format } = useDateFormat();
+
+		expect(dateFormat.value).toBe("day-month-year");
+		expect(format(date)).toBe("01/05/2024");
+		expect(format(date.toISOString())).toBe("01/05/2024");
+	});
+
+	it("should follow a preference changed later", () => {
+		setDateFormat("day-month-year");
+		const { format } = useDateFormat();
+
+		setDateFormat("year-month-day");
+
+		expect(format(date)).toBe("2024-05-01");
+	});
+
+	it("should use the language conventions without a preference", () => {
+		locale.current = "es";
+		setDateFormat(undefined);
+		const { dateFormat, format } = useDateFormat();
+
+		expect(dateFormat.value).toBe("locale");
+		expect(format(date)).toBe(date.toLocaleDateString("es"));
+	});
+});
@@ -0,0 +1,39 @@
+import { computed } from "vue";
+import { useI18n } from "vue-i18n";
+import { DEFAULT_USER_SETTINGS, formatDate } from "../../../domain";
+import { useSettingsStore } from "../../store";
+
+/**
+ * Composable formatting dates with the user's date format preference.
+ *
+ * @example
+ * ```typescript
+ * const { format } = useDateFormat();
+ * format(resume.updatedAt); // e.g. '2024-05-01'
+ * ```
+ */
+export function useDateFormat() {
+	const settingsStore = useSettingsStore();
+	const { locale } = useI18n();
+
+	/**
+	 * The current date format preference (reactive).
+	 */
+	const dateFormat = computed(
+		() =>
+			settingsStore.settings.dateFormat ??
+			DEFAULT_USER_SETTINGS.dateFormat ??
+			"locale",
+	);
+
+	/**
+	 * Formats a date with the current preference and language.
+	 *
+	 * @param value - The date, or an ISO-8601 string
+	 */
+	function format(value: Date | string): string {
+		return formatDate(value, dateFormat.value, locale.value);
+	}
+
+	return { dateFormat, format };
+}
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resume } from "@/core/resume/domain/Resume";
+import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage";
+import {
+	LocalStorageResumeStorage,
+	SessionStorageResumeStorage,
+} from "@/core/resume/infrastructure/storage";
+import { createTestResume } from "@/core/resume/test-resume-factory";
+import { useStorageMigration } from "./useStorageMigration";
+
+vi.mock("idb-keyval", () => ({
+	get: vi.fn().mockResolvedValue(undefined),
+	set: vi.fn(),
+	del: vi.fn(),
+}));
+
+describe("useStorageMigration", () => {
+	let source: ResumeStorage;
+	let target: ResumeStorage;
+
+	const resumeNamed = (name: string): Resume => {
+		const resume = createTestResume();
+		resume.basics.name = name;
+		return resume;
+	};
+
+	const store = async (
+		storage: ResumeStorage,
+		id: string,
+		name: string,
+		title: string,
+	) => {
+		storage.setActiveResumeId(id);
+		await storage.save(resumeNamed(name));
+		await storage.rename(id, title);
+	};
+
+	const namesIn = async (storage: ResumeStorage) =>
+		Promise.all(
+			(await storage.list()).map(
+				async (summary) =>
+					(await storage.loadById(summary.id)).data?.basics.name,
+			),
+		);
+
+	beforeEach(async () => {
+		localStorage.clear();
+		sessionStorage.clear();
+		source = new LocalStorageResumeStorage();
+		target = new SessionStorageResumeStorage();
+
+		await store(source, "a", "Ada", "Backend");
+		await store(source, "b", "Bob", "Frontend");
+		await store(target, "b", "Other Bob", "Old frontend");
+	});
+
+	describe("preview", () => {
+		it("should list the source data and the conflicts with the target", async () => {
+			const { plan, preview, isPreviewing } = useStorageMigration();
+
+			const result = await preview(source, target);
+
+			expect(plan.value).toBe(result);
+			expect(isPreviewing.value).toBe(false);
+			expect(result?.conflicts).toBe(1);
+			expect(
+				result?.items
+					.filter((item) => item.kind === "resume")
+					.map((item) => [item.resumeId, item.conflict]),
+			).toEqual(
+				expect.arrayContaining([
+					["a", false],
+					["b", true],
+				]),
+			);
+		});
+
+		it("should keep the error of a preview that cannot be built", async () => {
+			vi.spyOn(source, "list").mockRejectedValue(new Error("Quota exceeded"));
+			const { plan, preview, previewError } = useStorageMigration();
+
+			expect(await preview(source, target)).toBeNull();
+
+			expect(plan.value).toBeNull();
+			expect(previewError.value).toContain("Quota exceeded");
+		});
+
+		it("should refuse to migrate without a preview", async () => {
+			const { migrate } = useStorageMigration();
+
+			await expect(
+				migrate({ mode: "copy", resolution: "overwrite" }),
+			).rejects.toThrow("Failed to migrate: preview the migration first");
+		});
+	});
+
+	describe("conflicts", () => {
+		it("should leave conflicting resumes of the target untouched when skipping", async () => {
+			const { preview, migrate, lastResult } = useStorageMigration();
+			await preview(source, target);
+
+			const result = await migrate({ mode: "copy", resolution: "skip" });
+
+			expect(result.skipped).toBeGreaterThanOrEqual(1);
+			expect(lastResult.value).toBe(result);
+			expect((await namesIn(target)).sort()).toEqual(["Ada", "Other Bob"]);
+		});
+
+		it("should replace conflicting resumes when overwriting", async () => {
+			const { preview, migrate } = useStorageMigration();
+			await preview(source, target);
+
+			await migrate({ mode: "copy", resolution: "overwrite" });
+
+			expect((await namesIn(target)).sort()).toEqual(["Ada", "Bob"]);
+		});
+
+		it("should keep both versions of conflicting resumes", async () => {
+			const { preview, migrate } = useStorageMigration();
+			await preview(source, target);
+
+			await migrate({ mode: "copy", resolution: "keep-both" });
+
+			expect((await namesIn(target)).sort()).toEqual([
+				"Ada",
+				"Bob",
+				"Other Bob",
+			]);
+		});
+	});
+
+	describe("rollback", () => {
+		// Sources list the most recent resume first: Ada is migrated before Bob fails
+		const makeAdaMostRecent = async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			vi.setSystemTime(Date.now() + 60_000);
+			await store(source, "a", "Ada", "Backend");
+			vi.useRealTimers();
+		};
+
+		it("should undo the steps done so far when a step fails", async () => {
+			await makeAdaMostRecent();
+			const loadById = source.loadById.bind(source);
+			const failingLoad = vi
+				.spyOn(source, "loadById")
+				.mockImplementation(async (id) =>
+					id === "b" ? Promise.reject(new Error("Disk error")) : loadById(id),
+				);
+			const { preview, migrate, lastResult, isRunning } = useStorageMigration();
+			await preview(source, target);
+
+			await expect(
+				migrate({ mode: "move", resolution: "overwrite" }),
+			).rejects.toThrow("Failed to migrate from local to session: Disk error");
+
+			failingLoad.mockRestore();
+			expect(await namesIn(target)).toEqual(["Other Bob"]);
+			expect((await namesIn(source)).sort()).toEqual(["Ada", "Bob"]);
+			expect(lastResult.value).toBeNull();
+			expect(isRunning.value).toBe(false);
+		});
+
+		it("should report a rollback that fails as well", async () => {
+			await makeAdaMostRecent();
+			const loadById = source.loadById.bind(source);
+			vi.spyOn(source, "loadById").mockImplementation(async (id) =>
+				id === "b" ? Promise.reject(new Error("Disk error")) : loadById(id),
+			);
+			vi.spyOn(target, "delete").mockRejectedValue(new Error("Locked"));
+			const { preview, migrate } = useStorageMigration();
+			await preview(source, target);
+
+			await expect(
+				migrate({ mode: "copy", resolution: "overwrite" }),
+			).rejects.toThrow("Disk error (rollback failed:");
+		});
+
+		it("should undo a finished migration on demand", async () => {
+			const { preview, migrate, rollback, lastResult } = useStorageMigration();
+			await preview(source, target);
+			const result = await migrate({ mode: "move", resolution: "overwrite" });
+
+			await expect(rollback()).resolves.toBe(result);
+
+			expect(lastResult.value).toBeNull();
+			expect(await namesIn(target)).toEqual(["Other Bob"]);
+			expect((await namesIn(source)).sort()).toEqual(["Ada", "Bob"]);
+		});
+
+		it("should refuse to roll back without a migration", async () => {
+			const { rollback } = useStorageMigration();
+
+			await expect(rollback()).rejects.toThrow(
+				"Failed to roll back: no migration to undo",
+			);
+		});
+	});
+});
@@ -0,0 +1,142 @@
+import { computed, ref, shallowRef } from "vue";
+import { StorageMigrationService } from "@/core/resume/application/StorageMigrationService";
+import type { ResumeStorage } from "@/core/resume/domain/ResumeStorage.ts";
+import type {
+	MigrationOptions,
+	MigrationPlan,
+	MigrationProgress,
+	MigrationResult,
+} from "@/core/resume/domain/StorageMigration";
+import { AutosaveDraftStorage } from "@/core/resume/infrastructure/storage/AutosaveDraftStorage";
+import { sectionVisibilityStorage } from "@/core/resume/infrastructure/storage/SectionVisibilityStorage";
+
+/**
+ * Composable driving a data migration between two resume storages from the UI.
+ *
+ * Keeps the preview, the progress and the result of the last migration so the
+ * settings page can report them and offer a rollback.
+ *
+ * @example
+ * ```typescript
+ * const { plan, preview, migrate, rollback } = useStorageMigration();
+ * await preview(createResumeStorage("local"), createResumeStorage("remote"));
+ * await migrate({ mode: "move", resolution: "keep-both" });
+ * ```
+ */
+export function useStorageMigration() {
+	const plan = shallowRef<MigrationPlan | null>(null);
+	const progress = ref<MigrationProgress | null>(null);
+	const lastResult = shallowRef<MigrationResult | null>(null);
+	const isPreviewing = ref(false);
+	const previewError = ref<string | null>(null);
+
+	let service: StorageMigrationService | null = null;
+
+	const isRunning = computed(() => progress.value !== null);
+
+	/**
+	 * Share of the current phase that is done, from 0 to 100.
+	 */
+	const progressPercent = computed(() => {
+		if (!progress.value) return 0;
+		const { completed, total } = progress.value;
+		return total === 0 ? 100 : Math.round((completed / total) * 100);
+	});
+
+	function onProgress(update: MigrationProgress) {
+		progress.value = update;
+	}
+
+	/**
+	 * Lists what a migration between two storages would carry.
+	 *
+	 * @param source - Storage the data comes from
+	 * @param target - Storage the data goes to
+	 * @returns The plan, or null if it could not be built (see `previewError`)
+	 */
+	async function preview(
+		source: ResumeStorage,
+		target: ResumeStorage,
+	): Promise<MigrationPlan | null> {
+		service = new StorageMigrationService(
+			source,
+			target,
+			sectionVisibilityStorage,
+			new AutosaveDraftStorage(),
+		);
+		plan.value = null;
+		previewError.value = null;
+		isPreviewing.value = true;
+		try {
+			plan.value = await service.preview();
+			return plan.value;
+		} catch (error) {
+			previewError.value =
+				error instanceof Error ? error.message : String(error);
+			return null;
+		} finally {
+			isPreviewing.value = false;
+		}
+	}
+
+	/**
+	 * Runs the migration of the last preview.
+	 *
+	 * @param options - Mode, conflict resolution and selected items
+	 * @returns The migration result
+	 * @throws Error if there is no preview or the migration fails
+	 */
+	async function migrate(options: MigrationOptions): Promise<MigrationResult> {
+		if (!service || !plan.value) {
+			throw new Error("Failed to migrate: preview the migration first");
+		}
+		try {
+			lastResult.value = await service.migrate(plan.value, options, onProgress);
+			return lastResult.value;
+		} finally {
+			progress.value = null;
+		}
+	}
+
+	/**
+	 * Undoes the last migration.
+	 *
+	 * @returns The result of the migration that was undone
+	 * @throws Error if there is nothing to roll back or the rollback fails
+	 */
+	async function rollback(): Promise<MigrationResult> {
+		const result = lastResult.value;
+		if (!service || !result) {
+			throw new Error("Failed to roll back: no migration to undo");
+		}
+		try {
+			await service.rollback(result, onProgress);
+			lastResult.value = null;
+			return result;
+		} finally {
+			progress.value = null;
+		}
+	}
+
+	/**
+	 * Forgets the preview, e.g. when the user cancels the storage change.
+	 */
+	function reset() {
+		plan.value = null;
+		previewError.value = null;
+	}
+
+	return {
+		plan,
+		progress,
+		progressPercent,
+		lastResult,
+		isPreviewing,
+		isRunning,
+		previewError,
+		preview,
+		migrate,
+		rollback,
+		reset,
+	};
+}
@@ -6,4 +6,8 @@
  */
 
 export { default as StorageSelector } from "./components/StorageSelector.vue";
-export { useStoragePreference } from "./composables";
+export {
+	useDateFormat,
+	useStorageMigration,
+	useStoragePreference,
+} from "./composables";
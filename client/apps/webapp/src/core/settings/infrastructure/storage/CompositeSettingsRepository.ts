@@ -0,0 +1,179 @@
+import type {
+	SettingsRepository,
+	SettingsResult,
+	SettingsTimestamps,
+	SyncedSettings,
+	UserSettings,
+} from "../../domain";
+import {
+	DEFAULT_USER_SETTINGS,
+	isSameSyncedSettings,
+	mergeSyncedSettings,
+	stampChangedFields,
+} from "../../domain";
+import type { RemoteSettingsRepository } from "./RemoteSettingsRepository";
+
+/**
+ * Storage key for the time each cached setting was last changed.
+ */
+export const USER_SETTINGS_TIMESTAMPS_STORAGE_KEY =
+	"cvix:user-settings:updated-at";
+
+function toError(error: unknown, fallback: string): Error {
+	return error instanceof Error ? error : new Error(fallback);
+}
+
+/**
+ * SettingsRepository that caches settings on the device and keeps them in
+ * sync with the server while the user is signed in.
+ *
+ * Every read and write goes to the local cache first, so settings keep working
+ * offline and for anonymous users. When the user is signed in, loading syncs
+ * the cache with the server copy and saving pushes the change. Conflicts are
+ * resolved field by field: whichever side changed a setting last wins.
+ *
+ * @example
+ * ```typescript
+ * const repository = new CompositeSettingsRepository(
+ *   new LocalStorageSettingsRepository(),
+ *   new RemoteSettingsRepository(),
+ *   () => useAuthStore().isAuthenticated,
+ * );
+ *
+ * // Loads the cache, merged with the server copy when signed in
+ * const result = await repository.load();
+ * ```
+ */
+export class CompositeSettingsRepository implements SettingsRepository {
+	constructor(
+		private readonly local: SettingsRepository,
+		private readonly remote: RemoteSettingsRepository,
+		private readonly isAuthenticated: () => boolean,
+	) {}
+
+	/**
+	 * Loads the cached settings, synced with the server when signed in.
+	 * Falls back to the cache if the server cannot be reached.
+	 *
+	 * @returns A promise resolving to a SettingsResult containing the settings or null if not found
+	 */
+	async load(): Promise<SettingsResult<UserSettings | null>> {
+		const cached = await this.local.load();
+		if (!cached.success || !this.isAuthenticated()) return cached;
+
+		const synced = await this.sync();
+		if (synced.success) return synced;
+
+		console.warn(synced.error.message);
+		return cached;
+	}
+
+	/**
+	 * Saves the settings to the cache, stamping the fields that changed, and
+	 * pushes them to the server when signed in. A failed push is not an error:
+	 * the newer timestamps win on the next sync.
+	 *
+	 * @param settings - The settings to save
+	 * @returns A promise resolving to a SettingsResult indicating success or failure
+	 */
+	async save(settings: UserSettings): Promise<SettingsResult<void>> {
+		const cached = await this.local.load();
+		const previous = (cached.success && cached.data) || DEFAULT_USER_SETTINGS;
+
+		const saved = await this.local.save(settings);
+		if (!saved.success) return saved;
+		this.writeTimestamps(
+			stampChangedFields(previous, settings, this.readTimestamps()),
+		);
+
+		if (this.isAuthenticated()) {
+			const synced = await this.sync();
+			if (!synced.success) console.warn(synced.error.message);
+		}
+		return saved;
+	}
+
+	/**
+	 * Clears the settings cached on this device. The server copy is kept, so
+	 * the settings come back on the next sync.
+	 *
+	 * @returns A promise resolving to a SettingsResult indicating success or failure
+	 */
+	async clear(): Promise<SettingsResult<void>> {
+		const cleared = await this.local.clear();
+		if (cleared.success) this.writeTimestamps(null);
+		return cleared;
+	}
+
+	/**
+	 * Returns the type of storage this repository uses.
+	 *
+	 * @returns A string identifying the storage type
+	 */
+	type(): string {
+		return `${this.local.type()}+${this.remote.type()}`;
+	}
+
+	/**
+	 * Merges the cache with the server copy, field by field, and writes the
+	 * result to both sides. The server is only written when it is behind.
+	 *
+	 * @returns A promise resolving to a SettingsResult containing the merged settings
+	 */
+	async sync(): Promise<SettingsResult<UserSettings>> {
+		try {
+			const cached = await this.local.load();
+			if (!cached.success) throw cached.error;
+			const local: SyncedSettings = {
+				settings: cached.data ?? { ...DEFAULT_USER_SETTINGS },
+				updatedAt: this.readTimestamps(),
+			};
+
+			const stored = await this.remote.loadSynced();
+			if (!stored.success) throw stored.error;
+			const merged = stored.data
+				? mergeSyncedSettings(local, stored.data)
+				: local;
+
+			const saved = await this.local.save(merged.settings);
+			if (!saved.success) throw saved.error;
+			this.writeTimestamps(merged.updatedAt);
+
+			if (!stored.data || !isSameSyncedSettings(merged, stored.data)) {
+				const pushed = await this.remote.saveSynced(merged);
+				if (!pushed.success) throw pushed.error;
+			}
+			return { success: true, data: merged.settings };
+		} catch (error) {
+			const cause = toError(error, "Unknown error");
+			return {
+				success: false,
+				error: new Error(`Failed to sync settings: ${cause.message}`),
+			};
+		}
+	}
+
+	private readTimestamps(): SettingsTimestamps {
+		try {
+			const stored = localStorage.getItem(USER_SETTINGS_TIMESTAMPS_STORAGE_KEY);
+			return stored ? (JSON.parse(stored) as SettingsTimestamps) : {};
+		} catch {
+			return {};
+		}
+	}
+
+	private writeTimestamps(timestamps: SettingsTimestamps | null): void {
+		try {
+			if (timestamps) {
+				localStorage.setItem(
+					USER_SETTINGS_TIMESTAMPS_STORAGE_KEY,
+					JSON.stringify(timestamps),
+				);
+			} else {
+				localStorage.removeItem(USER_SETTINGS_TIMESTAMPS_STORAGE_KEY);
+			}
+		} catch (error) {
+			console.warn("Failed to cache settings timestamps:", error);
+		}
+	}
+}
@@ -0,0 +1,143 @@
+import { isNotFoundError } from "@/core/resume/infrastructure/storage/RemoteResumeStorage";
+import type {
+	SettingsRepository,
+	SettingsResult,
+	SyncedSettings,
+	UserSettings,
+} from "../../domain";
+import { DEFAULT_USER_SETTINGS, stampChangedFields } from "../../domain";
+import { SettingsHttpClient } from "../http/SettingsHttpClient";
+
+function toError(error: unknown, fallback: string): Error {
+	return error instanceof Error ? error : new Error(fallback);
+}
+
+/**
+ * Remote implementation of the SettingsRepository.
+ *
+ * Stores the settings of the signed-in user on the server, along with the time
+ * each of them was last changed, so they follow the user across browsers and
+ * devices. Settings are per user, not per workspace.
+ *
+ * @example
+ * ```typescript
+ * const repository = new RemoteSettingsRepository();
+ *
+ * const result = await repository.loadSynced();
+ * if (result.success && result.data) {
+ *   console.log('Theme changed at:', result.data.updatedAt.theme);
+ * }
+ * ```
+ */
+export class RemoteSettingsRepository implements SettingsRepository {
+	/**
+	 * The server copy as last read or written, used to stamp changed fields.
+	 */
+	private lastKnown: SyncedSettings | null = null;
+
+	constructor(
+		private readonly client: SettingsHttpClient = new SettingsHttpClient(),
+	) {}
+
+	/**
+	 * Loads the settings of the current user from the server.
+	 *
+	 * @returns A promise resolving to a SettingsResult containing the settings or null if the user has none
+	 */
+	async load(): Promise<SettingsResult<UserSettings | null>> {
+		const result = await this.loadSynced();
+		if (!result.success) return result;
+		return { success: true, data: result.data?.settings ?? null };
+	}
+
+	/**
+	 * Saves the settings of the current user to the server, stamping the fields
+	 * that changed since the last known server copy.
+	 *
+	 * @param settings - The settings to save
+	 * @returns A promise resolving to a SettingsResult indicating success or failure
+	 */
+	async save(settings: UserSettings): Promise<SettingsResult<void>> {
+		const previous = this.lastKnown ?? { settings: {}, updatedAt: {} };
+		return this.saveSynced({
+			settings,
+			updatedAt: stampChangedFields(
+				previous.settings as UserSettings,
+				settings,
+				previous.updatedAt,
+			),
+		});
+	}
+
+	/**
+	 * Deletes the settings of the current user from the server.
+	 *
+	 * @returns A promise resolving to a SettingsResult indicating success or failure
+	 */
+	async clear(): Promise<SettingsResult<void>> {
+		try {
+			await this.client.deleteSettings();
+			this.lastKnown = null;
+			return { success: true, data: undefined };
+		} catch (error) {
+			return {
+				success: false,
+				error: toError(error, "Failed to clear remote settings"),
+			};
+		}
+	}
+
+	/**
+	 * Returns the type of storage this repository uses.
+	 *
+	 * @returns A string identifying the storage type
+	 */
+	type(): string {
+		return "remote";
+	}
+
+	/**
+	 * Loads the settings of the current user with their timestamps.
+	 *
+	 * @returns A promise resolving to a SettingsResult containing the settings or null if the user has none
+	 */
+	async loadSynced(): Promise<SettingsResult<SyncedSettings | null>> {
+		try {
+			const document = await this.client.getSettings();
+			const synced: SyncedSettings = {
+				settings: { ...DEFAULT_USER_SETTINGS, ...document.settings },
+				updatedAt: { ...document.updatedAt },
+			};
+			this.lastKnown = synced;
+			return { success: true, data: synced };
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				this.lastKnown = null;
+				return { success: true, data: null };
+			}
+			return {
+				success: false,
+				error: toError(error, "Failed to load remote settings"),
+			};
+		}
+	}
+
+	/**
+	 * Replaces the settings of the current user and their timestamps.
+	 *
+	 * @param synced - The settings and the time each of them was last changed
+	 * @returns A promise resolving to a SettingsResult indicating success or failure
+	 */
+	async saveSynced(synced: SyncedSettings): Promise<SettingsResult<void>> {
+		try {
+			await this.client.saveSettings(synced);
+			this.lastKnown = synced;
+			return { success: true, data: undefined };
+		} catch (error) {
+			return {
+				success: false,
+				error: toError(error, "Failed to save remote settings"),
+			};
+		}
+	}
+}
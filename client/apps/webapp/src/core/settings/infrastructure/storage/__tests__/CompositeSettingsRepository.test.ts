@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_USER_SETTINGS, type SyncedSettings } from "../../../domain";
+import {
+	CompositeSettingsRepository,
+	USER_SETTINGS_TIMESTAMPS_STORAGE_KEY,
+} from "../CompositeSettingsRepository";
+import { LocalStorageSettingsRepository } from "../LocalStorageSettingsRepository";
+import type { RemoteSettingsRepository } from "../RemoteSettingsRepository";
+
+describe("CompositeSettingsRepository", () => {
+	const EARLIER = "2024-05-01T10:00:00.000Z";
+	const NOW = "2024-06-01T00:00:00.000Z";
+
+	let local: LocalStorageSettingsRepository;
+	let remote: RemoteSettingsRepository;
+	let authenticated: boolean;
+	let repository: CompositeSettingsRepository;
+
+	const storedTimestamps = () =>
+		JSON.parse(
+			localStorage.getItem(USER_SETTINGS_TIMESTAMPS_STORAGE_KEY) ?? "{}",
+		);
+
+	beforeEach(() => {
+		localStorage.clear();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(NOW));
+		local = new LocalStorageSettingsRepository();
+		remote = {
+			type: () => "remote",
+			loadSynced: vi.fn().mockResolvedValue({ success: true, data: null }),
+			saveSynced: vi.fn().mockResolvedValue({ success: true, data: undefined }),
+		} as Partial<RemoteSettingsRepository> as RemoteSettingsRepository;
+		authenticated = false;
+		repository = new CompositeSettingsRepository(
+			local,
+			remote,
+			() => authenticated,
+		);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		localStorage.clear();
+	});
+
+	it("should only use the local cache for anonymous users", async () => {
+		await repository.save({ ...DEFAULT_USER_SETTINGS, theme: "dark" });
+		const result = await repository.load();
+
+		expect(result).toEqual({
+			success: true,
+			data: { ...DEFAULT_USER_SETTINGS, theme: "dark" },
+		});
+		expect(storedTimestamps()).toEqual({ theme: NOW });
+		expect(remote.loadSynced).not.toHaveBeenCalled();
+	});
+
+	it("should merge the server copy field by field on load when signed in", async () => {
+		await repository.save({ ...DEFAULT_USER_SETTINGS, theme: "dark" });
+		const server: SyncedSettings = {
+			settings: { ...DEFAULT_USER_SETTINGS, theme: "light", language: "es" },
+			updatedAt: { theme: EARLIER, language: EARLIER },
+		};
+		vi.mocked(remote.loadSynced).mockResolvedValue({
+			success: true,
+			data: server,
+		});
+		authenticated = true;
+
+		const result = await repository.load();
+
+		expect(result).toEqual({
+			success: true,
+			data: { ...DEFAULT_USER_SETTINGS, theme: "dark", language: "es" },
+		});
+		expect(remote.saveSynced).toHaveBeenCalledWith({
+			settings: { ...DEFAULT_USER_SETTINGS, theme: "dark", language: "es" },
+			updatedAt: { theme: NOW, language: EARLIER },
+		});
+		expect(storedTimestamps()).toEqual({
+			theme: NOW,
+			language: EARLIER,
+		});
+	});
+
+	it("should not write the server when it is up to date", async () => {
+		vi.mocked(remote.loadSynced).mockResolvedValue({
+			success: true,
+			data: {
+				settings: { ...DEFAULT_USER_SETTINGS, theme: "dark" },
+				updatedAt: { theme: EARLIER },
+			},
+		});
+		authenticated = true;
+
+		const result = await repository.load();
+
+		expect(result.success && result.data?.theme).toBe("dark");
+		expect(remote.saveSynced).not.toHaveBeenCalled();
+	});
+
+	it("should push changes to the server when signed in", async () => {
+		authenticated = true;
+
+		await repository.save({ ...DEFAULT_USER_SETTINGS, language: "es" });
+
+		expect(remote.saveSynced).toHaveBeenCalledWith({
+			settings: { ...DEFAULT_USER_SETTINGS, language: "es" },
+			updatedAt: { language: NOW },
+		});
+	});
+
+	it("should fall back to the cache when the server cannot be reached", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		await repository.save({ ...DEFAULT_USER_SETTINGS, theme: "dark" });
+		vi.mocked(remote.loadSynced).mockResolvedValue({
+			success: false,
+			error: new Error("Network Error"),
+		});
+		authenticated = true;
+
+		const result = await repository.load();
+
+		expect(result).toEqual({
+			success: true,
+			data: { ...DEFAULT_USER_SETTINGS, theme: "dark" },
+		});
+		expect(console.warn).toHaveBeenCalledWith(
+			"Failed to sync settings: Network Error",
+		);
+	});
+
+	it("should clear only the local cache", async () => {
+		await repository.save({ ...DEFAULT_USER_SETTINGS, theme: "dark" });
+
+		await repository.clear();
+
+		expect(await local.load()).toEqual({ success: true, data: null });
+		expect(
+			localStorage.getItem(USER_SETTINGS_TIMESTAMPS_STORAGE_KEY),
+		).toBeNull();
+		expect(repository.type()).toBe("localStorage+remote");
+	});
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_USER_SETTINGS } from "../../../domain";
+import type {
+	SettingsHttpClient,
+	UserSettingsDocumentResponse,
+} from "../../http/SettingsHttpClient";
+import { RemoteSettingsRepository } from "../RemoteSettingsRepository";
+
+describe("RemoteSettingsRepository", () => {
+	let mockClient: SettingsHttpClient;
+	let repository: RemoteSettingsRepository;
+
+	const document: UserSettingsDocumentResponse = {
+		settings: { storagePreference: "remote", theme: "dark" },
+		updatedAt: { theme: "2024-05-01T10:00:00.000Z" },
+	};
+
+	beforeEach(() => {
+		mockClient = {
+			getSettings: vi.fn(),
+			saveSettings: vi.fn(),
+			deleteSettings: vi.fn(),
+		} as Partial<SettingsHttpClient> as SettingsHttpClient;
+		repository = new RemoteSettingsRepository(mockClient);
+	});
+
+	it("should load the settings merged with defaults", async () => {
+		vi.mocked(mockClient.getSettings).mockResolvedValue(document);
+
+		const result = await repository.loadSynced();
+
+		expect(result).toEqual({
+			success: true,
+			data: {
+				settings: {
+					...DEFAULT_USER_SETTINGS,
+					storagePreference: "remote",
+					theme: "dark",
+				},
+				updatedAt: document.updatedAt,
+			},
+		});
+	});
+
+	it("should return null when the user has no settings on the server", async () => {
+		vi.mocked(mockClient.getSettings).mockRejectedValue({
+			response: { status: 404 },
+		});
+
+		expect(await repository.load()).toEqual({ success: true, data: null });
+	});
+
+	it("should report other server errors", async () => {
+		vi.mocked(mockClient.getSettings).mockRejectedValue(
+			new Error("Network Error"),
+		);
+
+		const result = await repository.load();
+
+		expect(result.success).toBe(false);
+		if (!result.success) expect(result.error.message).toBe("Network Error");
+	});
+
+	it("should stamp only the fields changed since the last load", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-06-01T00:00:00.000Z"));
+		vi.mocked(mockClient.getSettings).mockResolvedValue(document);
+
+		const loaded = await repository.load();
+		if (!loaded.success || !loaded.data) throw new Error("Settings not loaded");
+		await repository.save({ ...loaded.data, language: "es" });
+
+		expect(mockClient.saveSettings).toHaveBeenCalledWith({
+			settings: { ...loaded.data, language: "es" },
+			updatedAt: {
+				theme: "2024-05-01T10:00:00.000Z",
+				language: "2024-06-01T00:00:00.000Z",
+			},
+		});
+		vi.useRealTimers();
+	});
+
+	it("should delete the settings on clear", async () => {
+		vi.mocked(mockClient.deleteSettings).mockResolvedValue();
+
+		expect(await repository.clear()).toEqual({
+			success: true,
+			data: undefined,
+		});
+		expect(mockClient.deleteSettings).toHaveBeenCalled();
+	});
+});
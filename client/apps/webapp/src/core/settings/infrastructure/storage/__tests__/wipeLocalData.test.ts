@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { wipeLocalData } from "../wipeLocalData";
+
+describe("wipeLocalData", () => {
+	const deleted: string[] = [];
+
+	beforeEach(() => {
+		localStorage.clear();
+		sessionStorage.clear();
+		deleted.length = 0;
+		vi.stubGlobal("indexedDB", {
+			deleteDatabase: (name: string) => {
+				deleted.push(name);
+				const request: Partial<IDBOpenDBRequest> = {};
+				queueMicrotask(() =>
+					request.onsuccess?.call(request as never, {} as Event),
+				);
+				return request;
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		localStorage.clear();
+		sessionStorage.clear();
+	});
+
+	it("should remove the application data from every browser storage", async () => {
+		localStorage.setItem("cvix:resume", "{}");
+		localStorage.setItem("cvix-section-visibility-1", "{}");
+		localStorage.setItem("theme-preference", "dark");
+		sessionStorage.setItem("cvix:resume", "{}");
+
+		const result = await wipeLocalData();
+
+		expect(localStorage.length).toBe(0);
+		expect(sessionStorage.length).toBe(0);
+		expect(result.removedKeys).toBe(4);
+		expect(deleted).toContain("cvix-db");
+		expect(deleted).toContain("keyval-store");
+		expect(result.deletedDatabases).toEqual(deleted);
+	});
+
+	it("should keep the authentication session and other sites' data", async () => {
+		sessionStorage.setItem("auth_session_expires", "123");
+		localStorage.setItem("other-app", "keep");
+
+		await wipeLocalData();
+
+		expect(sessionStorage.getItem("auth_session_expires")).toBe("123");
+		expect(localStorage.getItem("other-app")).toBe("keep");
+	});
+
+	it("should report databases that cannot be deleted", async () => {
+		vi.stubGlobal("indexedDB", {
+			deleteDatabase: () => {
+				const request: Partial<IDBOpenDBRequest> = {};
+				queueMicrotask(() =>
+					request.onerror?.call(request as never, {} as Event),
+				);
+				return request;
+			},
+		});
+
+		await expect(wipeLocalData()).rejects.toThrow(
+			"Failed to wipe local data: Failed to delete cvix-db",
+		);
+	});
+});
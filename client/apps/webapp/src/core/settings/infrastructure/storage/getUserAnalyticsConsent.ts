@@ -0,0 +1,26 @@
+import { DEFAULT_USER_SETTINGS } from "../../domain";
+import { USER_SETTINGS_STORAGE_KEY } from "./LocalStorageSettingsRepository";
+
+/**
+ * Retrieve whether the user allows usage analytics from localStorage.
+ *
+ * Analytics integrations must check this before collecting anything, so the
+ * opt-out in the privacy settings is honored even before the settings store
+ * has loaded.
+ *
+ * @returns `false` if the user opted out, otherwise the default
+ */
+export function getUserAnalyticsConsent(): boolean {
+	try {
+		const stored = localStorage.getItem(USER_SETTINGS_STORAGE_KEY);
+		if (stored) {
+			const analytics = JSON.parse(stored)?.privacy?.analytics;
+			if (typeof analytics === "boolean") {
+				return analytics;
+			}
+		}
+	} catch {
+		// localStorage might not be available or parsing failed
+	}
+	return DEFAULT_USER_SETTINGS.privacy?.analytics ?? true;
+}
@@ -4,8 +4,15 @@
  * This module provides concrete implementations of the SettingsRepository interface.
  */
 
+export {
+	CompositeSettingsRepository,
+	USER_SETTINGS_TIMESTAMPS_STORAGE_KEY,
+} from "./CompositeSettingsRepository";
+export { getUserAnalyticsConsent } from "./getUserAnalyticsConsent";
 export { getUserStoragePreference } from "./getUserStoragePreference";
 export {
 	LocalStorageSettingsRepository,
 	USER_SETTINGS_STORAGE_KEY,
 } from "./LocalStorageSettingsRepository";
+export { RemoteSettingsRepository } from "./RemoteSettingsRepository";
+export { type LocalDataWipeResult, wipeLocalData } from "./wipeLocalData";
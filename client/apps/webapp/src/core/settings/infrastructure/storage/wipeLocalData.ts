@@ -0,0 +1,87 @@
+/**
+ * Prefix shared by every key and database the application stores in the browser.
+ */
+const APP_STORAGE_PREFIX = "cvix";
+
+/**
+ * Browser storage entries outside the application prefix.
+ */
+const UNPREFIXED_KEYS = ["theme-preference", "currentLanguage"];
+
+/**
+ * IndexedDB databases of the application. `keyval-store` is the default
+ * database of idb-keyval, which holds the autosave draft.
+ */
+const APP_DATABASES = [
+	"cvix-db",
+	"cvix-cover-letters",
+	"cvix-history",
+	"cvix-sync",
+	"keyval-store",
+];
+
+/**
+ * What a local data wipe removed.
+ */
+export interface LocalDataWipeResult {
+	/** Number of localStorage and sessionStorage entries removed */
+	removedKeys: number;
+	/** Names of the IndexedDB databases deleted */
+	deletedDatabases: string[];
+}
+
+function isAppKey(key: string): boolean {
+	return key.startsWith(APP_STORAGE_PREFIX) || UNPREFIXED_KEYS.includes(key);
+}
+
+function wipeWebStorage(storage: Storage): number {
+	const keys: string[] = [];
+	for (let index = 0; index < storage.length; index++) {
+		const key = storage.key(index);
+		if (key && isAppKey(key)) keys.push(key);
+	}
+	for (const key of keys) storage.removeItem(key);
+	return keys.length;
+}
+
+function deleteDatabase(name: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.deleteDatabase(name);
+		request.onsuccess = () => resolve();
+		// Open connections delay the deletion until they close; it still happens
+		request.onblocked = () => resolve();
+		request.onerror = () =>
+			reject(request.error ?? new Error(`Failed to delete ${name}`));
+	});
+}
+
+/**
+ * Delete every piece of application data kept in this browser: resumes and
+ * their companions in sessionStorage, localStorage and IndexedDB, the autosave
+ * draft, cached settings, and the theme and language preferences.
+ *
+ * The authentication session is kept, and nothing is deleted on the server.
+ * Reload the page afterwards so no in-memory state outlives the wipe.
+ *
+ * @returns What was removed
+ * @throws Error if a database cannot be deleted
+ */
+export async function wipeLocalData(): Promise<LocalDataWipeResult> {
+	try {
+		const removedKeys =
+			wipeWebStorage(localStorage) + wipeWebStorage(sessionStorage);
+
+		const deletedDatabases: string[] = [];
+		if (typeof indexedDB !== "undefined") {
+			for (const name of APP_DATABASES) {
+				await deleteDatabase(name);
+				deletedDatabases.push(name);
+			}
+		}
+
+		return { removedKeys, deletedDatabases };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Failed to wipe local data: ${message}`);
+	}
+}
@@ -1,5 +1,9 @@
 import { defineStore } from "pinia";
 import { computed, getCurrentInstance, ref } from "vue";
+import {
+	addCustomWord as addWord,
+	removeCustomWord as removeWord,
+} from "../../application";
 import type { StoragePreference, UserSettings } from "../../domain";
 import { DEFAULT_USER_SETTINGS } from "../../domain";
 import type { SettingsRepository } from "../../domain/SettingsRepository";
@@ -170,6 +174,31 @@ export const useSettingsStore = defineStore("settings", () => {
 		await saveSettings();
 	}
 
+	/**
+	 * Add a word to the user's custom dictionary for a language and persist the change.
+	 *
+	 * @param language - Language code of the dictionary (e.g. 'en')
+	 * @param word - The word the spell checker should accept
+	 */
+	async function addCustomWord(language: string, word: string): Promise<void> {
+		settings.value = addWord(settings.value, language, word);
+		await saveSettings();
+	}
+
+	/**
+	 * Remove a word from the user's custom dictionary for a language and persist the change.
+	 *
+	 * @param language - Language code of the dictionary (e.g. 'en')
+	 * @param word - The word to remove
+	 */
+	async function removeCustomWord(
+		language: string,
+		word: string,
+	): Promise<void> {
+		settings.value = removeWord(settings.value, language, word);
+		await saveSettings();
+	}
+
 	/**
 	 * Reset user settings to defaults and remove persisted settings from the repository.
 	 *
@@ -211,6 +240,8 @@ export const useSettingsStore = defineStore("settings", () => {
 		saveSettings,
 		updateStoragePreference,
 		updateSettings,
+		addCustomWord,
+		removeCustomWord,
 		resetSettings,
 	};
 });
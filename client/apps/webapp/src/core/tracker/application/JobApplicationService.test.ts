@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+	JobApplication,
+	JobApplicationDraft,
+	JobApplicationRepository,
+} from "../domain";
+import { JobApplicationService } from "./JobApplicationService";
+
+class InMemoryJobApplicationRepository implements JobApplicationRepository {
+	readonly applications = new Map<string, JobApplication>();
+
+	async list(): Promise<JobApplication[]> {
+		return [...this.applications.values()];
+	}
+
+	async get(id: string): Promise<JobApplication | null> {
+		return this.applications.get(id) ?? null;
+	}
+
+	async save(application: JobApplication): Promise<void> {
+		this.applications.set(application.id, application);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.applications.delete(id);
+	}
+}
+
+const draft: JobApplicationDraft = {
+	company: "Acme",
+	role: "Engineer",
+	postingUrl: "",
+	status: "applied",
+	notes: "",
+};
+
+describe("JobApplicationService", () => {
+	let repository: InMemoryJobApplicationRepository;
+	let service: JobApplicationService;
+
+	beforeEach(() => {
+		repository = new InMemoryJobApplicationRepository();
+		service = new JobApplicationService(repository);
+	});
+
+	describe("create", () => {
+		it("should store the application with the resume version sent", async () => {
+			const version = {
+				resumeId: "resume-1",
+				snapshotId: "snapshot-1",
+				variantId: "variant-1",
+				label: "Engineer – Acme",
+				templateId: "engineering",
+			};
+
+			const application = await service.create(draft, version);
+
+			expect(application.resume).toEqual(version);
+			expect(repository.applications.get(application.id)).toEqual(application);
+		});
+
+		it("should require a company and a role", async () => {
+			await expect(service.create({ ...draft, company: " " })).rejects.toThrow(
+				"Company and role are required",
+			);
+			expect(repository.applications.size).toBe(0);
+		});
+
+		it("should wrap repository errors", async () => {
+			vi.spyOn(repository, "save").mockRejectedValue(new Error("quota"));
+
+			await expect(service.create(draft)).rejects.toThrow(
+				"Failed to save job application: quota",
+			);
+		});
+	});
+
+	describe("update", () => {
+		it("should change the fields and record a status change", async () => {
+			const created = await service.create(draft);
+
+			const updated = await service.update(created.id, {
+				notes: "Phone screen on Monday",
+				status: "interviewing",
+			});
+
+			expect(updated.notes).toBe("Phone screen on Monday");
+			expect(updated.status).toBe("interviewing");
+			expect(updated.history.map((change) => change.status)).toEqual([
+				"applied",
+				"interviewing",
+			]);
+		});
+
+		it("should throw for unknown applications", async () => {
+			await expect(service.update("missing", {})).rejects.toThrow(
+				"Job application not found: missing",
+			);
+		});
+	});
+
+	describe("moveTo", () => {
+		it("should not write when the status is unchanged", async () => {
+			const created = await service.create(draft);
+			const save = vi.spyOn(repository, "save");
+
+			await service.moveTo(created.id, "applied");
+
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("should persist the new status", async () => {
+			const created = await service.create(draft);
+
+			await service.moveTo(created.id, "rejected");
+
+			expect(repository.applications.get(created.id)?.status).toBe("rejected");
+		});
+	});
+
+	it("should list the most recently updated applications first", async () => {
+		const first = await service.create(draft);
+		await repository.save({ ...first, updatedAt: "2020-01-01T00:00:00.000Z" });
+		const second = await service.create({ ...draft, company: "Globex" });
+
+		expect((await service.list()).map((application) => application.id)).toEqual(
+			[second.id, first.id],
+		);
+	});
+
+	it("should wrap removal errors", async () => {
+		vi.spyOn(repository, "delete").mockRejectedValue(new Error("offline"));
+
+		await expect(service.remove("app-1")).rejects.toThrow(
+			"Failed to remove job application: offline",
+		);
+	});
+});
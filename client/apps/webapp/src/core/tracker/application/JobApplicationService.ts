@@ -0,0 +1,147 @@
+import {
+	type ApplicationResumeVersion,
+	type ApplicationStatus,
+	changeApplicationStatus,
+	createJobApplication,
+	type JobApplication,
+	type JobApplicationDraft,
+	type JobApplicationRepository,
+	sortApplications,
+} from "../domain";
+
+/**
+ * Fields of an application that can be changed after creation.
+ */
+export type JobApplicationChanges = Partial<
+	JobApplicationDraft & Pick<JobApplication, "resume">
+>;
+
+/**
+ * Application service for the job application tracker.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new JobApplicationService(new LocalStorageJobApplicationRepository());
+ * const application = await tracker.create(
+ *   { company: "Acme", role: "Engineer", postingUrl: "", status: "applied", notes: "" },
+ *   { resumeId: "default", snapshotId, variantId: null, label: "Acme", templateId: "engineering" },
+ * );
+ * await tracker.moveTo(application.id, "interviewing");
+ * ```
+ */
+export class JobApplicationService {
+	constructor(private readonly repository: JobApplicationRepository) {}
+
+	/**
+	 * Lists the applications, most recently updated first.
+	 */
+	async list(): Promise<JobApplication[]> {
+		return sortApplications(await this.repository.list());
+	}
+
+	/**
+	 * Records an application.
+	 *
+	 * @param draft - The fields entered by the user
+	 * @param resume - The resume version sent, if any
+	 * @returns The stored application
+	 * @throws Error if company or role is missing, or the repository fails
+	 */
+	async create(
+		draft: JobApplicationDraft,
+		resume: ApplicationResumeVersion | null = null,
+	): Promise<JobApplication> {
+		const application = createJobApplication(
+			crypto.randomUUID(),
+			draft,
+			resume,
+		);
+		this.validate(application);
+		await this.persist(application);
+		return application;
+	}
+
+	/**
+	 * Changes an application. A status change is recorded in its history.
+	 *
+	 * @param id - The application ID
+	 * @param changes - The fields to replace
+	 * @returns The updated application
+	 * @throws Error if the application does not exist, is invalid, or the repository fails
+	 */
+	async update(
+		id: string,
+		changes: JobApplicationChanges,
+	): Promise<JobApplication> {
+		const existing = await this.require(id);
+		const { status, ...fields } = changes;
+		const now = new Date().toISOString();
+		const moved = status
+			? changeApplicationStatus(existing, status, now)
+			: existing;
+		const application: JobApplication = {
+			...moved,
+			...fields,
+			company: (fields.company ?? moved.company).trim(),
+			role: (fields.role ?? moved.role).trim(),
+			postingUrl: (fields.postingUrl ?? moved.postingUrl).trim(),
+			updatedAt: now,
+		};
+		this.validate(application);
+		await this.persist(application);
+		return application;
+	}
+
+	/**
+	 * Moves an application to another pipeline stage.
+	 *
+	 * @param id - The application ID
+	 * @param status - The new status
+	 * @returns The updated application
+	 */
+	async moveTo(id: string, status: ApplicationStatus): Promise<JobApplication> {
+		const existing = await this.require(id);
+		const application = changeApplicationStatus(existing, status);
+		if (application !== existing) {
+			await this.persist(application);
+		}
+		return application;
+	}
+
+	/**
+	 * Removes an application.
+	 */
+	async remove(id: string): Promise<void> {
+		try {
+			await this.repository.delete(id);
+		} catch (error) {
+			throw new Error(
+				`Failed to remove job application: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	private async require(id: string): Promise<JobApplication> {
+		const application = await this.repository.get(id);
+		if (!application) {
+			throw new Error(`Job application not found: ${id}`);
+		}
+		return application;
+	}
+
+	private validate(application: JobApplication): void {
+		if (!application.company || !application.role) {
+			throw new Error("Company and role are required");
+		}
+	}
+
+	private async persist(application: JobApplication): Promise<void> {
+		try {
+			await this.repository.save(application);
+		} catch (error) {
+			throw new Error(
+				`Failed to save job application: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
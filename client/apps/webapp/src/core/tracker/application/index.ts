@@ -0,0 +1,8 @@
+/**
+ * Application layer barrel export for the job application tracker.
+ */
+
+export {
+	type JobApplicationChanges,
+	JobApplicationService,
+} from "./JobApplicationService";
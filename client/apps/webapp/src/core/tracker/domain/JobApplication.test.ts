@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+	changeApplicationStatus,
+	createJobApplication,
+	groupByStatus,
+	isApplicationStatus,
+	isClosedStatus,
+	type JobApplicationDraft,
+} from "./JobApplication";
+
+const draft: JobApplicationDraft = {
+	company: "  Acme ",
+	role: " Engineer ",
+	postingUrl: " https://acme.example/jobs/1 ",
+	status: "saved",
+	notes: "Referral from Jane",
+};
+
+describe("JobApplication", () => {
+	describe("createJobApplication", () => {
+		it("should trim the fields and record the initial status", () => {
+			const application = createJobApplication(
+				"app-1",
+				draft,
+				null,
+				"2026-01-01T00:00:00.000Z",
+			);
+
+			expect(application).toMatchObject({
+				company: "Acme",
+				role: "Engineer",
+				postingUrl: "https://acme.example/jobs/1",
+				appliedAt: null,
+				history: [{ status: "saved", changedAt: "2026-01-01T00:00:00.000Z" }],
+			});
+		});
+
+		it("should set the application date when created as applied", () => {
+			const application = createJobApplication(
+				"app-1",
+				{ ...draft, status: "applied" },
+				null,
+				"2026-01-01T00:00:00.000Z",
+			);
+
+			expect(application.appliedAt).toBe("2026-01-01T00:00:00.000Z");
+		});
+	});
+
+	describe("changeApplicationStatus", () => {
+		const saved = createJobApplication(
+			"app-1",
+			draft,
+			null,
+			"2026-01-01T00:00:00.000Z",
+		);
+
+		it("should set the application date on the first move out of saved", () => {
+			const applied = changeApplicationStatus(
+				saved,
+				"applied",
+				"2026-01-02T00:00:00.000Z",
+			);
+			const interviewing = changeApplicationStatus(
+				applied,
+				"interviewing",
+				"2026-01-09T00:00:00.000Z",
+			);
+
+			expect(interviewing.appliedAt).toBe("2026-01-02T00:00:00.000Z");
+			expect(interviewing.history.map((change) => change.status)).toEqual([
+				"saved",
+				"applied",
+				"interviewing",
+			]);
+			expect(interviewing.updatedAt).toBe("2026-01-09T00:00:00.000Z");
+		});
+
+		it("should return the same application when the status is unchanged", () => {
+			expect(changeApplicationStatus(saved, "saved")).toBe(saved);
+		});
+	});
+
+	describe("groupByStatus", () => {
+		it("should put every application in its column, most recent first", () => {
+			const older = {
+				...createJobApplication("old", { ...draft, status: "applied" }),
+				updatedAt: "2026-01-01T00:00:00.000Z",
+			};
+			const newer = {
+				...createJobApplication("new", { ...draft, status: "applied" }),
+				updatedAt: "2026-02-01T00:00:00.000Z",
+			};
+			const offer = createJobApplication("offer", {
+				...draft,
+				status: "offer",
+			});
+
+			const columns = groupByStatus([older, offer, newer]);
+
+			expect(columns.applied.map((application) => application.id)).toEqual([
+				"new",
+				"old",
+			]);
+			expect(columns.offer).toHaveLength(1);
+			expect(columns.saved).toEqual([]);
+		});
+	});
+
+	it("should validate statuses", () => {
+		expect(isApplicationStatus("interviewing")).toBe(true);
+		expect(isApplicationStatus("hired")).toBe(false);
+		expect(isClosedStatus("rejected")).toBe(true);
+		expect(isClosedStatus("applied")).toBe(false);
+	});
+});
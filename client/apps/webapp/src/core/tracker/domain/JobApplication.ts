@@ -0,0 +1,192 @@
+/**
+ * Stages of the application pipeline, in the order they are usually reached.
+ * `offer` and `rejected` are both final stages.
+ */
+export const APPLICATION_STATUSES = [
+	"saved",
+	"applied",
+	"interviewing",
+	"offer",
+	"rejected",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+/**
+ * A status change, kept so the pipeline dates can be shown later.
+ */
+export interface ApplicationStatusChange {
+	/** The status the application moved to */
+	status: ApplicationStatus;
+
+	/** ISO 8601 timestamp of the change */
+	changedAt: string;
+}
+
+/**
+ * The exact resume sent with an application.
+ */
+export interface ApplicationResumeVersion {
+	/** ID of the resume the snapshot belongs to */
+	resumeId: string;
+
+	/** ID of the history snapshot taken when the application was recorded */
+	snapshotId: string;
+
+	/** Tailored variant applied on top of the snapshot, if any */
+	variantId: string | null;
+
+	/** Human readable label of the version, e.g. the checkpoint name */
+	label: string;
+
+	/** ID of the PDF template used */
+	templateId: string;
+}
+
+/**
+ * A job the user saved or applied to.
+ */
+export interface JobApplication {
+	/** Unique identifier */
+	id: string;
+
+	/** Hiring company */
+	company: string;
+
+	/** Role applied for */
+	role: string;
+
+	/** URL of the job posting */
+	postingUrl: string;
+
+	/** Current pipeline stage */
+	status: ApplicationStatus;
+
+	/** Free-form notes (contacts, interview feedback...) */
+	notes: string;
+
+	/** ISO 8601 date the application was sent, or null while only saved */
+	appliedAt: string | null;
+
+	/** Status changes, oldest first */
+	history: ApplicationStatusChange[];
+
+	/** The resume version sent, or null if none was recorded */
+	resume: ApplicationResumeVersion | null;
+
+	/** ISO 8601 timestamp of creation */
+	createdAt: string;
+
+	/** ISO 8601 timestamp of the last update */
+	updatedAt: string;
+}
+
+/**
+ * Fields the user enters when recording an application.
+ */
+export type JobApplicationDraft = Pick<
+	JobApplication,
+	"company" | "role" | "postingUrl" | "status" | "notes"
+>;
+
+/**
+ * Validates a status value read from storage or user input.
+ */
+export function isApplicationStatus(
+	value: unknown,
+): value is ApplicationStatus {
+	return (
+		typeof value === "string" &&
+		(APPLICATION_STATUSES as ReadonlyArray<string>).includes(value)
+	);
+}
+
+/**
+ * Whether the application reached a final stage.
+ */
+export function isClosedStatus(status: ApplicationStatus): boolean {
+	return status === "offer" || status === "rejected";
+}
+
+/**
+ * Creates an application from a draft.
+ *
+ * @param id - The application ID
+ * @param draft - The fields entered by the user
+ * @param resume - The resume version sent, if any
+ * @param now - Creation timestamp
+ * @returns The new application, with its initial status in the history
+ */
+export function createJobApplication(
+	id: string,
+	draft: JobApplicationDraft,
+	resume: ApplicationResumeVersion | null = null,
+	now = new Date().toISOString(),
+): JobApplication {
+	return {
+		id,
+		company: draft.company.trim(),
+		role: draft.role.trim(),
+		postingUrl: draft.postingUrl.trim(),
+		status: draft.status,
+		notes: draft.notes,
+		appliedAt: draft.status === "saved" ? null : now,
+		history: [{ status: draft.status, changedAt: now }],
+		resume,
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Moves an application to another stage.
+ * The first move out of `saved` sets the application date.
+ *
+ * @param application - The application
+ * @param status - The new status
+ * @param now - Timestamp of the change
+ * @returns The updated application, or the same one if the status is unchanged
+ */
+export function changeApplicationStatus(
+	application: JobApplication,
+	status: ApplicationStatus,
+	now = new Date().toISOString(),
+): JobApplication {
+	if (application.status === status) {
+		return application;
+	}
+	return {
+		...application,
+		status,
+		appliedAt: application.appliedAt ?? (status === "saved" ? null : now),
+		history: [...application.history, { status, changedAt: now }],
+		updatedAt: now,
+	};
+}
+
+/**
+ * Groups applications by status for the kanban board, most recently updated
+ * first within each column.
+ */
+export function groupByStatus(
+	applications: ReadonlyArray<JobApplication>,
+): Record<ApplicationStatus, JobApplication[]> {
+	const columns = Object.fromEntries(
+		APPLICATION_STATUSES.map((status) => [status, [] as JobApplication[]]),
+	) as Record<ApplicationStatus, JobApplication[]>;
+	for (const application of sortApplications(applications)) {
+		columns[application.status].push(application);
+	}
+	return columns;
+}
+
+/**
+ * Orders applications by last update, most recent first.
+ */
+export function sortApplications(
+	applications: ReadonlyArray<JobApplication>,
+): JobApplication[] {
+	return [...applications].sort((a, b) =>
+		b.updatedAt.localeCompare(a.updatedAt),
+	);
+}
@@ -0,0 +1,40 @@
+import type { JobApplication } from "./JobApplication";
+
+/**
+ * Repository interface for job application persistence.
+ *
+ * Applications belong to the current workspace: implementations scope every
+ * operation to it, like the resume storage does.
+ */
+export interface JobApplicationRepository {
+	/**
+	 * Lists the applications of the current workspace.
+	 *
+	 * @returns Promise resolving to the applications
+	 */
+	list(): Promise<JobApplication[]>;
+
+	/**
+	 * Retrieves an application.
+	 *
+	 * @param id - The application ID
+	 * @returns Promise resolving to the application or null if not found
+	 */
+	get(id: string): Promise<JobApplication | null>;
+
+	/**
+	 * Creates or replaces an application.
+	 *
+	 * @param application - The application to store
+	 * @returns Promise resolving when the application is persisted
+	 */
+	save(application: JobApplication): Promise<void>;
+
+	/**
+	 * Removes an application.
+	 *
+	 * @param id - The application ID
+	 * @returns Promise resolving when deletion is complete
+	 */
+	delete(id: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Domain layer barrel export for the job application tracker.
+ */
+
+export {
+	APPLICATION_STATUSES,
+	type ApplicationResumeVersion,
+	type ApplicationStatus,
+	type ApplicationStatusChange,
+	changeApplicationStatus,
+	createJobApplication,
+	groupByStatus,
+	isApplicationStatus,
+	isClosedStatus,
+	type JobApplication,
+	type JobApplicationDraft,
+	sortApplications,
+} from "./JobApplication";
+export type { JobApplicationRepository } from "./JobApplicationRepository";
@@ -0,0 +1,51 @@
+/**
+ * Job application tracker barrel export.
+ *
+ * Tracks where tailored resumes were sent: company, role, posting, pipeline
+ * status and the exact resume version and template used.
+ */
+
+// Application layer
+export {
+	type JobApplicationChanges,
+	JobApplicationService,
+} from "./application";
+
+// Domain layer
+export type {
+	ApplicationResumeVersion,
+	ApplicationStatus,
+	ApplicationStatusChange,
+	JobApplication,
+	JobApplicationDraft,
+	JobApplicationRepository,
+} from "./domain";
+export {
+	APPLICATION_STATUSES,
+	changeApplicationStatus,
+	createJobApplication,
+	groupByStatus,
+	isApplicationStatus,
+	isClosedStatus,
+	sortApplications,
+} from "./domain";
+
+// Infrastructure layer
+export {
+	createJobApplicationRepository,
+	JOB_APPLICATION_REPOSITORY_KEY,
+	JOB_APPLICATIONS_STORAGE_KEY,
+	JobApplicationHttpClient,
+	LocalStorageJobApplicationRepository,
+	RemoteJobApplicationRepository,
+	useJobApplicationStore,
+} from "./infrastructure";
+
+// Presentation layer
+export {
+	ApplicationBoard,
+	ApplicationDetailsDrawer,
+	ApplicationForm,
+	ApplicationTable,
+	trackerRoutes,
+} from "./infrastructure/presentation";
@@ -0,0 +1,5 @@
+/**
+ * Dependency injection configuration for the job application tracker.
+ */
+
+export { JOB_APPLICATION_REPOSITORY_KEY } from "./keys";
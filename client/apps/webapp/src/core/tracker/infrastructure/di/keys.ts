@@ -0,0 +1,15 @@
+import type { InjectionKey } from "vue";
+import type { JobApplicationRepository } from "../../domain";
+
+/**
+ * Injection key for the JobApplicationRepository dependency.
+ *
+ * When nothing is provided, the repository follows the resume storage preference.
+ *
+ * @example
+ * ```typescript
+ * app.provide(JOB_APPLICATION_REPOSITORY_KEY, new LocalStorageJobApplicationRepository());
+ * ```
+ */
+export const JOB_APPLICATION_REPOSITORY_KEY: InjectionKey<JobApplicationRepository> =
+	Symbol("JobApplicationRepository");
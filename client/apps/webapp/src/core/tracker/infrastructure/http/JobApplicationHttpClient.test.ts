@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createJobApplication } from "../../domain";
+import { JobApplicationHttpClient } from "./JobApplicationHttpClient";
+
+describe("JobApplicationHttpClient", () => {
+	let client: JobApplicationHttpClient;
+	let getSpy: ReturnType<typeof vi.fn>;
+	let putSpy: ReturnType<typeof vi.fn>;
+	let deleteSpy: ReturnType<typeof vi.fn>;
+
+	const application = createJobApplication("app-1", {
+		company: "Acme",
+		role: "Engineer",
+		postingUrl: "",
+		status: "applied",
+		notes: "",
+	});
+
+	const document = {
+		id: application.id,
+		workspaceId: "workspace-1",
+		content: application,
+		createdAt: application.createdAt,
+		updatedAt: application.updatedAt,
+	};
+
+	beforeEach(() => {
+		client = new JobApplicationHttpClient();
+
+		getSpy = vi.fn();
+		putSpy = vi.fn();
+		deleteSpy = vi.fn();
+
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.get = getSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.put = putSpy;
+		// biome-ignore lint/suspicious/noExplicitAny: Testing requires accessing protected client
+		(client as any).client.delete = deleteSpy;
+	});
+
+	it("lists applications from /applications", async () => {
+		getSpy.mockResolvedValue({ data: { data: [document] } });
+
+		expect(await client.listApplications()).toEqual([document]);
+		expect(getSpy).toHaveBeenCalledWith("/applications");
+	});
+
+	it("gets an application by id", async () => {
+		getSpy.mockResolvedValue({ data: document });
+
+		expect(await client.getApplication("app-1")).toEqual(document);
+		expect(getSpy).toHaveBeenCalledWith("/applications/app-1");
+	});
+
+	it("puts the application content", async () => {
+		putSpy.mockResolvedValue({ data: document });
+
+		await client.saveApplication(application);
+
+		expect(putSpy).toHaveBeenCalledWith("/applications/app-1", {
+			content: application,
+		});
+	});
+
+	it("deletes an application", async () => {
+		deleteSpy.mockResolvedValue({});
+
+		await client.deleteApplication("app-1");
+
+		expect(deleteSpy).toHaveBeenCalledWith("/applications/app-1");
+	});
+});
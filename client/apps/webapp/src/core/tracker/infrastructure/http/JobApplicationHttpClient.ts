@@ -0,0 +1,67 @@
+import { BaseHttpClient } from "@/shared/BaseHttpClient.ts";
+import type { JobApplication } from "../../domain";
+
+/**
+ * Backend job application document response matching server DTO
+ */
+export interface JobApplicationDocumentResponse {
+	id: string;
+	workspaceId: string;
+	content: JobApplication;
+	createdAt: string;
+	updatedAt: string | null;
+}
+
+/**
+ * HTTP client for job application operations
+ * Extends BaseHttpClient to leverage CSRF protection, cookie handling, and error handling
+ */
+export class JobApplicationHttpClient extends BaseHttpClient {
+	/**
+	 * List the job applications of the current workspace
+	 * @returns Promise with the application documents
+	 * @note workspaceId is automatically sent via X-Workspace-Id header
+	 */
+	async listApplications(): Promise<JobApplicationDocumentResponse[]> {
+		const response = await this.client.get<{
+			data: JobApplicationDocumentResponse[];
+		}>("/applications");
+		return response.data.data;
+	}
+
+	/**
+	 * Get a job application by ID
+	 * @param id Application ID (UUID)
+	 * @returns Promise with the application document
+	 */
+	async getApplication(id: string): Promise<JobApplicationDocumentResponse> {
+		const response = await this.client.get<JobApplicationDocumentResponse>(
+			`/applications/${id}`,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Create or replace a job application
+	 * @param application Application data
+	 * @returns Promise with the stored application document
+	 */
+	async saveApplication(
+		application: JobApplication,
+	): Promise<JobApplicationDocumentResponse> {
+		const response = await this.client.put<JobApplicationDocumentResponse>(
+			`/applications/${application.id}`,
+			{ content: application },
+		);
+		return response.data;
+	}
+
+	/**
+	 * Delete a job application
+	 * @param id Application ID
+	 * @returns Promise that resolves when deletion is complete
+	 */
+	async deleteApplication(id: string): Promise<void> {
+		await this.client.delete(`/applications/${id}`);
+	}
+}
@@ -0,0 +1,16 @@
+/**
+ * Infrastructure layer barrel export for the job application tracker.
+ */
+
+export { JOB_APPLICATION_REPOSITORY_KEY } from "./di";
+export {
+	type JobApplicationDocumentResponse,
+	JobApplicationHttpClient,
+} from "./http/JobApplicationHttpClient";
+export {
+	createJobApplicationRepository,
+	JOB_APPLICATIONS_STORAGE_KEY,
+	LocalStorageJobApplicationRepository,
+	RemoteJobApplicationRepository,
+} from "./storage";
+export { type SentResume, useJobApplicationStore } from "./store";
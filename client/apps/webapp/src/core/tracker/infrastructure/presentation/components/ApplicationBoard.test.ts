@@ -0,0 +1,69 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { createJobApplication, groupByStatus } from "../../../domain";
+import ApplicationBoard from "./ApplicationBoard.vue";
+
+const application = createJobApplication("app-1", {
+	company: "Acme",
+	role: "Engineer",
+	postingUrl: "",
+	status: "applied",
+	notes: "",
+});
+
+describe("ApplicationBoard.vue", () => {
+	const mountComponent = () =>
+		mount(ApplicationBoard, {
+			props: { columns: groupByStatus([application]) },
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should render a column per status with its cards", () => {
+		const wrapper = mountComponent();
+
+		const columns = wrapper.findAll("[data-status]");
+		expect(columns.map((column) => column.attributes("data-status"))).toEqual([
+			"saved",
+			"applied",
+			"interviewing",
+			"offer",
+			"rejected",
+		]);
+		expect(
+			wrapper
+				.find('[data-status="applied"] [data-testid="application-card"]')
+				.text(),
+		).toContain("Acme");
+	});
+
+	it("should emit select when a card is clicked", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="application-card"]').trigger("click");
+
+		expect(wrapper.emitted("select")).toEqual([["app-1"]]);
+	});
+
+	it("should emit move from the status picker without opening the card", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper
+			.find('[data-testid="application-card-status"]')
+			.setValue("interviewing");
+
+		expect(wrapper.emitted("move")).toEqual([["app-1", "interviewing"]]);
+		expect(wrapper.emitted("select")).toBeUndefined();
+	});
+
+	it("should emit move when a card is dropped on a column", async () => {
+		const wrapper = mountComponent();
+		const dataTransfer = { getData: () => "app-1" };
+
+		await wrapper
+			.find('[data-status="offer"]')
+			.trigger("drop", { dataTransfer });
+
+		expect(wrapper.emitted("move")).toEqual([["app-1", "offer"]]);
+	});
+});
@@ -0,0 +1,111 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { changeApplicationStatus, createJobApplication } from "../../../domain";
+import ApplicationDetailsDrawer from "./ApplicationDetailsDrawer.vue";
+
+const application = changeApplicationStatus(
+	createJobApplication(
+		"app-1",
+		{
+			company: "Acme",
+			role: "Engineer",
+			postingUrl: "https://acme.example/jobs/1",
+			status: "applied",
+			notes: "Referred by Jane",
+		},
+		{
+			resumeId: "resume-1",
+			snapshotId: "snapshot-1",
+			variantId: null,
+			label: "Engineer – Acme",
+			templateId: "engineering",
+		},
+	),
+	"interviewing",
+);
+
+describe("ApplicationDetailsDrawer.vue", () => {
+	const mountComponent = (props = {}) =>
+		mount(ApplicationDetailsDrawer, {
+			attachTo: document.body,
+			props: {
+				open: true,
+				application,
+				templateNames: { engineering: "Engineering" },
+				...props,
+			},
+			global: { plugins: [createTestI18n()] },
+		});
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	it("should show the application with its resume version and history", async () => {
+		mountComponent();
+		await flushPromises();
+
+		expect(document.body.textContent).toContain("Acme");
+		expect(document.body.textContent).toContain("Engineer");
+		expect(find('a[href="https://acme.example/jobs/1"]')).not.toBeNull();
+		expect(
+			find('[data-testid="application-resume-version"]')?.textContent,
+		).toContain("Engineer – Acme");
+		expect(document.body.textContent).toContain("tracker.status.applied");
+		expect(document.body.textContent).toContain("tracker.status.interviewing");
+	});
+
+	it("should prefill the form and emit the saved changes", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		const notes = find(
+			'[data-testid="application-notes"]',
+		) as HTMLTextAreaElement;
+		expect(notes.value).toBe("Referred by Jane");
+		notes.value = "Second round on Monday";
+		notes.dispatchEvent(new Event("input"));
+		await flushPromises();
+		find('[data-testid="application-form"]')?.dispatchEvent(
+			new Event("submit"),
+		);
+		await flushPromises();
+
+		expect(wrapper.emitted("save")).toEqual([
+			[
+				{
+					company: "Acme",
+					role: "Engineer",
+					postingUrl: "https://acme.example/jobs/1",
+					status: "interviewing",
+					notes: "Second round on Monday",
+				},
+			],
+		]);
+	});
+
+	it("should emit delete with the application ID", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		find('[data-testid="application-delete"]')?.click();
+
+		expect(wrapper.emitted("delete")).toEqual([["app-1"]]);
+	});
+
+	it("should say when no resume version was sent", async () => {
+		mountComponent({ application: { ...application, resume: null } });
+		await flushPromises();
+
+		expect(find('[data-testid="application-resume-version"]')).toBeNull();
+		expect(document.body.textContent).toContain("tracker.noResume");
+	});
+});
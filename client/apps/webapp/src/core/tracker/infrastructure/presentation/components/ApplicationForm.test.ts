@@ -0,0 +1,101 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import type { TemplateMetadata } from "@/core/resume/domain/TemplateMetadata";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import ApplicationForm from "./ApplicationForm.vue";
+
+const templates: TemplateMetadata[] = [
+	{ id: "modern", name: "Modern", version: "1", supportedLocales: ["en"] },
+	{
+		id: "engineering",
+		name: "Engineering",
+		version: "1",
+		supportedLocales: ["en"],
+	},
+];
+
+describe("ApplicationForm.vue", () => {
+	const fill = async (wrapper: ReturnType<typeof mount>) => {
+		await wrapper.find('[data-testid="application-company"]').setValue("Acme");
+		await wrapper.find('[data-testid="application-role"]').setValue("Engineer");
+	};
+
+	it("should not submit without company and role", async () => {
+		const wrapper = mount(ApplicationForm, {
+			global: { plugins: [createTestI18n()] },
+		});
+
+		await wrapper.find("form").trigger("submit");
+
+		expect(wrapper.emitted("submit")).toBeUndefined();
+		expect(
+			wrapper.find('[data-testid="application-submit"]').attributes("disabled"),
+		).toBeDefined();
+	});
+
+	it("should emit the draft without a resume version by default", async () => {
+		const wrapper = mount(ApplicationForm, {
+			global: { plugins: [createTestI18n()] },
+		});
+		await fill(wrapper);
+		await wrapper
+			.find('[data-testid="application-status"]')
+			.setValue("interviewing");
+
+		await wrapper.find("form").trigger("submit");
+
+		expect(wrapper.emitted("submit")).toEqual([
+			[
+				{
+					company: "Acme",
+					role: "Engineer",
+					postingUrl: "",
+					status: "interviewing",
+					notes: "",
+				},
+				null,
+			],
+		]);
+		expect(
+			wrapper.find('[data-testid="application-attach-resume"]').exists(),
+		).toBe(false);
+	});
+
+	it("should emit the resume version picked", async () => {
+		const wrapper = mount(ApplicationForm, {
+			props: {
+				resumeOptions: {
+					templates,
+					variants: [
+						{
+							id: "variant-1",
+							baseResumeId: "resume-1",
+							name: "Backend",
+							visibility: {} as never,
+							hiddenItems: {},
+							order: {},
+							overrides: {},
+							createdAt: "2026-01-01T00:00:00.000Z",
+							updatedAt: "2026-01-01T00:00:00.000Z",
+						},
+					],
+				},
+			},
+			global: { plugins: [createTestI18n()] },
+		});
+		await fill(wrapper);
+		await wrapper
+			.find('[data-testid="application-variant"]')
+			.setValue("variant-1");
+		await wrapper
+			.find('[data-testid="application-template"]')
+			.setValue("engineering");
+
+		await wrapper.find("form").trigger("submit");
+
+		expect(wrapper.emitted("submit")?.[0]?.[1]).toEqual({
+			variantId: "variant-1",
+			templateId: "engineering",
+		});
+	});
+});
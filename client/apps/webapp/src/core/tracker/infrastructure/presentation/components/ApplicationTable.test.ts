@@ -0,0 +1,67 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import { createJobApplication } from "../../../domain";
+import ApplicationTable from "./ApplicationTable.vue";
+
+const application = createJobApplication(
+	"app-1",
+	{
+		company: "Acme",
+		role: "Engineer",
+		postingUrl: "https://acme.example/jobs/1",
+		status: "applied",
+		notes: "",
+	},
+	{
+		resumeId: "resume-1",
+		snapshotId: "snapshot-1",
+		variantId: null,
+		label: "Engineer – Acme",
+		templateId: "engineering",
+	},
+);
+
+describe("ApplicationTable.vue", () => {
+	const mountComponent = (applications = [application]) =>
+		mount(ApplicationTable, {
+			props: {
+				applications,
+				templateNames: { engineering: "Engineering" },
+			},
+			global: { plugins: [createTestI18n()] },
+		});
+
+	it("should render a row per application with its resume version", () => {
+		const wrapper = mountComponent();
+
+		const row = wrapper.find('[data-testid="application-row"]');
+		expect(row.text()).toContain("Acme");
+		expect(row.text()).toContain("Engineer – Acme");
+		expect(row.text()).toContain("Engineering");
+		expect(row.find("a").attributes("href")).toBe(
+			"https://acme.example/jobs/1",
+		);
+	});
+
+	it("should emit select and move", async () => {
+		const wrapper = mountComponent();
+
+		await wrapper.find('[data-testid="application-row"]').trigger("click");
+		await wrapper
+			.find('[data-testid="application-row-status"]')
+			.setValue("rejected");
+
+		expect(wrapper.emitted("select")).toEqual([["app-1"]]);
+		expect(wrapper.emitted("move")).toEqual([["app-1", "rejected"]]);
+	});
+
+	it("should show an empty state", () => {
+		const wrapper = mountComponent([]);
+
+		expect(wrapper.find('[data-testid="application-row"]').exists()).toBe(
+			false,
+		);
+		expect(wrapper.text()).toContain("tracker.empty");
+	});
+});
@@ -0,0 +1,9 @@
+/**
+ * Presentation layer barrel export for the job application tracker.
+ */
+
+export { default as ApplicationBoard } from "./components/ApplicationBoard.vue";
+export { default as ApplicationDetailsDrawer } from "./components/ApplicationDetailsDrawer.vue";
+export { default as ApplicationForm } from "./components/ApplicationForm.vue";
+export { default as ApplicationTable } from "./components/ApplicationTable.vue";
+export { trackerRoutes } from "./router";
@@ -0,0 +1,243 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { useWorkspaceStore } from "@/core/workspace";
+import { createTestI18n } from "@/test-utils/i18n-helper";
+import {
+	createJobApplication,
+	groupByStatus,
+	type JobApplication,
+} from "../../../domain";
+import JobApplicationsPage from "./JobApplicationsPage.vue";
+
+const toastMocks = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn() }));
+
+const trackerStore = vi.hoisted(() => ({
+	applications: [] as JobApplication[],
+	columns: {} as Record<string, JobApplication[]>,
+	isLoading: false,
+	isSaving: false,
+	loadApplications: vi.fn(),
+	recordApplication: vi.fn(),
+	updateApplication: vi.fn(),
+	moveApplication: vi.fn(),
+	deleteApplication: vi.fn(),
+}));
+
+const resumeStore = vi.hoisted(() => ({
+	hasResume: false,
+	activeResumeId: null as string | null,
+	variants: [],
+	loadFromStorage: vi.fn(),
+	loadVariants: vi.fn(),
+}));
+
+const workspaceStore = vi.hoisted(() => ({
+	currentWorkspace: { id: "workspace-1" } as { id: string } | null,
+}));
+
+vi.mock("vue-sonner", () => ({ toast: toastMocks }));
+
+vi.mock("../../store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(trackerStore);
+	return { useJobApplicationStore: () => store };
+});
+
+vi.mock("@/core/resume/infrastructure/store/resume.store", async () => {
+	const { reactive } = await import("vue");
+	const store = reactive(resumeStore);
+	return { useResumeStore: () => store };
+});
+
+vi.mock("@/core/workspace", async (importOriginal) => {
+	const { reactive } = await import("vue");
+	const store = reactive(workspaceStore);
+	return {
+		...(await importOriginal<typeof import("@/core/workspace")>()),
+		useWorkspaceStore: () => store,
+	};
+});
+
+vi.mock("@/core/resume/infrastructure/presentation/composables/usePdf", () => ({
+	usePdf: () => ({
+		templates: ref([{ id: "engineering", name: "Engineering" }]),
+		fetchTemplates: vi.fn().mockResolvedValue(undefined),
+	}),
+}));
+
+const application = createJobApplication("app-1", {
+	company: "Acme",
+	role: "Engineer",
+	postingUrl: "",
+	status: "applied",
+	notes: "",
+});
+
+describe("JobApplicationsPage.vue", () => {
+	let wrapper: ReturnType<typeof mount> | null = null;
+
+	// Unmounted after each test so earlier pages stop watching the workspace
+	const mountComponent = () => {
+		wrapper = mount(JobApplicationsPage, {
+			attachTo: document.body,
+			global: {
+				plugins: [createTestI18n()],
+				stubs: { DashboardLayout: { template: "<div><slot /></div>" } },
+			},
+		});
+		return wrapper;
+	};
+
+	const find = (selector: string) =>
+		document.body.querySelector<HTMLElement>(selector);
+
+	const setValue = async (selector: string, value: string) => {
+		const field = find(selector) as HTMLInputElement | HTMLSelectElement;
+		field.value = value;
+		field.dispatchEvent(
+			new Event(field instanceof HTMLSelectElement ? "change" : "input"),
+		);
+		await flushPromises();
+	};
+
+	const openApplication = async () => {
+		find('[data-testid="application-card"]')?.click();
+		await flushPromises();
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		localStorage.clear();
+		vi.clearAllMocks();
+		trackerStore.applications = [application];
+		trackerStore.columns = groupByStatus([application]);
+		trackerStore.loadApplications.mockResolvedValue(undefined);
+		resumeStore.loadFromStorage.mockResolvedValue(undefined);
+		resumeStore.loadVariants.mockResolvedValue(undefined);
+		workspaceStore.currentWorkspace = { id: "workspace-1" };
+	});
+
+	afterEach(() => {
+		wrapper?.unmount();
+		wrapper = null;
+		document.body.innerHTML = "";
+	});
+
+	it("should load the applications into the board", async () => {
+		mountComponent();
+		await flushPromises();
+
+		expect(trackerStore.loadApplications).toHaveBeenCalled();
+		expect(find('[data-testid="application-card"]')?.textContent).toContain(
+			"Acme",
+		);
+	});
+
+	it("should show the table view when chosen", async () => {
+		const wrapper = mountComponent();
+		await flushPromises();
+
+		const tableButton = wrapper
+			.findAll("button")
+			.find((button) => button.text().includes("tracker.view.table"));
+		await tableButton?.trigger("click");
+
+		expect(find('[data-testid="application-board"]')).toBeNull();
+		expect(find('[data-testid="application-row"]')?.textContent).toContain(
+			"Acme",
+		);
+	});
+
+	it("should report a failed load", async () => {
+		trackerStore.loadApplications.mockRejectedValue(new Error("Offline"));
+		mountComponent();
+		await flushPromises();
+
+		expect(toastMocks.error).toHaveBeenCalledWith("tracker.errors.load", {
+			description: "Offline",
+		});
+	});
+
+	it("should record a new application", async () => {
+		trackerStore.recordApplication.mockResolvedValue(undefined);
+		mountComponent();
+		await flushPromises();
+
+		find('[data-testid="application-new"]')?.click();
+		await flushPromises();
+		await setValue('[data-testid="application-company"]', "Globex");
+		await setValue('[data-testid="application-role"]', "Designer");
+		find('[data-testid="application-form"]')?.dispatchEvent(
+			new Event("submit"),
+		);
+		await flushPromises();
+
+		expect(trackerStore.recordApplication).toHaveBeenCalledWith(
+			expect.objectContaining({ company: "Globex", role: "Designer" }),
+			null,
+		);
+		expect(toastMocks.success).toHaveBeenCalledWith("tracker.recorded");
+		expect(find('[data-testid="application-company"]')).toBeNull();
+	});
+
+	it("should save the changes of the selected application", async () => {
+		trackerStore.updateApplication.mockResolvedValue(undefined);
+		mountComponent();
+		await flushPromises();
+
+		await openApplication();
+		await setValue('[data-testid="application-status"]', "offer");
+		find('[data-testid="application-form"]')?.dispatchEvent(
+			new Event("submit"),
+		);
+		await flushPromises();
+
+		expect(trackerStore.updateApplication).toHaveBeenCalledWith(
+			"app-1",
+			expect.objectContaining({ status: "offer" }),
+		);
+		expect(toastMocks.success).toHaveBeenCalledWith("tracker.saved");
+	});
+
+	it("should delete the selected application and close the drawer", async () => {
+		trackerStore.deleteApplication.mockResolvedValue(undefined);
+		mountComponent();
+		await flushPromises();
+
+		await openApplication();
+		find('[data-testid="application-delete"]')?.click();
+		await flushPromises();
+
+		expect(trackerStore.deleteApplication).toHaveBeenCalledWith("app-1");
+		expect(toastMocks.success).toHaveBeenCalledWith("tracker.deleted");
+		expect(find('[data-testid="application-delete"]')).toBeNull();
+	});
+
+	it("should report a failed move", async () => {
+		trackerStore.moveApplication.mockRejectedValue(new Error("Conflict"));
+		mountComponent();
+		await flushPromises();
+
+		await setValue('[data-testid="application-card-status"]', "rejected");
+
+		expect(trackerStore.moveApplication).toHaveBeenCalledWith(
+			"app-1",
+			"rejected",
+		);
+		expect(toastMocks.error).toHaveBeenCalledWith("tracker.errors.save", {
+			description: "Conflict",
+		});
+	});
+
+	it("should reload the applications when the workspace changes", async () => {
+		mountComponent();
+		await flushPromises();
+
+		(useWorkspaceStore() as unknown as typeof workspaceStore).currentWorkspace =
+			{ id: "workspace-2" };
+		await flushPromises();
+
+		expect(trackerStore.loadApplications).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,15 @@
+import type { RouteRecordRaw } from "vue-router";
+
+export const trackerRoutes: RouteRecordRaw[] = [
+	{
+		path: "/applications",
+		name: "JobApplications",
+		component: () =>
+			import(
+				"@/core/tracker/infrastructure/presentation/pages/JobApplicationsPage.vue"
+			),
+		meta: {
+			requiresAuth: true,
+		},
+	},
+];
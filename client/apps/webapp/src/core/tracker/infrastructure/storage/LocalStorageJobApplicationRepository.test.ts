@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createJobApplication } from "../../domain";
+import {
+	JOB_APPLICATIONS_STORAGE_KEY,
+	LocalStorageJobApplicationRepository,
+} from "./LocalStorageJobApplicationRepository";
+
+const application = (id: string, company = "Acme") =>
+	createJobApplication(id, {
+		company,
+		role: "Engineer",
+		postingUrl: "",
+		status: "applied",
+		notes: "",
+	});
+
+describe("LocalStorageJobApplicationRepository", () => {
+	let workspaceId: string | null;
+	let repository: LocalStorageJobApplicationRepository;
+
+	beforeEach(() => {
+		localStorage.clear();
+		workspaceId = "workspace-1";
+		repository = new LocalStorageJobApplicationRepository(
+			localStorage,
+			() => workspaceId,
+		);
+	});
+
+	it("should save, replace and load applications", async () => {
+		await repository.save(application("app-1"));
+		await repository.save(application("app-1", "Globex"));
+
+		expect(await repository.list()).toHaveLength(1);
+		expect((await repository.get("app-1"))?.company).toBe("Globex");
+		expect(await repository.get("missing")).toBeNull();
+	});
+
+	it("should keep applications per workspace", async () => {
+		await repository.save(application("app-1"));
+
+		workspaceId = "workspace-2";
+
+		expect(await repository.list()).toEqual([]);
+		expect(
+			localStorage.getItem(`${JOB_APPLICATIONS_STORAGE_KEY}:workspace-1`),
+		).not.toBeNull();
+	});
+
+	it("should use a shared key without a workspace", async () => {
+		workspaceId = null;
+
+		await repository.save(application("app-1"));
+
+		expect(
+			localStorage.getItem(`${JOB_APPLICATIONS_STORAGE_KEY}:default`),
+		).not.toBeNull();
+	});
+
+	it("should remove the key with the last application", async () => {
+		await repository.save(application("app-1"));
+
+		await repository.delete("app-1");
+
+		expect(
+			localStorage.getItem(`${JOB_APPLICATIONS_STORAGE_KEY}:workspace-1`),
+		).toBeNull();
+	});
+
+	it("should ignore corrupted data", async () => {
+		localStorage.setItem(
+			`${JOB_APPLICATIONS_STORAGE_KEY}:workspace-1`,
+			"{not json",
+		);
+
+		expect(await repository.list()).toEqual([]);
+	});
+});
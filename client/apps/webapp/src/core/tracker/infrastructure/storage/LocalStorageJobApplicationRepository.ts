@@ -0,0 +1,77 @@
+import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
+import type { JobApplication, JobApplicationRepository } from "../../domain";
+
+/**
+ * Prefix of the localStorage keys holding job applications, one key per workspace.
+ */
+export const JOB_APPLICATIONS_STORAGE_KEY = "cvix:job-applications";
+
+/**
+ * LocalStorage implementation of the job application repository.
+ *
+ * Applications are stored per workspace; those recorded before a workspace
+ * is selected are kept under a shared `default` key.
+ *
+ * @example
+ * ```typescript
+ * const repository = new LocalStorageJobApplicationRepository();
+ * const applications = await repository.list();
+ * ```
+ */
+export class LocalStorageJobApplicationRepository
+	implements JobApplicationRepository
+{
+	constructor(
+		private readonly storage: Storage = localStorage,
+		private readonly workspaceId: () => string | null = getCurrentWorkspaceId,
+	) {}
+
+	private get key(): string {
+		return `${JOB_APPLICATIONS_STORAGE_KEY}:${this.workspaceId() ?? "default"}`;
+	}
+
+	private read(): JobApplication[] {
+		const raw = this.storage.getItem(this.key);
+		if (!raw) return [];
+		try {
+			const parsed: unknown = JSON.parse(raw);
+			return Array.isArray(parsed) ? (parsed as JobApplication[]) : [];
+		} catch (error) {
+			console.warn("Failed to parse job applications:", error);
+			return [];
+		}
+	}
+
+	private write(applications: JobApplication[]): void {
+		if (applications.length === 0) {
+			this.storage.removeItem(this.key);
+			return;
+		}
+		this.storage.setItem(this.key, JSON.stringify(applications));
+	}
+
+	async list(): Promise<JobApplication[]> {
+		return this.read();
+	}
+
+	async get(id: string): Promise<JobApplication | null> {
+		return this.read().find((application) => application.id === id) ?? null;
+	}
+
+	async save(application: JobApplication): Promise<void> {
+		const applications = this.read();
+		const index = applications.findIndex(
+			(existing) => existing.id === application.id,
+		);
+		if (index >= 0) {
+			applications[index] = application;
+		} else {
+			applications.push(application);
+		}
+		this.write(applications);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.write(this.read().filter((application) => application.id !== id));
+	}
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
+import { createJobApplication } from "../../domain";
+import type {
+	JobApplicationDocumentResponse,
+	JobApplicationHttpClient,
+} from "../http/JobApplicationHttpClient";
+import { RemoteJobApplicationRepository } from "./RemoteJobApplicationRepository";
+
+vi.mock("@/shared/WorkspaceContext", () => ({
+	getCurrentWorkspaceId: vi.fn(() => "9dcb2241-6840-4e77-98a3-ddfa89c7d032"),
+}));
+
+describe("RemoteJobApplicationRepository", () => {
+	let mockClient: JobApplicationHttpClient;
+	let repository: RemoteJobApplicationRepository;
+
+	const application = createJobApplication("app-1", {
+		company: "Acme",
+		role: "Engineer",
+		postingUrl: "",
+		status: "applied",
+		notes: "",
+	});
+
+	const document: JobApplicationDocumentResponse = {
+		id: application.id,
+		workspaceId: "9dcb2241-6840-4e77-98a3-ddfa89c7d032",
+		content: application,
+		createdAt: application.createdAt,
+		updatedAt: application.updatedAt,
+	};
+
+	beforeEach(() => {
+		vi.mocked(getCurrentWorkspaceId).mockReturnValue(
+			"9dcb2241-6840-4e77-98a3-ddfa89c7d032",
+		);
+		mockClient = {
+			listApplications: vi.fn(),
+			getApplication: vi.fn(),
+			saveApplication: vi.fn(),
+			deleteApplication: vi.fn(),
+		} as Partial<JobApplicationHttpClient> as JobApplicationHttpClient;
+		repository = new RemoteJobApplicationRepository(mockClient);
+	});
+
+	it("lists the application contents", async () => {
+		vi.mocked(mockClient.listApplications).mockResolvedValue([document]);
+
+		expect(await repository.list()).toEqual([application]);
+	});
+
+	it("returns null for applications the server does not know", async () => {
+		vi.mocked(mockClient.getApplication).mockRejectedValue({
+			response: { status: 404 },
+		});
+
+		expect(await repository.get("missing")).toBeNull();
+	});
+
+	it("rethrows other errors", async () => {
+		vi.mocked(mockClient.getApplication).mockRejectedValue(
+			new Error("Server error"),
+		);
+
+		await expect(repository.get("app-1")).rejects.toThrow("Server error");
+	});
+
+	it("saves and deletes through the client", async () => {
+		await repository.save(application);
+		await repository.delete("app-1");
+
+		expect(mockClient.saveApplication).toHaveBeenCalledWith(application);
+		expect(mockClient.deleteApplication).toHaveBeenCalledWith("app-1");
+	});
+
+	it("requires a workspace", async () => {
+		vi.mocked(getCurrentWorkspaceId).mockReturnValue(null);
+
+		await expect(repository.list()).rejects.toThrow("No workspace selected");
+		expect(mockClient.listApplications).not.toHaveBeenCalled();
+	});
+});
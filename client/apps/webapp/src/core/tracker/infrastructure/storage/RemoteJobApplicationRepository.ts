@@ -0,0 +1,55 @@
+import { isNotFoundError } from "@/core/resume/infrastructure/storage/RemoteResumeStorage";
+import { getCurrentWorkspaceId } from "@/shared/WorkspaceContext";
+import type { JobApplication, JobApplicationRepository } from "../../domain";
+import { JobApplicationHttpClient } from "../http/JobApplicationHttpClient";
+
+/**
+ * Remote implementation of the job application repository.
+ *
+ * The workspace is sent via the X-Workspace-Id header by the BaseHttpClient.
+ */
+export class RemoteJobApplicationRepository
+	implements JobApplicationRepository
+{
+	constructor(
+		private readonly client: JobApplicationHttpClient = new JobApplicationHttpClient(),
+	) {}
+
+	async list(): Promise<JobApplication[]> {
+		this.validateWorkspaceContext();
+		const documents = await this.client.listApplications();
+		return documents.map((document) => document.content);
+	}
+
+	async get(id: string): Promise<JobApplication | null> {
+		this.validateWorkspaceContext();
+		try {
+			const document = await this.client.getApplication(id);
+			return document.content;
+		} catch (error) {
+			if (isNotFoundError(error)) return null;
+			throw error;
+		}
+	}
+
+	async save(application: JobApplication): Promise<void> {
+		this.validateWorkspaceContext();
+		await this.client.saveApplication(application);
+	}
+
+	async delete(id: string): Promise<void> {
+		this.validateWorkspaceContext();
+		await this.client.deleteApplication(id);
+	}
+
+	/**
+	 * Validates that a workspace is selected before performing remote operations.
+	 */
+	private validateWorkspaceContext(): void {
+		if (!getCurrentWorkspaceId()) {
+			throw new Error(
+				"Remote job application operation failed: No workspace selected. You must select a workspace before accessing applications in the cloud.",
+			);
+		}
+	}
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { createJobApplicationRepository } from "./factory";
+import { LocalStorageJobApplicationRepository } from "./LocalStorageJobApplicationRepository";
+import { RemoteJobApplicationRepository } from "./RemoteJobApplicationRepository";
+
+describe("createJobApplicationRepository", () => {
+	it.each([
+		"session",
+		"local",
+		"indexeddb",
+	] as const)("should keep %s applications in localStorage", (type) => {
+		expect(createJobApplicationRepository(type)).toBeInstanceOf(
+			LocalStorageJobApplicationRepository,
+		);
+	});
+
+	it("should keep remote applications on the server", () => {
+		expect(createJobApplicationRepository("remote")).toBeInstanceOf(
+			RemoteJobApplicationRepository,
+		);
+	});
+});
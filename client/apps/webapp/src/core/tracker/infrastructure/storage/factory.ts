@@ -0,0 +1,21 @@
+import type { StorageType } from "@/core/resume/domain/ResumeStorage";
+import type { JobApplicationRepository } from "../../domain";
+import { LocalStorageJobApplicationRepository } from "./LocalStorageJobApplicationRepository";
+import { RemoteJobApplicationRepository } from "./RemoteJobApplicationRepository";
+
+/**
+ * Creates the job application repository matching the user's storage preference.
+ *
+ * Browser-only storage types all keep applications in localStorage: the tracker
+ * outlives a session and holds too little data to need IndexedDB.
+ *
+ * @param type - The resume storage type
+ * @returns The repository for that preference
+ */
+export function createJobApplicationRepository(
+	type: StorageType,
+): JobApplicationRepository {
+	return type === "remote"
+		? new RemoteJobApplicationRepository()
+		: new LocalStorageJobApplicationRepository();
+}
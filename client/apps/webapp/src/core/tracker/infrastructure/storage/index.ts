@@ -0,0 +1,10 @@
+/**
+ * Infrastructure storage layer exports for the job application tracker.
+ */
+
+export { createJobApplicationRepository } from "./factory";
+export {
+	JOB_APPLICATIONS_STORAGE_KEY,
+	LocalStorageJobApplicationRepository,
+} from "./LocalStorageJobApplicationRepository";
+export { RemoteJobApplicationRepository } from "./RemoteJobApplicationRepository";
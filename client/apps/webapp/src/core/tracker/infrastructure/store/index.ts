@@ -0,0 +1,5 @@
+/**
+ * Infrastructure store layer exports for the job application tracker.
+ */
+
+export { type SentResume, useJobApplicationStore } from "./jobApplicationStore";
@@ -0,0 +1,121 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useResumeStore } from "@/core/resume/infrastructure/store/resume.store";
+import type { JobApplication, JobApplicationDraft } from "../../domain";
+import { useJobApplicationStore } from "./jobApplicationStore";
+
+const applications = new Map<string, JobApplication>();
+
+vi.mock("../storage", () => ({
+	createJobApplicationRepository: () => ({
+		list: async () => [...applications.values()],
+		get: async (id: string) => applications.get(id) ?? null,
+		save: async (application: JobApplication) => {
+			applications.set(application.id, application);
+		},
+		delete: async (id: string) => {
+			applications.delete(id);
+		},
+	}),
+}));
+
+const draft: JobApplicationDraft = {
+	company: "Acme",
+	role: "Engineer",
+	postingUrl: "https://acme.example/jobs/1",
+	status: "applied",
+	notes: "",
+};
+
+describe("useJobApplicationStore", () => {
+	beforeEach(() => {
+		applications.clear();
+		setActivePinia(createPinia());
+	});
+
+	it("should record an application without a resume version", async () => {
+		const store = useJobApplicationStore();
+
+		const application = await store.recordApplication(draft);
+
+		expect(application.resume).toBeNull();
+		expect(store.applications).toEqual([application]);
+		expect(store.columns.applied).toEqual([application]);
+	});
+
+	it("should checkpoint the active resume when recording the version sent", async () => {
+		const store = useJobApplicationStore();
+		const resumeStore = useResumeStore();
+		resumeStore.activeResumeId = "resume-1";
+		const createCheckpoint = vi
+			.spyOn(resumeStore, "createCheckpoint")
+			.mockResolvedValue({
+				id: "snapshot-1",
+				resumeId: "resume-1",
+				createdAt: "2026-01-01T00:00:00.000Z",
+				reason: "checkpoint",
+				label: "Engineer – Acme",
+				fingerprint: "abc",
+			});
+
+		const application = await store.recordApplication(draft, {
+			variantId: "variant-1",
+			templateId: "engineering",
+		});
+
+		expect(createCheckpoint).toHaveBeenCalledWith("Engineer – Acme");
+		expect(application.resume).toEqual({
+			resumeId: "resume-1",
+			snapshotId: "snapshot-1",
+			variantId: "variant-1",
+			label: "Engineer – Acme",
+			templateId: "engineering",
+		});
+	});
+
+	it("should refuse to record a resume version without an open resume", async () => {
+		const store = useJobApplicationStore();
+		useResumeStore().activeResumeId = null;
+
+		await expect(
+			store.recordApplication(draft, { variantId: null, templateId: "modern" }),
+		).rejects.toThrow("Open a resume before recording the version sent");
+		expect(store.error).not.toBeNull();
+		expect(applications.size).toBe(0);
+	});
+
+	it("should move an application across the board", async () => {
+		const store = useJobApplicationStore();
+		const application = await store.recordApplication(draft);
+
+		await store.moveApplication(application.id, "interviewing");
+
+		expect(store.columns.applied).toEqual([]);
+		expect(store.columns.interviewing.map((entry) => entry.id)).toEqual([
+			application.id,
+		]);
+	});
+
+	it("should update and delete applications", async () => {
+		const store = useJobApplicationStore();
+		const application = await store.recordApplication(draft);
+
+		await store.updateApplication(application.id, { notes: "Call back" });
+		expect(store.applications[0]?.notes).toBe("Call back");
+
+		await store.deleteApplication(application.id);
+		expect(store.applications).toEqual([]);
+	});
+
+	it("should load the stored applications", async () => {
+		const store = useJobApplicationStore();
+		await store.recordApplication(draft);
+		setActivePinia(createPinia());
+		const reloaded = useJobApplicationStore();
+
+		await reloaded.loadApplications();
+
+		expect(reloaded.applications).toHaveLength(1);
+		expect(reloaded.isLoading).toBe(false);
+	});
+});
@@ -0,0 +1,227 @@
+import { defineStore } from "pinia";
+import { computed, getCurrentInstance, ref } from "vue";
+import { useResumeStore } from "@/core/resume/infrastructure/store/resume.store";
+import {
+	type JobApplicationChanges,
+	JobApplicationService,
+} from "../../application";
+import {
+	type ApplicationStatus,
+	groupByStatus,
+	type JobApplication,
+	type JobApplicationDraft,
+	type JobApplicationRepository,
+} from "../../domain";
+import { JOB_APPLICATION_REPOSITORY_KEY } from "../di";
+import { createJobApplicationRepository } from "../storage";
+
+/**
+ * Gets the job application repository provided through Vue's provide/inject system.
+ *
+ * @returns The provided repository, or null to derive it from the resume storage type
+ */
+function getProvidedRepository(): JobApplicationRepository | null {
+	const instance = getCurrentInstance();
+	if (instance?.appContext.provides[JOB_APPLICATION_REPOSITORY_KEY as symbol]) {
+		return instance.appContext.provides[
+			JOB_APPLICATION_REPOSITORY_KEY as symbol
+		] as JobApplicationRepository;
+	}
+	return null;
+}
+
+/**
+ * Resume sent with an application, as picked by the user.
+ */
+export interface SentResume {
+	/** Tailored variant of the active resume, if any */
+	variantId: string | null;
+
+	/** Template the PDF was generated with */
+	templateId: string;
+}
+
+/**
+ * Pinia store for the job application tracker.
+ *
+ * Recording an application with a resume takes a checkpoint of the active
+ * resume, so the exact version sent stays in its history even after later edits.
+ *
+ * @example
+ * ```typescript
+ * const tracker = useJobApplicationStore();
+ * await tracker.recordApplication(
+ *   { company: "Acme", role: "Engineer", postingUrl: "", status: "applied", notes: "" },
+ *   { variantId: null, templateId: "engineering" },
+ * );
+ * await tracker.moveApplication(id, "interviewing");
+ * ```
+ */
+export const useJobApplicationStore = defineStore("jobApplications", () => {
+	const resumeStore = useResumeStore();
+	const providedRepository = getProvidedRepository();
+
+	const service = computed(
+		() =>
+			new JobApplicationService(
+				providedRepository ??
+					createJobApplicationRepository(resumeStore.currentStorageType),
+			),
+	);
+
+	// State
+	const applications = ref<JobApplication[]>([]);
+	const isLoading = ref(false);
+	const isSaving = ref(false);
+	const error = ref<Error | null>(null);
+
+	// Computed
+	/**
+	 * Applications grouped by pipeline stage, for the kanban board.
+	 */
+	const columns = computed(() => groupByStatus(applications.value));
+
+	/**
+	 * Runs an operation, recording any failure in `error`.
+	 */
+	async function withError<T>(operation: () => Promise<T>): Promise<T> {
+		try {
+			error.value = null;
+			return await operation();
+		} catch (cause) {
+			error.value =
+				cause instanceof Error ? cause : new Error("Unknown tracker error");
+			throw cause;
+		}
+	}
+
+	/**
+	 * Replaces an application in the list, keeping the most recent first.
+	 */
+	function upsert(application: JobApplication): void {
+		applications.value = [
+			application,
+			...applications.value.filter((entry) => entry.id !== application.id),
+		];
+	}
+
+	/**
+	 * Load the applications of the current workspace.
+	 */
+	async function loadApplications(): Promise<void> {
+		try {
+			isLoading.value = true;
+			applications.value = await withError(() => service.value.list());
+		} finally {
+			isLoading.value = false;
+		}
+	}
+
+	/**
+	 * Record an application.
+	 *
+	 * @param draft - The fields entered by the user
+	 * @param sent - The resume sent, or null if none should be recorded
+	 * @returns The stored application
+	 * @throws Error if no resume is open when one is requested, or saving fails
+	 */
+	async function recordApplication(
+		draft: JobApplicationDraft,
+		sent: SentResume | null = null,
+	): Promise<JobApplication> {
+		try {
+			isSaving.value = true;
+			const application = await withError(async () => {
+				if (!sent) {
+					return service.value.create(draft);
+				}
+				const resumeId = resumeStore.activeResumeId;
+				if (!resumeId) {
+					throw new Error("Open a resume before recording the version sent");
+				}
+				const label = `${draft.role.trim()} – ${draft.company.trim()}`;
+				const snapshot = await resumeStore.createCheckpoint(label);
+				return service.value.create(draft, {
+					resumeId,
+					snapshotId: snapshot.id,
+					variantId: sent.variantId,
+					label,
+					templateId: sent.templateId,
+				});
+			});
+			upsert(application);
+			return application;
+		} finally {
+			isSaving.value = false;
+		}
+	}
+
+	/**
+	 * Change an application.
+	 *
+	 * @param id - The application ID
+	 * @param changes - The fields to replace
+	 * @returns The updated application
+	 */
+	async function updateApplication(
+		id: string,
+		changes: JobApplicationChanges,
+	): Promise<JobApplication> {
+		try {
+			isSaving.value = true;
+			const application = await withError(() =>
+				service.value.update(id, changes),
+			);
+			upsert(application);
+			return application;
+		} finally {
+			isSaving.value = false;
+		}
+	}
+
+	/**
+	 * Move an application to another pipeline stage.
+	 *
+	 * @param id - The application ID
+	 * @param status - The new status
+	 * @returns The updated application
+	 */
+	async function moveApplication(
+		id: string,
+		status: ApplicationStatus,
+	): Promise<JobApplication> {
+		const application = await withError(() => service.value.moveTo(id, status));
+		upsert(application);
+		return application;
+	}
+
+	/**
+	 * Delete an application.
+	 *
+	 * @param id - The application ID
+	 */
+	async function deleteApplication(id: string): Promise<void> {
+		await withError(() => service.value.remove(id));
+		applications.value = applications.value.filter(
+			(application) => application.id !== id,
+		);
+	}
+
+	return {
+		// State
+		applications,
+		isLoading,
+		isSaving,
+		error,
+
+		// Computed
+		columns,
+
+		// Actions
+		loadApplications,
+		recordApplication,
+		updateApplication,
+		moveApplication,
+		deleteApplication,
+	};
+});
@@ -22,10 +22,12 @@ vi.mock("@/shared/WorkspaceContext", () => ({
 	clearCurrentWorkspaceId: vi.fn(),
 }));
 
+import { CrossTabBus, crossTabBus } from "@/shared/CrossTabBus";
 import {
 	clearCurrentWorkspaceId,
 	setCurrentWorkspaceId,
 } from "@/shared/WorkspaceContext";
+import { FakeBroadcastChannel } from "@/test-utils/broadcast-channel";
 import { WorkspaceErrorCode } from "../../../domain/WorkspaceError.ts";
 import { workspaceHttpClient } from "../../http/workspaceHttpClient.ts";
 import { saveLastSelected } from "../../storage/workspaceLocalStorage.ts";
@@ -398,4 +400,55 @@ describe("workspaceStore", () => {
 			expect(clearCurrentWorkspaceId).toHaveBeenCalled();
 		});
 	});
+
+	describe("cross-tab sync", () => {
+		const userId = "123e4567-e89b-42d3-a456-426614174000";
+		let otherTab: CrossTabBus;
+
+		beforeEach(() => {
+			// Reopen the shared bus on the fake channel
+			crossTabBus.close();
+			vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+			otherTab = new CrossTabBus();
+		});
+
+		afterEach(() => {
+			crossTabBus.close();
+			otherTab.close();
+			FakeBroadcastChannel.reset();
+			vi.unstubAllGlobals();
+		});
+
+		it("should announce the selected workspace to the other tabs", async () => {
+			const selected = vi.fn();
+			otherTab.subscribe("workspace:selected", selected);
+			const store = useWorkspaceStore();
+			store.workspaces = [...mockWorkspaces];
+
+			await store.selectWorkspace(mockWorkspace1.id, userId);
+
+			expect(selected).toHaveBeenCalledWith({
+				workspaceId: mockWorkspace1.id,
+				userId,
+			});
+		});
+
+		it("should follow the workspace selected in another tab without announcing it again", async () => {
+			const selected = vi.fn();
+			const store = useWorkspaceStore();
+			store.workspaces = [...mockWorkspaces];
+			store.currentWorkspace = mockWorkspace1;
+			otherTab.subscribe("workspace:selected", selected);
+
+			otherTab.publish("workspace:selected", {
+				workspaceId: mockWorkspace2.id,
+				userId,
+			});
+			await vi.runAllTimersAsync();
+
+			expect(store.currentWorkspace).toEqual(mockWorkspace2);
+			expect(setCurrentWorkspaceId).toHaveBeenCalledWith(mockWorkspace2.id);
+			expect(selected).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -5,6 +5,7 @@ import { WorkspaceId, workspaceHttpClient } from "@/core/workspace";
 import type { WorkspaceError } from "@/core/workspace/domain";
 import { WorkspaceErrorCode } from "@/core/workspace/domain";
 import { saveLastSelected } from "@/core/workspace/infrastructure";
+import { crossTabBus } from "@/shared/CrossTabBus";
 import {
 	clearCurrentWorkspaceId,
 	setCurrentWorkspaceId,
@@ -103,11 +104,13 @@ export const useWorkspaceStore = defineStore("workspace", () => {
 	 * Selects a workspace by ID and updates current workspace
 	 * @param workspaceId - The workspace UUID to select
 	 * @param userId - The user's UUID (for persistence)
+	 * @param options.broadcast - Whether the other tabs should switch too (default true)
 	 * @throws Error if workspace not found or selection fails
 	 */
 	async function selectWorkspace(
 		workspaceId: string,
 		userId: string,
+		{ broadcast = true }: { broadcast?: boolean } = {},
 	): Promise<void> {
 		isLoading.value = true;
 		error.value = null;
@@ -146,6 +149,13 @@ export const useWorkspaceStore = defineStore("workspace", () => {
 			setCurrentWorkspaceId(workspace.id);
 
 			saveLastSelected(userId, workspace.id);
+
+			if (broadcast) {
+				crossTabBus.publish("workspace:selected", {
+					workspaceId: workspace.id,
+					userId,
+				});
+			}
 		} catch (err) {
 			const errorInstance = err instanceof Error ? err : new Error(String(err));
 			let code = WorkspaceErrorCode.SELECTION_FAILED;
@@ -190,6 +200,19 @@ export const useWorkspaceStore = defineStore("workspace", () => {
 		clearCurrentWorkspaceId();
 	}
 
+	// Follow the workspace switches of the other tabs, so the X-Workspace-Id
+	// header of this tab targets the same workspace
+	crossTabBus.subscribe("workspace:selected", ({ workspaceId, userId }) => {
+		if (currentWorkspace.value?.id === workspaceId) {
+			return;
+		}
+		selectWorkspace(workspaceId, userId, { broadcast: false }).catch(
+			(err: unknown) => {
+				console.warn("Failed to follow the workspace of another tab:", err);
+			},
+		);
+	});
+
 	return {
 		// State
 		workspaces,
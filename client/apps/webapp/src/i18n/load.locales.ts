@@ -90,6 +90,7 @@ export async function getLocaleModules(locale: string): Promise<LocaleMessage> {
 			import(`./locales/${locale}/register.json`),
 			import(`./locales/${locale}/resume.json`),
 			import(`./locales/${locale}/settings.json`),
+			import(`./locales/${locale}/tracker.json`),
 			import(`./locales/${locale}/workspace.json`),
 		];
 
@@ -2,11 +2,14 @@ import { createPinia } from "pinia";
 import { createApp } from "vue";
 
 import App from "./App.vue";
+import { useAuthStore } from "./core/authentication/presentation/stores/authStore.ts";
 import { RESUME_STORAGE_KEY } from "./core/resume/infrastructure/di";
 import { createResumeStorage } from "./core/resume/infrastructure/storage";
 import {
+	CompositeSettingsRepository,
 	getUserStoragePreference,
 	LocalStorageSettingsRepository,
+	RemoteSettingsRepository,
 	SETTINGS_REPOSITORY_KEY,
 } from "./core/settings";
 import { i18n } from "./i18n";
@@ -28,8 +31,13 @@ app.use(createPinia());
 app.use(router);
 app.use(i18n);
 
-// Provide settings repository
-const settingsRepository = new LocalStorageSettingsRepository();
+// Provide settings repository: cached on the device, synced with the server
+// while the user is signed in
+const settingsRepository = new CompositeSettingsRepository(
+	new LocalStorageSettingsRepository(),
+	new RemoteSettingsRepository(),
+	() => useAuthStore().isAuthenticated,
+);
 app.provide(SETTINGS_REPOSITORY_KEY, settingsRepository);
 
 // Configure resume storage based on user preference
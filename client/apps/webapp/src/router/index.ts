@@ -3,6 +3,7 @@ import { authRoutes } from "@/core/authentication/presentation/router";
 import { useAuthStore } from "@/core/authentication/presentation/stores/authStore";
 import { resumeRoutes } from "@/core/resume/infrastructure/router";
 import { settingRoutes } from "@/core/settings/infrastructure/presentation/router";
+import { trackerRoutes } from "@/core/tracker/infrastructure/presentation/router";
 import { workspaceGuard } from "@/core/workspace/infrastructure/router/workspaceGuard";
 
 const router = createRouter({
@@ -14,6 +15,7 @@ const router = createRouter({
 			redirect: "/dashboard",
 		},
 		...resumeRoutes,
+		...trackerRoutes,
 		...settingRoutes,
 	],
 });
@@ -4,7 +4,8 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 // Mock axios before importing BaseHttpClient
 vi.mock("axios", () => {
-	const mockAxiosInstance = {
+	// Callable like an Axios instance, so retried requests can be asserted
+	const mockAxiosInstance = Object.assign(vi.fn(), {
 		get: vi.fn(),
 		post: vi.fn(),
 		put: vi.fn(),
@@ -18,7 +19,7 @@ vi.mock("axios", () => {
 				use: vi.fn(),
 			},
 		},
-	};
+	});
 	return {
 		default: {
 			create: vi.fn(() => mockAxiosInstance),
@@ -31,14 +32,21 @@ vi.mock("./WorkspaceContext", () => ({
 	getCurrentWorkspaceId: vi.fn(),
 }));
 
-import axios from "axios";
+// Mock SessionRefresh
+vi.mock("./SessionRefresh", () => ({
+	refreshSession: vi.fn(),
+}));
+
+import axios, { type AxiosError } from "axios";
 import { BaseHttpClient } from "./BaseHttpClient";
+import { refreshSession } from "./SessionRefresh";
 import { getCurrentWorkspaceId } from "./WorkspaceContext";
 
 describe("BaseHttpClient", () => {
 	let capturedRequestInterceptor: (
 		config: InternalAxiosRequestConfig,
 	) => InternalAxiosRequestConfig;
+	let capturedResponseErrorInterceptor: (error: AxiosError) => Promise<unknown>;
 
 	beforeEach(() => {
 		vi.resetAllMocks();
@@ -55,6 +63,12 @@ describe("BaseHttpClient", () => {
 				return 0;
 			},
 		);
+		(mockAxios.interceptors.response.use as Mock).mockImplementation(
+			(_: unknown, onRejected: (error: AxiosError) => Promise<unknown>) => {
+				capturedResponseErrorInterceptor = onRejected;
+				return 0;
+			},
+		);
 	});
 
 	afterEach(() => {
@@ -158,4 +172,60 @@ describe("BaseHttpClient", () => {
 			expect(mockAxios.interceptors.response.use).toHaveBeenCalled();
 		});
 	});
+
+	describe("session refresh on 401", () => {
+		const unauthorized = (url: string) =>
+			({
+				config: { url, headers: {} },
+				response: { status: 401, data: {} },
+			}) as unknown as AxiosError;
+
+		it("should renew the session and retry the original request", async () => {
+			(refreshSession as Mock).mockResolvedValue(true);
+			const client = new BaseHttpClient();
+			const mockAxios = client.getAxiosInstance() as unknown as Mock;
+			mockAxios.mockResolvedValue({ data: "ok" });
+			const error = unauthorized("/resumes");
+
+			await expect(capturedResponseErrorInterceptor(error)).resolves.toEqual({
+				data: "ok",
+			});
+			expect(refreshSession).toHaveBeenCalledTimes(1);
+			expect(mockAxios).toHaveBeenCalledWith(error.config);
+		});
+
+		it("should reject when the session cannot be renewed", async () => {
+			(refreshSession as Mock).mockResolvedValue(false);
+			const client = new BaseHttpClient();
+			const mockAxios = client.getAxiosInstance() as unknown as Mock;
+
+			await expect(
+				capturedResponseErrorInterceptor(unauthorized("/resumes")),
+			).rejects.toBeDefined();
+			expect(mockAxios).not.toHaveBeenCalled();
+		});
+
+		it("should retry a request only once", async () => {
+			new BaseHttpClient();
+			const error = unauthorized("/resumes");
+			(error.config as { _authRetry?: boolean })._authRetry = true;
+
+			await expect(
+				capturedResponseErrorInterceptor(error),
+			).rejects.toBeDefined();
+			expect(refreshSession).not.toHaveBeenCalled();
+		});
+
+		it("should not refresh the session for login and refresh requests", async () => {
+			new BaseHttpClient();
+
+			await expect(
+				capturedResponseErrorInterceptor(unauthorized("/auth/login")),
+			).rejects.toBeDefined();
+			await expect(
+				capturedResponseErrorInterceptor(unauthorized("/auth/token/refresh")),
+			).rejects.toBeDefined();
+			expect(refreshSession).not.toHaveBeenCalled();
+		});
+	});
 });
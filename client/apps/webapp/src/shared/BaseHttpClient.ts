@@ -4,8 +4,14 @@ import axios, {
 	type AxiosRequestConfig,
 	type InternalAxiosRequestConfig,
 } from "axios";
+import { refreshSession } from "./SessionRefresh";
 import { getCurrentWorkspaceId } from "./WorkspaceContext";
 
+/**
+ * Endpoints whose 401 responses must not trigger a session refresh
+ */
+const SESSION_ENDPOINTS = ["/auth/token/refresh", "/auth/login"];
+
 /**
  * Configuration options for BaseHttpClient
  */
@@ -93,7 +99,10 @@ export class BaseHttpClient {
 			(response) => response,
 			async (error: AxiosError) => {
 				const originalRequest = error.config as
-					| (InternalAxiosRequestConfig & { _csrfRetry?: boolean })
+					| (InternalAxiosRequestConfig & {
+							_csrfRetry?: boolean;
+							_authRetry?: boolean;
+					  })
 					| undefined;
 
 				// If error is 403 CSRF and we haven't retried yet, refresh CSRF token and retry
@@ -123,7 +132,23 @@ export class BaseHttpClient {
 					}
 				}
 
-				return Promise.reject(this.onResponseError(error));
+				// If the session expired, renew it once and retry the original request
+				if (
+					originalRequest &&
+					error.response?.status === 401 &&
+					!originalRequest._authRetry &&
+					!SESSION_ENDPOINTS.some((endpoint) =>
+						originalRequest.url?.includes(endpoint),
+					)
+				) {
+					originalRequest._authRetry = true;
+
+					if (await refreshSession()) {
+						return this.client(originalRequest);
+					}
+				}
+
+				return this.onResponseError(error);
 			},
 		);
 	}
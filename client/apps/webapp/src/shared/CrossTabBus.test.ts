@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeBroadcastChannel } from "@/test-utils/broadcast-channel";
+import { CrossTabBus } from "./CrossTabBus";
+
+describe("CrossTabBus", () => {
+	let tab: CrossTabBus;
+	let otherTab: CrossTabBus;
+
+	beforeEach(() => {
+		vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+		tab = new CrossTabBus("test");
+		otherTab = new CrossTabBus("test");
+	});
+
+	afterEach(() => {
+		tab.close();
+		otherTab.close();
+		FakeBroadcastChannel.reset();
+		vi.unstubAllGlobals();
+	});
+
+	it("should deliver events to the other tabs only", () => {
+		const own = vi.fn();
+		const other = vi.fn();
+		tab.subscribe("auth:logout", own);
+		otherTab.subscribe("auth:logout", other);
+
+		tab.publish("auth:logout", {});
+
+		expect(other).toHaveBeenCalledWith({});
+		expect(own).not.toHaveBeenCalled();
+	});
+
+	it("should deliver events to the handlers of their type", () => {
+		const refreshed = vi.fn();
+		const selected = vi.fn();
+		otherTab.subscribe("auth:refreshed", refreshed);
+		otherTab.subscribe("workspace:selected", selected);
+
+		tab.publish("auth:refreshed", { expiresAt: 1000 });
+
+		expect(refreshed).toHaveBeenCalledWith({ expiresAt: 1000 });
+		expect(selected).not.toHaveBeenCalled();
+	});
+
+	it("should stop delivering events after unsubscribing", () => {
+		const handler = vi.fn();
+		const unsubscribe = otherTab.subscribe("auth:logout", handler);
+
+		unsubscribe();
+		tab.publish("auth:logout", {});
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("should keep calling the handlers when one of them fails", () => {
+		const failing = vi.fn(() => {
+			throw new Error("Boom");
+		});
+		const handler = vi.fn();
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		otherTab.subscribe("auth:logout", failing);
+		otherTab.subscribe("auth:logout", handler);
+
+		tab.publish("auth:logout", {});
+
+		expect(handler).toHaveBeenCalled();
+		expect(consoleError).toHaveBeenCalled();
+	});
+
+	it("should ignore messages that were not sent by a bus", () => {
+		const handler = vi.fn();
+		otherTab.subscribe("auth:logout", handler);
+
+		new FakeBroadcastChannel("test").postMessage({ type: "auth:logout" });
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("should do nothing without BroadcastChannel support", () => {
+		vi.stubGlobal("BroadcastChannel", undefined);
+		const bus = new CrossTabBus("unsupported");
+
+		expect(() => bus.publish("auth:logout", {})).not.toThrow();
+		expect(() => bus.subscribe("auth:logout", vi.fn())).not.toThrow();
+	});
+});
@@ -0,0 +1,134 @@
+/**
+ * Cross-tab state bus for keeping the open tabs of the application in sync.
+ *
+ * Wraps a BroadcastChannel with typed events. Messages published by a tab
+ * are delivered to every other tab, never back to the publisher, so a tab
+ * reacting to an event must not publish it again. Browsers without
+ * BroadcastChannel simply don't sync.
+ */
+
+/**
+ * Events shared between the tabs of the application
+ */
+export interface CrossTabEvents {
+	/** A user signed in; the other tabs can restore the session from cookies */
+	"auth:login": { expiresAt: number | null };
+	/** The user signed out */
+	"auth:logout": Record<string, never>;
+	/** The access token was renewed */
+	"auth:refreshed": { expiresAt: number };
+	/** The user interacted with a tab */
+	"session:activity": { at: number };
+	/** The session manager ended the session */
+	"session:ended": { reason: "idle" | "expired" };
+	/** The user switched workspace */
+	"workspace:selected": { workspaceId: string; userId: string };
+}
+
+/**
+ * Name of the BroadcastChannel of the application bus
+ */
+export const CROSS_TAB_CHANNEL_NAME = "cvix:state";
+
+interface CrossTabMessage {
+	type: string;
+	payload: unknown;
+	source: string;
+}
+
+type Handler = (payload: never) => void;
+
+/**
+ * Typed publish/subscribe channel between browser tabs
+ */
+export class CrossTabBus<Events extends object = CrossTabEvents> {
+	private readonly tabId = crypto.randomUUID();
+	private readonly handlers = new Map<keyof Events, Set<Handler>>();
+	private channel: BroadcastChannel | null = null;
+
+	constructor(private readonly name = CROSS_TAB_CHANNEL_NAME) {}
+
+	/**
+	 * Sends an event to the other tabs.
+	 *
+	 * @param type - The event type
+	 * @param payload - Data of the event; must be structured-cloneable
+	 */
+	publish<K extends keyof Events & string>(type: K, payload: Events[K]): void {
+		const message: CrossTabMessage = { type, payload, source: this.tabId };
+		try {
+			this.open()?.postMessage(message);
+		} catch (error) {
+			console.warn(`Failed to publish ${type} to the other tabs:`, error);
+		}
+	}
+
+	/**
+	 * Listens to an event published by the other tabs.
+	 *
+	 * @param type - The event type
+	 * @param handler - Called with the payload of each event
+	 * @returns A function that removes the handler
+	 */
+	subscribe<K extends keyof Events & string>(
+		type: K,
+		handler: (payload: Events[K]) => void,
+	): () => void {
+		const handlers = this.handlers.get(type) ?? new Set<Handler>();
+		handlers.add(handler as Handler);
+		this.handlers.set(type, handlers);
+		this.open();
+
+		return () => {
+			handlers.delete(handler as Handler);
+		};
+	}
+
+	/**
+	 * Closes the channel and removes every handler.
+	 */
+	close(): void {
+		this.channel?.close();
+		this.channel = null;
+		this.handlers.clear();
+	}
+
+	private open(): BroadcastChannel | null {
+		if (!this.channel && typeof BroadcastChannel !== "undefined") {
+			this.channel = new BroadcastChannel(this.name);
+			this.channel.onmessage = (event: MessageEvent) =>
+				this.dispatch(event.data);
+		}
+		return this.channel;
+	}
+
+	private dispatch(data: unknown): void {
+		if (!isCrossTabMessage(data) || data.source === this.tabId) {
+			return;
+		}
+
+		const handlers = this.handlers.get(data.type as keyof Events);
+		for (const handler of handlers ?? []) {
+			// A failing handler must not keep the others from reacting
+			try {
+				handler(data.payload as never);
+			} catch (error) {
+				console.error(`Failed to handle ${data.type} from another tab:`, error);
+			}
+		}
+	}
+}
+
+function isCrossTabMessage(data: unknown): data is CrossTabMessage {
+	return (
+		typeof data === "object" &&
+		data !== null &&
+		typeof (data as CrossTabMessage).type === "string" &&
+		typeof (data as CrossTabMessage).source === "string"
+	);
+}
+
+/**
+ * Bus shared by the stores of this tab
+ */
+export const crossTabBus = new CrossTabBus();
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { refreshSession, setSessionRefreshHandler } from "./SessionRefresh";
+
+describe("SessionRefresh", () => {
+	afterEach(() => {
+		setSessionRefreshHandler(null);
+	});
+
+	it("should report no refresh when no handler is registered", async () => {
+		await expect(refreshSession()).resolves.toBe(false);
+	});
+
+	it("should share a single refresh between concurrent callers", async () => {
+		let resolve: (renewed: boolean) => void = () => {};
+		const handler = vi.fn(
+			() =>
+				new Promise<boolean>((r) => {
+					resolve = r;
+				}),
+		);
+		setSessionRefreshHandler(handler);
+
+		const first = refreshSession();
+		const second = refreshSession();
+		resolve(true);
+
+		await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+		expect(handler).toHaveBeenCalledTimes(1);
+
+		const next = refreshSession();
+		resolve(false);
+
+		await expect(next).resolves.toBe(false);
+		expect(handler).toHaveBeenCalledTimes(2);
+	});
+
+	it("should report a failed refresh as not renewed", async () => {
+		setSessionRefreshHandler(() => Promise.reject(new Error("Expired")));
+
+		await expect(refreshSession()).resolves.toBe(false);
+	});
+});
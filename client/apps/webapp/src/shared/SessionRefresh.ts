@@ -0,0 +1,47 @@
+/**
+ * Module-level hook that lets HTTP clients renew the authentication session.
+ *
+ * Like the workspace context, this bridges the HTTP clients instantiated
+ * outside Vue and the authentication module, which registers the handler
+ * while a user is signed in. Concurrent callers share a single refresh so a
+ * burst of 401 responses triggers only one token refresh.
+ */
+
+type SessionRefreshHandler = () => Promise<boolean>;
+
+let refreshHandler: SessionRefreshHandler | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Registers the function that renews the session.
+ * Should be called by the session manager when the user signs in.
+ *
+ * @param handler - Resolves to true when the session was renewed, or null to
+ * unregister it
+ */
+export function setSessionRefreshHandler(
+	handler: SessionRefreshHandler | null,
+): void {
+	refreshHandler = handler;
+}
+
+/**
+ * Renews the session with the registered handler.
+ * Calls made while a refresh is in flight wait for that refresh.
+ *
+ * @returns True if the session was renewed, false if there is no handler or
+ * the refresh failed
+ */
+export function refreshSession(): Promise<boolean> {
+	if (!refreshHandler) {
+		return Promise.resolve(false);
+	}
+	if (!pendingRefresh) {
+		pendingRefresh = refreshHandler()
+			.catch(() => false)
+			.finally(() => {
+				pendingRefresh = null;
+			});
+	}
+	return pendingRefresh;
+}
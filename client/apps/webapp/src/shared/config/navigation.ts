@@ -19,11 +19,18 @@ const navigationItems: NavigationItem[] = [
 		icon: "analytics",
 		to: "/resume",
 		children: [
+			{ label: "Library", to: "/resume/library" },
 			{ label: "Editor", to: "/resume/editor" },
 			{ label: "PDF Generator", to: "/resume/pdf" },
+			{ label: "Cover Letters", to: "/resume/cover-letters" },
 			{ label: "Reports", to: "/dashboard?view=reports" },
 		],
 	},
+	{
+		label: "Applications",
+		icon: "briefcase",
+		to: "/applications",
+	},
 	{
 		label: "Settings",
 		icon: "settings",
@@ -31,6 +38,7 @@ const navigationItems: NavigationItem[] = [
 		children: [
 			{ label: "Storage", to: "/settings?section=storage" },
 			{ label: "General", to: "/settings?section=general" },
+			{ label: "Notifications", to: "/settings?section=notifications" },
 			{ label: "Privacy", to: "/settings?section=privacy" },
 		],
 	},
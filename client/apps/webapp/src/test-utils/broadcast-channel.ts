@@ -0,0 +1,33 @@
+/**
+ * In-memory BroadcastChannel delivering messages synchronously to the other
+ * channels of the same name, like the tabs of a browser.
+ *
+ * Install it with `vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel)`
+ * and call `FakeBroadcastChannel.reset()` after each test.
+ */
+export class FakeBroadcastChannel {
+	static channels: FakeBroadcastChannel[] = [];
+	onmessage: ((event: MessageEvent) => void) | null = null;
+
+	constructor(readonly name: string) {
+		FakeBroadcastChannel.channels.push(this);
+	}
+
+	static reset(): void {
+		FakeBroadcastChannel.channels = [];
+	}
+
+	postMessage(data: unknown): void {
+		for (const channel of FakeBroadcastChannel.channels) {
+			if (channel !== this && channel.name === this.name) {
+				channel.onmessage?.({ data } as MessageEvent);
+			}
+		}
+	}
+
+	close(): void {
+		FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(
+			(channel) => channel !== this,
+		);
+	}
+}
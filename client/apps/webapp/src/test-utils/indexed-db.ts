@@ -0,0 +1,92 @@
+import { vi } from "vitest";
+
+/**
+ * Creates a request that resolves asynchronously like a real IDBRequest
+ */
+export const createMockRequest = (result?: unknown) => {
+	const request = {
+		result,
+		error: null,
+		onsuccess: null as (() => void) | null,
+		onerror: null as (() => void) | null,
+	};
+	setTimeout(() => request.onsuccess?.(), 0);
+	return request as unknown as IDBRequest;
+};
+
+interface MockIDBStoreOptions<T> {
+	/** In-line key of the records; keys are auto-incremented without it */
+	keyPath?: keyof T;
+	/** Field looked up by the store's index */
+	indexedBy?: keyof T;
+}
+
+/**
+ * Creates an in-memory IDBObjectStore with the operations used by the
+ * IndexedDB adapters. The records are exposed as `_store`.
+ */
+export const createMockIDBStore = <T>(options: MockIDBStoreOptions<T> = {}) => {
+	const store = new Map<IDBValidKey, T>();
+	let nextKey = 1;
+
+	const write = (value: T, key?: IDBValidKey) => {
+		const storeKey =
+			key ??
+			(options.keyPath ? (value[options.keyPath] as IDBValidKey) : nextKey++);
+		store.set(storeKey, value);
+		return createMockRequest(storeKey);
+	};
+	const entriesMatching = (query: IDBValidKey) =>
+		[...store.entries()].filter(
+			([, value]) =>
+				options.indexedBy !== undefined && value[options.indexedBy] === query,
+		);
+
+	return {
+		put: vi.fn(write),
+		add: vi.fn(write),
+		get: vi.fn((key: IDBValidKey) => createMockRequest(store.get(key))),
+		getAll: vi.fn(() => createMockRequest([...store.values()])),
+		delete: vi.fn((key: IDBValidKey) => {
+			store.delete(key);
+			return createMockRequest();
+		}),
+		index: vi.fn(() => ({
+			getAll: vi.fn((query: IDBValidKey) =>
+				createMockRequest(entriesMatching(query).map(([, value]) => value)),
+			),
+			getAllKeys: vi.fn((query: IDBValidKey) =>
+				createMockRequest(entriesMatching(query).map(([key]) => key)),
+			),
+		})),
+		_store: store,
+	};
+};
+
+/**
+ * Stubs the global `indexedDB` so every database it opens serves the given
+ * object store. Undo it with `vi.unstubAllGlobals()`.
+ *
+ * @returns The mock database, e.g. to check that it was closed
+ */
+export const stubIndexedDB = (objectStore: unknown) => {
+	const database = {
+		transaction: vi.fn(() => ({ objectStore: vi.fn(() => objectStore) })),
+		close: vi.fn(),
+	};
+	const openRequest = {
+		result: database,
+		error: null,
+		onsuccess: null as (() => void) | null,
+		onerror: null as (() => void) | null,
+		onupgradeneeded: null,
+	};
+
+	vi.stubGlobal("indexedDB", {
+		open: vi.fn(() => {
+			setTimeout(() => openRequest.onsuccess?.(), 0);
+			return openRequest;
+		}),
+	});
+	return database;
+};
@@ -110,6 +110,14 @@ export default defineConfig(({ mode }) => {
 					new URL("../../packages/assets/src", import.meta.url),
 				),
 				"~icons": "virtual:icons",
+				// Hunspell dictionaries only export a Node entry point, so their
+				// files are resolved directly to be bundled as assets
+				"@dictionaries/en": fileURLToPath(
+					new URL("./node_modules/dictionary-en", import.meta.url),
+				),
+				"@dictionaries/es": fileURLToPath(
+					new URL("./node_modules/dictionary-es", import.meta.url),
+				),
 			},
 		},
 		optimizeDeps: {
@@ -138,6 +138,7 @@ export const PORTS = {
 	BLOG: 7767,
 	API: 8443,
 	SUBSCRIBE_FORMS: 7768,
+	RESUME_SHARE: 7769,
 } as const;
 
 // ============================================================================
@@ -223,6 +224,20 @@ export const CVIX_SUBSCRIBE_FORMS_URL = resolveUrl({
 	productionFallback: "https://subscribe-forms.profiletailors.com",
 });
 
+/**
+ * Public resume share URL (hosted web view of published resumes)
+ * - Explicit: CVIX_RESUME_SHARE_URL
+ * - Cloudflare: CF_PAGES_URL (auto-detected)
+ * - Fallback (local): http://localhost:7769
+ * - Production fallback: https://share.profiletailors.com
+ */
+export const CVIX_RESUME_SHARE_URL = resolveUrl({
+	envKey: "CVIX_RESUME_SHARE_URL",
+	providerDefaults: { cloudflare: "CF_PAGES_URL" },
+	localPort: PORTS.RESUME_SHARE,
+	productionFallback: "https://share.profiletailors.com",
+});
+
 // ============================================================================
 // BRAND CONSTANTS (unchanged)
 // ============================================================================
@@ -10,6 +10,7 @@ export {
 	CVIX_DOCS_URL,
 	CVIX_MARKETING_URL,
 	CVIX_OAUTH_URL,
+	CVIX_RESUME_SHARE_URL,
 	CVIX_SUBSCRIBE_FORMS_URL,
 	CVIX_WEBAPP_URL,
 	PORTS,
@@ -0,0 +1,46 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { defineComponent } from "vue";
+import ChartSingleTooltip from "../ChartSingleTooltip.vue";
+
+type TooltipTemplate = (
+	d: Record<string, unknown>,
+	i: number,
+	elements: HTMLElement[],
+) => string | undefined;
+
+// Captures the trigger templates instead of rendering an Unovis tooltip
+let triggers: Record<string, TooltipTemplate> = {};
+vi.mock("@unovis/vue", () => ({
+	VisTooltip: defineComponent({
+		props: { triggers: { type: Object, required: true } },
+		setup(props) {
+			triggers = props.triggers as Record<string, TooltipTemplate>;
+			return () => null;
+		},
+	}),
+}));
+
+const mountTooltip = () => {
+	mount(ChartSingleTooltip, {
+		props: { selector: ".segment", index: "value" },
+	});
+	return triggers[".segment"] as TooltipTemplate;
+};
+
+describe("ChartSingleTooltip", () => {
+	it("should render nothing for a segment without data", () => {
+		const template = mountTooltip();
+
+		expect(template({}, 0, [])).toBe("");
+	});
+
+	it("should render the name and value of a segment", () => {
+		const template = mountTooltip();
+
+		const html = template({ data: { name: "Views", value: 42 } }, 0, []);
+
+		expect(html).toContain("Views");
+		expect(html).toContain("42");
+	});
+});
@@ -0,0 +1,22 @@
+import { resolve } from "node:path";
+import vue from "@vitejs/plugin-vue";
+import { defineProject } from "vitest/config";
+
+export default defineProject({
+	plugins: [vue()],
+	test: {
+		// Project-specific identification
+		name: { label: "ui", color: "magenta" },
+
+		// Vue component testing requires jsdom
+		environment: "jsdom",
+
+		include: ["src/**/*.{test,spec}.ts"],
+		exclude: ["node_modules", "dist"],
+	},
+	resolve: {
+		alias: {
+			"@": resolve(__dirname, "./src"),
+		},
+	},
+});
@@ -40,8 +40,10 @@ import org.springframework.security.oauth2.server.resource.authentication.Reacti
 import org.springframework.security.web.server.SecurityWebFilterChain
 import org.springframework.security.web.server.csrf.CookieServerCsrfTokenRepository
 import org.springframework.security.web.server.csrf.CsrfServerLogoutHandler
+import org.springframework.security.web.server.csrf.CsrfWebFilter
 import org.springframework.security.web.server.header.ReferrerPolicyServerHttpHeadersWriter
 import org.springframework.security.web.server.header.XFrameOptionsServerHttpHeadersWriter
+import org.springframework.security.web.server.util.matcher.AndServerWebExchangeMatcher
 import org.springframework.security.web.server.util.matcher.NegatedServerWebExchangeMatcher
 import org.springframework.security.web.server.util.matcher.OrServerWebExchangeMatcher
 import org.springframework.security.web.server.util.matcher.ServerWebExchangeMatchers
@@ -144,6 +146,7 @@ class SecurityConfiguration(
                         },
                     )
                     .csrfTokenRequestHandler(SpaCsrfTokenRequestHandler())
+                    .requireCsrfProtectionMatcher(csrfProtectionMatcher())
             }
             .cors {
                     cors ->
@@ -213,6 +216,11 @@ class SecurityConfiguration(
             .pathMatchers(HttpMethod.POST, "/api/subscribers").permitAll()
             // Allow anonymous access to subscription form configuration (both v1 and non-v1 paths)
             .pathMatchers(HttpMethod.GET, "/api/subscription-forms/*").permitAll()
+            // Published resumes are read by anonymous visitors through their unguessable link
+            .pathMatchers(HttpMethod.GET, "/api/public/resume-shares/**").permitAll()
+            // Visits are recorded by the share site on behalf of anonymous visitors
+            .pathMatchers(HttpMethod.PUT, SHARE_VIEWS_PATH).permitAll()
+            .pathMatchers(HttpMethod.PATCH, SHARE_VIEWS_PATH).permitAll()
             .pathMatchers("/actuator/**").authenticated()
             .pathMatchers("/api/**").authenticated()
             .pathMatchers("/management/health").permitAll()
@@ -221,6 +229,15 @@ class SecurityConfiguration(
             .pathMatchers("/management/**").hasAuthority(Role.ADMIN.key())
     }
 
+    /**
+     * Default CSRF protection, except for the visits recorded by the share site: it calls
+     * the API from its own server, without cookies, so there is no session to protect.
+     */
+    private fun csrfProtectionMatcher() = AndServerWebExchangeMatcher(
+        CsrfWebFilter.DEFAULT_CSRF_MATCHER,
+        NegatedServerWebExchangeMatcher(ServerWebExchangeMatchers.pathMatchers(SHARE_VIEWS_PATH)),
+    )
+
     private fun serverWebExchangeMatcher() = NegatedServerWebExchangeMatcher(
         OrServerWebExchangeMatcher(
             ServerWebExchangeMatchers.pathMatchers(
@@ -355,5 +372,6 @@ class SecurityConfiguration(
         private const val TIMEOUT = 2000
         private const val STRICT_TRANSPORT_SECURITY_HEADER = "Strict-Transport-Security"
         private const val X_FORWARDED_PROTO = "X-Forwarded-Proto"
+        private const val SHARE_VIEWS_PATH = "/api/public/resume-shares/*/views/*"
     }
 }
@@ -3,6 +3,7 @@ package com.cvix.resume.application
 import com.cvix.common.domain.bus.query.Response
 import com.cvix.resume.domain.Locale
 import com.cvix.resume.domain.TemplateMetadata
+import com.cvix.resume.domain.TemplateParamDefinition
 import com.cvix.resume.domain.TemplateParams
 
 /**
@@ -15,6 +16,7 @@ import com.cvix.resume.domain.TemplateParams
  * @param supportedLocales List of supported locales for this template
  * @param previewUrl Optional URL to a preview image of the template
  * @param params Optional template parameters for customization
+ * @param paramsSchema Parameters the template accepts, with their allowed values
  * @created 26/11/25
  */
 data class TemplateMetadataResponse(
@@ -24,7 +26,8 @@ data class TemplateMetadataResponse(
     val descriptions: Map<Locale, String> = emptyMap(),
     val supportedLocales: List<Locale> = emptyList(),
     val previewUrl: String? = null,
-    val params: TemplateParams? = null
+    val params: TemplateParams? = null,
+    val paramsSchema: List<TemplateParamDefinitionResponse> = emptyList()
 ) : Response {
     companion object {
         /**
@@ -42,11 +45,52 @@ data class TemplateMetadataResponse(
                 supportedLocales = domain.supportedLocales,
                 previewUrl = domain.previewUrl,
                 params = domain.params,
+                paramsSchema = domain.paramsSchema.map(TemplateParamDefinitionResponse::from),
             )
         }
     }
 }
 
+/**
+ * Response DTO for a parameter a template accepts.
+ *
+ * @param key Key of the parameter (e.g. "fontFamily")
+ * @param kind Kind of value the parameter holds: select, number, text or boolean
+ * @param default Value used when none or an invalid one is requested
+ * @param options Allowed values of a select parameter
+ * @param min Lower bound of a number parameter
+ * @param max Upper bound of a number parameter
+ * @param step Increment of a number parameter
+ */
+data class TemplateParamDefinitionResponse(
+    val key: String,
+    val kind: String,
+    val default: Any? = null,
+    val options: List<String> = emptyList(),
+    val min: Double? = null,
+    val max: Double? = null,
+    val step: Double? = null
+) {
+    companion object {
+        /**
+         * Converts a domain TemplateParamDefinition to a TemplateParamDefinitionResponse.
+         *
+         * @param domain The domain TemplateParamDefinition object
+         * @return The corresponding TemplateParamDefinitionResponse
+         */
+        fun from(domain: TemplateParamDefinition): TemplateParamDefinitionResponse =
+            TemplateParamDefinitionResponse(
+                key = domain.key,
+                kind = domain.kind.name.lowercase(),
+                default = domain.default,
+                options = domain.options,
+                min = domain.min,
+                max = domain.max,
+                step = domain.step,
+            )
+    }
+}
+
 /**
  * Represents a collection of template metadata responses.
  *
@@ -12,11 +12,13 @@ import java.util.UUID
  * @param resume The resume data
  * @param userId The ID of the user requesting the resume generation (for permission validation)
  * @param locale The locale for the resume (default is EN)
+ * @param params The requested template parameters, checked against the template's schema
  * @created 11/12/25
  */
 data class GenerateResumeCommand(
     val templateId: String,
     val resume: Resume,
     val userId: UUID,
-    val locale: Locale = Locale.EN
+    val locale: Locale = Locale.EN,
+    val params: Map<String, Any?> = emptyMap()
 ) : CommandWithResult<InputStream>
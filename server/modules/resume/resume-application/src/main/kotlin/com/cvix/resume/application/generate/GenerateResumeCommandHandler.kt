@@ -39,7 +39,14 @@ class GenerateResumeCommandHandler(
         val subscriptionTier = subscriptionResolver.resolve(context)
         log.debug("Resolved subscription tier {} for user {}", subscriptionTier, command.userId)
 
-        return pdfGenerator.generate(command.templateId, command.resume, command.userId, subscriptionTier, locale)
+        return pdfGenerator.generate(
+            command.templateId,
+            command.resume,
+            command.userId,
+            subscriptionTier,
+            locale,
+            command.params,
+        )
     }
 
     companion object {
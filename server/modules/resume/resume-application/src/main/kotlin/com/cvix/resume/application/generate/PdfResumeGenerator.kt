@@ -69,6 +69,7 @@ class PdfResumeGenerator(
      * @param userId The ID of the user requesting the resume (for permission validation)
      * @param userTier The user's subscription tier (for template access control)
      * @param locale The locale for the resume (default is EN)
+     * @param params The requested template parameters; invalid ones fall back to their defaults
      * @return An InputStream of the generated PDF
      * @throws com.cvix.resume.domain.exception.TemplateAccessDeniedException if user lacks required subscription tier
      * @throws com.cvix.resume.domain.exception.TemplateNotFoundException if template not found
@@ -80,7 +81,8 @@ class PdfResumeGenerator(
         resume: Resume,
         userId: UUID,
         userTier: SubscriptionTier,
-        locale: Locale = Locale.EN
+        locale: Locale = Locale.EN,
+        params: Map<String, Any?> = emptyMap()
     ): InputStream {
         val requestId = UUID.randomUUID()
         val startTimeNanos = System.nanoTime()
@@ -111,7 +113,13 @@ class PdfResumeGenerator(
                 )
 
                 // Step 2: Render LaTeX template (offload to IO dispatcher)
-                val latexSource = renderLatexTemplate(requestId, templateMetadata, resume, locale)
+                val latexSource = renderLatexTemplate(
+                    requestId,
+                    templateMetadata,
+                    resume,
+                    locale,
+                    templateMetadata.resolveParams(params),
+                )
 
                 // Step 3: Generate PDF reactively (non-blocking)
                 log.debug("Generating PDF - requestId={}", requestId)
@@ -140,7 +148,8 @@ class PdfResumeGenerator(
         requestId: UUID?,
         templateMetadata: TemplateMetadata,
         resume: Resume,
-        locale: Locale
+        locale: Locale,
+        params: Map<String, Any>
     ): String {
         return withContext(Dispatchers.IO) {
             log.debug("Rendering template - requestId={}", requestId)
@@ -150,6 +159,7 @@ class PdfResumeGenerator(
                     templateMetadata.templatePath,
                     resume,
                     locale.code,
+                    params,
                 )
             }
 
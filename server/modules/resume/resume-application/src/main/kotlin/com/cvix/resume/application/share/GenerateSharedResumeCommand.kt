@@ -0,0 +1,18 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.command.CommandWithResult
+import java.io.InputStream
+
+/**
+ * Command to generate the PDF of a published resume, for the visitors of its link.
+ *
+ * @property shareId The share ID taken from the public URL
+ * @property password The password entered by the visitor, if any
+ */
+data class GenerateSharedResumeCommand(
+    val shareId: String,
+    val password: String? = null,
+) : CommandWithResult<InputStream> {
+    override fun toString(): String =
+        "GenerateSharedResumeCommand(shareId=$shareId, passwordProvided=${password != null})"
+}
@@ -0,0 +1,57 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.command.CommandWithResultHandler
+import com.cvix.resume.application.generate.PdfResumeGenerator
+import com.cvix.resume.application.template.TemplateCatalog
+import com.cvix.resume.domain.exception.TemplateNotFoundException
+import com.cvix.subscription.domain.ResolverContext
+import com.cvix.subscription.domain.SubscriptionResolver
+import java.io.InputStream
+import org.slf4j.LoggerFactory
+
+/**
+ * Command handler for generating the PDF of published resumes.
+ * The PDF is rendered on behalf of the owner, so templates follow the owner's subscription tier.
+ */
+@Service
+class GenerateSharedResumeCommandHandler(
+    private val access: SharedResumeAccess,
+    private val pdfGenerator: PdfResumeGenerator,
+    private val templateCatalog: TemplateCatalog,
+    private val subscriptionResolver: SubscriptionResolver,
+) : CommandWithResultHandler<GenerateSharedResumeCommand, InputStream> {
+
+    /**
+     * Handles the generate shared resume command.
+     * @param command The command containing the share ID and the password
+     * @return The PDF as an InputStream
+     * @throws com.cvix.resume.domain.exception.ResumeShareNotFoundException if the share does not exist
+     * @throws com.cvix.resume.domain.exception.ResumeShareExpiredException if the share expired
+     * @throws com.cvix.resume.domain.exception.ResumeSharePasswordException if the password is missing or wrong
+     */
+    override suspend fun handle(command: GenerateSharedResumeCommand): InputStream {
+        val share = access.open(command.shareId, command.password)
+        log.debug("Generating PDF of shared resume - shareId={}", share.id)
+
+        val tier = subscriptionResolver.resolve(ResolverContext.UserId(share.userId))
+        val templateId = share.templateId
+            ?: templateCatalog.listTemplates(tier, 1).firstOrNull()?.id
+            ?: throw TemplateNotFoundException(ANY_TEMPLATE)
+
+        return pdfGenerator.generate(
+            templateId,
+            share.content,
+            share.userId,
+            tier,
+            share.locale,
+        )
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(GenerateSharedResumeCommandHandler::class.java)
+
+        // Reported when a share without template finds no template at all
+        private const val ANY_TEMPLATE = "*"
+    }
+}
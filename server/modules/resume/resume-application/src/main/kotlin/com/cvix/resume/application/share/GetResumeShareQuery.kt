@@ -0,0 +1,15 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Query
+import java.util.UUID
+
+/**
+ * Query to retrieve the current share of a resume.
+ *
+ * @property resumeId The resume ID
+ * @property userId The authenticated user (for authorization check)
+ */
+data class GetResumeShareQuery(
+    val resumeId: UUID,
+    val userId: UUID,
+) : Query<ResumeShareResponse>
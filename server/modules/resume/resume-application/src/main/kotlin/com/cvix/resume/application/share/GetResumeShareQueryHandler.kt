@@ -0,0 +1,35 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.query.QueryHandler
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.ResumeShareUrlResolver
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import org.slf4j.LoggerFactory
+
+/**
+ * Query handler for retrieving the current share of a resume.
+ */
+@Service
+class GetResumeShareQueryHandler(
+    private val shareRepository: ResumeShareRepository,
+    private val urlResolver: ResumeShareUrlResolver,
+) : QueryHandler<GetResumeShareQuery, ResumeShareResponse> {
+
+    /**
+     * Handles the get resume share query.
+     * @param query The query containing resume ID and user ID
+     * @return The share of the resume
+     * @throws ResumeShareNotFoundException if the resume is not published or not owned by the user
+     */
+    override suspend fun handle(query: GetResumeShareQuery): ResumeShareResponse {
+        log.debug("Getting resume share - resumeId={}, userId={}", query.resumeId, query.userId)
+        val share = shareRepository.findByResumeId(query.resumeId, query.userId)
+            ?: throw ResumeShareNotFoundException("Resume is not published: ${query.resumeId}")
+        return ResumeShareResponse.from(share, urlResolver.urlOf(share.id))
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(GetResumeShareQueryHandler::class.java)
+    }
+}
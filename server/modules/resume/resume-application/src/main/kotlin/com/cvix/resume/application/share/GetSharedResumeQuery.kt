@@ -0,0 +1,17 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Query
+
+/**
+ * Query to retrieve a published resume from its public link.
+ *
+ * @property shareId The share ID taken from the public URL
+ * @property password The password entered by the visitor, if any
+ */
+data class GetSharedResumeQuery(
+    val shareId: String,
+    val password: String? = null,
+) : Query<SharedResumeResponse> {
+    override fun toString(): String =
+        "GetSharedResumeQuery(shareId=$shareId, passwordProvided=${password != null})"
+}
@@ -0,0 +1,31 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.query.QueryHandler
+import org.slf4j.LoggerFactory
+
+/**
+ * Query handler for retrieving published resumes. Open to anonymous visitors.
+ */
+@Service
+class GetSharedResumeQueryHandler(
+    private val access: SharedResumeAccess,
+) : QueryHandler<GetSharedResumeQuery, SharedResumeResponse> {
+
+    /**
+     * Handles the get shared resume query.
+     * @param query The query containing the share ID and the password
+     * @return The published resume
+     * @throws com.cvix.resume.domain.exception.ResumeShareNotFoundException if the share does not exist
+     * @throws com.cvix.resume.domain.exception.ResumeShareExpiredException if the share expired
+     * @throws com.cvix.resume.domain.exception.ResumeSharePasswordException if the password is missing or wrong
+     */
+    override suspend fun handle(query: GetSharedResumeQuery): SharedResumeResponse {
+        log.debug("Getting shared resume - shareId={}", query.shareId)
+        return SharedResumeResponse.from(access.open(query.shareId, query.password))
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(GetSharedResumeQueryHandler::class.java)
+    }
+}
@@ -0,0 +1,18 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Query
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Query to list the recorded visits of a resume, across all its publications.
+ *
+ * @property resumeId The resume ID
+ * @property userId The authenticated user ID
+ * @property since Oldest visit to return
+ */
+data class ListShareViewsQuery(
+    val resumeId: UUID,
+    val userId: UUID,
+    val since: Instant,
+) : Query<ShareViewResponses>
@@ -0,0 +1,37 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.query.QueryHandler
+import com.cvix.resume.domain.ResumeRepository
+import com.cvix.resume.domain.ShareViewRepository
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import org.slf4j.LoggerFactory
+
+/**
+ * Query handler for listing the recorded visits of a resume.
+ */
+@Service
+class ListShareViewsQueryHandler(
+    private val resumeRepository: ResumeRepository,
+    private val viewRepository: ShareViewRepository,
+) : QueryHandler<ListShareViewsQuery, ShareViewResponses> {
+
+    /**
+     * Handles the list share views query.
+     * @param query The query containing resume ID, user ID and the start of the period
+     * @return The visits of the resume, most recent first
+     * @throws ResumeNotFoundException if the resume does not exist or is not owned by the user
+     */
+    override suspend fun handle(query: ListShareViewsQuery): ShareViewResponses {
+        log.debug("Listing share views - resumeId={}, userId={}", query.resumeId, query.userId)
+        if (!resumeRepository.existsByIdForUser(query.resumeId, query.userId)) {
+            throw ResumeNotFoundException("Resume not found: ${query.resumeId}")
+        }
+        val views = viewRepository.findByResumeId(query.resumeId, query.userId, query.since)
+        return ShareViewResponses(views.map { ShareViewResponse.from(it) })
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(ListShareViewsQueryHandler::class.java)
+    }
+}
@@ -0,0 +1,20 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.command.Command
+import java.util.UUID
+
+/**
+ * Command to record the PDF download of a visit of a published resume.
+ *
+ * @property shareId The share ID taken from the public URL
+ * @property viewId Identifier of the visit
+ * @property password The password entered by the visitor, if any
+ */
+data class MarkSharePdfDownloadedCommand(
+    val shareId: String,
+    val viewId: UUID,
+    val password: String? = null,
+) : Command {
+    override fun toString(): String =
+        "MarkSharePdfDownloadedCommand(shareId=$shareId, viewId=$viewId, passwordProvided=${password != null})"
+}
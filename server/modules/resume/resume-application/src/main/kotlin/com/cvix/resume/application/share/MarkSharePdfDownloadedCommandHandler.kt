@@ -0,0 +1,40 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.command.CommandHandler
+import com.cvix.resume.domain.ShareViewRepository
+import org.slf4j.LoggerFactory
+
+/**
+ * Command handler for recording PDF downloads of published resumes.
+ * Downloads of shares whose owner turned off view tracking are dropped.
+ */
+@Service
+class MarkSharePdfDownloadedCommandHandler(
+    private val access: SharedResumeAccess,
+    private val viewRepository: ShareViewRepository,
+) : CommandHandler<MarkSharePdfDownloadedCommand> {
+
+    /**
+     * Handles the mark share PDF downloaded command.
+     * Downloads of unknown visits are ignored.
+     * @param command The command containing the share ID and the visit ID
+     * @throws com.cvix.resume.domain.exception.ResumeShareNotFoundException if the share does not exist
+     * @throws com.cvix.resume.domain.exception.ResumeShareExpiredException if the share expired
+     * @throws com.cvix.resume.domain.exception.ResumeSharePasswordException if the password is missing or wrong
+     */
+    override suspend fun handle(command: MarkSharePdfDownloadedCommand) {
+        val share = access.open(command.shareId, command.password)
+        if (!share.trackViews) {
+            log.debug("View tracking is off for resume share {}", share.id)
+            return
+        }
+        if (viewRepository.markPdfDownloaded(command.viewId, share.id) == 0L) {
+            log.debug("Ignoring PDF download of unknown view {} of resume share {}", command.viewId, share.id)
+        }
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(MarkSharePdfDownloadedCommandHandler::class.java)
+    }
+}
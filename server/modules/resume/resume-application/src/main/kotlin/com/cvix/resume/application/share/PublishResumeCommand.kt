@@ -0,0 +1,35 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.command.CommandWithResult
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.Resume
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Command to publish a resume to a public link, replacing its previous publication.
+ *
+ * @property resumeId The resume to publish
+ * @property userId The authenticated user (must be owner)
+ * @property content The resume content to publish, already section-filtered
+ * @property expiresAt When the link stops working, or null for a link that does not expire
+ * @property password Password visitors must enter, or null for an open link
+ * @property templateId Template used for the PDF, or null to use the first available one
+ * @property locale Locale of the web view and the PDF
+ * @property trackViews Whether visits are recorded for the share analytics
+ */
+data class PublishResumeCommand(
+    val resumeId: UUID,
+    val userId: UUID,
+    val content: Resume,
+    val expiresAt: Instant? = null,
+    val password: String? = null,
+    val templateId: String? = null,
+    val locale: Locale = Locale.EN,
+    val trackViews: Boolean = true,
+) : CommandWithResult<ResumeShareResponse> {
+    override fun toString(): String =
+        "PublishResumeCommand(resumeId=$resumeId, userId=$userId, expiresAt=$expiresAt, " +
+            "passwordProtected=${password != null}, templateId=$templateId, locale=$locale, " +
+            "trackViews=$trackViews)"
+}
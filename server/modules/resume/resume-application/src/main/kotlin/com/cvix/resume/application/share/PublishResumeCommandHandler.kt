@@ -0,0 +1,56 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.command.CommandWithResultHandler
+import com.cvix.resume.domain.ResumeRepository
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.ResumeShareUrlResolver
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import org.slf4j.LoggerFactory
+
+/**
+ * Command handler for publishing resumes.
+ * Every publication gets a new unguessable ID, so a link shared earlier stops working.
+ */
+@Service
+class PublishResumeCommandHandler(
+    private val resumeRepository: ResumeRepository,
+    private val shareRepository: ResumeShareRepository,
+    private val passwordHasher: SharePasswordHasher,
+    private val urlResolver: ResumeShareUrlResolver,
+) : CommandWithResultHandler<PublishResumeCommand, ResumeShareResponse> {
+
+    /**
+     * Handles the publish resume command.
+     * @param command The command containing the content and the share options
+     * @return The new share
+     * @throws ResumeNotFoundException if the resume does not exist or is not owned by the user
+     * @throws IllegalArgumentException if the expiry date is not in the future
+     */
+    override suspend fun handle(command: PublishResumeCommand): ResumeShareResponse {
+        log.debug("Publishing resume - resumeId={}, userId={}", command.resumeId, command.userId)
+        if (!resumeRepository.existsByIdForUser(command.resumeId, command.userId)) {
+            throw ResumeNotFoundException("Resume not found: ${command.resumeId}")
+        }
+
+        val share = ResumeShare.publish(
+            resumeId = command.resumeId,
+            userId = command.userId,
+            content = command.content,
+            locale = command.locale,
+            templateId = command.templateId,
+            passwordHash = command.password?.let { passwordHasher.hash(it) },
+            expiresAt = command.expiresAt,
+            trackViews = command.trackViews,
+        )
+        val saved = shareRepository.save(share)
+        log.debug("Resume published - resumeId={}", command.resumeId)
+        return ResumeShareResponse.from(saved, urlResolver.urlOf(saved.id))
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(PublishResumeCommandHandler::class.java)
+    }
+}
@@ -0,0 +1,28 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.command.Command
+import com.cvix.resume.domain.ShareDevice
+import java.util.UUID
+
+/**
+ * Command to record a visit of a published resume.
+ *
+ * @property shareId The share ID taken from the public URL
+ * @property viewId Identifier of the visit, generated by the share site
+ * @property password The password entered by the visitor, if any
+ * @property referrer Host name of the referring page, or null for direct visits
+ * @property device Device class of the visitor
+ * @property pdfDownloaded Whether the visit is a direct PDF download
+ */
+data class RecordShareViewCommand(
+    val shareId: String,
+    val viewId: UUID,
+    val password: String? = null,
+    val referrer: String? = null,
+    val device: ShareDevice,
+    val pdfDownloaded: Boolean = false,
+) : Command {
+    override fun toString(): String =
+        "RecordShareViewCommand(shareId=$shareId, viewId=$viewId, referrer=$referrer, " +
+            "device=$device, pdfDownloaded=$pdfDownloaded, passwordProvided=${password != null})"
+}
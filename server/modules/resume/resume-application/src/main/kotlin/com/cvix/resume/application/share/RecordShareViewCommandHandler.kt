@@ -0,0 +1,46 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.command.CommandHandler
+import com.cvix.resume.domain.ShareView
+import com.cvix.resume.domain.ShareViewRepository
+import org.slf4j.LoggerFactory
+
+/**
+ * Command handler for recording visits of published resumes.
+ * Visits of shares whose owner turned off view tracking are dropped.
+ */
+@Service
+class RecordShareViewCommandHandler(
+    private val access: SharedResumeAccess,
+    private val viewRepository: ShareViewRepository,
+) : CommandHandler<RecordShareViewCommand> {
+
+    /**
+     * Handles the record share view command.
+     * @param command The command containing the share ID and the visit details
+     * @throws com.cvix.resume.domain.exception.ResumeShareNotFoundException if the share does not exist
+     * @throws com.cvix.resume.domain.exception.ResumeShareExpiredException if the share expired
+     * @throws com.cvix.resume.domain.exception.ResumeSharePasswordException if the password is missing or wrong
+     */
+    override suspend fun handle(command: RecordShareViewCommand) {
+        val share = access.open(command.shareId, command.password)
+        if (!share.trackViews) {
+            log.debug("View tracking is off for resume share {}", share.id)
+            return
+        }
+        viewRepository.record(
+            ShareView.of(
+                id = command.viewId,
+                share = share,
+                referrer = command.referrer,
+                device = command.device,
+                pdfDownloaded = command.pdfDownloaded,
+            ),
+        )
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(RecordShareViewCommandHandler::class.java)
+    }
+}
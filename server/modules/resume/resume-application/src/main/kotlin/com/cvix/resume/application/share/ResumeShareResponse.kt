@@ -0,0 +1,43 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Response
+import com.cvix.resume.domain.ResumeShare
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Represents the share of a resume, as seen by its owner.
+ *
+ * @property id The public identifier of the share.
+ * @property resumeId The unique identifier of the published resume.
+ * @property url The public URL of the hosted web view.
+ * @property expiresAt When the link stops working, or null if it does not expire.
+ * @property passwordProtected Whether visitors must enter a password.
+ * @property createdAt When the resume was published.
+ */
+data class ResumeShareResponse(
+    val id: String,
+    val resumeId: UUID,
+    val url: String,
+    val expiresAt: Instant?,
+    val passwordProtected: Boolean,
+    val createdAt: Instant,
+) : Response {
+    companion object {
+        /**
+         * Converts a `ResumeShare` into a `ResumeShareResponse`.
+         *
+         * @param share The `ResumeShare` to convert.
+         * @param url The public URL of the share.
+         * @return A `ResumeShareResponse` describing the given share.
+         */
+        fun from(share: ResumeShare, url: String) = ResumeShareResponse(
+            id = share.id.value,
+            resumeId = share.resumeId,
+            url = url,
+            expiresAt = share.expiresAt,
+            passwordProtected = share.passwordProtected,
+            createdAt = share.createdAt,
+        )
+    }
+}
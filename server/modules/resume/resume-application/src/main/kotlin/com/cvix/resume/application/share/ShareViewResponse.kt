@@ -0,0 +1,49 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Response
+import com.cvix.resume.domain.ShareView
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Represents one visit of a published resume, as seen by its owner.
+ *
+ * @property id The unique identifier of the visit.
+ * @property shareId The public identifier of the visited share.
+ * @property viewedAt When the visit happened.
+ * @property referrer Host name of the referring page, or null for direct visits.
+ * @property device Device class of the visitor (desktop, mobile or tablet).
+ * @property pdfDownloaded Whether the visitor downloaded the PDF.
+ */
+data class ShareViewResponse(
+    val id: UUID,
+    val shareId: String,
+    val viewedAt: Instant,
+    val referrer: String?,
+    val device: String,
+    val pdfDownloaded: Boolean,
+) : Response {
+    companion object {
+        /**
+         * Converts a `ShareView` into a `ShareViewResponse`.
+         *
+         * @param view The `ShareView` to convert.
+         * @return A `ShareViewResponse` describing the given visit.
+         */
+        fun from(view: ShareView) = ShareViewResponse(
+            id = view.id,
+            shareId = view.shareId.value,
+            viewedAt = view.viewedAt,
+            referrer = view.referrer,
+            device = view.device.code,
+            pdfDownloaded = view.pdfDownloaded,
+        )
+    }
+}
+
+/**
+ * Represents the visits of a resume.
+ *
+ * @property data The visits.
+ */
+data class ShareViewResponses(val data: List<ShareViewResponse>) : Response
@@ -0,0 +1,63 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import java.time.Instant
+import org.slf4j.LoggerFactory
+
+/**
+ * Service opening shares for anonymous visitors.
+ *
+ * Every public operation on a share (web view, PDF, visit tracking) goes through
+ * [open], so expired links and protected links opened without their password are
+ * rejected the same way everywhere.
+ */
+@Service
+class SharedResumeAccess(
+    private val shareRepository: ResumeShareRepository,
+    private val passwordHasher: SharePasswordHasher,
+) {
+    /**
+     * Opens a share.
+     *
+     * @param shareId The share ID taken from the public URL
+     * @param password The password entered by the visitor, if any
+     * @param now Reference time for the expiry
+     * @return The share
+     * @throws ResumeShareNotFoundException if no share has the given ID
+     * @throws ResumeShareExpiredException if the share passed its expiry date
+     * @throws ResumeSharePasswordException if the share is protected and the password is missing or wrong
+     */
+    suspend fun open(
+        shareId: String,
+        password: String?,
+        now: Instant = Instant.now(),
+    ): ResumeShare {
+        val share = ResumeShareId.fromStringOrNull(shareId)
+            ?.let { shareRepository.findById(it) }
+            ?: throw ResumeShareNotFoundException("Resume share not found")
+        if (share.isExpired(now)) {
+            throw ResumeShareExpiredException("Resume share expired: ${share.id}")
+        }
+        share.passwordHash?.let { hash ->
+            if (password == null) {
+                throw ResumeSharePasswordException("Resume share requires a password: ${share.id}")
+            }
+            if (!passwordHasher.matches(password, hash)) {
+                log.debug("Wrong password for resume share {}", share.id)
+                throw ResumeSharePasswordException("Wrong password for resume share: ${share.id}")
+            }
+        }
+        return share
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(SharedResumeAccess::class.java)
+    }
+}
@@ -0,0 +1,43 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.query.Response
+import com.cvix.resume.domain.Resume
+import com.cvix.resume.domain.ResumeShare
+import java.time.Instant
+
+/**
+ * Represents a published resume, as seen by the visitors of its link.
+ * Carries nothing about the owner beyond what they chose to publish.
+ *
+ * @property id The public identifier of the share.
+ * @property resume The published, section-filtered resume content.
+ * @property locale The locale of the web view.
+ * @property templateId The template used for the PDF, or null.
+ * @property expiresAt When the link stops working, or null if it does not expire.
+ * @property trackViews Whether visits are recorded for the owner's share analytics.
+ */
+data class SharedResumeResponse(
+    val id: String,
+    val resume: Resume,
+    val locale: String,
+    val templateId: String?,
+    val expiresAt: Instant?,
+    val trackViews: Boolean,
+) : Response {
+    companion object {
+        /**
+         * Converts a `ResumeShare` into a `SharedResumeResponse`.
+         *
+         * @param share The `ResumeShare` to convert.
+         * @return A `SharedResumeResponse` with the published content of the share.
+         */
+        fun from(share: ResumeShare) = SharedResumeResponse(
+            id = share.id.value,
+            resume = share.content,
+            locale = share.locale.code,
+            templateId = share.templateId,
+            expiresAt = share.expiresAt,
+            trackViews = share.trackViews,
+        )
+    }
+}
@@ -0,0 +1,15 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.bus.command.Command
+import java.util.UUID
+
+/**
+ * Command to take a resume offline. Its share link stops working.
+ *
+ * @property resumeId The published resume
+ * @property userId The authenticated user (must be owner)
+ */
+data class UnpublishResumeCommand(
+    val resumeId: UUID,
+    val userId: UUID,
+) : Command
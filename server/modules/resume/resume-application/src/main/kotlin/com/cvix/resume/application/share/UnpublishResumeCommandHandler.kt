@@ -0,0 +1,32 @@
+package com.cvix.resume.application.share
+
+import com.cvix.common.domain.Service
+import com.cvix.common.domain.bus.command.CommandHandler
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import org.slf4j.LoggerFactory
+
+/**
+ * Command handler for unpublishing resumes.
+ */
+@Service
+class UnpublishResumeCommandHandler(
+    private val shareRepository: ResumeShareRepository,
+) : CommandHandler<UnpublishResumeCommand> {
+
+    /**
+     * Handles the unpublish resume command.
+     * @param command The command containing resume ID and user ID
+     * @throws ResumeShareNotFoundException if the resume is not published or not owned by the user
+     */
+    override suspend fun handle(command: UnpublishResumeCommand) {
+        log.debug("Unpublishing resume - resumeId={}, userId={}", command.resumeId, command.userId)
+        if (shareRepository.deleteByResumeId(command.resumeId, command.userId) == 0L) {
+            throw ResumeShareNotFoundException("Resume is not published: ${command.resumeId}")
+        }
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(UnpublishResumeCommandHandler::class.java)
+    }
+}
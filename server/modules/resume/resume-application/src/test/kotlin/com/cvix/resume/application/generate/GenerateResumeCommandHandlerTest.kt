@@ -74,6 +74,40 @@ internal class GenerateResumeCommandHandlerTest {
         }
     }
 
+    @Test
+    fun `should pass the template params to the PDF generator`() = runTest {
+        // Given
+        val resume = ResumeTestFixtures.createValidResume()
+        val params = mapOf("colorPalette" to "blue", "highlightSkills" to false)
+        val command = GenerateResumeCommand(
+            templateId = testTemplateId,
+            resume = resume,
+            userId = testUserId,
+            params = params,
+        )
+        val expectedPdfStream: InputStream = ByteArrayInputStream("PDF content".toByteArray())
+
+        coEvery {
+            subscriptionResolver.resolve(ResolverContext.UserId(testUserId))
+        } returns SubscriptionTier.FREE
+        coEvery {
+            pdfGenerator.generate(
+                testTemplateId,
+                resume,
+                testUserId,
+                SubscriptionTier.FREE,
+                Locale.EN,
+                params,
+            )
+        } returns expectedPdfStream
+
+        // When
+        val result = generateResumeCommandHandler.handle(command)
+
+        // Then
+        assertEquals(expectedPdfStream, result)
+    }
+
     @Test
     fun `should generate PDF resume with Spanish locale when specified`() = runTest {
         // Given
@@ -129,7 +163,9 @@ internal class GenerateResumeCommandHandlerTest {
             locale = Locale.EN,
         )
 
-        coEvery { subscriptionResolver.resolve(ResolverContext.UserId(testUserId)) } returns SubscriptionTier.FREE
+        coEvery {
+            subscriptionResolver.resolve(ResolverContext.UserId(testUserId))
+        } returns SubscriptionTier.FREE
         coEvery {
             pdfGenerator.generate(
                 any(),
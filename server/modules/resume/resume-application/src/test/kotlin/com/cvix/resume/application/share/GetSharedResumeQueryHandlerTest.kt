@@ -0,0 +1,133 @@
+package com.cvix.resume.application.share
+
+import com.cvix.UnitTest
+import com.cvix.resume.ResumeTestFixtures
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.every
+import io.mockk.mockk
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlin.test.assertTrue
+import kotlinx.coroutines.test.runTest
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class GetSharedResumeQueryHandlerTest {
+    private val shareRepository: ResumeShareRepository = mockk()
+    private val passwordHasher: SharePasswordHasher = mockk()
+    private val handler = GetSharedResumeQueryHandler(SharedResumeAccess(shareRepository, passwordHasher))
+
+    private fun publish(
+        passwordHash: String? = null,
+        expiresAt: Instant? = null,
+        now: Instant = Instant.now(),
+    ): ResumeShare = ResumeShare.publish(
+        resumeId = UUID.randomUUID(),
+        userId = UUID.randomUUID(),
+        content = ResumeTestFixtures.createValidResume(),
+        locale = Locale.ES,
+        templateId = "engineering",
+        passwordHash = passwordHash,
+        expiresAt = expiresAt,
+        trackViews = false,
+        now = now,
+    ).also { coEvery { shareRepository.findById(it.id) } returns it }
+
+    @Test
+    fun `should return the published content`() = runTest {
+        // Given
+        val share = publish()
+
+        // When
+        val response = handler.handle(GetSharedResumeQuery(shareId = share.id.value))
+
+        // Then
+        assertEquals(share.id.value, response.id)
+        assertEquals(share.content, response.resume)
+        assertTrue(response.resume.education.isEmpty())
+        assertEquals("es", response.locale)
+        assertEquals("engineering", response.templateId)
+        assertEquals(false, response.trackViews)
+    }
+
+    @Test
+    fun `should not look up IDs it could not have generated`() = runTest {
+        assertFailsWith<ResumeShareNotFoundException> {
+            handler.handle(GetSharedResumeQuery(shareId = UUID.randomUUID().toString()))
+        }
+        coVerify(exactly = 0) { shareRepository.findById(any()) }
+    }
+
+    @Test
+    fun `should throw ResumeShareNotFoundException when the share does not exist`() = runTest {
+        // Given
+        val share = publish()
+        coEvery { shareRepository.findById(share.id) } returns null
+
+        // When / Then
+        assertFailsWith<ResumeShareNotFoundException> {
+            handler.handle(GetSharedResumeQuery(shareId = share.id.value))
+        }
+    }
+
+    @Test
+    fun `should throw ResumeShareExpiredException when the share expired`() = runTest {
+        // Given
+        val publishedAt = Instant.now().minus(Duration.ofDays(2))
+        val share = publish(expiresAt = publishedAt.plus(Duration.ofDays(1)), now = publishedAt)
+
+        // When / Then
+        assertFailsWith<ResumeShareExpiredException> {
+            handler.handle(GetSharedResumeQuery(shareId = share.id.value))
+        }
+    }
+
+    @Test
+    fun `should throw ResumeSharePasswordException when a protected share is opened without password`() =
+        runTest {
+            // Given
+            val share = publish(passwordHash = "hash")
+
+            // When / Then
+            assertFailsWith<ResumeSharePasswordException> {
+                handler.handle(GetSharedResumeQuery(shareId = share.id.value))
+            }
+            coVerify(exactly = 0) { passwordHasher.matches(any(), any()) }
+        }
+
+    @Test
+    fun `should throw ResumeSharePasswordException when the password is wrong`() = runTest {
+        // Given
+        val share = publish(passwordHash = "hash")
+        every { passwordHasher.matches("wrong", "hash") } returns false
+
+        // When / Then
+        assertFailsWith<ResumeSharePasswordException> {
+            handler.handle(GetSharedResumeQuery(shareId = share.id.value, password = "wrong"))
+        }
+    }
+
+    @Test
+    fun `should return a protected share when the password matches`() = runTest {
+        // Given
+        val share = publish(passwordHash = "hash")
+        every { passwordHasher.matches("s3cret-pass", "hash") } returns true
+
+        // When
+        val response = handler.handle(GetSharedResumeQuery(shareId = share.id.value, password = "s3cret-pass"))
+
+        // Then
+        assertEquals(share.content, response.resume)
+    }
+}
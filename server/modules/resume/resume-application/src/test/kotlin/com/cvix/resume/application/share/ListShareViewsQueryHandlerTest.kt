@@ -0,0 +1,75 @@
+package com.cvix.resume.application.share
+
+import com.cvix.UnitTest
+import com.cvix.resume.domain.ResumeRepository
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.domain.ShareView
+import com.cvix.resume.domain.ShareViewRepository
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.mockk
+import java.time.Instant
+import java.util.UUID
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlinx.coroutines.test.runTest
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class ListShareViewsQueryHandlerTest {
+    private val resumeRepository: ResumeRepository = mockk()
+    private val viewRepository: ShareViewRepository = mockk()
+    private val handler = ListShareViewsQueryHandler(resumeRepository, viewRepository)
+    private val resumeId = UUID.randomUUID()
+    private val userId = UUID.randomUUID()
+    private val since = Instant.parse("2026-05-01T00:00:00Z")
+
+    @Test
+    fun `should list the visits of the resume`() = runTest {
+        // Given
+        val view = ShareView(
+            id = UUID.randomUUID(),
+            shareId = ResumeShareId.generate(),
+            resumeId = resumeId,
+            userId = userId,
+            viewedAt = Instant.parse("2026-05-02T09:30:00Z"),
+            referrer = "www.linkedin.com",
+            device = ShareDevice.TABLET,
+            pdfDownloaded = true,
+        )
+        coEvery { resumeRepository.existsByIdForUser(resumeId, userId) } returns true
+        coEvery { viewRepository.findByResumeId(resumeId, userId, since) } returns listOf(view)
+
+        // When
+        val response = handler.handle(ListShareViewsQuery(resumeId = resumeId, userId = userId, since = since))
+
+        // Then
+        assertEquals(
+            listOf(
+                ShareViewResponse(
+                    id = view.id,
+                    shareId = view.shareId.value,
+                    viewedAt = view.viewedAt,
+                    referrer = "www.linkedin.com",
+                    device = "tablet",
+                    pdfDownloaded = true,
+                ),
+            ),
+            response.data,
+        )
+    }
+
+    @Test
+    fun `should throw ResumeNotFoundException when the resume is not owned by the user`() = runTest {
+        // Given
+        coEvery { resumeRepository.existsByIdForUser(resumeId, userId) } returns false
+
+        // When / Then
+        assertFailsWith<ResumeNotFoundException> {
+            handler.handle(ListShareViewsQuery(resumeId = resumeId, userId = userId, since = since))
+        }
+        coVerify(exactly = 0) { viewRepository.findByResumeId(any(), any(), any()) }
+    }
+}
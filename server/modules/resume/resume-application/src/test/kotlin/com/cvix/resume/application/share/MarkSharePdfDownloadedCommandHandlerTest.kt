@@ -0,0 +1,95 @@
+package com.cvix.resume.application.share
+
+import com.cvix.UnitTest
+import com.cvix.resume.ResumeTestFixtures
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.ShareViewRepository
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.mockk
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+import kotlin.test.assertFailsWith
+import kotlinx.coroutines.test.runTest
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class MarkSharePdfDownloadedCommandHandlerTest {
+    private val shareRepository: ResumeShareRepository = mockk()
+    private val passwordHasher: SharePasswordHasher = mockk()
+    private val viewRepository: ShareViewRepository = mockk()
+    private val handler = MarkSharePdfDownloadedCommandHandler(
+        SharedResumeAccess(shareRepository, passwordHasher),
+        viewRepository,
+    )
+    private val viewId = UUID.randomUUID()
+
+    private fun publish(
+        trackViews: Boolean = true,
+        expiresAt: Instant? = null,
+        now: Instant = Instant.now(),
+    ): ResumeShare = ResumeShare.publish(
+        resumeId = UUID.randomUUID(),
+        userId = UUID.randomUUID(),
+        content = ResumeTestFixtures.createValidResume(),
+        locale = Locale.EN,
+        templateId = null,
+        passwordHash = null,
+        expiresAt = expiresAt,
+        trackViews = trackViews,
+        now = now,
+    ).also { coEvery { shareRepository.findById(it.id) } returns it }
+
+    @Test
+    fun `should mark the visit as downloaded`() = runTest {
+        // Given
+        val share = publish()
+        coEvery { viewRepository.markPdfDownloaded(viewId, share.id) } returns 1L
+
+        // When
+        handler.handle(MarkSharePdfDownloadedCommand(shareId = share.id.value, viewId = viewId))
+
+        // Then
+        coVerify(exactly = 1) { viewRepository.markPdfDownloaded(viewId, share.id) }
+    }
+
+    @Test
+    fun `should ignore downloads of unknown visits`() = runTest {
+        // Given
+        val share = publish()
+        coEvery { viewRepository.markPdfDownloaded(viewId, share.id) } returns 0L
+
+        // When / Then
+        handler.handle(MarkSharePdfDownloadedCommand(shareId = share.id.value, viewId = viewId))
+    }
+
+    @Test
+    fun `should drop the download when the owner turned off view tracking`() = runTest {
+        // Given
+        val share = publish(trackViews = false)
+
+        // When
+        handler.handle(MarkSharePdfDownloadedCommand(shareId = share.id.value, viewId = viewId))
+
+        // Then
+        coVerify(exactly = 0) { viewRepository.markPdfDownloaded(any(), any()) }
+    }
+
+    @Test
+    fun `should not record downloads of an expired share`() = runTest {
+        // Given
+        val publishedAt = Instant.now().minus(Duration.ofDays(2))
+        val share = publish(expiresAt = publishedAt.plus(Duration.ofDays(1)), now = publishedAt)
+
+        // When / Then
+        assertFailsWith<ResumeShareExpiredException> {
+            handler.handle(MarkSharePdfDownloadedCommand(shareId = share.id.value, viewId = viewId))
+        }
+        coVerify(exactly = 0) { viewRepository.markPdfDownloaded(any(), any()) }
+    }
+}
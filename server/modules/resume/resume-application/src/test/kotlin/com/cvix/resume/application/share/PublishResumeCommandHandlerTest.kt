@@ -0,0 +1,126 @@
+package com.cvix.resume.application.share
+
+import com.cvix.UnitTest
+import com.cvix.resume.ResumeTestFixtures
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.ResumeRepository
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.ResumeShareUrlResolver
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.every
+import io.mockk.mockk
+import io.mockk.slot
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlin.test.assertNotEquals
+import kotlin.test.assertTrue
+import kotlinx.coroutines.test.runTest
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class PublishResumeCommandHandlerTest {
+    private val resumeRepository: ResumeRepository = mockk()
+    private val shareRepository: ResumeShareRepository = mockk()
+    private val passwordHasher: SharePasswordHasher = mockk()
+    private val urlResolver = ResumeShareUrlResolver { "https://share.example.com/$it" }
+    private val handler = PublishResumeCommandHandler(
+        resumeRepository,
+        shareRepository,
+        passwordHasher,
+        urlResolver,
+    )
+    private val resumeId = UUID.randomUUID()
+    private val userId = UUID.randomUUID()
+    private val saved = slot<ResumeShare>()
+
+    @BeforeEach
+    fun setUp() {
+        coEvery { resumeRepository.existsByIdForUser(resumeId, userId) } returns true
+        coEvery { shareRepository.save(capture(saved)) } answers { saved.captured }
+        every { passwordHasher.hash("s3cret-pass") } returns "hashed"
+    }
+
+    private fun command(
+        password: String? = null,
+        expiresAt: Instant? = null,
+    ) = PublishResumeCommand(
+        resumeId = resumeId,
+        userId = userId,
+        content = ResumeTestFixtures.createValidResume(),
+        expiresAt = expiresAt,
+        password = password,
+        templateId = "engineering",
+        locale = Locale.ES,
+        trackViews = false,
+    )
+
+    @Test
+    fun `should publish the resume under its public URL`() = runTest {
+        // Given
+        val expiresAt = Instant.now().plus(Duration.ofDays(7))
+
+        // When
+        val response = handler.handle(command(expiresAt = expiresAt))
+
+        // Then
+        val share = saved.captured
+        assertEquals(share.id.value, response.id)
+        assertEquals("https://share.example.com/${share.id.value}", response.url)
+        assertEquals(resumeId, response.resumeId)
+        assertEquals(expiresAt, response.expiresAt)
+        assertEquals(false, response.passwordProtected)
+        assertEquals(userId, share.userId)
+        assertEquals(ResumeTestFixtures.createValidResume(), share.content)
+        assertEquals(Locale.ES, share.locale)
+        assertEquals("engineering", share.templateId)
+        assertEquals(false, share.trackViews)
+    }
+
+    @Test
+    fun `should store only the hash of the password`() = runTest {
+        // When
+        val response = handler.handle(command(password = "s3cret-pass"))
+
+        // Then
+        assertEquals("hashed", saved.captured.passwordHash)
+        assertTrue(response.passwordProtected)
+    }
+
+    @Test
+    fun `should give a new ID when the resume is published again`() = runTest {
+        // When
+        val first = handler.handle(command())
+        val second = handler.handle(command())
+
+        // Then
+        assertNotEquals(first.id, second.id)
+    }
+
+    @Test
+    fun `should throw ResumeNotFoundException when the resume is not owned by the user`() = runTest {
+        // Given
+        coEvery { resumeRepository.existsByIdForUser(resumeId, userId) } returns false
+
+        // When / Then
+        assertFailsWith<ResumeNotFoundException> {
+            handler.handle(command())
+        }
+        coVerify(exactly = 0) { shareRepository.save(any()) }
+    }
+
+    @Test
+    fun `should reject an expiry date in the past`() = runTest {
+        assertFailsWith<IllegalArgumentException> {
+            handler.handle(command(expiresAt = Instant.now().minusSeconds(60)))
+        }
+        coVerify(exactly = 0) { shareRepository.save(any()) }
+    }
+}
@@ -0,0 +1,105 @@
+package com.cvix.resume.application.share
+
+import com.cvix.UnitTest
+import com.cvix.resume.ResumeTestFixtures
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.domain.SharePasswordHasher
+import com.cvix.resume.domain.ShareView
+import com.cvix.resume.domain.ShareViewRepository
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.every
+import io.mockk.mockk
+import io.mockk.slot
+import java.util.UUID
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlinx.coroutines.test.runTest
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class RecordShareViewCommandHandlerTest {
+    private val shareRepository: ResumeShareRepository = mockk()
+    private val passwordHasher: SharePasswordHasher = mockk()
+    private val viewRepository: ShareViewRepository = mockk()
+    private val handler = RecordShareViewCommandHandler(
+        SharedResumeAccess(shareRepository, passwordHasher),
+        viewRepository,
+    )
+    private val viewId = UUID.randomUUID()
+    private val recorded = slot<ShareView>()
+
+    @BeforeEach
+    fun setUp() {
+        coEvery { viewRepository.record(capture(recorded)) } returns Unit
+    }
+
+    private fun publish(trackViews: Boolean = true, passwordHash: String? = null): ResumeShare =
+        ResumeShare.publish(
+            resumeId = UUID.randomUUID(),
+            userId = UUID.randomUUID(),
+            content = ResumeTestFixtures.createValidResume(),
+            locale = Locale.EN,
+            templateId = null,
+            passwordHash = passwordHash,
+            expiresAt = null,
+            trackViews = trackViews,
+        ).also { coEvery { shareRepository.findById(it.id) } returns it }
+
+    private fun command(share: ResumeShare, password: String? = null) = RecordShareViewCommand(
+        shareId = share.id.value,
+        viewId = viewId,
+        password = password,
+        referrer = "www.LinkedIn.com",
+        device = ShareDevice.MOBILE,
+    )
+
+    @Test
+    fun `should record a visit for the owner of the resume`() = runTest {
+        // Given
+        val share = publish()
+
+        // When
+        handler.handle(command(share))
+
+        // Then
+        val view = recorded.captured
+        assertEquals(viewId, view.id)
+        assertEquals(share.id, view.shareId)
+        assertEquals(share.resumeId, view.resumeId)
+        assertEquals(share.userId, view.userId)
+        assertEquals("www.linkedin.com", view.referrer)
+        assertEquals(ShareDevice.MOBILE, view.device)
+        assertEquals(false, view.pdfDownloaded)
+    }
+
+    @Test
+    fun `should drop the visit when the owner turned off view tracking`() = runTest {
+        // Given
+        val share = publish(trackViews = false)
+
+        // When
+        handler.handle(command(share))
+
+        // Then
+        coVerify(exactly = 0) { viewRepository.record(any()) }
+    }
+
+    @Test
+    fun `should not record visits of a protected share without its password`() = runTest {
+        // Given
+        val share = publish(passwordHash = "hash")
+        every { passwordHasher.matches("wrong", "hash") } returns false
+
+        // When / Then
+        assertFailsWith<ResumeSharePasswordException> {
+            handler.handle(command(share, password = "wrong"))
+        }
+        coVerify(exactly = 0) { viewRepository.record(any()) }
+    }
+}
@@ -0,0 +1,98 @@
+package com.cvix.resume.domain
+
+import com.cvix.common.domain.model.AggregateRoot
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Resume share aggregate root.
+ *
+ * A published copy of a resume, reachable by anyone holding its unguessable link.
+ * The content is a snapshot taken when publishing, already stripped of the sections
+ * the owner chose to hide, so later edits of the resume are not leaked.
+ * Publishing again replaces the share with a new one under a new ID.
+ *
+ * @property id Public identifier used in the share URL
+ * @property resumeId The published resume
+ * @property userId Owner of the resume
+ * @property content The published resume content
+ * @property locale Locale of the web view and the PDF
+ * @property templateId Template used for the PDF, or null to use the first available one
+ * @property passwordHash Hash of the password visitors must enter, or null for an open link
+ * @property expiresAt When the link stops working, or null if it does not expire
+ * @property trackViews Whether visits are recorded for the owner's share analytics
+ * @property createdAt When the resume was published
+ */
+data class ResumeShare(
+    override val id: ResumeShareId,
+    val resumeId: UUID,
+    val userId: UUID,
+    val content: Resume,
+    val locale: Locale,
+    val templateId: String?,
+    val passwordHash: String?,
+    val expiresAt: Instant?,
+    val trackViews: Boolean,
+    override val createdAt: Instant,
+) : AggregateRoot<ResumeShareId>() {
+    /**
+     * Whether visitors must enter a password.
+     */
+    val passwordProtected: Boolean
+        get() = passwordHash != null
+
+    /**
+     * Checks whether the link stopped working.
+     *
+     * @param now Reference time
+     * @return true if the share has an expiry date that is not after [now]
+     */
+    fun isExpired(now: Instant = Instant.now()): Boolean =
+        expiresAt != null && !expiresAt.isAfter(now)
+
+    companion object {
+        /**
+         * Publishes a resume under a newly generated ID.
+         *
+         * @param resumeId The published resume
+         * @param userId Owner of the resume
+         * @param content The section-filtered resume content
+         * @param locale Locale of the web view and the PDF
+         * @param templateId Template used for the PDF
+         * @param passwordHash Hash of the password, or null for an open link
+         * @param expiresAt Expiry date, or null for a link that does not expire
+         * @param trackViews Whether visits are recorded
+         * @param now Timestamp of the publication
+         * @return A new ResumeShare instance
+         * @throws IllegalArgumentException if the expiry date is not in the future
+         */
+        @Suppress("LongParameterList")
+        fun publish(
+            resumeId: UUID,
+            userId: UUID,
+            content: Resume,
+            locale: Locale,
+            templateId: String?,
+            passwordHash: String?,
+            expiresAt: Instant?,
+            trackViews: Boolean,
+            now: Instant = Instant.now(),
+        ): ResumeShare {
+            require(expiresAt == null || expiresAt.isAfter(now)) {
+                "Share expiry date must be in the future"
+            }
+            return ResumeShare(
+                id = ResumeShareId.generate(),
+                resumeId = resumeId,
+                userId = userId,
+                content = content,
+                locale = locale,
+                templateId = templateId?.takeIf { it.isNotBlank() },
+                passwordHash = passwordHash,
+                expiresAt = expiresAt,
+                trackViews = trackViews,
+                createdAt = now,
+            )
+        }
+    }
+}
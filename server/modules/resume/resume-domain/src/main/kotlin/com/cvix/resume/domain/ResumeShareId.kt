@@ -0,0 +1,49 @@
+package com.cvix.resume.domain
+
+import java.security.SecureRandom
+import java.util.Base64
+
+/**
+ * Value class representing the public identifier of a [ResumeShare].
+ *
+ * The identifier is the only secret of an open share link, so it is drawn from
+ * a cryptographically secure random source rather than derived from the resume ID.
+ *
+ * @property value The URL-safe identifier.
+ */
+@JvmInline
+value class ResumeShareId(val value: String) {
+    init {
+        require(PATTERN.matches(value)) { "Invalid resume share ID" }
+    }
+
+    override fun toString(): String = value
+
+    companion object {
+        /** Number of random bytes behind an identifier (192 bits). */
+        private const val RANDOM_BYTES = 24
+        private val PATTERN = Regex("^[A-Za-z0-9_-]{32}$")
+        private val random = SecureRandom()
+        private val encoder = Base64.getUrlEncoder().withoutPadding()
+
+        /**
+         * Generates a new unguessable identifier.
+         *
+         * @return A 32-character URL-safe identifier.
+         */
+        fun generate(): ResumeShareId {
+            val bytes = ByteArray(RANDOM_BYTES)
+            random.nextBytes(bytes)
+            return ResumeShareId(encoder.encodeToString(bytes))
+        }
+
+        /**
+         * Parses an identifier taken from a public URL.
+         *
+         * @param id The identifier to parse.
+         * @return The identifier, or null when it is not one this class generates.
+         */
+        fun fromStringOrNull(id: String): ResumeShareId? =
+            if (PATTERN.matches(id)) ResumeShareId(id) else null
+    }
+}
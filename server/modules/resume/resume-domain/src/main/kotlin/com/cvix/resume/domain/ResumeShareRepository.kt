@@ -0,0 +1,39 @@
+package com.cvix.resume.domain
+
+import java.util.UUID
+
+/**
+ * Repository port for ResumeShare aggregate persistence.
+ * A resume has at most one share: saving a share replaces the previous one.
+ */
+interface ResumeShareRepository {
+    /**
+     * Saves a share, replacing the current share of the same resume.
+     * @param share The share to save
+     * @return The saved share
+     */
+    suspend fun save(share: ResumeShare): ResumeShare
+
+    /**
+     * Finds a share by its public ID. Used by anonymous visitors.
+     * @param id The share ID
+     * @return The share if found, null otherwise
+     */
+    suspend fun findById(id: ResumeShareId): ResumeShare?
+
+    /**
+     * Finds the current share of a resume.
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID (for authorization)
+     * @return The share if the resume is published and owned by the user, null otherwise
+     */
+    suspend fun findByResumeId(resumeId: UUID, userId: UUID): ResumeShare?
+
+    /**
+     * Deletes the share of a resume (authorization enforced).
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID
+     * @return The number of rows affected (0 if not published or unauthorized)
+     */
+    suspend fun deleteByResumeId(resumeId: UUID, userId: UUID): Long
+}
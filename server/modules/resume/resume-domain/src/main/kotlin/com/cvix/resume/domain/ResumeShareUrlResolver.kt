@@ -0,0 +1,15 @@
+package com.cvix.resume.domain
+
+/**
+ * Output port resolving the public URL of a share.
+ * Implemented by the infrastructure layer from the configured address of the share site.
+ */
+fun interface ResumeShareUrlResolver {
+    /**
+     * Resolves the URL visitors open to see a share.
+     *
+     * @param id The share ID
+     * @return The absolute URL of the hosted web view
+     */
+    fun urlOf(id: ResumeShareId): String
+}
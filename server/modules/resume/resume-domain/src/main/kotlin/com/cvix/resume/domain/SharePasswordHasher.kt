@@ -0,0 +1,24 @@
+package com.cvix.resume.domain
+
+/**
+ * Output port for hashing the passwords of protected shares.
+ * Implemented by the infrastructure layer with a salted, slow hash.
+ */
+interface SharePasswordHasher {
+    /**
+     * Hashes a password for storage.
+     *
+     * @param password The plain text password
+     * @return The encoded hash, including its salt
+     */
+    fun hash(password: String): String
+
+    /**
+     * Checks a password against a stored hash.
+     *
+     * @param password The plain text password entered by a visitor
+     * @param hash The stored hash
+     * @return true if the password matches
+     */
+    fun matches(password: String, hash: String): Boolean
+}
@@ -0,0 +1,87 @@
+package com.cvix.resume.domain
+
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Coarse device class of a visitor, derived by the share site from the user agent.
+ * Nothing else from the user agent is kept.
+ */
+enum class ShareDevice(val code: String) {
+    DESKTOP("desktop"),
+    MOBILE("mobile"),
+    TABLET("tablet");
+
+    companion object {
+        fun from(code: String): ShareDevice {
+            return entries.find { it.code == code }
+                ?: throw IllegalArgumentException("Unsupported device class: $code")
+        }
+    }
+}
+
+/**
+ * One visit of a published resume, recorded for the owner's share analytics.
+ *
+ * Visits are kept per resume rather than per share, so the statistics survive
+ * publishing the resume again under a new link.
+ *
+ * @property id Identifier of the visit, generated by the share site when the page is rendered
+ * @property shareId The share that was visited
+ * @property resumeId The published resume
+ * @property userId Owner of the resume
+ * @property viewedAt When the visit happened
+ * @property referrer Host name of the referring page, or null for direct visits
+ * @property device Device class of the visitor
+ * @property pdfDownloaded Whether the visitor downloaded the PDF during the visit
+ */
+data class ShareView(
+    val id: UUID,
+    val shareId: ResumeShareId,
+    val resumeId: UUID,
+    val userId: UUID,
+    val viewedAt: Instant,
+    val referrer: String?,
+    val device: ShareDevice,
+    val pdfDownloaded: Boolean,
+) {
+    init {
+        require(referrer == null || referrer.length <= MAX_REFERRER_LENGTH) {
+            "Referrer cannot exceed $MAX_REFERRER_LENGTH characters"
+        }
+    }
+
+    companion object {
+        /** Maximum length of a host name. */
+        const val MAX_REFERRER_LENGTH = 253
+
+        /**
+         * Records a visit of a share.
+         *
+         * @param id Identifier of the visit
+         * @param share The visited share
+         * @param referrer Host name of the referring page, or null for direct visits
+         * @param device Device class of the visitor
+         * @param pdfDownloaded Whether the visit is a direct PDF download
+         * @param now Timestamp of the visit
+         * @return A new ShareView instance
+         */
+        fun of(
+            id: UUID,
+            share: ResumeShare,
+            referrer: String?,
+            device: ShareDevice,
+            pdfDownloaded: Boolean,
+            now: Instant = Instant.now(),
+        ): ShareView = ShareView(
+            id = id,
+            shareId = share.id,
+            resumeId = share.resumeId,
+            userId = share.userId,
+            viewedAt = now,
+            referrer = referrer?.takeIf { it.isNotBlank() }?.lowercase(),
+            device = device,
+            pdfDownloaded = pdfDownloaded,
+        )
+    }
+}
@@ -0,0 +1,33 @@
+package com.cvix.resume.domain
+
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Repository port for the recorded visits of published resumes.
+ */
+interface ShareViewRepository {
+    /**
+     * Records a visit. Recording a visit that already exists does nothing,
+     * so the share site can safely retry.
+     * @param view The visit to record
+     */
+    suspend fun record(view: ShareView)
+
+    /**
+     * Marks a visit as having downloaded the PDF.
+     * @param id The visit ID
+     * @param shareId The share the visit belongs to
+     * @return The number of rows affected (0 if the visit is unknown)
+     */
+    suspend fun markPdfDownloaded(id: UUID, shareId: ResumeShareId): Long
+
+    /**
+     * Lists the visits of a resume, across all its publications.
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID (for authorization)
+     * @param since Oldest visit to return
+     * @return The visits, most recent first
+     */
+    suspend fun findByResumeId(resumeId: UUID, userId: UUID, since: Instant): List<ShareView>
+}
@@ -13,6 +13,7 @@ import com.cvix.subscription.domain.SubscriptionTier
  * @param templatePath Optional path to the template resources
  * @param previewUrl Optional URL to a preview image of the template
  * @param params Optional template parameters for customization
+ * @param paramsSchema Parameters the template accepts, with their allowed values
  * @param requiredSubscriptionTier The minimum subscription tier required to access this template.
  *                                 Defaults to FREE so all templates are accessible by default.
  *                                 Set to BASIC or PROFESSIONAL to create premium templates.
@@ -27,6 +28,7 @@ data class TemplateMetadata(
     val templatePath: String,
     val previewUrl: String? = null,
     val params: TemplateParams? = null,
+    val paramsSchema: List<TemplateParamDefinition> = emptyList(),
     val requiredSubscriptionTier: SubscriptionTier = SubscriptionTier.FREE
 ) {
     /**
@@ -37,6 +39,20 @@ data class TemplateMetadata(
      */
     fun isAccessibleBy(userTier: SubscriptionTier): Boolean =
         SubscriptionTier.isAtLeastAs(userTier, requiredSubscriptionTier)
+
+    /**
+     * Resolves the parameters to render the template with.
+     * Values the schema does not accept fall back to their default and unknown keys are dropped,
+     * so only declared values ever reach the template.
+     *
+     * @param values The requested parameter values, keyed by parameter key
+     * @return One value per schema parameter that has a valid value or a default
+     */
+    fun resolveParams(values: Map<String, Any?>): Map<String, Any> =
+        paramsSchema.mapNotNull { definition ->
+            val value = definition.accept(values[definition.key]) ?: definition.default
+            value?.let { definition.key to it }
+        }.toMap()
 }
 
 /**
@@ -50,3 +66,49 @@ data class TemplateParams(
     val density: String? = null,
     val customParams: Map<String, Any> = emptyMap(),
 )
+
+/**
+ * Kind of value a template parameter holds.
+ */
+enum class TemplateParamKind {
+    SELECT,
+    NUMBER,
+    TEXT,
+    BOOLEAN,
+}
+
+/**
+ * A parameter a template declares, with the values it accepts.
+ *
+ * @param key Key of the parameter (e.g. "fontFamily")
+ * @param kind Kind of value the parameter holds
+ * @param default Value used when none or an invalid one is requested
+ * @param options Allowed values of a [TemplateParamKind.SELECT] parameter
+ * @param min Lower bound of a [TemplateParamKind.NUMBER] parameter
+ * @param max Upper bound of a [TemplateParamKind.NUMBER] parameter
+ * @param step Increment of a [TemplateParamKind.NUMBER] parameter
+ */
+data class TemplateParamDefinition(
+    val key: String,
+    val kind: TemplateParamKind,
+    val default: Any? = null,
+    val options: List<String> = emptyList(),
+    val min: Double? = null,
+    val max: Double? = null,
+    val step: Double? = null,
+) {
+    /**
+     * Checks a requested value against the definition.
+     *
+     * @param value The requested value
+     * @return The value to use, clamped for numbers, or null if it is not accepted
+     */
+    fun accept(value: Any?): Any? = when (kind) {
+        TemplateParamKind.SELECT -> (value as? String)?.takeIf { it in options }
+        TemplateParamKind.NUMBER -> (value as? Number)?.toDouble()
+            ?.takeIf { it.isFinite() }
+            ?.coerceIn(min ?: Double.NEGATIVE_INFINITY, max ?: Double.POSITIVE_INFINITY)
+        TemplateParamKind.TEXT -> value as? String
+        TemplateParamKind.BOOLEAN -> value as? Boolean
+    }
+}
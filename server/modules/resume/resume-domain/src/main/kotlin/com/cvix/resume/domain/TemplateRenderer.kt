@@ -15,8 +15,14 @@ fun interface TemplateRenderer {
      * (e.g., "templates/resume/engineering/en/engineering.stg")
      * @param resume The validated resume data to render
      * @param locale The locale for template selection (e.g., "en", "es")
+     * @param params The resolved template parameters, keyed by parameter key
      * @return Complete LaTeX document source ready for compilation
      * @throws com.cvix.resume.domain.exception.TemplateRenderingException if rendering fails
      */
-    fun render(templatePath: String, resume: Resume, locale: String): String
+    fun render(
+        templatePath: String,
+        resume: Resume,
+        locale: String,
+        params: Map<String, Any> = emptyMap()
+    ): String
 }
@@ -20,3 +20,21 @@ class ResumeNotFoundException(message: String) : ResumeException(message)
  * Used to signal HTTP 403 Forbidden or 401 Unauthorized.
  */
 class ResumeAccessDeniedException(message: String) : ResumeException(message)
+
+/**
+ * Exception thrown when a share link does not exist or was unpublished.
+ * Used to signal HTTP 404 Not Found.
+ */
+class ResumeShareNotFoundException(message: String) : ResumeException(message)
+
+/**
+ * Exception thrown when a share link passed its expiry date.
+ * Used to signal HTTP 410 Gone.
+ */
+class ResumeShareExpiredException(message: String) : ResumeException(message)
+
+/**
+ * Exception thrown when a protected share is opened without its password, or with a wrong one.
+ * Used to signal HTTP 401 Unauthorized.
+ */
+class ResumeSharePasswordException(message: String) : ResumeException(message)
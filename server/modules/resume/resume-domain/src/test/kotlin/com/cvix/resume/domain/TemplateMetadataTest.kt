@@ -11,6 +11,7 @@ import org.junit.jupiter.api.Test
  * - Template accessibility based on user tier
  * - Premium template restrictions
  * - Tier comparison and filtering
+ * - Parameter resolution against the template schema
  */
 class TemplateMetadataTest {
 
@@ -148,4 +149,79 @@ class TemplateMetadataTest {
         template.isAccessibleBy(SubscriptionTier.BASIC) shouldBe true
         template.isAccessibleBy(SubscriptionTier.PROFESSIONAL) shouldBe true
     }
+
+    @Test
+    fun `should keep requested params the schema accepts`() {
+        // Given
+        val template = templateWithSchema()
+
+        // When
+        val params = template.resolveParams(
+            mapOf(
+                "colorPalette" to "green",
+                "columns" to 2,
+                "footer" to "Available for relocation",
+                "highlightSkills" to false,
+            ),
+        )
+
+        // Then
+        params shouldBe mapOf(
+            "colorPalette" to "green",
+            "columns" to 2.0,
+            "footer" to "Available for relocation",
+            "highlightSkills" to false,
+        )
+    }
+
+    @Test
+    fun `should fall back to defaults and drop params the schema does not declare`() {
+        // Given
+        val template = templateWithSchema()
+
+        // When
+        val params = template.resolveParams(
+            mapOf(
+                "colorPalette" to "\\input{/etc/passwd}",
+                "columns" to 9,
+                "highlightSkills" to "yes",
+                "unknown" to "value",
+            ),
+        )
+
+        // Then
+        params shouldBe mapOf(
+            "colorPalette" to "black",
+            "columns" to 3.0,
+            "highlightSkills" to true,
+        )
+    }
+
+    private fun templateWithSchema() = TemplateMetadata(
+        id = "template-params",
+        name = "Params Template",
+        version = "1.0",
+        templatePath = "templates/params",
+        paramsSchema = listOf(
+            TemplateParamDefinition(
+                key = "colorPalette",
+                kind = TemplateParamKind.SELECT,
+                default = "black",
+                options = listOf("black", "green"),
+            ),
+            TemplateParamDefinition(
+                key = "columns",
+                kind = TemplateParamKind.NUMBER,
+                default = 1.0,
+                min = 1.0,
+                max = 3.0,
+            ),
+            TemplateParamDefinition(key = "footer", kind = TemplateParamKind.TEXT),
+            TemplateParamDefinition(
+                key = "highlightSkills",
+                kind = TemplateParamKind.BOOLEAN,
+                default = true,
+            ),
+        ),
+    )
 }
@@ -0,0 +1,123 @@
+package com.cvix.resume.domain.model
+
+import com.cvix.UnitTest
+import com.cvix.common.domain.vo.email.Email
+import com.cvix.resume.domain.Basics
+import com.cvix.resume.domain.FullName
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.PhoneNumber
+import com.cvix.resume.domain.Resume
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.Skill
+import com.cvix.resume.domain.SkillCategory
+import com.cvix.resume.domain.SkillCategoryName
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.shouldNotBe
+import java.time.Duration
+import java.time.Instant
+import java.util.*
+import org.junit.jupiter.api.Test
+
+/**
+ * Unit tests for the ResumeShare aggregate.
+ *
+ * Tests cover:
+ * - Unguessable, URL-safe share IDs
+ * - Expiry
+ * - Password protection
+ */
+@UnitTest
+class ResumeShareTest {
+    private val now = Instant.parse("2026-05-04T12:00:00Z")
+
+    private val content = Resume(
+        basics = Basics(
+            name = FullName("John Doe"),
+            email = Email("john.doe@example.com"),
+            phone = PhoneNumber("+1234567890"),
+        ),
+        skills = listOf(
+            SkillCategory(name = SkillCategoryName("Backend"), keywords = listOf(Skill("Kotlin"))),
+        ),
+    )
+
+    private fun publish(
+        expiresAt: Instant? = null,
+        passwordHash: String? = null,
+        templateId: String? = "engineering",
+    ) = ResumeShare.publish(
+        resumeId = UUID.randomUUID(),
+        userId = UUID.randomUUID(),
+        content = content,
+        locale = Locale.EN,
+        templateId = templateId,
+        passwordHash = passwordHash,
+        expiresAt = expiresAt,
+        trackViews = true,
+        now = now,
+    )
+
+    @Test
+    fun `should generate URL-safe IDs of 192 random bits`() {
+        val id = ResumeShareId.generate()
+
+        id.value.length shouldBe 32
+        id.value.all { it.isLetterOrDigit() || it == '-' || it == '_' } shouldBe true
+    }
+
+    @Test
+    fun `should not repeat IDs`() {
+        val ids = List(1_000) { ResumeShareId.generate() }
+
+        ids.toSet().size shouldBe ids.size
+    }
+
+    @Test
+    fun `should give every publication a new ID`() {
+        publish().id shouldNotBe publish().id
+    }
+
+    @Test
+    fun `should only parse IDs it generates`() {
+        val id = ResumeShareId.generate()
+
+        ResumeShareId.fromStringOrNull(id.value) shouldBe id
+        ResumeShareId.fromStringOrNull("550e8400-e29b-41d4-a716-446655440000") shouldBe null
+        ResumeShareId.fromStringOrNull("../${id.value.drop(3)}") shouldBe null
+        shouldThrow<IllegalArgumentException> { ResumeShareId("short") }
+    }
+
+    @Test
+    fun `should never expire without an expiry date`() {
+        publish().isExpired(now.plus(Duration.ofDays(3650))) shouldBe false
+    }
+
+    @Test
+    fun `should expire once the expiry date is reached`() {
+        val expiresAt = now.plus(Duration.ofDays(7))
+        val share = publish(expiresAt = expiresAt)
+
+        share.isExpired(expiresAt.minusSeconds(1)) shouldBe false
+        share.isExpired(expiresAt) shouldBe true
+        share.isExpired(expiresAt.plusSeconds(1)) shouldBe true
+    }
+
+    @Test
+    fun `should reject an expiry date that is not in the future`() {
+        shouldThrow<IllegalArgumentException> { publish(expiresAt = now) }
+        shouldThrow<IllegalArgumentException> { publish(expiresAt = now.minusSeconds(1)) }
+    }
+
+    @Test
+    fun `should be password protected only with a password hash`() {
+        publish().passwordProtected shouldBe false
+        publish(passwordHash = "pbkdf2-sha512\$1\$salt\$hash").passwordProtected shouldBe true
+    }
+
+    @Test
+    fun `should treat a blank template as no template`() {
+        publish(templateId = " ").templateId shouldBe null
+    }
+}
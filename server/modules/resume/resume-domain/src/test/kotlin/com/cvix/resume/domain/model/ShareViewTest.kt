@@ -0,0 +1,47 @@
+package com.cvix.resume.domain.model
+
+import com.cvix.UnitTest
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.domain.ShareView
+import io.kotest.assertions.throwables.shouldThrow
+import io.kotest.matchers.shouldBe
+import java.time.Instant
+import java.util.*
+import org.junit.jupiter.api.Test
+
+/**
+ * Unit tests for ShareView and ShareDevice.
+ */
+@UnitTest
+class ShareViewTest {
+    private fun view(referrer: String?) = ShareView(
+        id = UUID.randomUUID(),
+        shareId = ResumeShareId.generate(),
+        resumeId = UUID.randomUUID(),
+        userId = UUID.randomUUID(),
+        viewedAt = Instant.now(),
+        referrer = referrer,
+        device = ShareDevice.DESKTOP,
+        pdfDownloaded = false,
+    )
+
+    @Test
+    fun `should parse the device classes sent by the share site`() {
+        ShareDevice.from("desktop") shouldBe ShareDevice.DESKTOP
+        ShareDevice.from("mobile") shouldBe ShareDevice.MOBILE
+        ShareDevice.from("tablet") shouldBe ShareDevice.TABLET
+        shouldThrow<IllegalArgumentException> { ShareDevice.from("bot") }
+    }
+
+    @Test
+    fun `should accept direct visits and host names`() {
+        view(null).referrer shouldBe null
+        view("www.linkedin.com").referrer shouldBe "www.linkedin.com"
+    }
+
+    @Test
+    fun `should reject referrers longer than a host name`() {
+        shouldThrow<IllegalArgumentException> { view("a".repeat(ShareView.MAX_REFERRER_LENGTH + 1)) }
+    }
+}
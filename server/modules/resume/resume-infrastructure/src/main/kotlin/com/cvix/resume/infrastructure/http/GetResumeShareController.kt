@@ -0,0 +1,88 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.common.domain.bus.Mediator
+import com.cvix.resume.application.share.GetResumeShareQuery
+import com.cvix.resume.application.share.ResumeShareResponse
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import com.cvix.spring.boot.ApiController
+import io.swagger.v3.oas.annotations.Operation
+import io.swagger.v3.oas.annotations.Parameter
+import io.swagger.v3.oas.annotations.enums.ParameterIn
+import io.swagger.v3.oas.annotations.media.Content
+import io.swagger.v3.oas.annotations.media.Schema
+import io.swagger.v3.oas.annotations.responses.ApiResponse
+import io.swagger.v3.oas.annotations.responses.ApiResponses
+import io.swagger.v3.oas.annotations.security.SecurityRequirement
+import io.swagger.v3.oas.annotations.tags.Tag
+import java.util.UUID
+import org.springframework.http.HttpStatus
+import org.springframework.http.ProblemDetail
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.GetMapping
+import org.springframework.web.bind.annotation.PathVariable
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RestController
+import org.springframework.web.server.ResponseStatusException
+
+/**
+ * REST controller for retrieving the public link of a resume.
+ */
+@Tag(
+    name = "Resume",
+    description = "Resume/CV document management endpoints",
+)
+@RestController
+@RequestMapping(value = ["/api"], produces = ["application/vnd.api.v1+json"])
+class GetResumeShareController(
+    mediator: Mediator,
+) : ApiController(mediator) {
+    @Operation(
+        summary = "Get the public link of a resume",
+        description = "Retrieves the current publication of a resume. " +
+            "The user must be the owner of the resume to access it.",
+        security = [SecurityRequirement(name = "bearerAuth")],
+        parameters = [
+            Parameter(
+                name = "id",
+                description = "The unique UUID of the published resume",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "550e8400-e29b-41d4-a716-446655440000",
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(
+                responseCode = "200",
+                description = "Share retrieved successfully",
+                content = [Content(schema = Schema(implementation = ResumeShareResponse::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "Unauthorized - Missing or invalid authentication token",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Resume not found or not published",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @GetMapping("/resume/{id}/share")
+    suspend fun getResumeShare(
+        @PathVariable
+        id: UUID,
+    ): ResponseEntity<ResumeShareResponse> {
+        val userId = userIdFromToken()
+
+        val query = GetResumeShareQuery(resumeId = id, userId = userId)
+
+        return try {
+            ResponseEntity.ok(ask(query))
+        } catch (e: ResumeShareNotFoundException) {
+            throw ResponseStatusException(HttpStatus.NOT_FOUND, e.message, e)
+        }
+    }
+}
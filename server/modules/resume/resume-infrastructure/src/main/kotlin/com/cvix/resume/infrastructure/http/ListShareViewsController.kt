@@ -0,0 +1,110 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.common.domain.bus.Mediator
+import com.cvix.resume.application.share.ListShareViewsQuery
+import com.cvix.resume.application.share.ShareViewResponses
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import com.cvix.spring.boot.ApiController
+import io.swagger.v3.oas.annotations.Operation
+import io.swagger.v3.oas.annotations.Parameter
+import io.swagger.v3.oas.annotations.enums.ParameterIn
+import io.swagger.v3.oas.annotations.media.Content
+import io.swagger.v3.oas.annotations.media.Schema
+import io.swagger.v3.oas.annotations.responses.ApiResponse
+import io.swagger.v3.oas.annotations.responses.ApiResponses
+import io.swagger.v3.oas.annotations.security.SecurityRequirement
+import io.swagger.v3.oas.annotations.tags.Tag
+import java.time.Instant
+import java.time.format.DateTimeParseException
+import java.util.UUID
+import org.springframework.http.HttpStatus
+import org.springframework.http.ProblemDetail
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.GetMapping
+import org.springframework.web.bind.annotation.PathVariable
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RequestParam
+import org.springframework.web.bind.annotation.RestController
+import org.springframework.web.server.ResponseStatusException
+
+/**
+ * REST controller for listing the recorded visits of a published resume.
+ */
+@Tag(
+    name = "Resume",
+    description = "Resume/CV document management endpoints",
+)
+@RestController
+@RequestMapping(value = ["/api"], produces = ["application/vnd.api.v1+json"])
+class ListShareViewsController(
+    mediator: Mediator,
+) : ApiController(mediator) {
+    @Operation(
+        summary = "List the visits of a published resume",
+        description = "Lists the visits recorded since the given date, across all publications of the resume, " +
+            "most recent first. Visits are only recorded while view tracking is on. " +
+            "The user must be the owner of the resume to access them.",
+        security = [SecurityRequirement(name = "bearerAuth")],
+        parameters = [
+            Parameter(
+                name = "id",
+                description = "The unique UUID of the resume",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "550e8400-e29b-41d4-a716-446655440000",
+            ),
+            Parameter(
+                name = "since",
+                description = "ISO-8601 UTC instant of the oldest visit to return",
+                required = true,
+                `in` = ParameterIn.QUERY,
+                example = "2025-11-19T10:30:00Z",
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(
+                responseCode = "200",
+                description = "Visits retrieved successfully",
+                content = [Content(schema = Schema(implementation = ShareViewResponses::class))],
+            ),
+            ApiResponse(
+                responseCode = "400",
+                description = "Invalid start date",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "Unauthorized - Missing or invalid authentication token",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Resume not found",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @GetMapping("/resume/{id}/share/views")
+    suspend fun listShareViews(
+        @PathVariable
+        id: UUID,
+        @RequestParam
+        since: String,
+    ): ResponseEntity<ShareViewResponses> {
+        val userId = userIdFromToken()
+
+        val start = try {
+            Instant.parse(since)
+        } catch (e: DateTimeParseException) {
+            throw ResponseStatusException(HttpStatus.BAD_REQUEST, "Invalid start date", e)
+        }
+
+        return try {
+            ResponseEntity.ok(ask(ListShareViewsQuery(resumeId = id, userId = userId, since = start)))
+        } catch (e: ResumeNotFoundException) {
+            throw ResponseStatusException(HttpStatus.NOT_FOUND, e.message, e)
+        }
+    }
+}
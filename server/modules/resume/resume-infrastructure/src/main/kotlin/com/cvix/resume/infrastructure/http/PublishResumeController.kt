@@ -0,0 +1,129 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.common.domain.bus.Mediator
+import com.cvix.resume.application.share.PublishResumeCommand
+import com.cvix.resume.application.share.ResumeShareResponse
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import com.cvix.resume.infrastructure.http.mapper.ResumeRequestMapper
+import com.cvix.resume.infrastructure.http.request.PublishResumeRequest
+import com.cvix.spring.boot.ApiController
+import io.swagger.v3.oas.annotations.Operation
+import io.swagger.v3.oas.annotations.Parameter
+import io.swagger.v3.oas.annotations.enums.ParameterIn
+import io.swagger.v3.oas.annotations.media.Content
+import io.swagger.v3.oas.annotations.media.Schema
+import io.swagger.v3.oas.annotations.responses.ApiResponse
+import io.swagger.v3.oas.annotations.responses.ApiResponses
+import io.swagger.v3.oas.annotations.security.SecurityRequirement
+import io.swagger.v3.oas.annotations.tags.Tag
+import jakarta.validation.Valid
+import java.time.Instant
+import java.time.format.DateTimeParseException
+import java.util.UUID
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ProblemDetail
+import org.springframework.http.ResponseEntity
+import org.springframework.validation.annotation.Validated
+import org.springframework.web.bind.annotation.PathVariable
+import org.springframework.web.bind.annotation.PutMapping
+import org.springframework.web.bind.annotation.RequestBody
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RestController
+import org.springframework.web.server.ResponseStatusException
+
+/**
+ * REST controller for publishing resumes to public links.
+ */
+@Tag(
+    name = "Resume",
+    description = "Resume/CV document management endpoints",
+)
+@RestController
+@RequestMapping(value = ["/api"], produces = ["application/vnd.api.v1+json"])
+class PublishResumeController(
+    mediator: Mediator,
+) : ApiController(mediator) {
+    @Operation(
+        summary = "Publish a resume to a public link",
+        description = "Publishes the given section-filtered content under a new unguessable URL, " +
+            "optionally with an expiry date and a password. Replaces the previous publication, " +
+            "so links shared earlier stop working.",
+        security = [SecurityRequirement(name = "bearerAuth")],
+        parameters = [
+            Parameter(
+                name = "id",
+                description = "The unique UUID of the resume to publish",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "550e8400-e29b-41d4-a716-446655440000",
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(
+                responseCode = "200",
+                description = "Resume published successfully",
+                content = [Content(schema = Schema(implementation = ResumeShareResponse::class))],
+            ),
+            ApiResponse(
+                responseCode = "400",
+                description = "Invalid content, expiry date in the past or unsupported locale",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "Unauthorized - Missing or invalid authentication token",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Resume not found",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @PutMapping("/resume/{id}/share")
+    suspend fun publishResume(
+        @PathVariable
+        id: UUID,
+        @Valid @Validated @RequestBody
+        request: PublishResumeRequest,
+    ): ResponseEntity<ResumeShareResponse> {
+        val userId = userIdFromToken()
+
+        val command = try {
+            PublishResumeCommand(
+                resumeId = id,
+                userId = userId,
+                content = ResumeRequestMapper.toDomain(request.content),
+                expiresAt = request.expiresAt?.let { Instant.parse(it) },
+                password = request.password,
+                templateId = request.templateId,
+                // Use only the primary language subtag (e.g., "en" from "en-US") to match template names
+                locale = Locale.from(request.locale.split("-").first().lowercase()),
+                trackViews = request.trackViews,
+            )
+        } catch (e: DateTimeParseException) {
+            throw ResponseStatusException(HttpStatus.BAD_REQUEST, "Invalid expiry date", e)
+        } catch (e: IllegalArgumentException) {
+            throw ResponseStatusException(HttpStatus.BAD_REQUEST, e.message, e)
+        }
+
+        return try {
+            val share = dispatch(command)
+            log.debug("Published resume {}", id)
+            ResponseEntity.ok(share)
+        } catch (e: ResumeNotFoundException) {
+            throw ResponseStatusException(HttpStatus.NOT_FOUND, e.message, e)
+        } catch (e: IllegalArgumentException) {
+            throw ResponseStatusException(HttpStatus.BAD_REQUEST, e.message, e)
+        }
+    }
+
+    companion object {
+        private val log = LoggerFactory.getLogger(PublishResumeController::class.java)
+    }
+}
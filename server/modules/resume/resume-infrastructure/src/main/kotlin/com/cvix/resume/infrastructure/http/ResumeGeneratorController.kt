@@ -182,6 +182,7 @@ class ResumeGeneratorController(
             resume = resumeData,
             userId = userId,
             locale = locale,
+            params = request.params.orEmpty(),
         )
 
         // Track generation time
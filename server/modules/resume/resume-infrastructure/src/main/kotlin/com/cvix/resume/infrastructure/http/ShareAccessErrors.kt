@@ -0,0 +1,22 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import org.springframework.http.HttpStatus
+import org.springframework.web.server.ResponseStatusException
+
+/**
+ * Runs a public share operation, mapping the errors of opening a share to their
+ * HTTP status: 404 for unknown shares, 410 for expired ones and 401 for a missing
+ * or wrong password.
+ */
+internal suspend fun <T> withShareAccess(block: suspend () -> T): T = try {
+    block()
+} catch (e: ResumeShareNotFoundException) {
+    throw ResponseStatusException(HttpStatus.NOT_FOUND, e.message, e)
+} catch (e: ResumeShareExpiredException) {
+    throw ResponseStatusException(HttpStatus.GONE, e.message, e)
+} catch (e: ResumeSharePasswordException) {
+    throw ResponseStatusException(HttpStatus.UNAUTHORIZED, e.message, e)
+}
@@ -0,0 +1,199 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.common.domain.bus.Mediator
+import com.cvix.resume.application.share.MarkSharePdfDownloadedCommand
+import com.cvix.resume.application.share.RecordShareViewCommand
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.infrastructure.http.SharedResumeController.Companion.SHARE_PASSWORD_HEADER
+import com.cvix.resume.infrastructure.http.request.RecordShareViewRequest
+import com.cvix.resume.infrastructure.http.request.UpdateShareViewRequest
+import com.cvix.spring.boot.ApiController
+import io.swagger.v3.oas.annotations.Operation
+import io.swagger.v3.oas.annotations.Parameter
+import io.swagger.v3.oas.annotations.enums.ParameterIn
+import io.swagger.v3.oas.annotations.media.Content
+import io.swagger.v3.oas.annotations.media.Schema
+import io.swagger.v3.oas.annotations.responses.ApiResponse
+import io.swagger.v3.oas.annotations.responses.ApiResponses
+import io.swagger.v3.oas.annotations.tags.Tag
+import jakarta.validation.Valid
+import java.util.UUID
+import org.springframework.http.HttpStatus
+import org.springframework.http.ProblemDetail
+import org.springframework.http.ResponseEntity
+import org.springframework.validation.annotation.Validated
+import org.springframework.web.bind.annotation.PatchMapping
+import org.springframework.web.bind.annotation.PathVariable
+import org.springframework.web.bind.annotation.PutMapping
+import org.springframework.web.bind.annotation.RequestBody
+import org.springframework.web.bind.annotation.RequestHeader
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RestController
+import org.springframework.web.server.ResponseStatusException
+
+/**
+ * Public REST controller recording the visits of published resumes.
+ *
+ * Called by the share site on behalf of anonymous visitors, with the same password
+ * as the page itself. Visits of shares whose owner turned off view tracking are
+ * accepted and dropped, so the share site does not need to know the setting.
+ */
+@Tag(
+    name = "Resume",
+    description = "Resume/CV document management endpoints",
+)
+@RestController
+@RequestMapping(value = ["/api/public"], produces = ["application/vnd.api.v1+json"])
+class ShareViewController(
+    mediator: Mediator,
+) : ApiController(mediator) {
+    @Operation(
+        summary = "Record a visit of a published resume",
+        description = "Records a visit under the ID generated by the share site. " +
+            "Recording the same visit again has no effect.",
+        security = [],
+        parameters = [
+            Parameter(
+                name = "shareId",
+                description = "The public identifier of the share",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh",
+            ),
+            Parameter(
+                name = "viewId",
+                description = "The UUID of the visit",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "550e8400-e29b-41d4-a716-446655440000",
+            ),
+            Parameter(
+                name = SHARE_PASSWORD_HEADER,
+                description = "Password of protected shares",
+                required = false,
+                `in` = ParameterIn.HEADER,
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(responseCode = "204", description = "Visit recorded, or dropped when tracking is off"),
+            ApiResponse(
+                responseCode = "400",
+                description = "Invalid visit ID, device class or referrer",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "The share is protected and the password is missing or wrong",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Share not found or unpublished",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "410",
+                description = "Share expired",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @PutMapping("/resume-shares/{shareId}/views/{viewId}")
+    suspend fun recordView(
+        @PathVariable
+        shareId: String,
+        @PathVariable
+        viewId: UUID,
+        @RequestHeader(name = SHARE_PASSWORD_HEADER, required = false)
+        password: String?,
+        @Valid @Validated @RequestBody
+        request: RecordShareViewRequest,
+    ): ResponseEntity<Void> {
+        val command = try {
+            RecordShareViewCommand(
+                shareId = shareId,
+                viewId = viewId,
+                password = password,
+                referrer = request.referrer,
+                device = ShareDevice.from(request.device),
+                pdfDownloaded = request.pdfDownloaded,
+            )
+        } catch (e: IllegalArgumentException) {
+            throw ResponseStatusException(HttpStatus.BAD_REQUEST, e.message, e)
+        }
+        withShareAccess { dispatch(command) }
+        return ResponseEntity.noContent().build()
+    }
+
+    @Operation(
+        summary = "Record the PDF download of a visit",
+        description = "Marks a recorded visit as having downloaded the PDF. Unknown visits are ignored.",
+        security = [],
+        parameters = [
+            Parameter(
+                name = "shareId",
+                description = "The public identifier of the share",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh",
+            ),
+            Parameter(
+                name = "viewId",
+                description = "The UUID of the visit",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "550e8400-e29b-41d4-a716-446655440000",
+            ),
+            Parameter(
+                name = SHARE_PASSWORD_HEADER,
+                description = "Password of protected shares",
+                required = false,
+                `in` = ParameterIn.HEADER,
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(responseCode = "204", description = "Download recorded, or dropped when tracking is off"),
+            ApiResponse(
+                responseCode = "400",
+                description = "Invalid visit ID or update",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "The share is protected and the password is missing or wrong",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Share not found or unpublished",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "410",
+                description = "Share expired",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @PatchMapping("/resume-shares/{shareId}/views/{viewId}")
+    suspend fun updateView(
+        @PathVariable
+        shareId: String,
+        @PathVariable
+        viewId: UUID,
+        @RequestHeader(name = SHARE_PASSWORD_HEADER, required = false)
+        password: String?,
+        @Valid @Validated @RequestBody
+        @Suppress("UnusedParameter")
+        request: UpdateShareViewRequest,
+    ): ResponseEntity<Void> {
+        withShareAccess {
+            dispatch(MarkSharePdfDownloadedCommand(shareId = shareId, viewId = viewId, password = password))
+        }
+        return ResponseEntity.noContent().build()
+    }
+}
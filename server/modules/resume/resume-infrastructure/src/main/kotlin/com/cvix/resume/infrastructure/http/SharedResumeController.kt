@@ -0,0 +1,174 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.common.domain.bus.Mediator
+import com.cvix.resume.application.share.GenerateSharedResumeCommand
+import com.cvix.resume.application.share.GetSharedResumeQuery
+import com.cvix.resume.application.share.SharedResumeResponse
+import com.cvix.spring.boot.ApiController
+import io.swagger.v3.oas.annotations.Operation
+import io.swagger.v3.oas.annotations.Parameter
+import io.swagger.v3.oas.annotations.enums.ParameterIn
+import io.swagger.v3.oas.annotations.media.Content
+import io.swagger.v3.oas.annotations.media.Schema
+import io.swagger.v3.oas.annotations.responses.ApiResponse
+import io.swagger.v3.oas.annotations.responses.ApiResponses
+import io.swagger.v3.oas.annotations.tags.Tag
+import java.io.InputStream
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.withContext
+import org.springframework.http.CacheControl
+import org.springframework.http.HttpHeaders
+import org.springframework.http.MediaType
+import org.springframework.http.ProblemDetail
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.GetMapping
+import org.springframework.web.bind.annotation.PathVariable
+import org.springframework.web.bind.annotation.RequestHeader
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RestController
+
+/**
+ * Public REST controller serving published resumes to anonymous visitors.
+ *
+ * Protected shares take their password from the `X-Share-Password` header, so it
+ * never appears in URLs or access logs. Responses are not cached, since a shared
+ * resume can be unpublished or protected at any time.
+ */
+@Tag(
+    name = "Resume",
+    description = "Resume/CV document management endpoints",
+)
+@RestController
+@RequestMapping(value = ["/api/public"], produces = ["application/vnd.api.v1+json"])
+class SharedResumeController(
+    mediator: Mediator,
+) : ApiController(mediator) {
+    @Operation(
+        summary = "Get a published resume",
+        description = "Retrieves the section-filtered content of a published resume from its public link. " +
+            "No authentication is required; protected links require their password.",
+        security = [],
+        parameters = [
+            Parameter(
+                name = "shareId",
+                description = "The public identifier of the share",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh",
+            ),
+            Parameter(
+                name = SHARE_PASSWORD_HEADER,
+                description = "Password of protected shares",
+                required = false,
+                `in` = ParameterIn.HEADER,
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(
+                responseCode = "200",
+                description = "Published resume retrieved successfully",
+                content = [Content(schema = Schema(implementation = SharedResumeResponse::class))],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "The share is protected and the password is missing or wrong",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Share not found or unpublished",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "410",
+                description = "Share expired",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @GetMapping("/resume-shares/{shareId}")
+    suspend fun getSharedResume(
+        @PathVariable
+        shareId: String,
+        @RequestHeader(name = SHARE_PASSWORD_HEADER, required = false)
+        password: String?,
+    ): ResponseEntity<SharedResumeResponse> {
+        val share = withShareAccess { ask(GetSharedResumeQuery(shareId = shareId, password = password)) }
+        return ResponseEntity.ok()
+            .cacheControl(CacheControl.noStore())
+            .body(share)
+    }
+
+    @Operation(
+        summary = "Download the PDF of a published resume",
+        description = "Renders a published resume as PDF with the template chosen when publishing. " +
+            "No authentication is required; protected links require their password.",
+        security = [],
+        parameters = [
+            Parameter(
+                name = "shareId",
+                description = "The public identifier of the share",
+                required = true,
+                `in` = ParameterIn.PATH,
+                example = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh",
+            ),
+            Parameter(
+                name = SHARE_PASSWORD_HEADER,
+                description = "Password of protected shares",
+                required = false,
+                `in` = ParameterIn.HEADER,
+            ),
+        ],
+    )
+    @ApiResponses(
+        value = [
+            ApiResponse(
+                responseCode = "200",
+                description = "Resume PDF generated successfully",
+                content = [Content(mediaType = "application/pdf")],
+            ),
+            ApiResponse(
+                responseCode = "401",
+                description = "The share is protected and the password is missing or wrong",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "404",
+                description = "Share not found or unpublished",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+            ApiResponse(
+                responseCode = "410",
+                description = "Share expired",
+                content = [Content(schema = Schema(implementation = ProblemDetail::class))],
+            ),
+        ],
+    )
+    @GetMapping("/resume-shares/{shareId}/pdf", produces = ["application/pdf"])
+    suspend fun downloadSharedResume(
+        @PathVariable
+        shareId: String,
+        @RequestHeader(name = SHARE_PASSWORD_HEADER, required = false)
+        password: String?,
+    ): ResponseEntity<ByteArray> {
+        val inputStream: InputStream = withShareAccess {
+            dispatch(GenerateSharedResumeCommand(shareId = shareId, password = password))
+        }
+        val pdfBytes = withContext(Dispatchers.IO) {
+            inputStream.use { it.readBytes() }
+        }
+        return ResponseEntity.ok()
+            .contentType(MediaType.APPLICATION_PDF)
+            .contentLength(pdfBytes.size.toLong())
+            .cacheControl(CacheControl.noStore())
+            .header(HttpHeaders.CONTENT_DISPOSITION, "attachment; filename=\"resume.pdf\"")
+            .body(pdfBytes)
+    }
+
+    companion object {
+        /** Header carrying the password of protected shares. */
+        const val SHARE_PASSWORD_HEADER = "X-Share-Password"
+    }
+}
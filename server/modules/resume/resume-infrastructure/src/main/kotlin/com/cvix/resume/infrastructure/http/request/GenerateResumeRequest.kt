@@ -20,6 +20,8 @@ import jakarta.validation.constraints.NotBlank
  * DTO for resume generation request following JSON Resume schema.
  * Schema reference: https://jsonresume.org/schema/
  * Per FR-001: Must have at least one of work, education, or skills.
+ * Optional `params` customize the template (e.g. colorPalette, fontFamily); values the
+ * template does not declare are ignored.
  */
 @ValidResumeContent
 data class GenerateResumeRequest(
@@ -60,5 +62,7 @@ data class GenerateResumeRequest(
     override val references: List<ReferenceDto>? = null,
 
     @field:Valid
-    override val projects: List<ProjectDto>? = null
+    override val projects: List<ProjectDto>? = null,
+
+    val params: Map<String, Any?>? = null
 ) : ResumeDataDto
@@ -0,0 +1,36 @@
+package com.cvix.resume.infrastructure.http.request
+
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.NotNull
+import jakarta.validation.constraints.Size
+
+/**
+ * Request DTO for publishing a resume to a public link.
+ *
+ * The content is sent by the client already stripped of the sections the owner
+ * chose to hide; it is published as is, independently of the stored resume.
+ */
+data class PublishResumeRequest(
+    @field:NotNull(message = "Resume content is required")
+    @field:Valid
+    val content: ResumeContentRequest,
+
+    /**
+     * When the link stops working, or null for a link that does not expire.
+     * Format: ISO-8601 UTC instant (e.g., "2025-11-19T10:30:00Z").
+     * Must be parsed to java.time.Instant at the boundary.
+     */
+    val expiresAt: String? = null,
+
+    @field:Size(min = 8, max = 128, message = "Password must be between 8 and 128 characters")
+    val password: String? = null,
+
+    @field:Size(max = 100, message = "Template ID must not exceed 100 characters")
+    val templateId: String? = null,
+
+    @field:NotBlank(message = "Locale is required")
+    val locale: String = "en",
+
+    val trackViews: Boolean = true,
+)
@@ -0,0 +1,24 @@
+package com.cvix.resume.infrastructure.http.request
+
+import com.cvix.resume.domain.ShareView
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+
+/**
+ * Request DTO for recording a visit of a published resume.
+ *
+ * Sent by the share site, which reduces the visitor's request to a coarse
+ * device class and the referrer host before calling the API.
+ */
+data class RecordShareViewRequest(
+    @field:Size(
+        max = ShareView.MAX_REFERRER_LENGTH,
+        message = "Referrer must not exceed ${ShareView.MAX_REFERRER_LENGTH} characters",
+    )
+    val referrer: String? = null,
+
+    @field:NotBlank(message = "Device is required")
+    val device: String,
+
+    val pdfDownloaded: Boolean = false,
+)
@@ -0,0 +1,12 @@
+package com.cvix.resume.infrastructure.http.request
+
+import jakarta.validation.constraints.AssertTrue
+
+/**
+ * Request DTO for updating a recorded visit of a published resume.
+ * A visit can only be marked as having downloaded the PDF.
+ */
+data class UpdateShareViewRequest(
+    @field:AssertTrue(message = "Only PDF downloads can be recorded")
+    val pdfDownloaded: Boolean,
+)
@@ -0,0 +1,66 @@
+package com.cvix.resume.infrastructure.persistence
+
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ResumeShareRepository
+import com.cvix.resume.infrastructure.persistence.mapper.ResumeShareMapper.toDomain
+import com.cvix.resume.infrastructure.persistence.mapper.ResumeShareMapper.toEntity
+import com.cvix.resume.infrastructure.persistence.repository.ResumeShareReactiveR2dbcRepository
+import java.util.UUID
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Repository
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * R2DBC implementation of ResumeShareRepository using PostgreSQL JSONB.
+ *
+ * The table has no row-level security: anonymous visitors read shares by their
+ * unguessable ID, outside any workspace. Owner operations filter by user ID instead.
+ */
+@Repository
+class ResumeShareR2dbcRepository(
+    private val resumeShareReactiveR2dbcRepository: ResumeShareReactiveR2dbcRepository,
+) : ResumeShareRepository {
+    /**
+     * Saves a share, replacing the current share of the same resume.
+     * @param share The share to save
+     * @return The saved share
+     */
+    @Transactional("connectionFactoryTransactionManager")
+    override suspend fun save(share: ResumeShare): ResumeShare {
+        log.debug("Saving resume share for resumeId: {}, userId: {}", share.resumeId, share.userId)
+        resumeShareReactiveR2dbcRepository.deleteByResumeIdAndUserId(share.resumeId, share.userId)
+        resumeShareReactiveR2dbcRepository.save(share.toEntity())
+        return share
+    }
+
+    /**
+     * Finds a share by its public ID.
+     * @param id The share ID
+     * @return The share if found, null otherwise
+     */
+    override suspend fun findById(id: ResumeShareId): ResumeShare? =
+        resumeShareReactiveR2dbcRepository.findById(id.value)?.toDomain()
+
+    /**
+     * Finds the current share of a resume.
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID (for authorization)
+     * @return The share if found and authorized, null otherwise
+     */
+    override suspend fun findByResumeId(resumeId: UUID, userId: UUID): ResumeShare? =
+        resumeShareReactiveR2dbcRepository.findByResumeIdAndUserId(resumeId, userId)?.toDomain()
+
+    /**
+     * Deletes the share of a resume (authorization enforced).
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID
+     * @return The number of rows affected (0 if not published or unauthorized)
+     */
+    override suspend fun deleteByResumeId(resumeId: UUID, userId: UUID): Long =
+        resumeShareReactiveR2dbcRepository.deleteByResumeIdAndUserId(resumeId, userId)
+
+    companion object {
+        private val log = LoggerFactory.getLogger(ResumeShareR2dbcRepository::class.java)
+    }
+}
@@ -0,0 +1,54 @@
+package com.cvix.resume.infrastructure.persistence
+
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ShareView
+import com.cvix.resume.domain.ShareViewRepository
+import com.cvix.resume.infrastructure.persistence.mapper.ShareViewMapper.toDomain
+import com.cvix.resume.infrastructure.persistence.mapper.ShareViewMapper.toEntity
+import com.cvix.resume.infrastructure.persistence.repository.ShareViewReactiveR2dbcRepository
+import java.time.Instant
+import java.util.UUID
+import kotlinx.coroutines.flow.map
+import kotlinx.coroutines.flow.toList
+import org.springframework.stereotype.Repository
+
+/**
+ * R2DBC implementation of ShareViewRepository.
+ *
+ * Like resume shares, the table has no row-level security: visits are recorded on
+ * behalf of anonymous visitors. Owner reads filter by user ID instead.
+ */
+@Repository
+class ShareViewR2dbcRepository(
+    private val shareViewReactiveR2dbcRepository: ShareViewReactiveR2dbcRepository,
+) : ShareViewRepository {
+    /**
+     * Records a visit, ignoring visits already recorded.
+     * @param view The visit to record
+     */
+    override suspend fun record(view: ShareView) {
+        shareViewReactiveR2dbcRepository.insertIgnoreConflict(view.toEntity())
+    }
+
+    /**
+     * Marks a visit as having downloaded the PDF.
+     * @param id The visit ID
+     * @param shareId The share the visit belongs to
+     * @return The number of rows affected (0 if the visit is unknown or the driver does not report it)
+     */
+    override suspend fun markPdfDownloaded(id: UUID, shareId: ResumeShareId): Long =
+        shareViewReactiveR2dbcRepository.markPdfDownloaded(id, shareId.value)?.toLong() ?: 0L
+
+    /**
+     * Lists the visits of a resume (authorization enforced).
+     * @param resumeId The resume ID
+     * @param userId The authenticated user ID
+     * @param since Oldest visit to return
+     * @return The visits, most recent first
+     */
+    override suspend fun findByResumeId(resumeId: UUID, userId: UUID, since: Instant): List<ShareView> =
+        shareViewReactiveR2dbcRepository
+            .findByResumeIdAndUserIdAndViewedAtGreaterThanEqualOrderByViewedAtDesc(resumeId, userId, since)
+            .map { it.toDomain() }
+            .toList()
+}
@@ -0,0 +1,67 @@
+package com.cvix.resume.infrastructure.persistence.entity
+
+import io.r2dbc.postgresql.codec.Json
+import java.io.Serializable
+import java.time.Instant
+import java.util.UUID
+import org.springframework.data.annotation.Id
+import org.springframework.data.domain.Persistable
+import org.springframework.data.relational.core.mapping.Column
+import org.springframework.data.relational.core.mapping.Table
+
+/**
+ * Database entity for ResumeShare persistence.
+ * Maps to the 'resume_shares' table in PostgreSQL.
+ * Stores the published resume content as JSONB text.
+ */
+@Table("resume_shares")
+data class ResumeShareEntity(
+    @Id
+    @JvmField
+    val id: String,
+
+    @Column("resume_id")
+    val resumeId: UUID,
+
+    @Column("user_id")
+    val userId: UUID,
+
+    @Column("data")
+    val data: Json, // JSONB column
+
+    @Column("locale")
+    val locale: String,
+
+    @Column("template_id")
+    val templateId: String?,
+
+    @Column("password_hash")
+    val passwordHash: String?,
+
+    @Column("expires_at")
+    val expiresAt: Instant?,
+
+    @Column("track_views")
+    val trackViews: Boolean,
+
+    @Column("created_at")
+    val createdAt: Instant,
+) : Serializable, Persistable<String> {
+    /**
+     * This method returns the public identifier of the share.
+     *
+     * @return The public identifier of the share.
+     */
+    override fun getId(): String = id
+
+    /**
+     * Shares are never updated: publishing again inserts a share under a new ID.
+     *
+     * @return Always true, so saving inserts the share.
+     */
+    override fun isNew(): Boolean = true
+
+    companion object {
+        private const val serialVersionUID: Long = 1L
+    }
+}
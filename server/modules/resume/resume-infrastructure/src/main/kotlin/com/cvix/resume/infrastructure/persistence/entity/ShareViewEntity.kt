@@ -0,0 +1,44 @@
+package com.cvix.resume.infrastructure.persistence.entity
+
+import java.io.Serializable
+import java.time.Instant
+import java.util.UUID
+import org.springframework.data.annotation.Id
+import org.springframework.data.relational.core.mapping.Column
+import org.springframework.data.relational.core.mapping.Table
+
+/**
+ * Database entity for ShareView persistence.
+ * Maps to the 'share_views' table in PostgreSQL.
+ * Visits are inserted through ShareViewReactiveR2dbcRepository.insertIgnoreConflict.
+ */
+@Table("share_views")
+data class ShareViewEntity(
+    @Id
+    val id: UUID,
+
+    @Column("share_id")
+    val shareId: String,
+
+    @Column("resume_id")
+    val resumeId: UUID,
+
+    @Column("user_id")
+    val userId: UUID,
+
+    @Column("viewed_at")
+    val viewedAt: Instant,
+
+    @Column("referrer")
+    val referrer: String?,
+
+    @Column("device")
+    val device: String,
+
+    @Column("pdf_downloaded")
+    val pdfDownloaded: Boolean,
+) : Serializable {
+    companion object {
+        private const val serialVersionUID: Long = 1L
+    }
+}
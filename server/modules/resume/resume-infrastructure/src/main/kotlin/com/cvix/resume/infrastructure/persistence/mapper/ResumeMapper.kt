@@ -50,7 +50,7 @@ object ResumeMapper {
      * Deserializes the JSONB data field into Resume and wraps it with metadata.
      */
     fun ResumeEntity.toDomain(): ResumeDocument {
-        val resumeContent: Resume = jsonMapper.readValue(data.asString(), Resume::class.java)
+        val resumeContent: Resume = data.toResume()
         return ResumeDocument(
             id = ResumeDocumentId(id),
             userId = userId,
@@ -82,6 +82,11 @@ object ResumeMapper {
         )
     }
 
+    /**
+     * Converts a JSONB column back to Resume (pure content).
+     */
+    fun Json.toResume(): Resume = jsonMapper.readValue(asString(), Resume::class.java)
+
     /**
      * Converts Resume (pure content) to Json type for JSONB storage.
      */
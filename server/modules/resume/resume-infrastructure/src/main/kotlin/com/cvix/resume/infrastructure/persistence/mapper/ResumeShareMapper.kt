@@ -0,0 +1,46 @@
+package com.cvix.resume.infrastructure.persistence.mapper
+
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.ResumeShare
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.infrastructure.persistence.entity.ResumeShareEntity
+import com.cvix.resume.infrastructure.persistence.mapper.ResumeMapper.toJson
+import com.cvix.resume.infrastructure.persistence.mapper.ResumeMapper.toResume
+
+/**
+ * Mapper between the ResumeShare aggregate and its persistence entity.
+ * The published content is stored as JSONB, the same way as resume documents.
+ */
+object ResumeShareMapper {
+    /**
+     * Converts ResumeShareEntity (infrastructure) to ResumeShare (domain).
+     */
+    fun ResumeShareEntity.toDomain(): ResumeShare = ResumeShare(
+        id = ResumeShareId(id),
+        resumeId = resumeId,
+        userId = userId,
+        content = data.toResume(),
+        locale = Locale.from(locale),
+        templateId = templateId,
+        passwordHash = passwordHash,
+        expiresAt = expiresAt,
+        trackViews = trackViews,
+        createdAt = createdAt,
+    )
+
+    /**
+     * Converts ResumeShare (domain) to ResumeShareEntity (infrastructure).
+     */
+    fun ResumeShare.toEntity(): ResumeShareEntity = ResumeShareEntity(
+        id = id.value,
+        resumeId = resumeId,
+        userId = userId,
+        data = content.toJson(),
+        locale = locale.code,
+        templateId = templateId,
+        passwordHash = passwordHash,
+        expiresAt = expiresAt,
+        trackViews = trackViews,
+        createdAt = createdAt,
+    )
+}
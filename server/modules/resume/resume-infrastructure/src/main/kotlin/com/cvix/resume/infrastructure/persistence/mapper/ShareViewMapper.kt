@@ -0,0 +1,39 @@
+package com.cvix.resume.infrastructure.persistence.mapper
+
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.domain.ShareView
+import com.cvix.resume.infrastructure.persistence.entity.ShareViewEntity
+
+/**
+ * Mapper between ShareView and its persistence entity.
+ */
+object ShareViewMapper {
+    /**
+     * Converts ShareViewEntity (infrastructure) to ShareView (domain).
+     */
+    fun ShareViewEntity.toDomain(): ShareView = ShareView(
+        id = id,
+        shareId = ResumeShareId(shareId),
+        resumeId = resumeId,
+        userId = userId,
+        viewedAt = viewedAt,
+        referrer = referrer,
+        device = ShareDevice.from(device),
+        pdfDownloaded = pdfDownloaded,
+    )
+
+    /**
+     * Converts ShareView (domain) to ShareViewEntity (infrastructure).
+     */
+    fun ShareView.toEntity(): ShareViewEntity = ShareViewEntity(
+        id = id,
+        shareId = shareId.value,
+        resumeId = resumeId,
+        userId = userId,
+        viewedAt = viewedAt,
+        referrer = referrer,
+        device = device.code,
+        pdfDownloaded = pdfDownloaded,
+    )
+}
@@ -0,0 +1,23 @@
+package com.cvix.resume.infrastructure.persistence.repository
+
+import com.cvix.resume.infrastructure.persistence.entity.ResumeShareEntity
+import java.util.UUID
+import org.springframework.data.repository.kotlin.CoroutineCrudRepository
+import org.springframework.stereotype.Repository
+
+/**
+ * Spring Data R2DBC repository for ResumeShare persistence.
+ * Provides reactive CRUD operations with coroutine support.
+ */
+@Repository
+interface ResumeShareReactiveR2dbcRepository : CoroutineCrudRepository<ResumeShareEntity, String> {
+    /**
+     * Finds the share of a resume by resume ID and user ID (for authorization).
+     */
+    suspend fun findByResumeIdAndUserId(resumeId: UUID, userId: UUID): ResumeShareEntity?
+
+    /**
+     * Deletes the share of a resume by resume ID and user ID (for authorization).
+     */
+    suspend fun deleteByResumeIdAndUserId(resumeId: UUID, userId: UUID): Long
+}
@@ -0,0 +1,50 @@
+package com.cvix.resume.infrastructure.persistence.repository
+
+import com.cvix.resume.infrastructure.persistence.entity.ShareViewEntity
+import java.time.Instant
+import java.util.UUID
+import kotlinx.coroutines.flow.Flow
+import org.springframework.data.r2dbc.repository.Modifying
+import org.springframework.data.r2dbc.repository.Query
+import org.springframework.data.repository.kotlin.CoroutineCrudRepository
+import org.springframework.stereotype.Repository
+
+/**
+ * Spring Data R2DBC repository for ShareView persistence.
+ * Provides reactive CRUD operations with coroutine support.
+ */
+@Repository
+interface ShareViewReactiveR2dbcRepository : CoroutineCrudRepository<ShareViewEntity, UUID> {
+    /**
+     * Inserts a visit, doing nothing if a visit with the same ID was already recorded.
+     */
+    @Query(
+        """
+        INSERT INTO share_views (id, share_id, resume_id, user_id, viewed_at, referrer, device, pdf_downloaded)
+        VALUES (:#{#entity.id}, :#{#entity.shareId}, :#{#entity.resumeId}, :#{#entity.userId},
+                :#{#entity.viewedAt}, :#{#entity.referrer}, :#{#entity.device}, :#{#entity.pdfDownloaded})
+        ON CONFLICT (id) DO NOTHING
+        """,
+    )
+    @Modifying
+    suspend fun insertIgnoreConflict(entity: ShareViewEntity)
+
+    /**
+     * Marks a visit of a share as having downloaded the PDF.
+     *
+     * Returns the number of rows affected. Note: Some versions of Spring Data R2DBC return null
+     * for custom @Query DML operations due to a known driver limitation.
+     */
+    @Query("UPDATE share_views SET pdf_downloaded = TRUE WHERE id = :id AND share_id = :shareId")
+    @Modifying
+    suspend fun markPdfDownloaded(id: UUID, shareId: String): Int?
+
+    /**
+     * Finds the visits of a resume by resume ID and user ID (for authorization), most recent first.
+     */
+    fun findByResumeIdAndUserIdAndViewedAtGreaterThanEqualOrderByViewedAtDesc(
+        resumeId: UUID,
+        userId: UUID,
+        since: Instant,
+    ): Flow<ShareViewEntity>
+}
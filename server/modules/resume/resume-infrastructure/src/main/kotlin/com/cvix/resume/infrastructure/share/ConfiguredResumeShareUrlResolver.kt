@@ -0,0 +1,17 @@
+package com.cvix.resume.infrastructure.share
+
+import com.cvix.resume.domain.ResumeShareId
+import com.cvix.resume.domain.ResumeShareUrlResolver
+import org.springframework.boot.context.properties.EnableConfigurationProperties
+import org.springframework.stereotype.Component
+
+/**
+ * Resolves share URLs against the configured address of the share site.
+ */
+@Component
+@EnableConfigurationProperties(ResumeShareProperties::class)
+class ConfiguredResumeShareUrlResolver(
+    private val properties: ResumeShareProperties,
+) : ResumeShareUrlResolver {
+    override fun urlOf(id: ResumeShareId): String = "${properties.baseUrl.trimEnd('/')}/$id"
+}
@@ -0,0 +1,69 @@
+package com.cvix.resume.infrastructure.share
+
+import com.cvix.resume.domain.SharePasswordHasher
+import java.security.MessageDigest
+import java.security.SecureRandom
+import java.util.Base64
+import javax.crypto.SecretKeyFactory
+import javax.crypto.spec.PBEKeySpec
+import org.springframework.stereotype.Component
+
+/**
+ * PBKDF2 implementation of [SharePasswordHasher].
+ *
+ * Hashes are encoded as `pbkdf2-sha512$<iterations>$<salt>$<hash>`, so the work
+ * factor can be raised later without invalidating the passwords already stored.
+ */
+@Component
+class Pbkdf2SharePasswordHasher : SharePasswordHasher {
+    private val random = SecureRandom()
+
+    override fun hash(password: String): String {
+        val salt = ByteArray(SALT_BYTES).also { random.nextBytes(it) }
+        val hash = derive(password, salt, ITERATIONS)
+        return listOf(
+            ALGORITHM_ID,
+            ITERATIONS.toString(),
+            encoder.encodeToString(salt),
+            encoder.encodeToString(hash),
+        ).joinToString(SEPARATOR)
+    }
+
+    override fun matches(password: String, hash: String): Boolean {
+        val parts = hash.split(SEPARATOR)
+        if (parts.size != PARTS || parts[0] != ALGORITHM_ID) return false
+        val iterations = parts[1].toIntOrNull() ?: return false
+        val salt = decodeOrNull(parts[2]) ?: return false
+        val expected = decodeOrNull(parts[3]) ?: return false
+        // Constant-time comparison, so timing does not reveal how much of the hash matched
+        return MessageDigest.isEqual(expected, derive(password, salt, iterations))
+    }
+
+    private fun decodeOrNull(value: String): ByteArray? =
+        try {
+            decoder.decode(value)
+        } catch (_: IllegalArgumentException) {
+            null
+        }
+
+    private fun derive(password: String, salt: ByteArray, iterations: Int): ByteArray {
+        val spec = PBEKeySpec(password.toCharArray(), salt, iterations, KEY_BITS)
+        return try {
+            SecretKeyFactory.getInstance(ALGORITHM).generateSecret(spec).encoded
+        } finally {
+            spec.clearPassword()
+        }
+    }
+
+    companion object {
+        private const val ALGORITHM = "PBKDF2WithHmacSHA512"
+        private const val ALGORITHM_ID = "pbkdf2-sha512"
+        private const val ITERATIONS = 210_000
+        private const val SALT_BYTES = 16
+        private const val KEY_BITS = 512
+        private const val SEPARATOR = "$"
+        private const val PARTS = 4
+        private val encoder = Base64.getEncoder().withoutPadding()
+        private val decoder = Base64.getDecoder()
+    }
+}
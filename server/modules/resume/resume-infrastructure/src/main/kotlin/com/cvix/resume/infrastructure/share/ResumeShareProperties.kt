@@ -0,0 +1,12 @@
+package com.cvix.resume.infrastructure.share
+
+import org.springframework.boot.context.properties.ConfigurationProperties
+
+/**
+ * Configuration properties for public resume shares.
+ */
+@ConfigurationProperties(prefix = "resume.share")
+data class ResumeShareProperties(
+    /** Address of the site hosting the shared resumes; share IDs are appended to it. */
+    val baseUrl: String = "http://localhost:7769",
+)
@@ -0,0 +1,69 @@
+package com.cvix.resume.infrastructure.template.mapper
+
+import com.cvix.resume.infrastructure.template.model.TemplateStyleModel
+
+/**
+ * Maps resolved template parameters to the LaTeX values a template renders with.
+ * Unknown values fall back to the defaults, which match the template's original look.
+ */
+object TemplateStyleMapper {
+
+    private data class Font(val latexPackage: String, val options: String? = null)
+
+    private val COLORS = mapOf(
+        "black" to "0, 0, 0",
+        "blue" to "0, 79, 144",
+        "green" to "0, 110, 51",
+        "red" to "164, 22, 26",
+        "gray" to "90, 90, 90",
+    )
+
+    private val FONTS = mapOf(
+        "Charter" to Font("charter"),
+        "SourceSansPro" to Font("sourcesanspro", "default"),
+        "Raleway" to Font("raleway", "default"),
+        "LatinModern" to Font("lmodern"),
+    )
+
+    // Space before and after section titles
+    private val SPACINGS = mapOf(
+        "compact" to ("0.2 cm" to "0.1 cm"),
+        "normal" to ("0.3 cm" to "0.2 cm"),
+        "comfortable" to ("0.45 cm" to "0.3 cm"),
+    )
+
+    // Space around and between highlight items
+    private val DENSITIES = mapOf(
+        "compact" to "0.05 cm",
+        "comfortable" to "0.10 cm",
+        "spacious" to "0.18 cm",
+    )
+
+    private const val DEFAULT_COLOR = "black"
+    private const val DEFAULT_FONT = "Charter"
+    private const val DEFAULT_SPACING = "normal"
+    private const val DEFAULT_DENSITY = "comfortable"
+
+    /**
+     * Builds the style a template renders with.
+     *
+     * @param params The resolved template parameters, keyed by parameter key
+     * @return The style model, with defaults for missing or unknown values
+     */
+    fun toTemplateStyle(params: Map<String, Any>): TemplateStyleModel {
+        fun <T> pick(table: Map<String, T>, key: String, default: String): T =
+            (params[key] as? String)?.let(table::get) ?: table.getValue(default)
+
+        val font = pick(FONTS, "fontFamily", DEFAULT_FONT)
+        val (spaceBefore, spaceAfter) = pick(SPACINGS, "spacing", DEFAULT_SPACING)
+        return TemplateStyleModel(
+            primaryColor = pick(COLORS, "colorPalette", DEFAULT_COLOR),
+            fontPackage = font.latexPackage,
+            fontOptions = font.options,
+            sectionSpaceBefore = spaceBefore,
+            sectionSpaceAfter = spaceAfter,
+            itemSpacing = pick(DENSITIES, "density", DEFAULT_DENSITY),
+            highlightSkills = params["highlightSkills"] as? Boolean ?: true,
+        )
+    }
+}
@@ -3,6 +3,8 @@ package com.cvix.resume.infrastructure.template.metadata
 import com.cvix.resume.domain.Locale
 import com.cvix.resume.domain.TemplateMetadata
 import com.cvix.resume.domain.TemplateMetadataLoader
+import com.cvix.resume.domain.TemplateParamDefinition
+import com.cvix.resume.domain.TemplateParamKind
 import com.cvix.resume.domain.TemplateParams
 import com.cvix.subscription.domain.SubscriptionTier
 import java.io.InputStream
@@ -89,6 +91,7 @@ class YamlTemplateMetadataLoader : TemplateMetadataLoader {
             templatePath = raw.templatePath!!,
             previewUrl = raw.previewUrl ?: "https://placehold.co/300x600.png",
             params = parseTemplateParams(params),
+            paramsSchema = parseParamsSchema(params, sourceName),
             requiredSubscriptionTier = parseSubscriptionTier(raw.requiredSubscriptionTier),
         ).also {
             log.debug(
@@ -194,6 +197,96 @@ class YamlTemplateMetadataLoader : TemplateMetadataLoader {
         customParams = extractCustomParams(paramsData),
     )
 
+    /**
+     * Parses the parameter schema from metadata.
+     * Each parameter is either a plain default value or a map declaring its allowed values.
+     * The kind is taken from `type` when present, otherwise inferred from the options and default:
+     * ```yaml
+     * params:
+     *   fontFamily:
+     *     default: Charter
+     *     options: [Charter, SourceSansPro]
+     *   columns:
+     *     default: 1
+     *     min: 1
+     *     max: 3
+     *   highlightSkills:
+     *     default: true
+     *     type: boolean
+     * ```
+     * @param paramsData The raw params data from YAML
+     * @param sourceName The source name for logging
+     * @return The parameter definitions, in declaration order
+     */
+    private fun parseParamsSchema(
+        paramsData: Map<String, Any>,
+        sourceName: String
+    ): List<TemplateParamDefinition> = paramsData.mapNotNull { (key, declared) ->
+        parseParamDefinition(key, declared).also {
+            if (it == null) {
+                log.warn("Ignoring unsupported parameter '{}' in {}", key, sourceName)
+            }
+        }
+    }
+
+    /**
+     * Builds the definition of one declared parameter, or null if its kind cannot be told.
+     */
+    private fun parseParamDefinition(key: String, declared: Any?): TemplateParamDefinition? {
+        val config = declared as? Map<*, *> ?: mapOf("default" to declared)
+        val default = config["default"]
+        val options = (config["options"] as? List<*>)?.map { it.toString() }
+        return when (inferParamKind(config["type"], default, options)) {
+            TemplateParamKind.SELECT -> selectDefinition(key, default, options.orEmpty())
+            TemplateParamKind.NUMBER -> TemplateParamDefinition(
+                key = key,
+                kind = TemplateParamKind.NUMBER,
+                default = (default as? Number)?.toDouble(),
+                min = (config["min"] as? Number)?.toDouble(),
+                max = (config["max"] as? Number)?.toDouble(),
+                step = (config["step"] as? Number)?.toDouble(),
+            )
+            TemplateParamKind.TEXT ->
+                TemplateParamDefinition(key, TemplateParamKind.TEXT, default?.toString())
+            TemplateParamKind.BOOLEAN ->
+                TemplateParamDefinition(key, TemplateParamKind.BOOLEAN, default == true)
+            null -> null
+        }
+    }
+
+    /**
+     * Takes the kind from the declared `type`, otherwise infers it from the options and default.
+     */
+    private fun inferParamKind(
+        type: Any?,
+        default: Any?,
+        options: List<String>?
+    ): TemplateParamKind? =
+        PARAM_KINDS[type?.toString()?.lowercase()] ?: when {
+            options != null -> TemplateParamKind.SELECT
+            default is Boolean -> TemplateParamKind.BOOLEAN
+            default is Number -> TemplateParamKind.NUMBER
+            default is String -> TemplateParamKind.TEXT
+            else -> null
+        }
+
+    /**
+     * Builds a select parameter, adding the default to the options when they omit it.
+     */
+    private fun selectDefinition(
+        key: String,
+        default: Any?,
+        options: List<String>
+    ): TemplateParamDefinition? {
+        val fallback = default?.toString() ?: options.firstOrNull() ?: return null
+        return TemplateParamDefinition(
+            key = key,
+            kind = TemplateParamKind.SELECT,
+            default = fallback,
+            options = if (fallback in options) options else listOf(fallback) + options,
+        )
+    }
+
     /**
      * Extracts the default value from a parameter configuration.
      * Handles both simple string values and nested objects with "default" key.
@@ -221,5 +314,6 @@ class YamlTemplateMetadataLoader : TemplateMetadataLoader {
     companion object {
         private val log = LoggerFactory.getLogger(YamlTemplateMetadataLoader::class.java)
         private val STANDARD_PARAM_KEYS = setOf("colorPalette", "fontFamily", "spacing", "density")
+        private val PARAM_KINDS = TemplateParamKind.entries.associateBy { it.name.lowercase() }
     }
 }
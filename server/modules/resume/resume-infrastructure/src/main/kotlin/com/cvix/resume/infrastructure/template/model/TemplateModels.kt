@@ -136,3 +136,17 @@ data class ResumeTemplateModel(
     val interests: List<InterestTemplateModel>,
     val references: List<ReferenceTemplateModel>,
 )
+
+/**
+ * Template-friendly model for the style parameters of a template.
+ * Values are LaTeX fragments taken from fixed tables, never from user input.
+ */
+data class TemplateStyleModel(
+    val primaryColor: String,
+    val fontPackage: String,
+    val fontOptions: String?,
+    val sectionSpaceBefore: String,
+    val sectionSpaceAfter: String,
+    val itemSpacing: String,
+    val highlightSkills: Boolean,
+)
@@ -5,6 +5,7 @@ import com.cvix.resume.domain.TemplateRenderer
 import com.cvix.resume.domain.exception.LaTeXInjectionException
 import com.cvix.resume.domain.exception.TemplateRenderingException
 import com.cvix.resume.infrastructure.template.mapper.ResumeTemplateMapper
+import com.cvix.resume.infrastructure.template.mapper.TemplateStyleMapper
 import com.cvix.resume.infrastructure.template.validator.TemplateValidator
 import java.time.Clock
 import java.time.YearMonth
@@ -47,10 +48,16 @@ class LatexTemplateRenderer(private val clock: Clock = Clock.systemDefaultZone()
      * (e.g., "templates/resume/engineering/en/engineering.stg")
      * @param resume The validated resume data to render
      * @param locale The locale for template selection (e.g., "en", "es")
+     * @param params The resolved template parameters (e.g., colorPalette, fontFamily)
      * @return Complete LaTeX document source ready for compilation
      * @throws TemplateRenderingException if rendering fails
      */
-    override fun render(templatePath: String, resume: Resume, locale: String): String {
+    override fun render(
+        templatePath: String,
+        resume: Resume,
+        locale: String,
+        params: Map<String, Any>
+    ): String {
         try {
             // Defensive path validation to prevent path traversal
             // validateTemplatePath(templatePath)
@@ -74,6 +81,10 @@ class LatexTemplateRenderer(private val clock: Clock = Clock.systemDefaultZone()
             template.add("i18n", i18nMap)
             template.add("locale", locale)
             template.add("lastUpdated", formatLastUpdatedDate(locale))
+            // Templates that predate style parameters do not declare the attribute
+            if (template.impl.formalArguments?.containsKey("style") == true) {
+                template.add("style", TemplateStyleMapper.toTemplateStyle(params))
+            }
 
             // Render template
             val rendered = template.render()
@@ -0,0 +1,83 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.ControllerTest
+import com.cvix.resume.application.share.ListShareViewsQuery
+import com.cvix.resume.application.share.ShareViewResponse
+import com.cvix.resume.application.share.ShareViewResponses
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.slot
+import java.time.Instant
+import java.util.*
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.springframework.test.web.reactive.server.WebTestClient
+
+internal class ListShareViewsControllerTest : ControllerTest() {
+    private val controller = ListShareViewsController(mediator)
+    override val webTestClient: WebTestClient = buildWebTestClient(controller)
+    private val resumeId = UUID.randomUUID()
+    private val viewId = UUID.randomUUID()
+    private val since = "2026-05-01T00:00:00Z"
+
+    @BeforeEach
+    override fun setUp() {
+        super.setUp()
+        coEvery { mediator.send(any<ListShareViewsQuery>()) } returns ShareViewResponses(
+            listOf(
+                ShareViewResponse(
+                    id = viewId,
+                    shareId = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh",
+                    viewedAt = Instant.parse("2026-05-02T09:30:00Z"),
+                    referrer = null,
+                    device = "desktop",
+                    pdfDownloaded = true,
+                ),
+            ),
+        )
+    }
+
+    @Test
+    fun `should list the visits of a resume`() {
+        webTestClient.get()
+            .uri("/api/resume/$resumeId/share/views?since=$since")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .exchange()
+            .expectStatus().isOk
+            .expectBody()
+            .jsonPath("$.data.length()").isEqualTo(1)
+            .jsonPath("$.data[0].id").isEqualTo(viewId.toString())
+            .jsonPath("$.data[0].device").isEqualTo("desktop")
+            .jsonPath("$.data[0].pdfDownloaded").isEqualTo(true)
+
+        val querySlot = slot<ListShareViewsQuery>()
+        coVerify(exactly = 1) { mediator.send(capture(querySlot)) }
+        assertEquals(resumeId, querySlot.captured.resumeId)
+        assertEquals(userId, querySlot.captured.userId)
+        assertEquals(Instant.parse(since), querySlot.captured.since)
+    }
+
+    @Test
+    fun `should return 400 for an invalid start date`() {
+        webTestClient.get()
+            .uri("/api/resume/$resumeId/share/views?since=last-week")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .exchange()
+            .expectStatus().isBadRequest
+        coVerify(exactly = 0) { mediator.send(any<ListShareViewsQuery>()) }
+    }
+
+    @Test
+    fun `should return 404 when the resume is not owned by the user`() {
+        coEvery { mediator.send(any<ListShareViewsQuery>()) } throws
+            ResumeNotFoundException("Resume not found: $resumeId")
+
+        webTestClient.get()
+            .uri("/api/resume/$resumeId/share/views?since=$since")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .exchange()
+            .expectStatus().isNotFound
+    }
+}
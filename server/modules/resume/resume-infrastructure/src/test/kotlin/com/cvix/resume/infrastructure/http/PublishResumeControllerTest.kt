@@ -0,0 +1,108 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.ControllerTest
+import com.cvix.resume.ResumeTestFixtures.createResumeContentRequest
+import com.cvix.resume.application.share.PublishResumeCommand
+import com.cvix.resume.application.share.ResumeShareResponse
+import com.cvix.resume.domain.Locale
+import com.cvix.resume.domain.exception.ResumeNotFoundException
+import com.cvix.resume.infrastructure.http.request.PublishResumeRequest
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.slot
+import java.time.Instant
+import java.util.*
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.springframework.test.web.reactive.server.WebTestClient
+
+internal class PublishResumeControllerTest : ControllerTest() {
+    private val controller = PublishResumeController(mediator)
+    override val webTestClient: WebTestClient = buildWebTestClient(controller)
+    private val resumeId = UUID.randomUUID()
+    private val shareId = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh"
+    private val expiresAt = Instant.parse("2099-01-01T00:00:00Z")
+
+    @BeforeEach
+    override fun setUp() {
+        super.setUp()
+        coEvery { mediator.send(any<PublishResumeCommand>()) } returns ResumeShareResponse(
+            id = shareId,
+            resumeId = resumeId,
+            url = "https://share.example.com/$shareId",
+            expiresAt = expiresAt,
+            passwordProtected = true,
+            createdAt = Instant.now(),
+        )
+    }
+
+    private fun request(expiresAt: String? = this.expiresAt.toString()) = PublishResumeRequest(
+        content = createResumeContentRequest(),
+        expiresAt = expiresAt,
+        password = "s3cret-pass",
+        templateId = "engineering",
+        locale = "es-ES",
+        trackViews = false,
+    )
+
+    @Test
+    fun `should publish a resume`() {
+        webTestClient.put()
+            .uri("/api/resume/$resumeId/share")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .bodyValue(request())
+            .exchange()
+            .expectStatus().isOk
+            .expectBody()
+            .jsonPath("$.id").isEqualTo(shareId)
+            .jsonPath("$.url").isEqualTo("https://share.example.com/$shareId")
+            .jsonPath("$.passwordProtected").isEqualTo(true)
+
+        val commandSlot = slot<PublishResumeCommand>()
+        coVerify(exactly = 1) { mediator.send(capture(commandSlot)) }
+        assertEquals(resumeId, commandSlot.captured.resumeId)
+        assertEquals(userId, commandSlot.captured.userId)
+        assertEquals(expiresAt, commandSlot.captured.expiresAt)
+        assertEquals("s3cret-pass", commandSlot.captured.password)
+        assertEquals(Locale.ES, commandSlot.captured.locale)
+        assertEquals(false, commandSlot.captured.trackViews)
+    }
+
+    @Test
+    fun `should return 400 for an invalid expiry date`() {
+        webTestClient.put()
+            .uri("/api/resume/$resumeId/share")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .bodyValue(request(expiresAt = "next week"))
+            .exchange()
+            .expectStatus().isBadRequest
+        coVerify(exactly = 0) { mediator.send(any<PublishResumeCommand>()) }
+    }
+
+    @Test
+    fun `should return 400 for an expiry date in the past`() {
+        coEvery { mediator.send(any<PublishResumeCommand>()) } throws
+            IllegalArgumentException("Share expiry date must be in the future")
+
+        webTestClient.put()
+            .uri("/api/resume/$resumeId/share")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .bodyValue(request(expiresAt = "2000-01-01T00:00:00Z"))
+            .exchange()
+            .expectStatus().isBadRequest
+    }
+
+    @Test
+    fun `should return 404 when the resume is not owned by the user`() {
+        coEvery { mediator.send(any<PublishResumeCommand>()) } throws
+            ResumeNotFoundException("Resume not found: $resumeId")
+
+        webTestClient.put()
+            .uri("/api/resume/$resumeId/share")
+            .header("X-Workspace-Id", workspaceId.toString())
+            .bodyValue(request())
+            .exchange()
+            .expectStatus().isNotFound
+    }
+}
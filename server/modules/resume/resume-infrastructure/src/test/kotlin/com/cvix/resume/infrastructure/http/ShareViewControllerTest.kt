@@ -0,0 +1,114 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.ControllerTest
+import com.cvix.resume.application.share.MarkSharePdfDownloadedCommand
+import com.cvix.resume.application.share.RecordShareViewCommand
+import com.cvix.resume.domain.ShareDevice
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.slot
+import java.util.*
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.springframework.http.MediaType
+import org.springframework.test.web.reactive.server.WebTestClient
+
+internal class ShareViewControllerTest : ControllerTest() {
+    private val controller = ShareViewController(mediator)
+    override val webTestClient: WebTestClient = buildWebTestClient(controller)
+    private val shareId = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh"
+    private val viewId = UUID.randomUUID()
+
+    @BeforeEach
+    override fun setUp() {
+        super.setUp()
+        coEvery { mediator.send(any<RecordShareViewCommand>()) } returns Unit
+        coEvery { mediator.send(any<MarkSharePdfDownloadedCommand>()) } returns Unit
+    }
+
+    @Test
+    fun `should record a visit`() {
+        webTestClient.put()
+            .uri("/api/public/resume-shares/$shareId/views/$viewId")
+            .header(SharedResumeController.SHARE_PASSWORD_HEADER, "s3cret-pass")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("referrer" to "www.linkedin.com", "device" to "mobile", "pdfDownloaded" to false))
+            .exchange()
+            .expectStatus().isNoContent
+
+        val commandSlot = slot<RecordShareViewCommand>()
+        coVerify(exactly = 1) { mediator.send(capture(commandSlot)) }
+        assertEquals(shareId, commandSlot.captured.shareId)
+        assertEquals(viewId, commandSlot.captured.viewId)
+        assertEquals("s3cret-pass", commandSlot.captured.password)
+        assertEquals("www.linkedin.com", commandSlot.captured.referrer)
+        assertEquals(ShareDevice.MOBILE, commandSlot.captured.device)
+        assertEquals(false, commandSlot.captured.pdfDownloaded)
+    }
+
+    @Test
+    fun `should return 400 for an unknown device class`() {
+        webTestClient.put()
+            .uri("/api/public/resume-shares/$shareId/views/$viewId")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("referrer" to null, "device" to "toaster", "pdfDownloaded" to false))
+            .exchange()
+            .expectStatus().isBadRequest
+        coVerify(exactly = 0) { mediator.send(any<RecordShareViewCommand>()) }
+    }
+
+    @Test
+    fun `should return 400 for an invalid visit ID`() {
+        webTestClient.put()
+            .uri("/api/public/resume-shares/$shareId/views/not-a-uuid")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("device" to "desktop"))
+            .exchange()
+            .expectStatus().isBadRequest
+        coVerify(exactly = 0) { mediator.send(any<RecordShareViewCommand>()) }
+    }
+
+    @Test
+    fun `should return 401 when the password is missing or wrong`() {
+        coEvery { mediator.send(any<RecordShareViewCommand>()) } throws
+            ResumeSharePasswordException("Resume share requires a password: $shareId")
+
+        webTestClient.put()
+            .uri("/api/public/resume-shares/$shareId/views/$viewId")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("device" to "desktop"))
+            .exchange()
+            .expectStatus().isUnauthorized
+    }
+
+    @Test
+    fun `should record the PDF download of a visit`() {
+        webTestClient.patch()
+            .uri("/api/public/resume-shares/$shareId/views/$viewId")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("pdfDownloaded" to true))
+            .exchange()
+            .expectStatus().isNoContent
+
+        val commandSlot = slot<MarkSharePdfDownloadedCommand>()
+        coVerify(exactly = 1) { mediator.send(capture(commandSlot)) }
+        assertEquals(shareId, commandSlot.captured.shareId)
+        assertEquals(viewId, commandSlot.captured.viewId)
+    }
+
+    @Test
+    fun `should return 410 when the share expired`() {
+        coEvery { mediator.send(any<MarkSharePdfDownloadedCommand>()) } throws
+            ResumeShareExpiredException("Resume share expired: $shareId")
+
+        webTestClient.patch()
+            .uri("/api/public/resume-shares/$shareId/views/$viewId")
+            .contentType(MediaType.APPLICATION_JSON)
+            .bodyValue(mapOf("pdfDownloaded" to true))
+            .exchange()
+            .expectStatus().isEqualTo(410)
+    }
+}
@@ -0,0 +1,138 @@
+package com.cvix.resume.infrastructure.http
+
+import com.cvix.ControllerTest
+import com.cvix.resume.ResumeTestFixtures
+import com.cvix.resume.application.share.GenerateSharedResumeCommand
+import com.cvix.resume.application.share.GetSharedResumeQuery
+import com.cvix.resume.application.share.SharedResumeResponse
+import com.cvix.resume.domain.exception.ResumeShareExpiredException
+import com.cvix.resume.domain.exception.ResumeShareNotFoundException
+import com.cvix.resume.domain.exception.ResumeSharePasswordException
+import io.mockk.coEvery
+import io.mockk.coVerify
+import io.mockk.slot
+import java.io.ByteArrayInputStream
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertNull
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.springframework.http.CacheControl
+import org.springframework.http.HttpHeaders
+import org.springframework.http.MediaType
+import org.springframework.test.web.reactive.server.WebTestClient
+
+internal class SharedResumeControllerTest : ControllerTest() {
+    private val controller = SharedResumeController(mediator)
+    override val webTestClient: WebTestClient = buildWebTestClient(controller)
+    private val shareId = "q3JzT0d6b1hKcW5VbWl4dGZ2cGJuT2Fh"
+
+    @BeforeEach
+    override fun setUp() {
+        super.setUp()
+        coEvery { mediator.send(any<GetSharedResumeQuery>()) } returns SharedResumeResponse(
+            id = shareId,
+            resume = ResumeTestFixtures.createValidResume(),
+            locale = "es",
+            templateId = "engineering",
+            expiresAt = null,
+            trackViews = true,
+        )
+        coEvery { mediator.send(any<GenerateSharedResumeCommand>()) } returns
+            ByteArrayInputStream("PDF content".toByteArray())
+    }
+
+    @Test
+    fun `should return the published sections only`() {
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId")
+            .exchange()
+            .expectStatus().isOk
+            .expectHeader().cacheControl(CacheControl.noStore())
+            .expectBody()
+            .jsonPath("$.id").isEqualTo(shareId)
+            .jsonPath("$.locale").isEqualTo("es")
+            .jsonPath("$.trackViews").isEqualTo(true)
+            .jsonPath("$.resume.work.length()").isEqualTo(1)
+            .jsonPath("$.resume.education").isEmpty
+
+        val querySlot = slot<GetSharedResumeQuery>()
+        coVerify(exactly = 1) { mediator.send(capture(querySlot)) }
+        assertEquals(shareId, querySlot.captured.shareId)
+        assertNull(querySlot.captured.password)
+    }
+
+    @Test
+    fun `should pass the password header to the query`() {
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId")
+            .header(SharedResumeController.SHARE_PASSWORD_HEADER, "s3cret-pass")
+            .exchange()
+            .expectStatus().isOk
+
+        val querySlot = slot<GetSharedResumeQuery>()
+        coVerify(exactly = 1) { mediator.send(capture(querySlot)) }
+        assertEquals("s3cret-pass", querySlot.captured.password)
+    }
+
+    @Test
+    fun `should return 401 when the password is missing or wrong`() {
+        coEvery { mediator.send(any<GetSharedResumeQuery>()) } throws
+            ResumeSharePasswordException("Wrong password for resume share: $shareId")
+
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId")
+            .header(SharedResumeController.SHARE_PASSWORD_HEADER, "wrong-pass")
+            .exchange()
+            .expectStatus().isUnauthorized
+    }
+
+    @Test
+    fun `should return 404 when the share does not exist`() {
+        coEvery { mediator.send(any<GetSharedResumeQuery>()) } throws
+            ResumeShareNotFoundException("Resume share not found")
+
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId")
+            .exchange()
+            .expectStatus().isNotFound
+    }
+
+    @Test
+    fun `should return 410 when the share expired`() {
+        coEvery { mediator.send(any<GetSharedResumeQuery>()) } throws
+            ResumeShareExpiredException("Resume share expired: $shareId")
+
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId")
+            .exchange()
+            .expectStatus().isEqualTo(410)
+    }
+
+    @Test
+    fun `should download the PDF of a published resume`() {
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId/pdf")
+            .header(SharedResumeController.SHARE_PASSWORD_HEADER, "s3cret-pass")
+            .exchange()
+            .expectStatus().isOk
+            .expectHeader().contentType(MediaType.APPLICATION_PDF)
+            .expectHeader().valueEquals(HttpHeaders.CONTENT_DISPOSITION, "attachment; filename=\"resume.pdf\"")
+            .expectBody(ByteArray::class.java).isEqualTo("PDF content".toByteArray())
+
+        val commandSlot = slot<GenerateSharedResumeCommand>()
+        coVerify(exactly = 1) { mediator.send(capture(commandSlot)) }
+        assertEquals(shareId, commandSlot.captured.shareId)
+        assertEquals("s3cret-pass", commandSlot.captured.password)
+    }
+
+    @Test
+    fun `should not generate the PDF of an expired share`() {
+        coEvery { mediator.send(any<GenerateSharedResumeCommand>()) } throws
+            ResumeShareExpiredException("Resume share expired: $shareId")
+
+        webTestClient.get()
+            .uri("/api/public/resume-shares/$shareId/pdf")
+            .exchange()
+            .expectStatus().isEqualTo(410)
+    }
+}
@@ -59,6 +59,12 @@ internal class TemplateControllerTest : ControllerTest() {
             .jsonPath("$.data[0].params.density").isEqualTo("comfortable")
             .jsonPath("$.data[0].params.customParams.includePhoto").isEqualTo(true)
             .jsonPath("$.data[0].params.customParams.highlightSkills").isEqualTo(true)
+            .jsonPath("$.data[0].paramsSchema.length()").isEqualTo(2)
+            .jsonPath("$.data[0].paramsSchema[0].key").isEqualTo("fontFamily")
+            .jsonPath("$.data[0].paramsSchema[0].kind").isEqualTo("select")
+            .jsonPath("$.data[0].paramsSchema[0].options[1]").isEqualTo("SourceSansPro")
+            .jsonPath("$.data[0].paramsSchema[1].kind").isEqualTo("boolean")
+            .jsonPath("$.data[0].paramsSchema[1].default").isEqualTo(true)
             .jsonPath("$.data[1].id").isEqualTo("modern")
             .jsonPath("$.data[1].name").isEqualTo("Modern Resume")
             .jsonPath("$.data[1].version").isEqualTo("0.1.0")
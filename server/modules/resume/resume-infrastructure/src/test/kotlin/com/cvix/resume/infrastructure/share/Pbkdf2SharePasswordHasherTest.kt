@@ -0,0 +1,42 @@
+package com.cvix.resume.infrastructure.share
+
+import com.cvix.UnitTest
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.shouldNotBe
+import io.kotest.matchers.string.shouldNotContain
+import io.kotest.matchers.string.shouldStartWith
+import org.junit.jupiter.api.Test
+
+@UnitTest
+internal class Pbkdf2SharePasswordHasherTest {
+    private val hasher = Pbkdf2SharePasswordHasher()
+
+    @Test
+    fun `should not store the password in clear`() {
+        val hash = hasher.hash("s3cret-pass")
+
+        hash shouldStartWith "pbkdf2-sha512$"
+        hash shouldNotContain "s3cret-pass"
+    }
+
+    @Test
+    fun `should salt every hash`() {
+        hasher.hash("s3cret-pass") shouldNotBe hasher.hash("s3cret-pass")
+    }
+
+    @Test
+    fun `should match only the hashed password`() {
+        val hash = hasher.hash("s3cret-pass")
+
+        hasher.matches("s3cret-pass", hash) shouldBe true
+        hasher.matches("s3cret-pas", hash) shouldBe false
+        hasher.matches("S3CRET-PASS", hash) shouldBe false
+    }
+
+    @Test
+    fun `should reject malformed hashes`() {
+        hasher.matches("s3cret-pass", "s3cret-pass") shouldBe false
+        hasher.matches("s3cret-pass", "pbkdf2-sha512\$many\$salt\$hash") shouldBe false
+        hasher.matches("s3cret-pass", "pbkdf2-sha512\$1\$not base64!\$hash") shouldBe false
+    }
+}
@@ -362,6 +362,37 @@ internal class LatexTemplateRendererTest {
         )
     }
 
+    /**
+     * Test that template params change the style of the document.
+     */
+    @Test
+    fun `should render the document with the template params`() {
+        // Arrange
+        val resumeJsonData: GenerateResumeRequest =
+            FixtureDataLoader.fromResource("data/json/resume/requests/john-doe.json")
+        val resumeData = ResumeRequestMapper.toDomain(resumeJsonData)
+        val params = mapOf(
+            "colorPalette" to "blue",
+            "fontFamily" to "SourceSansPro",
+            "spacing" to "compact",
+            "density" to "spacious",
+            "highlightSkills" to false,
+        )
+
+        // Act
+        val result = renderer.render(defaultTemplatePath, resumeData, "en", params)
+
+        // Assert
+        assertValidLatexStructure(result)
+        assertTrue(result.contains("\\definecolor{primaryColor}{RGB}{0, 79, 144}"))
+        assertTrue(result.contains("\\usepackage[default]{sourcesanspro}"))
+        assertFalse(result.contains("\\usepackage{charter}"))
+        assertTrue(result.contains("topsep=0.18 cm"))
+        val skillName = resumeData.skills.first().name.value
+        assertTrue(result.contains("$skillName:"))
+        assertFalse(result.contains("\\textbf{$skillName:}"))
+    }
+
     // Helper methods
 
     /**
@@ -1,6 +1,8 @@
 package com.cvix.resume.infrastructure.template.metadata
 
 import com.cvix.UnitTest
+import com.cvix.resume.domain.TemplateParamDefinition
+import com.cvix.resume.domain.TemplateParamKind
 import com.cvix.subscription.domain.SubscriptionTier
 import io.kotest.matchers.shouldBe
 import java.io.ByteArrayInputStream
@@ -112,4 +114,60 @@ class YamlTemplateMetadataLoaderTest {
 
         metadata.requiredSubscriptionTier shouldBe SubscriptionTier.FREE
     }
+
+    @Test
+    fun `should parse the params schema from YAML`() {
+        val yaml = """
+            id: test
+            name: Test Resume
+            version: 1.0.0
+            templatePath: classpath:templates/resume/test/test.stg
+            params:
+              fontFamily:
+                default: Charter
+                options: [Charter, SourceSansPro]
+              spacing:
+                default: relaxed
+                options: [compact, normal]
+              columns:
+                default: 1
+                min: 1
+                max: 3
+              footer: Available for relocation
+              highlightSkills:
+                default: true
+                type: boolean
+        """.trimIndent()
+
+        val metadata = runBlocking {
+            loader.loadTemplateMetadata(
+                ByteArrayInputStream(yaml.toByteArray()),
+                "test-metadata.yaml",
+            )
+        }
+
+        metadata.paramsSchema shouldBe listOf(
+            TemplateParamDefinition(
+                key = "fontFamily",
+                kind = TemplateParamKind.SELECT,
+                default = "Charter",
+                options = listOf("Charter", "SourceSansPro"),
+            ),
+            TemplateParamDefinition(
+                key = "spacing",
+                kind = TemplateParamKind.SELECT,
+                default = "relaxed",
+                options = listOf("relaxed", "compact", "normal"),
+            ),
+            TemplateParamDefinition(
+                key = "columns",
+                kind = TemplateParamKind.NUMBER,
+                default = 1.0,
+                min = 1.0,
+                max = 3.0,
+            ),
+            TemplateParamDefinition("footer", TemplateParamKind.TEXT, "Available for relocation"),
+            TemplateParamDefinition("highlightSkills", TemplateParamKind.BOOLEAN, true),
+        )
+    }
 }
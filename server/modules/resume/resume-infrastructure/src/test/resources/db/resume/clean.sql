@@ -1,3 +1,7 @@
 -- file: clean.sql
 DELETE
+FROM share_views;
+DELETE
+FROM resume_shares;
+DELETE
 FROM resumes;
@@ -60,6 +60,7 @@ export default defineConfig({
 			"./client/packages/utilities",
 			"./client/packages/astro-ui",
 			"./client/packages/i18n",
+			"./client/packages/ui",
 		],
 	},
 });